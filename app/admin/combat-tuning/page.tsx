@@ -15,6 +15,7 @@ import {
   type CombatTuningConfigStatus,
   type CombatTuningSnapshot,
 } from "@/lib/config/combatTuningShared";
+import { TuningImpactPanel } from "@/app/admin/components/TuningImpactPanel";
 
 type CombatTuningSetListItem = {
   id: string;
@@ -624,6 +625,10 @@ export default function AdminCombatTuningPage() {
         </div>
       </section>
 
+      {isDraft && selectedSet ? (
+        <TuningImpactPanel kind="combat" setId={selectedSet.setId} isDirty={isDirty} />
+      ) : null}
+
       <section className="space-y-4 rounded border border-zinc-800 bg-zinc-950/60 p-4">
         <div className="grid gap-3 text-xs sm:grid-cols-4">
           <div className="rounded border border-zinc-800 bg-zinc-950/40 p-3">
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ForgeCostImpactReport, ForgeItemPriceSnapshot } from "@/lib/config/forgeCostSetsShared";
+
+type ForgeCostImpactPanelProps = {
+  setId: string;
+};
+
+function formatPrice(snapshot: ForgeItemPriceSnapshot): string {
+  return `${snapshot.spentFp} / ${snapshot.totalFp} FP`;
+}
+
+/** Items whose Forge price would change if this cost set were activated. */
+export function ForgeCostImpactPanel({ setId }: ForgeCostImpactPanelProps) {
+  const [report, setReport] = useState<ForgeCostImpactReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [setId]);
+
+  async function runReport() {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/forge-cost-sets/impact?setId=${encodeURIComponent(setId)}`, {
+        cache: "no-store",
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | (ForgeCostImpactReport & { error?: string })
+        | null;
+      if (!response.ok || !payload?.entries) {
+        throw new Error(payload?.error ?? "Failed to build impact report");
+      }
+      setReport(payload);
+    } catch (reportError: unknown) {
+      setError(String((reportError as { message?: unknown })?.message ?? "Failed to build impact report"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const overBudget = report?.entries.filter((entry) => entry.becomesOverBudget).length ?? 0;
+
+  return (
+    <section className="space-y-3 rounded-lg border border-zinc-800 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-base font-medium">Price Impact</h3>
+          <p className="text-xs text-zinc-500">Re-prices every Forge item under the active set and this set.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void runReport()}
+          disabled={loading}
+          className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-60"
+        >
+          {loading ? "Working..." : "Preview Impact"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-800 bg-red-950/30 p-2 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      {report ? (
+        <div className="space-y-2 text-sm">
+          <p className="text-zinc-400">
+            Scanned {report.scannedItems} items: {report.entries.length} change price, {overBudget} would go over
+            budget.
+          </p>
+          <ul className="max-h-[32rem] space-y-2 overflow-y-auto">
+            {report.entries.map((entry) => (
+              <li
+                key={entry.itemId}
+                className={`rounded border p-2 ${
+                  entry.becomesOverBudget ? "border-amber-700/60 bg-amber-950/20" : "border-zinc-800"
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{entry.name}</span>
+                  <span className="rounded border border-zinc-700 px-1.5 text-xs text-zinc-400">
+                    {entry.rarity} {entry.type} L{entry.level}
+                  </span>
+                  {entry.campaignName ? <span className="text-xs text-zinc-500">{entry.campaignName}</span> : null}
+                </div>
+                <p className="mt-1 text-xs text-zinc-400">
+                  {formatPrice(entry.before)} {"->"} {formatPrice(entry.after)} (
+                  {entry.spentDelta > 0 ? "+" : ""}
+                  {entry.spentDelta} FP spent)
+                </p>
+                {entry.becomesOverBudget ? (
+                  <p className="text-xs text-amber-200">Over budget by {Math.abs(entry.after.remainingFp)} FP.</p>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
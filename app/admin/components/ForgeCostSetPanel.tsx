@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ForgeCostSetListItem } from "@/lib/config/forgeCostSetsShared";
+import { ForgeCostImpactPanel } from "./ForgeCostImpactPanel";
+
+type AdminForgeCostSetsResponse = {
+  activeSetId: string;
+  sets: ForgeCostSetListItem[];
+  selectedSet: ForgeCostSetListItem;
+};
+
+type ForgeCostSetAction = "activateDraft" | "archiveSet" | "unarchiveSet" | "deleteArchivedSet";
+
+type ForgeCostSetPanelProps = {
+  /** Called whenever the selected set changes, including after lifecycle actions. */
+  onSelectedSetChange: (set: ForgeCostSetListItem) => void;
+};
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+async function fetchAdminForgeCostSets(setId?: string | null): Promise<AdminForgeCostSetsResponse> {
+  const query = setId ? `?setId=${encodeURIComponent(setId)}` : "";
+  const response = await fetch(`/api/admin/forge-cost-sets${query}`, { cache: "no-store" });
+  const payload = (await response.json().catch(() => null)) as
+    | (AdminForgeCostSetsResponse & { error?: string })
+    | null;
+  if (!response.ok || !payload?.selectedSet) {
+    throw new Error(payload?.error ?? "Failed to load forge cost sets");
+  }
+  return payload;
+}
+
+/** Draft/active/archive lifecycle for Forge cost sets; only drafts can be edited. */
+export function ForgeCostSetPanel({ onSelectedSetChange }: ForgeCostSetPanelProps) {
+  const [data, setData] = useState<AdminForgeCostSetsResponse | null>(null);
+  const [newDraftName, setNewDraftName] = useState("");
+  const [newDraftNotes, setNewDraftNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [flash, setFlash] = useState<string | null>(null);
+
+  function apply(payload: AdminForgeCostSetsResponse) {
+    setData(payload);
+    onSelectedSetChange(payload.selectedSet);
+  }
+
+  async function load(setId?: string | null) {
+    setLoading(true);
+    setError(null);
+    try {
+      apply(await fetchAdminForgeCostSets(setId));
+    } catch (loadError: unknown) {
+      setError(String((loadError as { message?: unknown })?.message ?? "Failed to load forge cost sets"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // Initial load only; later loads follow the selector.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function createDraft() {
+    setSaving(true);
+    setError(null);
+    setFlash(null);
+
+    try {
+      const response = await fetch("/api/admin/forge-cost-sets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "createDraftFromActive",
+          name: newDraftName,
+          notes: newDraftNotes,
+        }),
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | (AdminForgeCostSetsResponse & { error?: string })
+        | null;
+      if (!response.ok || !payload?.selectedSet) {
+        throw new Error(payload?.error ?? "Failed to create draft");
+      }
+      apply(payload);
+      setNewDraftName("");
+      setNewDraftNotes("");
+      setFlash("Created draft from active set.");
+    } catch (createError: unknown) {
+      setError(String((createError as { message?: unknown })?.message ?? "Failed to create draft"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function runAction(action: ForgeCostSetAction) {
+    const selectedSet = data?.selectedSet;
+    if (!selectedSet) return;
+    if (action === "deleteArchivedSet" && !window.confirm("This cannot be undone, are you sure?")) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setFlash(null);
+
+    try {
+      const response = await fetch("/api/admin/forge-cost-sets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, setId: selectedSet.id }),
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | (AdminForgeCostSetsResponse & { error?: string })
+        | null;
+      if (!response.ok || !payload?.selectedSet) {
+        throw new Error(payload?.error ?? `Failed to ${action}`);
+      }
+      apply(payload);
+      setFlash("Updated forge cost set.");
+    } catch (actionError: unknown) {
+      setError(String((actionError as { message?: unknown })?.message ?? "Failed to update set"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const selectedSet = data?.selectedSet ?? null;
+  const isDraft = selectedSet?.status === "DRAFT";
+  const isArchived = selectedSet?.status === "ARCHIVED";
+
+  return (
+    <div className="space-y-3">
+      {error ? (
+        <div className="rounded border border-red-700 bg-red-950/30 p-3 text-sm text-red-200">{error}</div>
+      ) : null}
+      {flash ? (
+        <div className="rounded border border-emerald-700 bg-emerald-950/30 p-3 text-sm text-emerald-200">
+          {flash}
+        </div>
+      ) : null}
+
+      <section className="grid gap-4 rounded border border-zinc-800 bg-zinc-950/60 p-4 lg:grid-cols-[1fr_1fr]">
+        <div className="space-y-3">
+          <label className="block space-y-1">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Forge Cost Set</span>
+            <select
+              value={selectedSet?.id ?? ""}
+              onChange={(event) => void load(event.target.value)}
+              disabled={loading || saving}
+              className="w-full rounded border border-zinc-700 bg-zinc-950 px-2 py-2 text-sm"
+            >
+              {data?.sets.map((set) => (
+                <option key={set.id} value={set.id}>
+                  {set.name} ({set.status}
+                  {set.id === data.activeSetId ? ", active" : ""})
+                </option>
+              ))}
+            </select>
+          </label>
+          {selectedSet ? (
+            <div className="space-y-1 text-xs text-zinc-500">
+              <p>Slug: {selectedSet.slug}</p>
+              <p>Updated: {formatDateTime(selectedSet.updatedAt)}</p>
+              <p>Activated: {formatDateTime(selectedSet.activatedAt)}</p>
+              <p>
+                Rows: {selectedSet.costEntryCount} costs, {selectedSet.configEntryCount} config. Items priced under
+                this set: {selectedSet.pricedItemCount}
+              </p>
+              {selectedSet.notes ? <p>Notes: {selectedSet.notes}</p> : null}
+            </div>
+          ) : null}
+          <div className="flex flex-wrap gap-2">
+            {isDraft ? (
+              <button
+                type="button"
+                onClick={() => void runAction("activateDraft")}
+                disabled={saving || loading}
+                className="rounded border border-emerald-700 px-3 py-2 text-sm text-emerald-200 hover:bg-emerald-950/30 disabled:opacity-60"
+              >
+                Activate Draft
+              </button>
+            ) : null}
+            {selectedSet && selectedSet.status !== "ARCHIVED" ? (
+              <button
+                type="button"
+                onClick={() => void runAction("archiveSet")}
+                disabled={saving || loading || selectedSet.status === "ACTIVE"}
+                className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-60"
+                title={selectedSet.status === "ACTIVE" ? "Activate another draft before archiving active." : undefined}
+              >
+                Archive
+              </button>
+            ) : null}
+            {isArchived ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => void runAction("unarchiveSet")}
+                  disabled={saving || loading}
+                  className="rounded border border-amber-700 px-3 py-2 text-sm text-amber-200 hover:bg-amber-950/30 disabled:opacity-60"
+                >
+                  Unarchive to Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void runAction("deleteArchivedSet")}
+                  disabled={saving || loading}
+                  className="rounded border border-red-700 px-3 py-2 text-sm text-red-200 hover:bg-red-950/30 disabled:opacity-60"
+                >
+                  Delete Archived
+                </button>
+              </>
+            ) : null}
+            <button
+              type="button"
+              onClick={() => void load(selectedSet?.id ?? null)}
+              disabled={saving || loading}
+              className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-60"
+            >
+              Refresh
+            </button>
+          </div>
+          {selectedSet && !isDraft ? (
+            <p className="text-xs text-amber-300">
+              Only draft sets can be edited. Create a draft from the active set to change costs.
+            </p>
+          ) : null}
+        </div>
+
+        <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
+          <h2 className="text-sm font-medium">Create Draft From Active</h2>
+          <div className="mt-3 grid gap-2">
+            <input
+              value={newDraftName}
+              onChange={(event) => setNewDraftName(event.target.value)}
+              placeholder="Draft name"
+              className="rounded border border-zinc-700 bg-zinc-950 px-2 py-2 text-sm"
+            />
+            <textarea
+              value={newDraftNotes}
+              onChange={(event) => setNewDraftNotes(event.target.value)}
+              placeholder="Notes"
+              className="min-h-20 rounded border border-zinc-700 bg-zinc-950 px-2 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => void createDraft()}
+              disabled={saving || loading}
+              className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-60"
+            >
+              Create Draft
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {isDraft && selectedSet ? <ForgeCostImpactPanel setId={selectedSet.id} /> : null}
+    </div>
+  );
+}
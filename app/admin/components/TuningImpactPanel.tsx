@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { TuningImpactKind, TuningImpactReport } from "@/lib/config/tuningImpactShared";
+
+type TuningImpactPanelProps = {
+  kind: TuningImpactKind;
+  setId: string;
+  /** Unsaved edits are not part of the stored set, so the report would be stale. */
+  isDirty: boolean;
+};
+
+function formatValue(value: number | string | null): string {
+  return value === null ? "-" : String(value);
+}
+
+/** Dry-run report of how monsters and characters move if this set were activated. */
+export function TuningImpactPanel({ kind, setId, isDirty }: TuningImpactPanelProps) {
+  const [report, setReport] = useState<TuningImpactReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [setId]);
+
+  async function runReport() {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/tuning-impact?kind=${kind}&setId=${encodeURIComponent(setId)}`,
+        { cache: "no-store" },
+      );
+      const payload = (await response.json().catch(() => null)) as
+        | (TuningImpactReport & { error?: string })
+        | null;
+      if (!response.ok || !payload?.entries) {
+        throw new Error(payload?.error ?? "Failed to build impact report");
+      }
+      setReport(payload);
+    } catch (reportError: unknown) {
+      setError(String((reportError as { message?: unknown })?.message ?? "Failed to build impact report"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const flagged = report?.entries.filter((entry) => entry.crossings.length > 0).length ?? 0;
+
+  return (
+    <section className="space-y-3 rounded-lg border border-zinc-800 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-base font-medium">Impact Report</h3>
+          <p className="text-xs text-zinc-500">
+            Recomputes every monster{kind === "power" ? " and character" : ""} under the active set and this set.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void runReport()}
+          disabled={loading || isDirty}
+          title={isDirty ? "Save changes before running the impact report." : undefined}
+          className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-900 disabled:opacity-60"
+        >
+          {loading ? "Working..." : "Preview Impact"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-800 bg-red-950/30 p-2 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      {report ? (
+        <div className="space-y-2 text-sm">
+          <p className="text-zinc-400">
+            Scanned {report.scanned.monsters} monsters
+            {report.kind === "power" ? ` and ${report.scanned.characters} characters` : ""}:{" "}
+            {report.entries.length} changed, {flagged} cross a warning threshold.
+          </p>
+          {report.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-300">
+              {warning}
+            </p>
+          ))}
+          <ul className="max-h-[32rem] space-y-2 overflow-y-auto">
+            {report.entries.map((entry) => (
+              <li
+                key={`${entry.entityType}:${entry.id}`}
+                className={`rounded border p-2 ${
+                  entry.crossings.length > 0 ? "border-amber-700/60 bg-amber-950/20" : "border-zinc-800"
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{entry.name}</span>
+                  <span className="rounded border border-zinc-700 px-1.5 text-xs text-zinc-400">
+                    {entry.entityType === "monster" ? (entry.source ?? "Monster") : "Character"}
+                  </span>
+                </div>
+                {entry.crossings.map((crossing) => (
+                  <p key={`${crossing.code}:${crossing.message}`} className="text-xs text-amber-200">
+                    {crossing.message}
+                  </p>
+                ))}
+                <ul className="mt-1 space-y-0.5 text-xs text-zinc-400">
+                  {entry.changes.map((change) => (
+                    <li key={change.metric}>
+                      {change.metric}: {formatValue(change.before)} {"->"} {formatValue(change.after)}
+                      {change.delta !== null ? ` (${change.delta > 0 ? "+" : ""}${change.delta})` : ""}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
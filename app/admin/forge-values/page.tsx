@@ -7,6 +7,8 @@ import {
   extractDescriptorTokens,
   renderDescriptorTokenTemplate,
 } from "@/lib/descriptors/tokenTemplate";
+import type { ForgeCostSetListItem } from "@/lib/config/forgeCostSetsShared";
+import { ForgeCostSetPanel } from "../components/ForgeCostSetPanel";
 
 type ForgeValueCategory =
   | "WEAPON_ATTRIBUTES"
@@ -397,6 +399,7 @@ export default function AdminForgeValuesPage() {
 
   const [rows, setRows] = useState<ValueRow[]>([]);
   const [costs, setCosts] = useState<ForgeCostEntry[]>([]);
+  const [costSet, setCostSet] = useState<ForgeCostSetListItem | null>(null);
   const [damageTypeOptions, setDamageTypeOptions] = useState<Array<{ id: number; name: string }>>(
     [],
   );
@@ -652,6 +655,23 @@ function renderTemplatePreview(
   return renderDescriptorTokenTemplate(tpl ?? "", sample).text;
 }
   
+  // Cost rows belong to a Forge cost set; reads follow the selected set, writes need a draft.
+  function forgeCostsWriteUrl(path = "/api/admin/forge-costs"): string {
+    if (!costSet || costSet.status !== "DRAFT") {
+      throw new Error("Select a draft Forge cost set to edit costs.");
+    }
+    return `${path}?setId=${encodeURIComponent(costSet.id)}`;
+  }
+
+  async function loadCostSetRows(setId: string): Promise<ForgeCostEntry[]> {
+    const res = await fetch(`/api/admin/forge-costs?all=1&setId=${encodeURIComponent(setId)}`, {
+      cache: "no-store",
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json?.error ?? "Failed to load forge costs");
+    return (json?.rows ?? []) as ForgeCostEntry[];
+  }
+
   async function loadAll() {
     setLoading(true);
     setErr(null);
@@ -687,14 +707,14 @@ function renderTemplatePreview(
         valueRows = (valuesJson?.rows ?? []) as ValueRow[];
       }
 
-      // 2) Costs (read-only via picklists for now)
+      // 2) Damage types via picklists; costs from the selected cost set
       const pickRes = await fetch("/api/forge/picklists", { cache: "no-store" });
       const pickJson = await pickRes.json();
       if (!pickRes.ok) {
         throw new Error(pickJson?.error ?? "Failed to load picklists");
       }
 
-      const allCosts = (pickJson?.costs ?? []) as ForgeCostEntry[];
+      const allCosts = costSet ? await loadCostSetRows(costSet.id) : [];
       const allDamageTypeOptions = Array.isArray(pickJson?.damageTypes)
         ? (pickJson.damageTypes as Array<{ id?: unknown; name?: unknown }>)
             .map((row) => ({
@@ -742,6 +762,15 @@ function renderTemplatePreview(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [category]);
 
+  useEffect(() => {
+    if (!costSet) return;
+    setErr(null);
+    loadCostSetRows(costSet.id)
+      .then(setCosts)
+      .catch((e: unknown) => setErr(String((e as { message?: unknown })?.message ?? "Failed to load forge costs")));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [costSet?.id, costSet?.status]);
+
   async function createValue() {
     setErr(null);
     const name = newValueName.trim();
@@ -828,6 +857,9 @@ function renderTemplatePreview(
 
       const oldParsed = parseTieredName(selected.name);
       const newParsed = parseTieredName(name);
+      // Resolve the draft before renaming so a missing draft does not leave costs behind.
+      const migrateUrl =
+        costCategory && migrateOnRename ? forgeCostsWriteUrl("/api/admin/forge-costs/migrate") : null;
 
       // 1) rename the value row
       const valuesEndpoint =
@@ -856,11 +888,11 @@ function renderTemplatePreview(
       if (!res.ok) throw new Error(data?.error ?? "Rename failed");
 
       // 2) optionally migrate costs for this base+tier
-      if (costCategory && migrateOnRename) {
+      if (migrateUrl) {
         const fromSelector3 = oldParsed.tier === null ? null : String(oldParsed.tier);
         const toSelector3 = newParsed.tier === null ? null : String(newParsed.tier);
 
-        await fetch("/api/admin/forge-costs/migrate", {
+        await fetch(migrateUrl, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1194,6 +1226,7 @@ function renderTemplatePreview(
         return;
       }
 
+      if (costSet) params.set("setId", costSet.id);
       params.set("category", costCategory);
       params.set("selector2", selectedParsed.base);
       if (tierStr !== null) params.set("selector3", tierStr);
@@ -1380,7 +1413,7 @@ function renderTemplatePreview(
       const existing = statCostEntryByLevel.get(level) ?? null;
 
       if (existing) {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1397,7 +1430,7 @@ function renderTemplatePreview(
           setCosts((prev) => prev.map((row) => (row.id === savedRow.id ? savedRow : row)));
         }
       } else {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1447,7 +1480,7 @@ function renderTemplatePreview(
       const existing = itemModifierCostEntryByLevel.get(level) ?? null;
 
       if (existing) {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1464,7 +1497,7 @@ function renderTemplatePreview(
           setCosts((prev) => prev.map((row) => (row.id === savedRow.id ? savedRow : row)));
         }
       } else {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1523,7 +1556,7 @@ function renderTemplatePreview(
           ) ?? null;
 
         if (existing) {
-          const res = await fetch("/api/admin/forge-costs", {
+          const res = await fetch(forgeCostsWriteUrl(), {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -1541,7 +1574,7 @@ function renderTemplatePreview(
             if (idx >= 0) nextCosts[idx] = savedRow;
           }
         } else {
-          const res = await fetch("/api/admin/forge-costs", {
+          const res = await fetch(forgeCostsWriteUrl(), {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -1594,7 +1627,7 @@ function renderTemplatePreview(
       const existing = forgeOutputExpectationEntryByKey.get(key) ?? null;
 
       if (existing) {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1611,7 +1644,7 @@ function renderTemplatePreview(
           setCosts((prev) => prev.map((row) => (row.id === savedRow.id ? savedRow : row)));
         }
       } else {
-        const res = await fetch("/api/admin/forge-costs", {
+        const res = await fetch(forgeCostsWriteUrl(), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1651,6 +1684,7 @@ function renderTemplatePreview(
       <a className="text-sm underline" href="/admin">
         ← Back to Admin Dashboard
       </a>
+      <ForgeCostSetPanel onSelectedSetChange={setCostSet} />
       <div className="flex items-end gap-3">
         <div>
           <label className="text-sm">Category</label>
@@ -1844,7 +1878,7 @@ function renderTemplatePreview(
               </label>
 
               <div className="mt-1 text-[11px] opacity-70">
-                If checked, we remap costs for this specific Base+Tier pairing.
+                If checked, we remap costs for this specific Base+Tier pairing in the selected draft set.
               </div>
             </div>
           )}
@@ -2380,7 +2414,7 @@ function renderTemplatePreview(
                           setErr(null);
                           setDeletingStaticCosts(true);
                           try {
-                            const res = await fetch("/api/admin/forge-costs", {
+                            const res = await fetch(forgeCostsWriteUrl(), {
                               method: "DELETE",
                               headers: { "Content-Type": "application/json" },
                               body: JSON.stringify({ ids: costRowsLive.map((row) => row.id) }),
@@ -2477,7 +2511,7 @@ function renderTemplatePreview(
                       setBootstrapping(true);
 
                       try {
-                        const res = await fetch("/api/admin/forge-costs", {
+                        const res = await fetch(forgeCostsWriteUrl(), {
                           method: "POST",
                           headers: { "Content-Type": "application/json" },
                           body: JSON.stringify({
@@ -2556,7 +2590,7 @@ function renderTemplatePreview(
 
                             try {
                               if (existing) {
-                                const res = await fetch("/api/admin/forge-costs", {
+                                const res = await fetch(forgeCostsWriteUrl(), {
                                   method: "PATCH",
                                   headers: { "Content-Type": "application/json" },
                                   body: JSON.stringify({
@@ -2577,7 +2611,7 @@ function renderTemplatePreview(
                                 );
                                 setTimeout(() => setFlash(null), 2000);
                               } else {
-                                const res = await fetch("/api/admin/forge-costs", {
+                                const res = await fetch(forgeCostsWriteUrl(), {
                                   method: "POST",
                                   headers: { "Content-Type": "application/json" },
                                   body: JSON.stringify({
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { MonsterBlockCard } from "@/app/summoning-circle/components/MonsterBlockCard";
+import { useProtectionTuning } from "@/app/summoning-circle/components/useProtectionTuning";
+import {
+  MONSTER_CORE_SUBMISSION_STATUSES,
+  monsterCoreDroppedEquipmentSlots,
+  monsterCorePromotionBody,
+  type MonsterCoreReviewDecision,
+  type MonsterCoreSubmissionDetail,
+  type MonsterCoreSubmissionStatus,
+  type MonsterCoreSubmissionSummary,
+} from "@/lib/summoning/monsterPromotion";
+import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
+
+// [ANCHOR:ADMIN_MONSTER_SUBMISSIONS_PAGE]
+
+const STATUS_LABELS: Record<MonsterCoreSubmissionStatus, string> = {
+  PENDING_REVIEW: "Pending review",
+  CHANGES_REQUESTED: "Changes requested",
+  APPROVED: "Approved",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+export default function AdminMonsterSubmissionsPage() {
+  const [statusFilter, setStatusFilter] = useState<MonsterCoreSubmissionStatus | "">("PENDING_REVIEW");
+  const [rows, setRows] = useState<MonsterCoreSubmissionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [selected, setSelected] = useState<MonsterCoreSubmissionDetail | null>(null);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+  const protectionTuning = useProtectionTuning();
+
+  async function load() {
+    setLoading(true);
+    setErr(null);
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : "";
+      const res = await fetch(`/api/admin/monster-submissions${query}`, { cache: "no-store" });
+      const data = (await res.json()) as { submissions?: MonsterCoreSubmissionSummary[]; error?: string };
+      if (!res.ok) throw new Error(data?.error ?? "Failed to load submissions");
+      setRows(Array.isArray(data.submissions) ? data.submissions : []);
+    } catch (e: unknown) {
+      setErr(String((e as { message?: unknown })?.message ?? "Failed to load submissions"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  async function open(id: string) {
+    setErr(null);
+    setNotes("");
+    try {
+      const res = await fetch(`/api/admin/monster-submissions/${id}`, { cache: "no-store" });
+      const data = (await res.json()) as { submission?: MonsterCoreSubmissionDetail; error?: string };
+      if (!res.ok || !data.submission) throw new Error(data?.error ?? "Failed to load submission");
+      setSelected(data.submission);
+    } catch (e: unknown) {
+      setErr(String((e as { message?: unknown })?.message ?? "Failed to load submission"));
+    }
+  }
+
+  async function review(decision: MonsterCoreReviewDecision) {
+    if (!selected) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      const res = await fetch(`/api/admin/monster-submissions/${selected.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, notes }),
+      });
+      const data = (await res.json()) as { submission?: MonsterCoreSubmissionDetail; error?: string };
+      if (!res.ok || !data.submission) throw new Error(data?.error ?? "Review failed");
+      setSelected(data.submission);
+      setNotes("");
+      await load();
+    } catch (e: unknown) {
+      setErr(String((e as { message?: unknown })?.message ?? "Review failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const preview = useMemo(() => {
+    if (!selected) return null;
+    const parsed = normalizeMonsterUpsertInput(monsterCorePromotionBody(selected.snapshot), { campaignId: null });
+    return parsed.ok ? { monster: parsed.data, error: null } : { monster: null, error: parsed.error };
+  }, [selected]);
+  const droppedSlots = selected ? monsterCoreDroppedEquipmentSlots(selected.snapshot) : [];
+
+  return (
+    <div className="space-y-6">
+      <Link className="text-sm underline" href="/admin">
+        {"<-"} Back to Admin Dashboard
+      </Link>
+
+      <div className="rounded-lg border p-4">
+        <h2 className="text-lg font-medium">ADMIN: Monster Submissions</h2>
+        <p className="mt-1 text-sm opacity-80">
+          Campaign monsters nominated for the CORE library. Approving a submission adds a read-only CORE
+          copy that records the campaign and author it came from.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="text-sm">Status</label>
+          <select
+            className="mt-1 block rounded border bg-transparent p-2 text-sm"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as MonsterCoreSubmissionStatus | "")}
+          >
+            <option value="">All</option>
+            {MONSTER_CORE_SUBMISSION_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button className="rounded border px-4 py-2 text-sm" onClick={load}>
+          Refresh
+        </button>
+      </div>
+
+      {err && <div className="rounded border p-3 text-sm">{err}</div>}
+
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="p-3 font-medium">Submitted</th>
+              <th className="p-3 font-medium">Monster</th>
+              <th className="p-3 font-medium">Campaign</th>
+              <th className="p-3 font-medium">Revision</th>
+              <th className="p-3 font-medium">Status</th>
+              <th className="p-3 font-medium">Open</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="p-3 opacity-80" colSpan={6}>
+                  Loading submissions...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td className="p-3 opacity-80" colSpan={6}>
+                  No submissions found.
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.id} className="border-b last:border-0">
+                  <td className="p-3 align-top">{formatDateTime(row.submittedAt)}</td>
+                  <td className="p-3 align-top">{row.monsterName}</td>
+                  <td className="p-3 align-top">{row.campaignName ?? row.campaignId}</td>
+                  <td className="p-3 align-top">{row.submissionRevision}</td>
+                  <td className="p-3 align-top">{STATUS_LABELS[row.status]}</td>
+                  <td className="p-3 align-top">
+                    <button className="underline" onClick={() => void open(row.id)}>
+                      Review
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h3 className="text-base font-medium">{selected.monsterName}</h3>
+              <p className="text-xs opacity-70">
+                {selected.campaignName ?? selected.campaignId} - submitted by{" "}
+                <span className="font-mono">{selected.submittedByUserId}</span> - revision{" "}
+                {selected.submissionRevision} - {STATUS_LABELS[selected.status]}
+              </p>
+              {selected.coreMonsterId && (
+                <p className="text-xs opacity-70">
+                  CORE monster <span className="font-mono">{selected.coreMonsterId}</span>
+                </p>
+              )}
+            </div>
+            <button className="text-sm underline" onClick={() => setSelected(null)}>
+              Close
+            </button>
+          </div>
+
+          {droppedSlots.length > 0 && (
+            <div className="rounded border p-3 text-xs">
+              Equipped campaign items do not carry into CORE. These slots will be empty:{" "}
+              {droppedSlots.join(", ")}.
+            </div>
+          )}
+
+          {preview?.monster ? (
+            <MonsterBlockCard monster={preview.monster} protectionTuning={protectionTuning} />
+          ) : (
+            <div className="rounded border p-3 text-sm">
+              This snapshot no longer validates and cannot be promoted: {preview?.error}
+            </div>
+          )}
+
+          {selected.status === "PENDING_REVIEW" && (
+            <div className="space-y-2">
+              <label className="text-sm">Review notes</label>
+              <textarea
+                className="w-full rounded border bg-transparent p-2 text-sm"
+                rows={3}
+                placeholder="Required when requesting changes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <button
+                  className="rounded border px-4 py-2 text-sm disabled:opacity-50"
+                  disabled={busy || !preview?.monster}
+                  onClick={() => void review("APPROVE")}
+                >
+                  Approve into CORE
+                </button>
+                <button
+                  className="rounded border px-4 py-2 text-sm disabled:opacity-50"
+                  disabled={busy || !notes.trim()}
+                  onClick={() => void review("REQUEST_CHANGES")}
+                >
+                  Request changes
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="text-[11px] uppercase tracking-wide opacity-70">History</p>
+            <ul className="mt-1 space-y-1 text-xs">
+              {selected.events.map((event) => (
+                <li key={event.id}>
+                  {formatDateTime(event.createdAt)} - {event.action} (revision {event.submissionRevision}) by{" "}
+                  <span className="font-mono">{event.actorUserId}</span>
+                  {event.notes ? `: ${event.notes}` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
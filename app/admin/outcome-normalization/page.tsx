@@ -14,6 +14,7 @@ import {
   type OutcomeNormalizationConfigStatus,
   type OutcomeNormalizationSnapshot,
 } from "@/lib/config/outcomeNormalizationShared";
+import { TuningImpactPanel } from "@/app/admin/components/TuningImpactPanel";
 
 type OutcomeNormalizationSetListItem = {
   id: string;
@@ -506,6 +507,10 @@ export default function AdminOutcomeNormalizationPage() {
         </details>
       </section>
 
+      {isDraft && selectedSet ? (
+        <TuningImpactPanel kind="outcomeNormalization" setId={selectedSet.setId} isDirty={isDirty} />
+      ) : null}
+
       <section className="space-y-4 rounded-lg border border-zinc-800 p-4">
         <div>
           <h3 className="text-base font-medium">Create Draft</h3>
@@ -13,6 +13,7 @@ import {
   type PowerTuningConfigStatus,
   type PowerTuningSnapshot,
 } from "@/lib/config/powerTuningShared";
+import { TuningImpactPanel } from "@/app/admin/components/TuningImpactPanel";
 
 type PowerTuningSetListItem = {
   id: string;
@@ -497,6 +498,10 @@ export default function AdminPowerTuningPage() {
         </details>
       </section>
 
+      {isDraft && selectedSet ? (
+        <TuningImpactPanel kind="power" setId={selectedSet.setId} isDirty={isDirty} />
+      ) : null}
+
       <section className="rounded-lg border border-zinc-800 p-4 space-y-4">
         <div>
           <h3 className="text-base font-medium">Create Draft</h3>
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { buildForgeCostImpactReport } from "@/lib/config/forgeCostSets";
+import { prisma } from "@/prisma/client";
+
+async function getUserIdFromSupabaseSSR(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: unknown) {
+          cookieStore.set({ name, value, ...(options as Record<string, unknown>) });
+        },
+        remove(name: string, options: unknown) {
+          cookieStore.set({ name, value: "", ...(options as Record<string, unknown>) });
+        },
+      },
+    },
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user?.id) return null;
+  return data.user.id;
+}
+
+async function requireAdminUserId(): Promise<string> {
+  const userId = await getUserIdFromSupabaseSSR();
+  if (!userId) throw new Error("UNAUTHENTICATED");
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { isAdmin: true },
+  });
+
+  if (!profile?.isAdmin) throw new Error("FORBIDDEN");
+  return userId;
+}
+
+/**
+ * Items whose Forge price would change if the given set were activated.
+ * Query: `?setId=...`.
+ */
+export async function GET(req: Request) {
+  try {
+    await requireAdminUserId();
+
+    const setId = new URL(req.url).searchParams.get("setId")?.trim();
+    if (!setId) throw new Error("INVALID_SET_ID");
+
+    return NextResponse.json(await buildForgeCostImpactReport(setId));
+  } catch (error: unknown) {
+    const message = String((error as { message?: unknown })?.message ?? "");
+    if (message === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "INVALID_SET_ID") {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (message === "FORGE_COST_SET_NOT_FOUND") {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+
+    console.error("[ADMIN_FORGE_COST_IMPACT]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
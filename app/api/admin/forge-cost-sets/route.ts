@@ -0,0 +1,175 @@
+// ADMIN_FORGE_COST_SETS_API
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { prisma } from "@/prisma/client";
+import {
+  activateForgeCostSet,
+  archiveForgeCostSet,
+  createDraftForgeCostSetFromActive,
+  deleteArchivedForgeCostSet,
+  ensureActiveForgeCostSet,
+  getForgeCostSetById,
+  listForgeCostSets,
+  unarchiveForgeCostSet,
+} from "@/lib/config/forgeCostSets";
+
+async function getUserIdFromSupabaseSSR(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: unknown) {
+          cookieStore.set({ name, value, ...(options as Record<string, unknown>) });
+        },
+        remove(name: string, options: unknown) {
+          cookieStore.set({ name, value: "", ...(options as Record<string, unknown>) });
+        },
+      },
+    },
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user?.id) return null;
+  return data.user.id;
+}
+
+async function requireAdminUserId(): Promise<string> {
+  const userId = await getUserIdFromSupabaseSSR();
+  if (!userId) throw new Error("UNAUTHENTICATED");
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { isAdmin: true },
+  });
+
+  if (!profile?.isAdmin) throw new Error("FORBIDDEN");
+  return userId;
+}
+
+function errorResponse(error: unknown) {
+  const message = String((error as { message?: unknown })?.message ?? "");
+  if (message === "UNAUTHENTICATED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (
+    message === "INVALID_ACTION" ||
+    message === "INVALID_SET_ID" ||
+    message === "FORGE_COST_SET_NOT_FOUND" ||
+    message === "FORGE_COST_SET_NOT_DRAFT" ||
+    message === "FORGE_COST_SET_NOT_ARCHIVED" ||
+    message === "FORGE_COST_ACTIVE_ARCHIVE_REQUIRES_REPLACEMENT"
+  ) {
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  console.error("[ADMIN_FORGE_COST_SETS]", error);
+  return NextResponse.json(
+    process.env.NODE_ENV === "production"
+      ? { error: "Server error" }
+      : {
+          error: "Server error",
+          debug: { message: message || "Unknown error" },
+        },
+    { status: 500 },
+  );
+}
+
+function validateSetId(value: unknown): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error("INVALID_SET_ID");
+  }
+  return value;
+}
+
+async function buildAdminResponse(selectedSetId?: string | null) {
+  const activeSet = await ensureActiveForgeCostSet();
+  const selectedSet = selectedSetId ? await getForgeCostSetById(selectedSetId) : activeSet;
+
+  if (!selectedSet) throw new Error("FORGE_COST_SET_NOT_FOUND");
+
+  return {
+    activeSetId: activeSet.id,
+    sets: await listForgeCostSets(),
+    selectedSet,
+  };
+}
+
+export async function GET(req: Request) {
+  try {
+    await requireAdminUserId();
+    const setId = new URL(req.url).searchParams.get("setId");
+    return NextResponse.json(await buildAdminResponse(setId));
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    await requireAdminUserId();
+
+    const body = (await req.json().catch(() => null)) as
+      | { action?: unknown; name?: unknown; notes?: unknown }
+      | null;
+
+    if (body?.action !== "createDraftFromActive") {
+      throw new Error("INVALID_ACTION");
+    }
+
+    const createdSet = await createDraftForgeCostSetFromActive({
+      name: typeof body.name === "string" ? body.name : undefined,
+      notes: typeof body.notes === "string" ? body.notes : undefined,
+    });
+
+    return NextResponse.json({
+      createdSet,
+      ...(await buildAdminResponse(createdSet.id)),
+    });
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    await requireAdminUserId();
+
+    const body = (await req.json().catch(() => null)) as
+      | { action?: unknown; setId?: unknown }
+      | null;
+
+    if (body?.action === "activateDraft") {
+      const selectedSet = await activateForgeCostSet(validateSetId(body.setId));
+      return NextResponse.json(await buildAdminResponse(selectedSet.id));
+    }
+
+    if (body?.action === "archiveSet") {
+      const selectedSet = await archiveForgeCostSet(validateSetId(body.setId));
+      return NextResponse.json(await buildAdminResponse(selectedSet.id));
+    }
+
+    if (body?.action === "unarchiveSet") {
+      const selectedSet = await unarchiveForgeCostSet(validateSetId(body.setId));
+      return NextResponse.json(await buildAdminResponse(selectedSet.id));
+    }
+
+    if (body?.action === "deleteArchivedSet") {
+      await deleteArchivedForgeCostSet(validateSetId(body.setId));
+      return NextResponse.json(await buildAdminResponse());
+    }
+
+    throw new Error("INVALID_ACTION");
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createServerClient } from "@supabase/ssr";
+import { getActiveForgeCostSetId, requireDraftForgeCostSet, touchForgeCostSet } from "@/lib/config/forgeCostSets";
 import { prisma } from "@/prisma/client";
 
 async function getUserIdFromSupabaseSSR(): Promise<string | null> {
@@ -54,6 +55,11 @@ export async function POST(req: Request) {
   try {
     await requireAdminUserId();
 
+    // Renames only touch the DRAFT set being edited; ACTIVE and ARCHIVED sets keep their selectors.
+    const requestedSetId = new URL(req.url).searchParams.get("setId")?.trim();
+    const setId = requestedSetId || (await getActiveForgeCostSetId());
+    await requireDraftForgeCostSet(setId);
+
     const body = (await req.json().catch(() => null)) as Body | null;
 
     const category =
@@ -98,6 +104,7 @@ export async function POST(req: Request) {
     // Update only rows for this exact “base + tier” pairing.
     const result = await prisma.forgeCostEntry.updateMany({
     where: {
+        configSetId: setId,
         category: category as any,
         selector2: fromSelector2,
         selector3: fromSelector3,
@@ -107,6 +114,7 @@ export async function POST(req: Request) {
         selector3: toSelector3,
     },
     });
+    if (result.count > 0) await touchForgeCostSet(setId);
 
     return NextResponse.json({ updated: result.count });
   } catch (e: any) {
@@ -117,6 +125,12 @@ export async function POST(req: Request) {
     if (msg === "FORBIDDEN") {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
+    if (msg === "FORGE_COST_SET_NOT_FOUND") {
+      return NextResponse.json({ error: msg }, { status: 404 });
+    }
+    if (msg === "FORGE_COST_SET_NOT_EDITABLE") {
+      return NextResponse.json({ error: msg }, { status: 409 });
+    }
     return NextResponse.json({ error: "Server error" }, { status: 500 });
   }
 }
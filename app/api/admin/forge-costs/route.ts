@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createServerClient } from "@supabase/ssr";
 import { prisma } from "@/prisma/client";
+import { getActiveForgeCostSetId, requireDraftForgeCostSet, touchForgeCostSet } from "@/lib/config/forgeCostSets";
 
 type ForgeCostRow = {
   id: number;
@@ -80,13 +81,34 @@ async function requireAdmin(): Promise<void> {
   if (!profile?.isAdmin) throw new Error("FORBIDDEN");
 }
 
+const FORGE_COST_SET_ERRORS = new Set(["FORGE_COST_SET_NOT_FOUND", "FORGE_COST_SET_NOT_EDITABLE"]);
+
 function statusFromErr(e: any) {
   const msg = String(e?.message ?? "");
   if (msg === "UNAUTHENTICATED") return 401;
   if (msg === "FORBIDDEN") return 403;
+  if (msg === "FORGE_COST_SET_NOT_FOUND") return 404;
+  if (msg === "FORGE_COST_SET_NOT_EDITABLE") return 409;
   return 500;
 }
 
+function errorMessage(e: unknown, fallback: string) {
+  const msg = String((e as { message?: unknown })?.message ?? "");
+  return FORGE_COST_SET_ERRORS.has(msg) ? msg : fallback;
+}
+
+// Every method takes `?setId=`. Reads default to the ACTIVE set; writes must target a DRAFT set.
+function readSetIdParam(req: Request): string | null {
+  const setId = new URL(req.url).searchParams.get("setId")?.trim();
+  return setId || null;
+}
+
+async function requireWritableSetId(req: Request): Promise<string> {
+  const setId = readSetIdParam(req) ?? (await getActiveForgeCostSetId());
+  await requireDraftForgeCostSet(setId);
+  return setId;
+}
+
 function debugErrorPayload(error: unknown) {
   if (process.env.NODE_ENV === "production") return undefined;
   const e = error as {
@@ -103,17 +125,35 @@ function debugErrorPayload(error: unknown) {
   };
 }
 
-async function getForgeCostContexts(category: string): Promise<string[]> {
+async function getForgeCostContexts(setId: string, category: string): Promise<string[]> {
   const rows = await prisma.$queryRaw<Array<{ selector1: string }>>`
     SELECT DISTINCT "selector1"
     FROM "ForgeCostEntry"
-    WHERE "category" = CAST(${category} AS "ForgeCostCategory")
+    WHERE "configSetId" = ${setId}
+      AND "category" = CAST(${category} AS "ForgeCostCategory")
     ORDER BY "selector1" ASC
   `;
   return rows.map((row) => row.selector1);
 }
 
+async function getAllForgeCostRows(setId: string): Promise<ForgeCostRow[]> {
+  return prisma.$queryRaw<ForgeCostRow[]>`
+    SELECT
+      "id",
+      "category"::text AS "category",
+      "selector1",
+      "selector2",
+      "selector3",
+      "value",
+      "notes"
+    FROM "ForgeCostEntry"
+    WHERE "configSetId" = ${setId}
+    ORDER BY "id" ASC
+  `;
+}
+
 async function getForgeCostRows(
+  setId: string,
   category: string,
   selector2: string,
   selector3: string | null,
@@ -128,7 +168,8 @@ async function getForgeCostRows(
       "value",
       "notes"
     FROM "ForgeCostEntry"
-    WHERE "category" = CAST(${category} AS "ForgeCostCategory")
+    WHERE "configSetId" = ${setId}
+      AND "category" = CAST(${category} AS "ForgeCostCategory")
       AND "selector2" = ${selector2}
       AND "selector3" IS NOT DISTINCT FROM ${selector3}
     ORDER BY "selector1" ASC
@@ -136,6 +177,7 @@ async function getForgeCostRows(
 }
 
 async function createForgeCostRow(args: {
+  setId: string;
   category: string;
   selector1: string;
   selector2: string | null;
@@ -145,6 +187,7 @@ async function createForgeCostRow(args: {
 }): Promise<ForgeCostRow> {
   const rows = await prisma.$queryRaw<ForgeCostRow[]>`
     INSERT INTO "ForgeCostEntry" (
+      "configSetId",
       "category",
       "selector1",
       "selector2",
@@ -153,6 +196,7 @@ async function createForgeCostRow(args: {
       "notes"
     )
     VALUES (
+      ${args.setId},
       CAST(${args.category} AS "ForgeCostCategory"),
       ${args.selector1},
       ${args.selector2},
@@ -180,6 +224,12 @@ export async function GET(req: Request) {
     await requireAdmin();
 
     const { searchParams } = new URL(req.url);
+    const setId = readSetIdParam(req) ?? (await getActiveForgeCostSetId());
+
+    // `?all=1` returns every row of the set, for editors that group rows client-side.
+    if (searchParams.get("all") === "1") {
+      return NextResponse.json({ setId, rows: await getAllForgeCostRows(setId) });
+    }
 
     const category = (searchParams.get("category") ?? "").trim();
     const selector2 = (searchParams.get("selector2") ?? "").trim();
@@ -194,19 +244,19 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "invalid category" }, { status: 400 });
     }
 
-    const contexts = await getForgeCostContexts(category);
+    const contexts = await getForgeCostContexts(setId, category);
 
     // If selector2 isn't provided, return just contexts (useful later)
     if (!selector2) {
       return NextResponse.json({ contexts, rows: [] });
     }
 
-    const rows = await getForgeCostRows(category, selector2, selector3);
+    const rows = await getForgeCostRows(setId, category, selector2, selector3);
 
     return NextResponse.json({ contexts, rows });
   } catch (e: any) {
     return NextResponse.json(
-      { error: "Failed to load forge costs" },
+      { error: errorMessage(e, "Failed to load forge costs") },
       { status: statusFromErr(e) },
     );
   }
@@ -259,7 +309,9 @@ export async function POST(req: Request) {
     }
     if (!Number.isFinite(value)) return NextResponse.json({ error: "value must be a number" }, { status: 400 });
 
+    const setId = await requireWritableSetId(req);
     const created = await createForgeCostRow({
+      setId,
       category,
       selector1,
       selector2,
@@ -267,6 +319,7 @@ export async function POST(req: Request) {
       value,
       notes,
     });
+    await touchForgeCostSet(setId);
 
     return NextResponse.json({ row: created }, { status: 201 });
   } catch (e: any) {
@@ -276,7 +329,7 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Duplicate cost entry" }, { status: 409 });
     }
     return NextResponse.json(
-      { error: "Failed to create forge cost", debug: debugErrorPayload(e) },
+      { error: errorMessage(e, "Failed to create forge cost"), debug: debugErrorPayload(e) },
       { status: statusFromErr(e) },
     );
   }
@@ -311,6 +364,13 @@ export async function PATCH(req: Request) {
     if (!Number.isFinite(id)) return NextResponse.json({ error: "id must be a number" }, { status: 400 });
     if (!Number.isFinite(value)) return NextResponse.json({ error: "value must be a number" }, { status: 400 });
 
+    const setId = await requireWritableSetId(req);
+    const existing = await prisma.forgeCostEntry.findFirst({
+      where: { id, configSetId: setId },
+      select: { id: true },
+    });
+    if (!existing) return NextResponse.json({ error: "Cost row not found in this set" }, { status: 404 });
+
     const updated = await prisma.forgeCostEntry.update({
       where: { id },
       data: { value, notes },
@@ -325,10 +385,12 @@ export async function PATCH(req: Request) {
       },
     });
 
+    await touchForgeCostSet(setId);
+
     return NextResponse.json({ row: updated });
   } catch (e: any) {
     return NextResponse.json(
-      { error: "Failed to update forge cost" },
+      { error: errorMessage(e, "Failed to update forge cost") },
       { status: statusFromErr(e) },
     );
   }
@@ -358,14 +420,16 @@ export async function DELETE(req: Request) {
       return NextResponse.json({ error: "ids are required" }, { status: 400 });
     }
 
+    const setId = await requireWritableSetId(req);
     const result = await prisma.forgeCostEntry.deleteMany({
-      where: { id: { in: ids } },
+      where: { id: { in: ids }, configSetId: setId },
     });
+    await touchForgeCostSet(setId);
 
     return NextResponse.json({ deletedCount: result.count });
   } catch (e: any) {
     return NextResponse.json(
-      { error: "Failed to delete forge cost rows" },
+      { error: errorMessage(e, "Failed to delete forge cost rows") },
       { status: statusFromErr(e) },
     );
   }
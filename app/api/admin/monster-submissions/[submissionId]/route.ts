@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { prisma } from "@/prisma/client";
+import { MonsterCreateError } from "@/app/api/summoning-circle/monsters/monsterCreate";
+import {
+  getMonsterCoreSubmission,
+  reviewMonsterCoreSubmission,
+} from "@/app/api/summoning-circle/monsters/monsterPromotion";
+import { MonsterPromotionError, parseMonsterCoreReviewDecision } from "@/lib/summoning/monsterPromotion";
+
+async function getUserIdFromSupabaseSSR(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: unknown) {
+          cookieStore.set({ name, value, ...(options as Record<string, unknown>) });
+        },
+        remove(name: string, options: unknown) {
+          cookieStore.set({ name, value: "", ...(options as Record<string, unknown>) });
+        },
+      },
+    },
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user?.id) return null;
+  return data.user.id;
+}
+
+async function requireAdminUserId(): Promise<string> {
+  const userId = await getUserIdFromSupabaseSSR();
+  if (!userId) throw new Error("UNAUTHENTICATED");
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { isAdmin: true },
+  });
+
+  if (!profile?.isAdmin) throw new Error("FORBIDDEN");
+  return userId;
+}
+
+function errorResponse(error: unknown, logTag: string) {
+  if (error instanceof MonsterPromotionError || error instanceof MonsterCreateError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  const message = String((error as { message?: unknown })?.message ?? "");
+  if (message === "UNAUTHENTICATED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  console.error(logTag, error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ submissionId: string }> },
+) {
+  try {
+    await requireAdminUserId();
+    const { submissionId } = await ctx.params;
+
+    const submission = await getMonsterCoreSubmission({ id: submissionId });
+    if (!submission) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ submission });
+  } catch (error: unknown) {
+    return errorResponse(error, "[ADMIN_MONSTER_SUBMISSION_GET]");
+  }
+}
+
+/**
+ * Approves or sends back a pending submission. Body: `{ decision: "APPROVE" | "REQUEST_CHANGES", notes? }`.
+ * Approval creates the CORE monster; a change request needs notes.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ submissionId: string }> },
+) {
+  try {
+    const userId = await requireAdminUserId();
+    const { submissionId } = await ctx.params;
+
+    const body = (await req.json().catch(() => null)) as { decision?: unknown; notes?: unknown } | null;
+    const decision = parseMonsterCoreReviewDecision(body?.decision);
+    if (!decision) {
+      return NextResponse.json({ error: "decision must be APPROVE or REQUEST_CHANGES" }, { status: 400 });
+    }
+
+    const submission = await reviewMonsterCoreSubmission({ submissionId, decision, userId, notes: body?.notes });
+    return NextResponse.json({ submission });
+  } catch (error: unknown) {
+    return errorResponse(error, "[ADMIN_MONSTER_SUBMISSION_REVIEW]");
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { prisma } from "@/prisma/client";
+import { listMonsterCoreSubmissions } from "@/app/api/summoning-circle/monsters/monsterPromotion";
+import {
+  MONSTER_CORE_SUBMISSION_STATUSES,
+  type MonsterCoreSubmissionStatus,
+} from "@/lib/summoning/monsterPromotion";
+
+async function getUserIdFromSupabaseSSR(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: unknown) {
+          cookieStore.set({ name, value, ...(options as Record<string, unknown>) });
+        },
+        remove(name: string, options: unknown) {
+          cookieStore.set({ name, value: "", ...(options as Record<string, unknown>) });
+        },
+      },
+    },
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user?.id) return null;
+  return data.user.id;
+}
+
+async function requireAdminUserId(): Promise<string> {
+  const userId = await getUserIdFromSupabaseSSR();
+  if (!userId) throw new Error("UNAUTHENTICATED");
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { isAdmin: true },
+  });
+
+  if (!profile?.isAdmin) throw new Error("FORBIDDEN");
+  return userId;
+}
+
+/** Campaign monsters nominated for CORE, newest first. Query: `?status=PENDING_REVIEW|CHANGES_REQUESTED|APPROVED`. */
+export async function GET(req: Request) {
+  try {
+    await requireAdminUserId();
+
+    const status = new URL(req.url).searchParams.get("status");
+    if (status && !MONSTER_CORE_SUBMISSION_STATUSES.includes(status as MonsterCoreSubmissionStatus)) {
+      return NextResponse.json({ error: "INVALID_STATUS" }, { status: 400 });
+    }
+
+    const submissions = await listMonsterCoreSubmissions(status as MonsterCoreSubmissionStatus | null);
+    return NextResponse.json({ submissions });
+  } catch (error: unknown) {
+    const message = String((error as { message?: unknown })?.message ?? "");
+    if (message === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    console.error("[ADMIN_MONSTER_SUBMISSIONS_GET]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { buildTuningImpactReport } from "@/lib/config/tuningImpact";
+import { parseTuningImpactKind } from "@/lib/config/tuningImpactShared";
+import { prisma } from "@/prisma/client";
+
+async function getUserIdFromSupabaseSSR(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: unknown) {
+          cookieStore.set({ name, value, ...(options as Record<string, unknown>) });
+        },
+        remove(name: string, options: unknown) {
+          cookieStore.set({ name, value: "", ...(options as Record<string, unknown>) });
+        },
+      },
+    },
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user?.id) return null;
+  return data.user.id;
+}
+
+async function requireAdminUserId(): Promise<string> {
+  const userId = await getUserIdFromSupabaseSSR();
+  if (!userId) throw new Error("UNAUTHENTICATED");
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { isAdmin: true },
+  });
+
+  if (!profile?.isAdmin) throw new Error("FORBIDDEN");
+  return userId;
+}
+
+/**
+ * Dry-run impact report for a tuning set before it is activated.
+ * Query: `?kind=combat|power|outcomeNormalization&setId=...`.
+ */
+export async function GET(req: Request) {
+  try {
+    await requireAdminUserId();
+
+    const { searchParams } = new URL(req.url);
+    const kind = parseTuningImpactKind(searchParams.get("kind"));
+    if (!kind) throw new Error("INVALID_KIND");
+    const setId = searchParams.get("setId")?.trim();
+    if (!setId) throw new Error("INVALID_SET_ID");
+
+    return NextResponse.json(await buildTuningImpactReport(kind, setId));
+  } catch (error: unknown) {
+    const message = String((error as { message?: unknown })?.message ?? "");
+    if (message === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "INVALID_KIND" || message === "INVALID_SET_ID") {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (message === "TUNING_SET_NOT_FOUND") {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+
+    console.error("[ADMIN_TUNING_IMPACT]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
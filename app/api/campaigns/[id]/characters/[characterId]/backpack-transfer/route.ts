@@ -107,6 +107,7 @@ export async function POST(
           select: {
             id: true,
             quantity: true,
+            chargesRemaining: true,
             partyInventoryItemId: true,
           },
         }),
@@ -138,6 +139,34 @@ export async function POST(
         };
       }
 
+      // A partial transfer leaves the opened consumable unit with the sender; moving the whole
+      // stack takes it along, which only works if the recipient has no opened unit of its own.
+      const openedCharges =
+        quantity === sourceBackpackItem.quantity ? sourceBackpackItem.chargesRemaining : null;
+      if (openedCharges !== null) {
+        if (transferToPartyStash) {
+          return {
+            status: 400 as const,
+            error: "Finish the opened consumable before returning the whole stack to the Party Stash",
+          };
+        }
+        const recipientStack = await tx.campaignCharacterBackpackItem.findUnique({
+          where: {
+            characterId_partyInventoryItemId: {
+              characterId: targetCharacterId,
+              partyInventoryItemId: sourceBackpackItem.partyInventoryItemId,
+            },
+          },
+          select: { chargesRemaining: true },
+        });
+        if (recipientStack && recipientStack.chargesRemaining !== null) {
+          return {
+            status: 400 as const,
+            error: "The recipient already has an opened one of this consumable",
+          };
+        }
+      }
+
       if (quantity === sourceBackpackItem.quantity) {
         await tx.campaignCharacterBackpackItem.delete({
           where: { id: sourceBackpackItem.id },
@@ -160,12 +189,16 @@ export async function POST(
             partyInventoryItemId: sourceBackpackItem.partyInventoryItemId,
           },
         },
-        update: { quantity: { increment: quantity } },
+        update: {
+          quantity: { increment: quantity },
+          ...(openedCharges !== null ? { chargesRemaining: openedCharges } : {}),
+        },
         create: {
           campaignId,
           characterId: targetCharacterId,
           partyInventoryItemId: sourceBackpackItem.partyInventoryItemId,
           quantity,
+          chargesRemaining: openedCharges,
         },
         select: { id: true, quantity: true },
       });
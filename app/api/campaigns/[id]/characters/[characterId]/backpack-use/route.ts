@@ -0,0 +1,176 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import {
+  getCampaignPermissions,
+  requireCampaignAccess,
+} from "@/lib/campaign/access";
+import {
+  applyConsumableUse,
+  consumableChargesPerUnit,
+  ConsumableError,
+  MAX_CONSUMABLE_CHARGES,
+  readUsageNote,
+  totalStackCharges,
+} from "@/lib/campaign/consumables";
+import { prisma } from "@/prisma/client";
+
+type UsePayload = {
+  backpackItemId?: unknown;
+  charges?: unknown;
+  note?: unknown;
+};
+
+function normalizeId(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof ConsumableError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign or character not found" }, { status: 404 });
+  }
+  console.error("[BACKPACK_USE]", error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+/**
+ * Spends charges from a consumable in the character's Backpack and logs the use for the Game
+ * Director. Units that run out of charges leave the Backpack and the Party Inventory.
+ */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; characterId: string }> },
+) {
+  try {
+    const { id, characterId } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    const targetCharacterId = String(characterId ?? "").trim();
+    if (!campaignId || !targetCharacterId) {
+      return NextResponse.json(
+        { error: "Campaign id and character id are required" },
+        { status: 400 },
+      );
+    }
+
+    const actorUserId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, actorUserId);
+    const permissions = getCampaignPermissions(access);
+
+    const body = (await req.json().catch(() => ({}))) as UsePayload;
+    const backpackItemId = normalizeId(body.backpackItemId);
+    const charges = body.charges === undefined ? 1 : Number(body.charges);
+    if (!backpackItemId || !Number.isInteger(charges) || charges < 1 || charges > MAX_CONSUMABLE_CHARGES) {
+      return NextResponse.json(
+        { error: `backpackItemId and a charge count from 1 to ${MAX_CONSUMABLE_CHARGES} are required` },
+        { status: 400 },
+      );
+    }
+    const note = readUsageNote(body.note);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const [character, backpackItem] = await Promise.all([
+        tx.campaignCharacter.findFirst({
+          where: { id: targetCharacterId, campaignId },
+          select: { id: true, name: true, assignedUserId: true, archivedAt: true },
+        }),
+        tx.campaignCharacterBackpackItem.findFirst({
+          where: { id: backpackItemId, campaignId, characterId: targetCharacterId },
+          select: {
+            id: true,
+            quantity: true,
+            chargesRemaining: true,
+            partyInventoryItem: {
+              select: {
+                id: true,
+                itemTemplate: {
+                  select: { id: true, name: true, type: true, consumableCharges: true },
+                },
+              },
+            },
+          },
+        }),
+      ]);
+
+      if (!character || !backpackItem) {
+        throw new ConsumableError("BACKPACK_ITEM_NOT_FOUND", "Backpack item not found", 404);
+      }
+      if (!permissions.canManageCampaignInventory && character.assignedUserId !== actorUserId) {
+        throw new ConsumableError("FORBIDDEN", "You can only use items from your own Backpack", 403);
+      }
+      if (character.archivedAt) {
+        throw new ConsumableError("CHARACTER_ARCHIVED", "Archived characters cannot use items", 400);
+      }
+
+      const itemTemplate = backpackItem.partyInventoryItem.itemTemplate;
+      const chargesPerUnit = consumableChargesPerUnit(itemTemplate);
+      if (chargesPerUnit === null) {
+        throw new ConsumableError("NOT_CONSUMABLE", "Only consumables can be used from the Backpack", 400);
+      }
+      const used = applyConsumableUse(backpackItem, chargesPerUnit, charges);
+
+      // Guard on the state we read so two uses racing on the same stack cannot both spend it.
+      const claimed = await tx.campaignCharacterBackpackItem.updateMany({
+        where: {
+          id: backpackItem.id,
+          quantity: backpackItem.quantity,
+          chargesRemaining: backpackItem.chargesRemaining,
+        },
+        data: { quantity: used.quantity, chargesRemaining: used.chargesRemaining },
+      });
+      if (claimed.count === 0) {
+        throw new ConsumableError("BACKPACK_CHANGED", "The Backpack changed. Reload and try again.", 409);
+      }
+      if (used.stackConsumed) {
+        await tx.campaignCharacterBackpackItem.delete({ where: { id: backpackItem.id } });
+      }
+      if (used.unitsConsumed > 0) {
+        const partyInventoryItemId = backpackItem.partyInventoryItem.id;
+        await tx.campaignPartyInventoryItem.update({
+          where: { id: partyInventoryItemId },
+          data: { quantity: { decrement: used.unitsConsumed } },
+        });
+        await tx.campaignPartyInventoryItem.deleteMany({
+          where: { id: partyInventoryItemId, quantity: { lte: 0 } },
+        });
+      }
+
+      const usage = await tx.campaignItemUsageLog.create({
+        data: {
+          campaignId,
+          characterId: character.id,
+          characterName: character.name,
+          itemTemplateId: itemTemplate.id,
+          itemName: itemTemplate.name,
+          chargesUsed: charges,
+          chargesRemaining: totalStackCharges(used, chargesPerUnit),
+          unitsRemaining: used.quantity,
+          stackConsumed: used.stackConsumed,
+          note,
+          actorUserId,
+        },
+        select: { id: true, chargesRemaining: true, unitsRemaining: true, stackConsumed: true },
+      });
+
+      return {
+        backpackItem: used.stackConsumed
+          ? null
+          : { id: backpackItem.id, quantity: used.quantity, chargesRemaining: used.chargesRemaining },
+        usage,
+      };
+    });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
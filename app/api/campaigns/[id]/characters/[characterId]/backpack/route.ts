@@ -5,14 +5,23 @@ import {
   getCampaignPermissions,
   requireCampaignAccess,
 } from "@/lib/campaign/access";
+import { EconomyError, MAX_PURCHASE_QUANTITY, type WalletSource } from "@/lib/campaign/economy";
+import { purchaseShopItem, requireSpendingCharacter } from "@/lib/campaign/economyServer";
 import { prisma } from "@/prisma/client";
 
 type BackpackPayload = {
   partyInventoryItemId?: unknown;
   quantity?: unknown;
+  purchase?: {
+    shopItemId?: unknown;
+    payFrom?: unknown;
+  };
 };
 
 function toErrorResponse(error: unknown) {
+  if (error instanceof EconomyError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
   const message = error instanceof Error ? error.message : String(error);
   if (message === "UNAUTHORIZED") {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -126,11 +135,46 @@ export async function POST(
     const userId = await requireUserId();
     const access = await requireCampaignAccess(campaignId, userId);
     const permissions = getCampaignPermissions(access);
+    const body = (await req.json().catch(() => ({}))) as BackpackPayload;
+
+    // Buying from a shop: the character's owner may spend their purse, or the party wallet if they
+    // can manage the Party Stash.
+    if (body.purchase !== undefined) {
+      const shopItemId = typeof body.purchase?.shopItemId === "string" ? body.purchase.shopItemId.trim() : "";
+      const quantity = normalizePositiveInteger(body.quantity);
+      if (!shopItemId || quantity === null || quantity > MAX_PURCHASE_QUANTITY) {
+        return NextResponse.json(
+          { error: `purchase.shopItemId and a quantity from 1 to ${MAX_PURCHASE_QUANTITY} are required` },
+          { status: 400 },
+        );
+      }
+      await requireSpendingCharacter({
+        campaignId,
+        characterId: targetCharacterId,
+        userId,
+        canManage: permissions.canManageCampaign,
+      });
+      const payFrom: WalletSource =
+        body.purchase?.payFrom === "party" ? { kind: "party" } : { kind: "character", characterId: targetCharacterId };
+      if (payFrom.kind === "party" && !permissions.canManagePartyStash) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      const purchase = await purchaseShopItem({
+        campaignId,
+        characterId: targetCharacterId,
+        shopItemId,
+        quantity,
+        payFrom,
+        actorUserId: userId,
+      });
+      return NextResponse.json({ ok: true, ...purchase });
+    }
+
     if (!permissions.canManagePartyStash) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const body = (await req.json().catch(() => ({}))) as BackpackPayload;
     const partyInventoryItemId =
       typeof body.partyInventoryItemId === "string" ? body.partyInventoryItemId.trim() : "";
     const quantity = normalizePositiveInteger(body.quantity);
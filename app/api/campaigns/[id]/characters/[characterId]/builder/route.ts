@@ -279,6 +279,7 @@ async function loadBuilderBackpackItems(campaignId: string, characterId: string)
       characterId: row.characterId,
       partyInventoryItemId: row.partyInventoryItemId,
       quantity: row.quantity,
+      chargesRemaining: row.chargesRemaining,
       itemTemplate: {
         id: itemTemplate.id,
         itemUrl: itemTemplate.itemUrl,
@@ -289,6 +290,7 @@ async function loadBuilderBackpackItems(campaignId: string, characterId: string)
         size: itemTemplate.size,
         armorLocation: itemTemplate.armorLocation,
         itemLocation: itemTemplate.itemLocation,
+        consumableCharges: itemTemplate.consumableCharges,
         ppv: itemTemplate.ppv,
         mpv: itemTemplate.mpv,
         globalAttributeModifiers: itemTemplate.globalAttributeModifiers,
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { LootTableError, resolveLootSeed } from "@/lib/campaign/lootTables";
+import { getCampaignEncounterLoot, rollCampaignEncounterLoot } from "@/lib/campaign/lootTablesServer";
+
+type RollEncounterLootBody = {
+  seed?: unknown;
+  deposit?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof LootTableError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_ENCOUNTER_LOOT]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; encounterId: string }> }) {
+  const { id, encounterId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    encounterId: String(encounterId ?? "").trim(),
+  };
+}
+
+function missingIdentifiers() {
+  return NextResponse.json(
+    { error: "Campaign id and encounter id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+    { status: 400 },
+  );
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string; encounterId: string }> },
+) {
+  try {
+    const { campaignId, encounterId } = await resolveParams(context);
+    if (!campaignId || !encounterId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const loot = await getCampaignEncounterLoot(campaignId, encounterId);
+    return NextResponse.json({ loot });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Rolls drops for every defeated monster with a loot table. Only once per completed encounter. */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; encounterId: string }> },
+) {
+  try {
+    const { campaignId, encounterId } = await resolveParams(context);
+    if (!campaignId || !encounterId) return missingIdentifiers();
+    const body = ((await req.json().catch(() => null)) ?? {}) as RollEncounterLootBody;
+    const seed = resolveLootSeed(body.seed);
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const loot = await rollCampaignEncounterLoot({
+      campaignId,
+      encounterId,
+      userId,
+      seed,
+      deposit: body.deposit === true,
+    });
+    return NextResponse.json({ loot });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
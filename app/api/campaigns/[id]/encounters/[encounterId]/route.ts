@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import {
+  EncounterCommandError,
+  parseEncounterCommand,
+  parseEncounterRoster,
+} from "@/lib/combat-lab/encounter";
+import {
+  addCampaignEncounterCombatants,
+  applyCampaignEncounterCommand,
+  deleteCampaignEncounter,
+  EncounterServiceError,
+  getCampaignEncounter,
+  setCampaignEncounterStatus,
+} from "@/lib/combat-lab/encounterServer";
+
+type EncounterPatchBody = {
+  revision?: unknown;
+  command?: unknown;
+  addCombatants?: unknown;
+  status?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof EncounterServiceError || error instanceof EncounterCommandError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error instanceof EncounterServiceError ? error.status : 400 },
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND" || message === "CAMPAIGN_NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+    return NextResponse.json(
+      { error: "One or more selected combatants were not found in this campaign", code: message },
+      { status: 404 },
+    );
+  }
+  console.error("[CAMPAIGN_ENCOUNTER]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; encounterId: string }> }) {
+  const { id, encounterId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    encounterId: String(encounterId ?? "").trim(),
+  };
+}
+
+function missingIdentifiers() {
+  return NextResponse.json(
+    { error: "Campaign id and encounter id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+    { status: 400 },
+  );
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string; encounterId: string }> },
+) {
+  try {
+    const { campaignId, encounterId } = await resolveParams(context);
+    if (!campaignId || !encounterId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const encounter = await getCampaignEncounter(campaignId, encounterId);
+    return NextResponse.json({ encounter });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Applies one change to a saved encounter: a table-play `command`, an `addCombatants` roster,
+ * or a `status` change. `revision` must match the encounter's current revision.
+ */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ id: string; encounterId: string }> },
+) {
+  try {
+    const { campaignId, encounterId } = await resolveParams(context);
+    if (!campaignId || !encounterId) return missingIdentifiers();
+    const body = (await req.json().catch(() => null)) as EncounterPatchBody | null;
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+    if (!Number.isInteger(body.revision) || Number(body.revision) < 0) {
+      return NextResponse.json(
+        { error: "revision must be a nonnegative integer.", code: "REVISION_REQUIRED" },
+        { status: 400 },
+      );
+    }
+    const expectedRevision = body.revision as number;
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    if (body.status !== undefined) {
+      if (body.status !== "ACTIVE" && body.status !== "COMPLETED") {
+        return NextResponse.json({ error: "status must be ACTIVE or COMPLETED.", code: "INVALID_STATUS" }, { status: 400 });
+      }
+      const encounter = await setCampaignEncounterStatus({
+        campaignId,
+        encounterId,
+        expectedRevision,
+        status: body.status,
+      });
+      return NextResponse.json({ encounter });
+    }
+
+    if (body.addCombatants !== undefined) {
+      const raw = (body.addCombatants && typeof body.addCombatants === "object" ? body.addCombatants : {}) as {
+        characters?: unknown;
+        monsters?: unknown;
+        side?: unknown;
+      };
+      const roster = parseEncounterRoster(raw);
+      if (roster.characters.length === 0 && roster.monsters.length === 0) {
+        return NextResponse.json(
+          { error: "Add at least one character or monster.", code: "EMPTY_ROSTER" },
+          { status: 400 },
+        );
+      }
+      const encounter = await addCampaignEncounterCombatants({
+        campaignId,
+        encounterId,
+        expectedRevision,
+        side: raw.side === "players" ? "players" : "monsters",
+        characters: roster.characters,
+        monsters: roster.monsters,
+      });
+      return NextResponse.json({ encounter });
+    }
+
+    const encounter = await applyCampaignEncounterCommand({
+      campaignId,
+      encounterId,
+      expectedRevision,
+      command: parseEncounterCommand(body.command),
+    });
+    return NextResponse.json({ encounter });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  context: { params: Promise<{ id: string; encounterId: string }> },
+) {
+  try {
+    const { campaignId, encounterId } = await resolveParams(context);
+    if (!campaignId || !encounterId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const deleted = await deleteCampaignEncounter(campaignId, encounterId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Encounter not found", code: "ENCOUNTER_NOT_FOUND" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
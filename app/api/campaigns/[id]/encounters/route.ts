@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { EncounterCommandError, parseEncounterRoster } from "@/lib/combat-lab/encounter";
+import {
+  createCampaignEncounter,
+  EncounterServiceError,
+  listCampaignEncounters,
+} from "@/lib/combat-lab/encounterServer";
+
+type CreateEncounterBody = {
+  name?: unknown;
+  characters?: unknown;
+  monsters?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof EncounterServiceError || error instanceof EncounterCommandError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error instanceof EncounterServiceError ? error.status : 400 },
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND" || message === "CAMPAIGN_NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+    return NextResponse.json(
+      { error: "One or more selected combatants were not found in this campaign", code: message },
+      { status: 404 },
+    );
+  }
+  console.error("[CAMPAIGN_ENCOUNTERS]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required", code: "INVALID_ROUTE_IDENTIFIERS" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const encounters = await listCampaignEncounters(campaignId);
+    return NextResponse.json({ encounters });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required", code: "INVALID_ROUTE_IDENTIFIERS" }, { status: 400 });
+    }
+    const body = (await req.json().catch(() => null)) as CreateEncounterBody | null;
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+    const roster = parseEncounterRoster(body);
+    if (roster.characters.length === 0 && roster.monsters.length === 0) {
+      return NextResponse.json(
+        { error: "Add at least one character or monster.", code: "EMPTY_ROSTER" },
+        { status: 400 },
+      );
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const encounter = await createCampaignEncounter({
+      campaignId,
+      userId,
+      name: typeof body.name === "string" ? body.name : "",
+      characters: roster.characters,
+      monsters: roster.monsters,
+    });
+    return NextResponse.json({ encounter }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
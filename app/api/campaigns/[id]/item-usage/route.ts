@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import {
+  getCampaignPermissions,
+  requireCampaignAccess,
+} from "@/lib/campaign/access";
+import { USAGE_LOG_LIST_LIMIT, type ItemUsageLogView } from "@/lib/campaign/consumables";
+import { prisma } from "@/prisma/client";
+
+function toErrorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_ITEM_USAGE]", error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+/** Most recent consumable uses across the campaign, for whoever manages its inventory. */
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, userId);
+    if (!getCampaignPermissions(access).canManageCampaignInventory) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const rows = await prisma.campaignItemUsageLog.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: "desc" },
+      take: USAGE_LOG_LIST_LIMIT,
+    });
+
+    const usage = rows.map(
+      (row): ItemUsageLogView => ({
+        id: row.id,
+        characterId: row.characterId,
+        characterName: row.characterName,
+        itemTemplateId: row.itemTemplateId,
+        itemName: row.itemName,
+        chargesUsed: row.chargesUsed,
+        chargesRemaining: row.chargesRemaining,
+        unitsRemaining: row.unitsRemaining,
+        stackConsumed: row.stackConsumed,
+        note: row.note,
+        actorUserId: row.actorUserId,
+        createdAt: row.createdAt.toISOString(),
+      }),
+    );
+    return NextResponse.json({ usage });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
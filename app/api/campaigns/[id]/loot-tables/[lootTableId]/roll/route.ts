@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { LootTableError, resolveLootSeed } from "@/lib/campaign/lootTables";
+import { rollCampaignLootTable } from "@/lib/campaign/lootTablesServer";
+
+type RollLootBody = {
+  seed?: unknown;
+  deposit?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof LootTableError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_LOOT_ROLL]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+/**
+ * Rolls a loot table. The seed is echoed back so a roll can be replayed; `deposit: true` adds the
+ * drops to the party inventory.
+ */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; lootTableId: string }> },
+) {
+  try {
+    const { id, lootTableId: rawLootTableId } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    const lootTableId = String(rawLootTableId ?? "").trim();
+    if (!campaignId || !lootTableId) {
+      return NextResponse.json(
+        { error: "Campaign id and loot table id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+        { status: 400 },
+      );
+    }
+    const body = ((await req.json().catch(() => null)) ?? {}) as RollLootBody;
+    const seed = resolveLootSeed(body.seed);
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const result = await rollCampaignLootTable({
+      campaignId,
+      lootTableId,
+      seed,
+      deposit: body.deposit === true,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
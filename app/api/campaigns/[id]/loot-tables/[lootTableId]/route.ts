@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { LootTableError, parseLootTableInput } from "@/lib/campaign/lootTables";
+import {
+  deleteCampaignLootTable,
+  getCampaignLootTable,
+  saveCampaignLootTable,
+} from "@/lib/campaign/lootTablesServer";
+
+function errorResponse(error: unknown) {
+  if (error instanceof LootTableError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_LOOT_TABLE]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; lootTableId: string }> }) {
+  const { id, lootTableId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    lootTableId: String(lootTableId ?? "").trim(),
+  };
+}
+
+function missingIdentifiers() {
+  return NextResponse.json(
+    { error: "Campaign id and loot table id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+    { status: 400 },
+  );
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string; lootTableId: string }> },
+) {
+  try {
+    const { campaignId, lootTableId } = await resolveParams(context);
+    if (!campaignId || !lootTableId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const lootTable = await getCampaignLootTable(campaignId, lootTableId);
+    return NextResponse.json({ lootTable });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Replaces the table's name, entries and monster links with the submitted definition. */
+export async function PUT(
+  req: Request,
+  context: { params: Promise<{ id: string; lootTableId: string }> },
+) {
+  try {
+    const { campaignId, lootTableId } = await resolveParams(context);
+    if (!campaignId || !lootTableId) return missingIdentifiers();
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const lootTable = await saveCampaignLootTable({
+      campaignId,
+      lootTableId,
+      input: parseLootTableInput(body),
+    });
+    return NextResponse.json({ lootTable });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  context: { params: Promise<{ id: string; lootTableId: string }> },
+) {
+  try {
+    const { campaignId, lootTableId } = await resolveParams(context);
+    if (!campaignId || !lootTableId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    await deleteCampaignLootTable(campaignId, lootTableId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { LootTableError, parseLootTableInput } from "@/lib/campaign/lootTables";
+import {
+  getLootTableEditorOptions,
+  listCampaignLootTables,
+  saveCampaignLootTable,
+} from "@/lib/campaign/lootTablesServer";
+
+function errorResponse(error: unknown) {
+  if (error instanceof LootTableError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_LOOT_TABLES]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveCampaignId(context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  return String(id ?? "").trim();
+}
+
+function missingCampaignId() {
+  return NextResponse.json({ error: "Campaign id is required", code: "INVALID_ROUTE_IDENTIFIERS" }, { status: 400 });
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const [lootTables, options] = await Promise.all([
+      listCampaignLootTables(campaignId),
+      getLootTableEditorOptions(campaignId),
+    ]);
+    return NextResponse.json({ lootTables, ...options });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const lootTable = await saveCampaignLootTable({
+      campaignId,
+      lootTableId: null,
+      input: parseLootTableInput(body),
+    });
+    return NextResponse.json({ lootTable }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
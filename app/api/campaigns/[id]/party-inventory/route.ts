@@ -86,6 +86,7 @@ export async function GET(
               size: true,
               armorLocation: true,
               itemLocation: true,
+              consumableCharges: true,
               tags: {
                 select: { tag: true },
                 orderBy: { tag: "asc" },
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { EconomyError, parseShopInput } from "@/lib/campaign/economy";
+import { deleteCampaignShop, saveCampaignShop } from "@/lib/campaign/economyServer";
+
+function errorResponse(error: unknown) {
+  if (error instanceof EconomyError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_SHOP]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; shopId: string }> }) {
+  const { id, shopId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    shopId: String(shopId ?? "").trim(),
+  };
+}
+
+function missingIdentifiers() {
+  return NextResponse.json(
+    { error: "Campaign id and shop id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+    { status: 400 },
+  );
+}
+
+/** Replaces the shop's details and stock list with the submitted definition. */
+export async function PUT(
+  req: Request,
+  context: { params: Promise<{ id: string; shopId: string }> },
+) {
+  try {
+    const { campaignId, shopId } = await resolveParams(context);
+    if (!campaignId || !shopId) return missingIdentifiers();
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const shop = await saveCampaignShop({ campaignId, shopId, input: parseShopInput(body) });
+    return NextResponse.json({ shop });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  context: { params: Promise<{ id: string; shopId: string }> },
+) {
+  try {
+    const { campaignId, shopId } = await resolveParams(context);
+    if (!campaignId || !shopId) return missingIdentifiers();
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    await deleteCampaignShop(campaignId, shopId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { getCampaignPermissions, requireCampaignAccess } from "@/lib/campaign/access";
+import { EconomyError, MAX_PURCHASE_QUANTITY, readWholeAmount } from "@/lib/campaign/economy";
+import { requireSpendingCharacter, sellBackpackItem } from "@/lib/campaign/economyServer";
+
+type SellBody = {
+  characterId?: unknown;
+  backpackItemId?: unknown;
+  quantity?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof EconomyError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_SHOP_SELL]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+/** Sells from a character's backpack to this shop; the sale is paid into that character's purse. */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; shopId: string }> },
+) {
+  try {
+    const { id, shopId: rawShopId } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    const shopId = String(rawShopId ?? "").trim();
+    if (!campaignId || !shopId) {
+      return NextResponse.json(
+        { error: "Campaign id and shop id are required.", code: "INVALID_ROUTE_IDENTIFIERS" },
+        { status: 400 },
+      );
+    }
+    const body = ((await req.json().catch(() => null)) ?? {}) as SellBody;
+    const characterId = typeof body.characterId === "string" ? body.characterId.trim() : "";
+    const backpackItemId = typeof body.backpackItemId === "string" ? body.backpackItemId.trim() : "";
+    if (!characterId || !backpackItemId) {
+      return NextResponse.json(
+        { error: "characterId and backpackItemId are required.", code: "INVALID_ECONOMY_INPUT" },
+        { status: 400 },
+      );
+    }
+    const quantity = readWholeAmount(body.quantity, "quantity", 1, MAX_PURCHASE_QUANTITY);
+
+    const userId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, userId);
+    const canManage = getCampaignPermissions(access).canManageCampaign;
+    await requireSpendingCharacter({ campaignId, characterId, userId, canManage });
+
+    const sale = await sellBackpackItem({
+      campaignId,
+      characterId,
+      shopId,
+      backpackItemId,
+      quantity,
+      actorUserId: userId,
+    });
+    return NextResponse.json({ ok: true, ...sale });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import {
+  getCampaignPermissions,
+  requireCampaignAccess,
+  requireCampaignGameDirector,
+} from "@/lib/campaign/access";
+import { EconomyError, parseShopInput } from "@/lib/campaign/economy";
+import { listCampaignShops, saveCampaignShop } from "@/lib/campaign/economyServer";
+import { prisma } from "@/prisma/client";
+
+function errorResponse(error: unknown) {
+  if (error instanceof EconomyError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_SHOPS]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveCampaignId(context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  return String(id ?? "").trim();
+}
+
+function missingCampaignId() {
+  return NextResponse.json({ error: "Campaign id is required", code: "INVALID_ROUTE_IDENTIFIERS" }, { status: 400 });
+}
+
+/** Players see open shops; Game Directors also get closed shops and the items they can stock. */
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+
+    const userId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, userId);
+    const canManage = getCampaignPermissions(access).canManageCampaign;
+
+    const [shops, itemTemplates] = await Promise.all([
+      listCampaignShops(campaignId, canManage),
+      canManage
+        ? prisma.itemTemplate.findMany({
+            where: { campaignId },
+            orderBy: { name: "asc" },
+            select: { id: true, name: true, rarity: true, level: true, type: true },
+          })
+        : Promise.resolve([]),
+    ]);
+    return NextResponse.json({ shops, itemTemplates, canManage });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const shop = await saveCampaignShop({ campaignId, shopId: null, input: parseShopInput(body) });
+    return NextResponse.json({ shop }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
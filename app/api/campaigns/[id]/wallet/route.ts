@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import {
+  getCampaignPermissions,
+  requireCampaignAccess,
+  requireCampaignGameDirector,
+} from "@/lib/campaign/access";
+import {
+  EconomyError,
+  parseCurrencyName,
+  parsePricingRuleInput,
+  parseWalletSource,
+  readNote,
+  readWholeAmount,
+  sameWallet,
+  MAX_WALLET_AMOUNT,
+} from "@/lib/campaign/economy";
+import {
+  adjustWallet,
+  getWalletOverview,
+  requireSpendingCharacter,
+  transferFunds,
+  updateEconomySettings,
+} from "@/lib/campaign/economyServer";
+import { prisma } from "@/prisma/client";
+
+type WalletActionBody = {
+  action?: unknown;
+  wallet?: unknown;
+  from?: unknown;
+  to?: unknown;
+  amount?: unknown;
+  note?: unknown;
+};
+
+type EconomySettingsBody = {
+  currencyName?: unknown;
+  pricingRule?: unknown;
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof EconomyError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden", code: "FORBIDDEN" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found", code: "CAMPAIGN_NOT_FOUND" }, { status: 404 });
+  }
+  console.error("[CAMPAIGN_WALLET]", error);
+  return NextResponse.json({ error: "Server error", code: "SERVER_ERROR" }, { status: 500 });
+}
+
+async function resolveCampaignId(context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  return String(id ?? "").trim();
+}
+
+function missingCampaignId() {
+  return NextResponse.json({ error: "Campaign id is required", code: "INVALID_ROUTE_IDENTIFIERS" }, { status: 400 });
+}
+
+async function ownedCharacterIds(campaignId: string, userId: string): Promise<string[]> {
+  const rows = await prisma.campaignCharacter.findMany({
+    where: { campaignId, assignedUserId: userId },
+    select: { id: true },
+  });
+  return rows.map((row) => row.id);
+}
+
+/** Game Directors see every purse and the whole ledger; players see the party wallet and their own characters. */
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+
+    const userId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, userId);
+    const canManage = getCampaignPermissions(access).canManageCampaign;
+
+    const wallet = await getWalletOverview(campaignId, canManage ? null : await ownedCharacterIds(campaignId, userId));
+    return NextResponse.json({ wallet, canManage });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * `action: "adjust"` grants or deducts funds (Game Director only). `action: "transfer"` moves funds
+ * between wallets; players may only transfer out of their own characters' purses.
+ */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+    const body = (await req.json().catch(() => null)) as WalletActionBody | null;
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    const access = await requireCampaignAccess(campaignId, userId);
+    const canManage = getCampaignPermissions(access).canManageCampaign;
+    const note = readNote(body.note);
+
+    if (body.action === "adjust") {
+      if (!canManage) throw new Error("FORBIDDEN");
+      const amount = readWholeAmount(body.amount, "amount", -MAX_WALLET_AMOUNT);
+      if (amount === 0) throw new EconomyError("INVALID_ECONOMY_INPUT", "amount cannot be zero", 400);
+      const source = parseWalletSource(body.wallet, "wallet");
+      const balance = await adjustWallet({ campaignId, source, amount, note, actorUserId: userId });
+      return NextResponse.json({ balance });
+    }
+
+    if (body.action === "transfer") {
+      const from = parseWalletSource(body.from, "from");
+      const to = parseWalletSource(body.to, "to");
+      if (sameWallet(from, to)) {
+        throw new EconomyError("INVALID_ECONOMY_INPUT", "Choose two different wallets.", 400);
+      }
+      if (!canManage) {
+        if (from.kind === "party") throw new Error("FORBIDDEN");
+        await requireSpendingCharacter({ campaignId, characterId: from.characterId, userId, canManage });
+      }
+      await transferFunds({
+        campaignId,
+        from,
+        to,
+        amount: readWholeAmount(body.amount, "amount", 1),
+        note,
+        actorUserId: userId,
+      });
+      return NextResponse.json({ ok: true });
+    }
+
+    return NextResponse.json({ error: 'action must be "adjust" or "transfer".', code: "INVALID_ACTION" }, { status: 400 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Updates the currency name and item pricing rule. */
+export async function PUT(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) return missingCampaignId();
+    const body = (await req.json().catch(() => null)) as EconomySettingsBody | null;
+    if (!body) {
+      return NextResponse.json({ error: "A JSON request body is required.", code: "MALFORMED_JSON_BODY" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    await updateEconomySettings({
+      campaignId,
+      currencyName: body.currencyName === undefined ? undefined : parseCurrencyName(body.currencyName),
+      pricingRule: body.pricingRule === undefined ? undefined : parsePricingRuleInput(body.pricingRule),
+    });
+    const wallet = await getWalletOverview(campaignId, null);
+    return NextResponse.json({ wallet, canManage: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { EncounterBudgetError, parseEncounterBudgetRequest } from "@/lib/combat-lab/encounterBudget";
+import { buildCampaignEncounterBudget } from "@/lib/combat-lab/encounterBudgetServer";
+
+/**
+ * Budgets an encounter for the selected party and monsters. Body: run-request `characters` and
+ * `monsters`, plus `targetBand` (default MODERATE) and `verify` to also simulate the roster.
+ */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required" }, { status: 400 });
+    }
+    const request = parseEncounterBudgetRequest(await req.json().catch(() => ({})));
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    return NextResponse.json(await buildCampaignEncounterBudget({ campaignId, request }));
+  } catch (error) {
+    if (error instanceof EncounterBudgetError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "NOT_FOUND" || message === "CAMPAIGN_NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "One or more selected combatants were not found in this campaign" },
+        { status: 404 },
+      );
+    }
+    console.error("[COMBAT_LAB_ENCOUNTER_BUDGET]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import {
+  deleteCombatLabRunRecord,
+  getCombatLabRunRecord,
+} from "@/lib/combat-lab/runHistoryServer";
+
+function toErrorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign or saved run not found" }, { status: 404 });
+  }
+  console.error("[COMBAT_LAB_HISTORY_RUN]", error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; runId: string }> }) {
+  const { id, runId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    runId: String(runId ?? "").trim(),
+  };
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string; runId: string }> },
+) {
+  try {
+    const { campaignId, runId } = await resolveParams(context);
+    if (!campaignId || !runId) {
+      return NextResponse.json({ error: "Campaign id and run id are required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const run = await getCombatLabRunRecord(campaignId, runId);
+    if (!run) {
+      return NextResponse.json({ error: "Saved run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ run });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  context: { params: Promise<{ id: string; runId: string }> },
+) {
+  try {
+    const { campaignId, runId } = await resolveParams(context);
+    if (!campaignId || !runId) {
+      return NextResponse.json({ error: "Campaign id and run id are required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const deleted = await deleteCombatLabRunRecord(campaignId, runId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Saved run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { listCombatLabRunHistory } from "@/lib/combat-lab/runHistoryServer";
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const runs = await listCombatLabRunHistory(campaignId);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    console.error("[COMBAT_LAB_HISTORY_GET]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { parseScenarioPresetName, ScenarioPresetError } from "@/lib/combat-lab/scenarioPresets";
+import {
+  duplicateCombatLabScenarioPreset,
+  ScenarioPresetServiceError,
+} from "@/lib/combat-lab/scenarioPresetsServer";
+
+/** Copies a preset. `name` is optional; without it the copy is named "<name> (copy)". */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; presetId: string }> },
+) {
+  try {
+    const { id, presetId: rawPresetId } = await context.params;
+    const campaignId = String(id ?? "").trim();
+    const presetId = String(rawPresetId ?? "").trim();
+    if (!campaignId || !presetId) {
+      return NextResponse.json({ error: "Campaign id and preset id are required" }, { status: 400 });
+    }
+    const body = (await req.json().catch(() => ({}))) as { name?: unknown };
+    const name =
+      body.name === undefined || body.name === null || body.name === "" ? null : parseScenarioPresetName(body.name);
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const preset = await duplicateCombatLabScenarioPreset({ campaignId, presetId, userId, name });
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScenarioPresetServiceError || error instanceof ScenarioPresetError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error instanceof ScenarioPresetServiceError ? error.status : 400 },
+      );
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    console.error("[COMBAT_LAB_PRESET_DUPLICATE]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
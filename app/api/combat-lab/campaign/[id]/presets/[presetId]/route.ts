@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { ScenarioPresetError } from "@/lib/combat-lab/scenarioPresets";
+import {
+  deleteCombatLabScenarioPreset,
+  getCombatLabScenarioPreset,
+} from "@/lib/combat-lab/scenarioPresetsServer";
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof ScenarioPresetError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign or preset not found" }, { status: 404 });
+  }
+  console.error("[COMBAT_LAB_PRESET]", error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+async function resolveParams(context: { params: Promise<{ id: string; presetId: string }> }) {
+  const { id, presetId } = await context.params;
+  return {
+    campaignId: String(id ?? "").trim(),
+    presetId: String(presetId ?? "").trim(),
+  };
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string; presetId: string }> },
+) {
+  try {
+    const { campaignId, presetId } = await resolveParams(context);
+    if (!campaignId || !presetId) {
+      return NextResponse.json({ error: "Campaign id and preset id are required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const preset = await getCombatLabScenarioPreset(campaignId, presetId);
+    if (!preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+    return NextResponse.json({ preset });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  context: { params: Promise<{ id: string; presetId: string }> },
+) {
+  try {
+    const { campaignId, presetId } = await resolveParams(context);
+    if (!campaignId || !presetId) {
+      return NextResponse.json({ error: "Campaign id and preset id are required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const deleted = await deleteCombatLabScenarioPreset(campaignId, presetId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
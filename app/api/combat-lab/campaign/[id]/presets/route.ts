@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import {
+  parseScenarioPresetDefinition,
+  ScenarioPresetError,
+  type CombatLabScenarioPresetBody,
+} from "@/lib/combat-lab/scenarioPresets";
+import {
+  createCombatLabScenarioPreset,
+  listCombatLabScenarioPresets,
+  ScenarioPresetServiceError,
+} from "@/lib/combat-lab/scenarioPresetsServer";
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof ScenarioPresetServiceError || error instanceof ScenarioPresetError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error instanceof ScenarioPresetServiceError ? error.status : 400 },
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (message === "NOT_FOUND") {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  console.error("[COMBAT_LAB_PRESETS]", error);
+  return NextResponse.json({ error: "Server error" }, { status: 500 });
+}
+
+async function resolveCampaignId(context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  return String(id ?? "").trim();
+}
+
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const presets = await listCombatLabScenarioPresets(campaignId);
+    return NextResponse.json({ presets });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/** Saves a named preset. The body takes the same selection and setting fields as a run request. */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const campaignId = await resolveCampaignId(context);
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign id is required" }, { status: 400 });
+    }
+    const body = (await req.json().catch(() => ({}))) as CombatLabScenarioPresetBody;
+    const definition = parseScenarioPresetDefinition(body);
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const preset = await createCombatLabScenarioPreset({ campaignId, userId, definition });
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
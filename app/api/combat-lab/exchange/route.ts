@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import {
+  adaptCampaignCombatants,
+  fetchCampaignCombatantRows,
+} from "@/lib/combat-lab/campaignCombatantsServer";
+import {
+  computeExchangeOdds,
+  EXCHANGE_DEFENCE_MODES,
+  listExchangeActions,
+  type ExchangeDefenceMode,
+} from "@/lib/combat-lab/exchangeOdds";
+import type { CombatActor } from "@/lib/combat-lab/types";
+
+type ExchangeCombatantRef = { kind: "character" | "monster"; id: string };
+
+function parseCombatantRef(value: unknown): ExchangeCombatantRef | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as { kind?: unknown; id?: unknown };
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!id || (raw.kind !== "character" && raw.kind !== "monster")) return null;
+  return { kind: raw.kind, id };
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      campaignId?: unknown;
+      attacker?: unknown;
+      target?: unknown;
+      defenceMode?: unknown;
+    };
+    const campaignId = typeof body.campaignId === "string" ? body.campaignId.trim() : "";
+    const attackerRef = parseCombatantRef(body.attacker);
+    const targetRef = parseCombatantRef(body.target);
+    const defenceMode: ExchangeDefenceMode = EXCHANGE_DEFENCE_MODES.includes(body.defenceMode as ExchangeDefenceMode)
+      ? (body.defenceMode as ExchangeDefenceMode)
+      : "auto";
+    if (!campaignId || !attackerRef || !targetRef) {
+      return NextResponse.json({ error: "campaignId, attacker, and target are required" }, { status: 400 });
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const refs = [attackerRef, targetRef];
+    const rows = await fetchCampaignCombatantRows({
+      campaignId,
+      characters: Array.from(new Set(refs.filter((ref) => ref.kind === "character").map((ref) => ref.id))).map(
+        (characterId) => ({ characterId, quantity: 1 }),
+      ),
+      monsters: Array.from(new Set(refs.filter((ref) => ref.kind === "monster").map((ref) => ref.id))).map(
+        (monsterId) => ({ monsterId, quantity: 1 }),
+      ),
+    });
+    const adapted = adaptCampaignCombatants(rows);
+    const actorFor = (ref: ExchangeCombatantRef): CombatActor => {
+      // Adapted combatants come back in selection order.
+      const entry =
+        ref.kind === "character"
+          ? adapted.characters[rows.selections.characters.findIndex((selection) => selection.characterId === ref.id)]
+          : adapted.monsters[rows.selections.monsters.findIndex((selection) => selection.monsterId === ref.id)];
+      if (!entry) throw new Error(ref.kind === "character" ? "SELECTED_CHARACTER_NOT_FOUND" : "SELECTED_MONSTER_NOT_FOUND");
+      return entry.actor;
+    };
+    const attacker = actorFor(attackerRef);
+    const baseTarget = actorFor(targetRef);
+    // Pitting a monster against its own kind must not read as a self-targeted action.
+    const target = baseTarget.id === attacker.id ? { ...baseTarget, id: `${baseTarget.id}:target` } : baseTarget;
+
+    const actions = listExchangeActions(attacker);
+    if (actions.length === 0) {
+      return NextResponse.json({ error: `${attacker.name} has no attack actions` }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      attacker: { id: attacker.id, name: attacker.name },
+      target: { id: target.id, name: target.name },
+      exchanges: actions.map((action) => computeExchangeOdds({ attacker, action, target, defenceMode })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "CAMPAIGN_NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "One or more selected combatants were not found in this campaign" },
+        { status: 404 },
+      );
+    }
+    console.error("[COMBAT_LAB_EXCHANGE]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
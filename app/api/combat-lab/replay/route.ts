@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import { loadCampaignCombatants } from "@/lib/combat-lab/campaignCombatantsServer";
+import { createActorInstances } from "@/lib/combat-lab/combatState";
+import { CombatReplayError, parseReplaySelector, replayCombatRun } from "@/lib/combat-lab/replay";
+import {
+  MAX_CONVERGENCE_RUNS,
+  parseCharacterSelections,
+  parseGridConfig,
+  parseMaxRounds,
+  parseMonsterSelections,
+  parseTurnOrder,
+  type CombatLabRunRequestBody,
+} from "@/lib/combat-lab/runRequest";
+
+type CombatLabReplayRequestBody = CombatLabRunRequestBody & {
+  replay?: unknown;
+};
+
+function parseInteger(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as CombatLabReplayRequestBody;
+    const campaignId = typeof body.campaignId === "string" ? body.campaignId.trim() : "";
+    const { selections: characterSelections, error: characterSelectionError } = parseCharacterSelections(body);
+    const { selections: monsterSelections, error: monsterSelectionError } = parseMonsterSelections(body);
+    const seed = parseInteger(body.seed);
+    const runs = parseInteger(body.runs);
+    const selectedTurnOrder = parseTurnOrder(body.turnOrder);
+    const grid = parseGridConfig(body);
+
+    if (characterSelectionError || monsterSelectionError) {
+      return NextResponse.json({ error: characterSelectionError ?? monsterSelectionError }, { status: 400 });
+    }
+    if (!campaignId || characterSelections.length === 0 || monsterSelections.length === 0) {
+      return NextResponse.json(
+        { error: "campaignId, characters, and monsters are required" },
+        { status: 400 },
+      );
+    }
+    if (seed === null || seed < 0 || runs === null || runs < 1 || runs > MAX_CONVERGENCE_RUNS) {
+      return NextResponse.json(
+        { error: `seed and runs (1 to ${MAX_CONVERGENCE_RUNS}) from the original run are required` },
+        { status: 400 },
+      );
+    }
+    const selector = parseReplaySelector(body.replay);
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const {
+      campaign,
+      characters: adaptedCharacters,
+      monsters: adaptedMonsters,
+    } = await loadCampaignCombatants({
+      campaignId,
+      characters: characterSelections,
+      monsters: monsterSelections,
+    });
+    const replay = replayCombatRun(
+      {
+        name: `${campaign.name}: selected campaign combatants`,
+        players: adaptedCharacters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+        monsters: adaptedMonsters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+        runs,
+        seed,
+        maxRounds: parseMaxRounds(body.maxRounds),
+        turnOrder: selectedTurnOrder,
+        grid,
+      },
+      selector,
+    );
+
+    return NextResponse.json({ replay });
+  } catch (error) {
+    if (error instanceof CombatReplayError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "CAMPAIGN_NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "One or more selected combatants were not found in this campaign" },
+        { status: 404 },
+      );
+    }
+    console.error("[COMBAT_LAB_REPLAY]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -2,291 +2,114 @@ import { NextResponse } from "next/server";
 
 import { requireUserId } from "@/lib/auth/server";
 import { requireCampaignGameDirector } from "@/lib/campaign/access";
-import {
-  adaptCampaignCharacterToCombatActor,
-  adaptMonsterToCombatLabActor,
-  itemTemplateToSummoningEquipmentItem,
-} from "@/lib/combat-lab/liveAdapters";
+import { loadCampaignCombatants } from "@/lib/combat-lab/campaignCombatantsServer";
 import { createActorInstances } from "@/lib/combat-lab/combatState";
-import { ensureCharacterBuilderTuning } from "@/lib/config/characterBuilderTuning";
-import { getProtectionTuning } from "@/lib/config/combatTuning";
-import { ensureSeedPowerTuningSet } from "@/lib/config/powerTuning";
-import { runScenarioSuite } from "@/lib/combat-lab/reporting";
-import type { CombatTurnOrder } from "@/lib/combat-lab/types";
-import { prisma } from "@/prisma/client";
-
-type RunRequestBody = {
-  campaignId?: unknown;
-  characters?: unknown;
-  characterIds?: unknown;
-  monsters?: unknown;
-  monsterIds?: unknown;
-  runs?: unknown;
-  turnOrder?: unknown;
-};
-
-type CharacterSelection = {
-  characterId: string;
-  quantity: number;
-};
-
-type MonsterSelection = {
-  monsterId: string;
-  quantity: number;
-};
-
-const POWER_INCLUDE = {
-  rangeCategories: { orderBy: { rangeCategory: "asc" as const } },
-  primaryDefenceGate: true,
-  effectPackets: {
-    orderBy: { packetIndex: "asc" as const },
-    include: { localTargetingOverride: true },
-  },
-};
-
-const ITEM_TEMPLATE_INCLUDE = {
-  rangeCategories: { select: { rangeCategory: true } },
-  meleeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
-  rangedDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
-  aoeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
-  attackEffectsMelee: { select: { attackEffect: { select: { name: true } } } },
-  attackEffectsRanged: { select: { attackEffect: { select: { name: true } } } },
-  attackEffectsAoE: { select: { attackEffect: { select: { name: true } } } },
-  vrpEntries: { select: { effectKind: true, magnitude: true, damageType: { select: { name: true } } } },
-};
-
-function stringList(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .map((entry) => (typeof entry === "string" ? entry.trim() : ""))
-    .filter(Boolean)
-    .slice(0, 20);
-}
-
-function parseCharacterSelections(body: RunRequestBody): { selections: CharacterSelection[]; error?: string } {
-  const merged = new Map<string, number>();
-  if (Array.isArray(body.characters)) {
-    for (const entry of body.characters) {
-      if (!entry || typeof entry !== "object") {
-        return { selections: [], error: "Each character selection must include characterId and quantity" };
-      }
-      const raw = entry as { characterId?: unknown; quantity?: unknown };
-      const characterId = typeof raw.characterId === "string" ? raw.characterId.trim() : "";
-      const quantityValue = typeof raw.quantity === "number" ? raw.quantity : Number(raw.quantity);
-      if (!characterId) return { selections: [], error: "Character selection characterId is required" };
-      if (!Number.isInteger(quantityValue) || quantityValue < 1 || quantityValue > 30) {
-        return { selections: [], error: "Character quantity must be an integer between 1 and 30" };
-      }
-      merged.set(characterId, (merged.get(characterId) ?? 0) + quantityValue);
-    }
-  } else {
-    for (const characterId of stringList(body.characterIds)) {
-      merged.set(characterId, (merged.get(characterId) ?? 0) + 1);
+import { saveCombatLabRunRecord } from "@/lib/combat-lab/runHistoryServer";
+import { runScenarioSuite, runScenarioSuiteUntilConverged } from "@/lib/combat-lab/reporting";
+import {
+  parseCharacterSelections,
+  parseConvergenceOptions,
+  parseGridConfig,
+  parseMaxRounds,
+  parseMonsterSelections,
+  parseRunCount,
+  parseSeed,
+  parseTurnOrder,
+  type CombatLabRunRequestBody,
+} from "@/lib/combat-lab/runRequest";
+import { presetRunRequestBody, ScenarioPresetError } from "@/lib/combat-lab/scenarioPresets";
+import { getCombatLabScenarioPreset } from "@/lib/combat-lab/scenarioPresetsServer";
+
+/**
+ * Runs the selected combatants, or a saved preset when `presetId` is given. A preset supplies the
+ * selections and settings; `label`, `saveToHistory`, and `convergence` still come from the request.
+ */
+export async function POST(req: Request) {
+  try {
+    const requestBody = (await req.json().catch(() => ({}))) as CombatLabRunRequestBody;
+    const campaignId = typeof requestBody.campaignId === "string" ? requestBody.campaignId.trim() : "";
+    const presetId = typeof requestBody.presetId === "string" ? requestBody.presetId.trim() : "";
+    if (!campaignId) {
+      return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
     }
-  }
 
-  const selections = [...merged.entries()].map(([characterId, quantity]) => ({ characterId, quantity }));
-  if (selections.some((selection) => selection.quantity > 30)) {
-    return { selections: [], error: "Character quantity must be between 1 and 30 per character" };
-  }
-  const totalInstances = selections.reduce((sum, selection) => sum + selection.quantity, 0);
-  if (totalInstances > 50) {
-    return { selections: [], error: "Total character instances cannot exceed 50" };
-  }
-  return { selections };
-}
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
 
-function parseMonsterSelections(body: RunRequestBody): { selections: MonsterSelection[]; error?: string } {
-  const merged = new Map<string, number>();
-  if (Array.isArray(body.monsters)) {
-    for (const entry of body.monsters) {
-      if (!entry || typeof entry !== "object") {
-        return { selections: [], error: "Each monster selection must include monsterId and quantity" };
-      }
-      const raw = entry as { monsterId?: unknown; quantity?: unknown };
-      const monsterId = typeof raw.monsterId === "string" ? raw.monsterId.trim() : "";
-      const quantityValue = typeof raw.quantity === "number" ? raw.quantity : Number(raw.quantity);
-      if (!monsterId) return { selections: [], error: "Monster selection monsterId is required" };
-      if (!Number.isInteger(quantityValue) || quantityValue < 1 || quantityValue > 30) {
-        return { selections: [], error: "Monster quantity must be an integer between 1 and 30" };
-      }
-      merged.set(monsterId, (merged.get(monsterId) ?? 0) + quantityValue);
-    }
-  } else {
-    for (const monsterId of stringList(body.monsterIds)) {
-      merged.set(monsterId, (merged.get(monsterId) ?? 0) + 1);
+    const preset = presetId ? await getCombatLabScenarioPreset(campaignId, presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
     }
-  }
-
-  const selections = [...merged.entries()].map(([monsterId, quantity]) => ({ monsterId, quantity }));
-  if (selections.some((selection) => selection.quantity > 30)) {
-    return { selections: [], error: "Monster quantity must be between 1 and 30 per monster" };
-  }
-  const totalInstances = selections.reduce((sum, selection) => sum + selection.quantity, 0);
-  if (totalInstances > 50) {
-    return { selections: [], error: "Total monster instances cannot exceed 50" };
-  }
-  return { selections };
-}
-
-function runCount(value: unknown): number {
-  const parsed = typeof value === "number" ? value : Number(value);
-  if (!Number.isFinite(parsed)) return 50;
-  return Math.max(1, Math.min(500, Math.trunc(parsed)));
-}
-
-function turnOrder(value: unknown): CombatTurnOrder {
-  return value === "playersFirst" ||
-    value === "monstersFirst" ||
-    value === "randomSeeded" ||
-    value === "alternatingByRound"
-    ? value
-    : "alternatingByRound";
-}
-
-export async function POST(req: Request) {
-  try {
-    const body = (await req.json().catch(() => ({}))) as RunRequestBody;
-    const campaignId = typeof body.campaignId === "string" ? body.campaignId.trim() : "";
+    const body: CombatLabRunRequestBody = preset ? { ...requestBody, ...presetRunRequestBody(preset) } : requestBody;
     const { selections: characterSelections, error: characterSelectionError } = parseCharacterSelections(body);
-    const characterIds = characterSelections.map((selection) => selection.characterId);
     const { selections: monsterSelections, error: monsterSelectionError } = parseMonsterSelections(body);
-    const monsterIds = monsterSelections.map((selection) => selection.monsterId);
-    const runs = runCount(body.runs);
-    const selectedTurnOrder = turnOrder(body.turnOrder);
-
-    if (characterSelectionError || monsterSelectionError) {
-      return NextResponse.json({ error: characterSelectionError ?? monsterSelectionError }, { status: 400 });
-    }
-    if (!campaignId || characterSelections.length === 0 || monsterSelections.length === 0) {
+    const runs = parseRunCount(body.runs);
+    const selectedTurnOrder = parseTurnOrder(body.turnOrder);
+    const grid = parseGridConfig(body);
+    const { options: convergence, error: convergenceError } = parseConvergenceOptions(body);
+    const { seed: requestedSeed, error: seedError } = parseSeed(body.seed);
+    const maxRounds = parseMaxRounds(body.maxRounds);
+
+    if (characterSelectionError || monsterSelectionError || convergenceError || seedError) {
       return NextResponse.json(
-        { error: "campaignId, characters, and monsters are required" },
+        { error: characterSelectionError ?? monsterSelectionError ?? convergenceError ?? seedError },
         { status: 400 },
       );
     }
-
-    const userId = await requireUserId();
-    await requireCampaignGameDirector(campaignId, userId);
-
-    const [campaign, characters, monsters, protectionTuning, powerTuning, characterBuilderTuning] = await Promise.all([
-      prisma.campaign.findUnique({
-        where: { id: campaignId },
-        select: { id: true, name: true, descriptorVersionTag: true },
-      }),
-      prisma.campaignCharacter.findMany({
-        where: { campaignId, id: { in: characterIds }, archivedAt: null },
-        include: {
-          backpackItems: {
-            include: {
-              partyInventoryItem: {
-                include: {
-                  itemTemplate: {
-                    include: ITEM_TEMPLATE_INCLUDE,
-                  },
-                },
-              },
-            },
-          },
-        },
-      }),
-      prisma.monster.findMany({
-        where: { campaignId, id: { in: monsterIds }, source: "CAMPAIGN", isReadOnly: false },
-        include: {
-          naturalAttack: true,
-          attacks: { orderBy: { sortOrder: "asc" } },
-          traits: {
-            orderBy: { sortOrder: "asc" },
-            include: { trait: { select: { name: true, effectText: true } } },
-          },
-          powers: {
-            orderBy: { sortOrder: "asc" },
-            include: POWER_INCLUDE,
-          },
-        },
-      }),
-      getProtectionTuning(),
-      ensureSeedPowerTuningSet(),
-      ensureCharacterBuilderTuning(),
-    ]);
-
-    const monsterItemIds = Array.from(
-      new Set(
-        monsters.flatMap((monster) => [
-          monster.mainHandItemId,
-          monster.offHandItemId,
-          monster.smallItemId,
-          monster.headArmorItemId,
-          monster.shoulderArmorItemId,
-          monster.torsoArmorItemId,
-          monster.legsArmorItemId,
-          monster.feetArmorItemId,
-          monster.headItemId,
-          monster.neckItemId,
-          monster.armsItemId,
-          monster.beltItemId,
-        ]).filter(Boolean) as string[],
-      ),
-    );
-    const monsterEquipmentRows =
-      monsterItemIds.length > 0
-        ? await prisma.itemTemplate.findMany({
-            where: { campaignId, id: { in: monsterItemIds } },
-            include: ITEM_TEMPLATE_INCLUDE,
-          })
-        : [];
-    const monsterEquipmentById = new Map(
-      monsterEquipmentRows.map((item) => [item.id, itemTemplateToSummoningEquipmentItem(item)]),
-    );
-
-    if (!campaign) {
-      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
-    }
-    if (characters.length !== characterIds.length || monsters.length !== monsterIds.length) {
+    if (characterSelections.length === 0 || monsterSelections.length === 0) {
       return NextResponse.json(
-        { error: "One or more selected combatants were not found in this campaign" },
-        { status: 404 },
+        { error: "characters and monsters are required" },
+        { status: 400 },
       );
     }
 
-    const adaptedCharacterById = new Map(
-      characters.map((character) => [
-        character.id,
-        adaptCampaignCharacterToCombatActor(
-          character,
-          protectionTuning,
-          powerTuning,
-          characterBuilderTuning.playerPowerSpendScalar,
-        ),
-      ]),
-    );
-    const adaptedCharacters = characterSelections.map((selection) => {
-      const character = adaptedCharacterById.get(selection.characterId);
-      if (!character) throw new Error("SELECTED_CHARACTER_NOT_FOUND");
-      return { ...character, quantity: selection.quantity };
-    });
-    const monsterById = new Map(monsters.map((monster) => [monster.id, monster]));
-    const adaptedMonsters = monsterSelections.map((selection) => {
-      const monster = monsterById.get(selection.monsterId);
-      if (!monster) throw new Error("SELECTED_MONSTER_NOT_FOUND");
-      return {
-        ...adaptMonsterToCombatLabActor(monster, monsterEquipmentById, protectionTuning, powerTuning),
-        quantity: selection.quantity,
-      };
+    const {
+      campaign,
+      characters: adaptedCharacters,
+      monsters: adaptedMonsters,
+      tuningSetIds,
+    } = await loadCampaignCombatants({
+      campaignId,
+      characters: characterSelections,
+      monsters: monsterSelections,
     });
     const characterInstances = adaptedCharacters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity));
     const monsterInstances = adaptedMonsters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity));
-    const report = runScenarioSuite({
+    const seed = requestedSeed ?? Date.now() % 100000;
+    const scenario = {
       name: `${campaign.name}: selected campaign combatants`,
       players: characterInstances,
       monsters: monsterInstances,
       runs,
-      seed: Date.now() % 100000,
-      maxRounds: 20,
+      seed,
+      maxRounds,
       turnOrder: selectedTurnOrder,
-    });
+      grid,
+    };
+    const report = convergence
+      ? runScenarioSuiteUntilConverged(scenario, convergence)
+      : runScenarioSuite(scenario);
+    const savedRun =
+      body.saveToHistory === false
+        ? null
+        : await saveCombatLabRunRecord({
+            campaignId,
+            userId,
+            label: typeof body.label === "string" && body.label.trim() ? body.label : (preset?.name ?? null),
+            seed,
+            maxRounds,
+            turnOrder: selectedTurnOrder,
+            scenarioInput: { characters: characterSelections, monsters: monsterSelections, grid },
+            tuningSetIds,
+            report,
+          });
 
     return NextResponse.json({
       campaign,
+      savedRun,
+      presetId: preset?.id ?? null,
+      seed,
+      maxRounds,
       selectedCharacters: adaptedCharacters.map((entry) => ({
         id: entry.actor.id,
         name: entry.actor.name,
@@ -385,6 +208,9 @@ export async function POST(req: Request) {
       report,
     });
   } catch (error) {
+    if (error instanceof ScenarioPresetError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
     const message = error instanceof Error ? error.message : String(error);
     if (message === "UNAUTHORIZED") {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -392,6 +218,9 @@ export async function POST(req: Request) {
     if (message === "FORBIDDEN") {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
+    if (message === "NOT_FOUND" || message === "CAMPAIGN_NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
     if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
       return NextResponse.json(
         { error: "One or more selected combatants were not found in this campaign" },
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+
+import { requireUserId } from "@/lib/auth/server";
+import { requireCampaignGameDirector } from "@/lib/campaign/access";
+import {
+  adaptCampaignCombatants,
+  fetchCampaignCombatantRows,
+} from "@/lib/combat-lab/campaignCombatantsServer";
+import { createActorInstances } from "@/lib/combat-lab/combatState";
+import {
+  parseCharacterSelections,
+  parseGridConfig,
+  parseMaxRounds,
+  parseMonsterSelections,
+  parseRunCount,
+  parseSeed,
+  parseTurnOrder,
+  type CombatLabRunRequestBody,
+} from "@/lib/combat-lab/runRequest";
+import {
+  CombatSweepError,
+  parseSweepAxes,
+  runScenarioSweep,
+  type CombatSweepActorOverrides,
+} from "@/lib/combat-lab/sweep";
+
+type CombatLabSweepRequestBody = CombatLabRunRequestBody & { axes?: unknown };
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as CombatLabSweepRequestBody;
+    const campaignId = typeof body.campaignId === "string" ? body.campaignId.trim() : "";
+    const { selections: characterSelections, error: characterSelectionError } = parseCharacterSelections(body);
+    const { selections: monsterSelections, error: monsterSelectionError } = parseMonsterSelections(body);
+    const axes = parseSweepAxes(body.axes);
+    const { seed, error: seedError } = parseSeed(body.seed);
+
+    if (characterSelectionError || monsterSelectionError || seedError) {
+      return NextResponse.json(
+        { error: characterSelectionError ?? monsterSelectionError ?? seedError },
+        { status: 400 },
+      );
+    }
+    if (!campaignId || characterSelections.length === 0 || monsterSelections.length === 0) {
+      return NextResponse.json(
+        { error: "campaignId, characters, and monsters are required" },
+        { status: 400 },
+      );
+    }
+
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(campaignId, userId);
+
+    const rows = await fetchCampaignCombatantRows({
+      campaignId,
+      characters: characterSelections,
+      monsters: monsterSelections,
+    });
+    const buildActors = (overrides: CombatSweepActorOverrides) => {
+      const adapted = adaptCampaignCombatants(rows, {
+        monsterLevel: overrides.monsterLevel,
+        combatTuningOverrides: overrides.combatTuning,
+      });
+      return {
+        players: adapted.characters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+        monsters: adapted.monsters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+      };
+    };
+    const baseActors = buildActors({});
+    const sweep = runScenarioSweep({
+      base: {
+        name: `${rows.campaign.name}: parameter sweep`,
+        ...baseActors,
+        runs: parseRunCount(body.runs ?? 20),
+        seed: seed ?? Date.now() % 100000,
+        maxRounds: parseMaxRounds(body.maxRounds),
+        turnOrder: parseTurnOrder(body.turnOrder),
+        grid: parseGridConfig(body),
+      },
+      axes,
+      buildActors,
+    });
+
+    return NextResponse.json({ campaign: rows.campaign, tuningSetIds: rows.tuningSetIds, sweep });
+  } catch (error) {
+    if (error instanceof CombatSweepError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (message === "CAMPAIGN_NOT_FOUND") {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    if (message === "SELECTED_CHARACTER_NOT_FOUND" || message === "SELECTED_MONSTER_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "One or more selected combatants were not found in this campaign" },
+        { status: 404 },
+      );
+    }
+    console.error("[COMBAT_LAB_SWEEP]", error);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -6,6 +6,7 @@ import {
   requireUserId,
 } from '../../_shared';
 import { requireCampaignOwner } from '@/lib/campaign/access';
+import { normalizeConsumableCharges } from '@/lib/campaign/consumables';
 
 import { normalizeVRPEntries } from '../vrp-utils';
 import type { VRPEntryInput } from '../vrp-utils';
@@ -15,6 +16,7 @@ import {
   sanitizeDamageTypeIds,
   sanitizeVRPEntries,
 } from '@/lib/damageTypes/selectable';
+import { getActiveForgeCostSetId } from '@/lib/config/forgeCostSets';
 
 // Local enum replacements.
 // Your generated Prisma Client does not export these as TS enums in this project,
@@ -130,6 +132,8 @@ type ItemTemplateInput = {
   itemLocation?: ItemLocation | null;
   customItemAttributes?: string | null;
 
+  consumableCharges?: number | null;
+
   rangeCategories?: RangeCategory[];
 
   meleeDamageTypeIds?: number[];
@@ -343,9 +347,12 @@ export async function PUT(
       body.vrpEntries !== undefined
         ? sanitizeVRPEntries(body.vrpEntries, selectableDamageTypeIds)
         : undefined;
+      // The editor prices against the ACTIVE cost set, so every save re-stamps it.
+      const forgeCostSetId = await getActiveForgeCostSetId();
       const updated = await prisma.$transaction(async (tx) => {
       // 1) core update (scoped to campaign)
       const itemTemplateUpdateData = {
+        forgeCostSetId,
         ...(body.itemUrl !== undefined ? { itemUrl: body.itemUrl } : {}),
         ...(body.name !== undefined ? { name: body.name } : {}),
         ...(body.rarity !== undefined ? { rarity: body.rarity } : {}),
@@ -454,6 +461,10 @@ export async function PUT(
         ...(body.customItemAttributes !== undefined
           ? { customItemAttributes: body.customItemAttributes }
           : {}),
+
+        ...(body.consumableCharges !== undefined
+          ? { consumableCharges: normalizeConsumableCharges(body.consumableCharges) }
+          : {}),
       };
 
       const updatedCount = await tx.itemTemplate.updateMany({
@@ -14,6 +14,8 @@ import {
   sanitizeDamageTypeIds,
   sanitizeVRPEntries,
 } from '@/lib/damageTypes/selectable';
+import { normalizeConsumableCharges } from '@/lib/campaign/consumables';
+import { getActiveForgeCostSetId } from '@/lib/config/forgeCostSets';
 
 function normalizeTagsInput(value: unknown): string[] {
   if (!Array.isArray(value)) return [];
@@ -155,6 +157,8 @@ type ItemTemplateInput = {
   itemLocation?: string | null;
   customItemAttributes?: string | null;
 
+  consumableCharges?: number | null;
+
   rangeCategories?: RangeCategory[];
 
   meleeDamageTypeIds?: number[];
@@ -313,6 +317,7 @@ export async function POST(req: Request) {
     const vrpEntries = sanitizeVRPEntries(body.vrpEntries, selectableDamageTypeIds);
 
     const now = new Date();
+    const forgeCostSetId = await getActiveForgeCostSetId();
 
       const items = await prisma.$transaction(async (tx) => {
       const tagsSupported = hasItemTagClient(tx);
@@ -331,6 +336,7 @@ export async function POST(req: Request) {
         level: body.level,
         generalDescription: body.generalDescription ?? '',
         type: body.type,
+        forgeCostSetId,
 
         // NEW
         globalAttributeModifiers: body.globalAttributeModifiers ?? [],
@@ -378,6 +384,11 @@ export async function POST(req: Request) {
 
         itemLocation: body.itemLocation ?? null,
         customItemAttributes: body.customItemAttributes ?? null,
+
+        consumableCharges:
+          body.type === 'CONSUMABLE'
+            ? normalizeConsumableCharges(body.consumableCharges) ?? 1
+            : null,
         ...(tagsSupported && normalizedTags.length > 0
           ? {
               tags: {
@@ -2,6 +2,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '../../../../prisma/client'; // adjust path if you move client.ts
 import { isSelectableDamageTypeName } from '@/lib/damageTypes/selectable';
+import { getActiveForgeCostSetId } from '@/lib/config/forgeCostSets';
 
 type ForgeCostPicklistRow = {
   id: number;
@@ -23,6 +24,8 @@ function selectableDamageTypes(
 
 export async function GET() {
   try {
+    // Items are always priced under the ACTIVE Forge cost set.
+    const costSetId = await getActiveForgeCostSetId();
     const [
       damageTypes,
       attackEffectsRaw,
@@ -50,7 +53,7 @@ export async function GET() {
       prisma.weaponAttribute.findMany({ orderBy: { name: 'asc' } }),
       prisma.armorAttribute.findMany({ orderBy: { name: 'asc' } }),
       prisma.shieldAttribute.findMany({ orderBy: { name: 'asc' } }),
-      prisma.forgeConfigEntry.findMany(),
+      prisma.forgeConfigEntry.findMany({ where: { configSetId: costSetId } }),
       prisma.$queryRaw<ForgeCostPicklistRow[]>`
         SELECT
           "id",
@@ -61,6 +64,7 @@ export async function GET() {
           "value",
           "notes"
         FROM "ForgeCostEntry"
+        WHERE "configSetId" = ${costSetId}
       `,
     ]);
     const normalizedDamageTypes = selectableDamageTypes(damageTypes);
@@ -133,6 +137,7 @@ export async function GET() {
       shieldAttributes,
       wardingOptions,
       sanctifiedOptions,
+      costSetId,
       config: configEntries,
       costs: costEntries,
     });
@@ -0,0 +1,1196 @@
+import { prisma } from "@/prisma/client";
+import { Prisma, type EffectDurationType } from "@prisma/client";
+import { renderAttackActionLines } from "@/lib/summoning/render";
+import { getActivePowerTuningSet } from "@/lib/config/powerTuning";
+import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import { synchronizePowerCooldownCacheBatch } from "@/lib/summoning/powerCooldownCacheSynchronization";
+import { applyAutomaticExpectedTargetsToPowers } from "@/lib/powers/expectedTargetEstimation";
+import {
+  LEGACY_TRIGGER_CONDITION_TEXT_KEY,
+  RESERVE_RELEASE_BEHAVIOUR_OPTIONS,
+  RESIST_THEME_VALUES,
+  TRIGGER_CONDITION_KEYS,
+  type MonsterNaturalAttackConfig,
+  type Power,
+  type ResistTheme,
+  type ReserveReleaseBehaviour,
+  type TriggerConditionKey,
+} from "@/lib/summoning/types";
+import type { SummoningEquipmentItem } from "@/lib/summoning/equipment";
+import {
+  getThreeFieldAugmentDebuffPublicWriteError,
+  getThreeFieldAugmentDebuffReadDiagnostics,
+} from "@/lib/powers/authoringRules";
+import { recordMonsterRevision } from "@/lib/summoning/monsterRevisionsServer";
+import { readMonsterPhases } from "@/lib/summoning/monsterPhases";
+import {
+  normalizeMonsterRestrictionForWrite,
+  readMonsterRestrictionFromDatabase,
+  serializeMonsterRestrictionForDatabase,
+} from "@/lib/restrictions/monsterPersistence";
+
+const MONSTER_INCLUDE = {
+  tags: { orderBy: { tag: "asc" as const } },
+  traits: {
+    orderBy: { sortOrder: "asc" as const },
+    include: { trait: { select: { id: true, name: true, effectText: true } } },
+  },
+  attacks: { orderBy: { sortOrder: "asc" as const } },
+  naturalAttack: true,
+  powers: {
+    orderBy: { sortOrder: "asc" as const },
+    include: {
+      rangeCategories: { orderBy: { rangeCategory: "asc" as const } },
+      primaryDefenceGate: true,
+      tags: { orderBy: { tag: "asc" as const } },
+      effectPackets: {
+        orderBy: { packetIndex: "asc" as const },
+        include: {
+          localTargetingOverride: true,
+        },
+      },
+    },
+  },
+};
+const WEAPON_SOURCE_CAP = 3;
+const WEAPON_SOURCE_CAP_ERROR =
+  "A monster can have at most 3 weapon sources total (equipped + natural). Unequip a weapon source or remove a natural weapon.";
+const TRIGGER_CONDITION_SET = new Set<TriggerConditionKey>(TRIGGER_CONDITION_KEYS);
+const RESIST_THEME_SET = new Set<ResistTheme>(RESIST_THEME_VALUES);
+
+type EquipmentItemsById = Map<string, SummoningEquipmentItem>;
+
+function normalizedSourceAttacks(source: {
+  attacks: Array<{
+    sortOrder: number;
+    attackMode: "NATURAL" | "EQUIPPED";
+    attackName: string | null;
+    attackConfig: unknown;
+  }>;
+  naturalAttack: {
+    attackName: string;
+    attackConfig: unknown;
+  } | null;
+}) {
+  const sourceAttacks = [...source.attacks]
+    .filter((attack) => attack.attackMode === "NATURAL")
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((attack, index) => ({
+      sortOrder: index,
+      attackMode: "NATURAL" as const,
+      attackName: attack.attackName ?? "Natural Weapon",
+      attackConfig: attack.attackConfig ?? {},
+    }));
+
+  if (sourceAttacks.length > 0) return sourceAttacks;
+
+  if (source.naturalAttack) {
+    return [
+      {
+        sortOrder: 0,
+        attackMode: "NATURAL" as const,
+        attackName: source.naturalAttack.attackName,
+        attackConfig: source.naturalAttack.attackConfig,
+      },
+    ];
+  }
+
+  return [];
+}
+
+async function loadEquipmentItemsById(
+  campaignId: string,
+  handItemIds: Array<string | null | undefined>,
+): Promise<EquipmentItemsById> {
+  const ids = Array.from(new Set(handItemIds.filter(Boolean) as string[]));
+  if (ids.length === 0) return new Map();
+
+  const rows = await prisma.itemTemplate.findMany({
+    where: {
+      campaignId,
+      id: { in: ids },
+      type: { in: ["WEAPON", "SHIELD"] },
+    },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      size: true,
+      armorLocation: true,
+      ppv: true,
+      mpv: true,
+      globalAttributeModifiers: true,
+      meleeTargets: true,
+      meleePhysicalStrength: true,
+      meleeMentalStrength: true,
+      rangedTargets: true,
+      rangedDistanceFeet: true,
+      rangedPhysicalStrength: true,
+      rangedMentalStrength: true,
+      aoeCount: true,
+      aoeCenterRangeFeet: true,
+      aoeShape: true,
+      aoeSphereRadiusFeet: true,
+      aoeConeLengthFeet: true,
+      aoeLineWidthFeet: true,
+      aoeLineLengthFeet: true,
+      aoePhysicalStrength: true,
+      aoeMentalStrength: true,
+      rangeCategories: { select: { rangeCategory: true } },
+      meleeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+      rangedDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+      aoeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+      attackEffectsMelee: { select: { attackEffect: { select: { name: true } } } },
+      attackEffectsRanged: { select: { attackEffect: { select: { name: true } } } },
+      attackEffectsAoE: { select: { attackEffect: { select: { name: true } } } },
+    },
+  });
+
+  return new Map(
+    rows.map((row) => [
+      row.id,
+      {
+        id: row.id,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        armorLocation: row.armorLocation,
+        ppv: row.ppv,
+        mpv: row.mpv,
+        globalAttributeModifiers: Array.isArray(row.globalAttributeModifiers)
+          ? (row.globalAttributeModifiers as Array<{ attribute?: string; amount?: number }>)
+          : [],
+        melee: {
+          enabled: row.rangeCategories.some((r) => r.rangeCategory === "MELEE"),
+          targets: row.meleeTargets ?? 1,
+          physicalStrength: row.meleePhysicalStrength ?? 0,
+          mentalStrength: row.meleeMentalStrength ?? 0,
+          damageTypes: row.meleeDamageTypes.map((x) => ({
+            name: x.damageType.name,
+            mode: x.damageType.attackMode as "PHYSICAL" | "MENTAL",
+          })),
+          attackEffects: row.attackEffectsMelee.map((x) => x.attackEffect.name),
+        },
+        ranged: {
+          enabled: row.rangeCategories.some((r) => r.rangeCategory === "RANGED"),
+          targets: row.rangedTargets ?? 1,
+          distance: row.rangedDistanceFeet ?? 0,
+          physicalStrength: row.rangedPhysicalStrength ?? 0,
+          mentalStrength: row.rangedMentalStrength ?? 0,
+          damageTypes: row.rangedDamageTypes.map((x) => ({
+            name: x.damageType.name,
+            mode: x.damageType.attackMode as "PHYSICAL" | "MENTAL",
+          })),
+          attackEffects: row.attackEffectsRanged.map((x) => x.attackEffect.name),
+        },
+        aoe: {
+          enabled: row.rangeCategories.some((r) => r.rangeCategory === "AOE"),
+          count: row.aoeCount ?? 1,
+          centerRange: row.aoeCenterRangeFeet ?? 0,
+          shape: row.aoeShape ?? "SPHERE",
+          sphereRadiusFeet: row.aoeSphereRadiusFeet ?? undefined,
+          coneLengthFeet: row.aoeConeLengthFeet ?? undefined,
+          lineWidthFeet: row.aoeLineWidthFeet ?? undefined,
+          lineLengthFeet: row.aoeLineLengthFeet ?? undefined,
+          physicalStrength: row.aoePhysicalStrength ?? 0,
+          mentalStrength: row.aoeMentalStrength ?? 0,
+          damageTypes: row.aoeDamageTypes.map((x) => ({
+            name: x.damageType.name,
+            mode: x.damageType.attackMode as "PHYSICAL" | "MENTAL",
+          })),
+          attackEffects: row.attackEffectsAoE.map((x) => x.attackEffect.name),
+        },
+      } satisfies SummoningEquipmentItem,
+    ]),
+  );
+}
+
+function getWeaponSourceAttackLines(
+  item: SummoningEquipmentItem | null | undefined,
+  weaponSkillValue: number,
+): string[] {
+  if (!item) return [];
+  if (item.type !== "WEAPON" && item.type !== "SHIELD") return [];
+  return renderAttackActionLines(
+    {
+      melee: item.melee,
+      ranged: item.ranged,
+      aoe: item.aoe,
+    } as MonsterNaturalAttackConfig,
+    weaponSkillValue,
+    { applyWeaponSkillOverride: true },
+  );
+}
+
+function validateWeaponSourceCap(
+  sourceAttacks: Array<{ sortOrder: number; attackName: string | null; attackConfig: unknown }>,
+  source: {
+    mainHandItemId: string | null;
+    offHandItemId: string | null;
+    smallItemId: string | null;
+    weaponSkillValue: number;
+  },
+  itemsById: EquipmentItemsById,
+): string | null {
+  const handIds = [source.mainHandItemId, source.offHandItemId, source.smallItemId];
+  let equippedWeaponSourceCount = 0;
+  for (const itemId of handIds) {
+    if (!itemId) continue;
+    const item = itemsById.get(itemId) ?? null;
+    if (getWeaponSourceAttackLines(item, source.weaponSkillValue).length > 0) {
+      equippedWeaponSourceCount += 1;
+    }
+  }
+
+  const totalWeaponSources = equippedWeaponSourceCount + sourceAttacks.length;
+  if (totalWeaponSources > WEAPON_SOURCE_CAP) {
+    return WEAPON_SOURCE_CAP_ERROR;
+  }
+  return null;
+}
+
+export type MonsterWithPowers = Prisma.MonsterGetPayload<{
+  include: typeof MONSTER_INCLUDE;
+}>;
+
+function buildPowerRangeCategories(power: Power): Array<"MELEE" | "RANGED" | "AOE"> {
+  const explicit = (power.rangeCategories ?? []).filter(
+    (category): category is "MELEE" | "RANGED" | "AOE" =>
+      category === "MELEE" || category === "RANGED" || category === "AOE",
+  );
+  return explicit;
+}
+
+function normalizeDescriptorChassis(
+  value: unknown,
+): Power["descriptorChassis"] {
+  return value === "IMMEDIATE" ||
+    value === "FIELD" ||
+    value === "ATTACHED" ||
+    value === "TRIGGER" ||
+    value === "RESERVE"
+    ? value
+    : "IMMEDIATE";
+}
+
+function readCounterMode(
+  power: Record<string, unknown>,
+): NonNullable<Power["counterMode"]> {
+  return power.counterMode === "YES" || power.counterMode === "NO"
+    ? power.counterMode
+    : power.responseRequired === true
+      ? "YES"
+      : "NO";
+}
+
+function readCommitmentModifier(
+  power: Record<string, unknown>,
+): NonNullable<Power["commitmentModifier"]> {
+  return power.commitmentModifier === "CHANNEL" ||
+    power.commitmentModifier === "CHARGE" ||
+    power.commitmentModifier === "STANDARD"
+    ? power.commitmentModifier
+    : "STANDARD";
+}
+
+function normalizeChargeType(
+  value: unknown,
+): Power["chargeType"] {
+  return value === "BUILD_POWER" || value === "DELAYED_RELEASE"
+    ? value
+    : null;
+}
+
+function normalizeTriggerMethod(
+  value: unknown,
+): Power["triggerMethod"] {
+  return value === "TARGET_AND_THEN_ARM" || value === "ARM_AND_THEN_TARGET"
+    ? value
+    : null;
+}
+
+function normalizeAttachedHostAnchorType(
+  value: unknown,
+): Power["attachedHostAnchorType"] {
+  return value === "TARGET" ||
+    value === "OBJECT" ||
+    value === "WEAPON" ||
+    value === "ARMOR" ||
+    value === "SELF" ||
+    value === "AREA"
+    ? value
+    : null;
+}
+
+function readLegacyAttachedHostAnchorType(
+  descriptorChassisConfig: Record<string, unknown>,
+): Power["attachedHostAnchorType"] {
+  const normalized = String(descriptorChassisConfig.anchorText ?? "").trim().toLowerCase();
+  if (!normalized) return null;
+  if (
+    normalized === "target" ||
+    normalized === "the target" ||
+    normalized === "marked target" ||
+    normalized === "the marked target" ||
+    normalized === "chosen target" ||
+    normalized === "the chosen target" ||
+    normalized === "host" ||
+    normalized === "the host"
+  ) {
+    return "TARGET";
+  }
+  if (normalized === "object" || normalized === "the object") return "OBJECT";
+  if (
+    normalized === "weapon" ||
+    normalized === "the weapon" ||
+    normalized === "your weapon" ||
+    normalized === "bound weapon" ||
+    normalized === "the bound weapon"
+  ) {
+    return "WEAPON";
+  }
+  if (
+    normalized === "armor" ||
+    normalized === "armour" ||
+    normalized === "the armor" ||
+    normalized === "the armour" ||
+    normalized === "your armor" ||
+    normalized === "your armour"
+  ) {
+    return "ARMOR";
+  }
+  if (normalized === "self" || normalized === "yourself") return "SELF";
+  if (normalized === "area" || normalized === "the area") return "AREA";
+  return null;
+}
+
+function normalizeEffectPacketApplyTo(
+  value: unknown,
+): "PRIMARY_TARGET" | "ALLIES" | "SELF" | null {
+  return value === "ALLIES" || value === "SELF" || value === "PRIMARY_TARGET"
+    ? value
+    : null;
+}
+
+function normalizeTriggerConditionKey(
+  value: unknown,
+): TriggerConditionKey | null {
+  return TRIGGER_CONDITION_SET.has(value as TriggerConditionKey)
+    ? (value as TriggerConditionKey)
+    : null;
+}
+
+function mapLegacyTriggerConditionTextToKey(
+  value: unknown,
+): TriggerConditionKey | null {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  if (!normalized) return null;
+  if (
+    /(crosses?|enters?)\b/.test(normalized) &&
+    /\b(area|warded space|targeted space)\b/.test(normalized)
+  ) {
+    return "AREA_ENTERS";
+  }
+  if (/\bleaves?\b/.test(normalized) && /\b(area|warded space|targeted space)\b/.test(normalized)) {
+    return "AREA_LEAVES";
+  }
+  if (
+    /\bstarts?\b/.test(normalized) &&
+    /\bturn\b/.test(normalized) &&
+    /\b(area|warded space|targeted space)\b/.test(normalized)
+  ) {
+    return "AREA_STARTS_TURN";
+  }
+  if (
+    /\bends?\b/.test(normalized) &&
+    /\bturn\b/.test(normalized) &&
+    /\b(area|warded space|targeted space)\b/.test(normalized)
+  ) {
+    return "AREA_ENDS_TURN";
+  }
+  if (/\bmoves?\b/.test(normalized)) return "MOVES";
+  if (/\bmakes? an attack\b|\bweapon attack\b|\battacks?\b/.test(normalized)) return "MAKES_ATTACK";
+  if (/\bactivates? a power\b|\buses? a power\b|\bcasts? a power\b/.test(normalized)) {
+    return "ACTIVATES_POWER";
+  }
+  if (/\bsuffers? wounds\b|\btakes? wounds\b/.test(normalized)) return "SUFFERS_WOUNDS";
+  if (/\bheals? wounds\b|\brecovers? wounds\b|\bregains? wounds\b/.test(normalized)) {
+    return "HEALS_WOUNDS";
+  }
+  if (/\bsuffers? an effect\b|\bis affected\b/.test(normalized)) return "SUFFERS_EFFECT";
+  if (/\bgains? an effect\b|\breceives? an effect\b/.test(normalized)) return "GAINS_EFFECT";
+  if (/\buses? an item\b|\buses? item\b/.test(normalized)) return "USES_ITEM";
+  if (/\bdefence roll\b|\bdodge roll\b/.test(normalized)) return "MAKES_DEFENCE_ROLL";
+  if (/\bresist roll\b|\bresistance roll\b/.test(normalized)) return "MAKES_RESIST_ROLL";
+  return null;
+}
+
+function readTriggerConditionKey(
+  value: unknown,
+): TriggerConditionKey | null {
+  return normalizeTriggerConditionKey(value) ?? mapLegacyTriggerConditionTextToKey(value);
+}
+
+function readPacketApplyTo(
+  effectPacket: Pick<Power["effectPackets"][number], "applyTo" | "detailsJson">,
+): "PRIMARY_TARGET" | "ALLIES" | "SELF" {
+  const details =
+    effectPacket.detailsJson && typeof effectPacket.detailsJson === "object" && !Array.isArray(effectPacket.detailsJson)
+      ? (effectPacket.detailsJson as Record<string, unknown>)
+      : {};
+  return normalizeEffectPacketApplyTo(effectPacket.applyTo ?? details.applyTo) ?? "PRIMARY_TARGET";
+}
+
+function readPacketTriggerConditionText(
+  effectPacket: Pick<Power["effectPackets"][number], "triggerConditionText" | "detailsJson">,
+): string | null {
+  const details =
+    effectPacket.detailsJson && typeof effectPacket.detailsJson === "object" && !Array.isArray(effectPacket.detailsJson)
+      ? (effectPacket.detailsJson as Record<string, unknown>)
+      : {};
+  const value =
+    effectPacket.triggerConditionText ??
+    details.triggerConditionText ??
+    details[LEGACY_TRIGGER_CONDITION_TEXT_KEY];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function coerceResistTheme(
+  value: unknown,
+): ResistTheme | null {
+  return RESIST_THEME_SET.has(value as ResistTheme)
+    ? (value as ResistTheme)
+    : null;
+}
+
+function mapLegacyApplicationModeKeyToMovementTheme(
+  value: unknown,
+): ResistTheme | null {
+  const normalized = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!normalized) return null;
+  if (RESIST_THEME_SET.has(normalized as ResistTheme)) return normalized as ResistTheme;
+  if (normalized === "FORTITUDE" || normalized === "BODY" || normalized === "BODY / ENDURANCE") {
+    return "BODY_ENDURANCE";
+  }
+  if (normalized === "INTELLECT" || normalized === "MIND" || normalized === "MIND / COGNITION / PERCEPTION") {
+    return "MIND_COGNITION";
+  }
+  if (normalized === "BRAVERY" || normalized === "COURAGE" || normalized === "COURAGE / RESOLVE / PANIC") {
+    return "COURAGE_RESOLVE";
+  }
+  if (normalized === "SYNERGY" || normalized === "SUPPORT" || normalized === "TRUST" || normalized === "TRUST / BELONGING / ANCHORING") {
+    return "TRUST_BELONGING";
+  }
+  if (normalized === "ATTACK" || normalized === "OFFENSIVE" || normalized === "OFFENSIVE EXECUTION") {
+    return "OFFENSIVE_EXECUTION";
+  }
+  if (
+    normalized === "GUARD" ||
+    normalized === "DEFENCE" ||
+    normalized === "DEFENSE" ||
+    normalized === "DEFENSIVE" ||
+    normalized === "DEFENSIVE COORDINATION / BALANCE"
+  ) {
+    return "DEFENSIVE_COORDINATION";
+  }
+  return null;
+}
+
+function readMovementThemeFromPacket(
+  effectPacket:
+    | Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">
+    | undefined,
+): ResistTheme | null {
+  if (!effectPacket) return null;
+  const intention = effectPacket.intention ?? effectPacket.type ?? "ATTACK";
+  if (intention !== "MOVEMENT") return null;
+  const details =
+    effectPacket.detailsJson && typeof effectPacket.detailsJson === "object" && !Array.isArray(effectPacket.detailsJson)
+      ? (effectPacket.detailsJson as Record<string, unknown>)
+      : {};
+  return coerceResistTheme(details.movementTheme) ??
+    mapLegacyApplicationModeKeyToMovementTheme(effectPacket.applicationModeKey);
+}
+
+const RESERVE_RELEASE_BEHAVIOUR_SET = new Set<ReserveReleaseBehaviour>(RESERVE_RELEASE_BEHAVIOUR_OPTIONS);
+
+function coerceReserveReleaseBehaviour(
+  value: unknown,
+): ReserveReleaseBehaviour | null {
+  return RESERVE_RELEASE_BEHAVIOUR_SET.has(value as ReserveReleaseBehaviour)
+    ? (value as ReserveReleaseBehaviour)
+    : null;
+}
+
+function mapLegacyReleaseBehaviourTextToKey(
+  value: unknown,
+): ReserveReleaseBehaviour | null {
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!normalized) return null;
+  if (/\b(expiry|expire|expires|expired)\b/.test(normalized)) return "ON_EXPIRY";
+  if (/\bresponse only\b/.test(normalized)) return "RESPONSE_ONLY";
+  if (/\bpower action only\b/.test(normalized)) return "ACTION_ONLY";
+  if (/\bpower action\b/.test(normalized) && /\bresponse\b/.test(normalized)) {
+    return "ACTION_OR_RESPONSE";
+  }
+  if (/\bresponse\b/.test(normalized)) return "RESPONSE_ONLY";
+  if (/\bpower action\b/.test(normalized) || /\baction\b/.test(normalized)) return "ACTION_ONLY";
+  return null;
+}
+
+function readReserveReleaseBehaviour(
+  descriptorChassisConfig: Record<string, unknown>,
+): ReserveReleaseBehaviour {
+  return coerceReserveReleaseBehaviour(descriptorChassisConfig.releaseBehaviour) ??
+    mapLegacyReleaseBehaviourTextToKey(descriptorChassisConfig.releaseBehaviourText) ??
+    "ACTION_OR_RESPONSE";
+}
+
+function sanitizeDescriptorChassisConfig(
+  value: unknown,
+  descriptorChassis?: Power["descriptorChassis"],
+): Prisma.InputJsonValue {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const rawConfig = value as Record<string, unknown>;
+  const config = { ...rawConfig };
+  delete config.defineReleaseBehaviour;
+  delete config.releaseBehaviourText;
+  delete config.fieldInteractionText;
+  delete config.chargeType;
+  delete config.chargeTurns;
+  delete config.chargeBonusDicePerTurn;
+  delete config.triggerMethod;
+  delete config.triggerConditionText;
+  delete config.anchorText;
+  delete config.payloadTriggerText;
+  if (descriptorChassis === "RESERVE") {
+    config.releaseBehaviour = readReserveReleaseBehaviour(rawConfig);
+  } else {
+    delete config.releaseBehaviour;
+  }
+  return config as Prisma.InputJsonValue;
+}
+
+function sanitizeEffectPacketDetails(
+  value: unknown,
+  effectPacket?: Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">,
+): Prisma.InputJsonValue {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const details = { ...(value as Record<string, unknown>) };
+  delete details.applyTo;
+  delete details.triggerConditionText;
+  delete details[LEGACY_TRIGGER_CONDITION_TEXT_KEY];
+  const movementTheme = readMovementThemeFromPacket(effectPacket);
+  if ((effectPacket?.intention ?? effectPacket?.type) === "MOVEMENT") {
+    if (movementTheme) {
+      details.movementTheme = movementTheme;
+    } else {
+      delete details.movementTheme;
+    }
+  }
+  return details as Prisma.InputJsonValue;
+}
+
+function buildPowerCreateData(power: Power) {
+  const effectPackets = Array.isArray(power.effectPackets)
+    ? power.effectPackets
+    : Array.isArray(power.intentions)
+      ? power.intentions
+      : [];
+  const effectDurationType = power.effectDurationType ?? power.durationType ?? "INSTANT";
+  const descriptorChassis = normalizeDescriptorChassis(power.descriptorChassis);
+  return {
+    sortOrder: power.sortOrder,
+    sourceType: "MONSTER_POWER" as const,
+    name: power.name,
+    description: power.description,
+    restrictionJson: serializeMonsterRestrictionForDatabase(power.restriction, Prisma.DbNull),
+    schemaVersion: power.schemaVersion ?? 1,
+    rulesVersion: power.rulesVersion ?? "v1",
+    contentRevision: power.contentRevision ?? 1,
+    previewRendererVersion: power.previewRendererVersion ?? 1,
+    status: power.status ?? "ACTIVE",
+    descriptorChassis,
+    descriptorChassisConfig: sanitizeDescriptorChassisConfig(power.descriptorChassisConfig, descriptorChassis),
+    chargeType:
+      power.commitmentModifier === "CHARGE" ? normalizeChargeType(power.chargeType) : null,
+    chargeTurns:
+      power.commitmentModifier === "CHARGE" ? (power.chargeTurns ?? null) : null,
+    chargeBonusDicePerTurn:
+      power.commitmentModifier === "CHARGE" && power.chargeType === "BUILD_POWER"
+        ? (power.chargeBonusDicePerTurn ?? null)
+        : null,
+    counterMode: power.counterMode ?? "NO",
+    commitmentModifier: power.commitmentModifier ?? "STANDARD",
+    triggerMethod:
+      normalizeDescriptorChassis(power.descriptorChassis) === "TRIGGER"
+        ? normalizeTriggerMethod(power.triggerMethod)
+        : null,
+    attachedHostAnchorType:
+      normalizeDescriptorChassis(power.descriptorChassis) === "ATTACHED"
+        ? normalizeAttachedHostAnchorType(power.attachedHostAnchorType)
+        : null,
+    cooldownTurns: power.cooldownTurns,
+    cooldownReduction: power.cooldownReduction,
+    lifespanType: power.lifespanType ?? "NONE",
+    lifespanTurns: power.lifespanTurns ?? null,
+    previewSummaryOverride: power.previewSummaryOverride ?? null,
+    meleeTargets: power.meleeTargets ?? null,
+    rangedTargets: power.rangedTargets ?? null,
+    rangedDistanceFeet: power.rangedDistanceFeet ?? null,
+    aoeCenterRangeFeet: power.aoeCenterRangeFeet ?? null,
+    aoeCount: power.aoeCount ?? null,
+    aoeShape: power.aoeShape ?? null,
+    aoeSphereRadiusFeet: power.aoeSphereRadiusFeet ?? null,
+    aoeConeLengthFeet: power.aoeConeLengthFeet ?? null,
+    aoeLineWidthFeet: power.aoeLineWidthFeet ?? null,
+    aoeLineLengthFeet: power.aoeLineLengthFeet ?? null,
+    rangeCategories: {
+      create: buildPowerRangeCategories(power).map((rangeCategory) => ({ rangeCategory })),
+    },
+    primaryDefenceGate: power.primaryDefenceGate
+      ? {
+          create: {
+            // Keep sourcePacketIndex 0-based for now to match packetIndex and the
+            // current editor bridge until a dedicated UI pass can safely move it.
+            sourcePacketIndex: power.primaryDefenceGate.sourcePacketIndex,
+            gateResult: power.primaryDefenceGate.gateResult,
+            protectionChannel: power.primaryDefenceGate.protectionChannel,
+            resistAttribute: power.primaryDefenceGate.resistAttribute,
+            hostileEntryPattern: power.primaryDefenceGate.hostileEntryPattern,
+            resolutionSource: power.primaryDefenceGate.resolutionSource,
+          },
+        }
+      : undefined,
+    effectPackets: {
+      create: effectPackets.map((effectPacket, packetIndex) => {
+        const normalizedDurationType = (effectPacket.effectDurationType ?? effectDurationType) as EffectDurationType;
+        return {
+          packetIndex: effectPacket.packetIndex ?? effectPacket.sortOrder ?? packetIndex,
+          hostility: effectPacket.hostility ?? "NON_HOSTILE",
+          intention: effectPacket.intention ?? effectPacket.type ?? "ATTACK",
+          specific: effectPacket.specific ?? null,
+          diceCount: effectPacket.diceCount ?? power.diceCount,
+          potency: effectPacket.potency ?? power.potency,
+          modifier: effectPacket.modifier ?? null,
+          effectTimingType: effectPacket.effectTimingType ?? "ON_CAST",
+          effectTimingTurns: effectPacket.effectTimingTurns ?? null,
+          effectDurationType: normalizedDurationType,
+          effectDurationTurns:
+            normalizedDurationType === "TURNS"
+              ? (effectPacket.effectDurationTurns ?? power.effectDurationTurns ?? power.durationTurns ?? null)
+              : null,
+          dealsWounds: effectPacket.dealsWounds ?? false,
+          woundChannel: effectPacket.woundChannel ?? null,
+          targetedAttribute: effectPacket.targetedAttribute ?? null,
+          applicationModeKey: null,
+          resolutionOrigin: effectPacket.resolutionOrigin ?? "CASTER",
+          applyTo: readPacketApplyTo(effectPacket),
+          secondaryDependencyMode: effectPacket.packetIndex === 0 || effectPacket.sortOrder === 0
+            ? null
+            : (effectPacket.secondaryDependencyMode ?? "LINKED_TO_PRIMARY"),
+          triggerConditionText: readPacketTriggerConditionText(effectPacket),
+          detailsJson: sanitizeEffectPacketDetails(effectPacket.detailsJson, effectPacket),
+          localTargetingOverride: effectPacket.localTargetingOverride
+            ? {
+                create: {
+                  meleeTargets: effectPacket.localTargetingOverride.meleeTargets,
+                  rangedTargets: effectPacket.localTargetingOverride.rangedTargets,
+                  rangedDistanceFeet: effectPacket.localTargetingOverride.rangedDistanceFeet,
+                  aoeCenterRangeFeet: effectPacket.localTargetingOverride.aoeCenterRangeFeet,
+                  aoeCount: effectPacket.localTargetingOverride.aoeCount,
+                  aoeShape: effectPacket.localTargetingOverride.aoeShape,
+                  aoeSphereRadiusFeet: effectPacket.localTargetingOverride.aoeSphereRadiusFeet,
+                  aoeConeLengthFeet: effectPacket.localTargetingOverride.aoeConeLengthFeet,
+                  aoeLineWidthFeet: effectPacket.localTargetingOverride.aoeLineWidthFeet,
+                  aoeLineLengthFeet: effectPacket.localTargetingOverride.aoeLineLengthFeet,
+                },
+              }
+            : undefined,
+        };
+      }),
+    },
+  };
+}
+
+function serializePower(
+  power: MonsterWithPowers["powers"][number],
+): Power {
+  const rawPower = power as unknown as Record<string, unknown>;
+  const rawDescriptorChassisConfig =
+    power.descriptorChassisConfig && typeof power.descriptorChassisConfig === "object" && !Array.isArray(power.descriptorChassisConfig)
+      ? (power.descriptorChassisConfig as Record<string, unknown>)
+      : {};
+  const descriptorChassis = normalizeDescriptorChassis(power.descriptorChassis);
+  const legacyTriggerConditionKey =
+    descriptorChassis === "TRIGGER"
+      ? readTriggerConditionKey(rawDescriptorChassisConfig.triggerConditionText)
+      : null;
+  const rangeCategories = power.rangeCategories.map((row) => row.rangeCategory);
+  const baseRangeDetails = {
+    rangeCategory: rangeCategories.includes("AOE")
+      ? "AOE"
+      : rangeCategories.includes("RANGED")
+        ? "RANGED"
+        : rangeCategories.includes("MELEE")
+          ? "MELEE"
+          : "SELF",
+    rangeValue: rangeCategories.includes("AOE")
+      ? power.aoeCenterRangeFeet ?? 0
+      : rangeCategories.includes("RANGED")
+        ? power.rangedDistanceFeet ?? 30
+        : rangeCategories.includes("MELEE")
+          ? power.meleeTargets ?? 1
+          : null,
+    rangeExtra: rangeCategories.includes("AOE")
+      ? {
+          count: power.aoeCount ?? 1,
+          shape: power.aoeShape ?? "SPHERE",
+          sphereRadiusFeet: power.aoeSphereRadiusFeet ?? undefined,
+          coneLengthFeet: power.aoeConeLengthFeet ?? undefined,
+          lineWidthFeet: power.aoeLineWidthFeet ?? undefined,
+          lineLengthFeet: power.aoeLineLengthFeet ?? undefined,
+        }
+      : rangeCategories.includes("RANGED")
+        ? {
+            targets: power.rangedTargets ?? 1,
+          }
+        : {},
+  };
+  return {
+    id: power.id,
+    sortOrder: power.sortOrder,
+    name: power.name,
+    description: power.description,
+    restriction: readMonsterRestrictionFromDatabase(power.restrictionJson).definition,
+    schemaVersion: power.schemaVersion,
+    rulesVersion: power.rulesVersion,
+    contentRevision: power.contentRevision,
+    previewRendererVersion: power.previewRendererVersion,
+    status: power.status,
+    descriptorChassis,
+    descriptorChassisConfig: sanitizeDescriptorChassisConfig(power.descriptorChassisConfig, normalizeDescriptorChassis(power.descriptorChassis)) as Record<
+      string,
+      unknown
+    >,
+    chargeType: normalizeChargeType((power as { chargeType?: unknown }).chargeType ?? rawDescriptorChassisConfig.chargeType),
+    chargeTurns:
+      typeof (power as { chargeTurns?: unknown }).chargeTurns === "number"
+        ? ((power as { chargeTurns?: number }).chargeTurns ?? null)
+        : typeof rawDescriptorChassisConfig.chargeTurns === "number"
+          ? (rawDescriptorChassisConfig.chargeTurns as number)
+          : null,
+    chargeBonusDicePerTurn:
+      typeof (power as { chargeBonusDicePerTurn?: unknown }).chargeBonusDicePerTurn === "number"
+        ? ((power as { chargeBonusDicePerTurn?: number }).chargeBonusDicePerTurn ?? null)
+        : typeof rawDescriptorChassisConfig.chargeBonusDicePerTurn === "number"
+          ? (rawDescriptorChassisConfig.chargeBonusDicePerTurn as number)
+          : null,
+    cooldownTurns: power.cooldownTurns,
+    cooldownReduction: power.cooldownReduction,
+    counterMode: readCounterMode(rawPower),
+    commitmentModifier: readCommitmentModifier(rawPower),
+    triggerMethod: normalizeTriggerMethod(
+      (power as { triggerMethod?: unknown }).triggerMethod ?? rawDescriptorChassisConfig.triggerMethod,
+    ),
+    attachedHostAnchorType:
+      normalizeAttachedHostAnchorType(
+        (power as { attachedHostAnchorType?: unknown }).attachedHostAnchorType,
+      ) ?? readLegacyAttachedHostAnchorType(rawDescriptorChassisConfig),
+    lifespanType: power.lifespanType,
+    lifespanTurns: power.lifespanTurns,
+    previewSummaryOverride: power.previewSummaryOverride,
+    rangeCategories,
+    meleeTargets: power.meleeTargets,
+    rangedTargets: power.rangedTargets,
+    rangedDistanceFeet: power.rangedDistanceFeet,
+    aoeCenterRangeFeet: power.aoeCenterRangeFeet,
+    aoeCount: power.aoeCount,
+    aoeShape: power.aoeShape,
+    aoeSphereRadiusFeet: power.aoeSphereRadiusFeet,
+    aoeConeLengthFeet: power.aoeConeLengthFeet,
+    aoeLineWidthFeet: power.aoeLineWidthFeet,
+    aoeLineLengthFeet: power.aoeLineLengthFeet,
+    primaryDefenceGate: power.primaryDefenceGate
+      ? {
+          sourcePacketIndex: power.primaryDefenceGate.sourcePacketIndex,
+          gateResult: power.primaryDefenceGate.gateResult,
+          protectionChannel: power.primaryDefenceGate.protectionChannel,
+          resistAttribute: power.primaryDefenceGate.resistAttribute,
+          hostileEntryPattern: power.primaryDefenceGate.hostileEntryPattern,
+          resolutionSource: power.primaryDefenceGate.resolutionSource,
+        }
+      : null,
+    effectPackets: power.effectPackets.map((effectPacket) => {
+      const rawDetails =
+        effectPacket.detailsJson && typeof effectPacket.detailsJson === "object" && !Array.isArray(effectPacket.detailsJson)
+          ? (effectPacket.detailsJson as Record<string, unknown>)
+          : {};
+      return {
+        id: effectPacket.id,
+        packetIndex: effectPacket.packetIndex,
+        sortOrder: effectPacket.packetIndex,
+        hostility: effectPacket.hostility,
+        intention: effectPacket.intention,
+        type: effectPacket.intention,
+        specific: effectPacket.specific,
+        diceCount: effectPacket.diceCount,
+        potency: effectPacket.potency,
+        modifier: effectPacket.modifier,
+        effectTimingType: effectPacket.effectTimingType,
+        effectTimingTurns: effectPacket.effectTimingTurns,
+        effectDurationType: effectPacket.effectDurationType,
+        effectDurationTurns: effectPacket.effectDurationTurns,
+        dealsWounds: effectPacket.dealsWounds,
+        woundChannel: effectPacket.woundChannel,
+        targetedAttribute: effectPacket.targetedAttribute,
+        applicationModeKey: null,
+        resolutionOrigin: effectPacket.resolutionOrigin,
+        applyTo: normalizeEffectPacketApplyTo(
+          (effectPacket as { applyTo?: unknown }).applyTo ?? rawDetails.applyTo,
+        ) ?? "PRIMARY_TARGET",
+        triggerConditionText:
+          descriptorChassis === "TRIGGER" && effectPacket.packetIndex === 0
+            ? (readTriggerConditionKey(
+                (effectPacket as { triggerConditionText?: unknown }).triggerConditionText,
+              ) ?? legacyTriggerConditionKey)
+            : readPacketTriggerConditionText(
+                effectPacket as unknown as Pick<Power["effectPackets"][number], "triggerConditionText" | "detailsJson">,
+              ),
+        detailsJson:
+          effectPacket.packetIndex === 0
+            ? {
+                ...(sanitizeEffectPacketDetails(rawDetails, effectPacket as unknown as Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">) as Record<string, unknown>),
+                ...baseRangeDetails,
+              }
+            : ((sanitizeEffectPacketDetails(rawDetails, effectPacket as unknown as Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">) as Record<string, unknown>) ?? {}),
+        localTargetingOverride: effectPacket.localTargetingOverride
+          ? {
+              meleeTargets: effectPacket.localTargetingOverride.meleeTargets,
+              rangedTargets: effectPacket.localTargetingOverride.rangedTargets,
+              rangedDistanceFeet: effectPacket.localTargetingOverride.rangedDistanceFeet,
+              aoeCenterRangeFeet: effectPacket.localTargetingOverride.aoeCenterRangeFeet,
+              aoeCount: effectPacket.localTargetingOverride.aoeCount,
+              aoeShape: effectPacket.localTargetingOverride.aoeShape,
+              aoeSphereRadiusFeet: effectPacket.localTargetingOverride.aoeSphereRadiusFeet,
+              aoeConeLengthFeet: effectPacket.localTargetingOverride.aoeConeLengthFeet,
+              aoeLineWidthFeet: effectPacket.localTargetingOverride.aoeLineWidthFeet,
+              aoeLineLengthFeet: effectPacket.localTargetingOverride.aoeLineLengthFeet,
+            }
+          : null,
+      };
+    }),
+    intentions: power.effectPackets.map((effectPacket) => {
+      const rawDetails =
+        effectPacket.detailsJson && typeof effectPacket.detailsJson === "object" && !Array.isArray(effectPacket.detailsJson)
+          ? (effectPacket.detailsJson as Record<string, unknown>)
+          : {};
+      return {
+        id: effectPacket.id,
+        packetIndex: effectPacket.packetIndex,
+        sortOrder: effectPacket.packetIndex,
+        hostility: effectPacket.hostility,
+        intention: effectPacket.intention,
+        type: effectPacket.intention,
+        specific: effectPacket.specific,
+        diceCount: effectPacket.diceCount,
+        potency: effectPacket.potency,
+        effectTimingType: effectPacket.effectTimingType,
+        effectTimingTurns: effectPacket.effectTimingTurns,
+        effectDurationType: effectPacket.effectDurationType,
+        effectDurationTurns: effectPacket.effectDurationTurns,
+        dealsWounds: effectPacket.dealsWounds,
+        woundChannel: effectPacket.woundChannel,
+        targetedAttribute: effectPacket.targetedAttribute,
+        applicationModeKey: null,
+        resolutionOrigin: effectPacket.resolutionOrigin,
+        applyTo: normalizeEffectPacketApplyTo(
+          (effectPacket as { applyTo?: unknown }).applyTo ?? rawDetails.applyTo,
+        ) ?? "PRIMARY_TARGET",
+        triggerConditionText:
+          descriptorChassis === "TRIGGER" && effectPacket.packetIndex === 0
+            ? (readTriggerConditionKey(
+                (effectPacket as { triggerConditionText?: unknown }).triggerConditionText,
+              ) ?? legacyTriggerConditionKey)
+            : readPacketTriggerConditionText(
+                effectPacket as unknown as Pick<Power["effectPackets"][number], "triggerConditionText" | "detailsJson">,
+              ),
+        detailsJson:
+          effectPacket.packetIndex === 0
+            ? {
+                ...(sanitizeEffectPacketDetails(rawDetails, effectPacket as unknown as Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">) as Record<string, unknown>),
+                ...baseRangeDetails,
+              }
+            : ((sanitizeEffectPacketDetails(rawDetails, effectPacket as unknown as Pick<Power["effectPackets"][number], "applicationModeKey" | "detailsJson" | "intention" | "type">) as Record<string, unknown>) ?? {}),
+        localTargetingOverride: effectPacket.localTargetingOverride
+          ? {
+              meleeTargets: effectPacket.localTargetingOverride.meleeTargets,
+              rangedTargets: effectPacket.localTargetingOverride.rangedTargets,
+              rangedDistanceFeet: effectPacket.localTargetingOverride.rangedDistanceFeet,
+              aoeCenterRangeFeet: effectPacket.localTargetingOverride.aoeCenterRangeFeet,
+              aoeCount: effectPacket.localTargetingOverride.aoeCount,
+              aoeShape: effectPacket.localTargetingOverride.aoeShape,
+              aoeSphereRadiusFeet: effectPacket.localTargetingOverride.aoeSphereRadiusFeet,
+              aoeConeLengthFeet: effectPacket.localTargetingOverride.aoeConeLengthFeet,
+              aoeLineWidthFeet: effectPacket.localTargetingOverride.aoeLineWidthFeet,
+              aoeLineLengthFeet: effectPacket.localTargetingOverride.aoeLineLengthFeet,
+            }
+          : null,
+      };
+    }),
+    diceCount: power.effectPackets[0]?.diceCount ?? 1,
+    potency: power.effectPackets[0]?.potency ?? 1,
+    effectDurationType: (power.effectPackets[0]?.effectDurationType ?? "INSTANT") as Power["effectDurationType"],
+    effectDurationTurns:
+      power.effectPackets[0]?.effectDurationType === "TURNS"
+        ? (power.effectPackets[0]?.effectDurationTurns ?? 1)
+        : null,
+    durationType: (power.effectPackets[0]?.effectDurationType ?? "INSTANT") as Power["effectDurationType"],
+    durationTurns:
+      power.effectPackets[0]?.effectDurationType === "TURNS"
+        ? (power.effectPackets[0]?.effectDurationTurns ?? 1)
+        : null,
+    defenceRequirement: power.primaryDefenceGate?.gateResult ?? "NONE",
+  };
+}
+
+export class MonsterCopyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "MonsterCopyError";
+    this.status = status;
+  }
+}
+
+/** Source fields a copy may replace; anything left out is carried over unchanged. */
+export type MonsterCopyOverrides = Partial<
+  Pick<
+    MonsterWithPowers,
+    | "name"
+    | "level"
+    | "tier"
+    | "legendary"
+    | "attackDie"
+    | "guardDie"
+    | "fortitudeDie"
+    | "intellectDie"
+    | "synergyDie"
+    | "braveryDie"
+    | "physicalResilienceCurrent"
+    | "physicalResilienceMax"
+    | "mentalPerseveranceCurrent"
+    | "mentalPerseveranceMax"
+    | "weaponSkillValue"
+    | "armorSkillValue"
+  >
+> & {
+  powers?: Power[];
+};
+
+/**
+ * Creates an editable campaign copy of a CORE or campaign monster, recorded as its revision 1.
+ * `prepare` sees the validated source powers and the active power tuning, and returns the fields
+ * the copy should change.
+ */
+export async function createCampaignMonsterCopy(params: {
+  monsterId: string;
+  campaignId: string;
+  userId: string;
+  prepare?: (
+    source: MonsterWithPowers,
+    powers: Power[],
+    powerTuning: PowerTuningSnapshot,
+  ) => MonsterCopyOverrides;
+}) {
+  const { campaignId } = params;
+  const source = await prisma.monster.findFirst({
+    where: {
+      id: params.monsterId,
+      OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }],
+    },
+    include: MONSTER_INCLUDE,
+  });
+
+  if (!source) {
+    throw new MonsterCopyError("Not found", 404);
+  }
+
+  const serializedSourcePowers = source.powers.map(serializePower);
+  for (const [powerIndex, power] of serializedSourcePowers.entries()) {
+    const restriction = normalizeMonsterRestrictionForWrite(power.restriction, {
+      campaignId: source.campaignId,
+    });
+    if (!restriction.ok) {
+      const issue = restriction.issues.find((entry) => entry.severity === "error")
+        ?? restriction.issues[0];
+      const detail = issue
+        ? `${issue.code}: ${issue.message}`
+        : "The Restriction definition is invalid.";
+      throw new MonsterCopyError(`POWER_${powerIndex + 1}_RESTRICTION_INVALID: ${detail}`, 400);
+    }
+    power.restriction = restriction.definition;
+  }
+  const authoringError = getThreeFieldAugmentDebuffPublicWriteError(serializedSourcePowers);
+  if (authoringError) {
+    throw new MonsterCopyError(authoringError, 400);
+  }
+
+  const sourceAttacks = normalizedSourceAttacks(source);
+  const equipmentItemsById = await loadEquipmentItemsById(campaignId, [
+    source.mainHandItemId,
+    source.offHandItemId,
+    source.smallItemId,
+  ]);
+  const sourceCapError = validateWeaponSourceCap(
+    sourceAttacks,
+    {
+      mainHandItemId: source.mainHandItemId,
+      offHandItemId: source.offHandItemId,
+      smallItemId: source.smallItemId,
+      weaponSkillValue: source.weaponSkillValue,
+    },
+    equipmentItemsById,
+  );
+  if (sourceCapError) {
+    throw new MonsterCopyError(sourceCapError, 400);
+  }
+  const naturalAttack = sourceAttacks[0]
+    ? {
+        attackName: sourceAttacks[0].attackName ?? "Natural Weapon",
+        attackConfig: (sourceAttacks[0].attackConfig ?? {}) as Prisma.InputJsonValue,
+      }
+    : null;
+  const powerTuning = await getActivePowerTuningSet();
+  if (!powerTuning) {
+    throw new MonsterCopyError("Active power tuning is required before monster powers can be copied.", 503);
+  }
+  const { powers: overridePowers, ...overrides } = params.prepare?.(source, serializedSourcePowers, powerTuning) ?? {};
+  const draft = { ...source, name: `${source.name} (Copy)`, ...overrides };
+  const synchronizedPowers = synchronizePowerCooldownCacheBatch({
+    powers: applyAutomaticExpectedTargetsToPowers(overridePowers ?? serializedSourcePowers, {
+      source: "FALLBACK_STANDARD_TEAM_SIZE_4",
+      totalTeamSize: 4,
+    }),
+    tuningSnapshot: powerTuning,
+    context: { level: draft.level, tier: draft.tier },
+  });
+  if (!synchronizedPowers.ok) {
+    throw new MonsterCopyError(synchronizedPowers.message, 400);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const created = await tx.monster.create({
+      data: {
+        name: draft.name,
+        imageUrl: source.imageUrl,
+        imagePosX: source.imagePosX,
+        imagePosY: source.imagePosY,
+        level: draft.level,
+        tier: draft.tier,
+        legendary: draft.legendary,
+        calculatorArchetype: source.calculatorArchetype,
+        source: "CAMPAIGN",
+        isReadOnly: false,
+        Campaign: {
+          connect: { id: campaignId },
+        },
+        attackMode: "NATURAL_WEAPON",
+        equippedWeaponId: null,
+        mainHandItemId: source.mainHandItemId,
+        offHandItemId: source.offHandItemId,
+        smallItemId: source.smallItemId,
+        headArmorItemId: source.headArmorItemId,
+        shoulderArmorItemId: source.shoulderArmorItemId,
+        torsoArmorItemId: source.torsoArmorItemId,
+        legsArmorItemId: source.legsArmorItemId,
+        feetArmorItemId: source.feetArmorItemId,
+        headItemId: source.headItemId,
+        neckItemId: source.neckItemId,
+        armsItemId: source.armsItemId,
+        beltItemId: source.beltItemId,
+        customNotes: source.customNotes,
+        limitBreakName: source.limitBreakName,
+        limitBreakTier: source.limitBreakTier,
+        limitBreakTriggerText: source.limitBreakTriggerText,
+        limitBreakAttribute: source.limitBreakAttribute,
+        limitBreakThresholdSuccesses: source.limitBreakThresholdSuccesses,
+        limitBreakCostText: source.limitBreakCostText,
+        limitBreakEffectText: source.limitBreakEffectText,
+        phases: readMonsterPhases(source.phases) as Prisma.InputJsonValue,
+        physicalResilienceCurrent: draft.physicalResilienceCurrent,
+        physicalResilienceMax: draft.physicalResilienceMax,
+        mentalPerseveranceCurrent: draft.mentalPerseveranceCurrent,
+        mentalPerseveranceMax: draft.mentalPerseveranceMax,
+        physicalProtection: source.physicalProtection,
+        mentalProtection: source.mentalProtection,
+        attackDie: draft.attackDie,
+        attackResistDie: source.attackResistDie,
+        attackModifier: source.attackModifier,
+        guardDie: draft.guardDie,
+        guardResistDie: source.guardResistDie,
+        guardModifier: source.guardModifier,
+        fortitudeDie: draft.fortitudeDie,
+        fortitudeResistDie: source.fortitudeResistDie,
+        fortitudeModifier: source.fortitudeModifier,
+        intellectDie: draft.intellectDie,
+        intellectResistDie: source.intellectResistDie,
+        intellectModifier: source.intellectModifier,
+        synergyDie: draft.synergyDie,
+        synergyResistDie: source.synergyResistDie,
+        synergyModifier: source.synergyModifier,
+        braveryDie: draft.braveryDie,
+        braveryResistDie: source.braveryResistDie,
+        braveryModifier: source.braveryModifier,
+        weaponSkillValue: draft.weaponSkillValue,
+        weaponSkillModifier: source.weaponSkillModifier,
+        armorSkillValue: draft.armorSkillValue,
+        armorSkillModifier: source.armorSkillModifier,
+        tags: {
+          create: source.tags.map((tag) => ({ tag: tag.tag })),
+        },
+        traits: {
+          create: source.traits.map((trait) => ({
+            sortOrder: trait.sortOrder,
+            traitDefinitionId: trait.traitDefinitionId,
+          })),
+        },
+        attacks: {
+          create: sourceAttacks.map((attack) => ({
+            sortOrder: attack.sortOrder,
+            attackMode: "NATURAL",
+            attackName: attack.attackName ?? "Natural Weapon",
+            attackConfig: attack.attackConfig as Prisma.InputJsonValue,
+            equippedWeaponId: null,
+          })),
+        },
+        naturalAttack: naturalAttack
+          ? {
+              create: {
+                attackName: naturalAttack.attackName,
+                attackConfig: naturalAttack.attackConfig,
+              },
+            }
+          : undefined,
+        powers: {
+          create: synchronizedPowers.powers.map(buildPowerCreateData),
+        },
+      },
+      include: MONSTER_INCLUDE,
+    });
+    const powers = created.powers.map(serializePower);
+    const serialized = {
+      ...created,
+      powers,
+      diagnostics: getThreeFieldAugmentDebuffReadDiagnostics(powers),
+    };
+    const revision = await recordMonsterRevision(tx, {
+      monsterId: created.id,
+      savedByUserId: params.userId,
+      snapshot: serialized,
+      powerTuningSetId: powerTuning.setId,
+    });
+    return { ...serialized, revision: revision.revision };
+  });
+}
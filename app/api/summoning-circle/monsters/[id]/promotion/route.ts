@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { MonsterPromotionError } from "@/lib/summoning/monsterPromotion";
+import { requireCampaignDirectorOrAdmin, requireUserId } from "../../../_shared";
+import { getMonsterCoreSubmission, submitMonsterForCore } from "../../monsterPromotion";
+
+function errorResponse(error: unknown, fallback: string, logTag: string) {
+  if (error instanceof MonsterPromotionError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+  }
+  if (message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  console.error(logTag, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/** CORE submission status for a campaign monster, with its review history. */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> },
+) {
+  const { id } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignDirectorOrAdmin(campaignId, userId);
+
+    const submission = await getMonsterCoreSubmission({ monsterId: id });
+    if (submission && submission.campaignId !== campaignId) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ submission });
+  } catch (error) {
+    return errorResponse(error, "Failed to load CORE submission", "[SUMMONING_MONSTER_PROMOTION_GET]");
+  }
+}
+
+/** Nominates the monster for the CORE library. Body: `{ notes? }`. */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> },
+) {
+  const { id } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignDirectorOrAdmin(campaignId, userId);
+
+    const body = (await req.json().catch(() => ({}))) as { notes?: unknown };
+    const submission = await submitMonsterForCore({ campaignId, monsterId: id, userId, notes: body?.notes });
+    return NextResponse.json({ submission }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to submit monster", "[SUMMONING_MONSTER_PROMOTION_POST]");
+  }
+}
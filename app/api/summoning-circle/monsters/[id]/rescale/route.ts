@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { ensureSeedCombatTuningSet } from "@/lib/config/combatTuning";
+import { normalizeCombatTuning } from "@/lib/config/combatTuningShared";
+import {
+  MonsterRescaleError,
+  parseMonsterRescaleTarget,
+  rescaleMonster,
+  type MonsterRescaleReport,
+} from "@/lib/summoning/monsterRescale";
+import type { MonsterCalculatorArchetype } from "@/lib/summoning/types";
+import { requireCampaignDirectorOrAdmin, requireUserId } from "../../../_shared";
+import { createCampaignMonsterCopy, MonsterCopyError } from "../monsterCopy";
+
+/**
+ * Creates a campaign draft of the monster at a new level, tier, and legendary flag.
+ * Body: `{ level, tier, legendary }`. The response carries the draft plus a `rescale` report.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> },
+) {
+  const { id } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const target = parseMonsterRescaleTarget(await req.json().catch(() => null));
+    const userId = await requireUserId();
+    await requireCampaignDirectorOrAdmin(campaignId, userId);
+
+    const combatTuning = await ensureSeedCombatTuningSet();
+    const protectionTuning = normalizeCombatTuning(combatTuning.values as Record<string, unknown>);
+    let report: MonsterRescaleReport | null = null;
+    const created = await createCampaignMonsterCopy({
+      monsterId: id,
+      campaignId,
+      userId,
+      prepare: (source, powers, powerTuning) => {
+        const rescaled = rescaleMonster(
+          {
+            ...source,
+            calculatorArchetype: source.calculatorArchetype as MonsterCalculatorArchetype,
+          },
+          powers,
+          target,
+          { protection: protectionTuning, power: powerTuning },
+        );
+        report = rescaled.report;
+        return {
+          ...rescaled.fields,
+          name: `${source.name} (Level ${target.level} ${target.tier})`,
+          powers: rescaled.powers,
+        };
+      },
+    });
+
+    return NextResponse.json({ ...created, rescale: report }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MonsterRescaleError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    if (error instanceof MonsterCopyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : "Failed to rescale monster";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_RESCALE]", error);
+    return NextResponse.json({ error: "Failed to rescale monster" }, { status: 500 });
+  }
+}
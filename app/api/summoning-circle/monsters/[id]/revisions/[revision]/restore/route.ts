@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getThreeFieldAugmentDebuffPublicWriteError } from "@/lib/powers/authoringRules";
+import { MonsterPowerIdentityError } from "@/lib/summoning/monsterPowerReconciliation";
+import { monsterRevisionRestoreBody } from "@/lib/summoning/monsterRevisions";
+import { getMonsterRevision } from "@/lib/summoning/monsterRevisionsServer";
+import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
+import { requireCampaignOwnerAccess, requireUserId } from "../../../../../_shared";
+import { MonsterUpdateError, updateCampaignMonster } from "../../../monsterUpdate";
+
+/**
+ * Saves an old revision over the monster as a new revision. The snapshot goes through the same
+ * validation as an editor save, so a revision that no longer validates is reported, not written.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string; revision: string }> },
+) {
+  const { id, revision } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+  const revisionNumber = Number(revision);
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+  if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+    return NextResponse.json({ error: "revision must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignOwnerAccess(campaignId, userId);
+
+    const source = await getMonsterRevision(id, revisionNumber);
+    if (!source) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = monsterRevisionRestoreBody(source.snapshot);
+    const authoringError = getThreeFieldAugmentDebuffPublicWriteError(body.powers);
+    if (authoringError) {
+      return NextResponse.json({ error: `Revision ${revisionNumber} cannot be restored: ${authoringError}` }, { status: 400 });
+    }
+    const parsed = normalizeMonsterUpsertInput(body, { campaignId });
+    if (!parsed.ok) {
+      return NextResponse.json({ error: `Revision ${revisionNumber} cannot be restored: ${parsed.error}` }, { status: 400 });
+    }
+
+    const restored = await updateCampaignMonster({
+      id,
+      campaignId,
+      userId,
+      input: parsed.data,
+      restoredFromRevision: revisionNumber,
+    });
+    return NextResponse.json(restored);
+  } catch (error) {
+    if (error instanceof MonsterUpdateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof MonsterPowerIdentityError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Failed to restore revision";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_REVISION_RESTORE]", error);
+    return NextResponse.json({ error: "Failed to restore revision" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import { getMonsterRevision } from "@/lib/summoning/monsterRevisionsServer";
+import { requireCampaignAccess, requireUserId } from "../../../../_shared";
+
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string; revision: string }> },
+) {
+  const { id, revision } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+  const revisionNumber = Number(revision);
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+  if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+    return NextResponse.json({ error: "revision must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignAccess(campaignId, userId);
+
+    const monster = await prisma.monster.findFirst({
+      where: { id, OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }] },
+      select: { id: true },
+    });
+    const found = monster ? await getMonsterRevision(id, revisionNumber) : null;
+    if (!found) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(found);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load revision";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_REVISION_GET]", error);
+    return NextResponse.json({ error: "Failed to load revision" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import { listMonsterRevisions } from "@/lib/summoning/monsterRevisionsServer";
+import { requireCampaignAccess, requireUserId } from "../../../_shared";
+
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> },
+) {
+  const { id } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignAccess(campaignId, userId);
+
+    const monster = await prisma.monster.findFirst({
+      where: { id, OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }] },
+      select: { id: true },
+    });
+    if (!monster) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revisions: await listMonsterRevisions(id) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load revisions";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_REVISIONS_GET]", error);
+    return NextResponse.json({ error: "Failed to load revisions" }, { status: 500 });
+  }
+}
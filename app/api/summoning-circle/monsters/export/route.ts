@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import {
+  buildMonsterBundleMonster,
+  createMonsterBundle,
+  MAX_MONSTER_BUNDLE_SIZE,
+  MONSTER_BUNDLE_EQUIPMENT_SLOTS,
+} from "@/lib/summoning/monsterBundle";
+import { requireCampaignAccess, requireUserId } from "../../_shared";
+import { MONSTER_INCLUDE, serializeMonster } from "../monsterCreate";
+
+/**
+ * Exports monsters as a portable bundle. `ids` is a comma-separated list of CORE or campaign
+ * monsters; without it every monster owned by the campaign is exported.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+  const ids = Array.from(
+    new Set(
+      (searchParams.get("ids") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    ),
+  );
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+  if (ids.length > MAX_MONSTER_BUNDLE_SIZE) {
+    return NextResponse.json(
+      { error: `At most ${MAX_MONSTER_BUNDLE_SIZE} monsters can be exported at once` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignAccess(campaignId, userId);
+
+    const where =
+      ids.length > 0
+        ? { id: { in: ids }, OR: [{ source: "CORE" as const }, { source: "CAMPAIGN" as const, campaignId }] }
+        : { source: "CAMPAIGN" as const, campaignId };
+    if (ids.length === 0 && (await prisma.monster.count({ where })) > MAX_MONSTER_BUNDLE_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MONSTER_BUNDLE_SIZE} monsters can be exported at once` },
+        { status: 400 },
+      );
+    }
+
+    const monsters = await prisma.monster.findMany({
+      where,
+      include: MONSTER_INCLUDE,
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+    });
+    const missingIds = ids.filter((id) => !monsters.some((monster) => monster.id === id));
+    if (missingIds.length > 0) {
+      return NextResponse.json({ error: `Monsters not found: ${missingIds.join(", ")}` }, { status: 404 });
+    }
+
+    const itemIds = Array.from(
+      new Set(
+        monsters.flatMap((monster) =>
+          MONSTER_BUNDLE_EQUIPMENT_SLOTS.map((slot) => monster[slot]).filter((id): id is string => Boolean(id)),
+        ),
+      ),
+    );
+    const items =
+      itemIds.length > 0
+        ? await prisma.itemTemplate.findMany({
+            where: { id: { in: itemIds } },
+            select: { id: true, name: true },
+          })
+        : [];
+    const itemNamesById = new Map(items.map((item) => [item.id, item.name]));
+
+    const bundle = createMonsterBundle(
+      monsters.map((monster) =>
+        buildMonsterBundleMonster(serializeMonster(monster), itemNamesById),
+      ),
+      new Date(),
+    );
+    return NextResponse.json(bundle);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to export monsters";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTERS_EXPORT]", error);
+    return NextResponse.json({ error: "Failed to export monsters" }, { status: 500 });
+  }
+}
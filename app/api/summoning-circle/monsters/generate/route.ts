@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import { ensureSeedCombatTuningSet } from "@/lib/config/combatTuning";
+import { normalizeCombatTuning } from "@/lib/config/combatTuningShared";
+import { ensureSeedPowerTuningSet } from "@/lib/config/powerTuning";
+import {
+  generateMonsterDrafts,
+  MonsterGeneratorError,
+  parseMonsterGeneratorRequest,
+} from "@/lib/summoning/monsterGenerator";
+import { requireCampaignDirectorOrAdmin, requireUserId } from "../../_shared";
+
+/**
+ * Generates draft monsters without saving them.
+ * Body: `{ level, tier, legendary?, archetype?, damageTypes, powerCount?, seed?, alternatives? }`.
+ * The response echoes the seed so the same drafts can be generated again.
+ */
+export async function POST(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const request = parseMonsterGeneratorRequest(await req.json().catch(() => null));
+    const userId = await requireUserId();
+    await requireCampaignDirectorOrAdmin(campaignId, userId);
+
+    const damageTypes = await prisma.damageType.findMany({
+      where: { OR: request.damageTypes.map((name) => ({ name: { equals: name, mode: "insensitive" as const } })) },
+      select: { name: true, attackMode: true },
+    });
+    const missing = request.damageTypes.filter(
+      (name) => !damageTypes.some((entry) => entry.name.toLowerCase() === name.toLowerCase()),
+    );
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Unknown damage types: ${missing.join(", ")}` }, { status: 400 });
+    }
+
+    const [combatTuning, powerTuning] = await Promise.all([ensureSeedCombatTuningSet(), ensureSeedPowerTuningSet()]);
+    const seed = request.seed ?? Math.floor(Math.random() * (2 ** 31 - 2)) + 1;
+    const alternatives = generateMonsterDrafts(
+      {
+        ...request,
+        seed,
+        damageTheme: request.damageTypes.map((name) => {
+          const entry = damageTypes.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase())!;
+          return { name: entry.name, mode: entry.attackMode === "MENTAL" ? ("MENTAL" as const) : ("PHYSICAL" as const) };
+        }),
+      },
+      {
+        protection: normalizeCombatTuning(combatTuning.values as Record<string, unknown>),
+        power: powerTuning,
+      },
+    );
+
+    return NextResponse.json({ seed, alternatives });
+  } catch (error) {
+    if (error instanceof MonsterGeneratorError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Failed to generate monsters";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_GENERATE]", error);
+    return NextResponse.json({ error: "Failed to generate monsters" }, { status: 500 });
+  }
+}
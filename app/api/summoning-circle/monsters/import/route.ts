@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import { getThreeFieldAugmentDebuffPublicWriteError } from "@/lib/powers/authoringRules";
+import {
+  collectMonsterBundleNames,
+  findPowerVersionConflicts,
+  MonsterBundleError,
+  parseMonsterBundle,
+  resolveMonsterBundleMonster,
+  type MonsterBundleImportResult,
+} from "@/lib/summoning/monsterBundle";
+import { MonsterPowerIdentityError } from "@/lib/summoning/monsterPowerReconciliation";
+import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
+import { requireCampaignDirectorOrAdmin, requireUserId } from "../../_shared";
+import { createCampaignMonster, MonsterCreateError } from "../monsterCreate";
+
+/**
+ * Imports a monster bundle into a campaign. Body: `{ bundle, dryRun?, allowPartial? }`.
+ * Monsters with unresolved traits or equipment are held back unless `allowPartial` is set, in
+ * which case they import without those references. Every monster gets a result row.
+ */
+export async function POST(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignDirectorOrAdmin(campaignId, userId);
+
+    let body: { bundle?: unknown; dryRun?: unknown; allowPartial?: unknown };
+    try {
+      body = (await req.json()) ?? {};
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const dryRun = body.dryRun === true;
+    const allowPartial = body.allowPartial === true;
+    const bundle = parseMonsterBundle(body.bundle);
+
+    const { traitNames, itemNames } = collectMonsterBundleNames(bundle);
+    const [traitRows, itemRows] = await Promise.all([
+      traitNames.length > 0
+        ? prisma.monsterTraitDefinition.findMany({
+            where: { name: { in: traitNames }, source: "CORE", isEnabled: true },
+            select: { id: true, name: true },
+          })
+        : [],
+      itemNames.length > 0
+        ? prisma.itemTemplate.findMany({
+            where: { campaignId, name: { in: itemNames }, type: { in: ["WEAPON", "SHIELD", "ARMOR", "ITEM"] } },
+            select: { id: true, name: true },
+          })
+        : [],
+    ]);
+    const itemIdsByName = new Map<string, string[]>();
+    for (const item of itemRows) {
+      itemIdsByName.set(item.name, [...(itemIdsByName.get(item.name) ?? []), item.id]);
+    }
+    const lookups = {
+      traitIdsByName: new Map(traitRows.map((trait) => [trait.name, trait.id])),
+      itemIdsByName,
+    };
+
+    const results: MonsterBundleImportResult[] = [];
+    for (const [index, monster] of bundle.monsters.entries()) {
+      const result: MonsterBundleImportResult = {
+        index,
+        name: typeof monster.name === "string" ? monster.name : "",
+        status: "invalid",
+        monsterId: null,
+        error: null,
+        conflicts: [],
+      };
+      results.push(result);
+
+      const resolved = resolveMonsterBundleMonster(monster, lookups);
+      result.conflicts = resolved.conflicts;
+      const authoringError = getThreeFieldAugmentDebuffPublicWriteError(resolved.body.powers);
+      if (authoringError) {
+        result.error = authoringError;
+        continue;
+      }
+      const parsed = normalizeMonsterUpsertInput(resolved.body, { campaignId });
+      if (!parsed.ok) {
+        result.error = parsed.error;
+        continue;
+      }
+      result.conflicts.push(...findPowerVersionConflicts(monster.powers, parsed.data.powers));
+      if (result.conflicts.length > 0 && !allowPartial) {
+        result.status = "conflict";
+        continue;
+      }
+      if (dryRun) {
+        result.status = "ready";
+        continue;
+      }
+      try {
+        const created = await createCampaignMonster(campaignId, userId, parsed.data);
+        result.status = "imported";
+        result.monsterId = created.id;
+      } catch (error) {
+        if (error instanceof MonsterCreateError || error instanceof MonsterPowerIdentityError) {
+          result.error = error.message;
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return NextResponse.json({
+      dryRun,
+      allowPartial,
+      imported: results.filter((result) => result.status === "imported").length,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof MonsterBundleError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Failed to import monsters";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTERS_IMPORT]", error);
+    return NextResponse.json({ error: "Failed to import monsters" }, { status: 500 });
+  }
+}
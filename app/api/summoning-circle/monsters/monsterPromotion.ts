@@ -0,0 +1,225 @@
+import { prisma } from "@/prisma/client";
+import { Prisma } from "@prisma/client";
+import { getThreeFieldAugmentDebuffPublicWriteError } from "@/lib/powers/authoringRules";
+import {
+  MonsterPromotionError,
+  monsterCorePromotionBody,
+  planMonsterCoreTransition,
+  type MonsterCoreReviewDecision,
+  type MonsterCoreReviewEventView,
+  type MonsterCoreSubmissionDetail,
+  type MonsterCoreSubmissionStatus,
+  type MonsterCoreSubmissionSummary,
+  type MonsterCoreTransition,
+} from "@/lib/summoning/monsterPromotion";
+import type { MonsterRevisionSnapshot } from "@/lib/summoning/monsterRevisions";
+import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
+import { MONSTER_INCLUDE, createMonster, serializeMonster } from "./monsterCreate";
+
+const SUBMISSION_LIST_LIMIT = 200;
+
+const SUBMISSION_INCLUDE = {
+  campaign: { select: { name: true } },
+} satisfies Prisma.MonsterCoreSubmissionInclude;
+
+type StoredSubmission = Prisma.MonsterCoreSubmissionGetPayload<{ include: typeof SUBMISSION_INCLUDE }>;
+type StoredEvent = Prisma.MonsterCoreReviewEventGetPayload<object>;
+
+function toSummary(row: StoredSubmission): MonsterCoreSubmissionSummary {
+  return {
+    id: row.id,
+    campaignId: row.campaignId,
+    campaignName: row.campaign?.name ?? null,
+    monsterId: row.monsterId,
+    monsterName: row.monsterName,
+    status: row.status,
+    submissionRevision: row.submissionRevision,
+    submittedByUserId: row.submittedByUserId,
+    submittedAt: row.submittedAt.toISOString(),
+    reviewedByUserId: row.reviewedByUserId,
+    reviewedAt: row.reviewedAt?.toISOString() ?? null,
+    coreMonsterId: row.coreMonsterId,
+  };
+}
+
+function toEventView(row: StoredEvent): MonsterCoreReviewEventView {
+  return {
+    id: row.id,
+    action: row.action,
+    fromStatus: row.fromStatus,
+    toStatus: row.toStatus,
+    submissionRevision: row.submissionRevision,
+    actorUserId: row.actorUserId,
+    notes: row.notes,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+async function recordReviewEvent(
+  tx: Prisma.TransactionClient,
+  submissionId: string,
+  actorUserId: string,
+  transition: MonsterCoreTransition,
+) {
+  await tx.monsterCoreReviewEvent.create({
+    data: {
+      submissionId,
+      action: transition.action,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      submissionRevision: transition.submissionRevision,
+      actorUserId,
+      notes: transition.notes,
+    },
+  });
+}
+
+/** Moves a pending submission on, failing if another reviewer got there first. */
+async function settlePendingSubmission(
+  tx: Prisma.TransactionClient,
+  submissionId: string,
+  reviewerUserId: string,
+  transition: MonsterCoreTransition,
+  coreMonsterId: string | null,
+) {
+  const updated = await tx.monsterCoreSubmission.updateMany({
+    where: { id: submissionId, status: "PENDING_REVIEW", submissionRevision: transition.submissionRevision },
+    data: {
+      status: transition.toStatus,
+      reviewedByUserId: reviewerUserId,
+      reviewedAt: new Date(),
+      ...(coreMonsterId ? { coreMonsterId } : {}),
+    },
+  });
+  if (updated.count !== 1) {
+    throw new MonsterPromotionError("NOT_PENDING", "This submission was reviewed by someone else.", 409);
+  }
+  await recordReviewEvent(tx, submissionId, reviewerUserId, transition);
+}
+
+export async function listMonsterCoreSubmissions(
+  status?: MonsterCoreSubmissionStatus | null,
+): Promise<MonsterCoreSubmissionSummary[]> {
+  const rows = await prisma.monsterCoreSubmission.findMany({
+    where: status ? { status } : {},
+    orderBy: { submittedAt: "desc" },
+    take: SUBMISSION_LIST_LIMIT,
+    include: SUBMISSION_INCLUDE,
+  });
+  return rows.map(toSummary);
+}
+
+export async function getMonsterCoreSubmission(
+  where: { id: string } | { monsterId: string },
+): Promise<MonsterCoreSubmissionDetail | null> {
+  const row = await prisma.monsterCoreSubmission.findUnique({
+    where,
+    include: { ...SUBMISSION_INCLUDE, events: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!row) return null;
+  return {
+    ...toSummary(row),
+    snapshot: row.snapshotJson as MonsterRevisionSnapshot,
+    events: row.events.map(toEventView),
+  };
+}
+
+/**
+ * Nominates a campaign monster for the CORE library. The monster is frozen as it is now; later
+ * edits do not reach the reviewer unless the GD resubmits after a change request.
+ */
+export async function submitMonsterForCore(params: {
+  campaignId: string;
+  monsterId: string;
+  userId: string;
+  notes?: unknown;
+}): Promise<MonsterCoreSubmissionDetail> {
+  const monster = await prisma.monster.findFirst({
+    where: { id: params.monsterId, source: "CAMPAIGN", campaignId: params.campaignId },
+    include: MONSTER_INCLUDE,
+  });
+  if (!monster) {
+    throw new MonsterPromotionError("NOT_FOUND", "Not found", 404);
+  }
+  const current = await prisma.monsterCoreSubmission.findUnique({
+    where: { monsterId: monster.id },
+    select: { id: true, status: true, submissionRevision: true },
+  });
+  const transition = planMonsterCoreTransition(current, "SUBMIT", params.notes);
+  const snapshot = serializeMonster(monster) as unknown as Prisma.InputJsonValue;
+  const fields = {
+    monsterName: monster.name,
+    status: transition.toStatus,
+    submissionRevision: transition.submissionRevision,
+    snapshotJson: snapshot,
+    submittedByUserId: params.userId,
+    submittedAt: new Date(),
+    reviewedByUserId: null,
+    reviewedAt: null,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const submission = current
+      ? await tx.monsterCoreSubmission.update({ where: { id: current.id }, data: fields })
+      : await tx.monsterCoreSubmission.create({
+          data: { ...fields, campaignId: params.campaignId, monsterId: monster.id },
+        });
+    await recordReviewEvent(tx, submission.id, params.userId, transition);
+  });
+
+  const detail = await getMonsterCoreSubmission({ monsterId: monster.id });
+  if (!detail) throw new Error("Submission was not saved");
+  return detail;
+}
+
+/**
+ * Applies an admin decision. Approval clones the submitted snapshot into a read-only CORE monster
+ * with provenance back to the source campaign and author, in the same transaction as the review.
+ */
+export async function reviewMonsterCoreSubmission(params: {
+  submissionId: string;
+  decision: MonsterCoreReviewDecision;
+  userId: string;
+  notes?: unknown;
+}): Promise<MonsterCoreSubmissionDetail> {
+  const current = await prisma.monsterCoreSubmission.findUnique({ where: { id: params.submissionId } });
+  if (!current) {
+    throw new MonsterPromotionError("NOT_FOUND", "Not found", 404);
+  }
+  const transition = planMonsterCoreTransition(current, params.decision, params.notes);
+
+  if (params.decision === "REQUEST_CHANGES") {
+    await prisma.$transaction((tx) =>
+      settlePendingSubmission(tx, current.id, params.userId, transition, null),
+    );
+  } else {
+    const body = monsterCorePromotionBody(current.snapshotJson as MonsterRevisionSnapshot);
+    const authoringError = getThreeFieldAugmentDebuffPublicWriteError(body.powers);
+    if (authoringError) {
+      throw new MonsterPromotionError("SNAPSHOT_INVALID", `Submission cannot be promoted: ${authoringError}`, 400);
+    }
+    const parsed = normalizeMonsterUpsertInput(body, { campaignId: null });
+    if (!parsed.ok) {
+      throw new MonsterPromotionError("SNAPSHOT_INVALID", `Submission cannot be promoted: ${parsed.error}`, 400);
+    }
+    await createMonster(
+      {
+        source: "CORE",
+        provenance: {
+          campaignId: current.campaignId,
+          monsterId: current.monsterId,
+          authorUserId: current.submittedByUserId,
+        },
+      },
+      params.userId,
+      parsed.data,
+      {
+        onCreated: (tx, monster) => settlePendingSubmission(tx, current.id, params.userId, transition, monster.id),
+      },
+    );
+  }
+
+  const detail = await getMonsterCoreSubmission({ id: current.id });
+  if (!detail) throw new Error("Submission disappeared during review");
+  return detail;
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/prisma/client";
+import { getProtectionTuning } from "@/lib/config/combatTuning";
+import { getActivePowerTuningSet } from "@/lib/config/powerTuning";
+import { resolveMonsterCooldownAuthorities } from "@/lib/summoning/resolvePowerCooldownAuthority";
+import {
+  buildMonsterStatBlock,
+  MAX_STAT_BLOCK_EXPORT_SIZE,
+  MONSTER_STAT_BLOCK_FORMATS,
+  renderMonsterStatBlocks,
+  type MonsterStatBlockFormat,
+  type MonsterStatBlockItem,
+} from "@/lib/summoning/statBlockExport";
+import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
+import { requireCampaignAccess, requireUserId } from "../../_shared";
+import { listCampaignWeaponProjections } from "../../weapons/weaponProjections";
+import { MONSTER_INCLUDE, serializeMonster } from "../monsterCreate";
+
+const CONTENT_TYPES: Record<MonsterStatBlockFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+};
+
+/**
+ * Stat blocks for pasting into notes, chat or wikis. Query: `ids` is a comma-separated list of
+ * CORE or campaign monsters, `format=markdown|text` (default markdown). Responds with the text itself.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const campaignId = searchParams.get("campaignId");
+  const format = (searchParams.get("format") ?? "markdown") as MonsterStatBlockFormat;
+  const ids = Array.from(
+    new Set(
+      (searchParams.get("ids") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    ),
+  );
+
+  if (!campaignId) {
+    return NextResponse.json({ error: "campaignId is required" }, { status: 400 });
+  }
+  if (!MONSTER_STAT_BLOCK_FORMATS.includes(format)) {
+    return NextResponse.json({ error: "format must be markdown or text" }, { status: 400 });
+  }
+  if (ids.length === 0) {
+    return NextResponse.json({ error: "ids is required" }, { status: 400 });
+  }
+  if (ids.length > MAX_STAT_BLOCK_EXPORT_SIZE) {
+    return NextResponse.json(
+      { error: `At most ${MAX_STAT_BLOCK_EXPORT_SIZE} monsters can be exported at once` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const userId = await requireUserId();
+    await requireCampaignAccess(campaignId, userId);
+
+    const monsters = await prisma.monster.findMany({
+      where: { id: { in: ids }, OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }] },
+      include: MONSTER_INCLUDE,
+    });
+    const missingIds = ids.filter((id) => !monsters.some((monster) => monster.id === id));
+    if (missingIds.length > 0) {
+      return NextResponse.json({ error: `Monsters not found: ${missingIds.join(", ")}` }, { status: 404 });
+    }
+
+    const [weapons, protectionTuning, powerTuning] = await Promise.all([
+      listCampaignWeaponProjections(campaignId),
+      getProtectionTuning(),
+      getActivePowerTuningSet(),
+    ]);
+    const itemsById: Record<string, MonsterStatBlockItem> = Object.fromEntries(
+      weapons.map((weapon) => [weapon.id, weapon as MonsterStatBlockItem]),
+    );
+
+    const blocks = [];
+    for (const id of ids) {
+      const raw = serializeMonster(monsters.find((monster) => monster.id === id)!) as unknown as Record<string, unknown>;
+      const parsed = normalizeMonsterUpsertInput(
+        {
+          ...raw,
+          tags: Array.isArray(raw.tags) ? raw.tags.map((entry) => String((entry as { tag?: unknown }).tag ?? "")) : [],
+        },
+        { campaignId },
+      );
+      if (!parsed.ok) {
+        return NextResponse.json({ error: `${String(raw.name)} cannot be exported: ${parsed.error}` }, { status: 400 });
+      }
+      const monster = resolveMonsterCooldownAuthorities(parsed.data, powerTuning);
+      blocks.push(buildMonsterStatBlock({ monster, itemsById, protectionTuning }));
+    }
+
+    return new NextResponse(renderMonsterStatBlocks(blocks, format), {
+      headers: { "Content-Type": CONTENT_TYPES[format] },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to export stat blocks";
+    if (message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    console.error("[SUMMONING_MONSTER_STAT_BLOCKS]", error);
+    return NextResponse.json({ error: "Failed to export stat blocks" }, { status: 500 });
+  }
+}
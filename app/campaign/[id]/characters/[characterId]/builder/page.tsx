@@ -14,6 +14,7 @@ import {
   type CharacterSheetTheme,
 } from "@/app/campaign/[id]/characters/[characterId]/components/CharacterSheetPreview";
 import { useProtectionTuning } from "@/app/summoning-circle/components/useProtectionTuning";
+import { consumableChargesPerUnit, totalStackCharges } from "@/lib/campaign/consumables";
 import {
   CHARACTER_ATTRIBUTES,
   EQUIPMENT_SLOT_GROUPS,
@@ -266,6 +267,7 @@ type BuilderBackpackItem = {
   characterId: string;
   partyInventoryItemId: string;
   quantity: number;
+  chargesRemaining: number | null;
   itemTemplate: {
     id: string;
     itemUrl: string | null;
@@ -276,6 +278,7 @@ type BuilderBackpackItem = {
     size: string | null;
     armorLocation: string | null;
     itemLocation: string | null;
+    consumableCharges: number | null;
     ppv: number | null;
     mpv: number | null;
     globalAttributeModifiers: Array<{ attribute?: string; amount?: number }> | null;
@@ -1338,6 +1341,7 @@ export default function CharacterBuilderPage() {
     quantity: string;
   } | null>(null);
   const [transferringBackpackItem, setTransferringBackpackItem] = useState(false);
+  const [usingBackpackItemId, setUsingBackpackItemId] = useState<string | null>(null);
   const [powerDamageTypes, setPowerDamageTypes] = useState<PowerDamageTypeOption[]>([]);
   const protectionTuning = useProtectionTuning();
 
@@ -4041,12 +4045,14 @@ export default function CharacterBuilderPage() {
     });
   }
 
-  async function reloadBackpackAfterTransfer() {
+  async function reloadBackpackAfterTransfer(
+    failureMessage = "Item transferred, but Backpack refresh failed.",
+  ) {
     if (!builderApiUrl) return;
     const res = await fetch(builderApiUrl, { cache: "no-store" });
     const data = (await res.json().catch(() => ({}))) as BuilderPayload;
     if (!res.ok) {
-      throw new Error(data.error ?? "Item transferred, but Backpack refresh failed.");
+      throw new Error(data.error ?? failureMessage);
     }
     setPayload((current) =>
       current
@@ -4198,6 +4204,39 @@ export default function CharacterBuilderPage() {
     }
   }
 
+  async function handleUseConsumable(item: BuilderBackpackItem) {
+    if (!canEdit || usingBackpackItemId) return;
+    setUsingBackpackItemId(item.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(
+        `/api/campaigns/${encodeURIComponent(campaignId)}/characters/${encodeURIComponent(
+          characterId,
+        )}/backpack-use`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ backpackItemId: item.id, charges: 1 }),
+        },
+      );
+      const data = (await res.json().catch(() => ({}))) as { error?: string; backpackItem?: unknown };
+      if (!res.ok) {
+        throw new Error(data.error ?? (await readApiError(res, "Failed to use item.")));
+      }
+      await reloadBackpackAfterTransfer("Item used, but Backpack refresh failed.");
+      setMessage(
+        data.backpackItem
+          ? `Used ${item.itemTemplate.name ?? "item"}.`
+          : `Used the last of ${item.itemTemplate.name ?? "this item"}.`,
+      );
+    } catch (useError) {
+      setError(useError instanceof Error ? useError.message : "Failed to use item.");
+    } finally {
+      setUsingBackpackItemId(null);
+    }
+  }
+
   async function handleSave(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setSaving(true);
@@ -5120,6 +5159,7 @@ export default function CharacterBuilderPage() {
                   const selected = selectedBackpackItemId === item.id;
                   const isEquipped = usedCount > 0;
                   const transferableQuantity = getTransferableBackpackQuantity(item);
+                  const chargesPerUnit = consumableChargesPerUnit(item.itemTemplate);
                   return (
                     <article
                       key={item.id}
@@ -5152,6 +5192,11 @@ export default function CharacterBuilderPage() {
                           <span className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1">
                             Used {usedCount}
                           </span>
+                          {chargesPerUnit !== null ? (
+                            <span className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1">
+                              Charges {totalStackCharges(item, chargesPerUnit)}
+                            </span>
+                          ) : null}
                           {selected ? (
                             <span className="rounded border border-emerald-600 bg-emerald-950/40 px-2 py-1 text-emerald-100">
                               Selected
@@ -5187,6 +5232,16 @@ export default function CharacterBuilderPage() {
                           >
                             Give
                           </button>
+                          {chargesPerUnit !== null ? (
+                            <button
+                              type="button"
+                              onClick={() => void handleUseConsumable(item)}
+                              disabled={!canEdit || saving || usingBackpackItemId !== null}
+                              className="rounded border border-violet-700 px-2 py-1 text-[11px] font-medium text-violet-100 hover:bg-violet-950/30 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              {usingBackpackItemId === item.id ? "Using..." : "Use"}
+                            </button>
+                          ) : null}
                         </div>
                       </div>
                     </article>
@@ -0,0 +1,379 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { CampaignNav } from "@/app/components/CampaignNav";
+import {
+  ENCOUNTER_DIFFICULTY_BANDS,
+  ENCOUNTER_DIFFICULTY_LABELS,
+  type EncounterBudgetComparison,
+  type EncounterBudgetReport,
+  type EncounterDifficultyBand,
+} from "@/lib/combat-lab/encounterBudget";
+
+type RosterCharacter = {
+  id: string;
+  name: string;
+  level: number;
+};
+
+type RosterMonster = {
+  id: string;
+  name: string;
+  level: number;
+  tier: string | null;
+};
+
+type RosterDraft = {
+  characters: Record<string, boolean>;
+  monsters: Record<string, string>;
+};
+
+type BudgetResponse = {
+  budget: EncounterBudgetReport;
+  verification: EncounterBudgetComparison | null;
+  warnings: string[];
+};
+
+const EMPTY_ROSTER: RosterDraft = { characters: {}, monsters: {} };
+
+function errorMessage(data: { error?: string }, fallback: string): string {
+  return typeof data.error === "string" && data.error.trim() ? data.error : fallback;
+}
+
+function rosterPayload(draft: RosterDraft) {
+  return {
+    characters: Object.entries(draft.characters)
+      .filter(([, selected]) => selected)
+      .map(([characterId]) => ({ characterId, quantity: 1 })),
+    monsters: Object.entries(draft.monsters)
+      .map(([monsterId, quantity]) => ({ monsterId, quantity: Number(quantity) }))
+      .filter((entry) => Number.isInteger(entry.quantity) && entry.quantity > 0),
+  };
+}
+
+function pct(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function gapText(budget: EncounterBudgetReport) {
+  if (budget.gap === 0) return `On target (${ENCOUNTER_DIFFICULTY_LABELS[budget.targetBand]}).`;
+  const direction = budget.gap > 0 ? "above" : "below";
+  const scale = budget.monsterScaleToTarget;
+  const hint =
+    scale === null
+      ? ""
+      : scale > 1
+        ? ` Add about ${pct(scale - 1)} more monster weight.`
+        : ` Remove about ${pct(1 - scale)} of the monster weight.`;
+  return `${Math.abs(budget.gap).toFixed(2)} ${direction} the ${ENCOUNTER_DIFFICULTY_LABELS[budget.targetBand]} range.${hint}`;
+}
+
+export default function CampaignEncounterBuilderPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const campaignId = Array.isArray(params?.id) ? params.id[0] : params?.id;
+  const [characters, setCharacters] = useState<RosterCharacter[]>([]);
+  const [monsters, setMonsters] = useState<RosterMonster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [roster, setRoster] = useState<RosterDraft>(EMPTY_ROSTER);
+  const [targetBand, setTargetBand] = useState<EncounterDifficultyBand>("MODERATE");
+  const [result, setResult] = useState<BudgetResponse | null>(null);
+
+  const loadRoster = useCallback(async () => {
+    if (!campaignId) {
+      setLoadError("Missing campaign id.");
+      setLoading(false);
+      return;
+    }
+    setLoadError(null);
+    try {
+      const res = await fetch(`/api/combat-lab/campaign/${encodeURIComponent(campaignId)}`, { cache: "no-store" });
+      if (res.status === 401) {
+        router.push("/login");
+        return;
+      }
+      if (res.status === 403) {
+        setLoadError("Only a campaign Game Director or administrator may build encounters.");
+        return;
+      }
+      const data = (await res.json().catch(() => ({}))) as {
+        characters?: RosterCharacter[];
+        monsters?: RosterMonster[];
+        error?: string;
+      };
+      if (!res.ok) throw new Error(errorMessage(data, "Failed to load campaign combatants."));
+      setCharacters(data.characters ?? []);
+      setMonsters(data.monsters ?? []);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load campaign combatants.");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId, router]);
+
+  useEffect(() => {
+    void loadRoster();
+  }, [loadRoster]);
+
+  const computeBudget = useCallback(
+    async (verify: boolean) => {
+      if (!campaignId) return;
+      setBusy(true);
+      setActionError(null);
+      try {
+        const res = await fetch(`/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/encounter-budget`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...rosterPayload(roster), targetBand, verify }),
+        });
+        const data = (await res.json().catch(() => ({}))) as BudgetResponse & { error?: string };
+        if (!res.ok) throw new Error(errorMessage(data, "Failed to budget the encounter."));
+        setResult(data);
+      } catch (error) {
+        setActionError(error instanceof Error ? error.message : "Failed to budget the encounter.");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [campaignId, roster, targetBand],
+  );
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-6xl text-zinc-400">Loading encounter builder...</div>
+      </main>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-3xl space-y-4">
+          {campaignId ? <CampaignNav campaignId={campaignId} /> : null}
+          <h1 className="text-2xl font-semibold">Encounter Builder</h1>
+          <p className="text-red-300" role="alert">{loadError}</p>
+          <button
+            type="button"
+            onClick={() => router.replace(`/campaign/${campaignId ?? ""}`)}
+            className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900"
+          >
+            Back to campaign
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const budget = result?.budget ?? null;
+  const verification = result?.verification ?? null;
+
+  return (
+    <main className="min-h-screen bg-black p-6 text-zinc-100">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <CampaignNav campaignId={campaignId ?? ""} />
+
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Encounter Builder</h1>
+          <p className="max-w-4xl text-sm text-zinc-400">
+            Pick the party and the monsters. The budget weighs the monsters&apos; threat and survivability radar axes
+            against the party&apos;s derived stats and places the fight in a difficulty band. Verify runs the same roster
+            through the Combat Lab simulator.
+          </p>
+        </header>
+
+        {actionError ? (
+          <p className="rounded border border-red-800 bg-red-950/25 p-3 text-sm text-red-200" role="alert">
+            {actionError}
+          </p>
+        ) : null}
+
+        <section className="space-y-3 rounded-xl border border-zinc-800 p-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <fieldset className="space-y-1">
+              <legend className="text-sm text-zinc-400">Party</legend>
+              {characters.length === 0 ? <p className="text-sm text-zinc-500">No active characters.</p> : null}
+              {characters.map((character) => (
+                <label key={character.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(roster.characters[character.id])}
+                    onChange={(event) =>
+                      setRoster({ ...roster, characters: { ...roster.characters, [character.id]: event.target.checked } })
+                    }
+                  />
+                  {character.name} (L{character.level})
+                </label>
+              ))}
+            </fieldset>
+            <fieldset className="space-y-1">
+              <legend className="text-sm text-zinc-400">Monsters (quantity)</legend>
+              {monsters.length === 0 ? <p className="text-sm text-zinc-500">No campaign monsters.</p> : null}
+              {monsters.map((monster) => (
+                <label key={monster.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={roster.monsters[monster.id] ?? ""}
+                    placeholder="0"
+                    onChange={(event) =>
+                      setRoster({ ...roster, monsters: { ...roster.monsters, [monster.id]: event.target.value } })
+                    }
+                    className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                  {monster.name} (L{monster.level}{monster.tier ? ` ${monster.tier}` : ""})
+                </label>
+              ))}
+            </fieldset>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              Target difficulty
+              <select
+                value={targetBand}
+                onChange={(event) => setTargetBand(event.target.value as EncounterDifficultyBand)}
+                className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              >
+                {ENCOUNTER_DIFFICULTY_BANDS.map((band) => (
+                  <option key={band} value={band}>
+                    {ENCOUNTER_DIFFICULTY_LABELS[band]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() => void computeBudget(false)}
+              disabled={busy}
+              className="rounded border border-sky-700 px-4 py-2 hover:bg-sky-950 disabled:opacity-50"
+            >
+              Budget encounter
+            </button>
+            <button
+              type="button"
+              onClick={() => void computeBudget(true)}
+              disabled={busy}
+              className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900 disabled:opacity-50"
+            >
+              {busy ? "Working..." : "Verify in Combat Lab"}
+            </button>
+          </div>
+        </section>
+
+        {budget ? (
+          <section className="space-y-4 rounded-xl border border-zinc-700 p-4" aria-labelledby="budget-heading">
+            <div className="space-y-1">
+              <h2 id="budget-heading" className="text-2xl font-semibold">
+                {ENCOUNTER_DIFFICULTY_LABELS[budget.band]}
+                <span className="ml-2 text-base font-normal text-zinc-400">score {budget.score.toFixed(2)}</span>
+              </h2>
+              <p className="text-sm text-zinc-300">{gapText(budget)}</p>
+            </div>
+            <dl className="grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
+              <div>
+                <dt className="text-zinc-400">Threat vs durability</dt>
+                <dd>
+                  {budget.threatLoad.toFixed(2)} / {budget.partyDurability.toFixed(2)} ({budget.threatScore.toFixed(2)})
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-400">Survivability vs offence</dt>
+                <dd>
+                  {budget.survivabilityLoad.toFixed(2)} / {budget.partyOffence.toFixed(2)} (
+                  {budget.survivabilityScore.toFixed(2)})
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-400">Party</dt>
+                <dd>
+                  {budget.partySize} at average level {budget.partyLevel}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-400">Target</dt>
+                <dd>
+                  {ENCOUNTER_DIFFICULTY_LABELS[budget.targetBand]} (score {budget.targetScore.toFixed(2)})
+                </dd>
+              </div>
+            </dl>
+            <div className="grid gap-4 md:grid-cols-2">
+              <table className="w-full text-left text-sm">
+                <thead className="text-zinc-400">
+                  <tr>
+                    <th className="py-1">Character</th>
+                    <th>Offence</th>
+                    <th>Durability</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {budget.members.map((member) => (
+                    <tr key={member.id}>
+                      <td className="py-1">
+                        {member.name} (L{member.level})
+                      </td>
+                      <td>{member.offenceIndex.toFixed(2)}</td>
+                      <td>{member.durabilityIndex.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full text-left text-sm">
+                <thead className="text-zinc-400">
+                  <tr>
+                    <th className="py-1">Monster</th>
+                    <th>Threat</th>
+                    <th>Survivability</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {budget.monsters.map((monster) => (
+                    <tr key={monster.id}>
+                      <td className="py-1">
+                        {monster.quantity} x {monster.name} (L{monster.level} {monster.legendary ? "Legendary " : ""}
+                        {monster.tier})
+                      </td>
+                      <td>{monster.threatLoad.toFixed(2)}</td>
+                      <td>{monster.survivabilityLoad.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {verification ? (
+              <div className="space-y-1 rounded border border-zinc-800 p-3 text-sm">
+                <h3 className="font-semibold">Combat Lab check</h3>
+                <p>
+                  Predicted {ENCOUNTER_DIFFICULTY_LABELS[verification.predictedBand]}, simulated{" "}
+                  {ENCOUNTER_DIFFICULTY_LABELS[verification.simulatedBand]}
+                  {verification.bandDelta === 0
+                    ? " - the budget matches the simulation."
+                    : verification.bandDelta > 0
+                      ? ` - plays ${verification.bandDelta} band(s) harder than budgeted.`
+                      : ` - plays ${-verification.bandDelta} band(s) easier than budgeted.`}
+                </p>
+                <p className="text-zinc-400">
+                  Party win rate {pct(verification.playerWinRate)}, winner health left{" "}
+                  {pct(verification.averageWinnerHealthRemainingPercent)}, average{" "}
+                  {verification.averageRounds.toFixed(1)} rounds.
+                </p>
+              </div>
+            ) : null}
+            {result && result.warnings.length > 0 ? (
+              <ul className="list-disc pl-5 text-sm text-amber-300">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            ) : null}
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { EncounterLootRecord, LootDrop } from "@/lib/campaign/lootTables";
+
+type EncounterLootPanelProps = {
+  campaignId: string;
+  encounterId: string;
+};
+
+function dropText(drop: LootDrop): string {
+  return `${drop.quantity} x ${drop.name} (${drop.rarity})`;
+}
+
+/** Rolls and shows the drops from defeated monsters once an encounter is completed. */
+export function EncounterLootPanel({ campaignId, encounterId }: EncounterLootPanelProps) {
+  const [loot, setLoot] = useState<EncounterLootRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [seed, setSeed] = useState("");
+  const [deposit, setDeposit] = useState(true);
+
+  const lootUrl = `/api/campaigns/${encodeURIComponent(campaignId)}/encounters/${encodeURIComponent(encounterId)}/loot`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setLoot(null);
+    void (async () => {
+      const res = await fetch(lootUrl, { cache: "no-store" });
+      const data = (await res.json().catch(() => ({}))) as { loot?: EncounterLootRecord | null; error?: string };
+      if (cancelled) return;
+      if (!res.ok) setError(data.error ?? "Failed to load encounter loot.");
+      else setLoot(data.loot ?? null);
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [lootUrl]);
+
+  async function rollLoot() {
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(lootUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seed: seed.trim() === "" ? undefined : Number(seed), deposit }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { loot?: EncounterLootRecord; error?: string };
+      if (!res.ok || !data.loot) {
+        setError(data.error ?? "Failed to roll loot.");
+        return;
+      }
+      setLoot(data.loot);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded border border-emerald-800 bg-emerald-950/10 p-3 text-sm">
+      <h3 className="font-semibold text-emerald-100">Loot</h3>
+      {error ? <p className="text-red-300" role="alert">{error}</p> : null}
+      {loading ? <p className="text-zinc-400">Loading loot...</p> : null}
+
+      {!loading && !loot ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            value={seed}
+            onChange={(event) => setSeed(event.target.value)}
+            placeholder="Seed (optional)"
+            className="w-36 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+          />
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={deposit} onChange={(event) => setDeposit(event.target.checked)} />
+            Add to party inventory
+          </label>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void rollLoot()}
+            className="rounded border border-emerald-700 px-3 py-1 hover:bg-emerald-950 disabled:opacity-50"
+          >
+            Roll loot
+          </button>
+          <p className="w-full text-xs text-zinc-500">
+            Each defeated monster with a loot table drops once. Loot can only be rolled once per encounter.
+          </p>
+        </div>
+      ) : null}
+
+      {loot ? (
+        <div className="space-y-2">
+          <p className="text-xs text-zinc-400">
+            Rolled {new Date(loot.rolledAt).toLocaleString()} with seed {loot.seed}
+            {loot.deposited ? " · added to party inventory" : ""}
+          </p>
+          {loot.monsters.length === 0 ? (
+            <p className="text-zinc-400">No defeated monster had a loot table.</p>
+          ) : (
+            <ul className="space-y-1">
+              {loot.monsters.map((entry) => (
+                <li key={entry.actorId}>
+                  <span className="font-medium">{entry.monsterName}</span>{" "}
+                  <span className="text-zinc-500">({entry.lootTableName})</span>:{" "}
+                  {entry.drops.length > 0 ? entry.drops.map(dropText).join(", ") : "nothing"}
+                </li>
+              ))}
+            </ul>
+          )}
+          {loot.drops.length > 0 ? (
+            <p>
+              <span className="text-zinc-400">Total:</span> {loot.drops.map(dropText).join(", ")}
+            </p>
+          ) : null}
+          {loot.notes.length > 0 ? (
+            <ul className="list-disc pl-5 text-xs text-amber-200">
+              {loot.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,825 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { CampaignNav } from "@/app/components/CampaignNav";
+import type {
+  CampaignEncounterRecord,
+  CampaignEncounterSummary,
+  EncounterManualStatusKind,
+} from "@/lib/combat-lab/encounter";
+import type { CombatActor, CombatAttributeName, CombatPool } from "@/lib/combat-lab/types";
+
+import { EncounterLootPanel } from "./EncounterLootPanel";
+
+type RosterCharacter = {
+  id: string;
+  name: string;
+  level: number;
+};
+
+type RosterMonster = {
+  id: string;
+  name: string;
+  level: number;
+  tier: string | null;
+};
+
+type RosterDraft = {
+  characters: Record<string, boolean>;
+  monsters: Record<string, string>;
+};
+
+const ATTRIBUTES: CombatAttributeName[] = ["Attack", "Guard", "Fortitude", "Intellect", "Synergy", "Bravery"];
+const STATUS_KINDS: EncounterManualStatusKind[] = ["buff", "debuff", "protection", "mainActionDenied", "movementDenied"];
+const EMPTY_ROSTER: RosterDraft = { characters: {}, monsters: {} };
+
+function errorMessage(data: { error?: string }, fallback: string): string {
+  return typeof data.error === "string" && data.error.trim() ? data.error : fallback;
+}
+
+function rosterPayload(draft: RosterDraft) {
+  return {
+    characters: Object.entries(draft.characters)
+      .filter(([, selected]) => selected)
+      .map(([characterId]) => ({ characterId, quantity: 1 })),
+    monsters: Object.entries(draft.monsters)
+      .map(([monsterId, quantity]) => ({ monsterId, quantity: Number(quantity) }))
+      .filter((entry) => Number.isInteger(entry.quantity) && entry.quantity > 0),
+  };
+}
+
+function hpText(current: number, max: number) {
+  return `${current}/${max}`;
+}
+
+export default function CampaignEncountersPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const campaignId = Array.isArray(params?.id) ? params.id[0] : params?.id;
+  const [encounters, setEncounters] = useState<CampaignEncounterSummary[]>([]);
+  const [characters, setCharacters] = useState<RosterCharacter[]>([]);
+  const [monsters, setMonsters] = useState<RosterMonster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newRoster, setNewRoster] = useState<RosterDraft>(EMPTY_ROSTER);
+  const [addRoster, setAddRoster] = useState<RosterDraft>(EMPTY_ROSTER);
+  const [active, setActive] = useState<CampaignEncounterRecord | null>(null);
+  const [selectedActorId, setSelectedActorId] = useState<string | null>(null);
+  const [woundPool, setWoundPool] = useState<CombatPool>("physical");
+  const [woundAmount, setWoundAmount] = useState("");
+  const [injurySuccesses, setInjurySuccesses] = useState("");
+  const [woundSource, setWoundSource] = useState("");
+  const [rollAttribute, setRollAttribute] = useState<CombatAttributeName>("Attack");
+  const [rollSuccesses, setRollSuccesses] = useState("");
+  const [effectKind, setEffectKind] = useState<EncounterManualStatusKind>("debuff");
+  const [effectAttribute, setEffectAttribute] = useState<CombatAttributeName>("Attack");
+  const [effectAmount, setEffectAmount] = useState("1");
+  const [effectTurns, setEffectTurns] = useState("1");
+  const [effectSourceId, setEffectSourceId] = useState("");
+  const [effectLabel, setEffectLabel] = useState("");
+
+  const loadEncounters = useCallback(async () => {
+    if (!campaignId) {
+      setLoadError("Missing campaign id.");
+      setLoading(false);
+      return;
+    }
+    setLoadError(null);
+    try {
+      const [encounterRes, rosterRes] = await Promise.all([
+        fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/encounters`, { cache: "no-store" }),
+        fetch(`/api/combat-lab/campaign/${encodeURIComponent(campaignId)}`, { cache: "no-store" }),
+      ]);
+      if (encounterRes.status === 401) {
+        router.push("/login");
+        return;
+      }
+      if (encounterRes.status === 403) {
+        setLoadError("Only a campaign Game Director or administrator may run encounters.");
+        return;
+      }
+      const encounterData = (await encounterRes.json().catch(() => ({}))) as {
+        encounters?: CampaignEncounterSummary[];
+        error?: string;
+      };
+      const rosterData = (await rosterRes.json().catch(() => ({}))) as {
+        characters?: RosterCharacter[];
+        monsters?: RosterMonster[];
+        error?: string;
+      };
+      if (!encounterRes.ok) throw new Error(errorMessage(encounterData, "Failed to load encounters."));
+      if (!rosterRes.ok) throw new Error(errorMessage(rosterData, "Failed to load campaign combatants."));
+      setEncounters(encounterData.encounters ?? []);
+      setCharacters(rosterData.characters ?? []);
+      setMonsters(rosterData.monsters ?? []);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load encounters.");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId, router]);
+
+  useEffect(() => {
+    void loadEncounters();
+  }, [loadEncounters]);
+
+  const openEncounter = useCallback(async (encounterId: string) => {
+    if (!campaignId) return;
+    setActionError(null);
+    const res = await fetch(
+      `/api/campaigns/${encodeURIComponent(campaignId)}/encounters/${encodeURIComponent(encounterId)}`,
+      { cache: "no-store" },
+    );
+    const data = (await res.json().catch(() => ({}))) as { encounter?: CampaignEncounterRecord; error?: string };
+    if (!res.ok || !data.encounter) {
+      setActionError(errorMessage(data, "Failed to open the encounter."));
+      return;
+    }
+    setActive(data.encounter);
+    setSelectedActorId(data.encounter.snapshot.combat.currentTurnActorId ?? null);
+  }, [campaignId]);
+
+  async function patchEncounter(body: Record<string, unknown>) {
+    if (!campaignId || !active || busy) return false;
+    setBusy(true);
+    setActionError(null);
+    try {
+      const res = await fetch(
+        `/api/campaigns/${encodeURIComponent(campaignId)}/encounters/${encodeURIComponent(active.id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ revision: active.revision, ...body }),
+        },
+      );
+      const data = (await res.json().catch(() => ({}))) as {
+        encounter?: CampaignEncounterRecord;
+        error?: string;
+        code?: string;
+      };
+      if (!res.ok || !data.encounter) {
+        setActionError(errorMessage(data, "The encounter update failed."));
+        if (data.code === "REVISION_CONFLICT") await openEncounter(active.id);
+        return false;
+      }
+      setActive(data.encounter);
+      setEncounters((current) =>
+        current.map((entry) => (entry.id === data.encounter!.id ? { ...entry, ...data.encounter! } : entry)),
+      );
+      return true;
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "The encounter update failed.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function sendCommand(command: Record<string, unknown>) {
+    return patchEncounter({ command });
+  }
+
+  async function createEncounter(event: FormEvent) {
+    event.preventDefault();
+    if (!campaignId || busy) return;
+    setBusy(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/encounters`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName, ...rosterPayload(newRoster) }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { encounter?: CampaignEncounterRecord; error?: string };
+      if (!res.ok || !data.encounter) {
+        setActionError(errorMessage(data, "Failed to start the encounter."));
+        return;
+      }
+      setNewName("");
+      setNewRoster(EMPTY_ROSTER);
+      setActive(data.encounter);
+      setSelectedActorId(data.encounter.snapshot.combat.currentTurnActorId ?? null);
+      setEncounters((current) => [data.encounter!, ...current]);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteEncounter(encounterId: string) {
+    if (!campaignId || busy) return;
+    if (!window.confirm("Delete this encounter? Its saved state cannot be recovered.")) return;
+    const res = await fetch(
+      `/api/campaigns/${encodeURIComponent(campaignId)}/encounters/${encodeURIComponent(encounterId)}`,
+      { method: "DELETE" },
+    );
+    const data = (await res.json().catch(() => ({}))) as { error?: string };
+    if (!res.ok) {
+      setActionError(errorMessage(data, "Failed to delete the encounter."));
+      return;
+    }
+    setEncounters((current) => current.filter((entry) => entry.id !== encounterId));
+    if (active?.id === encounterId) setActive(null);
+  }
+
+  const snapshot = active?.snapshot ?? null;
+  const actorsInOrder = useMemo(() => {
+    if (!snapshot) return [] as CombatActor[];
+    const byId = new Map(snapshot.combat.actors.map((actor) => [actor.id, actor]));
+    return snapshot.turnOrder.flatMap((actorId) => {
+      const actor = byId.get(actorId);
+      return actor ? [actor] : [];
+    });
+  }, [snapshot]);
+  const selectedActor = actorsInOrder.find((actor) => actor.id === selectedActorId) ?? null;
+  const selectedCombatant = snapshot?.combatants.find((entry) => entry.actorId === selectedActorId) ?? null;
+  const currentActorId = snapshot?.combat.currentTurnActorId ?? null;
+  const readOnly = active?.status === "COMPLETED";
+
+  function moveInOrder(actorId: string, direction: -1 | 1) {
+    if (!snapshot) return;
+    const order = [...snapshot.turnOrder];
+    const index = order.indexOf(actorId);
+    const swapWith = index + direction;
+    if (index < 0 || swapWith < 0 || swapWith >= order.length) return;
+    [order[index], order[swapWith]] = [order[swapWith], order[index]];
+    void sendCommand({ type: "setTurnOrder", actorIds: order });
+  }
+
+  async function submitWounds(event: FormEvent, kind: "applyWounds" | "applyHealing") {
+    event.preventDefault();
+    if (!selectedActor) return;
+    const ok = await sendCommand(
+      kind === "applyWounds"
+        ? {
+            type: "applyWounds",
+            actorId: selectedActor.id,
+            pool: woundPool,
+            amount: Number(woundAmount),
+            injuryRollSuccesses: injurySuccesses.trim() === "" ? null : Number(injurySuccesses),
+            sourceLabel: woundSource,
+          }
+        : { type: "applyHealing", actorId: selectedActor.id, pool: woundPool, amount: Number(woundAmount) },
+    );
+    if (ok) {
+      setWoundAmount("");
+      setInjurySuccesses("");
+    }
+  }
+
+  async function submitRoll(event: FormEvent) {
+    event.preventDefault();
+    if (!selectedActor) return;
+    const ok = await sendCommand({
+      type: "recordRoll",
+      actorId: selectedActor.id,
+      attribute: rollAttribute,
+      successes: Number(rollSuccesses),
+    });
+    if (ok) setRollSuccesses("");
+  }
+
+  async function submitEffect(event: FormEvent) {
+    event.preventDefault();
+    if (!selectedActor) return;
+    await sendCommand({
+      type: "addStatusEffect",
+      targetActorId: selectedActor.id,
+      sourceActorId: effectSourceId || selectedActor.id,
+      kind: effectKind,
+      attribute: effectKind === "buff" || effectKind === "debuff" ? effectAttribute : null,
+      pool: effectKind === "protection" ? woundPool : null,
+      amount: Number(effectAmount),
+      remainingRounds: Number(effectTurns),
+      label: effectLabel,
+    });
+  }
+
+  async function submitAddCombatants(event: FormEvent) {
+    event.preventDefault();
+    const ok = await patchEncounter({ addCombatants: rosterPayload(addRoster) });
+    if (ok) setAddRoster(EMPTY_ROSTER);
+  }
+
+  function rosterPicker(draft: RosterDraft, setDraft: (next: RosterDraft) => void) {
+    return (
+      <div className="grid gap-4 md:grid-cols-2">
+        <fieldset className="space-y-1">
+          <legend className="text-sm text-zinc-400">Characters</legend>
+          {characters.length === 0 ? <p className="text-sm text-zinc-500">No active characters.</p> : null}
+          {characters.map((character) => (
+            <label key={character.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={Boolean(draft.characters[character.id])}
+                onChange={(event) =>
+                  setDraft({ ...draft, characters: { ...draft.characters, [character.id]: event.target.checked } })
+                }
+              />
+              {character.name} (L{character.level})
+            </label>
+          ))}
+        </fieldset>
+        <fieldset className="space-y-1">
+          <legend className="text-sm text-zinc-400">Monsters (quantity)</legend>
+          {monsters.length === 0 ? <p className="text-sm text-zinc-500">No campaign monsters.</p> : null}
+          {monsters.map((monster) => (
+            <label key={monster.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={draft.monsters[monster.id] ?? ""}
+                placeholder="0"
+                onChange={(event) =>
+                  setDraft({ ...draft, monsters: { ...draft.monsters, [monster.id]: event.target.value } })
+                }
+                className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              />
+              {monster.name} (L{monster.level}{monster.tier ? ` ${monster.tier}` : ""})
+            </label>
+          ))}
+        </fieldset>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-6xl text-zinc-400">Loading encounters...</div>
+      </main>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-3xl space-y-4">
+          {campaignId ? <CampaignNav campaignId={campaignId} /> : null}
+          <h1 className="text-2xl font-semibold">Encounters</h1>
+          <p className="text-red-300" role="alert">{loadError}</p>
+          <button
+            type="button"
+            onClick={() => router.replace(`/campaign/${campaignId ?? ""}`)}
+            className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900"
+          >
+            Back to campaign
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-black p-6 text-zinc-100">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <CampaignNav campaignId={campaignId ?? ""} />
+
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Encounters</h1>
+          <p className="max-w-4xl text-sm text-zinc-400">
+            Run a fight at the table: advance turns by hand and enter the real dice results. Wounds, cooldowns,
+            effect durations, responses and Limit Break eligibility are tracked for you and saved after every change.
+          </p>
+        </header>
+
+        {actionError ? (
+          <p className="rounded border border-red-800 bg-red-950/25 p-3 text-sm text-red-200" role="alert">
+            {actionError}
+          </p>
+        ) : null}
+
+        <section className="space-y-3" aria-labelledby="encounter-list-heading">
+          <h2 id="encounter-list-heading" className="text-xl font-semibold">Saved encounters</h2>
+          {encounters.length === 0 ? (
+            <p className="text-sm text-zinc-400">No encounters yet.</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="text-zinc-400">
+                <tr>
+                  <th className="py-1">Name</th>
+                  <th>Status</th>
+                  <th>Round</th>
+                  <th>Updated</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {encounters.map((encounter) => (
+                  <tr key={encounter.id} className={active?.id === encounter.id ? "bg-zinc-900" : undefined}>
+                    <td className="py-1">{encounter.name}</td>
+                    <td>{encounter.status === "ACTIVE" ? "Active" : "Completed"}</td>
+                    <td>{encounter.round}</td>
+                    <td>{new Date(encounter.updatedAt).toLocaleString()}</td>
+                    <td className="space-x-2 text-right">
+                      <button type="button" onClick={() => void openEncounter(encounter.id)} className="underline">
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void deleteEncounter(encounter.id)}
+                        className="text-red-300 underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <form onSubmit={(event) => void createEncounter(event)} className="space-y-3 rounded-xl border border-zinc-800 p-4">
+          <h2 className="text-xl font-semibold">Start an encounter</h2>
+          <label className="flex items-center gap-2 text-sm">
+            Name
+            <input
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              maxLength={120}
+              className="flex-1 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            />
+          </label>
+          {rosterPicker(newRoster, setNewRoster)}
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded border border-sky-700 px-4 py-2 hover:bg-sky-950 disabled:opacity-50"
+          >
+            Start encounter
+          </button>
+        </form>
+
+        {active && snapshot ? (
+          <section className="space-y-4 rounded-xl border border-zinc-700 p-4" aria-labelledby="active-encounter-heading">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 id="active-encounter-heading" className="text-2xl font-semibold">{active.name}</h2>
+                <p className="text-sm text-zinc-400">
+                  Round {snapshot.combat.round}
+                  {currentActorId
+                    ? ` · ${actorsInOrder.find((actor) => actor.id === currentActorId)?.name ?? currentActorId}'s turn`
+                    : ""}
+                  {active.outcome
+                    ? ` · ${active.outcome === "draw" ? "No one is left standing" : `${active.outcome === "players" ? "Players" : "Monsters"} are the last side standing`}`
+                    : ""}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={busy || readOnly}
+                  onClick={() => void sendCommand({ type: "endTurn" })}
+                  className="rounded border border-sky-700 px-4 py-2 hover:bg-sky-950 disabled:opacity-50"
+                >
+                  End turn
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void patchEncounter({ status: readOnly ? "ACTIVE" : "COMPLETED" })}
+                  className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900 disabled:opacity-50"
+                >
+                  {readOnly ? "Reopen" : "Mark completed"}
+                </button>
+              </div>
+            </div>
+
+            <table className="w-full text-left text-sm">
+              <thead className="text-zinc-400">
+                <tr>
+                  <th className="py-1">Order</th>
+                  <th>Combatant</th>
+                  <th>Side</th>
+                  <th>Physical</th>
+                  <th>Mental</th>
+                  <th>Injuries (P/M)</th>
+                  <th>Responses</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {actorsInOrder.map((actor, index) => (
+                  <tr
+                    key={actor.id}
+                    className={`${actor.id === selectedActorId ? "bg-zinc-900" : ""} ${actor.defeated ? "text-zinc-500 line-through" : ""}`}
+                  >
+                    <td className="py-1">
+                      {actor.id === currentActorId ? "▶ " : ""}
+                      {index + 1}
+                    </td>
+                    <td>
+                      <button type="button" onClick={() => setSelectedActorId(actor.id)} className="underline">
+                        {actor.name}
+                      </button>
+                    </td>
+                    <td>{actor.side === "players" ? "Players" : "Monsters"}</td>
+                    <td>{hpText(actor.physicalHpCurrent, actor.physicalHpMax)}</td>
+                    <td>{hpText(actor.mentalHpCurrent, actor.mentalHpMax)}</td>
+                    <td>
+                      {actor.physicalMajorInjuries}/{actor.mentalMajorInjuries}
+                    </td>
+                    <td>{snapshot.combat.responsesRemaining[actor.id] ?? 0}</td>
+                    <td className="space-x-1 text-right">
+                      <button
+                        type="button"
+                        disabled={busy || readOnly || index === 0}
+                        onClick={() => moveInOrder(actor.id, -1)}
+                        aria-label={`Move ${actor.name} earlier`}
+                        className="rounded border border-zinc-700 px-2 disabled:opacity-40"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy || readOnly || index === actorsInOrder.length - 1}
+                        onClick={() => moveInOrder(actor.id, 1)}
+                        aria-label={`Move ${actor.name} later`}
+                        className="rounded border border-zinc-700 px-2 disabled:opacity-40"
+                      >
+                        ↓
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {snapshot.limitBreakEligibility.length > 0 ? (
+              <div className="rounded border border-amber-700 bg-amber-950/20 p-3 text-sm">
+                <h3 className="font-semibold text-amber-100">Limit Break ready</h3>
+                <ul className="mt-1 space-y-1">
+                  {snapshot.limitBreakEligibility.map((entry) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2">
+                      <span>
+                        {entry.actorName}: {entry.limitBreakName ?? `${entry.tier} Limit Break`} ({entry.attribute},{" "}
+                        {entry.successes}/{entry.requiredSuccesses} successes, round {entry.round})
+                      </span>
+                      <button
+                        type="button"
+                        disabled={busy || readOnly}
+                        onClick={() => void sendCommand({ type: "clearLimitBreakEligibility", eligibilityId: entry.id })}
+                        className="underline disabled:opacity-50"
+                      >
+                        Dismiss
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            {readOnly && campaignId ? <EncounterLootPanel campaignId={campaignId} encounterId={active.id} /> : null}
+
+            {selectedActor && !readOnly ? (
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="space-y-3 rounded border border-zinc-800 p-3">
+                  <h3 className="font-semibold">{selectedActor.name}</h3>
+                  <form onSubmit={(event) => void submitWounds(event, "applyWounds")} className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                      value={woundPool}
+                      onChange={(event) => setWoundPool(event.target.value as CombatPool)}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    >
+                      <option value="physical">Physical</option>
+                      <option value="mental">Mental</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={woundAmount}
+                      onChange={(event) => setWoundAmount(event.target.value)}
+                      placeholder="Amount"
+                      className="w-20 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <input
+                      value={woundSource}
+                      onChange={(event) => setWoundSource(event.target.value)}
+                      placeholder="Source (optional)"
+                      className="w-36 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={injurySuccesses}
+                      onChange={(event) => setInjurySuccesses(event.target.value)}
+                      placeholder="Injury roll successes"
+                      title="Only needed when the wounds drop a character or legendary monster to 0"
+                      className="w-44 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <button type="submit" disabled={busy} className="rounded border border-red-800 px-3 py-1 disabled:opacity-50">
+                      Apply wounds
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={(event) => void submitWounds(event, "applyHealing")}
+                      className="rounded border border-emerald-800 px-3 py-1 disabled:opacity-50"
+                    >
+                      Heal
+                    </button>
+                  </form>
+
+                  <form onSubmit={(event) => void submitRoll(event)} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>Roll</span>
+                    <select
+                      value={rollAttribute}
+                      onChange={(event) => setRollAttribute(event.target.value as CombatAttributeName)}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    >
+                      {ATTRIBUTES.map((attribute) => (
+                        <option key={attribute} value={attribute}>{attribute}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={rollSuccesses}
+                      onChange={(event) => setRollSuccesses(event.target.value)}
+                      placeholder="Successes"
+                      className="w-24 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <button type="submit" disabled={busy} className="rounded border border-zinc-700 px-3 py-1 disabled:opacity-50">
+                      Record roll
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => void sendCommand({ type: "spendResponse", actorId: selectedActor.id })}
+                      className="rounded border border-zinc-700 px-3 py-1 disabled:opacity-50"
+                    >
+                      Spend response
+                    </button>
+                  </form>
+
+                  {selectedCombatant && selectedCombatant.limitBreaks.length > 0 ? (
+                    <ul className="text-sm text-zinc-400">
+                      {selectedCombatant.limitBreaks.map((limitBreak) => (
+                        <li key={limitBreak.slot}>
+                          Limit Break: {limitBreak.name} ({limitBreak.tier}
+                          {limitBreak.attribute ? `, ${limitBreak.attribute}` : ""}
+                          {limitBreak.thresholdSuccesses ? `, ${limitBreak.thresholdSuccesses} successes` : ""})
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-zinc-400">
+                      <tr>
+                        <th className="py-1">Action</th>
+                        <th>Cooldown</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedActor.actions.filter((action) => !action.passive).map((action) => {
+                        const remaining = snapshot.combat.cooldowns[`${selectedActor.id}:${action.id}`]?.remaining ?? 0;
+                        return (
+                          <tr key={action.id}>
+                            <td className="py-1">{action.name}</td>
+                            <td>{remaining > 0 ? `${remaining} turn${remaining === 1 ? "" : "s"}` : action.cooldownRounds > 0 ? "Ready" : "—"}</td>
+                            <td className="text-right">
+                              <button
+                                type="button"
+                                disabled={busy || remaining > 0 || selectedActor.defeated}
+                                onClick={() => void sendCommand({ type: "useAction", actorId: selectedActor.id, actionId: action.id })}
+                                className="underline disabled:opacity-40"
+                              >
+                                Use
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void sendCommand({ type: "removeCombatant", actorId: selectedActor.id })}
+                    className="text-sm text-red-300 underline disabled:opacity-50"
+                  >
+                    Remove from encounter
+                  </button>
+                </div>
+
+                <div className="space-y-3 rounded border border-zinc-800 p-3">
+                  <h3 className="font-semibold">Effects on {selectedActor.name}</h3>
+                  <ul className="space-y-1 text-sm">
+                    {snapshot.combat.statusEffects
+                      .filter((effect) => effect.targetActorId === selectedActor.id)
+                      .map((effect) => (
+                        <li key={effect.id} className="flex items-center justify-between gap-2">
+                          <span>
+                            {effect.sourceActionName ?? effect.kind}
+                            {effect.attribute ? ` (${effect.attribute} ${effect.kind === "debuff" ? "-" : "+"}${effect.amount})` : ` (${effect.amount})`}
+                            {effect.passiveDuration ? " · passive" : ` · ${effect.remainingRounds} turn${effect.remainingRounds === 1 ? "" : "s"}`}
+                          </span>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => void sendCommand({ type: "removeStatusEffect", effectId: effect.id })}
+                            className="underline disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                  </ul>
+                  <form onSubmit={(event) => void submitEffect(event)} className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                      value={effectKind}
+                      onChange={(event) => setEffectKind(event.target.value as EncounterManualStatusKind)}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    >
+                      {STATUS_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>{kind}</option>
+                      ))}
+                    </select>
+                    {effectKind === "buff" || effectKind === "debuff" ? (
+                      <select
+                        value={effectAttribute}
+                        onChange={(event) => setEffectAttribute(event.target.value as CombatAttributeName)}
+                        className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                      >
+                        {ATTRIBUTES.map((attribute) => (
+                          <option key={attribute} value={attribute}>{attribute}</option>
+                        ))}
+                      </select>
+                    ) : null}
+                    <input
+                      type="number"
+                      min={0}
+                      value={effectAmount}
+                      onChange={(event) => setEffectAmount(event.target.value)}
+                      title="Amount"
+                      className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={effectTurns}
+                      onChange={(event) => setEffectTurns(event.target.value)}
+                      title="Duration in turns"
+                      className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <select
+                      value={effectSourceId}
+                      onChange={(event) => setEffectSourceId(event.target.value)}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    >
+                      <option value="">Source: {selectedActor.name}</option>
+                      {actorsInOrder
+                        .filter((actor) => actor.id !== selectedActor.id)
+                        .map((actor) => (
+                          <option key={actor.id} value={actor.id}>Source: {actor.name}</option>
+                        ))}
+                    </select>
+                    <input
+                      value={effectLabel}
+                      onChange={(event) => setEffectLabel(event.target.value)}
+                      placeholder="Label"
+                      className="w-32 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    <button type="submit" disabled={busy} className="rounded border border-zinc-700 px-3 py-1 disabled:opacity-50">
+                      Add effect
+                    </button>
+                  </form>
+                </div>
+              </div>
+            ) : null}
+
+            {!readOnly ? (
+              <form onSubmit={(event) => void submitAddCombatants(event)} className="space-y-3 rounded border border-zinc-800 p-3">
+                <h3 className="font-semibold">Add combatants</h3>
+                {rosterPicker(addRoster, setAddRoster)}
+                <button type="submit" disabled={busy} className="rounded border border-zinc-700 px-3 py-1 text-sm disabled:opacity-50">
+                  Add to encounter
+                </button>
+              </form>
+            ) : null}
+
+            <div className="space-y-1">
+              <h3 className="font-semibold">Log</h3>
+              <ol className="max-h-80 space-y-1 overflow-y-auto text-sm text-zinc-300">
+                {[...snapshot.log].reverse().map((entry) => (
+                  <li key={entry.id}>
+                    <span className="text-zinc-500">R{entry.round}</span> {entry.message}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
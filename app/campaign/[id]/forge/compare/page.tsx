@@ -0,0 +1,31 @@
+import { CampaignNav } from '@/app/components/CampaignNav';
+import { CampaignToolAccessDenied } from '@/app/campaign/[id]/CampaignToolAccessDenied';
+import { ForgeCompareMode } from '@/app/forge/components/ForgeCompareMode';
+import { requireUserId } from '@/lib/auth/server';
+import { requireCampaignGameDirector } from '@/lib/campaign/access';
+
+type ForgeComparePageProps = {
+  params: { id: string };
+};
+
+export default async function ForgeComparePage({ params }: ForgeComparePageProps) {
+  const { id } = await Promise.resolve(params);
+  try {
+    const userId = await requireUserId();
+    await requireCampaignGameDirector(id, userId);
+  } catch {
+    return <CampaignToolAccessDenied campaignId={id} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="w-full px-4 md:px-6 py-4 space-y-6">
+        <CampaignNav campaignId={id} />
+        <header>
+          <h1 className="text-2xl font-semibold">The Forge - Compare Mode</h1>
+        </header>
+        <ForgeCompareMode campaignId={id} />
+      </div>
+    </main>
+  );
+}
@@ -32,13 +32,19 @@ export default async function ForgePage({ params }: ForgePageProps) {
 
           <header className="space-y-1">
             <h1 className="text-2xl font-semibold">The Forge</h1>
-            <div className="mt-2">
+            <div className="mt-2 flex flex-wrap gap-2">
               <Link
                 href={`/campaign/${id}/forge/print`}
                 className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800"
               >
                 Open Print Mode
               </Link>
+              <Link
+                href={`/campaign/${id}/forge/compare`}
+                className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800"
+              >
+                Compare Items
+              </Link>
             </div>
           </header>
         </div>
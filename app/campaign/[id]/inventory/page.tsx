@@ -12,6 +12,11 @@ import {
 import { useParams, useRouter } from "next/navigation";
 
 import { CampaignNav } from "@/app/components/CampaignNav";
+import {
+  consumableChargesPerUnit,
+  totalStackCharges,
+  type ItemUsageLogView,
+} from "@/lib/campaign/consumables";
 import type { ItemRarity, ItemType } from "@/lib/forge/types";
 
 type ItemTemplateSummary = {
@@ -23,6 +28,7 @@ type ItemTemplateSummary = {
   size: string | null;
   armorLocation: string | null;
   itemLocation: string | null;
+  consumableCharges?: number | null;
   tags: string[];
 };
 
@@ -39,6 +45,7 @@ type BackpackAssignment = {
   characterId: string;
   partyInventoryItemId: string;
   quantity: number;
+  chargesRemaining: number | null;
   character: CharacterSummary;
 };
 
@@ -231,6 +238,7 @@ export default function CampaignInventoryPage() {
   const [quantityDrafts, setQuantityDrafts] = useState<Record<string, string>>({});
   const [assignmentDrafts, setAssignmentDrafts] = useState<Record<string, AssignmentDraft>>({});
   const [backpackQuantityDrafts, setBackpackQuantityDrafts] = useState<Record<string, string>>({});
+  const [usageLog, setUsageLog] = useState<ItemUsageLogView[]>([]);
 
   const canManageInventory = Boolean(
     payload?.access.permissions.canManageCampaignInventory,
@@ -367,6 +375,20 @@ export default function CampaignInventoryPage() {
     void loadInventory();
   }, [loadInventory]);
 
+  const loadUsageLog = useCallback(async () => {
+    if (!campaignId || !canManageInventory) return;
+    const res = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/item-usage`, {
+      credentials: "include",
+      cache: "no-store",
+    });
+    const data = (await res.json().catch(() => ({}))) as { usage?: ItemUsageLogView[] };
+    setUsageLog(res.ok ? (data.usage ?? []) : []);
+  }, [campaignId, canManageInventory]);
+
+  useEffect(() => {
+    void loadUsageLog();
+  }, [loadUsageLog]);
+
   useEffect(() => {
     const handlePointerDown = (event: MouseEvent) => {
       const target = event.target;
@@ -719,6 +741,30 @@ export default function CampaignInventoryPage() {
     );
   }
 
+  async function handleUseConsumable(assignment: BackpackAssignment) {
+    await runAction(
+      `use-backpack-${assignment.id}`,
+      async () => {
+        const res = await fetch(
+          `/api/campaigns/${encodeURIComponent(campaignId)}/characters/${encodeURIComponent(
+            assignment.characterId,
+          )}/backpack-use`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ backpackItemId: assignment.id, charges: 1 }),
+          },
+        );
+        if (!res.ok) {
+          throw new Error(await readApiError(res, "Failed to use consumable."));
+        }
+      },
+      "Consumable used.",
+    );
+    await loadUsageLog();
+  }
+
   async function handleRemoveBackpackAssignment(assignment: BackpackAssignment) {
     await runAction(
       `remove-backpack-${assignment.id}`,
@@ -1249,6 +1295,15 @@ export default function CampaignInventoryPage() {
                                     <div className="font-medium text-zinc-200">
                                       {getCharacterLabel(assignment.character)}
                                     </div>
+                                    {consumableChargesPerUnit(item.itemTemplate) !== null && (
+                                      <div className="mt-1 text-xs text-zinc-400">
+                                        Charges left{" "}
+                                        {totalStackCharges(
+                                          assignment,
+                                          consumableChargesPerUnit(item.itemTemplate) ?? 1,
+                                        )}
+                                      </div>
+                                    )}
                                     <div className="mt-2 flex flex-wrap gap-2">
                                       <input
                                         type="number"
@@ -1276,6 +1331,19 @@ export default function CampaignInventoryPage() {
                                       >
                                         Save
                                       </button>
+                                      {consumableChargesPerUnit(item.itemTemplate) !== null && (
+                                        <button
+                                          type="button"
+                                          onClick={() => handleUseConsumable(assignment)}
+                                          disabled={
+                                            Boolean(assignment.character.archivedAt) ||
+                                            busyKey === `use-backpack-${assignment.id}`
+                                          }
+                                          className="rounded-md border border-emerald-800 px-3 py-1 text-xs text-emerald-300 hover:bg-emerald-950/40 disabled:cursor-not-allowed disabled:opacity-50"
+                                        >
+                                          Use
+                                        </button>
+                                      )}
                                       <button
                                         type="button"
                                         onClick={() => handleRemoveBackpackAssignment(assignment)}
@@ -1356,6 +1424,37 @@ export default function CampaignInventoryPage() {
                 </table>
               </section>
             )}
+
+            {canManageInventory && (
+              <section
+                className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-4"
+                data-testid="consumable-usage-log"
+              >
+                <h2 className="text-lg font-semibold">Consumable Usage</h2>
+                {usageLog.length === 0 ? (
+                  <p className="mt-2 text-sm text-zinc-500">No consumables have been used yet.</p>
+                ) : (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {usageLog.map((entry) => (
+                      <li key={entry.id} className="flex flex-wrap gap-x-2 text-zinc-300">
+                        <span className="text-zinc-500">{new Date(entry.createdAt).toLocaleString()}</span>
+                        <span className="font-medium text-zinc-100">{entry.characterName}</span>
+                        <span>
+                          used {entry.chargesUsed} charge{entry.chargesUsed === 1 ? "" : "s"} of{" "}
+                          {entry.itemName}
+                        </span>
+                        <span className="text-zinc-500">
+                          {entry.stackConsumed
+                            ? "stack used up"
+                            : `${entry.unitsRemaining} left, ${entry.chargesRemaining} charges`}
+                        </span>
+                        {entry.note && <span className="text-zinc-400">&ldquo;{entry.note}&rdquo;</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,610 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { CampaignNav } from "@/app/components/CampaignNav";
+import {
+  LOOT_ENTRY_KINDS,
+  LOOT_ITEM_RARITIES,
+  MAX_LOOT_TABLE_ENTRIES,
+  type LootCatalogItem,
+  type LootDrop,
+  type LootEntryKind,
+  type LootTableDetail,
+  type LootTableSummary,
+} from "@/lib/campaign/lootTables";
+
+type LootMonsterOption = {
+  id: string;
+  name: string;
+  level: number;
+  lootTableId: string | null;
+};
+
+type EntryDraft = {
+  kind: LootEntryKind;
+  weight: string;
+  minQuantity: string;
+  maxQuantity: string;
+  itemTemplateId: string;
+  rarity: string;
+  tag: string;
+  subTableId: string;
+};
+
+type TableDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  rollCount: string;
+  entries: EntryDraft[];
+  monsterIds: Record<string, boolean>;
+};
+
+type RollResult = {
+  seed: number;
+  drops: LootDrop[];
+  notes: string[];
+  deposited: boolean;
+};
+
+const KIND_LABELS: Record<LootEntryKind, string> = {
+  ITEM: "Item",
+  RARITY: "Any item of rarity",
+  TAG: "Any item with tag",
+  SUB_TABLE: "Roll sub-table",
+  NOTHING: "Nothing",
+};
+
+function emptyEntry(): EntryDraft {
+  return {
+    kind: "ITEM",
+    weight: "1",
+    minQuantity: "1",
+    maxQuantity: "1",
+    itemTemplateId: "",
+    rarity: "COMMON",
+    tag: "",
+    subTableId: "",
+  };
+}
+
+function emptyDraft(): TableDraft {
+  return { id: null, name: "", description: "", rollCount: "1", entries: [emptyEntry()], monsterIds: {} };
+}
+
+function draftFromTable(table: LootTableDetail): TableDraft {
+  return {
+    id: table.id,
+    name: table.name,
+    description: table.description ?? "",
+    rollCount: String(table.rollCount),
+    entries: table.entries.map((entry) => ({
+      kind: entry.kind,
+      weight: String(entry.weight),
+      minQuantity: String(entry.minQuantity),
+      maxQuantity: String(entry.maxQuantity),
+      itemTemplateId: entry.itemTemplateId ?? "",
+      rarity: entry.rarity ?? "COMMON",
+      tag: entry.tag ?? "",
+      subTableId: entry.subTableId ?? "",
+    })),
+    monsterIds: Object.fromEntries(table.monsterIds.map((monsterId) => [monsterId, true])),
+  };
+}
+
+function draftPayload(draft: TableDraft) {
+  return {
+    name: draft.name,
+    description: draft.description,
+    rollCount: Number(draft.rollCount),
+    entries: draft.entries.map((entry) => ({
+      kind: entry.kind,
+      weight: Number(entry.weight),
+      minQuantity: Number(entry.minQuantity),
+      maxQuantity: Number(entry.maxQuantity),
+      itemTemplateId: entry.kind === "ITEM" ? entry.itemTemplateId : null,
+      rarity: entry.kind === "RARITY" ? entry.rarity : null,
+      tag: entry.kind === "TAG" ? entry.tag : null,
+      subTableId: entry.kind === "SUB_TABLE" ? entry.subTableId : null,
+    })),
+    monsterIds: Object.entries(draft.monsterIds)
+      .filter(([, selected]) => selected)
+      .map(([monsterId]) => monsterId),
+  };
+}
+
+function errorMessage(data: { error?: string }, fallback: string): string {
+  return typeof data.error === "string" && data.error.trim() ? data.error : fallback;
+}
+
+export default function CampaignLootTablesPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const campaignId = Array.isArray(params?.id) ? params.id[0] : params?.id;
+  const [lootTables, setLootTables] = useState<LootTableSummary[]>([]);
+  const [items, setItems] = useState<LootCatalogItem[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [monsters, setMonsters] = useState<LootMonsterOption[]>([]);
+  const [draft, setDraft] = useState<TableDraft>(emptyDraft);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [flash, setFlash] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [rollSeed, setRollSeed] = useState("");
+  const [rollDeposit, setRollDeposit] = useState(false);
+  const [rollResult, setRollResult] = useState<RollResult | null>(null);
+
+  const baseUrl = `/api/campaigns/${encodeURIComponent(campaignId ?? "")}/loot-tables`;
+
+  const loadLootTables = useCallback(async () => {
+    if (!campaignId) {
+      setLoadError("Missing campaign id.");
+      setLoading(false);
+      return;
+    }
+    setLoadError(null);
+    try {
+      const res = await fetch(baseUrl, { cache: "no-store" });
+      if (res.status === 401) {
+        router.push("/login");
+        return;
+      }
+      if (res.status === 403) {
+        setLoadError("Only a campaign Game Director may manage loot tables.");
+        return;
+      }
+      const data = (await res.json().catch(() => ({}))) as {
+        lootTables?: LootTableSummary[];
+        items?: LootCatalogItem[];
+        tags?: string[];
+        monsters?: LootMonsterOption[];
+        error?: string;
+      };
+      if (!res.ok) throw new Error(errorMessage(data, "Failed to load loot tables."));
+      setLootTables(data.lootTables ?? []);
+      setItems(data.items ?? []);
+      setTags(data.tags ?? []);
+      setMonsters(data.monsters ?? []);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load loot tables.");
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl, campaignId, router]);
+
+  useEffect(() => {
+    void loadLootTables();
+  }, [loadLootTables]);
+
+  async function openTable(lootTableId: string) {
+    setActionError(null);
+    setFlash(null);
+    setRollResult(null);
+    const res = await fetch(`${baseUrl}/${encodeURIComponent(lootTableId)}`, { cache: "no-store" });
+    const data = (await res.json().catch(() => ({}))) as { lootTable?: LootTableDetail; error?: string };
+    if (!res.ok || !data.lootTable) {
+      setActionError(errorMessage(data, "Failed to open the loot table."));
+      return;
+    }
+    setDraft(draftFromTable(data.lootTable));
+  }
+
+  function newTable() {
+    setActionError(null);
+    setFlash(null);
+    setRollResult(null);
+    setDraft(emptyDraft());
+  }
+
+  function updateEntry(index: number, patch: Partial<EntryDraft>) {
+    setDraft((current) => ({
+      ...current,
+      entries: current.entries.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...patch } : entry)),
+    }));
+  }
+
+  function removeEntry(index: number) {
+    setDraft((current) => ({ ...current, entries: current.entries.filter((_, entryIndex) => entryIndex !== index) }));
+  }
+
+  async function saveTable(event: FormEvent) {
+    event.preventDefault();
+    if (busy) return;
+    setBusy(true);
+    setActionError(null);
+    setFlash(null);
+    try {
+      const res = await fetch(draft.id ? `${baseUrl}/${encodeURIComponent(draft.id)}` : baseUrl, {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draftPayload(draft)),
+      });
+      const data = (await res.json().catch(() => ({}))) as { lootTable?: LootTableDetail; error?: string };
+      if (!res.ok || !data.lootTable) {
+        setActionError(errorMessage(data, "Failed to save the loot table."));
+        return;
+      }
+      setDraft(draftFromTable(data.lootTable));
+      setFlash("Saved loot table.");
+      await loadLootTables();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteTable() {
+    if (!draft.id || busy) return;
+    if (!window.confirm("Delete this loot table? Monsters linked to it will stop dropping loot.")) return;
+    setBusy(true);
+    setActionError(null);
+    setFlash(null);
+    try {
+      const res = await fetch(`${baseUrl}/${encodeURIComponent(draft.id)}`, { method: "DELETE" });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setActionError(errorMessage(data, "Failed to delete the loot table."));
+        return;
+      }
+      setDraft(emptyDraft());
+      setRollResult(null);
+      await loadLootTables();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function rollTable() {
+    if (!draft.id || busy) return;
+    setBusy(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`${baseUrl}/${encodeURIComponent(draft.id)}/roll`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          seed: rollSeed.trim() === "" ? undefined : Number(rollSeed),
+          deposit: rollDeposit,
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as Partial<RollResult> & { error?: string };
+      if (!res.ok || !Array.isArray(data.drops)) {
+        setActionError(errorMessage(data, "Failed to roll the loot table."));
+        return;
+      }
+      setRollResult(data as RollResult);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-6xl text-zinc-400">Loading loot tables...</div>
+      </main>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-3xl space-y-4">
+          {campaignId ? <CampaignNav campaignId={campaignId} /> : null}
+          <h1 className="text-2xl font-semibold">Loot Tables</h1>
+          <p className="text-red-300" role="alert">{loadError}</p>
+          <button
+            type="button"
+            onClick={() => router.replace(`/campaign/${campaignId ?? ""}`)}
+            className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900"
+          >
+            Back to campaign
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const otherTables = lootTables.filter((table) => table.id !== draft.id);
+
+  return (
+    <main className="min-h-screen bg-black p-6 text-zinc-100">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <CampaignNav campaignId={campaignId ?? ""} />
+
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Loot Tables</h1>
+          <p className="max-w-4xl text-sm text-zinc-400">
+            Weighted tables of campaign items. Entries can name an item, pick any item of a rarity or tag, or roll
+            another table. Link monsters to a table and their drops are rolled when an encounter is completed.
+          </p>
+        </header>
+
+        {actionError ? (
+          <p className="rounded border border-red-800 bg-red-950/25 p-3 text-sm text-red-200" role="alert">
+            {actionError}
+          </p>
+        ) : null}
+        {flash ? (
+          <p className="rounded border border-emerald-700 bg-emerald-950/30 p-3 text-sm text-emerald-200">{flash}</p>
+        ) : null}
+
+        <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+          <section className="space-y-2" aria-labelledby="loot-table-list-heading">
+            <div className="flex items-center justify-between">
+              <h2 id="loot-table-list-heading" className="text-xl font-semibold">Tables</h2>
+              <button type="button" onClick={newTable} className="text-sm underline">
+                New
+              </button>
+            </div>
+            {lootTables.length === 0 ? <p className="text-sm text-zinc-400">No loot tables yet.</p> : null}
+            <ul className="space-y-1 text-sm">
+              {lootTables.map((table) => (
+                <li key={table.id}>
+                  <button
+                    type="button"
+                    onClick={() => void openTable(table.id)}
+                    className={`w-full rounded border px-2 py-1 text-left ${
+                      draft.id === table.id ? "border-sky-700 bg-zinc-900" : "border-zinc-800 hover:bg-zinc-900"
+                    }`}
+                  >
+                    <span className="block">{table.name}</span>
+                    <span className="text-xs text-zinc-500">
+                      {table.entryCount} entries · {table.monsterCount} monsters
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <div className="space-y-4">
+            <form onSubmit={(event) => void saveTable(event)} className="space-y-3 rounded-xl border border-zinc-800 p-4">
+              <h2 className="text-xl font-semibold">{draft.id ? "Edit loot table" : "New loot table"}</h2>
+              <div className="grid gap-2 sm:grid-cols-[1fr_8rem]">
+                <label className="space-y-1 text-sm">
+                  <span className="text-zinc-400">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                    maxLength={120}
+                    className="w-full rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                </label>
+                <label className="space-y-1 text-sm">
+                  <span className="text-zinc-400">Rolls</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={draft.rollCount}
+                    onChange={(event) => setDraft({ ...draft, rollCount: event.target.value })}
+                    className="w-full rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                </label>
+              </div>
+              <textarea
+                value={draft.description}
+                onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                placeholder="Description (optional)"
+                className="min-h-16 w-full rounded border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm"
+              />
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm text-zinc-400">Entries (weight, quantity range)</legend>
+                {draft.entries.map((entry, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                      value={entry.kind}
+                      onChange={(event) => updateEntry(index, { kind: event.target.value as LootEntryKind })}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    >
+                      {LOOT_ENTRY_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                    {entry.kind === "ITEM" ? (
+                      <select
+                        value={entry.itemTemplateId}
+                        onChange={(event) => updateEntry(index, { itemTemplateId: event.target.value })}
+                        className="min-w-40 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                      >
+                        <option value="">Choose an item</option>
+                        {items.map((item) => (
+                          <option key={item.id} value={item.id}>{item.name} ({item.rarity})</option>
+                        ))}
+                      </select>
+                    ) : null}
+                    {entry.kind === "RARITY" ? (
+                      <select
+                        value={entry.rarity}
+                        onChange={(event) => updateEntry(index, { rarity: event.target.value })}
+                        className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                      >
+                        {LOOT_ITEM_RARITIES.map((rarity) => (
+                          <option key={rarity} value={rarity}>{rarity}</option>
+                        ))}
+                      </select>
+                    ) : null}
+                    {entry.kind === "TAG" ? (
+                      <input
+                        value={entry.tag}
+                        onChange={(event) => updateEntry(index, { tag: event.target.value })}
+                        list="loot-table-tags"
+                        placeholder="Tag"
+                        className="w-36 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                      />
+                    ) : null}
+                    {entry.kind === "SUB_TABLE" ? (
+                      <select
+                        value={entry.subTableId}
+                        onChange={(event) => updateEntry(index, { subTableId: event.target.value })}
+                        className="min-w-40 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                      >
+                        <option value="">Choose a table</option>
+                        {otherTables.map((table) => (
+                          <option key={table.id} value={table.id}>{table.name}</option>
+                        ))}
+                      </select>
+                    ) : null}
+                    <input
+                      type="number"
+                      min={1}
+                      value={entry.weight}
+                      onChange={(event) => updateEntry(index, { weight: event.target.value })}
+                      title="Weight"
+                      className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                    {entry.kind !== "NOTHING" ? (
+                      <>
+                        <input
+                          type="number"
+                          min={1}
+                          value={entry.minQuantity}
+                          onChange={(event) => updateEntry(index, { minQuantity: event.target.value })}
+                          title="Minimum quantity"
+                          className="w-14 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                        />
+                        <span className="text-zinc-500">to</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={entry.maxQuantity}
+                          onChange={(event) => updateEntry(index, { maxQuantity: event.target.value })}
+                          title="Maximum quantity"
+                          className="w-14 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                        />
+                      </>
+                    ) : null}
+                    <button
+                      type="button"
+                      onClick={() => removeEntry(index)}
+                      disabled={draft.entries.length <= 1}
+                      className="text-red-300 underline disabled:opacity-40"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <datalist id="loot-table-tags">
+                  {tags.map((tag) => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, entries: [...draft.entries, emptyEntry()] })}
+                  disabled={draft.entries.length >= MAX_LOOT_TABLE_ENTRIES}
+                  className="text-sm underline disabled:opacity-40"
+                >
+                  Add entry
+                </button>
+              </fieldset>
+
+              <fieldset className="space-y-1">
+                <legend className="text-sm text-zinc-400">Monsters that drop from this table</legend>
+                {monsters.length === 0 ? <p className="text-sm text-zinc-500">No campaign monsters.</p> : null}
+                <div className="grid gap-1 sm:grid-cols-2">
+                  {monsters.map((monster) => (
+                    <label key={monster.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(draft.monsterIds[monster.id])}
+                        onChange={(event) =>
+                          setDraft({ ...draft, monsterIds: { ...draft.monsterIds, [monster.id]: event.target.checked } })
+                        }
+                      />
+                      {monster.name} (L{monster.level})
+                      {monster.lootTableId && monster.lootTableId !== draft.id ? (
+                        <span className="text-xs text-amber-300">
+                          uses {lootTables.find((table) => table.id === monster.lootTableId)?.name ?? "another table"}
+                        </span>
+                      ) : null}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="rounded border border-sky-700 px-4 py-2 hover:bg-sky-950 disabled:opacity-50"
+                >
+                  Save
+                </button>
+                {draft.id ? (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void deleteTable()}
+                    className="rounded border border-red-800 px-4 py-2 text-red-200 hover:bg-red-950/30 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                ) : null}
+              </div>
+            </form>
+
+            {draft.id ? (
+              <section className="space-y-2 rounded-xl border border-zinc-800 p-4 text-sm" aria-labelledby="loot-roll-heading">
+                <h2 id="loot-roll-heading" className="text-xl font-semibold">Roll loot</h2>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={rollSeed}
+                    onChange={(event) => setRollSeed(event.target.value)}
+                    placeholder="Seed (optional)"
+                    className="w-36 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rollDeposit}
+                      onChange={(event) => setRollDeposit(event.target.checked)}
+                    />
+                    Add to party inventory
+                  </label>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void rollTable()}
+                    className="rounded border border-emerald-700 px-3 py-1 hover:bg-emerald-950 disabled:opacity-50"
+                  >
+                    Roll
+                  </button>
+                </div>
+                {rollResult ? (
+                  <div className="space-y-1">
+                    <p className="text-xs text-zinc-400">
+                      Seed {rollResult.seed}
+                      {rollResult.deposited ? " · added to party inventory" : ""}
+                    </p>
+                    {rollResult.drops.length === 0 ? <p className="text-zinc-400">Nothing dropped.</p> : null}
+                    <ul className="space-y-1">
+                      {rollResult.drops.map((drop) => (
+                        <li key={drop.itemTemplateId}>
+                          {drop.quantity} x {drop.name} <span className="text-zinc-500">({drop.rarity})</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {rollResult.notes.length > 0 ? (
+                      <ul className="list-disc pl-5 text-xs text-amber-200">
+                        {rollResult.notes.map((note) => (
+                          <li key={note}>{note}</li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                ) : null}
+              </section>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,808 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { CampaignNav } from "@/app/components/CampaignNav";
+import {
+  MAX_PURCHASE_QUANTITY,
+  MAX_SHOP_ITEMS,
+  type ItemPricingRule,
+  type ShopView,
+  type WalletOverview,
+} from "@/lib/campaign/economy";
+
+type ItemTemplateOption = {
+  id: string;
+  name: string;
+  rarity: string;
+  level: number;
+  type: string;
+};
+
+type BackpackRow = {
+  id: string;
+  quantity: number;
+  partyInventoryItem: { itemTemplate: { id: string; name: string } };
+};
+
+type ShopItemDraft = {
+  itemTemplateId: string;
+  priceOverride: string;
+  stock: string;
+};
+
+type ShopDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  isOpen: boolean;
+  items: ShopItemDraft[];
+};
+
+type PricingDraft = {
+  basePrice: string;
+  pricePerFp: string;
+  levelStep: string;
+  sellRatio: string;
+  rarityMultipliers: Record<string, string>;
+};
+
+type TradeDraft = {
+  characterId: string;
+  quantity: string;
+  payFrom: "purse" | "party";
+};
+
+function emptyShopDraft(): ShopDraft {
+  return { id: null, name: "", description: "", isOpen: true, items: [] };
+}
+
+function draftFromShop(shop: ShopView): ShopDraft {
+  return {
+    id: shop.id,
+    name: shop.name,
+    description: shop.description ?? "",
+    isOpen: shop.isOpen,
+    items: shop.items.map((item) => ({
+      itemTemplateId: item.itemTemplateId,
+      priceOverride: item.priceOverride === null ? "" : String(item.priceOverride),
+      stock: item.stock === null ? "" : String(item.stock),
+    })),
+  };
+}
+
+function shopPayload(draft: ShopDraft) {
+  return {
+    name: draft.name,
+    description: draft.description,
+    isOpen: draft.isOpen,
+    items: draft.items.map((item) => ({
+      itemTemplateId: item.itemTemplateId,
+      priceOverride: item.priceOverride.trim() === "" ? null : Number(item.priceOverride),
+      stock: item.stock.trim() === "" ? null : Number(item.stock),
+    })),
+  };
+}
+
+function pricingDraftFromRule(rule: ItemPricingRule): PricingDraft {
+  return {
+    basePrice: String(rule.basePrice),
+    pricePerFp: String(rule.pricePerFp),
+    levelStep: String(rule.levelStep),
+    sellRatio: String(rule.sellRatio),
+    rarityMultipliers: Object.fromEntries(
+      Object.entries(rule.rarityMultipliers).map(([rarity, multiplier]) => [rarity, String(multiplier)]),
+    ),
+  };
+}
+
+function walletLabel(wallet: WalletOverview, characterId: string | null): string {
+  if (characterId === null) return "Party funds";
+  return wallet.purses.find((purse) => purse.characterId === characterId)?.name ?? "Former character";
+}
+
+function errorMessage(data: { error?: string }, fallback: string): string {
+  return typeof data.error === "string" && data.error.trim() ? data.error : fallback;
+}
+
+export default function CampaignShopsPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const campaignId = Array.isArray(params?.id) ? params.id[0] : params?.id;
+  const [wallet, setWallet] = useState<WalletOverview | null>(null);
+  const [shops, setShops] = useState<ShopView[]>([]);
+  const [itemTemplates, setItemTemplates] = useState<ItemTemplateOption[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [flash, setFlash] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [shopDraft, setShopDraft] = useState<ShopDraft | null>(null);
+  const [pricingDraft, setPricingDraft] = useState<PricingDraft | null>(null);
+  const [currencyDraft, setCurrencyDraft] = useState("");
+  const [adjustDraft, setAdjustDraft] = useState({ wallet: "party", amount: "", note: "" });
+  const [transferDraft, setTransferDraft] = useState({ from: "", to: "party", amount: "", note: "" });
+  const [trade, setTrade] = useState<TradeDraft>({ characterId: "", quantity: "1", payFrom: "purse" });
+  const [backpack, setBackpack] = useState<BackpackRow[]>([]);
+
+  const campaignUrl = `/api/campaigns/${encodeURIComponent(campaignId ?? "")}`;
+
+  const loadEconomy = useCallback(async () => {
+    if (!campaignId) {
+      setLoadError("Missing campaign id.");
+      setLoading(false);
+      return;
+    }
+    setLoadError(null);
+    try {
+      const [walletRes, shopsRes] = await Promise.all([
+        fetch(`${campaignUrl}/wallet`, { cache: "no-store" }),
+        fetch(`${campaignUrl}/shops`, { cache: "no-store" }),
+      ]);
+      if (walletRes.status === 401 || shopsRes.status === 401) {
+        router.push("/login");
+        return;
+      }
+      const walletData = (await walletRes.json().catch(() => ({}))) as {
+        wallet?: WalletOverview;
+        canManage?: boolean;
+        error?: string;
+      };
+      const shopsData = (await shopsRes.json().catch(() => ({}))) as {
+        shops?: ShopView[];
+        itemTemplates?: ItemTemplateOption[];
+        error?: string;
+      };
+      if (!walletRes.ok || !walletData.wallet) throw new Error(errorMessage(walletData, "Failed to load the wallet."));
+      if (!shopsRes.ok) throw new Error(errorMessage(shopsData, "Failed to load shops."));
+      setWallet(walletData.wallet);
+      setCanManage(Boolean(walletData.canManage));
+      setShops(shopsData.shops ?? []);
+      setItemTemplates(shopsData.itemTemplates ?? []);
+      setTrade((current) =>
+        current.characterId || walletData.wallet!.purses.length === 0
+          ? current
+          : { ...current, characterId: walletData.wallet!.purses[0].characterId },
+      );
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load shops.");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId, campaignUrl, router]);
+
+  useEffect(() => {
+    void loadEconomy();
+  }, [loadEconomy]);
+
+  const loadBackpack = useCallback(async () => {
+    if (!trade.characterId) {
+      setBackpack([]);
+      return;
+    }
+    const res = await fetch(`${campaignUrl}/characters/${encodeURIComponent(trade.characterId)}/backpack`, {
+      cache: "no-store",
+    });
+    const data = (await res.json().catch(() => ({}))) as { backpackItems?: BackpackRow[] };
+    setBackpack(res.ok ? (data.backpackItems ?? []) : []);
+  }, [campaignUrl, trade.characterId]);
+
+  useEffect(() => {
+    void loadBackpack();
+  }, [loadBackpack]);
+
+  // Runs one mutating request; on success shows `success` and reloads wallet, shops and backpack.
+  async function submit(url: string, init: RequestInit, success: string, fallback: string) {
+    if (busy) return false;
+    setBusy(true);
+    setActionError(null);
+    setFlash(null);
+    try {
+      const res = await fetch(url, { headers: { "Content-Type": "application/json" }, ...init });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setActionError(errorMessage(data, fallback));
+        return false;
+      }
+      setFlash(success);
+      await Promise.all([loadEconomy(), loadBackpack()]);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function adjustFunds(event: FormEvent) {
+    event.preventDefault();
+    const saved = await submit(
+      `${campaignUrl}/wallet`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          action: "adjust",
+          wallet: adjustDraft.wallet,
+          amount: Number(adjustDraft.amount),
+          note: adjustDraft.note,
+        }),
+      },
+      "Wallet adjusted.",
+      "Failed to adjust the wallet.",
+    );
+    if (saved) setAdjustDraft({ ...adjustDraft, amount: "", note: "" });
+  }
+
+  async function transferFunds(event: FormEvent) {
+    event.preventDefault();
+    const saved = await submit(
+      `${campaignUrl}/wallet`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          action: "transfer",
+          from: transferDraft.from,
+          to: transferDraft.to,
+          amount: Number(transferDraft.amount),
+          note: transferDraft.note,
+        }),
+      },
+      "Funds transferred.",
+      "Failed to transfer funds.",
+    );
+    if (saved) setTransferDraft({ ...transferDraft, amount: "", note: "" });
+  }
+
+  async function saveSettings(event: FormEvent) {
+    event.preventDefault();
+    if (!pricingDraft) return;
+    const saved = await submit(
+      `${campaignUrl}/wallet`,
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          currencyName: currencyDraft,
+          pricingRule: {
+            basePrice: Number(pricingDraft.basePrice),
+            pricePerFp: Number(pricingDraft.pricePerFp),
+            levelStep: Number(pricingDraft.levelStep),
+            sellRatio: Number(pricingDraft.sellRatio),
+            rarityMultipliers: Object.fromEntries(
+              Object.entries(pricingDraft.rarityMultipliers).map(([rarity, value]) => [rarity, Number(value)]),
+            ),
+          },
+        }),
+      },
+      "Saved pricing settings.",
+      "Failed to save pricing settings.",
+    );
+    if (saved) setPricingDraft(null);
+  }
+
+  async function buyItem(shopItemId: string) {
+    if (!trade.characterId) return;
+    await submit(
+      `${campaignUrl}/characters/${encodeURIComponent(trade.characterId)}/backpack`,
+      {
+        method: "POST",
+        body: JSON.stringify({ quantity: Number(trade.quantity), purchase: { shopItemId, payFrom: trade.payFrom } }),
+      },
+      "Bought into the backpack.",
+      "Failed to buy the item.",
+    );
+  }
+
+  async function sellItem(shopId: string, backpackItemId: string) {
+    if (!trade.characterId) return;
+    await submit(
+      `${campaignUrl}/shops/${encodeURIComponent(shopId)}/sell`,
+      {
+        method: "POST",
+        body: JSON.stringify({ characterId: trade.characterId, backpackItemId, quantity: Number(trade.quantity) }),
+      },
+      "Sold from the backpack.",
+      "Failed to sell the item.",
+    );
+  }
+
+  async function saveShop(event: FormEvent) {
+    event.preventDefault();
+    if (!shopDraft) return;
+    const url = shopDraft.id ? `${campaignUrl}/shops/${encodeURIComponent(shopDraft.id)}` : `${campaignUrl}/shops`;
+    const saved = await submit(
+      url,
+      { method: shopDraft.id ? "PUT" : "POST", body: JSON.stringify(shopPayload(shopDraft)) },
+      "Saved shop.",
+      "Failed to save the shop.",
+    );
+    if (saved) setShopDraft(null);
+  }
+
+  async function deleteShop() {
+    if (!shopDraft?.id) return;
+    if (!window.confirm("Delete this shop? Its ledger entries are kept.")) return;
+    const deleted = await submit(
+      `${campaignUrl}/shops/${encodeURIComponent(shopDraft.id)}`,
+      { method: "DELETE" },
+      "Deleted shop.",
+      "Failed to delete the shop.",
+    );
+    if (deleted) setShopDraft(null);
+  }
+
+  function updateShopItem(index: number, patch: Partial<ShopItemDraft>) {
+    setShopDraft((current) =>
+      current
+        ? {
+            ...current,
+            items: current.items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item)),
+          }
+        : current,
+    );
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-6xl text-zinc-400">Loading shops...</div>
+      </main>
+    );
+  }
+
+  if (loadError || !wallet) {
+    return (
+      <main className="min-h-screen bg-black p-6 text-zinc-100">
+        <div className="mx-auto max-w-3xl space-y-4">
+          {campaignId ? <CampaignNav campaignId={campaignId} /> : null}
+          <h1 className="text-2xl font-semibold">Shops</h1>
+          <p className="text-red-300" role="alert">{loadError ?? "Failed to load shops."}</p>
+          <button
+            type="button"
+            onClick={() => router.replace(`/campaign/${campaignId ?? ""}`)}
+            className="rounded border border-zinc-700 px-4 py-2 hover:bg-zinc-900"
+          >
+            Back to campaign
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const currency = wallet.currencyName;
+  const walletOptions = [
+    { value: "party", label: "Party funds" },
+    ...wallet.purses.map((purse) => ({ value: purse.characterId, label: purse.name })),
+  ];
+
+  return (
+    <main className="min-h-screen bg-black p-6 text-zinc-100">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <CampaignNav campaignId={campaignId ?? ""} />
+
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Shops</h1>
+          <p className="max-w-4xl text-sm text-zinc-400">
+            Buy items into a character&apos;s backpack and sell them back. Prices come from each item&apos;s Forge
+            spend under the campaign pricing rule unless a shop sets its own.
+          </p>
+        </header>
+
+        {actionError ? (
+          <p className="rounded border border-red-800 bg-red-950/25 p-3 text-sm text-red-200" role="alert">
+            {actionError}
+          </p>
+        ) : null}
+        {flash ? (
+          <p className="rounded border border-emerald-700 bg-emerald-950/30 p-3 text-sm text-emerald-200">{flash}</p>
+        ) : null}
+
+        <section className="space-y-3 rounded-xl border border-zinc-800 p-4" aria-labelledby="wallet-heading">
+          <h2 id="wallet-heading" className="text-xl font-semibold">Wallets</h2>
+          <ul className="grid gap-2 text-sm sm:grid-cols-3">
+            <li className="rounded border border-zinc-800 p-2">
+              <span className="block text-zinc-400">Party funds</span>
+              {wallet.partyFunds} {currency}
+            </li>
+            {wallet.purses.map((purse) => (
+              <li key={purse.characterId} className="rounded border border-zinc-800 p-2">
+                <span className="block text-zinc-400">{purse.name}</span>
+                {purse.purse} {currency}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={(event) => void transferFunds(event)} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-zinc-400">Transfer</span>
+            <select
+              value={transferDraft.from}
+              onChange={(event) => setTransferDraft({ ...transferDraft, from: event.target.value })}
+              className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            >
+              <option value="">From...</option>
+              {walletOptions
+                .filter((option) => canManage || option.value !== "party")
+                .map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+            <select
+              value={transferDraft.to}
+              onChange={(event) => setTransferDraft({ ...transferDraft, to: event.target.value })}
+              className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            >
+              {walletOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={transferDraft.amount}
+              onChange={(event) => setTransferDraft({ ...transferDraft, amount: event.target.value })}
+              placeholder="Amount"
+              className="w-24 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            />
+            <input
+              value={transferDraft.note}
+              onChange={(event) => setTransferDraft({ ...transferDraft, note: event.target.value })}
+              placeholder="Note (optional)"
+              className="w-48 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            />
+            <button
+              type="submit"
+              disabled={busy || !transferDraft.from}
+              className="rounded border border-sky-700 px-3 py-1 hover:bg-sky-950 disabled:opacity-50"
+            >
+              Transfer
+            </button>
+          </form>
+
+          {canManage ? (
+            <form onSubmit={(event) => void adjustFunds(event)} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-zinc-400">Grant or deduct</span>
+              <select
+                value={adjustDraft.wallet}
+                onChange={(event) => setAdjustDraft({ ...adjustDraft, wallet: event.target.value })}
+                className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              >
+                {walletOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={adjustDraft.amount}
+                onChange={(event) => setAdjustDraft({ ...adjustDraft, amount: event.target.value })}
+                placeholder="+/- amount"
+                className="w-28 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              />
+              <input
+                value={adjustDraft.note}
+                onChange={(event) => setAdjustDraft({ ...adjustDraft, note: event.target.value })}
+                placeholder="Note (optional)"
+                className="w-48 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded border border-emerald-700 px-3 py-1 hover:bg-emerald-950 disabled:opacity-50"
+              >
+                Apply
+              </button>
+              {!pricingDraft ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCurrencyDraft(wallet.currencyName);
+                    setPricingDraft(pricingDraftFromRule(wallet.pricingRule));
+                  }}
+                  className="ml-auto underline"
+                >
+                  Pricing settings
+                </button>
+              ) : null}
+            </form>
+          ) : null}
+
+          {canManage && pricingDraft ? (
+            <form onSubmit={(event) => void saveSettings(event)} className="space-y-2 rounded border border-zinc-800 p-3 text-sm">
+              <h3 className="font-semibold">Pricing settings</h3>
+              <p className="text-xs text-zinc-500">
+                Buy price = (base + Forge spend x price per FP) x rarity multiplier x (1 + level step x (level - 1)).
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <label className="space-y-1">
+                  <span className="block text-zinc-400">Currency</span>
+                  <input
+                    value={currencyDraft}
+                    onChange={(event) => setCurrencyDraft(event.target.value)}
+                    maxLength={24}
+                    className="w-28 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                </label>
+                {(["basePrice", "pricePerFp", "levelStep", "sellRatio"] as const).map((field) => (
+                  <label key={field} className="space-y-1">
+                    <span className="block text-zinc-400">{field}</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min={0}
+                      value={pricingDraft[field]}
+                      onChange={(event) => setPricingDraft({ ...pricingDraft, [field]: event.target.value })}
+                      className="w-24 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                  </label>
+                ))}
+                {Object.entries(pricingDraft.rarityMultipliers).map(([rarity, value]) => (
+                  <label key={rarity} className="space-y-1">
+                    <span className="block text-zinc-400">{rarity} x</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min={0}
+                      value={value}
+                      onChange={(event) =>
+                        setPricingDraft({
+                          ...pricingDraft,
+                          rarityMultipliers: { ...pricingDraft.rarityMultipliers, [rarity]: event.target.value },
+                        })
+                      }
+                      className="w-20 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="rounded border border-sky-700 px-3 py-1 hover:bg-sky-950 disabled:opacity-50"
+                >
+                  Save settings
+                </button>
+                <button type="button" onClick={() => setPricingDraft(null)} className="underline">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : null}
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-zinc-400">Ledger ({wallet.transactions.length})</summary>
+            {wallet.transactions.length === 0 ? <p className="mt-2 text-zinc-500">No transactions yet.</p> : null}
+            <ul className="mt-2 space-y-1">
+              {wallet.transactions.map((row) => (
+                <li key={row.id} className="flex flex-wrap gap-x-2">
+                  <span className="text-zinc-500">{new Date(row.createdAt).toLocaleString()}</span>
+                  <span>{walletLabel(wallet, row.characterId)}</span>
+                  <span className={row.amount < 0 ? "text-red-300" : "text-emerald-300"}>
+                    {row.amount > 0 ? "+" : ""}
+                    {row.amount}
+                  </span>
+                  <span className="text-zinc-400">{row.kind.toLowerCase()}</span>
+                  {row.itemName ? (
+                    <span>
+                      {row.quantity ?? 1} x {row.itemName}
+                      {row.shopName ? ` at ${row.shopName}` : ""}
+                    </span>
+                  ) : null}
+                  {row.note ? <span className="text-zinc-400">&ldquo;{row.note}&rdquo;</span> : null}
+                  <span className="text-zinc-500">balance {row.balanceAfter}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </section>
+
+        <section className="space-y-3" aria-labelledby="shops-heading">
+          <div className="flex flex-wrap items-center gap-3">
+            <h2 id="shops-heading" className="text-xl font-semibold">Shops</h2>
+            <label className="flex items-center gap-1 text-sm">
+              <span className="text-zinc-400">Trading as</span>
+              <select
+                value={trade.characterId}
+                onChange={(event) => setTrade({ ...trade, characterId: event.target.value })}
+                className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              >
+                {wallet.purses.length === 0 ? <option value="">No characters</option> : null}
+                {wallet.purses.map((purse) => (
+                  <option key={purse.characterId} value={purse.characterId}>{purse.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1 text-sm">
+              <span className="text-zinc-400">Qty</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_PURCHASE_QUANTITY}
+                value={trade.quantity}
+                onChange={(event) => setTrade({ ...trade, quantity: event.target.value })}
+                className="w-16 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm">
+              <span className="text-zinc-400">Pay from</span>
+              <select
+                value={trade.payFrom}
+                onChange={(event) => setTrade({ ...trade, payFrom: event.target.value as TradeDraft["payFrom"] })}
+                className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              >
+                <option value="purse">Character purse</option>
+                {canManage ? <option value="party">Party funds</option> : null}
+              </select>
+            </label>
+            {canManage ? (
+              <button type="button" onClick={() => setShopDraft(emptyShopDraft())} className="ml-auto text-sm underline">
+                New shop
+              </button>
+            ) : null}
+          </div>
+
+          {shops.length === 0 ? <p className="text-sm text-zinc-400">No shops are open.</p> : null}
+          {shops.map((shop) => (
+            <article key={shop.id} className="space-y-2 rounded-xl border border-zinc-800 p-4 text-sm">
+              <div className="flex items-center gap-2">
+                <h3 className="text-lg font-semibold">{shop.name}</h3>
+                {!shop.isOpen ? <span className="text-xs text-amber-300">closed</span> : null}
+                {canManage ? (
+                  <button type="button" onClick={() => setShopDraft(draftFromShop(shop))} className="ml-auto underline">
+                    Edit
+                  </button>
+                ) : null}
+              </div>
+              {shop.description ? <p className="text-zinc-400">{shop.description}</p> : null}
+              {shop.items.length === 0 ? <p className="text-zinc-500">Nothing for sale.</p> : null}
+              <ul className="space-y-1">
+                {shop.items.map((item) => (
+                  <li key={item.id} className="flex flex-wrap items-center gap-2">
+                    <span>
+                      {item.name} <span className="text-zinc-500">({item.rarity} · L{item.level})</span>
+                    </span>
+                    <span>
+                      {item.price} {currency}
+                    </span>
+                    <span className="text-zinc-500">buys back at {item.sellPrice}</span>
+                    {item.stock !== null ? <span className="text-zinc-500">{item.stock} in stock</span> : null}
+                    <button
+                      type="button"
+                      disabled={busy || !shop.isOpen || !trade.characterId || item.stock === 0}
+                      onClick={() => void buyItem(item.id)}
+                      className="rounded border border-emerald-700 px-2 py-0.5 hover:bg-emerald-950 disabled:opacity-50"
+                    >
+                      Buy
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {shop.isOpen && backpack.length > 0 ? (
+                <div className="flex flex-wrap items-center gap-2 border-t border-zinc-800 pt-2">
+                  <span className="text-zinc-400">Sell:</span>
+                  {backpack.map((row) => (
+                    <button
+                      key={row.id}
+                      type="button"
+                      disabled={busy}
+                      onClick={() => void sellItem(shop.id, row.id)}
+                      className="rounded border border-zinc-700 px-2 py-0.5 hover:bg-zinc-900 disabled:opacity-50"
+                    >
+                      {row.partyInventoryItem.itemTemplate.name} ({row.quantity})
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </article>
+          ))}
+        </section>
+
+        {canManage && shopDraft ? (
+          <form onSubmit={(event) => void saveShop(event)} className="space-y-3 rounded-xl border border-zinc-800 p-4 text-sm">
+            <h2 className="text-xl font-semibold">{shopDraft.id ? "Edit shop" : "New shop"}</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={shopDraft.name}
+                onChange={(event) => setShopDraft({ ...shopDraft, name: event.target.value })}
+                placeholder="Name"
+                maxLength={120}
+                className="w-64 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={shopDraft.isOpen}
+                  onChange={(event) => setShopDraft({ ...shopDraft, isOpen: event.target.checked })}
+                />
+                Open to players
+              </label>
+            </div>
+            <textarea
+              value={shopDraft.description}
+              onChange={(event) => setShopDraft({ ...shopDraft, description: event.target.value })}
+              placeholder="Description (optional)"
+              className="min-h-16 w-full rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+            />
+            <fieldset className="space-y-2">
+              <legend className="text-zinc-400">Stock (blank price uses the pricing rule; blank stock never runs out)</legend>
+              {shopDraft.items.map((item, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={item.itemTemplateId}
+                    onChange={(event) => updateShopItem(index, { itemTemplateId: event.target.value })}
+                    className="min-w-48 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  >
+                    <option value="">Choose an item</option>
+                    {itemTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} ({template.rarity})
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={item.priceOverride}
+                    onChange={(event) => updateShopItem(index, { priceOverride: event.target.value })}
+                    placeholder="Price"
+                    className="w-24 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={item.stock}
+                    onChange={(event) => updateShopItem(index, { stock: event.target.value })}
+                    placeholder="Stock"
+                    className="w-20 rounded border border-zinc-700 bg-zinc-950 px-2 py-1"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setShopDraft({ ...shopDraft, items: shopDraft.items.filter((_, itemIndex) => itemIndex !== index) })
+                    }
+                    className="text-red-300 underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setShopDraft({
+                    ...shopDraft,
+                    items: [...shopDraft.items, { itemTemplateId: "", priceOverride: "", stock: "" }],
+                  })
+                }
+                disabled={shopDraft.items.length >= MAX_SHOP_ITEMS}
+                className="underline disabled:opacity-40"
+              >
+                Add item
+              </button>
+            </fieldset>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded border border-sky-700 px-4 py-2 hover:bg-sky-950 disabled:opacity-50"
+              >
+                Save shop
+              </button>
+              {shopDraft.id ? (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void deleteShop()}
+                  className="rounded border border-red-800 px-4 py-2 text-red-200 hover:bg-red-950/30 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              ) : null}
+              <button type="button" onClick={() => setShopDraft(null)} className="underline">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : null}
+      </div>
+    </main>
+  );
+}
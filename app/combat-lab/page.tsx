@@ -2,8 +2,35 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 
+import {
+  compareSuiteReports,
+  type CombatLabRunHistoryEntry,
+  type CombatLabRunRecord,
+  type CombatReportComparison,
+  type CombatReportMetricDelta,
+} from "@/lib/combat-lab/runHistory";
+import {
+  COMBAT_AI_POLICIES,
+  COMBAT_AI_POLICY_DESCRIPTIONS,
+  COMBAT_AI_POLICY_LABELS,
+} from "@/lib/combat-lab/aiPolicies";
+import type {
+  CombatAiPolicy,
+  CombatConfidenceInterval,
+  CombatObjectiveSuiteSummary,
+  CombatSuiteConfidence,
+  CombatSuiteConvergence,
+  CombatTranscriptActorSnapshot,
+} from "@/lib/combat-lab/types";
+import type { CombatSweepAxisKind, CombatSweepCell, CombatSweepResult, CombatSweepValue } from "@/lib/combat-lab/sweep";
+import type { ExchangeDefenceMode, ExchangeOdds } from "@/lib/combat-lab/exchangeOdds";
+import type { CombatReplay } from "@/lib/combat-lab/replay";
+import { presetRunRequestBody, type CombatLabScenarioPreset } from "@/lib/combat-lab/scenarioPresets";
+import { COMBAT_TUNING_CONFIG_KEY_ORDER } from "@/lib/config/combatTuningShared";
+
 type CampaignOption = { id: string; name: string };
 type CombatTurnOrder = "playersFirst" | "monstersFirst" | "alternatingByRound" | "randomSeeded";
+type CombatPositioningMode = "abstract" | "grid";
 type CombatantOption = {
   id: string;
   name: string;
@@ -19,8 +46,43 @@ type RosterPayload = {
 };
 
 const MONSTER_LEVEL_FILTER_OPTIONS = Array.from({ length: 20 }, (_, index) => index + 1);
+const MAX_SWEEP_AXES = 3;
+const SWEEP_AXIS_LABELS: Record<CombatSweepAxisKind, string> = {
+  monsterLevel: "Monster level",
+  monsterQuantity: "Monsters per group",
+  partySize: "Party size",
+  turnOrder: "Turn order",
+  combatTuning: "Combat tuning value",
+};
+const SWEEP_AXIS_DEFAULT_VALUES: Record<CombatSweepAxisKind, string> = {
+  monsterLevel: "1, 3, 5, 7",
+  monsterQuantity: "1, 2, 3, 4",
+  partySize: "2, 3, 4, 5",
+  turnOrder: "playersFirst, monstersFirst, alternatingByRound",
+  combatTuning: "1, 2, 3",
+};
+type SweepAxisDraft = { kind: CombatSweepAxisKind; key: string; valuesText: string };
+type SweepPayload = {
+  campaign: { id: string; name: string };
+  sweep: CombatSweepResult;
+};
+type ExchangePayload = {
+  attacker: { id: string; name: string };
+  target: { id: string; name: string };
+  exchanges: ExchangeOdds[];
+};
+const EXCHANGE_DEFENCE_MODE_LABELS: Record<ExchangeDefenceMode, string> = {
+  auto: "Simulator choice",
+  dodge: "Always dodge",
+  block: "Always block",
+};
+type ReplaySelectorMode = "index" | "best" | "worst";
 type RunPayload = {
   campaign: { id: string; name: string };
+  savedRun: CombatLabRunHistoryEntry | null;
+  presetId: string | null;
+  seed: number;
+  maxRounds: number;
   selectedCharacters: Array<{
     id: string;
     name: string;
@@ -42,15 +104,21 @@ type RunPayload = {
   report: {
     scenarioName: string;
     runs: number;
+    positioning?: CombatPositioningMode;
     playerWinRate: number;
     monsterWinRate: number;
     stalemateRate: number;
+    confidence?: CombatSuiteConfidence;
+    convergence?: CombatSuiteConvergence;
     stoppedByBreakdown: {
       playersDefeated: number;
       monstersDefeated: number;
+      objectiveCompleted: number;
+      objectiveFailed: number;
       maxRounds: number;
       stalemate: number;
     };
+    objectives?: CombatObjectiveSuiteSummary[];
     averageRounds: number;
     averageWinnerHealthRemainingPercent: number;
     averageDamagePerRound: { players: number; monsters: number };
@@ -182,6 +250,7 @@ type RunPayload = {
       displayGroupName?: string;
       side: "players" | "monsters";
       role: string;
+      aiPolicy: CombatAiPolicy;
       actionsUsed: number;
       damage: number;
       healing: number;
@@ -227,6 +296,7 @@ type RunPayload = {
     monsterGroupContributions: Array<{
       baseActorId: string;
       displayGroupName: string;
+      aiPolicy: CombatAiPolicy;
       quantity: number;
       survivors: number;
       defeated: number;
@@ -342,6 +412,14 @@ function num(value: number): string {
   return Number.isInteger(value) ? String(value) : value.toFixed(2);
 }
 
+function pctRange(interval?: CombatConfidenceInterval): string | null {
+  return interval ? `95% CI ${pct(interval.low)}-${pct(interval.high)}` : null;
+}
+
+function numRange(interval?: CombatConfidenceInterval): string | null {
+  return interval ? `95% CI ${num(interval.low)}-${num(interval.high)}` : null;
+}
+
 function toggleSelection(current: string[], id: string): string[] {
   return current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id];
 }
@@ -470,6 +548,397 @@ function CombatTranscriptView({
   );
 }
 
+function formatMetricValue(value: number | null, format: CombatReportMetricDelta["format"]): string {
+  if (value === null) return "-";
+  return format === "percent" ? pct(value) : num(value);
+}
+
+function formatMetricDelta(metric: CombatReportMetricDelta): string {
+  if (metric.delta === null) return "-";
+  const sign = metric.delta > 0 ? "+" : "";
+  return metric.format === "percent"
+    ? `${sign}${(metric.delta * 100).toFixed(1)} pts`
+    : `${sign}${num(metric.delta)}`;
+}
+
+function deltaClassName(metric: CombatReportMetricDelta): string {
+  if (metric.delta === null || Math.abs(metric.delta) < 1e-9) return "text-zinc-500";
+  return metric.delta > 0 ? "text-emerald-300" : "text-rose-300";
+}
+
+function historyEntryLabel(entry: CombatLabRunHistoryEntry): string {
+  const createdAt = new Date(entry.createdAt).toLocaleString();
+  const label = entry.label ? `${entry.label} | ` : "";
+  return `${label}${createdAt} | ${entry.runs} runs | players ${pct(entry.playerWinRate)}`;
+}
+
+function MetricDeltaTable({ title, metrics }: { title: string; metrics: CombatReportMetricDelta[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <h4 className="mb-1 text-xs font-semibold uppercase tracking-wide text-zinc-400">{title}</h4>
+      <table className="w-full min-w-[28rem] text-left text-xs">
+        <thead className="text-zinc-500">
+          <tr>
+            <th className="py-1 pr-3 font-medium">Metric</th>
+            <th className="py-1 pr-3 font-medium">Before</th>
+            <th className="py-1 pr-3 font-medium">After</th>
+            <th className="py-1 font-medium">Delta</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.key} className="border-t border-zinc-800">
+              <td className="py-1 pr-3">{metric.label}</td>
+              <td className="py-1 pr-3">{formatMetricValue(metric.before, metric.format)}</td>
+              <td className="py-1 pr-3">{formatMetricValue(metric.after, metric.format)}</td>
+              <td className={`py-1 ${deltaClassName(metric)}`}>{formatMetricDelta(metric)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RunComparisonView({ comparison }: { comparison: CombatReportComparison }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Before: {comparison.beforeScenarioName} | After: {comparison.afterScenarioName}
+      </p>
+      <div className="grid gap-4 lg:grid-cols-2">
+        <MetricDeltaTable title="Outcomes" metrics={comparison.outcomes} />
+        <MetricDeltaTable title="Rounds" metrics={comparison.rounds} />
+      </div>
+      <div className="grid gap-4 lg:grid-cols-2">
+        {comparison.defensivePools.map((entry) => (
+          <MetricDeltaTable
+            key={entry.side}
+            title={`Defensive pools: ${entry.side === "players" ? "player" : "monster"} sources`}
+            metrics={entry.metrics}
+          />
+        ))}
+      </div>
+      <div className="space-y-3">
+        {comparison.actors.map((actor) => (
+          <MetricDeltaTable
+            key={actor.actorKey}
+            title={`${actor.actorName} (${actor.side})${
+              actor.presentIn === "both" ? "" : ` - only in ${actor.presentIn} run`
+            }`}
+            metrics={actor.metrics}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function sweepAxisLabel(axis: CombatSweepResult["axes"][number]): string {
+  return axis.kind === "combatTuning" ? `Tuning: ${axis.key}` : SWEEP_AXIS_LABELS[axis.kind];
+}
+
+function sweepAxisPayload(draft: SweepAxisDraft) {
+  const parts = draft.valuesText
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const values = draft.kind === "turnOrder" ? parts : parts.map(Number);
+  return draft.kind === "combatTuning" ? { kind: draft.kind, key: draft.key, values } : { kind: draft.kind, values };
+}
+
+// Red at a 0% player win rate through amber to green at 100%.
+function winRateColour(rate: number): string {
+  const hue = Math.round(Math.max(0, Math.min(1, rate)) * 120);
+  return `hsl(${hue} 70% 28%)`;
+}
+
+function SweepHeatmap({ sweep }: { sweep: CombatSweepResult }) {
+  const [sliceIndex, setSliceIndex] = useState(0);
+  const [rowAxis, columnAxis, sliceAxis] = sweep.axes;
+  const rowValues: CombatSweepValue[] = rowAxis.values;
+  // A one-axis sweep renders as a single "Result" column.
+  const columnValues: Array<CombatSweepValue | null> = columnAxis ? columnAxis.values : [null];
+  const sliceValue: CombatSweepValue | undefined = sliceAxis?.values[Math.min(sliceIndex, sliceAxis.values.length - 1)];
+  const cellAt = (rowValue: CombatSweepValue, columnValue: CombatSweepValue | null): CombatSweepCell | undefined =>
+    sweep.cells.find(
+      (cell) =>
+        cell.coordinates[0] === rowValue &&
+        (!columnAxis || cell.coordinates[1] === columnValue) &&
+        (!sliceAxis || cell.coordinates[2] === sliceValue),
+    );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">
+        {sweep.runsPerCell} runs per cell, seed {sweep.seed}. Cell colour is the player win rate; the second line
+        is the median rounds.
+      </p>
+      {sliceAxis ? (
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          {sweepAxisLabel(sliceAxis)}
+          <select
+            value={sliceIndex}
+            onChange={(event) => setSliceIndex(Number(event.target.value))}
+            className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1 text-xs"
+          >
+            {sliceAxis.values.map((value, index) => (
+              <option key={String(value)} value={index}>
+                {String(value)}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+      <div className="overflow-x-auto">
+        <table className="text-center text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left text-zinc-400">
+                {sweepAxisLabel(rowAxis)}
+                {columnAxis ? ` / ${sweepAxisLabel(columnAxis)}` : ""}
+              </th>
+              {columnAxis
+                ? columnValues.map((value) => (
+                    <th key={String(value)} className="px-2 py-1 text-zinc-400">
+                      {String(value)}
+                    </th>
+                  ))
+                : <th className="px-2 py-1 text-zinc-400">Result</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rowValues.map((rowValue) => (
+              <tr key={String(rowValue)}>
+                <th className="px-2 py-1 text-left text-zinc-400">{String(rowValue)}</th>
+                {columnValues.map((columnValue) => {
+                  const cell = cellAt(rowValue, columnValue);
+                  return (
+                    <td
+                      key={String(columnValue)}
+                      className="min-w-20 border border-zinc-900 px-2 py-1"
+                      style={cell ? { backgroundColor: winRateColour(cell.playerWinRate) } : undefined}
+                      title={
+                        cell
+                          ? `Players ${pct(cell.playerWinRate)}, monsters ${pct(cell.monsterWinRate)}, stalemate ${pct(cell.stalemateRate)} | ${cell.playerCount} vs ${cell.monsterCount}`
+                          : undefined
+                      }
+                    >
+                      {cell ? (
+                        <>
+                          <div className="font-semibold">{pct(cell.playerWinRate)}</div>
+                          <div className="text-zinc-300">{num(cell.medianRounds)} rds</div>
+                        </>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function exchangeCombatantRef(value: string) {
+  const [kind, ...rest] = value.split(":");
+  return { kind, id: rest.join(":") };
+}
+
+function ExchangeOddsView({ payload }: { payload: ExchangePayload }) {
+  return (
+    <div className="space-y-3">
+      {payload.exchanges.map((exchange) => {
+        const peak = Math.max(...exchange.wounds.probabilities, 0.0001);
+        return (
+          <div key={exchange.actionId} className="space-y-2 rounded border border-zinc-800 bg-zinc-950/60 p-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h3 className="font-semibold">
+                {payload.attacker.name}: {exchange.actionName} vs {payload.target.name}
+              </h3>
+              <span className="text-xs text-zinc-400">
+                {exchange.attack.diceCount}
+                {exchange.attack.die} {exchange.attack.attribute}, {exchange.effectPerSuccess} {exchange.pool} wounds per
+                success
+                {exchange.resist
+                  ? `, resisted by ${exchange.resist.diceCount}${exchange.resist.die} ${exchange.resist.attribute}`
+                  : ""}
+              </span>
+            </div>
+            <div className="grid gap-2 text-sm sm:grid-cols-4">
+              <div>
+                <div className="text-xs text-zinc-500">Expected wounds</div>
+                <div>{num(exchange.wounds.expected)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-zinc-500">No wounds</div>
+                <div>{pct(exchange.wounds.probabilityZero)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-zinc-500">Reaches 0 {exchange.pool} HP ({exchange.targetHpCurrent})</div>
+                <div>{pct(exchange.probabilityReducedToZero)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-zinc-500">Defence rolled</div>
+                <div>
+                  dodge {pct(exchange.defenceChosen.dodge)} / block {pct(exchange.defenceChosen.block)}
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-zinc-400">
+              Successes {num(exchange.attackSuccesses.expected)} rolled, {num(exchange.appliedSuccesses.expected)} after
+              resist. Dodged {pct(exchange.probabilityDodged)}; blocked {num(exchange.expectedBlocked)} and protection{" "}
+              {exchange.staticProtection} prevented {num(exchange.expectedStaticPrevented)} wounds on average.
+            </p>
+            <div className="space-y-1">
+              {exchange.wounds.probabilities.map((probability, wounds) =>
+                probability > 0 ? (
+                  <div key={wounds} className="flex items-center gap-2 text-xs">
+                    <span className="w-16 text-right text-zinc-400">{wounds} wounds</span>
+                    <div className="h-3 flex-1 rounded bg-zinc-900">
+                      <div className="h-3 rounded bg-sky-700" style={{ width: `${(probability / peak) * 100}%` }} />
+                    </div>
+                    <span className="w-14 text-zinc-300">{pct(probability)}</span>
+                  </div>
+                ) : null,
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function snapshotHp(pool: CombatTranscriptActorSnapshot["physicalHp"]): string {
+  return `${pool.current}/${pool.max}`;
+}
+
+function CombatReplayViewer({ replay }: { replay: CombatReplay }) {
+  const [step, setStep] = useState(0);
+  const events = replay.transcript.events;
+  const lastStep = Math.max(0, events.length - 1);
+  const current = events[Math.min(step, lastStep)];
+  const snapshot = current?.snapshot;
+
+  if (!current) return <p className="text-zinc-500">This replay produced no events.</p>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          className="rounded border border-zinc-700 px-2 py-1 hover:bg-zinc-800 disabled:opacity-50"
+          disabled={step === 0}
+          onClick={() => setStep(0)}
+        >
+          First
+        </button>
+        <button
+          className="rounded border border-zinc-700 px-2 py-1 hover:bg-zinc-800 disabled:opacity-50"
+          disabled={step === 0}
+          onClick={() => setStep((value) => Math.max(0, value - 1))}
+        >
+          Prev
+        </button>
+        <button
+          className="rounded border border-zinc-700 px-2 py-1 hover:bg-zinc-800 disabled:opacity-50"
+          disabled={step >= lastStep}
+          onClick={() => setStep((value) => Math.min(lastStep, value + 1))}
+        >
+          Next
+        </button>
+        <button
+          className="rounded border border-zinc-700 px-2 py-1 hover:bg-zinc-800 disabled:opacity-50"
+          disabled={step >= lastStep}
+          onClick={() => setStep(lastStep)}
+        >
+          Last
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastStep}
+          value={Math.min(step, lastStep)}
+          onChange={(event) => setStep(Number(event.target.value))}
+          className="min-w-[10rem] flex-1"
+        />
+        <span className="text-zinc-400">
+          Event {Math.min(step, lastStep) + 1} / {events.length} | round {current.round}
+        </span>
+      </div>
+      <div className="rounded border border-zinc-800 bg-black p-2 font-mono text-xs text-zinc-200">{current.message}</div>
+      {snapshot ? (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[48rem] text-left text-xs">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Actor</th>
+                <th className="py-1 pr-3 font-medium">Physical</th>
+                <th className="py-1 pr-3 font-medium">Mental</th>
+                <th className="py-1 pr-3 font-medium">Responses</th>
+                <th className="py-1 pr-3 font-medium">Status effects</th>
+                <th className="py-1 pr-3 font-medium">Cooldowns</th>
+                <th className="py-1 font-medium">Defensive pools</th>
+              </tr>
+            </thead>
+            <tbody>
+              {snapshot.actors.map((actor) => (
+                <tr
+                  key={actor.id}
+                  className={`border-t border-zinc-800 align-top ${actor.defeated ? "text-zinc-600" : ""} ${
+                    actor.id === current.actorId ? "bg-emerald-950/40" : ""
+                  }`}
+                >
+                  <td className="py-1 pr-3">
+                    {actor.name}
+                    <span className="text-zinc-500"> ({actor.side}{actor.defeated ? ", defeated" : ""})</span>
+                  </td>
+                  <td className="py-1 pr-3">{snapshotHp(actor.physicalHp)}</td>
+                  <td className="py-1 pr-3">{snapshotHp(actor.mentalHp)}</td>
+                  <td className="py-1 pr-3">{actor.responsesRemaining}</td>
+                  <td className="py-1 pr-3">
+                    {actor.statusEffects.length === 0
+                      ? "-"
+                      : actor.statusEffects
+                          .map(
+                            (effect) =>
+                              `${effect.kind}${effect.attribute ? ` ${effect.attribute}` : ""}${
+                                effect.pool ? ` ${effect.pool}` : ""
+                              } ${effect.amount} (${effect.remainingRounds}r)`,
+                          )
+                          .join(", ")}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {actor.cooldowns.length === 0
+                      ? "-"
+                      : actor.cooldowns.map((cooldown) => `${cooldown.actionName} ${cooldown.remaining}`).join(", ")}
+                  </td>
+                  <td className="py-1">
+                    {actor.defensivePools.length === 0
+                      ? "-"
+                      : actor.defensivePools
+                          .map(
+                            (pool) =>
+                              `${pool.sourceActionName} ${pool.poolType} ${pool.remainingPoints}/${pool.initialPoints} (${pool.remainingRounds}r)`,
+                          )
+                          .join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-zinc-500">No state snapshot was captured for this event.</p>
+      )}
+    </div>
+  );
+}
+
 async function readJson<T>(res: Response): Promise<T> {
   const payload = (await res.json().catch(() => ({}))) as T & { error?: string };
   if (!res.ok) {
@@ -486,14 +955,47 @@ export default function CombatLabPage() {
   const [characterQuantities, setCharacterQuantities] = useState<Record<string, number>>({});
   const [selectedMonsterIds, setSelectedMonsterIds] = useState<string[]>([]);
   const [monsterQuantities, setMonsterQuantities] = useState<Record<string, number>>({});
+  const [monsterPolicies, setMonsterPolicies] = useState<Record<string, CombatAiPolicy>>({});
+  const [monsterLevelOverrides, setMonsterLevelOverrides] = useState<Record<string, number>>({});
   const [selectedMonsterLevels, setSelectedMonsterLevels] = useState<number[]>([]);
   const [monsterLevelFilterOpen, setMonsterLevelFilterOpen] = useState(false);
   const [runs, setRuns] = useState(50);
+  const [runUntilConverged, setRunUntilConverged] = useState(false);
+  const [targetHalfWidthPercent, setTargetHalfWidthPercent] = useState(3);
   const [turnOrder, setTurnOrder] = useState<CombatTurnOrder>("alternatingByRound");
+  const [positioning, setPositioning] = useState<CombatPositioningMode>("abstract");
+  const [gridStartingDistanceFeet, setGridStartingDistanceFeet] = useState(30);
+  const [seedText, setSeedText] = useState("");
+  const [maxRounds, setMaxRounds] = useState(20);
   const [loading, setLoading] = useState(false);
   const [running, setRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<RunPayload | null>(null);
+  const [runLabel, setRunLabel] = useState("");
+  const [history, setHistory] = useState<CombatLabRunHistoryEntry[]>([]);
+  const [compareBeforeId, setCompareBeforeId] = useState("");
+  const [compareAfterId, setCompareAfterId] = useState("");
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<CombatReportComparison | null>(null);
+  const [sweepAxes, setSweepAxes] = useState<SweepAxisDraft[]>([
+    { kind: "monsterQuantity", key: COMBAT_TUNING_CONFIG_KEY_ORDER[0], valuesText: SWEEP_AXIS_DEFAULT_VALUES.monsterQuantity },
+  ]);
+  const [sweepRuns, setSweepRuns] = useState(20);
+  const [sweeping, setSweeping] = useState(false);
+  const [sweepResult, setSweepResult] = useState<SweepPayload | null>(null);
+  const [exchangeAttacker, setExchangeAttacker] = useState("");
+  const [exchangeTarget, setExchangeTarget] = useState("");
+  const [exchangeDefenceMode, setExchangeDefenceMode] = useState<ExchangeDefenceMode>("auto");
+  const [exchanging, setExchanging] = useState(false);
+  const [exchangeResult, setExchangeResult] = useState<ExchangePayload | null>(null);
+  const [lastRunRequest, setLastRunRequest] = useState<Record<string, unknown> | null>(null);
+  const [replayMode, setReplayMode] = useState<ReplaySelectorMode>("worst");
+  const [replayRunIndex, setReplayRunIndex] = useState(0);
+  const [replaying, setReplaying] = useState(false);
+  const [replayResult, setReplayResult] = useState<CombatReplay | null>(null);
+  const [presets, setPresets] = useState<CombatLabScenarioPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [savingPreset, setSavingPreset] = useState(false);
 
   async function loadCampaigns() {
     setError(null);
@@ -511,16 +1013,84 @@ export default function CombatLabPage() {
     }
   }
 
+  const loadHistory = useCallback(async (id: string) => {
+    if (!id) return;
+    try {
+      const res = await fetch(`/api/combat-lab/campaign/${encodeURIComponent(id)}/history`, {
+        cache: "no-store",
+      });
+      const data = await readJson<{ runs: CombatLabRunHistoryEntry[] }>(res);
+      setHistory(data.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load run history");
+    }
+  }, []);
+
+  const loadPresets = useCallback(async (id: string) => {
+    if (!id) return;
+    try {
+      const res = await fetch(`/api/combat-lab/campaign/${encodeURIComponent(id)}/presets`, {
+        cache: "no-store",
+      });
+      setPresets((await readJson<{ presets: CombatLabScenarioPreset[] }>(res)).presets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scenario presets");
+    }
+  }, []);
+
+  async function compareSavedRuns() {
+    if (!campaignId || !compareBeforeId || !compareAfterId) return;
+    setError(null);
+    setComparing(true);
+    setComparison(null);
+    try {
+      const [before, after] = await Promise.all(
+        [compareBeforeId, compareAfterId].map(async (runId) => {
+          const res = await fetch(
+            `/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/history/${encodeURIComponent(runId)}`,
+            { cache: "no-store" },
+          );
+          return (await readJson<{ run: CombatLabRunRecord }>(res)).run;
+        }),
+      );
+      setComparison(compareSuiteReports(before.report, after.report));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare saved runs");
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  async function deleteSavedRun(runId: string) {
+    if (!campaignId) return;
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/history/${encodeURIComponent(runId)}`,
+        { method: "DELETE" },
+      );
+      await readJson<{ ok: true }>(res);
+      setHistory((current) => current.filter((entry) => entry.id !== runId));
+      setCompareBeforeId((current) => (current === runId ? "" : current));
+      setCompareAfterId((current) => (current === runId ? "" : current));
+      setComparison(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete saved run");
+    }
+  }
+
   const loadRoster = useCallback(async (id = campaignId) => {
     if (!id) return;
     setError(null);
     setLoading(true);
     setRoster(null);
     setResult(null);
+    setReplayResult(null);
     setSelectedCharacterIds([]);
     setCharacterQuantities({});
     setSelectedMonsterIds([]);
     setMonsterQuantities({});
+    setMonsterLevelOverrides({});
     setSelectedMonsterLevels([]);
     setMonsterLevelFilterOpen(false);
     try {
@@ -544,30 +1114,52 @@ export default function CombatLabPage() {
     }
   }, [campaignId]);
 
-  async function runSimulation() {
+  function selectionPayload() {
+    return {
+      characters: selectedCharacterIds.map((characterId) => ({
+        characterId,
+        quantity: clampCombatantQuantity(characterQuantities[characterId] ?? 1),
+      })),
+      monsters: selectedMonsterIds.map((monsterId) => ({
+        monsterId,
+        quantity: clampCombatantQuantity(monsterQuantities[monsterId] ?? 1),
+        aiPolicy: monsterPolicies[monsterId] ?? "default",
+        level: monsterLevelOverrides[monsterId] ?? null,
+      })),
+      turnOrder,
+      positioning,
+      gridStartingDistanceFeet,
+      seed: seedText.trim(),
+      maxRounds,
+    };
+  }
+
+  async function runSimulation(preset?: CombatLabScenarioPreset) {
     setError(null);
     setRunning(true);
     setResult(null);
+    setReplayResult(null);
+    const runRequest = preset
+      ? { campaignId, ...presetRunRequestBody(preset) }
+      : { campaignId, ...selectionPayload(), runs };
     try {
       const res = await fetch("/api/combat-lab/run", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          campaignId,
-          characters: selectedCharacterIds.map((characterId) => ({
-            characterId,
-            quantity: clampCombatantQuantity(characterQuantities[characterId] ?? 1),
-          })),
-          monsters: selectedMonsterIds.map((monsterId) => ({
-            monsterId,
-            quantity: clampCombatantQuantity(monsterQuantities[monsterId] ?? 1),
-          })),
-          runs,
-          turnOrder,
+          ...(preset ? { campaignId, presetId: preset.id } : runRequest),
+          label: runLabel,
+          convergence: runUntilConverged ? { targetHalfWidth: targetHalfWidthPercent / 100, maxRuns: runs } : null,
         }),
       });
       const data = await readJson<RunPayload>(res);
       setResult(data);
+      setLastRunRequest(runRequest);
+      setReplayRunIndex(0);
+      if (data.savedRun) {
+        const savedRun = data.savedRun;
+        setHistory((current) => [savedRun, ...current.filter((entry) => entry.id !== savedRun.id)]);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to run combat simulation");
     } finally {
@@ -575,6 +1167,165 @@ export default function CombatLabPage() {
     }
   }
 
+  async function loadReplay() {
+    if (!result || !lastRunRequest) return;
+    setError(null);
+    setReplaying(true);
+    setReplayResult(null);
+    try {
+      const res = await fetch("/api/combat-lab/replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...lastRunRequest,
+          // Convergence mode may have stopped early, so replay against the runs actually simulated.
+          runs: result.report.runs,
+          seed: result.seed,
+          maxRounds: result.maxRounds,
+          replay: replayMode === "index" ? { runIndex: replayRunIndex } : replayMode,
+        }),
+      });
+      setReplayResult((await readJson<{ replay: CombatReplay }>(res)).replay);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay combat run");
+    } finally {
+      setReplaying(false);
+    }
+  }
+
+  async function savePreset() {
+    if (!campaignId) return;
+    setError(null);
+    setSavingPreset(true);
+    try {
+      const res = await fetch(`/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/presets`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: presetName, ...selectionPayload(), runs }),
+      });
+      const { preset } = await readJson<{ preset: CombatLabScenarioPreset }>(res);
+      setPresets((current) => [...current, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save scenario preset");
+    } finally {
+      setSavingPreset(false);
+    }
+  }
+
+  function applyPreset(preset: CombatLabScenarioPreset) {
+    const { characters, monsters, grid } = preset.scenarioInput;
+    setSelectedMonsterLevels([]);
+    setSelectedCharacterIds(characters.map((entry) => entry.characterId));
+    setCharacterQuantities((current) => ({
+      ...current,
+      ...Object.fromEntries(characters.map((entry) => [entry.characterId, entry.quantity])),
+    }));
+    setSelectedMonsterIds(monsters.map((entry) => entry.monsterId));
+    setMonsterQuantities((current) => ({
+      ...current,
+      ...Object.fromEntries(monsters.map((entry) => [entry.monsterId, entry.quantity])),
+    }));
+    setMonsterPolicies(Object.fromEntries(monsters.map((entry) => [entry.monsterId, entry.aiPolicy ?? "default"])));
+    setMonsterLevelOverrides(
+      Object.fromEntries(monsters.flatMap((entry) => (entry.level ? [[entry.monsterId, entry.level]] : []))),
+    );
+    setRuns(preset.runs);
+    setTurnOrder(preset.turnOrder);
+    setPositioning(grid ? "grid" : "abstract");
+    if (grid?.startingDistanceFeet) setGridStartingDistanceFeet(grid.startingDistanceFeet);
+    setSeedText(preset.seed === null ? "" : String(preset.seed));
+    setMaxRounds(preset.maxRounds);
+  }
+
+  async function duplicatePreset(presetId: string) {
+    if (!campaignId) return;
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/presets/${encodeURIComponent(presetId)}/duplicate`,
+        { method: "POST" },
+      );
+      const { preset } = await readJson<{ preset: CombatLabScenarioPreset }>(res);
+      setPresets((current) => [...current, preset].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to duplicate scenario preset");
+    }
+  }
+
+  async function deletePreset(presetId: string) {
+    if (!campaignId) return;
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/combat-lab/campaign/${encodeURIComponent(campaignId)}/presets/${encodeURIComponent(presetId)}`,
+        { method: "DELETE" },
+      );
+      await readJson<{ ok: true }>(res);
+      setPresets((current) => current.filter((preset) => preset.id !== presetId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete scenario preset");
+    }
+  }
+
+  async function runSweep() {
+    setError(null);
+    setSweeping(true);
+    setSweepResult(null);
+    try {
+      const res = await fetch("/api/combat-lab/sweep", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          campaignId,
+          ...selectionPayload(),
+          runs: sweepRuns,
+          axes: sweepAxes.map(sweepAxisPayload),
+        }),
+      });
+      setSweepResult(await readJson<SweepPayload>(res));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run parameter sweep");
+    } finally {
+      setSweeping(false);
+    }
+  }
+
+  async function calculateExchange() {
+    setError(null);
+    setExchanging(true);
+    setExchangeResult(null);
+    try {
+      const res = await fetch("/api/combat-lab/exchange", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          campaignId,
+          attacker: exchangeCombatantRef(exchangeAttacker),
+          target: exchangeCombatantRef(exchangeTarget),
+          defenceMode: exchangeDefenceMode,
+        }),
+      });
+      setExchangeResult(await readJson<ExchangePayload>(res));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to calculate exchange odds");
+    } finally {
+      setExchanging(false);
+    }
+  }
+
+  function updateSweepAxis(index: number, patch: Partial<SweepAxisDraft>) {
+    setSweepAxes((current) =>
+      current.map((axis, axisIndex) => {
+        if (axisIndex !== index) return axis;
+        const next = { ...axis, ...patch };
+        return patch.kind && patch.kind !== axis.kind
+          ? { ...next, valuesText: SWEEP_AXIS_DEFAULT_VALUES[patch.kind] }
+          : next;
+      }),
+    );
+  }
+
   useEffect(() => {
     void loadCampaigns();
   }, []);
@@ -582,7 +1333,18 @@ export default function CombatLabPage() {
   useEffect(() => {
     if (!campaignId) return;
     void loadRoster(campaignId);
-  }, [campaignId, loadRoster]);
+    setHistory([]);
+    setPresets([]);
+    setCompareBeforeId("");
+    setCompareAfterId("");
+    setComparison(null);
+    setSweepResult(null);
+    setExchangeAttacker("");
+    setExchangeTarget("");
+    setExchangeResult(null);
+    void loadHistory(campaignId);
+    void loadPresets(campaignId);
+  }, [campaignId, loadHistory, loadPresets, loadRoster]);
 
   const canRun = useMemo(
     () => Boolean(campaignId && selectedCharacterIds.length > 0 && selectedMonsterIds.length > 0 && !running),
@@ -654,16 +1416,44 @@ export default function CombatLabPage() {
               </select>
             </label>
             <label className="space-y-1">
-              <span className="text-xs text-zinc-400">Batch runs</span>
+              <span className="text-xs text-zinc-400">{runUntilConverged ? "Max runs" : "Batch runs"}</span>
               <input
                 type="number"
                 min={1}
-                max={500}
+                max={runUntilConverged ? 2000 : 500}
                 value={runs}
-                onChange={(event) => setRuns(Math.max(1, Math.min(500, Number(event.target.value) || 1)))}
+                onChange={(event) =>
+                  setRuns(Math.max(1, Math.min(runUntilConverged ? 2000 : 500, Number(event.target.value) || 1)))
+                }
                 className="w-32 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
               />
             </label>
+            <label className="flex items-center gap-2 pb-2 text-sm">
+              <input
+                type="checkbox"
+                checked={runUntilConverged}
+                onChange={(event) => {
+                  setRunUntilConverged(event.target.checked);
+                  if (!event.target.checked) setRuns((current) => Math.min(500, current));
+                }}
+              />
+              Run until win rates are within
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-zinc-400">CI half-width (%)</span>
+              <input
+                type="number"
+                min={0.5}
+                max={50}
+                step={0.5}
+                value={targetHalfWidthPercent}
+                disabled={!runUntilConverged}
+                onChange={(event) =>
+                  setTargetHalfWidthPercent(Math.max(0.5, Math.min(50, Number(event.target.value) || 0.5)))
+                }
+                className="w-24 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm disabled:opacity-50"
+              />
+            </label>
             <label className="space-y-1">
               <span className="text-xs text-zinc-400">Turn order</span>
               <select
@@ -677,6 +1467,55 @@ export default function CombatLabPage() {
                 <option value="randomSeeded">Seeded Random Side</option>
               </select>
             </label>
+            <label className="space-y-1">
+              <span className="text-xs text-zinc-400">Positioning</span>
+              <select
+                value={positioning}
+                onChange={(event) => setPositioning(event.target.value as CombatPositioningMode)}
+                className="w-40 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
+              >
+                <option value="abstract">Abstract</option>
+                <option value="grid">Grid (5 ft squares)</option>
+              </select>
+            </label>
+            {positioning === "grid" ? (
+              <label className="space-y-1">
+                <span className="text-xs text-zinc-400">Starting gap (ft)</span>
+                <input
+                  type="number"
+                  min={5}
+                  max={300}
+                  step={5}
+                  value={gridStartingDistanceFeet}
+                  onChange={(event) =>
+                    setGridStartingDistanceFeet(Math.max(5, Math.min(300, Number(event.target.value) || 5)))
+                  }
+                  className="w-28 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
+                />
+              </label>
+            ) : null}
+            <label className="space-y-1">
+              <span className="text-xs text-zinc-400">Seed</span>
+              <input
+                type="number"
+                min={0}
+                value={seedText}
+                onChange={(event) => setSeedText(event.target.value)}
+                placeholder="Random"
+                className="w-28 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-zinc-400">Max rounds</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={maxRounds}
+                onChange={(event) => setMaxRounds(Math.max(1, Math.min(100, Number(event.target.value) || 1)))}
+                className="w-24 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
+              />
+            </label>
             <button
               type="button"
               onClick={() => void loadRoster()}
@@ -929,6 +1768,45 @@ export default function CombatLabPage() {
                         >
                           +
                         </button>
+                        <select
+                          value={monsterPolicies[monster.id] ?? "default"}
+                          disabled={!selected}
+                          onChange={(event) =>
+                            setMonsterPolicies((current) => ({
+                              ...current,
+                              [monster.id]: event.target.value as CombatAiPolicy,
+                            }))
+                          }
+                          title={COMBAT_AI_POLICY_DESCRIPTIONS[monsterPolicies[monster.id] ?? "default"]}
+                          aria-label={`${monster.name} AI policy`}
+                          className="ml-2 h-8 rounded border border-zinc-700 bg-zinc-950 px-2 text-xs disabled:opacity-40"
+                        >
+                          {COMBAT_AI_POLICIES.map((policy) => (
+                            <option key={policy} value={policy}>
+                              {COMBAT_AI_POLICY_LABELS[policy]}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={1}
+                          max={30}
+                          disabled={!selected}
+                          value={monsterLevelOverrides[monster.id] ?? ""}
+                          placeholder={`L${monster.level}`}
+                          title="Level override for this run"
+                          aria-label={`${monster.name} level override`}
+                          onChange={(event) =>
+                            setMonsterLevelOverrides((current) => {
+                              const next = { ...current };
+                              const level = Math.trunc(Number(event.target.value));
+                              if (event.target.value && level >= 1) next[monster.id] = Math.min(30, level);
+                              else delete next[monster.id];
+                              return next;
+                            })
+                          }
+                          className="h-8 w-16 rounded border border-zinc-700 bg-zinc-950 px-2 text-center text-xs disabled:opacity-40"
+                        />
                       </div>
                     </div>
                   );
@@ -938,7 +1816,14 @@ export default function CombatLabPage() {
           </section>
         </div>
 
-        <div className="flex justify-center">
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <input
+            value={runLabel}
+            onChange={(e) => setRunLabel(e.target.value)}
+            maxLength={120}
+            placeholder="Run label (optional)"
+            className="w-64 rounded border border-zinc-700 bg-zinc-950 px-3 py-2 text-sm"
+          />
           <button
             type="button"
             onClick={() => void runSimulation()}
@@ -949,31 +1834,410 @@ export default function CombatLabPage() {
           </button>
         </div>
 
+        {campaignId ? (
+          <section className="space-y-4 rounded border border-zinc-800 bg-zinc-900/40 p-4">
+            <div>
+              <h2 className="text-lg font-semibold">Scenario Presets</h2>
+              <p className="text-sm text-zinc-400">
+                Save the current selections and settings under a name. Every GD of this campaign can load, copy, or run
+                them.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+                maxLength={80}
+                placeholder="Preset name"
+                className="w-64 rounded border border-zinc-700 bg-zinc-950 px-3 py-1.5 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => void savePreset()}
+                disabled={savingPreset || !presetName.trim() || !canRun}
+                className="rounded border border-sky-600 bg-sky-950 px-4 py-1.5 text-sm font-semibold text-sky-100 hover:bg-sky-900 disabled:opacity-50"
+              >
+                {savingPreset ? "Saving..." : "Save Current Setup"}
+              </button>
+            </div>
+
+            {presets.length === 0 ? (
+              <p className="text-sm text-zinc-500">No presets saved for this campaign yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[40rem] text-left text-xs">
+                  <thead className="text-zinc-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Preset</th>
+                      <th className="py-1 pr-3 font-medium">Combatants</th>
+                      <th className="py-1 pr-3 font-medium">Runs</th>
+                      <th className="py-1 pr-3 font-medium">Seed</th>
+                      <th className="py-1 pr-3 font-medium">Max rounds</th>
+                      <th className="py-1 pr-3 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {presets.map((preset) => (
+                      <tr key={preset.id} className="border-t border-zinc-800">
+                        <td className="py-1 pr-3 text-zinc-200">{preset.name}</td>
+                        <td className="py-1 pr-3">
+                          {preset.scenarioInput.characters.reduce((sum, entry) => sum + entry.quantity, 0)} vs{" "}
+                          {preset.scenarioInput.monsters.reduce((sum, entry) => sum + entry.quantity, 0)}
+                        </td>
+                        <td className="py-1 pr-3">{preset.runs}</td>
+                        <td className="py-1 pr-3">{preset.seed ?? "random"}</td>
+                        <td className="py-1 pr-3">{preset.maxRounds}</td>
+                        <td className="py-1 pr-3">
+                          <div className="flex gap-2">
+                            <button type="button" onClick={() => applyPreset(preset)} className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800">
+                              Load
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void runSimulation(preset)}
+                              disabled={running}
+                              className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800 disabled:opacity-50"
+                            >
+                              Run
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void duplicatePreset(preset.id)}
+                              className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800"
+                            >
+                              Duplicate
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void deletePreset(preset.id)}
+                              className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        ) : null}
+
+        {campaignId ? (
+          <section className="space-y-4 rounded border border-zinc-800 bg-zinc-900/40 p-4">
+            <div>
+              <h2 className="text-lg font-semibold">Run History</h2>
+              <p className="text-sm text-zinc-400">
+                Every run is saved with its seed and the tuning sets it used. Pick two to compare.
+              </p>
+            </div>
+
+            {history.length === 0 ? (
+              <p className="text-sm text-zinc-500">No saved runs for this campaign yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[48rem] text-left text-xs">
+                  <thead className="text-zinc-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Run</th>
+                      <th className="py-1 pr-3 font-medium">Scenario</th>
+                      <th className="py-1 pr-3 font-medium">Players</th>
+                      <th className="py-1 pr-3 font-medium">Monsters</th>
+                      <th className="py-1 pr-3 font-medium">Stalemate</th>
+                      <th className="py-1 pr-3 font-medium">Median Rounds</th>
+                      <th className="py-1 pr-3 font-medium">Seed</th>
+                      <th className="py-1 pr-3 font-medium">Tuning Sets</th>
+                      <th className="py-1 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((entry) => (
+                      <tr key={entry.id} className="border-t border-zinc-800 align-top">
+                        <td className="py-1 pr-3">
+                          <div>{entry.label ?? "Untitled run"}</div>
+                          <div className="text-zinc-500">{new Date(entry.createdAt).toLocaleString()}</div>
+                        </td>
+                        <td className="py-1 pr-3">
+                          {entry.scenarioName} ({entry.runs} runs, {entry.turnOrder})
+                        </td>
+                        <td className="py-1 pr-3">{pct(entry.playerWinRate)}</td>
+                        <td className="py-1 pr-3">{pct(entry.monsterWinRate)}</td>
+                        <td className="py-1 pr-3">{pct(entry.stalemateRate)}</td>
+                        <td className="py-1 pr-3">{num(entry.medianRounds)}</td>
+                        <td className="py-1 pr-3">{entry.seed}</td>
+                        <td className="py-1 pr-3 text-zinc-500">
+                          <div>Combat: {entry.combatTuningSetId ?? "-"}</div>
+                          <div>Power: {entry.powerTuningSetId ?? "-"}</div>
+                          <div>Outcome: {entry.outcomeNormalizationSetId ?? "-"}</div>
+                        </td>
+                        <td className="py-1">
+                          <button
+                            type="button"
+                            onClick={() => void deleteSavedRun(entry.id)}
+                            className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="space-y-1 text-xs text-zinc-400">
+                <span>Before</span>
+                <select
+                  value={compareBeforeId}
+                  onChange={(e) => setCompareBeforeId(e.target.value)}
+                  className="block w-80 rounded border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100"
+                >
+                  <option value="">Select run...</option>
+                  {history.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {historyEntryLabel(entry)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-xs text-zinc-400">
+                <span>After</span>
+                <select
+                  value={compareAfterId}
+                  onChange={(e) => setCompareAfterId(e.target.value)}
+                  className="block w-80 rounded border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100"
+                >
+                  <option value="">Select run...</option>
+                  {history.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {historyEntryLabel(entry)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => void compareSavedRuns()}
+                disabled={!compareBeforeId || !compareAfterId || comparing}
+                className="rounded border border-zinc-700 px-3 py-1.5 text-sm hover:bg-zinc-800 disabled:opacity-50"
+              >
+                {comparing ? "Comparing..." : "Compare"}
+              </button>
+            </div>
+
+            {comparison ? <RunComparisonView comparison={comparison} /> : null}
+          </section>
+        ) : null}
+
+        {campaignId ? (
+          <section className="space-y-4 rounded border border-zinc-800 bg-zinc-900/40 p-4">
+            <div>
+              <h2 className="text-lg font-semibold">Parameter Sweep</h2>
+              <p className="text-sm text-zinc-400">
+                Rerun the selected matchup across up to {MAX_SWEEP_AXES} axes. Every cell uses the same seed, so
+                differences come from the swept values. Sweeps are not saved to run history.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              {sweepAxes.map((axis, index) => (
+                <div key={index} className="flex flex-wrap items-end gap-2">
+                  <span className="w-16 text-xs text-zinc-500">
+                    {index === 0 ? "Rows" : index === 1 ? "Columns" : "Slices"}
+                  </span>
+                  <select
+                    value={axis.kind}
+                    onChange={(event) => updateSweepAxis(index, { kind: event.target.value as CombatSweepAxisKind })}
+                    className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                  >
+                    {(Object.keys(SWEEP_AXIS_LABELS) as CombatSweepAxisKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {SWEEP_AXIS_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  {axis.kind === "combatTuning" ? (
+                    <select
+                      value={axis.key}
+                      onChange={(event) => updateSweepAxis(index, { key: event.target.value })}
+                      className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                    >
+                      {COMBAT_TUNING_CONFIG_KEY_ORDER.map((key) => (
+                        <option key={key} value={key}>
+                          {key}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                  <input
+                    value={axis.valuesText}
+                    onChange={(event) => updateSweepAxis(index, { valuesText: event.target.value })}
+                    placeholder="Comma-separated values"
+                    className="min-w-64 flex-1 rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSweepAxes((current) => current.filter((_, axisIndex) => axisIndex !== index))}
+                    disabled={sweepAxes.length === 1}
+                    className="rounded border border-zinc-700 px-2 py-1.5 text-xs hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  setSweepAxes((current) => [
+                    ...current,
+                    { kind: "partySize", key: COMBAT_TUNING_CONFIG_KEY_ORDER[0], valuesText: SWEEP_AXIS_DEFAULT_VALUES.partySize },
+                  ])
+                }
+                disabled={sweepAxes.length >= MAX_SWEEP_AXES}
+                className="rounded border border-zinc-700 px-3 py-1.5 text-sm hover:bg-zinc-800 disabled:opacity-50"
+              >
+                Add Axis
+              </button>
+              <label className="space-y-1">
+                <span className="block text-xs text-zinc-400">Runs per cell</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={sweepRuns}
+                  onChange={(event) => setSweepRuns(Math.max(1, Math.min(500, Number(event.target.value) || 1)))}
+                  className="w-24 rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => void runSweep()}
+                disabled={!canRun || sweeping}
+                className="rounded border border-sky-600 bg-sky-950 px-4 py-1.5 text-sm font-semibold text-sky-100 hover:bg-sky-900 disabled:opacity-50"
+              >
+                {sweeping ? "Sweeping..." : "Run Sweep"}
+              </button>
+            </div>
+
+            {sweepResult ? <SweepHeatmap key={sweepResult.sweep.seed} sweep={sweepResult.sweep} /> : null}
+          </section>
+        ) : null}
+
+        {roster ? (
+          <section className="space-y-4 rounded border border-zinc-800 bg-zinc-900/40 p-4">
+            <div>
+              <h2 className="text-lg font-semibold">What Happens If X Attacks Y</h2>
+              <p className="text-sm text-zinc-400">
+                Exact wound odds for one attack against one fresh target, worked out from the dice instead of
+                simulated. Buffs, degradation, defensive pools, counters, and secondary effects are left out.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              {(
+                [
+                  ["Attacker", exchangeAttacker, setExchangeAttacker],
+                  ["Target", exchangeTarget, setExchangeTarget],
+                ] as const
+              ).map(([label, value, setValue]) => (
+                <label key={label} className="space-y-1">
+                  <span className="block text-xs text-zinc-400">{label}</span>
+                  <select
+                    value={value}
+                    onChange={(event) => setValue(event.target.value)}
+                    className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                  >
+                    <option value="">Choose...</option>
+                    <optgroup label="Characters">
+                      {roster.characters.map((character) => (
+                        <option key={character.id} value={`character:${character.id}`}>
+                          {character.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Monsters">
+                      {roster.monsters.map((monster) => (
+                        <option key={monster.id} value={`monster:${monster.id}`}>
+                          {monster.name} (L{monster.level})
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </label>
+              ))}
+              <label className="space-y-1">
+                <span className="block text-xs text-zinc-400">Target defence</span>
+                <select
+                  value={exchangeDefenceMode}
+                  onChange={(event) => setExchangeDefenceMode(event.target.value as ExchangeDefenceMode)}
+                  className="rounded border border-zinc-700 bg-zinc-950 px-2 py-1.5 text-sm"
+                >
+                  {(Object.keys(EXCHANGE_DEFENCE_MODE_LABELS) as ExchangeDefenceMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {EXCHANGE_DEFENCE_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => void calculateExchange()}
+                disabled={!exchangeAttacker || !exchangeTarget || exchanging}
+                className="rounded border border-sky-600 bg-sky-950 px-4 py-1.5 text-sm font-semibold text-sky-100 hover:bg-sky-900 disabled:opacity-50"
+              >
+                {exchanging ? "Calculating..." : "Calculate Odds"}
+              </button>
+            </div>
+
+            {exchangeResult ? <ExchangeOddsView payload={exchangeResult} /> : null}
+          </section>
+        ) : null}
+
         {result ? (
           <section className="space-y-4 rounded border border-zinc-800 bg-zinc-900/40 p-4">
             <div>
               <h2 className="text-lg font-semibold">Report</h2>
               <p className="text-sm text-zinc-400">
-                Campaign: {result.campaign.name} | Scenario: {result.report.scenarioName}
+                Campaign: {result.campaign.name} | Scenario: {result.report.scenarioName} | Positioning:{" "}
+                {result.report.positioning === "grid" ? "Grid" : "Abstract"} | Runs: {result.report.runs}
               </p>
+              {result.report.convergence ? (
+                <p className="text-sm text-zinc-400">
+                  {result.report.convergence.converged
+                    ? `Stopped once every win rate was within +/-${pct(result.report.convergence.targetHalfWidth)}.`
+                    : `Hit the ${result.report.convergence.maxRuns}-run cap before reaching +/-${pct(result.report.convergence.targetHalfWidth)}.`}{" "}
+                  Widest half-width: {pct(result.report.convergence.finalHalfWidth)}.
+                </p>
+              ) : null}
             </div>
 
             <div className="grid gap-3 md:grid-cols-5">
               <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
                 <div className="text-xs text-zinc-500">Player Win Rate</div>
                 <div className="text-xl font-semibold">{pct(result.report.playerWinRate)}</div>
+                <div className="text-xs text-zinc-500">{pctRange(result.report.confidence?.playerWinRate)}</div>
               </div>
               <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
                 <div className="text-xs text-zinc-500">Monster Win Rate</div>
                 <div className="text-xl font-semibold">{pct(result.report.monsterWinRate)}</div>
+                <div className="text-xs text-zinc-500">{pctRange(result.report.confidence?.monsterWinRate)}</div>
               </div>
               <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
                 <div className="text-xs text-zinc-500">Stalemate Rate</div>
                 <div className="text-xl font-semibold">{pct(result.report.stalemateRate)}</div>
+                <div className="text-xs text-zinc-500">{pctRange(result.report.confidence?.stalemateRate)}</div>
               </div>
               <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
                 <div className="text-xs text-zinc-500">Average Rounds</div>
                 <div className="text-xl font-semibold">{num(result.report.averageRounds)}</div>
+                <div className="text-xs text-zinc-500">{numRange(result.report.confidence?.averageRounds)}</div>
               </div>
               <div className="rounded border border-zinc-800 bg-zinc-950 p-3">
                 <div className="text-xs text-zinc-500">Verdict</div>
@@ -1000,7 +2264,29 @@ export default function CombatLabPage() {
                   <span className="text-zinc-500">Stalemate:</span>{" "}
                   {pct(result.report.stoppedByBreakdown.stalemate)}
                 </p>
+                {result.report.objectives ? (
+                  <>
+                    <p>
+                      <span className="text-zinc-500">Objective completed:</span>{" "}
+                      {pct(result.report.stoppedByBreakdown.objectiveCompleted)}
+                    </p>
+                    <p>
+                      <span className="text-zinc-500">Objective failed:</span>{" "}
+                      {pct(result.report.stoppedByBreakdown.objectiveFailed)}
+                    </p>
+                  </>
+                ) : null}
               </div>
+              {result.report.objectives?.map((objective) => (
+                <p key={objective.objectiveId} className="mt-1 text-xs text-zinc-400">
+                  {objective.label}:{" "}
+                  {objective.kind === "environmentalHazard"
+                    ? `hazard wounds players ${num(objective.averageHazardWounds.players)}, monsters ${num(objective.averageHazardWounds.monsters)} per run`
+                    : `completed ${pct(objective.completedRate)}, failed ${pct(objective.failedRate)}${
+                        objective.target === null ? "" : `, average progress ${num(objective.averageProgress)}/${objective.target}`
+                      }`}
+                </p>
+              ))}
             </div>
 
             <div className="grid gap-3 md:grid-cols-4">
@@ -1093,6 +2379,14 @@ export default function CombatLabPage() {
                 Damage per round: players {num(result.report.averageDamagePerRound.players)}, monsters{" "}
                 {num(result.report.averageDamagePerRound.monsters)}
               </p>
+              {result.report.confidence ? (
+                <p className="text-xs text-zinc-500">
+                  Players {numRange(result.report.confidence.averageDamagePerRound.players)}; monsters{" "}
+                  {numRange(result.report.confidence.averageDamagePerRound.monsters)}; median rounds{" "}
+                  {numRange(result.report.confidence.medianRounds)} ({result.report.confidence.bootstrapResamples}{" "}
+                  bootstrap resamples)
+                </p>
+              ) : null}
               <p>
                 Protection prevented: players {num(result.report.averageProtectionPrevented.players)}, monsters{" "}
                 {num(result.report.averageProtectionPrevented.monsters)}
@@ -1157,6 +2451,13 @@ export default function CombatLabPage() {
                   ["AOE potential targets", result.report.averageMechanics.aoePotentialTargets],
                   ["AOE actual targets/action", result.report.averageMechanics.aoeActualTargets],
                   ["Position abstractions", result.report.averageMechanics.positionalAbstractionsUsed],
+                  ...(result.report.positioning === "grid"
+                    ? [
+                        ["Grid movement (ft)", result.report.averageMechanics.gridMovementFeet],
+                        ["Grid forced movement (ft)", result.report.averageMechanics.gridForcedMovementFeet],
+                        ["Out-of-range actions", result.report.averageMechanics.gridOutOfRangeActions],
+                      ]
+                    : []),
                 ].map(([label, values]) => (
                   <p key={label as string}>
                     <span className="text-zinc-500">{label as string}:</span>{" "}
@@ -1308,7 +2609,10 @@ export default function CombatLabPage() {
                   {result.report.monsterGroupContributions.map((group) => (
                     <div key={group.baseActorId} className="rounded border border-zinc-800 p-2">
                       <div className="font-semibold">
-                        {group.displayGroupName} x{group.quantity}
+                        {group.displayGroupName} x{group.quantity}{" "}
+                        <span className="text-xs font-normal text-zinc-400">
+                          | AI: {COMBAT_AI_POLICY_LABELS[group.aiPolicy] ?? group.aiPolicy}
+                        </span>
                       </div>
                       <p className="text-xs text-zinc-400">
                         actions {num(group.actionsUsed)}, damage {num(group.damage)}, average damage/instance{" "}
@@ -1343,7 +2647,9 @@ export default function CombatLabPage() {
                     return (
                       <div key={actor.actorId} className="rounded border border-zinc-800 p-2">
                         <div className="font-semibold">
-                          {actor.actorName} ({actor.side}) {actor.topActionName ? `| top: ${actor.topActionName}` : ""}
+                          {actor.actorName} ({actor.side}) | AI:{" "}
+                          {COMBAT_AI_POLICY_LABELS[actor.aiPolicy] ?? actor.aiPolicy}{" "}
+                          {actor.topActionName ? `| top: ${actor.topActionName}` : ""}
                         </div>
                         <p className="text-xs text-zinc-400">
                           actions {num(actor.actionsUsed)}, damage {num(actor.damage)}, healing {num(actor.healing)},
@@ -1509,6 +2815,63 @@ export default function CombatLabPage() {
               <CombatTranscriptView transcript={result.report.firstRunTranscript} />
             </div>
 
+            <div className="space-y-3 rounded border border-sky-900 bg-zinc-950 p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="font-semibold">Replay a Run</h3>
+                <span className="text-xs text-zinc-500">
+                  Seed {result.seed} | runs 0 to {result.report.runs - 1}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="space-y-1">
+                  <span className="block text-xs text-zinc-400">Run</span>
+                  <select
+                    value={replayMode}
+                    onChange={(event) => setReplayMode(event.target.value as ReplaySelectorMode)}
+                    className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1"
+                  >
+                    <option value="worst">Worst run for players</option>
+                    <option value="best">Best run for players</option>
+                    <option value="index">Run index</option>
+                  </select>
+                </label>
+                {replayMode === "index" ? (
+                  <label className="space-y-1">
+                    <span className="block text-xs text-zinc-400">Run index</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={result.report.runs - 1}
+                      value={replayRunIndex}
+                      onChange={(event) =>
+                        setReplayRunIndex(
+                          Math.max(0, Math.min(result.report.runs - 1, Math.trunc(Number(event.target.value) || 0))),
+                        )
+                      }
+                      className="w-24 rounded border border-zinc-700 bg-zinc-900 px-2 py-1"
+                    />
+                  </label>
+                ) : null}
+                <button
+                  onClick={() => void loadReplay()}
+                  disabled={replaying || !lastRunRequest}
+                  className="rounded border border-sky-600 bg-sky-950 px-4 py-1.5 text-sm font-semibold text-sky-100 hover:bg-sky-900 disabled:opacity-50"
+                >
+                  {replaying ? "Replaying..." : "Load replay"}
+                </button>
+              </div>
+              {replayResult ? (
+                <div className="space-y-2">
+                  <p className="text-xs text-zinc-400">
+                    Run {replayResult.runIndex}: {replayResult.winner} after {replayResult.rounds} rounds, winner at{" "}
+                    {pct(replayResult.winnerHealthRemainingPercent)} health
+                    {replayResult.transcript.truncated ? " | transcript truncated" : ""}
+                  </p>
+                  <CombatReplayViewer key={`${replayResult.seed}-${replayResult.runIndex}`} replay={replayResult} />
+                </div>
+              ) : null}
+            </div>
+
             <div className="rounded border border-amber-800 bg-amber-950/20 p-3 text-sm text-amber-100">
               <h3 className="mb-2 font-semibold">Unsupported / Fallbacks / Ignored Traits</h3>
               {result.hydrationWarnings.length === 0 &&
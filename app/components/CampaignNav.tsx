@@ -110,9 +110,13 @@ export function CampaignNav({ campaignId }: CampaignNavProps) {
               : "Approvals"}
           </Link>
         ) : null}
+        {canManageCampaign ? <Link href={`/campaign/${campaignId}/encounters`}>Encounters</Link> : null}
+        {canManageCampaign ? <Link href={`/campaign/${campaignId}/encounter-builder`}>Encounter Builder</Link> : null}
+        {canManageCampaign ? <Link href={`/campaign/${campaignId}/loot-tables`}>Loot Tables</Link> : null}
         <Link href={`/campaign/${campaignId}/inventory`}>
           Party Inventory
         </Link>
+        <Link href={`/campaign/${campaignId}/shops`}>Shops</Link>
       </div>
       <hr style={{ marginTop: "0.75rem" }} />
     </nav>
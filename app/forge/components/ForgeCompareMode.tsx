@@ -0,0 +1,539 @@
+"use client";
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useProtectionTuning } from '@/app/summoning-circle/components/useProtectionTuning';
+import {
+  EQUIPMENT_SLOT_LABELS,
+  type CharacterBuilderData,
+  type EquipmentSlotKey,
+} from '@/lib/characterBuilder/core';
+import type { CharacterBuilderDerivedBackpackItem } from '@/lib/characterBuilder/derivedStats';
+import type { ProtectionTuningValues } from '@/lib/config/combatTuningShared';
+import {
+  buildForgeItemComparisonColumns,
+  buildItemSwapComparison,
+  defaultCompareSlot,
+  getCompareSlotOptions,
+  MAX_COMPARE_ITEMS,
+  MIN_COMPARE_ITEMS,
+  normalizeCompareSelection,
+  summarizeForgeCompareFacts,
+  type ForgeCompareItem,
+  type ForgeItemComparisonColumn,
+} from '@/lib/forge/itemComparison';
+import { getForgeRarityPalette } from '@/lib/forge/itemRarityPalette';
+import {
+  buildForgeExpectationContext,
+  type ForgeExpectationConfigRow,
+  type ForgeFeatureWeightCostRow,
+} from '@/lib/forge/outputBands';
+import { useForgePicklists } from '@/lib/forge/useForgePicklists';
+
+type Props = {
+  campaignId: string;
+};
+
+type CharacterOption = {
+  id: string;
+  name: string;
+  archivedAt: string | null;
+};
+
+type BuilderPayload = {
+  character: {
+    id: string;
+    name: string;
+    level: number;
+    builderData: CharacterBuilderData;
+  };
+  backpackItems: CharacterBuilderDerivedBackpackItem[];
+  error?: string;
+};
+
+type PillTone = 'zinc' | 'emerald' | 'amber' | 'red';
+
+function formatLabel(value: string): string {
+  return value
+    .toLowerCase()
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+function formatList(items: string[], empty = 'None'): string {
+  return items.length > 0 ? items.join(', ') : empty;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function classificationTone(classification: string): PillTone {
+  if (classification === 'standard' || classification === 'low' || classification === 'moderate') return 'emerald';
+  if (classification === 'high' || classification === 'extreme' || classification === 'broad') return 'amber';
+  if (classification === 'over-band' || classification === 'heavy' || classification === 'likely overloaded') {
+    return 'red';
+  }
+  return 'zinc';
+}
+
+function Pill({ label, tone }: { label: string; tone: PillTone }) {
+  const toneClass =
+    tone === 'emerald'
+      ? 'border-emerald-500/40 bg-emerald-950/30 text-emerald-200'
+      : tone === 'amber'
+        ? 'border-amber-500/40 bg-amber-950/30 text-amber-200'
+        : tone === 'red'
+          ? 'border-red-500/40 bg-red-950/30 text-red-200'
+          : 'border-zinc-700 bg-zinc-900 text-zinc-300';
+  return <span className={`inline-flex rounded border px-2 py-0.5 text-[11px] ${toneClass}`}>{label}</span>;
+}
+
+function CompareSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1 border-t border-zinc-800 pt-2">
+      <h4 className="text-[11px] font-semibold uppercase tracking-wide text-zinc-400">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+function CharacterDeltaSection({
+  column,
+  builder,
+  slot,
+  onSlotChange,
+  protectionTuning,
+}: {
+  column: ForgeItemComparisonColumn;
+  builder: BuilderPayload;
+  slot: EquipmentSlotKey | null;
+  onSlotChange: (slot: EquipmentSlotKey) => void;
+  protectionTuning: ProtectionTuningValues;
+}) {
+  const slotOptions = getCompareSlotOptions(column.item);
+  const swap = useMemo(
+    () =>
+      slot
+        ? buildItemSwapComparison({
+            level: builder.character.level,
+            builderData: builder.character.builderData,
+            backpackItems: builder.backpackItems,
+            item: column.item,
+            slot,
+            protectionTuning,
+          })
+        : null,
+    [builder, column.item, protectionTuning, slot],
+  );
+
+  if (slotOptions.length === 0 || !swap) {
+    return (
+      <CompareSection title={`If ${builder.character.name} equips it`}>
+        <p className="text-xs text-zinc-500">This item does not fit an equipment slot.</p>
+      </CompareSection>
+    );
+  }
+
+  const changed = swap.statDeltas.filter((entry) => entry.delta !== 0);
+  const slotAttacks = swap.after.attacks.filter((attack) => attack.slot === swap.slot);
+
+  return (
+    <CompareSection title={`If ${builder.character.name} equips it`}>
+      <label className="flex items-center gap-2 text-xs text-zinc-300">
+        <span>Slot</span>
+        <select
+          value={swap.slot}
+          onChange={(e) => onSlotChange(e.target.value as EquipmentSlotKey)}
+          disabled={slotOptions.length < 2}
+          className="rounded border border-zinc-700 bg-zinc-900 px-2 py-0.5 text-xs text-zinc-100 disabled:opacity-60"
+        >
+          {slotOptions.map((option) => (
+            <option key={option} value={option}>
+              {EQUIPMENT_SLOT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-zinc-400">
+        Replaces: {formatList(swap.replacedItemNames, 'an empty slot')}
+      </p>
+      {changed.length === 0 ? (
+        <p className="text-xs text-zinc-500">No change to derived stats.</p>
+      ) : (
+        <dl className="space-y-0.5 text-xs">
+          {changed.map((entry) => (
+            <div key={entry.key} className="flex justify-between gap-2">
+              <dt className="text-zinc-400">{entry.label}</dt>
+              <dd className={entry.delta > 0 ? 'text-emerald-300' : 'text-red-300'}>
+                {entry.before} → {entry.after} ({formatSigned(entry.delta)})
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {slotAttacks.map((attack) => (
+        <div key={attack.label} className="text-[11px] text-zinc-400">
+          {attack.lines.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+      ))}
+    </CompareSection>
+  );
+}
+
+function CompareColumn({
+  column,
+  builder,
+  slot,
+  onSlotChange,
+  onRemove,
+  protectionTuning,
+}: {
+  column: ForgeItemComparisonColumn;
+  builder: BuilderPayload | null;
+  slot: EquipmentSlotKey | null;
+  onSlotChange: (slot: EquipmentSlotKey) => void;
+  onRemove: () => void;
+  protectionTuning: ProtectionTuningValues;
+}) {
+  const { item, bands } = column;
+  const facts = summarizeForgeCompareFacts(column.profile);
+  const palette = getForgeRarityPalette(item.rarity);
+  const weaponBands = bands.weaponProfiles.filter((profile) => profile.totalWoundsPerSuccess > 0);
+  const hasDefence = facts.ppv > 0 || facts.mpv > 0;
+
+  return (
+    <article
+      className="space-y-2 rounded border bg-zinc-950/60 p-3"
+      style={{ borderColor: palette.outerBorderColor }}
+      data-testid="forge-compare-column"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className={`font-semibold ${palette.nameTextClass}`}>
+            {item.name?.trim() || 'Unnamed item'}
+          </h3>
+          <p className="text-xs text-zinc-400">
+            {item.rarity ?? 'COMMON'} {item.type ?? 'ITEM'} Lv {item.level ?? 0}
+            {item.size ? ` · ${formatLabel(item.size)}` : ''}
+            {item.armorLocation ? ` · ${formatLabel(item.armorLocation)}` : ''}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded border border-zinc-700 px-2 py-0.5 text-xs hover:bg-zinc-800"
+        >
+          Remove
+        </button>
+      </div>
+
+      <CompareSection title="Output">
+        {facts.attacks.length === 0 && !hasDefence && (
+          <p className="text-xs text-zinc-500">No weapon or defence output.</p>
+        )}
+        {facts.attacks.map((attack) => (
+          <div key={attack.profileKind} className="text-xs">
+            <span className="font-medium text-zinc-200">{formatLabel(attack.profileKind)}</span>
+            <span className="text-zinc-400">
+              {' '}
+              {attack.totalWoundsPerSuccess} wounds/success
+              {attack.physicalWoundsPerSuccess > 0 && attack.mentalWoundsPerSuccess > 0
+                ? ` (${attack.physicalWoundsPerSuccess} physical, ${attack.mentalWoundsPerSuccess} mental)`
+                : ''}
+              {attack.targetCount > 1 ? ` · ${attack.targetCount} targets` : ''}
+            </span>
+            <p className="text-[11px] text-zinc-500">{formatList(attack.damageTypeNames, 'No damage types')}</p>
+          </div>
+        ))}
+        {facts.rangedDistanceFeet !== null && (
+          <p className="text-xs text-zinc-400">Range: {facts.rangedDistanceFeet}ft</p>
+        )}
+        {facts.aoeSummary && <p className="text-xs text-zinc-400">AoE: {facts.aoeSummary}</p>}
+        {hasDefence && (
+          <p className="text-xs text-zinc-400">
+            PPV {facts.ppv} · MPV {facts.mpv}
+          </p>
+        )}
+      </CompareSection>
+
+      <CompareSection title="Bands">
+        {weaponBands.map((profile) => (
+          <div key={profile.profileKind} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-zinc-300">{formatLabel(profile.profileKind)}</span>
+            <Pill label={formatLabel(profile.classification)} tone={classificationTone(profile.classification)} />
+          </div>
+        ))}
+        {hasDefence && (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-zinc-300">PPV</span>
+              <Pill
+                label={formatLabel(bands.defensive.ppv.classification)}
+                tone={classificationTone(bands.defensive.ppv.classification)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-zinc-300">MPV</span>
+              <Pill
+                label={formatLabel(bands.defensive.mpv.classification)}
+                tone={classificationTone(bands.defensive.mpv.classification)}
+              />
+            </div>
+          </>
+        )}
+        {weaponBands.length === 0 && !hasDefence && <p className="text-xs text-zinc-500">Nothing to band.</p>}
+      </CompareSection>
+
+      <CompareSection title="Lanes">
+        {[
+          { label: 'Core Functionality', lane: bands.lanes.coreFunctionality },
+          { label: 'Features / Versatility', lane: bands.lanes.featuresVersatility },
+        ].map(({ label, lane }) => (
+          <div key={label} className="space-y-0.5 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-zinc-300">{label}</span>
+              <Pill label={formatLabel(lane.status)} tone={classificationTone(lane.status)} />
+            </div>
+            <p className="text-[11px] text-zinc-500">Drivers: {formatList(lane.mainDrivers, 'No major drivers')}</p>
+            {lane.warnings.length > 0 && (
+              <p className="text-[11px] text-amber-200">Watch: {formatList(lane.warnings)}</p>
+            )}
+          </div>
+        ))}
+      </CompareSection>
+
+      <CompareSection title="Rarity Pressure">
+        <p className="text-xs text-zinc-300">{bands.lanes.rarityPressure.expectedRarityRole}</p>
+        {bands.lanes.rarityPressure.notes.map((note) => (
+          <p key={note} className="text-[11px] text-zinc-500">
+            {note}
+          </p>
+        ))}
+      </CompareSection>
+
+      {builder && (
+        <CharacterDeltaSection
+          column={column}
+          builder={builder}
+          slot={slot}
+          onSlotChange={onSlotChange}
+          protectionTuning={protectionTuning}
+        />
+      )}
+    </article>
+  );
+}
+
+export function ForgeCompareMode({ campaignId }: Props) {
+  const picklists = useForgePicklists();
+  const protectionTuning = useProtectionTuning();
+  const [items, setItems] = useState<ForgeCompareItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [slotOverrides, setSlotOverrides] = useState<Record<string, EquipmentSlotKey>>({});
+  const [characters, setCharacters] = useState<CharacterOption[]>([]);
+  const [characterId, setCharacterId] = useState('');
+  const [builder, setBuilder] = useState<BuilderPayload | null>(null);
+  const [builderError, setBuilderError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const [itemsRes, charactersRes] = await Promise.all([
+          fetch(`/api/forge/items?campaignId=${encodeURIComponent(campaignId)}`, { cache: 'no-store' }),
+          fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/characters`, { cache: 'no-store' }),
+        ]);
+        if (!itemsRes.ok) {
+          const data = await itemsRes.json().catch(() => ({}));
+          throw new Error((data as { error?: string }).error ?? 'Failed to load forge items');
+        }
+        const rows = (await itemsRes.json()) as ForgeCompareItem[];
+        const characterData = charactersRes.ok
+          ? ((await charactersRes.json().catch(() => ({}))) as { characters?: CharacterOption[] })
+          : {};
+        if (cancelled) return;
+        setItems(Array.isArray(rows) ? rows : []);
+        setCharacters((characterData.characters ?? []).filter((character) => !character.archivedAt));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load compare mode data');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  useEffect(() => {
+    if (!characterId) {
+      setBuilder(null);
+      setBuilderError(null);
+      return;
+    }
+    let cancelled = false;
+
+    async function loadBuilder() {
+      setBuilderError(null);
+      try {
+        const res = await fetch(
+          `/api/campaigns/${encodeURIComponent(campaignId)}/characters/${encodeURIComponent(characterId)}/builder`,
+          { cache: 'no-store' },
+        );
+        const data = (await res.json().catch(() => ({}))) as BuilderPayload;
+        if (!res.ok) throw new Error(data.error ?? 'Failed to load character loadout.');
+        if (!cancelled) setBuilder(data);
+      } catch (err) {
+        if (cancelled) return;
+        setBuilder(null);
+        setBuilderError(err instanceof Error ? err.message : 'Failed to load character loadout.');
+      }
+    }
+
+    void loadBuilder();
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId, characterId]);
+
+  const expectationContext = useMemo(
+    () =>
+      buildForgeExpectationContext(
+        (picklists.data?.costs ?? []) as ForgeFeatureWeightCostRow[],
+        (picklists.data?.config ?? []) as ForgeExpectationConfigRow[],
+      ),
+    [picklists.data?.config, picklists.data?.costs],
+  );
+
+  const columns = useMemo(() => {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const selected = selectedIds.flatMap((id) => {
+      const item = byId.get(id);
+      return item ? [item] : [];
+    });
+    return buildForgeItemComparisonColumns(selected, expectationContext);
+  }, [expectationContext, items, selectedIds]);
+
+  const onToggle = useCallback((itemId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? normalizeCompareSelection([...prev, itemId]) : prev.filter((id) => id !== itemId),
+    );
+  }, []);
+
+  const selectionFull = selectedIds.length >= MAX_COMPARE_ITEMS;
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded border border-zinc-800 bg-zinc-900/30 p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Compare Mode</h2>
+            <p className="text-sm text-zinc-400">
+              Pick {MIN_COMPARE_ITEMS} to {MAX_COMPARE_ITEMS} items to compare their output, bands and
+              rarity pressure side by side.
+            </p>
+          </div>
+          <Link
+            href={`/campaign/${campaignId}/forge`}
+            className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-800"
+          >
+            Back To Forge
+          </Link>
+        </div>
+
+        <label className="flex flex-wrap items-center gap-2 text-sm text-zinc-300">
+          <span>Compare for character</span>
+          <select
+            value={characterId}
+            onChange={(e) => setCharacterId(e.target.value)}
+            className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm text-zinc-100"
+          >
+            <option value="">No character</option>
+            {characters.map((character) => (
+              <option key={character.id} value={character.id}>
+                {character.name}
+              </option>
+            ))}
+          </select>
+          {builderError && <span className="text-xs text-red-300">{builderError}</span>}
+        </label>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {picklists.error && (
+          <p className="text-xs text-amber-200">
+            Forge expectations could not be loaded ({picklists.error}); bands use default thresholds.
+          </p>
+        )}
+
+        <div className="rounded border border-zinc-800 bg-zinc-950/60 p-3">
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-2">
+            Campaign Forge Items ({selectedIds.length}/{MAX_COMPARE_ITEMS})
+          </p>
+          {loading && <p className="text-sm text-zinc-400">Loading items...</p>}
+          {!loading && items.length === 0 && <p className="text-sm text-zinc-400">No Forge items available.</p>}
+          {!loading && items.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2 max-h-72 overflow-y-auto">
+              {items.map((item) => {
+                const checked = selectedIds.includes(item.id);
+                return (
+                  <label
+                    key={item.id}
+                    className={`flex items-start gap-2 rounded border border-zinc-800 p-2 ${
+                      !checked && selectionFull ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={!checked && selectionFull}
+                      onChange={(e) => onToggle(item.id, e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span className="text-sm">
+                      <span className="block font-medium">{item.name?.trim() ? item.name : 'Unnamed item'}</span>
+                      <span className="text-zinc-400">
+                        {item.rarity ?? 'COMMON'} {item.type ?? 'ITEM'} Lv {item.level ?? 0}
+                      </span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {columns.length < MIN_COMPARE_ITEMS ? (
+        <div className="rounded border border-dashed border-zinc-700 p-6 text-sm text-zinc-400">
+          Select at least {MIN_COMPARE_ITEMS} items to compare.
+        </div>
+      ) : (
+        <section className="grid gap-3 md:grid-cols-2 xl:grid-cols-4" data-testid="forge-compare-grid">
+          {columns.map((column) => (
+            <CompareColumn
+              key={column.item.id}
+              column={column}
+              builder={builder}
+              slot={slotOverrides[column.item.id] ?? defaultCompareSlot(column.item)}
+              onSlotChange={(slot) => setSlotOverrides((prev) => ({ ...prev, [column.item.id]: slot }))}
+              onRemove={() => onToggle(column.item.id, false)}
+              protectionTuning={protectionTuning}
+            />
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
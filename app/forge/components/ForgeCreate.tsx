@@ -36,6 +36,22 @@ import type {
 } from '../../../lib/forge/useForgePicklists';
 
 import { useForgeItems, type ForgeItemSummary } from '../../../lib/forge/useForgeItems';
+import {
+  calculateForgeTotals,
+  forgeFormValuesFromStoredItem,
+  forgeVrpEntriesFromStoredItem,
+  getAttributeDynamicPricingMagnitude,
+  getAttributeValueMagnitude,
+  ITEM_MODIFIER_STAT_OPTIONS,
+  SIZE_LABELS,
+  type AttributePricingMode,
+  type ForgeCalculatorContext,
+  type ForgeCalculatorTotals,
+  type ForgeConfigRow,
+  type ForgeCostRow,
+  type ForgeFormValues,
+  type GlobalAttributeModifierForm,
+} from '../../../lib/forge/forgeCalculator';
 import { buildDescriptorResult } from '@/lib/descriptors/descriptorEngine';
 import { renderForgeResult } from '@/lib/descriptors/renderers/forgeRenderer';
 import { getForgeRarityPalette } from '@/lib/forge/itemRarityPalette';
@@ -49,6 +65,7 @@ import {
   type ForgeExpectationConfigRow,
   type ForgeFeatureWeightCostRow,
 } from '@/lib/forge/outputBands';
+import { MAX_CONSUMABLE_CHARGES, normalizeConsumableCharges } from '@/lib/campaign/consumables';
 import { interpolateText, safeParseJson } from '@/lib/textInterpolation';
 import { InfoTooltip, TooltipLabel } from '@/app/components/HoverTooltip';
 
@@ -267,11 +284,6 @@ const ITEM_RARITY_LABELS: Record<ItemRarity, string> = {
 };
 
 const WEAPON_SIZES: WeaponSize[] = ['SMALL', 'ONE_HANDED', 'TWO_HANDED'];
-const SIZE_LABELS: Record<WeaponSize, string> = {
-  SMALL: 'Small',
-  ONE_HANDED: 'One Handed',
-  TWO_HANDED: 'Two Handed',
-};
 const RANGE_CATEGORIES: RangeCategory[] = ['MELEE', 'RANGED', 'AOE'];
 const RANGE_CATEGORY_LABELS: Record<RangeCategory, string> = {
   MELEE: 'Melee',
@@ -341,6 +353,8 @@ const FORGE_LABEL_TOOLTIPS = {
     'Defines which part of the body this armor piece is designed to occupy. Armor Location determines the cost of each customisation.',
   itemLocation:
     'Defines which body slot this item is designed to occupy when equipped. Item Location determines the cost of each customisation.',
+  consumableCharges:
+    'How many times one unit can be used before it is used up. Characters spend charges from their Backpack, and the Game Director can review every use.',
   mythicLimitBreak:
     'Defines the item’s highest-tier breakthrough effect or awakened state. Mythic Limit Break gives the item an exceptional payoff that represents its most dramatic potential, usually for a severe cost.',
 } as const;
@@ -354,7 +368,7 @@ const ITEM_TYPE_OPTION_TOOLTIPS: Record<ItemType, string> = {
   ITEM:
     'Creates a utility or accessory item that is worn or equipped outside the main weapon and armor paths. Items focus on modifiers and non-weapon effects.',
   CONSUMABLE:
-    'Creates a one-use or limited-use item. This type is reserved for future expansion and will gain fuller support once consumable functionality is implemented.',
+    'Creates a one-use or limited-use item. Each unit carries a number of charges that characters spend from their Backpack; a unit is used up when its last charge is spent.',
 };
 const SIZE_OPTION_TOOLTIPS: Record<WeaponSize, string> = {
   SMALL:
@@ -442,1298 +456,6 @@ function getInlineTooltipProps(
   };
 }
 
-type GlobalAttributeModifierForm = {
-  attribute: string;
-  amount: number;
-};
-
-const ITEM_MODIFIER_STAT_OPTIONS = [
-  'Armor Skill',
-  'Weapon Skill',
-  'Willpower',
-  'Dodge',
-] as const;
-
-type ForgeFormValues = {
-  // Core
-  name: string;
-  rarity: ItemRarity;
-  level: number;
-  type: ItemType;
-  generalDescription: string;
-  itemUrl: string;
-  globalAttributeModifiers: GlobalAttributeModifierForm[];
-
-  // Weapon core
-  size?: WeaponSize | null;
-  shieldHasAttack?: boolean | null;
-
-  // Per-range Strength (Physical / Mental)
-  meleePhysicalStrength?: number | null;
-  meleeMentalStrength?: number | null;
-  rangedPhysicalStrength?: number | null;
-  rangedMentalStrength?: number | null;
-  aoePhysicalStrength?: number | null;
-  aoeMentalStrength?: number | null;
-
-  meleeTargets?: number | null;
-  rangedTargets?: number | null;
-
-  // Ranged / AoE geometry
-  rangedDistanceFeet?: number | null;
-  aoeCenterRangeFeet?: number | null;
-  aoeCount?: number | null;
-  aoeShape?: AoEShape | null;
-  aoeSphereRadiusFeet?: number | null;
-  aoeConeLengthFeet?: number | null;
-  aoeLineWidthFeet?: number | null;
-  aoeLineLengthFeet?: number | null;
-
-  // Armor core
-  armorLocation?: ArmorLocation | null;
-  ppv?: number | null;
-  mpv?: number | null;
-  auraPhysical?: number | null;
-  auraMental?: number | null;
-
-  // Item core
-  itemLocation?: ItemLocation | null;
-
-  // Tags
-  tags: string[];
-  rangeCategories: RangeCategory[];
-
-  meleeDamageTypeIds: number[];
-  rangedDamageTypeIds: number[];
-  aoeDamageTypeIds: number[];
-
-  attackEffectMeleeIds: number[];
-  attackEffectRangedIds: number[];
-  attackEffectAoEIds: number[];
-
-  weaponAttributeIds: number[];
-
-  // Per-weapon-attribute strength source (keyed by weaponAttributeId as string)
-  weaponAttributeStrengthSources: Record<
-    string,
-    'MELEE' | 'RANGED' | 'AOE' | null
-  >;
-
-  // Per-weapon-attribute chosen range for [ChosenRange] (keyed by weaponAttributeId as string)
-  weaponAttributeRangeSelections: Record<
-    string,
-    'MELEE' | 'RANGED' | 'AOE' | null
-  >;
-  armorAttributeIds: number[];
-  shieldAttributeIds: number[];
-  defEffectIds: number[];
-  wardingOptionIds: number[];
-  sanctifiedOptionIds: number[];
-
-  customWeaponAttributes?: string | null;
-  customArmorAttributes?: string | null;
-  customShieldAttributes?: string | null;
-  customItemAttributes?: string | null;
-  selectedMythicLimitBreakId?: string | null;
-  mythicLbPushTemplateId?: string | null;
-  mythicLbBreakTemplateId?: string | null;
-  mythicLbTranscendTemplateId?: string | null;
-};
-
-type ForgeCalculatorTotals = {
-  totalFp: number;
-  spentFp: number;
-  remainingFp: number;
-  percentSpent: number;
-  multiplier: number;
-};
-
-type ForgeConfigRow = {
-  category?: string | null;
-  selector1?: string | null;
-  selector2?: string | null;
-  value?: number | null;
-};
-
-type ForgeCostRow = {
-  category?: string | null;
-  selector1?: string | null;
-  selector2?: string | null;
-  selector3?: string | null;
-  value?: number | null;
-};
-
-type ForgeCalculatorContext = {
-  damageTypes: DamageType[];
-  attackEffects: AttackEffect[];
-  defEffects: DefEffect[];
-  weaponAttributes: WeaponAttribute[];
-  armorAttributes: ArmorAttribute[];
-  shieldAttributes: ShieldAttribute[];
-  wardingOptions: WardingOption[];
-  sanctifiedOptions: SanctifiedOption[];
-  vrpEntries: {
-    effectKind: VRPEffectKind;
-    magnitude: number;
-    damageTypeId: number;
-  }[];
-};
-
-type AttributePricingMode =
-  | 'ATTRIBUTE_VALUE'
-  | 'AURA_PHYSICAL'
-  | 'AURA_MENTAL'
-  | 'PPV'
-  | 'MPV'
-  | 'MELEE_PHYSICAL_STRENGTH'
-  | 'MELEE_MENTAL_STRENGTH'
-  | 'RANGED_PHYSICAL_STRENGTH'
-  | 'RANGED_MENTAL_STRENGTH'
-  | 'AOE_PHYSICAL_STRENGTH'
-  | 'AOE_MENTAL_STRENGTH'
-  | 'CHOSEN_PHYSICAL_STRENGTH'
-  | 'CHOSEN_MENTAL_STRENGTH';
-
-function normaliseConfigKey(value: unknown): string {
-  if (value === null || value === undefined) return '';
-  return String(value).trim().toLowerCase();
-}
-
-function findConfigValue(
-  configRows: ForgeConfigRow[],
-  category: string,
-  selector1?: string | null,
-  selector2?: string | null,
-  defaultValue = 0,
-): number {
-  const categoryKey = normaliseConfigKey(category);
-  const s1Key = normaliseConfigKey(selector1);
-  const s2Key = normaliseConfigKey(selector2);
-
-  const found = configRows.find((row) => {
-    return (
-      normaliseConfigKey(row.category) === categoryKey &&
-      (selector1 === undefined ||
-        normaliseConfigKey(row.selector1) === s1Key) &&
-      (selector2 === undefined ||
-        normaliseConfigKey(row.selector2) === s2Key)
-    );
-  });
-
-  const v = typeof found?.value === 'number' ? found.value : defaultValue;
-  return Number.isFinite(v) ? v : defaultValue;
-}
-
-function findCostValue(
-  costRows: ForgeCostRow[],
-  category: string,
-  selector1?: string | null,
-  selector2?: string | null,
-  selector3?: string | number | null,
-  defaultValue = 0,
-): number {
-  const categoryKey = normaliseConfigKey(category);
-  const s1Key = normaliseConfigKey(selector1);
-  const s2Key = normaliseConfigKey(selector2);
-  const s3Key =
-    selector3 === undefined
-      ? ''
-      : normaliseConfigKey(
-          typeof selector3 === 'number' ? selector3.toString() : selector3,
-        );
-
-  const found = costRows.find((row) => {
-    const rowCat = normaliseConfigKey(row.category);
-    if (rowCat !== categoryKey) return false;
-
-    if (
-      selector1 !== undefined &&
-      normaliseConfigKey(row.selector1) !== s1Key
-    ) {
-      return false;
-    }
-
-    if (
-      selector2 !== undefined &&
-      normaliseConfigKey(row.selector2) !== s2Key
-    ) {
-      return false;
-    }
-
-    if (
-      selector3 !== undefined &&
-      normaliseConfigKey(row.selector3) !== s3Key
-    ) {
-      return false;
-    }
-
-    return true;
-  });
-
-  const v = typeof found?.value === 'number' ? found.value : defaultValue;
-  return Number.isFinite(v) ? v : defaultValue;
-}
-
-function calculateTotalFp(
-  values: ForgeFormValues,
-  configRows: ForgeConfigRow[],
-): number {
-  const level = typeof values.level === 'number' ? values.level : 0;
-  const rarity = values.rarity;
-
-  if (!level || !rarity) {
-    return 0;
-  }
-
-  // Map ItemRarity enum → ForgeConfigEntry.selector1 label
-  const rarityLabelMap: Record<ItemRarity, string> = {
-    COMMON: 'common',
-    UNCOMMON: 'uncommon',
-    RARE: 'rare',
-    LEGENDARY: 'legendary',
-    MYTHIC: 'mythic',
-  };
-
-  const rarityLabel = rarityLabelMap[rarity] ?? '';
-  if (!rarityLabel) {
-    return 0;
-  }
-
-  // Look up the scalar from ForgeConfigEntry (category = RARITY, selector1 = rarity label)
-  const rarityScalar = findConfigValue(
-    configRows,
-    'RARITY',
-    rarityLabel,
-    undefined,
-    0,
-  );
-
-  const total = level * rarityScalar;
-  return Number.isFinite(total) ? total : 0;
-}
-
-function calculateItemMultiplier(
-  values: ForgeFormValues,
-  configRows: ForgeConfigRow[],
-): number {
-  const type = values.type;
-  // Default multiplier if we can't resolve anything sensible
-  let multiplier = 1;
-
-  if (type === 'WEAPON' || type === 'SHIELD') {
-    const size = values.size;
-    if (!size) return multiplier;
-
-    const typeLabel = type === 'WEAPON' ? 'Weapon' : 'Shield';
-
-    const sizeLabel = SIZE_LABELS[size as WeaponSize] ?? '';
-    if (!sizeLabel) return multiplier;
-
-    multiplier = findConfigValue(
-      configRows,
-      'SIZE',
-      typeLabel,
-      sizeLabel,
-      1,
-    );
-    return multiplier || 1;
-  }
-
-  if (type === 'ARMOR') {
-    const loc = values.armorLocation;
-    if (!loc) return multiplier;
-
-    const armorLocLabelMap: Record<string, string> = {
-      HEAD: 'Head',
-      SHOULDERS: 'Shoulders',
-      TORSO: 'Torso',
-      LEGS: 'Legs',
-      FEET: 'Feet',
-    };
-
-    const locLabel = armorLocLabelMap[loc] ?? '';
-    if (!locLabel) return multiplier;
-
-    multiplier = findConfigValue(
-      configRows,
-      'ARMOR_LOCATION',
-      locLabel,
-      undefined,
-      1,
-    );
-    return multiplier || 1;
-  }
-
-  if (type === 'ITEM') {
-    const loc = values.itemLocation;
-    if (!loc) return multiplier;
-
-    const itemLocLabelMap: Record<string, string> = {
-      HEAD: 'Head',
-      NECK: 'Neck',
-      ARMS: 'Arms',
-      BELT: 'Belt',
-      HANDS: 'Hands',
-      FINGER: 'Finger',
-      CHEST: 'Chest',
-      BACK: 'Back',
-      FEET: 'Feet',
-      OTHER: 'Other',
-    };
-
-    const locLabel = itemLocLabelMap[loc] ?? '';
-    if (!locLabel) return multiplier;
-
-    multiplier = findConfigValue(
-      configRows,
-      'ITEM_LOCATION',
-      locLabel,
-      undefined,
-      1,
-    );
-    return multiplier || 1;
-  }
-
-  // For now, consumables use a neutral multiplier of 1.
-  // We'll swap this to the CONSUMABLES config once the form fields exist.
-  return multiplier;
-}
-
-function calculateRawSpentFp(
-  values: ForgeFormValues,
-  costRows: ForgeCostRow[],
-  context: ForgeCalculatorContext,
-  ): number {
-  const targetCost = 0;
-  const choiceCost = 0;
-  let potencyCost = 0;
-  const typeCost = 0;
-  let gsCost = 0;
-  let otherCost = 0;
-  let attackLinesCost = 0;
-  let usedPerRangeAttackPricing = false;
-  const type = values.type;
-
-  const typeLabelMap: Record<string, string> = {
-    WEAPON: 'Weapon',
-    ARMOR: 'Armor',
-    SHIELD: 'Shield',
-    ITEM: 'Item',
-    CONSUMABLE: 'Item',
-  };
-  const typeLabel = typeLabelMap[type] ?? '';
-
-  function findGlobalAttributeCost(
-    rows: ForgeCostRow[],
-    itemTypeLabel: string,
-    attributeName: string,
-    magnitude: number,
-  ): number {
-    // 1) Exact match: selector1=type, selector2=attribute, selector3=magnitude
-    const exactA = findCostValue(
-      rows,
-      'Attribute',
-      itemTypeLabel,
-      attributeName,
-      magnitude,
-      0,
-    );
-    if (exactA) return exactA;
-
-    // 2) Exact match swapped: selector1=attribute, selector2=type, selector3=magnitude
-    const exactB = findCostValue(
-      rows,
-      'Attribute',
-      attributeName,
-      itemTypeLabel,
-      magnitude,
-      0,
-    );
-    if (exactB) return exactB;
-
-    // 3) Cost-per-point (no selector3): multiply by magnitude
-    const perPointA = findCostValue(
-      rows,
-      'Attribute',
-      itemTypeLabel,
-      attributeName,
-      undefined,
-      0,
-    );
-    if (perPointA) return perPointA * magnitude;
-
-    // 4) Cost-per-point swapped
-    const perPointB = findCostValue(
-      rows,
-      'Attribute',
-      attributeName,
-      itemTypeLabel,
-      undefined,
-      0,
-    );
-    if (perPointB) return perPointB * magnitude;
-
-    return 0;
-  }
-
-  function findItemModifierCost(
-    rows: ForgeCostRow[],
-    attributeName: string,
-    magnitude: number,
-  ): number {
-    const baseExact = findCostValue(
-      rows,
-      'ItemModifiers',
-      attributeName,
-      undefined,
-      magnitude,
-      0,
-    );
-    if (baseExact) return baseExact;
-
-    const basePerPoint = findCostValue(
-      rows,
-      'ItemModifiers',
-      attributeName,
-      undefined,
-      0,
-    );
-    if (basePerPoint) return basePerPoint * magnitude;
-
-    // Backward-compatible fallback for any rows saved before item-location costs were flattened.
-    const legacyExactA = findCostValue(
-      rows,
-      'ItemModifiers',
-      attributeName,
-      String(values.itemLocation ?? '').trim(),
-      magnitude,
-      0,
-    );
-    if (legacyExactA) return legacyExactA;
-
-    const legacyExactB = findCostValue(
-      rows,
-      'ItemModifiers',
-      String(values.itemLocation ?? '').trim(),
-      attributeName,
-      magnitude,
-      0,
-    );
-    if (legacyExactB) return legacyExactB;
-
-    const legacyPerPointA = findCostValue(
-      rows,
-      'ItemModifiers',
-      attributeName,
-      String(values.itemLocation ?? '').trim(),
-      undefined,
-      0,
-    );
-    if (legacyPerPointA) return legacyPerPointA * magnitude;
-
-    const legacyPerPointB = findCostValue(
-      rows,
-      'ItemModifiers',
-      String(values.itemLocation ?? '').trim(),
-      attributeName,
-      undefined,
-      0,
-    );
-    if (legacyPerPointB) return legacyPerPointB * magnitude;
-
-    return 0;
-  }
-
-  // Global attribute modifiers apply to all types
-  if (typeLabel && Array.isArray(values.globalAttributeModifiers)) {
-    for (const mod of values.globalAttributeModifiers) {
-      // Support both { attribute, amount } and any legacy naming like { stat, value }
-      const attributeName =
-        (mod as any)?.attribute ??
-        (mod as any)?.stat ??
-        (mod as any)?.name ??
-        null;
-
-      const magnitudeRaw =
-        (mod as any)?.amount ??
-        (mod as any)?.value ??
-        (mod as any)?.magnitude ??
-        0;
-
-      const magnitude =
-        typeof magnitudeRaw === 'number'
-          ? magnitudeRaw
-          : parseInt(String(magnitudeRaw), 10);
-
-      if (!attributeName || !Number.isFinite(magnitude) || magnitude <= 0) {
-        continue;
-      }
-
-      const normalizedAttributeName = String(attributeName).trim();
-      const itemLocation = String(values.itemLocation ?? '').trim();
-      if (
-        type === 'ITEM' &&
-        itemLocation &&
-        ITEM_MODIFIER_STAT_OPTIONS.includes(
-          normalizedAttributeName as (typeof ITEM_MODIFIER_STAT_OPTIONS)[number],
-        )
-      ) {
-        otherCost += findItemModifierCost(
-          costRows,
-          normalizedAttributeName,
-          magnitude,
-        );
-        continue;
-      }
-
-      otherCost += findGlobalAttributeCost(
-        costRows,
-        typeLabel,
-        normalizedAttributeName,
-        magnitude,
-      );
-    }
-  }
-
-  // Weapon / Shield stat + range + damage costs
-  // NEW: Each selected range category is its own "attack line"
-  if (type === 'WEAPON' || type === 'SHIELD') {
-    const size = values.size;
-    const shieldHasAttack = values.shieldHasAttack;
-    const hasSize = !!size;
-    const isWeaponLike =
-      type === 'WEAPON' || (type === 'SHIELD' && hasSize && shieldHasAttack);
-
-    if (isWeaponLike) {
-      const rangeCats = (values.rangeCategories ?? []) as RangeCategory[];
-
-      const rcLabelMap: Record<RangeCategory, 'Melee' | 'Ranged' | 'AoE'> = {
-        MELEE: 'Melee',
-        RANGED: 'Ranged',
-        AOE: 'AoE',
-      };
-
-      const addGsAttackEffects = (
-        rangeLabel: 'Melee' | 'Ranged' | 'AoE',
-        ids: number[],
-      ): number => {
-        let cost = 0;
-        for (const effectId of ids) {
-          const effect = context.attackEffects.find((fx) => fx.id === effectId);
-          if (!effect || !effect.name) continue;
-
-          cost += findCostValue(
-            costRows,
-            'GS_AttackEffects',
-            'Weapon',
-            rangeLabel,
-            effect.name,
-            0,
-          );
-        }
-        return cost;
-      };
-
-      const calcAttackLine = (rc: RangeCategory): number => {
-        const rangeLabel = rcLabelMap[rc];
-        if (!rangeLabel) return 0;
-
-        let lineTargetCost = 0;
-        let lineChoiceCost = 0;
-        let linePotencyCost = 0;
-        let lineTypeCost = 0;
-        let lineGsCost = 0;
-
-        // Base range category selection cost (belongs to the line)
-        lineTargetCost += findCostValue(
-          costRows,
-          'RangeCategory',
-          typeLabel,
-          rangeLabel,
-          undefined,
-          0,
-        );
-
-// Per-range Strength costs
-        if (rc === 'MELEE') {
-          const physicalStrength = values.meleePhysicalStrength ?? 0;
-          const mentalStrength = values.meleeMentalStrength ?? 0;
-
-          if (physicalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'PhysicalStrength',
-              physicalStrength,
-              0,
-            );
-          }
-          if (mentalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'MentalStrength',
-              mentalStrength,
-              0,
-            );
-          }
-
-          const meleeTargets = Number(values.meleeTargets ?? 1);
-          lineChoiceCost += findCostValue(
-            costRows,
-            'MeleeTargets',
-            typeLabel,
-            String(meleeTargets),
-            undefined,
-            0,
-          );
-
-          const meleeCount = (values.meleeDamageTypeIds ?? []).length;
-          if (meleeCount > 0) {
-            lineTypeCost += findCostValue(
-              costRows,
-              'DmgType_Count',
-              typeLabel,
-              'Melee',
-              meleeCount,
-              0,
-            );
-          }
-
-          if (type === 'WEAPON') {
-            const meleeTargets = Number(values.meleeTargets ?? 1);
-            lineGsCost +=
-            addGsAttackEffects('Melee', values.attackEffectMeleeIds ?? []) *
-            Math.max(1, meleeTargets);
-          }
-        }
-
-        if (rc === 'RANGED') {
-          const physicalStrength = values.rangedPhysicalStrength ?? 0;
-          const mentalStrength = values.rangedMentalStrength ?? 0;
-
-          if (physicalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'PhysicalStrength',
-              physicalStrength,
-              0,
-            );
-          }
-          if (mentalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'MentalStrength',
-              mentalStrength,
-              0,
-            );
-          }
-
-          if (values.rangedTargets) {
-            lineChoiceCost += findCostValue(
-              costRows,
-              'RangedTargets',
-              typeLabel,
-              String(values.rangedTargets),
-              undefined,
-              0,
-            );
-          }
-
-          if (values.rangedDistanceFeet) {
-            lineTargetCost += findCostValue(
-              costRows,
-              'RangedDistanceFt',
-              typeLabel,
-              String(values.rangedDistanceFeet),
-              undefined,
-              0,
-            );
-          }
-
-          const rangedCount = (values.rangedDamageTypeIds ?? []).length;
-          if (rangedCount > 0) {
-            lineTypeCost += findCostValue(
-              costRows,
-              'DmgType_Count',
-              typeLabel,
-              'Ranged',
-              rangedCount,
-              0,
-            );
-          }
-
-        if (type === 'WEAPON') {
-            const rangedTargets = Number(values.rangedTargets ?? 1);
-            lineGsCost +=
-              addGsAttackEffects('Ranged', values.attackEffectRangedIds ?? []) *
-              Math.max(1, rangedTargets);
-          }
-        }
-
-        if (rc === 'AOE') {
-          const physicalStrength = values.aoePhysicalStrength ?? 0;
-          const mentalStrength = values.aoeMentalStrength ?? 0;
-
-          if (physicalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'PhysicalStrength',
-              physicalStrength,
-              0,
-            );
-          }
-          if (mentalStrength > 0) {
-            linePotencyCost += findCostValue(
-              costRows,
-              'Stat',
-              typeLabel,
-              'MentalStrength',
-              mentalStrength,
-              0,
-            );
-          }
-
-          if (values.aoeCount) {
-            lineChoiceCost += findCostValue(
-              costRows,
-              'AoECount',
-              typeLabel,
-              String(values.aoeCount),
-              undefined,
-              0,
-            );
-          }
-
-          if (values.aoeCenterRangeFeet) {
-            lineTargetCost += findCostValue(
-              costRows,
-              'AoECenterRangeFt',
-              typeLabel,
-              String(values.aoeCenterRangeFeet),
-              undefined,
-              0,
-            );
-          }
-
-          const shape = values.aoeShape;
-          if (shape === 'SPHERE' && values.aoeSphereRadiusFeet) {
-            lineTargetCost += findCostValue(
-              costRows,
-              'SphereSizeFt',
-              typeLabel,
-              String(values.aoeSphereRadiusFeet),
-              undefined,
-              0,
-            );
-          } else if (shape === 'CONE' && values.aoeConeLengthFeet) {
-            lineTargetCost += findCostValue(
-              costRows,
-              'ConeLengthFt',
-              typeLabel,
-              String(values.aoeConeLengthFeet),
-              undefined,
-              0,
-            );
-          } else if (shape === 'LINE') {
-            if (values.aoeLineWidthFeet) {
-              lineTargetCost += findCostValue(
-                costRows,
-                'LineWidthFt',
-                typeLabel,
-                String(values.aoeLineWidthFeet),
-                undefined,
-                0,
-              );
-            }
-            if (values.aoeLineLengthFeet) {
-              lineTargetCost += findCostValue(
-                costRows,
-                'LineLengthFt',
-                typeLabel,
-                String(values.aoeLineLengthFeet),
-                undefined,
-                0,
-              );
-            }
-          }
-
-          const aoeCount = (values.aoeDamageTypeIds ?? []).length;
-          if (aoeCount > 0) {
-            lineTypeCost += findCostValue(
-              costRows,
-              'DmgType_Count',
-              typeLabel,
-              'AoE',
-              aoeCount,
-              0,
-            );
-          }
-
-          if (type === 'WEAPON') {
-            // AoE doesn't have a "targets" selector today, so treat as 1x.
-            // If later you want this to scale by aoeCount, change multiplier to Number(values.aoeCount ?? 1).
-            lineGsCost += addGsAttackEffects(
-              'AoE',
-              values.attackEffectAoEIds ??[],
-            );
-          }
-        }
-
-        const attackBase = lineTargetCost + lineChoiceCost;
-        const effectBase = linePotencyCost + lineTypeCost + lineGsCost;
-        const attackBaseFactor = Math.max(1, attackBase);
-
-        return attackBaseFactor * effectBase;
-      };
-
-      if (rangeCats.length) {
-        usedPerRangeAttackPricing = true;
-        for (const rc of rangeCats) {
-          attackLinesCost += calcAttackLine(rc);
-        }
-      }
-    } // end isWeaponLike
-  } // end WEAPON/SHIELD
-
-  // Armor / Shield stat costs (PPV / MPV)
-  if (type === 'ARMOR' || type === 'SHIELD') {
-    const ppv = values.ppv ?? 0;
-    const mpv = values.mpv ?? 0;
-
-    if (ppv > 0) {
-      potencyCost += findCostValue(
-        costRows,
-        'Stat',
-        'PPV',
-        type === 'ARMOR' ? 'Armor' : 'Shield',
-        ppv,
-        0,
-      );
-    }
-
-    if (mpv > 0) {
-      potencyCost += findCostValue(
-        costRows,
-        'Stat',
-        'MPV',
-        type === 'ARMOR' ? 'Armor' : 'Shield',
-        mpv,
-        0,
-      );
-    }
-  }
-
-  // Armor / Shield auras (Physical / Mental)
-  if (type === 'ARMOR' || type === 'SHIELD') {
-    const auraPhysical = values.auraPhysical ?? 0;
-    const auraMental = values.auraMental ?? 0;
-    const auraItemLabel = type === 'ARMOR' ? 'Armor' : 'Shield';
-
-    if (auraPhysical > 0) {
-      otherCost += findCostValue(
-        costRows,
-        'Aura_Physical',
-        auraItemLabel,
-        String(auraPhysical),
-        undefined,
-        0,
-      );
-    }
-
-    if (auraMental > 0) {
-      otherCost += findCostValue(
-        costRows,
-        'Aura_Mental',
-        auraItemLabel,
-        String(auraMental),
-        undefined,
-        0,
-      );
-    }
-  }
-
-  // Weapon / Armor / Shield attribute tags
-    if (type === 'WEAPON') {
-    const weaponAttrIds = values.weaponAttributeIds ?? [];
-    for (const attrId of weaponAttrIds) {
-      const attr = context.weaponAttributes.find((a) => a.id === attrId);
-      if (!attr || !attr.name) continue;
-
-      const name = attr.name.trim();
-      const pricingMode = String((attr as { pricingMode?: unknown }).pricingMode ?? '').trim().toUpperCase();
-      const pricingScalarRaw = (attr as { pricingScalar?: unknown }).pricingScalar;
-      const pricingScalar =
-        typeof pricingScalarRaw === 'number'
-          ? pricingScalarRaw
-          : typeof pricingScalarRaw === 'string'
-            ? Number(pricingScalarRaw)
-            : NaN;
-
-      if (pricingMode && Number.isFinite(pricingScalar)) {
-        const magnitude = Math.max(
-          0,
-          pricingMode === 'ATTRIBUTE_VALUE'
-            ? getAttributeValueMagnitude(name)
-            : getAttributeDynamicPricingMagnitude(
-                values,
-                attr.id,
-                pricingMode as AttributePricingMode,
-              ),
-        );
-        otherCost += pricingScalar * magnitude;
-        continue;
-      }
-
-      // Handle attributes with magnitude encoded in the name, e.g. "Dangerous 3", "Reload 5"
-      const match = name.match(/^(.*\D)\s+(\d+)$/);
-      if (match) {
-        const baseName = match[1].trim();
-        const magnitude = parseInt(match[2], 10);
-
-        otherCost += findCostValue(
-          costRows,
-          'WeaponAttributes',
-          'Weapon',
-          baseName,
-          magnitude,
-          0,
-        );
-      } else {
-        // Flat-cost attributes without magnitude
-        otherCost += findCostValue(
-          costRows,
-          'WeaponAttributes',
-          'Weapon',
-          name,
-          undefined,
-          0,
-        );
-      }
-    }
-  }
-
-  if (type === 'ARMOR') {
-    const armorAttrIds = values.armorAttributeIds ?? [];
-    for (const attrId of armorAttrIds) {
-      const attr = context.armorAttributes.find((a) => a.id === attrId);
-      if (!attr) continue;
-
-      const pricingMode = String((attr as { pricingMode?: unknown }).pricingMode ?? '').trim().toUpperCase();
-      const pricingScalarRaw = (attr as { pricingScalar?: unknown }).pricingScalar;
-      const pricingScalar =
-        typeof pricingScalarRaw === 'number'
-          ? pricingScalarRaw
-          : typeof pricingScalarRaw === 'string'
-            ? Number(pricingScalarRaw)
-            : NaN;
-
-      if (pricingMode && Number.isFinite(pricingScalar)) {
-        const magnitude = Math.max(
-          0,
-          pricingMode === 'ATTRIBUTE_VALUE'
-            ? getAttributeValueMagnitude(attr.name)
-            : getAttributeDynamicPricingMagnitude(
-                values,
-                attr.id,
-                pricingMode as AttributePricingMode,
-              ),
-        );
-        otherCost += pricingScalar * magnitude;
-        continue;
-      }
-
-      otherCost += findCostValue(
-        costRows,
-        'ArmorAttributes',
-        'Armor',
-        attr.name,
-        undefined,
-        0,
-      );
-    }
-  }
-
-  if (type === 'SHIELD') {
-    const shieldAttrIds = values.shieldAttributeIds ?? [];
-    for (const attrId of shieldAttrIds) {
-      const attr = context.shieldAttributes.find((a) => a.id === attrId);
-      if (!attr) continue;
-
-      const pricingMode = String((attr as { pricingMode?: unknown }).pricingMode ?? '').trim().toUpperCase();
-      const pricingScalarRaw = (attr as { pricingScalar?: unknown }).pricingScalar;
-      const pricingScalar =
-        typeof pricingScalarRaw === 'number'
-          ? pricingScalarRaw
-          : typeof pricingScalarRaw === 'string'
-            ? Number(pricingScalarRaw)
-            : NaN;
-
-      if (pricingMode && Number.isFinite(pricingScalar)) {
-        const magnitude = Math.max(
-          0,
-          pricingMode === 'ATTRIBUTE_VALUE'
-            ? getAttributeValueMagnitude(attr.name)
-            : getAttributeDynamicPricingMagnitude(
-                values,
-                attr.id,
-                pricingMode as AttributePricingMode,
-              ),
-        );
-        otherCost += pricingScalar * magnitude;
-        continue;
-      }
-
-      otherCost += findCostValue(
-        costRows,
-        'ShieldAttributes',
-        'Shield',
-        attr.name,
-        undefined,
-        0,
-      );
-    }
-  }
-
-  // Offensive GS effects (Weapon) — per-range now
-  if (type === 'WEAPON' && !usedPerRangeAttackPricing) {
-    const rangeCats = (values.rangeCategories ?? []) as RangeCategory[];
-
-    const addGsAttackEffects = (rangeLabel: 'Melee' | 'Ranged' | 'AoE', ids: number[]) => {
-      for (const effectId of ids) {
-        const effect = context.attackEffects.find((fx) => fx.id === effectId);
-        if (!effect || !effect.name) continue;
-
-        gsCost += findCostValue(
-          costRows,
-          'GS_AttackEffects',
-          'Weapon',
-          rangeLabel,
-          effect.name,
-          0,
-        );
-      }
-    };
-
-    if (rangeCats.includes('MELEE')) {
-      addGsAttackEffects('Melee', values.attackEffectMeleeIds ?? []);
-    }
-    if (rangeCats.includes('RANGED')) {
-      addGsAttackEffects('Ranged', values.attackEffectRangedIds ?? []);
-    }
-    if (rangeCats.includes('AOE')) {
-      addGsAttackEffects('AoE', values.attackEffectAoEIds ?? []);
-    }
-  }
-
-  // Defensive GS effects (Armor / Shield)
-  if (type === 'ARMOR' || type === 'SHIELD') {
-    const defEffectIds = values.defEffectIds ?? [];
-    const defItemLabel = type === 'ARMOR' ? 'Armor' : 'Shield';
-
-    for (const effectId of defEffectIds) {
-      const effect = context.defEffects.find((d) => d.id === effectId);
-      if (!effect) continue;
-
-      gsCost += findCostValue(
-        costRows,
-        'GS_DefEffects',
-        defItemLabel,
-        effect.name,
-        undefined,
-        0,
-      );
-    }
-  }
-
-  // Warding / Sanctified options (Armor / Shield)
-  if (type === 'ARMOR' || type === 'SHIELD') {
-    const wardingOptionIds = values.wardingOptionIds ?? [];
-    const sanctifiedOptionIds = values.sanctifiedOptionIds ?? [];
-    const wardItemLabel = type === 'ARMOR' ? 'Armor' : 'Shield';
-
-    if (wardingOptionIds.length) {
-      for (const optionId of wardingOptionIds) {
-        const opt = context.wardingOptions.find((o) => o.id === optionId);
-        if (!opt) continue;
-
-        otherCost += findCostValue(
-          costRows,
-          'WardingOptions',
-          wardItemLabel,
-          opt.name,
-          undefined,
-          0,
-        );
-      }
-    }
-
-    if (sanctifiedOptionIds.length) {
-      for (const optionId of sanctifiedOptionIds) {
-        const opt = context.sanctifiedOptions.find((o) => o.id === optionId);
-        if (!opt) continue;
-
-        otherCost += findCostValue(
-          costRows,
-          'SanctifiedOptions',
-          wardItemLabel,
-          opt.name,
-          undefined,
-          0,
-        );
-      }
-    }
-  }
-
-  // VRP (Armor / Shield only), built from the live VRPEntryForm[] state
-  if (type === 'ARMOR' || type === 'SHIELD') {
-    const vrpItemLabel = type === 'ARMOR' ? 'Armor' : 'Shield';
-
-    for (const entry of context.vrpEntries ?? []) {
-      const damage = context.damageTypes.find(
-        (d) => d.id === entry.damageTypeId,
-      );
-      if (!damage) continue;
-
-      const effectBase =
-        entry.effectKind === 'VULNERABILITY'
-          ? 'Vulnerability'
-          : entry.effectKind === 'RESISTANCE'
-          ? 'Resistance'
-          : entry.effectKind === 'PROTECTION'
-          ? 'Protection'
-          : '';
-
-      if (!effectBase) continue;
-
-      const selector2Label = `${effectBase} ${entry.magnitude} ${damage.name}`;
-
-      otherCost += findCostValue(
-        costRows,
-        'VRPOptions',
-        vrpItemLabel,
-        selector2Label,
-        undefined,
-        0,
-      );
-    }
-  }
-
-  // NOTE: Consumable-specific cost pieces (Intention / Magnitude / Potency / Range / Duration)
-  // still to be wired once their ForgeCostEntry rows exist.
-
-  // Attack pricing:
-  // - Weapons/Shields with attack lines: sum per-range line costs
-  // - Everything else: keep legacy AttackBase × EffectBase behaviour
-  const legacyAttackBase = targetCost + choiceCost;
-  const legacyEffectBase = potencyCost + typeCost + gsCost;
-  const legacyAttackBaseFactor = Math.max(1, legacyAttackBase);
-  const legacyAttackStringCost = legacyAttackBaseFactor * legacyEffectBase;
-
-  const attackStringCost = usedPerRangeAttackPricing
-    ? attackLinesCost
-    : legacyAttackStringCost;
-
-  // Per-range pricing already includes attack potency/type/GS for each line.
-  // But shared defence costs (e.g. Shield PPV/MPV, defensive GS) are tracked
-  // in the legacy buckets and still need to be added explicitly.
-  const sharedNonAttackCost = usedPerRangeAttackPricing
-    ? potencyCost + typeCost + gsCost
-    : 0;
-
-  const grandTotal = attackStringCost + sharedNonAttackCost + otherCost;
-  return grandTotal;
-}
-
-function calculateForgeTotals(
-  values: ForgeFormValues,
-  configRows: ForgeConfigRow[],
-  costs: ForgeCostRow[],
-  context: ForgeCalculatorContext,
-): ForgeCalculatorTotals {
-  // Base resources from level × rarity
-  const totalFp = calculateTotalFp(values, configRows);
-
-  // Size / location / consumable-charges multiplier
-  const multiplier = calculateItemMultiplier(values, configRows);
-
-  // Sum all raw costs from ForgeCostEntry, then apply the item multiplier
-  const rawSpent = calculateRawSpentFp(values, costs, context);
-
-  const spentFp = rawSpent * multiplier;
-  const remainingFp = totalFp - spentFp;
-  const percentSpent =
-    totalFp > 0 ? Math.max(0, Math.min(100, (spentFp / totalFp) * 100)) : 0;
-
-  return {
-    totalFp,
-    spentFp,
-    remainingFp,
-    percentSpent,
-    multiplier,
-
-  };
-}
-
-function getAttributeDynamicPricingMagnitude(
-  values: ForgeFormValues,
-  attrId: number,
-  pricingMode: AttributePricingMode | null | undefined,
-): number {
-  switch (pricingMode) {
-    case 'AURA_PHYSICAL':
-      return Number(values.auraPhysical ?? 0);
-    case 'AURA_MENTAL':
-      return Number(values.auraMental ?? 0);
-    case 'PPV':
-      return Number(values.ppv ?? 0);
-    case 'MPV':
-      return Number(values.mpv ?? 0);
-    case 'MELEE_PHYSICAL_STRENGTH':
-      return Number(values.meleePhysicalStrength ?? 0);
-    case 'MELEE_MENTAL_STRENGTH':
-      return Number(values.meleeMentalStrength ?? 0);
-    case 'RANGED_PHYSICAL_STRENGTH':
-      return Number(values.rangedPhysicalStrength ?? 0);
-    case 'RANGED_MENTAL_STRENGTH':
-      return Number(values.rangedMentalStrength ?? 0);
-    case 'AOE_PHYSICAL_STRENGTH':
-      return Number(values.aoePhysicalStrength ?? 0);
-    case 'AOE_MENTAL_STRENGTH':
-      return Number(values.aoeMentalStrength ?? 0);
-    case 'CHOSEN_PHYSICAL_STRENGTH': {
-      const source = values.weaponAttributeStrengthSources?.[String(attrId)];
-      if (source === 'RANGED') return Number(values.rangedPhysicalStrength ?? 0);
-      if (source === 'AOE') return Number(values.aoePhysicalStrength ?? 0);
-      return Number(values.meleePhysicalStrength ?? 0);
-    }
-    case 'CHOSEN_MENTAL_STRENGTH': {
-      const source = values.weaponAttributeStrengthSources?.[String(attrId)];
-      if (source === 'RANGED') return Number(values.rangedMentalStrength ?? 0);
-      if (source === 'AOE') return Number(values.aoeMentalStrength ?? 0);
-      return Number(values.meleeMentalStrength ?? 0);
-    }
-    default:
-      return 0;
-  }
-}
-
-function getAttributeValueMagnitude(name: unknown): number {
-  if (typeof name !== 'string') return 0;
-  const match = name.trim().match(/^(.*?)(?:\s+(\d+))$/);
-  if (!match) return 0;
-  const parsed = Number(match[2] ?? 0);
-  return Number.isFinite(parsed) ? parsed : 0;
-}
-
 type ForgeCreateProps = {
   campaignId: string;
   canDeleteItems?: boolean;
@@ -2241,6 +963,9 @@ export function ForgeCreate({ campaignId, canDeleteItems = false }: ForgeCreateP
   // Item core
   itemLocation: null as any,
 
+  // Consumable core
+  consumableCharges: 1,
+
   // Tags / relations (id arrays)
   tags: [],
   rangeCategories: [],
@@ -2417,138 +1142,13 @@ async function handleDeleteSelectedItem() {
         isHydratingRef.current = true;
         // Hydrate full form from API payload
         reset({
-        // Core
-          name: item.name ?? '',
-          type: (item.type ?? '') as any,
-          rarity: (item.rarity ?? '') as any,
-          level: item.level ?? 1,
-          generalDescription: item.generalDescription ?? '',
-          itemUrl: (item as any).itemUrl ?? '',
-          globalAttributeModifiers: (item as any).globalAttributeModifiers ?? [],
-
-          // Weapon / shield core
-          size: ((item as any).size ?? null) as any,
-          shieldHasAttack: ((item as any).shieldHasAttack ?? false) as any,
-
-          // Per-range Strength (Physical/Mental)
-          meleePhysicalStrength: Number((item as any).meleePhysicalStrength ?? 0) as any,
-          meleeMentalStrength: Number((item as any).meleeMentalStrength ?? 0) as any,
-          rangedPhysicalStrength: Number((item as any).rangedPhysicalStrength ?? 0) as any,
-          rangedMentalStrength: Number((item as any).rangedMentalStrength ?? 0) as any,
-          aoePhysicalStrength: Number((item as any).aoePhysicalStrength ?? 0) as any,
-          aoeMentalStrength: Number((item as any).aoeMentalStrength ?? 0) as any,
-          
-          meleeTargets: Number((item as any).meleeTargets ?? 1),
-          rangedTargets: Number((item as any).rangedTargets ?? 1),
-
-          // Ranged / AoE geometry
-          rangedDistanceFeet: ((item as any).rangedDistanceFeet ?? null) as any,
-          aoeCenterRangeFeet: ((item as any).aoeCenterRangeFeet ?? null) as any,
-          aoeCount: ((item as any).aoeCount ?? 1) as any,
-          aoeShape: ((item as any).aoeShape ?? null) as any,
-          aoeSphereRadiusFeet: ((item as any).aoeSphereRadiusFeet ?? null) as any,
-          aoeConeLengthFeet: ((item as any).aoeConeLengthFeet ?? null) as any,
-          aoeLineWidthFeet: ((item as any).aoeLineWidthFeet ?? null) as any,
-          aoeLineLengthFeet: ((item as any).aoeLineLengthFeet ?? null) as any,
-
-          // Armor core
-          armorLocation: ((item as any).armorLocation ?? null) as any,
-          ppv: ((item as any).ppv ?? 0) as any,
-          mpv: ((item as any).mpv ?? 0) as any,
-          auraPhysical: ((item as any).auraPhysical ?? null) as any,
-          auraMental: ((item as any).auraMental ?? null) as any,
-
-          // Item core
-          itemLocation: ((item as any).itemLocation ?? null) as any,
-
-          // Tags / relations (API returns join rows; we map to id arrays)
-          tags: Array.isArray((item as any).tags)
-            ? (item as any).tags
-                .map((entry: any) => String(entry ?? '').trim())
-                .filter((entry: string) => entry.length > 0)
-            : [],
-          rangeCategories: Array.isArray((item as any).rangeCategories)
-            ? (item as any).rangeCategories.map((rc: any) => rc.rangeCategory)
-            : [],
-
-          meleeDamageTypeIds: Array.isArray((item as any).meleeDamageTypes)
-            ? (item as any).meleeDamageTypes.map((x: any) => x.damageTypeId)
-            : [],
-          rangedDamageTypeIds: Array.isArray((item as any).rangedDamageTypes)
-            ? (item as any).rangedDamageTypes.map((x: any) => x.damageTypeId)
-            : [],
-          aoeDamageTypeIds: Array.isArray((item as any).aoeDamageTypes)
-            ? (item as any).aoeDamageTypes.map((x: any) => x.damageTypeId)
-            : [],
-
-          attackEffectMeleeIds: Array.isArray((item as any).attackEffectsMelee)
-            ? (item as any).attackEffectsMelee.map((x: any) => x.attackEffectId)
-            : [],
-          attackEffectRangedIds: Array.isArray((item as any).attackEffectsRanged)
-            ? (item as any).attackEffectsRanged.map((x: any) => x.attackEffectId)
-            : [],
-          attackEffectAoEIds: Array.isArray((item as any).attackEffectsAoE)
-            ? (item as any).attackEffectsAoE.map((x: any) => x.attackEffectId)
-            : [],
-
-          weaponAttributeIds: Array.isArray((item as any).weaponAttributes)
-            ? (item as any).weaponAttributes.map((x: any) => x.weaponAttributeId)
-            : [],
-
-          weaponAttributeStrengthSources: Array.isArray((item as any).weaponAttributes)
-            ? Object.fromEntries(
-                (item as any).weaponAttributes.map((x: any) => [
-                  String(x.weaponAttributeId),
-                  x.strengthSource ?? null,
-                ]),
-              )
-            : {},
-
-          weaponAttributeRangeSelections: Array.isArray((item as any).weaponAttributes)
-            ? Object.fromEntries(
-                (item as any).weaponAttributes.map((x: any) => [
-                  String(x.weaponAttributeId),
-                  x.rangeSource ?? null,
-                ]),
-              )
-            : {},
-          armorAttributeIds: Array.isArray((item as any).armorAttributes)
-            ? (item as any).armorAttributes.map((x: any) => x.armorAttributeId)
-            : [],
-          shieldAttributeIds: Array.isArray((item as any).shieldAttributes)
-            ? (item as any).shieldAttributes.map((x: any) => x.shieldAttributeId)
-            : [],
-
-          defEffectIds: Array.isArray((item as any).defEffects)
-            ? (item as any).defEffects.map((x: any) => x.defEffectId)
-            : [],
-          wardingOptionIds: Array.isArray((item as any).wardingOptions)
-            ? (item as any).wardingOptions.map((x: any) => x.wardingOptionId)
-            : [],
-          sanctifiedOptionIds: Array.isArray((item as any).sanctifiedOptions)
-            ? (item as any).sanctifiedOptions.map((x: any) => x.sanctifiedOptionId)
-            : [],
-
-          // Custom strings
-          customWeaponAttributes: ((item as any).customWeaponAttributes ?? '') as any,
-          customArmorAttributes: ((item as any).customArmorAttributes ?? '') as any,
-          customShieldAttributes: ((item as any).customShieldAttributes ?? '') as any,
-          customItemAttributes: ((item as any).customItemAttributes ?? '') as any,
+          ...forgeFormValuesFromStoredItem(item),
           selectedMythicLimitBreakId: deriveSelectedMythicLimitBreakId(item),
-          mythicLbPushTemplateId: null,
-          mythicLbBreakTemplateId: null,
-          mythicLbTranscendTemplateId: null,
         });
 
         
         // VRP entries live outside RHF (state-driven UI)
-        const mappedVrp = Array.isArray((item as any).vrpEntries)
-          ? (item as any).vrpEntries.map((e: any) => ({
-              effectKind: e.effectKind,
-              magnitude: e.magnitude,
-              damageTypeId: e.damageTypeId,
-            }))
-          : [];
+        const mappedVrp = forgeVrpEntriesFromStoredItem(item);
 
         setVrpEntries(mappedVrp);
 
@@ -3931,6 +2531,12 @@ useEffect(() => {
           values.itemLocation ?? null,
         ),
 
+        // Consumable
+        consumableCharges:
+          values.type === 'CONSUMABLE'
+            ? normalizeConsumableCharges(values.consumableCharges) ?? 1
+            : null,
+
         // Shield
         shieldHasAttack:
           values.type === 'SHIELD'
@@ -7299,6 +5905,42 @@ useEffect(() => {
           </div>
         )}
 
+        {/* CONSUMABLE SECTION */}
+        {isConsumable && (
+          <div className="mt-4 space-y-4 border-t border-zinc-800 pt-4">
+            <h2 className="text-sm font-semibold">Consumable Details</h2>
+            <div className="space-y-1">
+              <TooltipLabel
+                label="Charges per Unit"
+                tooltip={FORGE_LABEL_TOOLTIPS.consumableCharges}
+                className="block"
+                textClassName="text-xs font-medium"
+              />
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONSUMABLE_CHARGES}
+                step={1}
+                className="w-24 rounded-md border border-zinc-700 bg-zinc-900 px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                {...register('consumableCharges', {
+                  valueAsNumber: true,
+                  validate: (value) => {
+                    if (!isConsumable) return true;
+                    return normalizeConsumableCharges(value) === Number(value)
+                      ? true
+                      : `Charges must be a whole number from 1 to ${MAX_CONSUMABLE_CHARGES}.`;
+                  },
+                })}
+              />
+              {errors.consumableCharges && (
+                <p className="text-xs text-red-400">
+                  {errors.consumableCharges.message as string}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* ITEM SECTION */}
           {isItem && (
           <div className="mt-4 space-y-4 border-t border-zinc-800 pt-4">
@@ -41,6 +41,12 @@ import {
   type ProtectionTuningValues,
 } from "@/lib/config/combatTuningShared";
 import { getRestrictionReadOnlyModel } from "@/lib/restrictions/editorModel";
+import { describeMonsterPhaseTrigger } from "@/lib/summoning/monsterPhases";
+import {
+  buildMonsterTraitRenderContext,
+  dieNumeric,
+  renderTraitTemplate,
+} from "@/lib/summoning/traitTemplate";
 
 export type WeaponProjection = {
   id: string;
@@ -128,245 +134,6 @@ function formatTierLabel(value: unknown): string {
   return `${s[0].toUpperCase()}${s.slice(1).toLowerCase()}`;
 }
 
-function dieNumeric(value: DiceSize | null | undefined): number | null {
-  if (!value) return null;
-  const raw = value.replace("D", "");
-  const n = Number(raw);
-  return Number.isFinite(n) ? n : null;
-}
-
-function safeEvalArithmetic(expr: string): number | null {
-  const input = expr.replace(/\s+/g, "");
-  if (!input) return null;
-  if (!/^[0-9+\-*/().]+$/.test(input)) return null;
-
-  const tokens: string[] = [];
-  let i = 0;
-  while (i < input.length) {
-    const ch = input[i];
-    if ("+-*/()".includes(ch)) {
-      tokens.push(ch);
-      i += 1;
-      continue;
-    }
-    if (/[0-9.]/.test(ch)) {
-      let j = i + 1;
-      while (j < input.length && /[0-9.]/.test(input[j])) j += 1;
-      const num = input.slice(i, j);
-      if (num.split(".").length > 2) return null;
-      tokens.push(num);
-      i = j;
-      continue;
-    }
-    return null;
-  }
-
-  const prec: Record<string, number> = { "+": 1, "-": 1, "*": 2, "/": 2 };
-  const output: string[] = [];
-  const ops: string[] = [];
-
-  for (let t = 0; t < tokens.length; t++) {
-    const tok = tokens[t];
-    const prev = t === 0 ? null : tokens[t - 1];
-
-    if (
-      tok === "-" &&
-      (prev === null || prev === "(" || prev === "+" || prev === "-" || prev === "*" || prev === "/")
-    ) {
-      output.push("0");
-      ops.push("-");
-      continue;
-    }
-
-    if (/^[0-9.]+$/.test(tok)) {
-      const n = Number(tok);
-      if (!Number.isFinite(n)) return null;
-      output.push(tok);
-      continue;
-    }
-
-    if (tok === "(") {
-      ops.push(tok);
-      continue;
-    }
-
-    if (tok === ")") {
-      while (ops.length > 0 && ops[ops.length - 1] !== "(") {
-        output.push(ops.pop() as string);
-      }
-      if (ops.pop() !== "(") return null;
-      continue;
-    }
-
-    if (tok in prec) {
-      while (
-        ops.length > 0 &&
-        ops[ops.length - 1] in prec &&
-        prec[ops[ops.length - 1]] >= prec[tok]
-      ) {
-        output.push(ops.pop() as string);
-      }
-      ops.push(tok);
-      continue;
-    }
-
-    return null;
-  }
-
-  while (ops.length > 0) {
-    const op = ops.pop() as string;
-    if (op === "(" || op === ")") return null;
-    output.push(op);
-  }
-
-  const stack: number[] = [];
-  for (const tok of output) {
-    if (/^[0-9.]+$/.test(tok)) {
-      const n = Number(tok);
-      if (!Number.isFinite(n)) return null;
-      stack.push(n);
-      continue;
-    }
-    const b = stack.pop();
-    const a = stack.pop();
-    if (a === undefined || b === undefined) return null;
-
-    if (tok === "+") stack.push(a + b);
-    else if (tok === "-") stack.push(a - b);
-    else if (tok === "*") stack.push(a * b);
-    else if (tok === "/") {
-      if (b === 0) return null;
-      stack.push(a / b);
-    } else return null;
-  }
-
-  if (stack.length !== 1) return null;
-  return stack[0];
-}
-
-export function renderTraitTemplate(
-  template: string,
-  ctx: Record<string, unknown>,
-): string {
-  if (!template) return template;
-
-  const tokenToString = (tokenName: string): string => {
-    const val = ctx[tokenName];
-    if (val === null || val === undefined) return "?";
-    if (typeof val === "string" && /^D(4|6|8|10|12)$/.test(val)) {
-      return `d${val.replace("D", "")}`;
-    }
-    if (typeof val === "string") return val;
-    if (typeof val === "number" && Number.isFinite(val)) return String(val);
-    return "?";
-  };
-
-  const tokenToNumber = (tokenName: string): number | null => {
-    const val = ctx[tokenName];
-    if (val === null || val === undefined) return null;
-    if (typeof val === "number" && Number.isFinite(val)) return val;
-    if (typeof val === "string" && /^D(4|6|8|10|12)$/.test(val)) return dieNumeric(val as DiceSize);
-    return null;
-  };
-
-  const evaluateExpression = (
-    expr: string,
-    wrapper: "ceil" | "floor" | "round" | null,
-  ): string | null => {
-    const trimmedExpr = expr.trim();
-    if (!trimmedExpr) return wrapper ? "?" : null;
-    if (!/\[[A-Za-z0-9]+\]/.test(trimmedExpr)) return null;
-
-    const replaced = trimmedExpr.replace(/\[([A-Za-z0-9]+)\]/g, (_m, rawKey: string) => {
-      const n = tokenToNumber(rawKey);
-      return n === null ? "?" : String(n);
-    });
-
-    if (replaced.includes("?")) return "?";
-
-    const value = safeEvalArithmetic(replaced);
-    if (value === null) return "?";
-
-    let finalValue = value;
-    if (wrapper === "ceil") finalValue = Math.ceil(value);
-    else if (wrapper === "floor") finalValue = Math.floor(value);
-    else if (wrapper === "round") finalValue = Math.round(value);
-
-    if (wrapper) return String(finalValue);
-
-    const asInt = Math.trunc(finalValue);
-    if (Math.abs(finalValue - asInt) < 1e-9) return String(asInt);
-    return String(Math.round(finalValue * 100) / 100);
-  };
-
-  let out = template.replace(
-    /\((ceil|floor|round)\s*\(\s*([^()]*)\s*\)\)/g,
-    (full, rawWrapper: string, inner: string) => {
-      const wrapper = rawWrapper as "ceil" | "floor" | "round";
-      const evaluated = evaluateExpression(inner, wrapper);
-      return evaluated === null ? full : evaluated;
-    },
-  );
-
-  out = out.replace(/\(([^()]*)\)/g, (full, inner: string) => {
-    const evaluated = evaluateExpression(inner, null);
-    return evaluated === null ? full : evaluated;
-  });
-
-  out = out.replace(/\[([A-Za-z0-9]+)\]/g, (_m, rawKey: string) => tokenToString(rawKey));
-
-  return out;
-}
-
-export function buildMonsterTraitRenderContext(params: {
-  monster:
-    | Pick<
-        MonsterUpsertInput,
-        | "name"
-        | "level"
-        | "attackDie"
-        | "guardDie"
-        | "fortitudeDie"
-        | "intellectDie"
-        | "synergyDie"
-        | "braveryDie"
-      >
-    | null
-    | undefined;
-  weaponSkillValue: number | null;
-  armorSkillValue: number | null;
-  willpowerValue: number | null;
-  dodgeValue: number | null;
-}): Record<string, unknown> {
-  const {
-    monster,
-    weaponSkillValue,
-    armorSkillValue,
-    willpowerValue,
-    dodgeValue,
-  } = params;
-
-  return {
-    MonsterName: monster?.name ?? null,
-    MonsterLevel: typeof monster?.level === "number" ? monster.level : null,
-
-    MonsterAttack: monster?.attackDie ?? null,
-    MonsterGuard: monster?.guardDie ?? null,
-    MonsterDefence: monster?.guardDie ?? null,
-    MonsterFortitude: monster?.fortitudeDie ?? null,
-    MonsterIntellect: monster?.intellectDie ?? null,
-    MonsterSynergy: monster?.synergyDie ?? null,
-    MonsterSupport: monster?.synergyDie ?? null,
-    MonsterBravery: monster?.braveryDie ?? null,
-
-    MonsterWeaponSkill: weaponSkillValue,
-    MonsterArmorSkill: armorSkillValue,
-
-    MonsterWillpower: willpowerValue,
-    MonsterDodge: dodgeValue,
-  };
-}
-
 function parseHeaderLine(line: string): { header: string; text: string } {
   const parts = String(line).split("||");
   if (parts.length < 2) return { header: "", text: line };
@@ -1238,6 +1005,34 @@ export function MonsterBlockCard({
     braveryModifier: "braveryModifier",
   };
   const customNotesText = monster.customNotes?.trim() ?? "";
+  const phaseSummaries = (monster.phases ?? []).map((phase) => {
+    const powerName = (sortOrder: number) =>
+      monster.powers[sortOrder]?.name?.trim() || `Power ${sortOrder + 1}`;
+    const traitNames = (traits: typeof phase.addTraits) =>
+      traits.map((trait) => trait.name ?? "Unknown trait").join(", ");
+    const changes: string[] = [];
+    if (phase.addPowerSortOrders.length > 0) {
+      changes.push(`Gains ${phase.addPowerSortOrders.map(powerName).join(", ")}`);
+    }
+    if (phase.removePowerSortOrders.length > 0) {
+      changes.push(`Loses ${phase.removePowerSortOrders.map(powerName).join(", ")}`);
+    }
+    if (phase.addTraits.length > 0) changes.push(`Gains ${traitNames(phase.addTraits)}`);
+    if (phase.removeTraits.length > 0) changes.push(`Loses ${traitNames(phase.removeTraits)}`);
+    if (phase.physicalProtectionDelta !== 0) {
+      changes.push(`Physical Protection ${phase.physicalProtectionDelta > 0 ? "+" : ""}${phase.physicalProtectionDelta}`);
+    }
+    if (phase.mentalProtectionDelta !== 0) {
+      changes.push(`Mental Protection ${phase.mentalProtectionDelta > 0 ? "+" : ""}${phase.mentalProtectionDelta}`);
+    }
+    return {
+      key: `${phase.sortOrder}:${phase.name}`,
+      name: phase.name,
+      trigger: describeMonsterPhaseTrigger(phase),
+      changes,
+      transitionText: phase.transitionText?.trim() ?? "",
+    };
+  });
   const legendaryLimitBreakPreview = useMemo(() => {
     const picked = getEquippedMythicLimitBreakTemplate(monster, weaponById);
     const template = picked.template;
@@ -1900,6 +1695,26 @@ export function MonsterBlockCard({
         </div>
       )}
 
+      {!isPowerPage && phaseSummaries.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-zinc-500">Boss Phases</p>
+          <div className="mt-1 space-y-1">
+            {phaseSummaries.map((phase) => (
+              <div key={phase.key} className="rounded border border-zinc-800 p-2 space-y-0.5 text-xs">
+                <p>
+                  <span className="font-semibold">{phase.name}</span>{" "}
+                  <span className="text-zinc-400">{phase.trigger}</span>
+                </p>
+                {phase.changes.length > 0 && <p className="text-zinc-300">{phase.changes.join(". ")}.</p>}
+                {phase.transitionText.length > 0 && (
+                  <p className="italic text-zinc-400">{phase.transitionText}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {!isPowerPage && customNotesText.length > 0 && (
         <div>
           <p className="text-xs uppercase tracking-wide text-zinc-500">Custom Attributes</p>
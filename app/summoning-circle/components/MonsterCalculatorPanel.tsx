@@ -40,7 +40,7 @@ const ARCHETYPE_OPTIONS: MonsterCalculatorArchetype[] = [
   "CONTROLLER",
   "SCRAPPER",
 ];
-const ARCHETYPE_LABELS: Record<MonsterCalculatorArchetype, string> = {
+export const ARCHETYPE_LABELS: Record<MonsterCalculatorArchetype, string> = {
   BALANCED: "Balanced",
   GLASS_CANNON: "Glass Cannon",
   TANK: "Tank",
@@ -0,0 +1,287 @@
+"use client";
+
+import {
+  MAX_MONSTER_PHASES,
+  MAX_PHASE_PROTECTION_DELTA,
+  describeMonsterPhaseTrigger,
+} from "@/lib/summoning/monsterPhases";
+import type {
+  MonsterPhase,
+  MonsterPhaseTrait,
+  MonsterPhaseTriggerType,
+  MonsterTraitDefinitionSummary,
+} from "@/lib/summoning/types";
+
+type Props = {
+  phases: MonsterPhase[];
+  powers: Array<{ name: string }>;
+  traitDefinitions: MonsterTraitDefinitionSummary[];
+  readOnly?: boolean;
+  onChangeAction: (phases: MonsterPhase[]) => void;
+};
+
+type PowerChange = "KEEP" | "ADD" | "REMOVE";
+type TraitListKey = "addTraits" | "removeTraits";
+
+const TRIGGER_LABELS: Record<MonsterPhaseTriggerType, string> = {
+  RESILIENCE_PERCENT: "Physical Resilience %",
+  ROUND: "Round",
+};
+
+function newPhase(phases: MonsterPhase[]): MonsterPhase {
+  const lastPercent = [...phases].reverse().find((phase) => phase.triggerType === "RESILIENCE_PERCENT");
+  return {
+    sortOrder: phases.length,
+    name: `Phase ${phases.length + 2}`,
+    triggerType: "RESILIENCE_PERCENT",
+    triggerValue: Math.max(1, (lastPercent?.triggerValue ?? 75) - 25),
+    addPowerSortOrders: [],
+    removePowerSortOrders: [],
+    addTraits: [],
+    removeTraits: [],
+    physicalProtectionDelta: 0,
+    mentalProtectionDelta: 0,
+    transitionText: null,
+  };
+}
+
+function powerChange(phase: MonsterPhase, sortOrder: number): PowerChange {
+  if (phase.addPowerSortOrders.includes(sortOrder)) return "ADD";
+  if (phase.removePowerSortOrders.includes(sortOrder)) return "REMOVE";
+  return "KEEP";
+}
+
+function withPowerChange(phase: MonsterPhase, sortOrder: number, change: PowerChange): MonsterPhase {
+  const without = (list: number[]) => list.filter((entry) => entry !== sortOrder);
+  const add = without(phase.addPowerSortOrders);
+  const remove = without(phase.removePowerSortOrders);
+  if (change === "ADD") add.push(sortOrder);
+  if (change === "REMOVE") remove.push(sortOrder);
+  return {
+    ...phase,
+    addPowerSortOrders: add.sort((a, b) => a - b),
+    removePowerSortOrders: remove.sort((a, b) => a - b),
+  };
+}
+
+function clampDelta(value: string): number {
+  const parsed = Math.trunc(Number(value));
+  if (!Number.isFinite(parsed)) return 0;
+  return Math.max(-MAX_PHASE_PROTECTION_DELTA, Math.min(MAX_PHASE_PROTECTION_DELTA, parsed));
+}
+
+export function MonsterPhaseEditor({ phases, powers, traitDefinitions, readOnly, onChangeAction }: Props) {
+  const updatePhase = (index: number, patch: Partial<MonsterPhase>) =>
+    onChangeAction(phases.map((phase, i) => (i === index ? { ...phase, ...patch } : phase)));
+  const replacePhase = (index: number, next: MonsterPhase) =>
+    onChangeAction(phases.map((phase, i) => (i === index ? next : phase)));
+  const removePhase = (index: number) =>
+    onChangeAction(
+      phases.filter((_phase, i) => i !== index).map((phase, sortOrder) => ({ ...phase, sortOrder })),
+    );
+
+  const addTrait = (index: number, key: TraitListKey, traitDefinitionId: string) => {
+    const definition = traitDefinitions.find((trait) => trait.id === traitDefinitionId);
+    const phase = phases[index];
+    if (!definition || phase[key].some((trait) => trait.traitDefinitionId === definition.id)) return;
+    const trait: MonsterPhaseTrait = { traitDefinitionId: definition.id, name: definition.name };
+    updatePhase(index, { [key]: [...phase[key], trait] });
+  };
+  const removeTrait = (index: number, key: TraitListKey, traitDefinitionId: string) =>
+    updatePhase(index, {
+      [key]: phases[index][key].filter((trait) => trait.traitDefinitionId !== traitDefinitionId),
+    });
+
+  return (
+    <section className="rounded border border-zinc-800 bg-zinc-950/40 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs uppercase tracking-wide text-zinc-400">Boss Phases</h3>
+        {!readOnly && phases.length < MAX_MONSTER_PHASES && (
+          <button
+            type="button"
+            onClick={() => onChangeAction([...phases, newPhase(phases)])}
+            className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800"
+          >
+            Add Phase
+          </button>
+        )}
+      </div>
+      {phases.length === 0 ? (
+        <p className="text-xs text-zinc-500">
+          No phases. The monster fights in one form for the whole encounter.
+        </p>
+      ) : (
+        <p className="text-xs text-zinc-500">
+          Phases start in order and stack. Powers a phase adds are held back until that phase begins.
+        </p>
+      )}
+
+      {phases.map((phase, index) => (
+        <div key={index} className="rounded border border-zinc-800 p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              {index + 1}. {phase.name || "Unnamed"}
+              <span className="ml-2 text-[11px] text-zinc-500">{describeMonsterPhaseTrigger(phase)}</span>
+            </span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => removePhase(index)}
+                className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800 shrink-0"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <label className="space-y-1 md:col-span-2">
+              <span className="text-[11px] text-zinc-500">Name</span>
+              <input
+                disabled={readOnly}
+                value={phase.name}
+                onChange={(e) => updatePhase(index, { name: e.target.value })}
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-zinc-500">Trigger</span>
+              <select
+                disabled={readOnly}
+                value={phase.triggerType}
+                onChange={(e) => {
+                  const triggerType = e.target.value as MonsterPhaseTriggerType;
+                  updatePhase(index, {
+                    triggerType,
+                    triggerValue: triggerType === "ROUND" ? 3 : 50,
+                  });
+                }}
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              >
+                {(Object.keys(TRIGGER_LABELS) as MonsterPhaseTriggerType[]).map((triggerType) => (
+                  <option key={triggerType} value={triggerType}>
+                    {TRIGGER_LABELS[triggerType]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-zinc-500">
+                {phase.triggerType === "ROUND" ? "Starts on round" : "At or below %"}
+              </span>
+              <input
+                type="number"
+                disabled={readOnly}
+                min={phase.triggerType === "ROUND" ? 2 : 1}
+                max={phase.triggerType === "ROUND" ? 100 : 99}
+                value={phase.triggerValue}
+                onChange={(e) => updatePhase(index, { triggerValue: Math.trunc(Number(e.target.value) || 0) })}
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-zinc-500">Physical Protection change</span>
+              <input
+                type="number"
+                disabled={readOnly}
+                value={phase.physicalProtectionDelta}
+                onChange={(e) => updatePhase(index, { physicalProtectionDelta: clampDelta(e.target.value) })}
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-zinc-500">Mental Protection change</span>
+              <input
+                type="number"
+                disabled={readOnly}
+                value={phase.mentalProtectionDelta}
+                onChange={(e) => updatePhase(index, { mentalProtectionDelta: clampDelta(e.target.value) })}
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-[11px] text-zinc-500">Powers</span>
+            {powers.length === 0 ? (
+              <p className="text-xs text-zinc-600">This monster has no powers yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                {powers.map((power, sortOrder) => (
+                  <label key={sortOrder} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="min-w-0 truncate">{power.name.trim() || `Power ${sortOrder + 1}`}</span>
+                    <select
+                      disabled={readOnly}
+                      value={powerChange(phase, sortOrder)}
+                      onChange={(e) =>
+                        replacePhase(index, withPowerChange(phase, sortOrder, e.target.value as PowerChange))
+                      }
+                      className="rounded border border-zinc-700 bg-zinc-900 px-1 py-0.5 text-xs"
+                    >
+                      <option value="KEEP">No change</option>
+                      <option value="ADD">Gains</option>
+                      <option value="REMOVE">Loses</option>
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {(["addTraits", "removeTraits"] as const).map((key) => (
+            <div key={key} className="space-y-1">
+              <span className="text-[11px] text-zinc-500">
+                {key === "addTraits" ? "Gains traits" : "Loses traits"}
+              </span>
+              <div className="flex flex-wrap items-center gap-1">
+                {phase[key].map((trait) => (
+                  <span
+                    key={trait.traitDefinitionId}
+                    className="inline-flex items-center gap-1 rounded border border-zinc-700 px-2 py-0.5 text-xs"
+                  >
+                    {trait.name ?? trait.traitDefinitionId}
+                    {!readOnly && (
+                      <button
+                        type="button"
+                        onClick={() => removeTrait(index, key, trait.traitDefinitionId)}
+                        className="text-zinc-500 hover:text-zinc-200"
+                        aria-label={`Remove ${trait.name ?? "trait"}`}
+                      >
+                        x
+                      </button>
+                    )}
+                  </span>
+                ))}
+                {!readOnly && (
+                  <select
+                    value=""
+                    onChange={(e) => addTrait(index, key, e.target.value)}
+                    className="rounded border border-zinc-700 bg-zinc-900 px-1 py-0.5 text-xs"
+                  >
+                    <option value="">Add trait...</option>
+                    {traitDefinitions.map((trait) => (
+                      <option key={trait.id} value={trait.id}>
+                        {trait.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <label className="space-y-1 block">
+            <span className="text-[11px] text-zinc-500">Transition text</span>
+            <textarea
+              disabled={readOnly}
+              rows={2}
+              value={phase.transitionText ?? ""}
+              onChange={(e) => updatePhase(index, { transitionText: e.target.value || null })}
+              className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+            />
+          </label>
+        </div>
+      ))}
+    </section>
+  );
+}
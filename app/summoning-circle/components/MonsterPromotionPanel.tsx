@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MonsterCoreSubmissionDetail, MonsterCoreSubmissionStatus } from "@/lib/summoning/monsterPromotion";
+
+type Props = {
+  campaignId: string;
+  monsterId: string;
+};
+
+const STATUS_TEXT: Record<MonsterCoreSubmissionStatus, string> = {
+  PENDING_REVIEW: "Waiting for admin review.",
+  CHANGES_REQUESTED: "Changes requested. Update the monster, save, and submit again.",
+  APPROVED: "Approved and added to the CORE library.",
+};
+
+export function MonsterPromotionPanel({ campaignId, monsterId }: Props) {
+  const [submission, setSubmission] = useState<MonsterCoreSubmissionDetail | null>(null);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = `/api/summoning-circle/monsters/${monsterId}/promotion?campaignId=${encodeURIComponent(campaignId)}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(endpoint, { cache: "no-store" });
+      const data = (await res.json().catch(() => ({}))) as {
+        submission?: MonsterCoreSubmissionDetail | null;
+        error?: string;
+      };
+      if (!res.ok) throw new Error(data.error ?? "Failed to load CORE submission");
+      setSubmission(data.submission ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load CORE submission");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function submit() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        submission?: MonsterCoreSubmissionDetail;
+        error?: string;
+      };
+      if (!res.ok || !data.submission) throw new Error(data.error ?? "Failed to submit monster");
+      setSubmission(data.submission);
+      setNotes("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit monster");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const canSubmit = !submission || submission.status === "CHANGES_REQUESTED";
+  const lastReview = submission?.events.filter((event) => event.action !== "SUBMITTED").at(-1) ?? null;
+
+  return (
+    <div className="space-y-2 rounded border border-zinc-800 bg-zinc-900/40 p-2 text-xs text-zinc-300">
+      <span className="uppercase tracking-wide text-zinc-400">CORE submission</span>
+      {loading ? (
+        <p className="text-zinc-500">Loading...</p>
+      ) : (
+        <>
+          {submission ? (
+            <p>
+              {STATUS_TEXT[submission.status]}{" "}
+              <span className="text-zinc-500">
+                Submission {submission.submissionRevision}, {new Date(submission.submittedAt).toLocaleString()}.
+              </span>
+            </p>
+          ) : (
+            <p className="text-zinc-500">
+              Nominate this monster for the CORE library. The last saved version is what admins review.
+              Equipped campaign items are not carried over.
+            </p>
+          )}
+          {lastReview?.notes && (
+            <p className="rounded border border-zinc-800 p-2 text-zinc-400">Reviewer: {lastReview.notes}</p>
+          )}
+          {canSubmit && (
+            <>
+              <textarea
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes for the reviewer (optional)"
+                className="w-full rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-xs"
+              />
+              <button
+                onClick={() => void submit()}
+                disabled={busy}
+                className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800 disabled:opacity-60"
+              >
+                {submission ? "Resubmit to CORE" : "Submit to CORE"}
+              </button>
+            </>
+          )}
+        </>
+      )}
+      {error && <p className="text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -100,12 +100,13 @@ import {
   estimatePowerPacketExpectedTargets,
   getNaturalAoeOneAreaCapacity,
 } from "@/lib/powers/expectedTargetEstimation";
+import { MonsterBlockCard, type WeaponProjection } from "@/app/summoning-circle/components/MonsterBlockCard";
 import {
-  MonsterBlockCard,
-  buildMonsterTraitRenderContext,
-  renderTraitTemplate,
-  type WeaponProjection,
-} from "@/app/summoning-circle/components/MonsterBlockCard";
+  buildMonsterStatBlock,
+  renderMonsterStatBlocks,
+  type MonsterStatBlockFormat,
+} from "@/lib/summoning/statBlockExport";
+import { buildMonsterTraitRenderContext, renderTraitTemplate } from "@/lib/summoning/traitTemplate";
 import { RestrictionEditor } from "@/app/components/restrictions/RestrictionEditor";
 import { RestrictionReadOnly } from "@/app/components/restrictions/RestrictionReadOnly";
 import { useScaledPreview } from "@/app/summoning-circle/components/useScaledPreview";
@@ -132,7 +133,12 @@ import {
   type CalculatorConfig,
   type LevelCurvePoint,
 } from "@/lib/calculators/calculatorConfig";
-import { MonsterCalculatorPanel } from "@/app/summoning-circle/components/MonsterCalculatorPanel";
+import {
+  ARCHETYPE_LABELS,
+  MonsterCalculatorPanel,
+} from "@/app/summoning-circle/components/MonsterCalculatorPanel";
+import { MonsterPhaseEditor } from "@/app/summoning-circle/components/MonsterPhaseEditor";
+import { MonsterPromotionPanel } from "@/app/summoning-circle/components/MonsterPromotionPanel";
 import { usePowerTuning } from "@/app/summoning-circle/components/usePowerTuning";
 import { useOutcomeNormalization } from "@/app/summoning-circle/components/useOutcomeNormalization";
 import {
@@ -158,6 +164,16 @@ import {
   cloneApprovedCanaryPower,
 } from "@/lib/summoning/canaryCatalog";
 import { evaluateAttributeBalancingGuide } from "@/lib/summoning/attributeBalancingGuide";
+import type { MonsterRescaleReport } from "@/lib/summoning/monsterRescale";
+import { MAX_GENERATED_POWERS, type GeneratedMonsterAlternative } from "@/lib/summoning/monsterGenerator";
+import { readMonsterPhases, remapMonsterPhasePowers } from "@/lib/summoning/monsterPhases";
+import {
+  diffMonsterRevisionSnapshots,
+  formatMonsterRevisionValue,
+  type MonsterRevision,
+  type MonsterRevisionDiffEntry,
+  type MonsterRevisionSummary,
+} from "@/lib/summoning/monsterRevisions";
 import { getForgeRarityPalette } from "@/lib/forge/itemRarityPalette";
 import {
   computeMonsterTraitMechanicalModifiers,
@@ -3062,6 +3078,7 @@ function defaultMonster(): EditableMonster {
     attacks: [defaultNaturalAttackEntry(0)],
     naturalAttack: { attackName: "Natural Weapon", attackConfig: defaultNaturalConfig() },
     powers: [],
+    phases: [],
   };
 }
 
@@ -3509,6 +3526,7 @@ export function toEditable(
         }
       : null,
     powers,
+    phases: readMonsterPhases(raw.phases),
   };
 }
 
@@ -3542,6 +3560,10 @@ export function toPayload(monster: EditableMonster): MonsterUpsertInput {
       ...syncPowerFromEffectPackets(p, getPowerEffectPackets(p)),
       sortOrder: i,
     })),
+    // Bulk power replacements (generator, canary suite) can leave stale phase references behind.
+    phases: remapMonsterPhasePowers(monster.phases ?? [], (sortOrder) =>
+      sortOrder < monster.powers.length ? sortOrder : null,
+    ),
   };
 }
 
@@ -4264,6 +4286,44 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [rescaleOpen, setRescaleOpen] = useState(false);
+  const [rescaleTarget, setRescaleTarget] = useState<{ level: number; tier: MonsterTier; legendary: boolean }>({
+    level: 1,
+    tier: "MINION",
+    legendary: false,
+  });
+  const [rescaleReport, setRescaleReport] = useState<MonsterRescaleReport | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [promotionOpen, setPromotionOpen] = useState(false);
+  const [copiedStatBlock, setCopiedStatBlock] = useState<MonsterStatBlockFormat | null>(null);
+  const [revisions, setRevisions] = useState<MonsterRevisionSummary[]>([]);
+  const [historyCompare, setHistoryCompare] = useState<{ from: number | null; to: number | null }>({
+    from: null,
+    to: null,
+  });
+  const [historyDiff, setHistoryDiff] = useState<MonsterRevisionDiffEntry[] | null>(null);
+  const [generatorOpen, setGeneratorOpen] = useState(false);
+  const [generatorRequest, setGeneratorRequest] = useState<{
+    level: number;
+    tier: MonsterTier;
+    legendary: boolean;
+    archetype: MonsterCalculatorArchetype;
+    damageTypes: string[];
+    powerCount: number;
+    seed: string;
+  }>({
+    level: 1,
+    tier: "SOLDIER",
+    legendary: false,
+    archetype: "BALANCED",
+    damageTypes: [],
+    powerCount: 2,
+    seed: "",
+  });
+  const [generatorResult, setGeneratorResult] = useState<{
+    seed: number;
+    alternatives: GeneratedMonsterAlternative[];
+  } | null>(null);
   // SC_INLINE_HAND_EQUIP_CAP_WARNING_V1
   const [equipmentCapHint, setEquipmentCapHint] = useState<string | null>(null);
   const [equipmentCapHintSlot, setEquipmentCapHintSlot] = useState<
@@ -5935,6 +5995,21 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
       }),
     };
   }, [powerTuning.snapshot, previewMonster]);
+  const copyStatBlock = useCallback(
+    async (format: MonsterStatBlockFormat) => {
+      const monster = previewMonsterWithCooldownAuthority ?? previewMonster;
+      if (!monster) return;
+      try {
+        const block = buildMonsterStatBlock({ monster, itemsById: weaponById, protectionTuning });
+        await navigator.clipboard.writeText(renderMonsterStatBlocks([block], format));
+        setCopiedStatBlock(format);
+        window.setTimeout(() => setCopiedStatBlock(null), 2000);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to copy stat block");
+      }
+    },
+    [previewMonster, previewMonsterWithCooldownAuthority, protectionTuning, weaponById],
+  );
   const previewCooldownAuthorityUnresolved =
     previewMonsterWithCooldownAuthority?.powers.some(
       (power) => !power.cooldownAuthority,
@@ -6692,6 +6767,160 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
     }
   }, [campaignId, editor?.id, refreshSummaries]);
 
+  const rescaleMonster = useCallback(async () => {
+    if (!editor?.id) return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(
+        `/api/summoning-circle/monsters/${editor.id}/rescale?campaignId=${encodeURIComponent(campaignId)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(rescaleTarget),
+        },
+      );
+      if (!res.ok) throw new Error(await res.text());
+      const json = await res.json();
+      const rescaledEditor = toEditable(json);
+      hasDraftRef.current = false;
+      await refreshSummaries();
+      setEditor(rescaledEditor);
+      setRestrictionDrafts(rehydrateMonsterPowerRestrictionDrafts(rescaledEditor.powers));
+      setCalculatorArchetype(normalizeCalculatorArchetype(rescaledEditor.calculatorArchetype));
+      setSelectedId(String(rescaledEditor.id));
+      setRescaleReport(json.rescale ?? null);
+      setRescaleOpen(false);
+      setSuccess("Rescaled draft created.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to rescale");
+    } finally {
+      setBusy(false);
+    }
+  }, [campaignId, editor?.id, refreshSummaries, rescaleTarget]);
+
+  const loadRevisions = useCallback(async () => {
+    if (!editor?.id) return;
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/summoning-circle/monsters/${editor.id}/revisions?campaignId=${encodeURIComponent(campaignId)}`,
+        { cache: "no-store" },
+      );
+      if (!res.ok) throw new Error(await res.text());
+      const json = (await res.json()) as { revisions: MonsterRevisionSummary[] };
+      setRevisions(json.revisions);
+      setHistoryCompare({
+        from: json.revisions[1]?.revision ?? null,
+        to: json.revisions[0]?.revision ?? null,
+      });
+      setHistoryDiff(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load revisions");
+    }
+  }, [campaignId, editor?.id]);
+
+  useEffect(() => {
+    setHistoryOpen(false);
+    setPromotionOpen(false);
+    setRevisions([]);
+    setHistoryDiff(null);
+  }, [editor?.id]);
+
+  const compareRevisions = useCallback(async () => {
+    if (!editor?.id || historyCompare.from === null || historyCompare.to === null) return;
+    setError(null);
+    try {
+      const [before, after] = await Promise.all(
+        [historyCompare.from, historyCompare.to].map(async (revision) => {
+          const res = await fetch(
+            `/api/summoning-circle/monsters/${editor.id}/revisions/${revision}?campaignId=${encodeURIComponent(campaignId)}`,
+            { cache: "no-store" },
+          );
+          if (!res.ok) throw new Error(await res.text());
+          return (await res.json()) as MonsterRevision;
+        }),
+      );
+      setHistoryDiff(diffMonsterRevisionSnapshots(before.snapshot, after.snapshot));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to compare revisions");
+    }
+  }, [campaignId, editor?.id, historyCompare]);
+
+  const restoreRevision = useCallback(
+    async (revision: number) => {
+      if (!editor?.id || readOnly) return;
+      if (!window.confirm(`Restore revision ${revision}? Unsaved changes will be lost.`)) return;
+      setBusy(true);
+      setError(null);
+      setSuccess(null);
+      try {
+        const res = await fetch(
+          `/api/summoning-circle/monsters/${editor.id}/revisions/${revision}/restore?campaignId=${encodeURIComponent(campaignId)}`,
+          { method: "POST" },
+        );
+        if (!res.ok) throw new Error(await res.text());
+        const json = await res.json();
+        const restoredEditor = toEditable(json);
+        hasDraftRef.current = false;
+        await refreshSummaries();
+        setEditor(restoredEditor);
+        setRestrictionDrafts(rehydrateMonsterPowerRestrictionDrafts(restoredEditor.powers));
+        setCalculatorArchetype(normalizeCalculatorArchetype(restoredEditor.calculatorArchetype));
+        await loadRevisions();
+        setSuccess(`Revision ${revision} restored as revision ${json.revision}.`);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to restore revision");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [campaignId, editor?.id, loadRevisions, readOnly, refreshSummaries],
+  );
+
+  const generateMonsters = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const seed = generatorRequest.seed.trim();
+      const res = await fetch(
+        `/api/summoning-circle/monsters/generate?campaignId=${encodeURIComponent(campaignId)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...generatorRequest,
+            seed: seed ? Number(seed) : null,
+          }),
+        },
+      );
+      if (!res.ok) throw new Error(await res.text());
+      const json = (await res.json()) as { seed: number; alternatives: GeneratedMonsterAlternative[] };
+      setGeneratorResult(json);
+      setGeneratorRequest((p) => ({ ...p, seed: String(json.seed) }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to generate monsters");
+    } finally {
+      setBusy(false);
+    }
+  }, [campaignId, generatorRequest]);
+
+  const applyGeneratedMonster = useCallback((alternative: GeneratedMonsterAlternative) => {
+    hasDraftRef.current = true;
+    setSuccess(null);
+    setMonsterPickerOpen(false);
+    setMonsterPickerQuery("");
+    setSelectedId(null);
+    const generatedEditor = toEditable(alternative.draft as unknown as Record<string, unknown>);
+    setEditor(generatedEditor);
+    setRestrictionDrafts(initializeMonsterPowerRestrictionDrafts(generatedEditor.powers));
+    setCalculatorArchetype(normalizeCalculatorArchetype(generatedEditor.calculatorArchetype));
+    setGeneratorOpen(false);
+    setSuccess(`Generated draft from seed ${alternative.seed}. Save to keep it.`);
+  }, []);
+
   const newMonster = useCallback(() => {
     hasDraftRef.current = true;
     setSuccess(null);
@@ -6730,10 +6959,12 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
       const [moved] = next.splice(fromIndex, 1);
       if (!moved) return prev;
       next.splice(toIndex, 0, moved);
+      const newIndexByOld = new Map(next.map((power, index) => [prev.powers.indexOf(power), index]));
 
       return {
         ...prev,
         powers: next.map((power, index) => ({ ...power, sortOrder: index })),
+        phases: remapMonsterPhasePowers(prev.phases ?? [], (sortOrder) => newIndexByOld.get(sortOrder) ?? null),
       };
     });
   }, []);
@@ -7175,6 +7406,141 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
     setMonsterExcludeLegendary(false);
   };
 
+  const renderMonsterGenerator = () => (
+    <div className="mt-2 space-y-2 rounded border border-zinc-800 bg-zinc-900/40 p-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-zinc-400">Generate</span>
+        <select
+          value={String(generatorRequest.level)}
+          onChange={(e) => setGeneratorRequest((p) => ({ ...p, level: Number(e.target.value) }))}
+          className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+        >
+          {LEVEL_OPTIONS.map((lvl) => (
+            <option key={lvl} value={String(lvl)}>
+              Level {lvl}
+            </option>
+          ))}
+        </select>
+        <select
+          value={generatorRequest.tier}
+          onChange={(e) => setGeneratorRequest((p) => ({ ...p, tier: e.target.value as MonsterTier }))}
+          className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+        >
+          {MONSTER_TIER_OPTIONS.map((tier) => (
+            <option key={tier} value={tier}>
+              {MONSTER_TIER_LABELS[tier]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={generatorRequest.archetype}
+          onChange={(e) =>
+            setGeneratorRequest((p) => ({ ...p, archetype: e.target.value as MonsterCalculatorArchetype }))
+          }
+          className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+        >
+          {MONSTER_CALCULATOR_ARCHETYPES.map((archetype) => (
+            <option key={archetype} value={archetype}>
+              {ARCHETYPE_LABELS[archetype]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-zinc-300">
+          <input
+            type="checkbox"
+            checked={generatorRequest.legendary}
+            onChange={(e) => setGeneratorRequest((p) => ({ ...p, legendary: e.target.checked }))}
+          />
+          Legendary
+        </label>
+        <label className="flex items-center gap-2 text-zinc-300">
+          Powers
+          <input
+            type="number"
+            min={0}
+            max={MAX_GENERATED_POWERS}
+            value={generatorRequest.powerCount}
+            onChange={(e) => setGeneratorRequest((p) => ({ ...p, powerCount: Number(e.target.value) }))}
+            className="w-16 rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+          />
+        </label>
+        <input
+          value={generatorRequest.seed}
+          onChange={(e) => setGeneratorRequest((p) => ({ ...p, seed: e.target.value }))}
+          placeholder="Random seed"
+          className="w-32 rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+        />
+        <button
+          onClick={generateMonsters}
+          disabled={busy || generatorRequest.damageTypes.length === 0}
+          className="rounded bg-emerald-600 px-3 py-1 text-sm text-white hover:bg-emerald-500 disabled:opacity-60"
+        >
+          Generate Drafts
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {picklists.damageTypes.map((damageType) => {
+          const selected = generatorRequest.damageTypes.includes(damageType.name);
+          return (
+            <button
+              key={damageType.id}
+              type="button"
+              onClick={() =>
+                setGeneratorRequest((p) => ({
+                  ...p,
+                  damageTypes: selected
+                    ? p.damageTypes.filter((name) => name !== damageType.name)
+                    : [...p.damageTypes, damageType.name],
+                }))
+              }
+              className={`rounded border px-2 py-0.5 text-xs ${
+                selected ? "border-emerald-600 bg-emerald-950/40 text-emerald-200" : "border-zinc-700 text-zinc-400"
+              }`}
+            >
+              {damageType.name}
+            </button>
+          );
+        })}
+      </div>
+      {generatorResult && (
+        <ul className="space-y-2 text-xs text-zinc-300">
+          {generatorResult.alternatives.map((alternative) => (
+            <li key={alternative.seed} className="space-y-1 rounded border border-zinc-800 p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-zinc-100">
+                  {alternative.draft.name}{" "}
+                  <span className="text-zinc-500">seed {alternative.seed}</span>
+                </span>
+                <button
+                  onClick={() => applyGeneratedMonster(alternative)}
+                  className="rounded border border-zinc-700 px-2 py-0.5 hover:bg-zinc-800"
+                >
+                  Use
+                </button>
+              </div>
+              <p>
+                {alternative.attributeGuide.shapeReadout}; budget {alternative.attributeGuide.currentTotal}/
+                {alternative.attributeGuide.expectedTotal} ({alternative.attributeGuide.budgetStatus})
+              </p>
+              <ul className="list-disc pl-4">
+                {alternative.powers.map((power) => (
+                  <li key={power.name}>
+                    {power.name}: {power.diceCount} dice, cooldown {power.cooldownTurns} ({power.cooldownBracket})
+                  </li>
+                ))}
+              </ul>
+              {alternative.warnings.map((warning) => (
+                <p key={warning} className="text-amber-300">
+                  {warning}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
   const renderMonsterSelectionBar = () => (
     <section className="rounded border border-zinc-800 bg-zinc-950/40 p-3">
       <div className="flex flex-col sm:flex-row sm:items-start gap-2">
@@ -7450,7 +7816,14 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
         >
           Summon new monster
         </button>
+        <button
+          onClick={() => setGeneratorOpen((open) => !open)}
+          className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-800"
+        >
+          Generate
+        </button>
       </div>
+      {generatorOpen && renderMonsterGenerator()}
     </section>
   );
 
@@ -8287,7 +8660,14 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
           >
             Summon new monster
           </button>
+          <button
+            onClick={() => setGeneratorOpen((open) => !open)}
+            className="rounded border border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-800"
+          >
+            Generate
+          </button>
         </div>
+        {generatorOpen && renderMonsterGenerator()}
       </section>
 
         {error && (
@@ -8374,6 +8754,55 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
                   Copy
                 </button>
               )}
+              {editor.id && (
+                <button
+                  onClick={() => {
+                    setRescaleTarget({ level: editor.level, tier: editor.tier, legendary: editor.legendary });
+                    setRescaleOpen((open) => !open);
+                  }}
+                  disabled={busy}
+                  className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800 disabled:opacity-60"
+                >
+                  Rescale
+                </button>
+              )}
+              {editor.id && (
+                <button
+                  onClick={() => {
+                    if (!historyOpen) void loadRevisions();
+                    setHistoryOpen((open) => !open);
+                  }}
+                  disabled={busy}
+                  className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800 disabled:opacity-60"
+                >
+                  History
+                </button>
+              )}
+              {previewMonster && (
+                <>
+                  <button
+                    onClick={() => void copyStatBlock("markdown")}
+                    className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800"
+                  >
+                    {copiedStatBlock === "markdown" ? "Copied" : "Copy Markdown"}
+                  </button>
+                  <button
+                    onClick={() => void copyStatBlock("text")}
+                    className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800"
+                  >
+                    {copiedStatBlock === "text" ? "Copied" : "Copy Text"}
+                  </button>
+                </>
+              )}
+              {editor.id && editor.source === "CAMPAIGN" && (
+                <button
+                  onClick={() => setPromotionOpen((open) => !open)}
+                  disabled={busy}
+                  className="rounded border border-zinc-700 px-3 py-1 text-sm hover:bg-zinc-800 disabled:opacity-60"
+                >
+                  Submit to CORE
+                </button>
+              )}
               {!readOnly && (
                 <>
                   {canDeleteMonsters ? (
@@ -8397,6 +8826,173 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
             </div>
           </div>
 
+          {rescaleOpen && editor.id && (
+            <div className="flex flex-wrap items-center gap-2 rounded border border-zinc-800 bg-zinc-900/40 p-2 text-sm">
+              <span className="text-xs text-zinc-400">Rescale to</span>
+              <select
+                value={String(rescaleTarget.level)}
+                onChange={(e) => setRescaleTarget((p) => ({ ...p, level: Number(e.target.value) }))}
+                className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              >
+                {LEVEL_OPTIONS.map((lvl) => (
+                  <option key={lvl} value={String(lvl)}>
+                    Level {lvl}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rescaleTarget.tier}
+                onChange={(e) => setRescaleTarget((p) => ({ ...p, tier: e.target.value as MonsterTier }))}
+                className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm"
+              >
+                {MONSTER_TIER_OPTIONS.map((tier) => (
+                  <option key={tier} value={tier}>
+                    {MONSTER_TIER_LABELS[tier]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={rescaleTarget.legendary}
+                  onChange={(e) => setRescaleTarget((p) => ({ ...p, legendary: e.target.checked }))}
+                />
+                Legendary
+              </label>
+              <button
+                onClick={rescaleMonster}
+                disabled={busy}
+                className="rounded bg-emerald-600 px-3 py-1 text-sm text-white hover:bg-emerald-500 disabled:opacity-60"
+              >
+                Create Draft
+              </button>
+            </div>
+          )}
+
+          {rescaleReport && (
+            <div className="space-y-1 rounded border border-zinc-800 bg-zinc-900/40 p-2 text-xs text-zinc-300">
+              <div className="flex items-center justify-between">
+                <span className="uppercase tracking-wide text-zinc-400">Rescale report</span>
+                <button onClick={() => setRescaleReport(null)} className="text-zinc-500 hover:text-zinc-300">
+                  Dismiss
+                </button>
+              </div>
+              <p>
+                Attribute shape: {rescaleReport.attributeGuide.before.shapeReadout} {"->"}{" "}
+                {rescaleReport.attributeGuide.after.shapeReadout}; budget {rescaleReport.attributeGuide.after.currentTotal}/
+                {rescaleReport.attributeGuide.after.expectedTotal}
+              </p>
+              <ul className="list-disc pl-4">
+                {rescaleReport.changes.map((change) => (
+                  <li key={change.field}>
+                    {change.field}: {String(change.from)} {"->"} {String(change.to)}
+                  </li>
+                ))}
+              </ul>
+              {rescaleReport.warnings.map((warning) => (
+                <p key={warning} className="text-amber-300">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {promotionOpen && editor.id && editor.source === "CAMPAIGN" && (
+            <MonsterPromotionPanel campaignId={campaignId} monsterId={editor.id} />
+          )}
+
+          {historyOpen && editor.id && (
+            <div className="space-y-2 rounded border border-zinc-800 bg-zinc-900/40 p-2 text-xs text-zinc-300">
+              <div className="flex items-center justify-between">
+                <span className="uppercase tracking-wide text-zinc-400">Revision history</span>
+                <button onClick={() => void loadRevisions()} className="text-zinc-500 hover:text-zinc-300">
+                  Refresh
+                </button>
+              </div>
+              {revisions.length === 0 ? (
+                <p className="text-zinc-500">No saved revisions yet.</p>
+              ) : (
+                <>
+                  <ul className="max-h-48 space-y-1 overflow-y-auto">
+                    {revisions.map((rev) => (
+                      <li key={rev.id} className="flex items-center gap-2">
+                        <span className="w-10 font-mono text-zinc-200">r{rev.revision}</span>
+                        <span className="text-zinc-400">{new Date(rev.createdAt).toLocaleString()}</span>
+                        <span className="text-zinc-500">by {rev.savedByUserId}</span>
+                        {rev.restoredFromRevision !== null && (
+                          <span className="text-zinc-500">restored from r{rev.restoredFromRevision}</span>
+                        )}
+                        {(rev.powerTuningSetId || rev.combatTuningSetId) && (
+                          <span className="text-zinc-500">
+                            tuning {rev.powerTuningSetId ?? "-"} / {rev.combatTuningSetId ?? "-"}
+                          </span>
+                        )}
+                        {!readOnly && rev.revision !== revisions[0]?.revision && (
+                          <button
+                            onClick={() => void restoreRevision(rev.revision)}
+                            disabled={busy}
+                            className="ml-auto rounded border border-zinc-700 px-2 py-0.5 hover:bg-zinc-800 disabled:opacity-60"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-zinc-400">Compare</span>
+                    {(["from", "to"] as const).map((side) => (
+                      <select
+                        key={side}
+                        value={historyCompare[side] === null ? "" : String(historyCompare[side])}
+                        onChange={(e) =>
+                          setHistoryCompare((p) => ({ ...p, [side]: e.target.value ? Number(e.target.value) : null }))
+                        }
+                        className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1"
+                      >
+                        <option value="">-</option>
+                        {revisions.map((rev) => (
+                          <option key={rev.id} value={String(rev.revision)}>
+                            r{rev.revision}
+                          </option>
+                        ))}
+                      </select>
+                    ))}
+                    <button
+                      onClick={() => void compareRevisions()}
+                      disabled={historyCompare.from === null || historyCompare.to === null}
+                      className="rounded border border-zinc-700 px-2 py-1 hover:bg-zinc-800 disabled:opacity-60"
+                    >
+                      Diff
+                    </button>
+                  </div>
+                </>
+              )}
+              {historyDiff &&
+                (historyDiff.length === 0 ? (
+                  <p className="text-zinc-500">No differences.</p>
+                ) : (
+                  <ul className="max-h-64 space-y-0.5 overflow-y-auto font-mono">
+                    {historyDiff.map((entry) => (
+                      <li key={`${entry.section}:${entry.path}`}>
+                        <span className="text-zinc-500">[{entry.section}]</span> {entry.path}:{" "}
+                        {entry.change === "added" ? (
+                          <span className="text-emerald-300">+ {formatMonsterRevisionValue(entry.after)}</span>
+                        ) : entry.change === "removed" ? (
+                          <span className="text-red-300">- {formatMonsterRevisionValue(entry.before)}</span>
+                        ) : (
+                          <>
+                            <span className="text-red-300">{formatMonsterRevisionValue(entry.before)}</span> {"->"}{" "}
+                            <span className="text-emerald-300">{formatMonsterRevisionValue(entry.after)}</span>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+            </div>
+          )}
+
           {!collapsedGuideSections.identity && (
             <>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
@@ -10649,7 +11245,15 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
                           e.stopPropagation();
                           if (!window.confirm("Remove this power? This cannot be undone.")) return;
                           setEditor((p) =>
-                            p ? { ...p, powers: p.powers.filter((_x, idx) => idx !== i) } : p,
+                            p
+                              ? {
+                                  ...p,
+                                  powers: p.powers.filter((_x, idx) => idx !== i),
+                                  phases: remapMonsterPhasePowers(p.phases ?? [], (sortOrder) =>
+                                    sortOrder === i ? null : sortOrder > i ? sortOrder - 1 : sortOrder,
+                                  ),
+                                }
+                              : p,
                           );
                         }}
                         className="rounded border border-zinc-700 px-2 py-1 text-xs hover:bg-zinc-800 shrink-0"
@@ -13053,6 +13657,14 @@ export function SummoningCircleEditor({ campaignId, canDeleteMonsters = false }:
           </section>
         )}
 
+        <MonsterPhaseEditor
+          phases={editor.phases ?? []}
+          powers={editor.powers}
+          traitDefinitions={traitDefinitions}
+          readOnly={readOnly}
+          onChangeAction={(phases) => setEditor((p) => (p ? { ...p, phases } : p))}
+        />
+
         <section className="rounded border border-zinc-800 bg-zinc-950/40 p-4 space-y-2">
           <h3 className="text-xs uppercase tracking-wide text-zinc-400">Custom Attributes</h3>
           <textarea
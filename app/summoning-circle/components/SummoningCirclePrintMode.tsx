@@ -2,12 +2,9 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import Link from "next/link";
-import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import type { MonsterStatBlockFormat } from "@/lib/summoning/statBlockExport";
 import type { MonsterSummary, MonsterUpsertInput } from "@/lib/summoning/types";
-import {
-  attachPowerCooldownAuthority,
-  resolvePowerCooldownAuthority,
-} from "@/lib/summoning/resolvePowerCooldownAuthority";
+import { resolveMonsterCooldownAuthorities } from "@/lib/summoning/resolvePowerCooldownAuthority";
 import { normalizeMonsterUpsertInput } from "@/lib/summoning/validation";
 import { MonsterBlockCard, type WeaponProjection } from "@/app/summoning-circle/components/MonsterBlockCard";
 import { usePowerTuning } from "@/app/summoning-circle/components/usePowerTuning";
@@ -44,25 +41,7 @@ const PAGE_BREAK_STYLE: CSSProperties = {
   pageBreakAfter: "always",
 };
 
-export function resolvePrintMonsterCooldownAuthorities(
-  monster: MonsterUpsertInput,
-  tuningSnapshot: PowerTuningSnapshot | null,
-): MonsterUpsertInput {
-  return {
-    ...monster,
-    powers: monster.powers.map((power) =>
-      attachPowerCooldownAuthority(
-        power,
-        resolvePowerCooldownAuthority({
-          power,
-          mode: "ACTIVE_CURRENT_BALANCE",
-          tuningSnapshot,
-          context: { level: monster.level, tier: monster.tier },
-        }),
-      ),
-    ),
-  };
-}
+export const resolvePrintMonsterCooldownAuthorities = resolveMonsterCooldownAuthorities;
 
 export function SummoningCirclePrintMode({ campaignId }: Props) {
   const [monsters, setMonsters] = useState<MonsterSummary[]>([]);
@@ -73,6 +52,8 @@ export function SummoningCirclePrintMode({ campaignId }: Props) {
   const [error, setError] = useState<string | null>(null);
   const [loadingDetailIds, setLoadingDetailIds] = useState<Record<string, boolean>>({});
   const [printLayout, setPrintLayout] = useState<PrintLayoutMode>("COMPACT_1P");
+  const [exportingStatBlocks, setExportingStatBlocks] = useState(false);
+  const [statBlockNotice, setStatBlockNotice] = useState<string | null>(null);
   const [isPrinting, setIsPrinting] = useState(false);
   const printOnlyRef = useRef<HTMLDivElement | null>(null);
   const protectionTuning = useProtectionTuning();
@@ -288,6 +269,42 @@ export function SummoningCirclePrintMode({ campaignId }: Props) {
     }, 0);
   }, []);
 
+  const exportSelectedStatBlocks = useCallback(
+    async (format: MonsterStatBlockFormat, action: "copy" | "download") => {
+      if (selectedIds.length === 0) return;
+      setExportingStatBlocks(true);
+      setStatBlockNotice(null);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ campaignId, ids: selectedIds.join(","), format });
+        const res = await fetch(`/api/summoning-circle/monsters/stat-blocks?${params.toString()}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error((data as { error?: string }).error ?? "Failed to export stat blocks");
+        }
+        const text = await res.text();
+        if (action === "copy") {
+          await navigator.clipboard.writeText(text);
+          setStatBlockNotice(`Copied ${selectedIds.length} stat block${selectedIds.length === 1 ? "" : "s"}.`);
+        } else {
+          const url = URL.createObjectURL(new Blob([text], { type: res.headers.get("Content-Type") ?? "text/plain" }));
+          const link = document.createElement("a");
+          link.href = url;
+          link.download = `monster-stat-blocks.${format === "markdown" ? "md" : "txt"}`;
+          link.click();
+          URL.revokeObjectURL(url);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to export stat blocks");
+      } finally {
+        setExportingStatBlocks(false);
+      }
+    },
+    [campaignId, selectedIds],
+  );
+
   const printablePages = useMemo(
     () =>
       readyPrintableMonsters.map((monster, idx) => {
@@ -381,6 +398,21 @@ export function SummoningCirclePrintMode({ campaignId }: Props) {
               >
                 Back To Editor
               </Link>
+              <select
+                value=""
+                disabled={selectedIds.length === 0 || exportingStatBlocks}
+                onChange={(e) => {
+                  const [format, action] = e.target.value.split(":") as [MonsterStatBlockFormat, "copy" | "download"];
+                  if (format && action) void exportSelectedStatBlocks(format, action);
+                }}
+                className="rounded border border-zinc-700 bg-zinc-950/40 px-2 py-2 text-sm disabled:opacity-50"
+              >
+                <option value="">{exportingStatBlocks ? "Exporting..." : "Export Selected"}</option>
+                <option value="markdown:copy">Copy as Markdown</option>
+                <option value="text:copy">Copy as Plain Text</option>
+                <option value="markdown:download">Download Markdown</option>
+                <option value="text:download">Download Plain Text</option>
+              </select>
               <button
                 type="button"
                 onClick={triggerPrint}
@@ -397,6 +429,7 @@ export function SummoningCirclePrintMode({ campaignId }: Props) {
           </div>
 
           {error && <p className="text-sm text-red-300">{error}</p>}
+          {statBlockNotice && <p className="text-sm text-zinc-400">{statBlockNotice}</p>}
           {selectedMonsters.length > 0 && powerTuning.loading && (
             <p className="text-sm text-zinc-400">Loading authoritative Power cooldowns...</p>
           )}
@@ -0,0 +1,102 @@
+export const MAX_CONSUMABLE_CHARGES = 99;
+export const MAX_USAGE_NOTE_LENGTH = 200;
+export const USAGE_LOG_LIST_LIMIT = 100;
+
+/**
+ * A backpack stack of consumables. Every unit starts with the template's charges; only the
+ * opened unit can be partly used, and `chargesRemaining` is null while no unit is open.
+ */
+export type ConsumableStack = {
+  quantity: number;
+  chargesRemaining: number | null;
+};
+
+export type ConsumableUseResult = ConsumableStack & {
+  /** Whole units used up by this use; each one leaves the backpack and the party inventory. */
+  unitsConsumed: number;
+  /** True when the last unit was used up and the stack should be deleted. */
+  stackConsumed: boolean;
+};
+
+export type ItemUsageLogView = {
+  id: string;
+  characterId: string | null;
+  characterName: string;
+  itemTemplateId: string | null;
+  itemName: string;
+  chargesUsed: number;
+  chargesRemaining: number;
+  unitsRemaining: number;
+  stackConsumed: boolean;
+  note: string | null;
+  actorUserId: string;
+  createdAt: string;
+};
+
+export class ConsumableError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "ConsumableError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/** Forge input: a whole number of charges per unit, or null for a single-use consumable. */
+export function normalizeConsumableCharges(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) return null;
+  return Math.min(parsed, MAX_CONSUMABLE_CHARGES);
+}
+
+/** Charges in one fresh unit, or null when the template is not a consumable. */
+export function consumableChargesPerUnit(template: { type: string | null; consumableCharges?: number | null }): number | null {
+  if (template.type !== "CONSUMABLE") return null;
+  return normalizeConsumableCharges(template.consumableCharges) ?? 1;
+}
+
+/** Charges left in the opened unit, treating a missing or out-of-range value as a fresh unit. */
+export function openUnitCharges(stack: ConsumableStack, chargesPerUnit: number): number {
+  const remaining = stack.chargesRemaining;
+  return remaining !== null && Number.isInteger(remaining) && remaining >= 1 && remaining <= chargesPerUnit
+    ? remaining
+    : chargesPerUnit;
+}
+
+/** Every charge left in the stack. */
+export function totalStackCharges(stack: ConsumableStack, chargesPerUnit: number): number {
+  if (stack.quantity <= 0) return 0;
+  return openUnitCharges(stack, chargesPerUnit) + (stack.quantity - 1) * chargesPerUnit;
+}
+
+/**
+ * Spends `charges` from the stack, opened unit first. A unit with no charges left is used up;
+ * the next unit stays unopened until a charge is spent from it.
+ */
+export function applyConsumableUse(stack: ConsumableStack, chargesPerUnit: number, charges: number): ConsumableUseResult {
+  if (!Number.isInteger(charges) || charges < 1) {
+    throw new ConsumableError("INVALID_CHARGES", "charges must be a positive whole number", 400);
+  }
+  const available = totalStackCharges(stack, chargesPerUnit);
+  if (charges > available) {
+    throw new ConsumableError("NOT_ENOUGH_CHARGES", `Only ${available} charge(s) left in this stack.`, 400);
+  }
+
+  const left = available - charges;
+  const quantity = Math.ceil(left / chargesPerUnit);
+  const openCharges = left - (quantity - 1) * chargesPerUnit;
+  return {
+    quantity,
+    chargesRemaining: quantity === 0 || openCharges === chargesPerUnit ? null : openCharges,
+    unitsConsumed: stack.quantity - quantity,
+    stackConsumed: quantity === 0,
+  };
+}
+
+export function readUsageNote(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_USAGE_NOTE_LENGTH) : null;
+}
@@ -0,0 +1,272 @@
+import { openUnitCharges, type ConsumableStack } from "@/lib/campaign/consumables";
+import type { ItemRarity } from "@/lib/forge/types";
+
+export const WALLET_TRANSACTION_KINDS = ["ADJUSTMENT", "TRANSFER", "PURCHASE", "SALE"] as const;
+export type WalletTransactionKind = (typeof WALLET_TRANSACTION_KINDS)[number];
+
+export const MAX_WALLET_AMOUNT = 1_000_000_000;
+export const MAX_SHOP_ITEMS = 200;
+export const MAX_PURCHASE_QUANTITY = 99;
+
+const MAX_CURRENCY_NAME_LENGTH = 24;
+const MAX_SHOP_NAME_LENGTH = 120;
+const MAX_SHOP_DESCRIPTION_LENGTH = 2000;
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Derives an item's market value from its Forge spend:
+ * buy = (basePrice + spentFp x pricePerFp) x rarity multiplier x (1 + levelStep x (level - 1)).
+ */
+export type ItemPricingRule = {
+  basePrice: number;
+  pricePerFp: number;
+  levelStep: number;
+  rarityMultipliers: Record<ItemRarity, number>;
+  /** Share of the buy price a shop pays when buying an item back. */
+  sellRatio: number;
+};
+
+export const DEFAULT_ITEM_PRICING_RULE: ItemPricingRule = {
+  basePrice: 10,
+  pricePerFp: 5,
+  levelStep: 0.1,
+  rarityMultipliers: {
+    COMMON: 1,
+    UNCOMMON: 2,
+    RARE: 4,
+    LEGENDARY: 10,
+    MYTHIC: 25,
+  },
+  sellRatio: 0.5,
+};
+
+const RARITIES = Object.keys(DEFAULT_ITEM_PRICING_RULE.rarityMultipliers) as ItemRarity[];
+
+export type ItemPrice = {
+  buyPrice: number;
+  sellPrice: number;
+};
+
+export type WalletSource = { kind: "party" } | { kind: "character"; characterId: string };
+
+export type ShopItemInput = {
+  itemTemplateId: string;
+  priceOverride: number | null;
+  /** Null means the shop never runs out. */
+  stock: number | null;
+};
+
+export type ShopInput = {
+  name: string;
+  description: string | null;
+  isOpen: boolean;
+  items: ShopItemInput[];
+};
+
+export type ShopItemView = ShopItemInput & {
+  id: string;
+  name: string;
+  rarity: ItemRarity;
+  type: string;
+  level: number;
+  /** The override when set, else the derived buy price. */
+  price: number;
+  sellPrice: number;
+};
+
+export type ShopView = {
+  id: string;
+  name: string;
+  description: string | null;
+  isOpen: boolean;
+  items: ShopItemView[];
+};
+
+export type WalletTransactionView = {
+  id: string;
+  characterId: string | null;
+  characterName: string | null;
+  kind: WalletTransactionKind;
+  amount: number;
+  balanceAfter: number;
+  note: string | null;
+  shopName: string | null;
+  itemName: string | null;
+  quantity: number | null;
+  actorUserId: string;
+  createdAt: string;
+};
+
+export type WalletOverview = {
+  currencyName: string;
+  partyFunds: number;
+  purses: Array<{ characterId: string; name: string; purse: number }>;
+  pricingRule: ItemPricingRule;
+  transactions: WalletTransactionView[];
+};
+
+export class EconomyError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "EconomyError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function invalid(message: string): never {
+  throw new EconomyError("INVALID_ECONOMY_INPUT", message, 400);
+}
+
+function readNumber(value: unknown, field: string, min: number, max: number): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (value === null || value === "" || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+    invalid(`${field} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+export function readWholeAmount(value: unknown, field: string, min: number, max = MAX_WALLET_AMOUNT): number {
+  const parsed = readNumber(value, field, min, max);
+  if (!Number.isInteger(parsed)) invalid(`${field} must be a whole number`);
+  return parsed;
+}
+
+function readOptionalWholeAmount(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  return readWholeAmount(value, field, 0);
+}
+
+export function readNote(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_NOTE_LENGTH) : null;
+}
+
+/** Stored rules are read leniently: anything missing or malformed falls back to the default. */
+export function readStoredPricingRule(value: unknown): ItemPricingRule {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const pick = (key: keyof Omit<ItemPricingRule, "rarityMultipliers">) => {
+    const parsed = Number(raw[key]);
+    return raw[key] !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_ITEM_PRICING_RULE[key];
+  };
+  const rawRarity = (raw.rarityMultipliers && typeof raw.rarityMultipliers === "object"
+    ? raw.rarityMultipliers
+    : {}) as Record<string, unknown>;
+  const rarityMultipliers = { ...DEFAULT_ITEM_PRICING_RULE.rarityMultipliers };
+  for (const rarity of RARITIES) {
+    const parsed = Number(rawRarity[rarity]);
+    if (rawRarity[rarity] !== undefined && Number.isFinite(parsed) && parsed >= 0) rarityMultipliers[rarity] = parsed;
+  }
+  return {
+    basePrice: pick("basePrice"),
+    pricePerFp: pick("pricePerFp"),
+    levelStep: pick("levelStep"),
+    rarityMultipliers,
+    sellRatio: Math.min(1, pick("sellRatio")),
+  };
+}
+
+/** Strict parse for a GD-submitted rule; every field is required. */
+export function parsePricingRuleInput(value: unknown): ItemPricingRule {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const rawRarity = (raw.rarityMultipliers && typeof raw.rarityMultipliers === "object"
+    ? raw.rarityMultipliers
+    : {}) as Record<string, unknown>;
+  const rarityMultipliers = {} as Record<ItemRarity, number>;
+  for (const rarity of RARITIES) {
+    rarityMultipliers[rarity] = readNumber(rawRarity[rarity], `rarityMultipliers.${rarity}`, 0, 1000);
+  }
+  return {
+    basePrice: readNumber(raw.basePrice, "basePrice", 0, 1_000_000),
+    pricePerFp: readNumber(raw.pricePerFp, "pricePerFp", 0, 100_000),
+    levelStep: readNumber(raw.levelStep, "levelStep", 0, 10),
+    rarityMultipliers,
+    sellRatio: readNumber(raw.sellRatio, "sellRatio", 0, 1),
+  };
+}
+
+export function parseCurrencyName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim().slice(0, MAX_CURRENCY_NAME_LENGTH) : "";
+  return name || invalid("currencyName is required");
+}
+
+/** Buy and sell prices for one item; negative Forge spend (over-refunded items) prices as zero spend. */
+export function priceItem(
+  item: { spentFp: number; rarity: ItemRarity; level: number },
+  rule: ItemPricingRule,
+): ItemPrice {
+  const rarityMultiplier = rule.rarityMultipliers[item.rarity] ?? 1;
+  const levelMultiplier = 1 + rule.levelStep * Math.max(0, item.level - 1);
+  const raw = (rule.basePrice + Math.max(0, item.spentFp) * rule.pricePerFp) * rarityMultiplier * levelMultiplier;
+  const buyPrice = Math.max(0, Math.round(raw));
+  return { buyPrice, sellPrice: Math.floor(buyPrice * rule.sellRatio) };
+}
+
+/** A shop's asking price: its override when set, else the derived buy price. */
+export function shopItemPrice(derived: ItemPrice, priceOverride: number | null): number {
+  return priceOverride ?? derived.buyPrice;
+}
+
+/** What a shop pays per item: its sell ratio of the override when the shop lists the item at its own price. */
+export function shopSellPrice(derived: ItemPrice, priceOverride: number | null, rule: ItemPricingRule): number {
+  return priceOverride === null ? derived.sellPrice : Math.floor(priceOverride * rule.sellRatio);
+}
+
+/**
+ * What a shop pays for `quantity` units of a backpack stack. Unopened units leave first, so the
+ * opened consumable only sells with the whole stack, at its unit price scaled by charges left.
+ */
+export function backpackSaleTotal(
+  unitPrice: number,
+  quantity: number,
+  stack: ConsumableStack,
+  chargesPerUnit: number | null,
+): number {
+  if (chargesPerUnit === null || stack.chargesRemaining === null || quantity < stack.quantity) {
+    return unitPrice * quantity;
+  }
+  const openedPrice = Math.floor((unitPrice * openUnitCharges(stack, chargesPerUnit)) / chargesPerUnit);
+  return unitPrice * (quantity - 1) + openedPrice;
+}
+
+/** Accepts "party" or a character id. */
+export function parseWalletSource(value: unknown, field: string): WalletSource {
+  if (value === "party") return { kind: "party" };
+  if (typeof value === "string" && value.trim()) return { kind: "character", characterId: value.trim() };
+  return invalid(`${field} must be "party" or a character id`);
+}
+
+export function sameWallet(a: WalletSource, b: WalletSource): boolean {
+  if (a.kind === "party" || b.kind === "party") return a.kind === b.kind;
+  return a.characterId === b.characterId;
+}
+
+export function parseShopInput(body: unknown): ShopInput {
+  const raw = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, MAX_SHOP_NAME_LENGTH) : "";
+  if (!name) invalid("name is required");
+  const description =
+    typeof raw.description === "string" && raw.description.trim()
+      ? raw.description.trim().slice(0, MAX_SHOP_DESCRIPTION_LENGTH)
+      : null;
+  const rawItems = Array.isArray(raw.items) ? raw.items : [];
+  if (rawItems.length > MAX_SHOP_ITEMS) invalid(`A shop can stock at most ${MAX_SHOP_ITEMS} items`);
+
+  const seen = new Set<string>();
+  const items = rawItems.map((value, index): ShopItemInput => {
+    const item = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+    const itemTemplateId = typeof item.itemTemplateId === "string" ? item.itemTemplateId.trim() : "";
+    if (!itemTemplateId) invalid(`items[${index}].itemTemplateId is required`);
+    if (seen.has(itemTemplateId)) invalid("A shop can list each item only once");
+    seen.add(itemTemplateId);
+    return {
+      itemTemplateId,
+      priceOverride: readOptionalWholeAmount(item.priceOverride, `items[${index}].priceOverride`),
+      stock: readOptionalWholeAmount(item.stock, `items[${index}].stock`),
+    };
+  });
+
+  return { name, description, isOpen: raw.isOpen !== false, items };
+}
@@ -0,0 +1,539 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import { consumableChargesPerUnit } from "@/lib/campaign/consumables";
+import {
+  backpackSaleTotal,
+  EconomyError,
+  priceItem,
+  readStoredPricingRule,
+  shopItemPrice,
+  shopSellPrice,
+  type ItemPrice,
+  type ItemPricingRule,
+  type ShopInput,
+  type ShopView,
+  type WalletOverview,
+  type WalletSource,
+  type WalletTransactionKind,
+  type WalletTransactionView,
+} from "@/lib/campaign/economy";
+import { calculateActiveForgeTotals } from "@/lib/config/forgeCostSets";
+import type { ItemRarity } from "@/lib/forge/types";
+import { prisma } from "@/prisma/client";
+
+const LEDGER_LIST_LIMIT = 50;
+
+const SHOP_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  isOpen: true,
+  items: {
+    select: {
+      id: true,
+      itemTemplateId: true,
+      priceOverride: true,
+      stock: true,
+      itemTemplate: { select: { name: true, rarity: true, type: true, level: true } },
+    },
+    orderBy: { itemTemplate: { name: "asc" } },
+  },
+} satisfies Prisma.CampaignShopSelect;
+
+type StoredShop = Prisma.CampaignShopGetPayload<{ select: typeof SHOP_SELECT }>;
+
+type WalletChange = {
+  campaignId: string;
+  source: WalletSource;
+  /** Signed; a debit fails rather than taking the balance below zero. */
+  amount: number;
+  kind: WalletTransactionKind;
+  note: string | null;
+  actorUserId: string;
+  shopId?: string | null;
+  itemTemplateId?: string | null;
+  quantity?: number | null;
+};
+
+function isUniqueConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function shopNotFound(): EconomyError {
+  return new EconomyError("SHOP_NOT_FOUND", "Shop not found.", 404);
+}
+
+async function loadPricingRule(campaignId: string): Promise<ItemPricingRule> {
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId }, select: { pricingRule: true } });
+  return readStoredPricingRule(campaign?.pricingRule);
+}
+
+/** Derived prices for campaign items, from their Forge spend under the active cost set. */
+export async function getCampaignItemPrices(
+  campaignId: string,
+  items: Array<{ id: string; rarity: ItemRarity; level: number }>,
+): Promise<Map<string, ItemPrice>> {
+  const [rule, totals] = await Promise.all([
+    loadPricingRule(campaignId),
+    calculateActiveForgeTotals(items.map((item) => item.id)),
+  ]);
+  return new Map(
+    items.map((item) => [
+      item.id,
+      priceItem({ spentFp: totals.get(item.id)?.spentFp ?? 0, rarity: item.rarity, level: item.level }, rule),
+    ]),
+  );
+}
+
+/**
+ * Every balance change goes through here so the ledger and the balance move together. The
+ * conditional update is what keeps two purchases racing for the same coins from both succeeding.
+ */
+async function applyWalletChange(tx: Prisma.TransactionClient, change: WalletChange): Promise<number> {
+  const debit = change.amount < 0 ? -change.amount : 0;
+  let balanceAfter: number;
+
+  if (change.source.kind === "party") {
+    const result = await tx.campaign.updateMany({
+      where: { id: change.campaignId, ...(debit > 0 ? { partyFunds: { gte: debit } } : {}) },
+      data: { partyFunds: { increment: change.amount } },
+    });
+    if (result.count === 0) {
+      throw new EconomyError("INSUFFICIENT_FUNDS", "The party wallet cannot cover this.", 409);
+    }
+    const campaign = await tx.campaign.findUniqueOrThrow({
+      where: { id: change.campaignId },
+      select: { partyFunds: true },
+    });
+    balanceAfter = campaign.partyFunds;
+  } else {
+    const characterId = change.source.characterId;
+    const result = await tx.campaignCharacter.updateMany({
+      where: { id: characterId, campaignId: change.campaignId, ...(debit > 0 ? { purse: { gte: debit } } : {}) },
+      data: { purse: { increment: change.amount } },
+    });
+    if (result.count === 0) {
+      const exists = await tx.campaignCharacter.count({ where: { id: characterId, campaignId: change.campaignId } });
+      throw exists
+        ? new EconomyError("INSUFFICIENT_FUNDS", "That purse cannot cover this.", 409)
+        : new EconomyError("CHARACTER_NOT_FOUND", "Character not found.", 404);
+    }
+    const character = await tx.campaignCharacter.findUniqueOrThrow({
+      where: { id: characterId },
+      select: { purse: true },
+    });
+    balanceAfter = character.purse;
+  }
+
+  await tx.campaignWalletTransaction.create({
+    data: {
+      campaignId: change.campaignId,
+      characterId: change.source.kind === "character" ? change.source.characterId : null,
+      kind: change.kind,
+      amount: change.amount,
+      balanceAfter,
+      note: change.note,
+      shopId: change.shopId ?? null,
+      itemTemplateId: change.itemTemplateId ?? null,
+      quantity: change.quantity ?? null,
+      actorUserId: change.actorUserId,
+    },
+  });
+  return balanceAfter;
+}
+
+/**
+ * Loads a character the user may spend for: any campaign character for a Game Director, else an
+ * active character assigned to the user.
+ */
+export async function requireSpendingCharacter(params: {
+  campaignId: string;
+  characterId: string;
+  userId: string;
+  canManage: boolean;
+}) {
+  const character = await prisma.campaignCharacter.findFirst({
+    where: { id: params.characterId, campaignId: params.campaignId },
+    select: { id: true, name: true, assignedUserId: true, archivedAt: true },
+  });
+  if (!character) throw new EconomyError("CHARACTER_NOT_FOUND", "Character not found.", 404);
+  if (!params.canManage && character.assignedUserId !== params.userId) {
+    throw new EconomyError("FORBIDDEN", "You can only spend from your own characters.", 403);
+  }
+  if (character.archivedAt) {
+    throw new EconomyError("CHARACTER_ARCHIVED", "Archived characters cannot trade.", 400);
+  }
+  return character;
+}
+
+/**
+ * Party funds, purses and recent ledger rows. `characterIds` limits purses and ledger rows to
+ * those characters (plus the party wallet); null shows every character.
+ */
+export async function getWalletOverview(campaignId: string, characterIds: string[] | null): Promise<WalletOverview> {
+  const characterFilter = characterIds === null ? {} : { id: { in: characterIds } };
+  const [campaign, characters, transactions] = await Promise.all([
+    prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { currencyName: true, partyFunds: true, pricingRule: true },
+    }),
+    prisma.campaignCharacter.findMany({
+      where: { campaignId, archivedAt: null, ...characterFilter },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, purse: true },
+    }),
+    prisma.campaignWalletTransaction.findMany({
+      where: {
+        campaignId,
+        ...(characterIds === null ? {} : { OR: [{ characterId: null }, { characterId: { in: characterIds } }] }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: LEDGER_LIST_LIMIT,
+      select: {
+        id: true,
+        characterId: true,
+        kind: true,
+        amount: true,
+        balanceAfter: true,
+        note: true,
+        quantity: true,
+        actorUserId: true,
+        createdAt: true,
+        character: { select: { name: true } },
+        shop: { select: { name: true } },
+        itemTemplate: { select: { name: true } },
+      },
+    }),
+  ]);
+  if (!campaign) throw new Error("NOT_FOUND");
+
+  return {
+    currencyName: campaign.currencyName,
+    partyFunds: campaign.partyFunds,
+    purses: characters.map((character) => ({ characterId: character.id, name: character.name, purse: character.purse })),
+    pricingRule: readStoredPricingRule(campaign.pricingRule),
+    transactions: transactions.map(
+      (row): WalletTransactionView => ({
+        id: row.id,
+        characterId: row.characterId,
+        characterName: row.character?.name ?? null,
+        kind: row.kind,
+        amount: row.amount,
+        balanceAfter: row.balanceAfter,
+        note: row.note,
+        shopName: row.shop?.name ?? null,
+        itemName: row.itemTemplate?.name ?? null,
+        quantity: row.quantity,
+        actorUserId: row.actorUserId,
+        createdAt: row.createdAt.toISOString(),
+      }),
+    ),
+  };
+}
+
+export async function updateEconomySettings(params: {
+  campaignId: string;
+  currencyName?: string;
+  pricingRule?: ItemPricingRule;
+}): Promise<void> {
+  await prisma.campaign.update({
+    where: { id: params.campaignId },
+    data: {
+      ...(params.currencyName !== undefined ? { currencyName: params.currencyName } : {}),
+      ...(params.pricingRule !== undefined ? { pricingRule: params.pricingRule as unknown as Prisma.InputJsonValue } : {}),
+    },
+  });
+}
+
+/** A Game Director grant (positive) or deduction (negative). */
+export async function adjustWallet(params: {
+  campaignId: string;
+  source: WalletSource;
+  amount: number;
+  note: string | null;
+  actorUserId: string;
+}): Promise<number> {
+  return prisma.$transaction((tx) => applyWalletChange(tx, { ...params, kind: "ADJUSTMENT" }));
+}
+
+export async function transferFunds(params: {
+  campaignId: string;
+  from: WalletSource;
+  to: WalletSource;
+  amount: number;
+  note: string | null;
+  actorUserId: string;
+}): Promise<void> {
+  const { campaignId, amount, note, actorUserId } = params;
+  await prisma.$transaction(async (tx) => {
+    await applyWalletChange(tx, { campaignId, source: params.from, amount: -amount, kind: "TRANSFER", note, actorUserId });
+    await applyWalletChange(tx, { campaignId, source: params.to, amount, kind: "TRANSFER", note, actorUserId });
+  });
+}
+
+async function toShopViews(campaignId: string, shops: StoredShop[]): Promise<ShopView[]> {
+  const itemsById = new Map<string, { id: string; rarity: ItemRarity; level: number }>();
+  for (const shop of shops) {
+    for (const item of shop.items) {
+      itemsById.set(item.itemTemplateId, {
+        id: item.itemTemplateId,
+        rarity: item.itemTemplate.rarity as ItemRarity,
+        level: item.itemTemplate.level,
+      });
+    }
+  }
+  const [prices, rule] = await Promise.all([
+    getCampaignItemPrices(campaignId, Array.from(itemsById.values())),
+    loadPricingRule(campaignId),
+  ]);
+
+  return shops.map((shop) => ({
+    id: shop.id,
+    name: shop.name,
+    description: shop.description,
+    isOpen: shop.isOpen,
+    items: shop.items.map((item) => {
+      const derived = prices.get(item.itemTemplateId) ?? { buyPrice: 0, sellPrice: 0 };
+      return {
+        id: item.id,
+        itemTemplateId: item.itemTemplateId,
+        priceOverride: item.priceOverride,
+        stock: item.stock,
+        name: item.itemTemplate.name,
+        rarity: item.itemTemplate.rarity as ItemRarity,
+        type: String(item.itemTemplate.type),
+        level: item.itemTemplate.level,
+        price: shopItemPrice(derived, item.priceOverride),
+        sellPrice: shopSellPrice(derived, item.priceOverride, rule),
+      };
+    }),
+  }));
+}
+
+export async function listCampaignShops(campaignId: string, includeClosed: boolean): Promise<ShopView[]> {
+  const shops = await prisma.campaignShop.findMany({
+    where: { campaignId, ...(includeClosed ? {} : { isOpen: true }) },
+    orderBy: { name: "asc" },
+    select: SHOP_SELECT,
+  });
+  return toShopViews(campaignId, shops);
+}
+
+/** Creates a shop, or replaces an existing shop's details and stock list when `shopId` is given. */
+export async function saveCampaignShop(params: {
+  campaignId: string;
+  shopId: string | null;
+  input: ShopInput;
+}): Promise<ShopView> {
+  const { campaignId, shopId, input } = params;
+  if (shopId) {
+    const existing = await prisma.campaignShop.findFirst({ where: { id: shopId, campaignId }, select: { id: true } });
+    if (!existing) throw shopNotFound();
+  }
+  const itemIds = input.items.map((item) => item.itemTemplateId);
+  if (itemIds.length > 0) {
+    const found = await prisma.itemTemplate.count({ where: { campaignId, id: { in: itemIds } } });
+    if (found !== itemIds.length) {
+      throw new EconomyError("SHOP_ITEM_NOT_FOUND", "One or more items were not found in this campaign.", 404);
+    }
+  }
+
+  try {
+    const shop = await prisma.$transaction(async (tx) => {
+      const fields = { name: input.name, description: input.description, isOpen: input.isOpen };
+      const saved = shopId
+        ? await tx.campaignShop.update({ where: { id: shopId }, data: fields, select: { id: true } })
+        : await tx.campaignShop.create({ data: { ...fields, campaignId }, select: { id: true } });
+
+      // Upserting keeps shop item ids stable for anyone mid-purchase.
+      await tx.campaignShopItem.deleteMany({ where: { shopId: saved.id, itemTemplateId: { notIn: itemIds } } });
+      for (const item of input.items) {
+        await tx.campaignShopItem.upsert({
+          where: { shopId_itemTemplateId: { shopId: saved.id, itemTemplateId: item.itemTemplateId } },
+          update: { priceOverride: item.priceOverride, stock: item.stock },
+          create: { shopId: saved.id, ...item },
+        });
+      }
+      return tx.campaignShop.findUniqueOrThrow({ where: { id: saved.id }, select: SHOP_SELECT });
+    });
+    const [view] = await toShopViews(campaignId, [shop]);
+    return view;
+  } catch (error) {
+    if (isUniqueConflict(error)) {
+      throw new EconomyError("SHOP_NAME_TAKEN", `A shop named "${input.name}" already exists.`, 409);
+    }
+    throw error;
+  }
+}
+
+export async function deleteCampaignShop(campaignId: string, shopId: string): Promise<void> {
+  const result = await prisma.campaignShop.deleteMany({ where: { id: shopId, campaignId } });
+  if (result.count === 0) throw shopNotFound();
+}
+
+/**
+ * Buys from an open shop straight into a character's backpack. The items land in the party
+ * inventory first and are assigned to the backpack, as every backpack item is.
+ */
+export async function purchaseShopItem(params: {
+  campaignId: string;
+  characterId: string;
+  shopItemId: string;
+  quantity: number;
+  payFrom: WalletSource;
+  actorUserId: string;
+}) {
+  const { campaignId, characterId, quantity } = params;
+  const shopItem = await prisma.campaignShopItem.findFirst({
+    where: { id: params.shopItemId, shop: { campaignId } },
+    select: {
+      id: true,
+      itemTemplateId: true,
+      priceOverride: true,
+      stock: true,
+      shop: { select: { id: true, isOpen: true } },
+      itemTemplate: { select: { rarity: true, level: true } },
+    },
+  });
+  if (!shopItem) throw new EconomyError("SHOP_ITEM_NOT_FOUND", "That item is not for sale.", 404);
+  if (!shopItem.shop.isOpen) throw new EconomyError("SHOP_CLOSED", "That shop is closed.", 409);
+
+  const prices = await getCampaignItemPrices(campaignId, [
+    { id: shopItem.itemTemplateId, rarity: shopItem.itemTemplate.rarity as ItemRarity, level: shopItem.itemTemplate.level },
+  ]);
+  const unitPrice = shopItemPrice(prices.get(shopItem.itemTemplateId) ?? { buyPrice: 0, sellPrice: 0 }, shopItem.priceOverride);
+  const total = unitPrice * quantity;
+
+  return prisma.$transaction(async (tx) => {
+    if (shopItem.stock !== null) {
+      const claimed = await tx.campaignShopItem.updateMany({
+        where: { id: shopItem.id, stock: { gte: quantity } },
+        data: { stock: { decrement: quantity } },
+      });
+      if (claimed.count === 0) throw new EconomyError("OUT_OF_STOCK", "The shop does not have that many.", 409);
+    }
+
+    const balance = await applyWalletChange(tx, {
+      campaignId,
+      source: params.payFrom,
+      amount: -total,
+      kind: "PURCHASE",
+      note: null,
+      actorUserId: params.actorUserId,
+      shopId: shopItem.shop.id,
+      itemTemplateId: shopItem.itemTemplateId,
+      quantity,
+    });
+
+    const partyItem = await tx.campaignPartyInventoryItem.upsert({
+      where: { campaignId_itemTemplateId: { campaignId, itemTemplateId: shopItem.itemTemplateId } },
+      update: { quantity: { increment: quantity } },
+      create: { campaignId, itemTemplateId: shopItem.itemTemplateId, quantity },
+      select: { id: true },
+    });
+    const backpackItem = await tx.campaignCharacterBackpackItem.upsert({
+      where: { characterId_partyInventoryItemId: { characterId, partyInventoryItemId: partyItem.id } },
+      update: { quantity: { increment: quantity } },
+      create: { campaignId, characterId, partyInventoryItemId: partyItem.id, quantity },
+      select: { id: true, quantity: true, characterId: true, partyInventoryItemId: true },
+    });
+
+    return { backpackItem, unitPrice, total, balance };
+  });
+}
+
+/**
+ * Sells from a character's backpack to an open shop for the sell price, paid into the character's
+ * purse. Stock-tracked shops take the items back into stock.
+ */
+export async function sellBackpackItem(params: {
+  campaignId: string;
+  characterId: string;
+  shopId: string;
+  backpackItemId: string;
+  quantity: number;
+  actorUserId: string;
+}) {
+  const { campaignId, characterId, quantity } = params;
+  const [shop, backpackItem, rule] = await Promise.all([
+    prisma.campaignShop.findFirst({
+      where: { id: params.shopId, campaignId },
+      select: { id: true, isOpen: true },
+    }),
+    prisma.campaignCharacterBackpackItem.findFirst({
+      where: { id: params.backpackItemId, campaignId, characterId },
+      select: {
+        id: true,
+        quantity: true,
+        chargesRemaining: true,
+        partyInventoryItem: {
+          select: {
+            id: true,
+            quantity: true,
+            itemTemplateId: true,
+            itemTemplate: { select: { rarity: true, level: true, type: true, consumableCharges: true } },
+          },
+        },
+      },
+    }),
+    loadPricingRule(campaignId),
+  ]);
+  if (!shop) throw shopNotFound();
+  if (!shop.isOpen) throw new EconomyError("SHOP_CLOSED", "That shop is closed.", 409);
+  if (!backpackItem) throw new EconomyError("BACKPACK_ITEM_NOT_FOUND", "Backpack item not found.", 404);
+  if (quantity > backpackItem.quantity) {
+    throw new EconomyError("NOT_ENOUGH_ITEMS", `Only ${backpackItem.quantity} in this backpack.`, 400);
+  }
+
+  const partyItem = backpackItem.partyInventoryItem;
+  const [prices, listing] = await Promise.all([
+    getCampaignItemPrices(campaignId, [
+      { id: partyItem.itemTemplateId, rarity: partyItem.itemTemplate.rarity as ItemRarity, level: partyItem.itemTemplate.level },
+    ]),
+    prisma.campaignShopItem.findUnique({
+      where: { shopId_itemTemplateId: { shopId: shop.id, itemTemplateId: partyItem.itemTemplateId } },
+      select: { id: true, priceOverride: true, stock: true },
+    }),
+  ]);
+  const derived = prices.get(partyItem.itemTemplateId) ?? { buyPrice: 0, sellPrice: 0 };
+  const unitPrice = shopSellPrice(derived, listing?.priceOverride ?? null, rule);
+  const total = backpackSaleTotal(
+    unitPrice,
+    quantity,
+    backpackItem,
+    consumableChargesPerUnit(partyItem.itemTemplate),
+  );
+
+  return prisma.$transaction(async (tx) => {
+    // Matching the charges read above keeps the total honest if the stack was used meanwhile.
+    const taken = await tx.campaignCharacterBackpackItem.updateMany({
+      where: { id: backpackItem.id, quantity: { gte: quantity }, chargesRemaining: backpackItem.chargesRemaining },
+      data: { quantity: { decrement: quantity } },
+    });
+    if (taken.count === 0) throw new EconomyError("NOT_ENOUGH_ITEMS", "The backpack changed. Reload and try again.", 409);
+    await tx.campaignCharacterBackpackItem.deleteMany({ where: { id: backpackItem.id, quantity: { lte: 0 } } });
+    await tx.campaignPartyInventoryItem.update({
+      where: { id: partyItem.id },
+      data: { quantity: { decrement: quantity } },
+    });
+    await tx.campaignPartyInventoryItem.deleteMany({ where: { id: partyItem.id, quantity: { lte: 0 } } });
+    if (listing && listing.stock !== null) {
+      await tx.campaignShopItem.update({ where: { id: listing.id }, data: { stock: { increment: quantity } } });
+    }
+
+    const balance = await applyWalletChange(tx, {
+      campaignId,
+      source: { kind: "character", characterId },
+      amount: total,
+      kind: "SALE",
+      note: null,
+      actorUserId: params.actorUserId,
+      shopId: shop.id,
+      itemTemplateId: partyItem.itemTemplateId,
+      quantity,
+    });
+    return { unitPrice, total, balance };
+  });
+}
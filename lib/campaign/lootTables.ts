@@ -0,0 +1,334 @@
+import { createSeededRng, type Rng } from "@/lib/combat-lab/dice";
+import type { EncounterSnapshot } from "@/lib/combat-lab/encounter";
+import type { ItemRarity } from "@/lib/forge/types";
+
+export const LOOT_ENTRY_KINDS = ["ITEM", "RARITY", "TAG", "SUB_TABLE", "NOTHING"] as const;
+export type LootEntryKind = (typeof LOOT_ENTRY_KINDS)[number];
+
+export const LOOT_ITEM_RARITIES: ItemRarity[] = ["COMMON", "UNCOMMON", "RARE", "LEGENDARY", "MYTHIC"];
+
+export const MAX_LOOT_TABLE_ENTRIES = 50;
+export const MAX_LOOT_TABLE_ROLL_COUNT = 20;
+export const MAX_LOOT_ENTRY_WEIGHT = 1000;
+export const MAX_LOOT_ENTRY_QUANTITY = 99;
+/** Sub-tables may nest this deep; deeper links are refused on save and cut off when rolling. */
+export const MAX_LOOT_TABLE_DEPTH = 5;
+
+const MAX_LOOT_TABLE_NAME_LENGTH = 120;
+const MAX_LOOT_TABLE_DESCRIPTION_LENGTH = 2000;
+const MAX_LOOT_TAG_LENGTH = 60;
+const MAX_LOOT_SEED = 2 ** 31 - 1;
+
+export type LootTableEntryInput = {
+  kind: LootEntryKind;
+  weight: number;
+  minQuantity: number;
+  maxQuantity: number;
+  itemTemplateId: string | null;
+  rarity: ItemRarity | null;
+  tag: string | null;
+  subTableId: string | null;
+};
+
+export type LootTableInput = {
+  name: string;
+  description: string | null;
+  rollCount: number;
+  entries: LootTableEntryInput[];
+  /** Campaign monsters that drop from this table when defeated in an encounter. */
+  monsterIds: string[];
+};
+
+export type LootTableSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  rollCount: number;
+  entryCount: number;
+  monsterCount: number;
+  updatedAt: string;
+};
+
+export type LootTableDetail = Omit<LootTableSummary, "entryCount" | "monsterCount"> & {
+  entries: Array<LootTableEntryInput & { id: string }>;
+  monsterIds: string[];
+};
+
+export type LootTableDefinition = {
+  id: string;
+  name: string;
+  rollCount: number;
+  entries: LootTableEntryInput[];
+};
+
+export type LootCatalogItem = {
+  id: string;
+  name: string;
+  rarity: ItemRarity;
+  tags: string[];
+};
+
+export type LootDrop = {
+  itemTemplateId: string;
+  name: string;
+  rarity: ItemRarity;
+  quantity: number;
+};
+
+export type LootRollResult = {
+  drops: LootDrop[];
+  /** Entries that rolled but could not produce an item, e.g. a tag with no matching items. */
+  notes: string[];
+};
+
+export type EncounterLootMonsterDrop = {
+  actorId: string;
+  monsterName: string;
+  lootTableId: string;
+  lootTableName: string;
+  drops: LootDrop[];
+};
+
+export type EncounterLootRecord = {
+  seed: number;
+  rolledAt: string;
+  rolledByUserId: string;
+  deposited: boolean;
+  monsters: EncounterLootMonsterDrop[];
+  drops: LootDrop[];
+  notes: string[];
+};
+
+export class LootTableError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "LootTableError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function invalid(message: string): never {
+  throw new LootTableError("INVALID_LOOT_TABLE", message, 400);
+}
+
+function readInteger(value: unknown, field: string, min: number, max: number, fallback?: number): number {
+  if ((value === undefined || value === null || value === "") && fallback !== undefined) return fallback;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    invalid(`${field} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function readOptionalId(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseLootEntry(value: unknown, index: number): LootTableEntryInput {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const label = `entries[${index}]`;
+  if (!LOOT_ENTRY_KINDS.includes(raw.kind as LootEntryKind)) {
+    invalid(`${label}.kind must be one of ${LOOT_ENTRY_KINDS.join(", ")}`);
+  }
+  const kind = raw.kind as LootEntryKind;
+  const weight = readInteger(raw.weight, `${label}.weight`, 1, MAX_LOOT_ENTRY_WEIGHT, 1);
+  const minQuantity = readInteger(raw.minQuantity, `${label}.minQuantity`, 1, MAX_LOOT_ENTRY_QUANTITY, 1);
+  const maxQuantity = readInteger(raw.maxQuantity, `${label}.maxQuantity`, 1, MAX_LOOT_ENTRY_QUANTITY, minQuantity);
+  if (maxQuantity < minQuantity) invalid(`${label}.maxQuantity must be at least minQuantity`);
+
+  const entry: LootTableEntryInput = {
+    kind,
+    weight,
+    minQuantity,
+    maxQuantity,
+    itemTemplateId: null,
+    rarity: null,
+    tag: null,
+    subTableId: null,
+  };
+  if (kind === "ITEM") {
+    entry.itemTemplateId = readOptionalId(raw.itemTemplateId) ?? invalid(`${label}.itemTemplateId is required`);
+  } else if (kind === "RARITY") {
+    if (!LOOT_ITEM_RARITIES.includes(raw.rarity as ItemRarity)) {
+      invalid(`${label}.rarity must be one of ${LOOT_ITEM_RARITIES.join(", ")}`);
+    }
+    entry.rarity = raw.rarity as ItemRarity;
+  } else if (kind === "TAG") {
+    const tag = typeof raw.tag === "string" ? raw.tag.trim().slice(0, MAX_LOOT_TAG_LENGTH) : "";
+    entry.tag = tag || invalid(`${label}.tag is required`);
+  } else if (kind === "SUB_TABLE") {
+    entry.subTableId = readOptionalId(raw.subTableId) ?? invalid(`${label}.subTableId is required`);
+  }
+  return entry;
+}
+
+/** Validates a loot table body; item, sub-table and monster ids are checked against the campaign on save. */
+export function parseLootTableInput(body: unknown): LootTableInput {
+  const raw = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, MAX_LOOT_TABLE_NAME_LENGTH) : "";
+  if (!name) invalid("name is required");
+  const description =
+    typeof raw.description === "string" && raw.description.trim()
+      ? raw.description.trim().slice(0, MAX_LOOT_TABLE_DESCRIPTION_LENGTH)
+      : null;
+  if (!Array.isArray(raw.entries) || raw.entries.length === 0) invalid("entries must list at least one entry");
+  if (raw.entries.length > MAX_LOOT_TABLE_ENTRIES) invalid(`A loot table can have at most ${MAX_LOOT_TABLE_ENTRIES} entries`);
+  const monsterIds = Array.isArray(raw.monsterIds)
+    ? Array.from(new Set(raw.monsterIds.map(readOptionalId).filter((id): id is string => id !== null)))
+    : [];
+
+  return {
+    name,
+    description,
+    rollCount: readInteger(raw.rollCount, "rollCount", 1, MAX_LOOT_TABLE_ROLL_COUNT, 1),
+    entries: raw.entries.map(parseLootEntry),
+    monsterIds,
+  };
+}
+
+/** Accepts a caller-supplied seed or picks one; the seed is echoed so a roll can be reproduced. */
+export function resolveLootSeed(value: unknown): number {
+  if (value === undefined || value === null || value === "") {
+    return Math.floor(Math.random() * (MAX_LOOT_SEED - 1)) + 1;
+  }
+  return readInteger(value, "seed", 1, MAX_LOOT_SEED);
+}
+
+/**
+ * Returns the chain of table ids that loops back to `tableId` through sub-table entries, or the
+ * chain that nests deeper than MAX_LOOT_TABLE_DEPTH, else null.
+ */
+export function findLootTableNestingProblem(
+  tableId: string,
+  subTableIdsByTable: Map<string, string[]>,
+): { kind: "cycle" | "depth"; path: string[] } | null {
+  const walk = (current: string, path: string[]): { kind: "cycle" | "depth"; path: string[] } | null => {
+    if (path.length > MAX_LOOT_TABLE_DEPTH) return { kind: "depth", path };
+    for (const child of subTableIdsByTable.get(current) ?? []) {
+      if (child === tableId || path.includes(child)) return { kind: "cycle", path: [...path, child] };
+      const problem = walk(child, [...path, child]);
+      if (problem) return problem;
+    }
+    return null;
+  };
+  return walk(tableId, [tableId]);
+}
+
+function rollQuantity(rng: Rng, entry: LootTableEntryInput): number {
+  return entry.minQuantity + Math.floor(rng() * (entry.maxQuantity - entry.minQuantity + 1));
+}
+
+function pickWeighted(rng: Rng, entries: LootTableEntryInput[]): LootTableEntryInput | null {
+  const total = entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+  if (total <= 0) return null;
+  let ticket = rng() * total;
+  for (const entry of entries) {
+    ticket -= Math.max(0, entry.weight);
+    if (ticket < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
+
+function pickItem(rng: Rng, items: LootCatalogItem[]): LootCatalogItem {
+  return items[Math.min(items.length - 1, Math.floor(rng() * items.length))];
+}
+
+/** Adds up drops of the same item, keeping the first-seen order. */
+export function mergeLootDrops(drops: LootDrop[]): LootDrop[] {
+  const merged = new Map<string, LootDrop>();
+  for (const drop of drops) {
+    const existing = merged.get(drop.itemTemplateId);
+    if (existing) existing.quantity += drop.quantity;
+    else merged.set(drop.itemTemplateId, { ...drop });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Rolls a table `rollCount` times. Rarity and tag entries pick one matching catalog item at random;
+ * a sub-table entry rolls that table once per unit of quantity.
+ */
+export function rollLootTable(
+  tableId: string,
+  tables: Map<string, LootTableDefinition>,
+  catalog: LootCatalogItem[],
+  rng: Rng,
+): LootRollResult {
+  const drops: LootDrop[] = [];
+  const notes: string[] = [];
+  const itemsById = new Map(catalog.map((item) => [item.id, item]));
+
+  const drop = (item: LootCatalogItem, quantity: number) => {
+    drops.push({ itemTemplateId: item.id, name: item.name, rarity: item.rarity, quantity });
+  };
+
+  const rollTable = (id: string, depth: number) => {
+    const table = tables.get(id);
+    if (!table) {
+      notes.push("A linked sub-table no longer exists.");
+      return;
+    }
+    if (depth > MAX_LOOT_TABLE_DEPTH) {
+      notes.push(`${table.name} is nested too deeply and was skipped.`);
+      return;
+    }
+    for (let roll = 0; roll < table.rollCount; roll += 1) {
+      const entry = pickWeighted(rng, table.entries);
+      if (!entry || entry.kind === "NOTHING") continue;
+      const quantity = rollQuantity(rng, entry);
+
+      if (entry.kind === "SUB_TABLE") {
+        for (let repeat = 0; repeat < quantity; repeat += 1) rollTable(entry.subTableId ?? "", depth + 1);
+        continue;
+      }
+      if (entry.kind === "ITEM") {
+        const item = itemsById.get(entry.itemTemplateId ?? "");
+        if (item) drop(item, quantity);
+        else notes.push(`${table.name}: an item entry points at an item that no longer exists.`);
+        continue;
+      }
+
+      const tag = entry.tag?.toLowerCase() ?? "";
+      const candidates =
+        entry.kind === "RARITY"
+          ? catalog.filter((item) => item.rarity === entry.rarity)
+          : catalog.filter((item) => item.tags.some((itemTag) => itemTag.toLowerCase() === tag));
+      if (candidates.length === 0) {
+        notes.push(
+          `${table.name}: no ${entry.kind === "RARITY" ? `${entry.rarity} items` : `items tagged "${entry.tag}"`} to drop.`,
+        );
+        continue;
+      }
+      drop(pickItem(rng, candidates), quantity);
+    }
+  };
+
+  rollTable(tableId, 1);
+  return { drops: mergeLootDrops(drops), notes: Array.from(new Set(notes)) };
+}
+
+/** Rolls a table from a fresh generator so the same seed always gives the same drops. */
+export function rollLootTableWithSeed(
+  tableId: string,
+  tables: Map<string, LootTableDefinition>,
+  catalog: LootCatalogItem[],
+  seed: number,
+): LootRollResult {
+  return rollLootTable(tableId, tables, catalog, createSeededRng(seed));
+}
+
+/** Defeated monster-side combatants that came from a saved monster, in turn order. */
+export function defeatedEncounterMonsters(
+  snapshot: EncounterSnapshot,
+): Array<{ actorId: string; actorName: string; monsterId: string }> {
+  return snapshot.combatants.flatMap((combatant) => {
+    if (combatant.sourceType !== "monster") return [];
+    const actor = snapshot.combat.actors.find((entry) => entry.id === combatant.actorId);
+    if (!actor || actor.side !== "monsters" || !actor.defeated) return [];
+    return [{ actorId: actor.id, actorName: actor.name, monsterId: combatant.sourceId }];
+  });
+}
@@ -0,0 +1,389 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import {
+  defeatedEncounterMonsters,
+  findLootTableNestingProblem,
+  LootTableError,
+  mergeLootDrops,
+  rollLootTable,
+  rollLootTableWithSeed,
+  type EncounterLootMonsterDrop,
+  type EncounterLootRecord,
+  type LootCatalogItem,
+  type LootDrop,
+  type LootTableDefinition,
+  type LootTableDetail,
+  type LootTableInput,
+  type LootTableSummary,
+} from "@/lib/campaign/lootTables";
+import { createSeededRng } from "@/lib/combat-lab/dice";
+import type { EncounterSnapshot } from "@/lib/combat-lab/encounter";
+import type { ItemRarity } from "@/lib/forge/types";
+import { prisma } from "@/prisma/client";
+
+const LOOT_TABLE_ENTRY_SELECT = {
+  id: true,
+  kind: true,
+  weight: true,
+  minQuantity: true,
+  maxQuantity: true,
+  itemTemplateId: true,
+  rarity: true,
+  tag: true,
+  subTableId: true,
+} satisfies Prisma.CampaignLootTableEntrySelect;
+
+const LOOT_TABLE_DETAIL_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  rollCount: true,
+  updatedAt: true,
+  entries: { select: LOOT_TABLE_ENTRY_SELECT, orderBy: { sortOrder: "asc" } },
+  monsters: { select: { id: true }, orderBy: { name: "asc" } },
+} satisfies Prisma.CampaignLootTableSelect;
+
+type StoredLootTable = Prisma.CampaignLootTableGetPayload<{ select: typeof LOOT_TABLE_DETAIL_SELECT }>;
+
+function isUniqueConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function notFound(): LootTableError {
+  return new LootTableError("LOOT_TABLE_NOT_FOUND", "Loot table not found.", 404);
+}
+
+function toEntries(row: StoredLootTable): LootTableDetail["entries"] {
+  return row.entries.map((entry) => ({
+    ...entry,
+    rarity: (entry.rarity as ItemRarity | null) ?? null,
+  }));
+}
+
+function toDetail(row: StoredLootTable): LootTableDetail {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    rollCount: row.rollCount,
+    updatedAt: row.updatedAt.toISOString(),
+    entries: toEntries(row),
+    monsterIds: row.monsters.map((monster) => monster.id),
+  };
+}
+
+async function loadCampaignLootDefinitions(campaignId: string): Promise<Map<string, LootTableDefinition>> {
+  const rows = await prisma.campaignLootTable.findMany({
+    where: { campaignId },
+    select: LOOT_TABLE_DETAIL_SELECT,
+  });
+  return new Map(
+    rows.map((row) => [row.id, { id: row.id, name: row.name, rollCount: row.rollCount, entries: toEntries(row) }]),
+  );
+}
+
+async function loadCampaignLootCatalog(campaignId: string): Promise<LootCatalogItem[]> {
+  const rows = await prisma.itemTemplate.findMany({
+    where: { campaignId },
+    orderBy: [{ name: "asc" }, { id: "asc" }],
+    select: { id: true, name: true, rarity: true, tags: { select: { tag: true } } },
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    rarity: row.rarity as ItemRarity,
+    tags: row.tags.map((entry) => entry.tag),
+  }));
+}
+
+/** Every referenced item, sub-table and monster must belong to the campaign, and sub-tables must not loop. */
+async function validateLootTableReferences(campaignId: string, lootTableId: string | null, input: LootTableInput) {
+  const itemIds = Array.from(new Set(input.entries.flatMap((entry) => (entry.itemTemplateId ? [entry.itemTemplateId] : []))));
+  const subTableIds = Array.from(new Set(input.entries.flatMap((entry) => (entry.subTableId ? [entry.subTableId] : []))));
+
+  const [items, monsters, definitions] = await Promise.all([
+    itemIds.length > 0
+      ? prisma.itemTemplate.findMany({ where: { campaignId, id: { in: itemIds } }, select: { id: true } })
+      : Promise.resolve([]),
+    input.monsterIds.length > 0
+      ? prisma.monster.findMany({ where: { campaignId, id: { in: input.monsterIds } }, select: { id: true } })
+      : Promise.resolve([]),
+    loadCampaignLootDefinitions(campaignId),
+  ]);
+
+  if (items.length !== itemIds.length) {
+    throw new LootTableError("LOOT_ITEM_NOT_FOUND", "One or more items were not found in this campaign.", 404);
+  }
+  if (monsters.length !== input.monsterIds.length) {
+    throw new LootTableError("LOOT_MONSTER_NOT_FOUND", "One or more monsters were not found in this campaign.", 404);
+  }
+  if (subTableIds.some((id) => !definitions.has(id))) {
+    throw new LootTableError("LOOT_SUB_TABLE_NOT_FOUND", "One or more sub-tables were not found in this campaign.", 404);
+  }
+
+  const selfId = lootTableId ?? "__new__";
+  const subTablesByTable = new Map<string, string[]>();
+  for (const definition of definitions.values()) {
+    subTablesByTable.set(
+      definition.id,
+      definition.entries.flatMap((entry) => (entry.subTableId ? [entry.subTableId] : [])),
+    );
+  }
+  subTablesByTable.set(selfId, subTableIds);
+  const problem = findLootTableNestingProblem(selfId, subTablesByTable);
+  if (problem) {
+    const names = problem.path.map((id) => (id === selfId ? input.name : definitions.get(id)?.name ?? id));
+    throw new LootTableError(
+      problem.kind === "cycle" ? "LOOT_TABLE_CYCLE" : "LOOT_TABLE_TOO_DEEP",
+      problem.kind === "cycle"
+        ? `Sub-tables cannot loop back on themselves (${names.join(" -> ")}).`
+        : `Sub-tables nest too deeply (${names.join(" -> ")}).`,
+      400,
+    );
+  }
+}
+
+function entryRows(input: LootTableInput) {
+  return input.entries.map((entry, index) => ({ ...entry, sortOrder: index }));
+}
+
+export async function listCampaignLootTables(campaignId: string): Promise<LootTableSummary[]> {
+  const rows = await prisma.campaignLootTable.findMany({
+    where: { campaignId },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      rollCount: true,
+      updatedAt: true,
+      _count: { select: { entries: true, monsters: true } },
+    },
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    rollCount: row.rollCount,
+    entryCount: row._count.entries,
+    monsterCount: row._count.monsters,
+    updatedAt: row.updatedAt.toISOString(),
+  }));
+}
+
+/** Items, tags and campaign monsters the loot table editor can point at. */
+export async function getLootTableEditorOptions(campaignId: string) {
+  const [items, monsters] = await Promise.all([
+    loadCampaignLootCatalog(campaignId),
+    prisma.monster.findMany({
+      where: { campaignId },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, level: true, lootTableId: true },
+    }),
+  ]);
+  const tags = Array.from(new Set<string>(items.flatMap((item) => item.tags))).sort((a, b) => a.localeCompare(b));
+  return { items, tags, monsters };
+}
+
+export async function getCampaignLootTable(campaignId: string, lootTableId: string): Promise<LootTableDetail> {
+  const row = await prisma.campaignLootTable.findFirst({
+    where: { id: lootTableId, campaignId },
+    select: LOOT_TABLE_DETAIL_SELECT,
+  });
+  if (!row) throw notFound();
+  return toDetail(row);
+}
+
+/** Creates a table, or replaces an existing table's entries and monster links when `lootTableId` is given. */
+export async function saveCampaignLootTable(params: {
+  campaignId: string;
+  lootTableId: string | null;
+  input: LootTableInput;
+}): Promise<LootTableDetail> {
+  const { campaignId, lootTableId, input } = params;
+  if (lootTableId) {
+    const existing = await prisma.campaignLootTable.findFirst({
+      where: { id: lootTableId, campaignId },
+      select: { id: true },
+    });
+    if (!existing) throw notFound();
+  }
+  await validateLootTableReferences(campaignId, lootTableId, input);
+
+  try {
+    const row = await prisma.$transaction(async (tx) => {
+      const fields = { name: input.name, description: input.description, rollCount: input.rollCount };
+      const table = lootTableId
+        ? await tx.campaignLootTable.update({ where: { id: lootTableId }, data: fields, select: { id: true } })
+        : await tx.campaignLootTable.create({ data: { ...fields, campaignId }, select: { id: true } });
+
+      await tx.campaignLootTableEntry.deleteMany({ where: { lootTableId: table.id } });
+      await tx.campaignLootTableEntry.createMany({
+        data: entryRows(input).map((entry) => ({ ...entry, lootTableId: table.id })),
+      });
+
+      await tx.monster.updateMany({
+        where: { campaignId, lootTableId: table.id, id: { notIn: input.monsterIds } },
+        data: { lootTableId: null },
+      });
+      if (input.monsterIds.length > 0) {
+        await tx.monster.updateMany({
+          where: { campaignId, id: { in: input.monsterIds } },
+          data: { lootTableId: table.id },
+        });
+      }
+
+      return tx.campaignLootTable.findUniqueOrThrow({ where: { id: table.id }, select: LOOT_TABLE_DETAIL_SELECT });
+    });
+    return toDetail(row);
+  } catch (error) {
+    if (isUniqueConflict(error)) {
+      throw new LootTableError("LOOT_TABLE_NAME_TAKEN", `A loot table named "${input.name}" already exists.`, 409);
+    }
+    throw error;
+  }
+}
+
+export async function deleteCampaignLootTable(campaignId: string, lootTableId: string): Promise<void> {
+  const table = await prisma.campaignLootTable.findFirst({
+    where: { id: lootTableId, campaignId },
+    select: { id: true, parentEntries: { select: { lootTable: { select: { name: true } } }, take: 1 } },
+  });
+  if (!table) throw notFound();
+  const parent = table.parentEntries[0]?.lootTable.name;
+  if (parent) {
+    throw new LootTableError(
+      "LOOT_TABLE_IN_USE",
+      `This table is used as a sub-table by "${parent}". Remove it there first.`,
+      409,
+    );
+  }
+  await prisma.campaignLootTable.delete({ where: { id: table.id } });
+}
+
+async function depositLootDrops(tx: Prisma.TransactionClient, campaignId: string, drops: LootDrop[]) {
+  for (const drop of mergeLootDrops(drops)) {
+    await tx.campaignPartyInventoryItem.upsert({
+      where: { campaignId_itemTemplateId: { campaignId, itemTemplateId: drop.itemTemplateId } },
+      update: { quantity: { increment: drop.quantity } },
+      create: { campaignId, itemTemplateId: drop.itemTemplateId, quantity: drop.quantity },
+    });
+  }
+}
+
+export async function rollCampaignLootTable(params: {
+  campaignId: string;
+  lootTableId: string;
+  seed: number;
+  deposit: boolean;
+}): Promise<{ seed: number; drops: LootDrop[]; notes: string[]; deposited: boolean }> {
+  const [definitions, catalog] = await Promise.all([
+    loadCampaignLootDefinitions(params.campaignId),
+    loadCampaignLootCatalog(params.campaignId),
+  ]);
+  if (!definitions.has(params.lootTableId)) throw notFound();
+
+  const result = rollLootTableWithSeed(params.lootTableId, definitions, catalog, params.seed);
+  const deposited = params.deposit && result.drops.length > 0;
+  if (deposited) {
+    await prisma.$transaction((tx) => depositLootDrops(tx, params.campaignId, result.drops));
+  }
+  return { seed: params.seed, ...result, deposited };
+}
+
+async function loadEncounterForLoot(campaignId: string, encounterId: string) {
+  const row = await prisma.campaignEncounter.findFirst({
+    where: { id: encounterId, campaignId },
+    select: { id: true, status: true, stateJson: true, lootJson: true },
+  });
+  if (!row) throw new LootTableError("ENCOUNTER_NOT_FOUND", "Encounter not found.", 404);
+  return row;
+}
+
+export async function getCampaignEncounterLoot(
+  campaignId: string,
+  encounterId: string,
+): Promise<EncounterLootRecord | null> {
+  const row = await loadEncounterForLoot(campaignId, encounterId);
+  return (row.lootJson as unknown as EncounterLootRecord | null) ?? null;
+}
+
+/**
+ * Rolls each defeated monster's loot table once, in turn order, from a single seed. Loot is rolled
+ * once per completed encounter; the stored record is returned on later reads.
+ */
+export async function rollCampaignEncounterLoot(params: {
+  campaignId: string;
+  encounterId: string;
+  userId: string;
+  seed: number;
+  deposit: boolean;
+}): Promise<EncounterLootRecord> {
+  const row = await loadEncounterForLoot(params.campaignId, params.encounterId);
+  if (row.status !== "COMPLETED") {
+    throw new LootTableError("ENCOUNTER_NOT_COMPLETED", "Complete the encounter before rolling loot.", 409);
+  }
+  if (row.lootJson) {
+    throw new LootTableError("ENCOUNTER_LOOT_ROLLED", "Loot has already been rolled for this encounter.", 409);
+  }
+
+  const defeated = defeatedEncounterMonsters(row.stateJson as unknown as EncounterSnapshot);
+  const monsterIds = Array.from(new Set(defeated.map((entry) => entry.monsterId)));
+  const [monsters, definitions, catalog] = await Promise.all([
+    monsterIds.length > 0
+      ? prisma.monster.findMany({
+          where: { id: { in: monsterIds }, lootTableId: { not: null } },
+          select: { id: true, name: true, lootTableId: true },
+        })
+      : Promise.resolve([]),
+    loadCampaignLootDefinitions(params.campaignId),
+    loadCampaignLootCatalog(params.campaignId),
+  ]);
+  const monstersById = new Map(monsters.map((monster) => [monster.id, monster]));
+
+  // One generator across every monster so the whole encounter replays from the stored seed.
+  const rng = createSeededRng(params.seed);
+  const notes: string[] = [];
+  const monsterDrops: EncounterLootMonsterDrop[] = [];
+  for (const entry of defeated) {
+    const monster = monstersById.get(entry.monsterId);
+    const table = monster?.lootTableId ? definitions.get(monster.lootTableId) : undefined;
+    if (!monster || !table) continue;
+    const result = rollLootTable(table.id, definitions, catalog, rng);
+    notes.push(...result.notes);
+    monsterDrops.push({
+      actorId: entry.actorId,
+      monsterName: entry.actorName,
+      lootTableId: table.id,
+      lootTableName: table.name,
+      drops: result.drops,
+    });
+  }
+
+  const drops = mergeLootDrops(monsterDrops.flatMap((entry) => entry.drops));
+  const deposit = params.deposit && drops.length > 0;
+  const record: EncounterLootRecord = {
+    seed: params.seed,
+    rolledAt: new Date().toISOString(),
+    rolledByUserId: params.userId,
+    deposited: deposit,
+    monsters: monsterDrops,
+    drops,
+    notes: Array.from(new Set(notes)),
+  };
+
+  await prisma.$transaction(async (tx) => {
+    // Guarding on lootJson being empty stops two quick clicks from depositing twice.
+    const claimed = await tx.campaignEncounter.updateMany({
+      where: { id: row.id, campaignId: params.campaignId, lootJson: { equals: Prisma.AnyNull } },
+      data: { lootJson: record as unknown as Prisma.InputJsonValue },
+    });
+    if (claimed.count === 0) {
+      throw new LootTableError("ENCOUNTER_LOOT_ROLLED", "Loot has already been rolled for this encounter.", 409);
+    }
+    if (deposit) await depositLootDrops(tx, params.campaignId, drops);
+  });
+  return record;
+}
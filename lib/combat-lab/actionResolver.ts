@@ -1,4 +1,4 @@
-import { diceSides, expectedSuccesses, rollDice, successCountForRoll, type Rng } from "./dice";
+import { expectedSuccesses, rollDice, successDistribution, type Rng } from "./dice";
 import {
   applyActionCooldown,
   completelyCleanseSemanticPassive,
@@ -46,9 +46,18 @@ import type {
   CombatOngoingPressureSideTotals,
   CombatState,
 } from "./types";
+import {
+  actorGridDistanceFeet,
+  formatGridPosition,
+  isTargetInReach,
+  moveActorToward,
+  pushActorAway,
+  resolveGridAreaTargets,
+  usesGridAreaTargeting,
+} from "./grid";
 import type { CoreAttribute, PowerIntention } from "@/lib/summoning/types";
 
-const CORE_TO_COMBAT_ATTRIBUTE: Record<string, CombatAttributeName> = {
+export const CORE_TO_COMBAT_ATTRIBUTE: Record<string, CombatAttributeName> = {
   ATTACK: "Attack",
   GUARD: "Guard",
   FORTITUDE: "Fortitude",
@@ -172,6 +181,7 @@ function emptyResolution(): CombatResolutionMetrics {
     aoePotentialTargets: 0,
     aoeActualTargets: 0,
     positionalAbstractionsUsed: 0,
+    gridForcedMovementFeet: 0,
     ongoingPressure: createEmptyOngoingPressureMetrics(),
     defensivePools: createEmptyDefensivePoolMetrics(),
   };
@@ -413,7 +423,7 @@ function consumeAssistPressure(params: {
   return { spent, wasted };
 }
 
-function effectiveAccuracyAttribute(actor: CombatActor, target: CombatActor, action: CombatAction): CombatAttributeName {
+export function effectiveAccuracyAttribute(actor: CombatActor, target: CombatActor, action: CombatAction): CombatAttributeName {
   if (actor.id === target.id && action.contextualAccuracyAttributes?.self) {
     return action.contextualAccuracyAttributes.self;
   }
@@ -526,7 +536,7 @@ function actionDamageTypes(action: CombatAction): string[] {
   );
 }
 
-function vrpRollAdjustment(target: CombatActor, action?: CombatAction | null) {
+export function vrpRollAdjustment(target: CombatActor, action?: CombatAction | null) {
   const damageTypes = action ? actionDamageTypes(action) : [];
   if (damageTypes.length === 0 || !target.vrp || target.vrp.length === 0) {
     return { modifier: 0, extraDice: 0, vulnerability: 0, resistance: 0, protection: 0 };
@@ -633,23 +643,6 @@ function peekActiveResistDegradation(
   return state.defenceDegradation[actorId]?.resist?.[resistedAttribute] ?? 0;
 }
 
-function successDistribution(diceCount: number, die: CombatActor["attributeDice"][CombatAttributeName], modifier: number): number[] {
-  const count = Math.max(0, Math.trunc(diceCount));
-  let distribution = [1];
-  const sides = diceSides(die);
-  for (let dieIndex = 0; dieIndex < count; dieIndex += 1) {
-    const next = Array.from({ length: distribution.length + 3 }, () => 0);
-    for (let existing = 0; existing < distribution.length; existing += 1) {
-      for (let roll = 1; roll <= sides; roll += 1) {
-        const successes = successCountForRoll(roll, modifier);
-        next[existing + successes] += distribution[existing] / sides;
-      }
-    }
-    distribution = next;
-  }
-  return distribution;
-}
-
 function probabilitySuccessesAtLeast(params: {
   diceCount: number;
   die: CombatActor["attributeDice"][CombatAttributeName];
@@ -1028,7 +1021,7 @@ function resolveBestNormalDefence(params: {
   return metrics;
 }
 
-function applyWounds(target: CombatActor, pool: "physical" | "mental", wounds: number): number {
+export function applyWounds(target: CombatActor, pool: "physical" | "mental", wounds: number): number {
   if (wounds <= 0) return 0;
   const key = pool === "physical" ? "physicalHpCurrent" : "mentalHpCurrent";
   const before = target[key];
@@ -1795,7 +1788,53 @@ function recordOngoingCleanup(params: {
   );
 }
 
+function resolveGridMovement(params: {
+  state: CombatState;
+  actor: CombatActor;
+  action: CombatAction;
+  target: CombatActor;
+  lane?: CombatActionLane;
+  metrics: CombatResolutionMetrics;
+}) {
+  const { state, actor, action, target, lane, metrics } = params;
+  const grid = state.grid;
+  if (!grid) return;
+  // Movement packets move the target Potency x 5 ft, matching the rendered descriptor.
+  const distanceFeet = Math.max(1, action.potency) * 5;
+  const before = grid.positions[target.id];
+  let movedFeet = 0;
+  if (target.id === actor.id) {
+    const nearestEnemy = getLivingActors(state, getOppositeSide(actor.side))
+      .sort((a, b) => (actorGridDistanceFeet(state, actor, a) ?? 0) - (actorGridDistanceFeet(state, actor, b) ?? 0))[0];
+    const destination = nearestEnemy ? grid.positions[nearestEnemy.id] : undefined;
+    movedFeet = destination ? moveActorToward(state, actor, destination, distanceFeet, grid.cellFeet) : 0;
+  } else {
+    const origin = grid.positions[actor.id];
+    movedFeet = origin ? pushActorAway(state, target, origin, distanceFeet) : 0;
+    metrics.gridForcedMovementFeet = movedFeet;
+  }
+  emitTranscriptEvent(state, {
+    type: "gridMovement",
+    actorId: actor.id,
+    actorName: actor.name,
+    targetId: target.id,
+    targetName: target.name,
+    actionId: action.id,
+    actionName: action.name,
+    lane,
+    message: `Movement: ${action.name} moves ${target.name} ${movedFeet} ft from ${formatGridPosition(before)} to ${formatGridPosition(grid.positions[target.id])}.`,
+    details: { movedFeet, requestedFeet: distanceFeet, forced: target.id !== actor.id },
+  });
+}
+
 function resolveTargets(state: CombatState, actor: CombatActor, action: CombatAction, primaryTarget: CombatActor): CombatActor[] {
+  if (usesGridAreaTargeting(state, action)) {
+    const candidates = getLivingActors(
+      state,
+      action.targetPolicy === "ally" || action.targetPolicy === "allAllies" ? actor.side : getOppositeSide(actor.side),
+    );
+    return resolveGridAreaTargets(state, actor, action, primaryTarget, candidates);
+  }
   if (action.targetPolicy === "allAllies" || action.targetPolicy === "allEnemies") {
     const legalTargets = getLivingActors(state, action.targetPolicy === "allAllies" ? actor.side : getOppositeSide(actor.side));
     const potentialTargets = Math.max(1, action.targetCount ?? (action.rangeCategory === "AOE" ? 4 : legalTargets.length));
@@ -1818,7 +1857,7 @@ function resolveTargets(state: CombatState, actor: CombatActor, action: CombatAc
   const candidates = getLivingActors(
     state,
     action.targetPolicy === "enemy" ? getOppositeSide(actor.side) : action.targetPolicy === "ally" ? actor.side : undefined,
-  ).filter((candidate) => candidate.id !== primaryTarget.id);
+  ).filter((candidate) => candidate.id !== primaryTarget.id && isTargetInReach(state, actor, action, candidate));
   return [
     primaryTarget,
     ...candidates.slice(0, Math.max(1, action.targetCount ?? 1) - 1),
@@ -1839,6 +1878,11 @@ function actionUsesAoeAbstraction(action: CombatAction): boolean {
   return action.targetPolicy === "allAllies" || action.targetPolicy === "allEnemies" || action.rangeCategory === "AOE";
 }
 
+function abstractsAreaPositioning(state: CombatState, action: CombatAction): boolean {
+  return (action.targetPolicy === "allAllies" || action.targetPolicy === "allEnemies") &&
+    !usesGridAreaTargeting(state, action);
+}
+
 function aoePotentialTargetCount(action: CombatAction): number {
   return Math.max(1, action.targetCount ?? 4);
 }
@@ -2391,7 +2435,7 @@ function resolveAuthoredResistCleanupAction(params: {
   return metrics;
 }
 
-function passiveDefenceAmount(target: CombatActor, pool: "physical" | "mental") {
+export function passiveDefenceAmount(target: CombatActor, pool: "physical" | "mental") {
   return target.actions
     .filter((action) => action.passive && action.kind === "defence" && (action.pool ?? pool) === pool)
     .reduce((sum, action) => sum + Math.max(1, action.protection ?? action.potency), 0);
@@ -4071,18 +4115,18 @@ function resolveSingleTargetAction(params: {
             passiveDuration,
             modifiesRollResults: action.modifier.modifiesRollResults !== false,
             remainingRounds: durationRounds,
-            positionalAbstraction: action.targetPolicy === "allAllies"
-              ? "AOE ally buff abstracted to all living allies."
-              : action.targetPolicy === "allEnemies"
-                ? "Field positioning abstracted: affected all enemy actors."
-                : undefined,
+            positionalAbstraction: !abstractsAreaPositioning(state, action)
+              ? undefined
+              : action.targetPolicy === "allAllies"
+                ? "AOE ally buff abstracted to all living allies."
+                : "Field positioning abstracted: affected all enemy actors.",
           });
         }
         metrics.buffDebuffApplied = modifierMagnitude;
         metrics.stacksApplied = stackCount;
         if (action.kind === "buff") metrics.buffApplications = 1;
         if (action.kind === "debuff") metrics.debuffApplications = 1;
-        if (action.targetPolicy === "allAllies" || action.targetPolicy === "allEnemies") {
+        if (abstractsAreaPositioning(state, action)) {
           metrics.positionalAbstractionsUsed = 1;
         }
         emitTranscriptEvent(state, {
@@ -4132,16 +4176,16 @@ function resolveSingleTargetAction(params: {
         passiveDuration,
         modifiesRollResults,
         remainingRounds: durationRounds,
-        positionalAbstraction: action.targetPolicy === "allAllies"
-          ? "AOE ally buff abstracted to all living allies."
-          : action.targetPolicy === "allEnemies"
-            ? "Field positioning abstracted: affected all enemy actors."
-            : undefined,
+        positionalAbstraction: !abstractsAreaPositioning(state, action)
+          ? undefined
+          : action.targetPolicy === "allAllies"
+            ? "AOE ally buff abstracted to all living allies."
+            : "Field positioning abstracted: affected all enemy actors.",
       });
       metrics.buffDebuffApplied = appliedAmount;
       if (action.kind === "buff") metrics.buffApplications = 1;
       if (action.kind === "debuff") metrics.debuffApplications = 1;
-      if (action.targetPolicy === "allAllies" || action.targetPolicy === "allEnemies") metrics.positionalAbstractionsUsed = 1;
+      if (abstractsAreaPositioning(state, action)) metrics.positionalAbstractionsUsed = 1;
       emitTranscriptEvent(state, {
         type: action.kind === "buff" ? "buffApplied" : "debuffApplied",
         actorId: actor.id,
@@ -4301,19 +4345,23 @@ function resolveSingleTargetAction(params: {
     });
   } else if (action.kind === "movement") {
     metrics.forcedMovementApplied = 1;
-    metrics.positionalAbstractionsUsed = 1;
-    emitTranscriptEvent(state, {
-      type: "movementRoll",
-      actorId: actor.id,
-      actorName: actor.name,
-      targetId: target.id,
-      targetName: target.name,
-      actionId: action.id,
-      actionName: action.name,
-      lane,
-      message: `Movement: ${action.name} forces movement; positioning is abstracted.`,
-      details: { positionalAbstraction: true },
-    });
+    if (state.grid) {
+      resolveGridMovement({ state, actor, action, target, lane, metrics });
+    } else {
+      metrics.positionalAbstractionsUsed = 1;
+      emitTranscriptEvent(state, {
+        type: "movementRoll",
+        actorId: actor.id,
+        actorName: actor.name,
+        targetId: target.id,
+        targetName: target.name,
+        actionId: action.id,
+        actionName: action.name,
+        lane,
+        message: `Movement: ${action.name} forces movement; positioning is abstracted.`,
+        details: { positionalAbstraction: true },
+      });
+    }
   } else if (action.kind === "cleanse") {
     if (action.targetSourcePowerId) {
       const runtime = getSemanticPassiveState(state, target.id, action.targetSourcePowerId);
@@ -4721,7 +4769,7 @@ export function resolveCombatAction(params: {
     metrics.aoeActionUses += 1;
     metrics.aoePotentialTargets += aoePotentialTargetCount(action);
     metrics.aoeActualTargets += targets.length;
-    metrics.positionalAbstractionsUsed += 1;
+    if (!usesGridAreaTargeting(state, action)) metrics.positionalAbstractionsUsed += 1;
   }
   let sharedSourceSuccesses: number | null = null;
   for (const [targetIndex, resolvedTarget] of targets.entries()) {
@@ -0,0 +1,53 @@
+import type { CombatActor, CombatAiPolicy, CombatScenario } from "./types";
+
+export const COMBAT_AI_POLICIES: CombatAiPolicy[] = [
+  "default",
+  "focusLowestHealth",
+  "spreadDamage",
+  "protectAlly",
+  "controlFirst",
+  "smart",
+];
+
+export const COMBAT_AI_POLICY_LABELS: Record<CombatAiPolicy, string> = {
+  default: "Role default",
+  focusLowestHealth: "Focus lowest health",
+  spreadDamage: "Spread damage",
+  protectAlly: "Protect ally",
+  controlFirst: "Control first",
+  smart: "Smart (one-ply lookahead)",
+};
+
+export const COMBAT_AI_POLICY_DESCRIPTIONS: Record<CombatAiPolicy, string> = {
+  default: "Picks actions and targets from the actor's role, as the simulator always has.",
+  focusLowestHealth: "Attacks the enemy with the lowest remaining health.",
+  spreadDamage: "Attacks the enemy that has drawn the fewest actions this round.",
+  protectAlly: "Heals or shields a badly wounded ally first, then attacks the most threatening enemy.",
+  controlFirst: "Opens with control and debuffs on the most threatening enemy before attacking.",
+  smart: "Scores every ready attack against every target by expected wounds and takes the best, favouring kills.",
+};
+
+export function isCombatAiPolicy(value: unknown): value is CombatAiPolicy {
+  return typeof value === "string" && (COMBAT_AI_POLICIES as string[]).includes(value);
+}
+
+export function resolveActorAiPolicy(
+  actor: CombatActor,
+  scenario: Pick<CombatScenario, "aiPolicies" | "defaultAiPolicy">,
+): CombatAiPolicy {
+  return (
+    scenario.aiPolicies?.[actor.id] ??
+    (actor.baseActorId ? scenario.aiPolicies?.[actor.baseActorId] : undefined) ??
+    actor.aiPolicy ??
+    scenario.defaultAiPolicy ??
+    "default"
+  );
+}
+
+/** Stamps the resolved policy onto each actor so the turn loop only has to read `actor.aiPolicy`. */
+export function withScenarioAiPolicies(
+  actors: CombatActor[],
+  scenario: Pick<CombatScenario, "aiPolicies" | "defaultAiPolicy">,
+): CombatActor[] {
+  return actors.map((actor) => ({ ...actor, aiPolicy: resolveActorAiPolicy(actor, scenario) }));
+}
@@ -1,4 +1,5 @@
 import { resolveCombatAction, resolveStartOfTurnEffects } from "./actionResolver";
+import { withScenarioAiPolicies } from "./aiPolicies";
 import {
   collectUnsupportedSummary,
   createCombatState,
@@ -21,6 +22,23 @@ import {
   tickTargetTurnEffects,
 } from "./combatState";
 import { createSeededRng } from "./dice";
+import {
+  actionReachFeet,
+  formatGridPosition,
+  isTargetInReach,
+  moveActorToward,
+  remainingMovementFeet,
+  resetGridTurnMovement,
+} from "./grid";
+import {
+  applyEnvironmentalHazards,
+  createObjectiveTracker,
+  livingCombatants,
+  objectiveStopOutcome,
+  recordObjectiveAction,
+  type CombatObjectiveTracker,
+} from "./objectives";
+import { advanceActorPhases } from "./phases";
 import {
   createFixtureActor,
   makeFixturePower,
@@ -38,6 +56,7 @@ import type {
   CombatAssistPressureLane,
   CombatDefensivePoolMetrics,
   CombatDefensivePoolSideTotals,
+  CombatObjectiveOutcome,
   CombatOngoingPressureMetrics,
   CombatOngoingPressureSideTotals,
   CombatOffensiveContributionEvent,
@@ -397,6 +416,7 @@ function addResolutionToAggregate(
   metrics.aoePotentialTargets[side] += resolution.aoePotentialTargets;
   metrics.aoeActualTargets[side] += resolution.aoeActualTargets;
   metrics.positionalAbstractionsUsed[side] += resolution.positionalAbstractionsUsed;
+  metrics.gridForcedMovementFeet[side] += resolution.gridForcedMovementFeet;
   addOngoingPressureMetrics(metrics.ongoingPressure, resolution.ongoingPressure);
   addDefensivePoolMetrics(metrics.defensivePools, resolution.defensivePools);
 }
@@ -578,6 +598,7 @@ function addActorContribution(
     displayGroupName: actor.displayGroupName,
     side: actor.side,
     role: actor.role,
+    aiPolicy: actor.aiPolicy ?? "default",
     actionsUsed: 0,
     damage: 0,
     healing: 0,
@@ -728,6 +749,7 @@ function ensureActorContribution(metrics: CombatAggregateMetrics, actor: CombatA
     displayGroupName: actor.displayGroupName,
     side: actor.side,
     role: actor.role,
+    aiPolicy: actor.aiPolicy ?? "default",
     actionsUsed: 0,
     damage: 0,
     healing: 0,
@@ -921,6 +943,41 @@ function addStatusUptimeMetrics(metrics: CombatAggregateMetrics, state: ReturnTy
   addTimedStatusContributions(metrics, state, sourceContributions);
 }
 
+// Spends the actor's remaining movement closing on the target when it is out of reach.
+function approachTargetOnGrid(
+  state: CombatRuntimeState,
+  actor: CombatActor,
+  action: CombatAction,
+  target: CombatActor,
+  lane: "main" | "power",
+): { movedFeet: number; inReach: boolean } {
+  const grid = state.grid;
+  const reach = actionReachFeet(action);
+  if (!grid || reach === null || isTargetInReach(state, actor, action, target)) {
+    return { movedFeet: 0, inReach: true };
+  }
+  const destination = grid.positions[target.id];
+  const budget = hasActiveMovementDenial(state, actor.id) ? 0 : remainingMovementFeet(state, actor);
+  const before = grid.positions[actor.id];
+  const movedFeet = destination && budget > 0 ? moveActorToward(state, actor, destination, budget, reach) : 0;
+  grid.movementUsedFeet[actor.id] = (grid.movementUsedFeet[actor.id] ?? 0) + movedFeet;
+  if (movedFeet > 0) {
+    emitTranscriptEvent(state, {
+      type: "gridMovement",
+      actorId: actor.id,
+      actorName: actor.name,
+      targetId: target.id,
+      targetName: target.name,
+      actionId: action.id,
+      actionName: action.name,
+      lane,
+      message: `Movement: ${actor.name} moves ${movedFeet} ft from ${formatGridPosition(before)} to ${formatGridPosition(grid.positions[actor.id])} toward ${target.name}.`,
+      details: { movedFeet, reachFeet: reach },
+    });
+  }
+  return { movedFeet, inReach: isTargetInReach(state, actor, action, target) };
+}
+
 function shuffled<T>(items: T[], rng: ReturnType<typeof createSeededRng>): T[] {
   const out = [...items];
   for (let index = out.length - 1; index > 0; index -= 1) {
@@ -966,18 +1023,42 @@ function roundTurnOrder(
     : interleaveTurns(playerOrder, monsterOrder);
 }
 
-function sideDefeatStopReason(state: ReturnType<typeof createCombatState>): CombatRunResult["stoppedBy"] | null {
-  const playersRemaining = getLivingActors(state, "players").length;
-  const monstersRemaining = getLivingActors(state, "monsters").length;
+function sideDefeatStopReason(
+  state: ReturnType<typeof createCombatState>,
+  objectives: CombatObjectiveTracker | null,
+): CombatRunResult["stoppedBy"] | null {
+  const playersRemaining = livingCombatants(objectives, state, "players").length;
+  const monstersRemaining = livingCombatants(objectives, state, "monsters").length;
   if (playersRemaining === 0 && monstersRemaining === 0) return "stalemate";
   if (playersRemaining === 0) return "playersDefeated";
   if (monstersRemaining === 0) return "monstersDefeated";
   return null;
 }
 
-function emitCombatEnd(state: ReturnType<typeof createCombatState>, stoppedBy: CombatRunResult["stoppedBy"]) {
-  const label =
-    stoppedBy === "playersDefeated"
+// Side elimination takes precedence over objectives that resolve on the same event.
+function runStopReason(
+  state: ReturnType<typeof createCombatState>,
+  objectives: CombatObjectiveTracker | null,
+  phase: "immediate" | "roundEnd" = "immediate",
+): { stoppedBy: CombatRunResult["stoppedBy"]; objectiveOutcome: CombatObjectiveOutcome | null } | null {
+  const sideDefeat = sideDefeatStopReason(state, objectives);
+  if (sideDefeat) return { stoppedBy: sideDefeat, objectiveOutcome: null };
+  const objectiveOutcome = objectives ? objectiveStopOutcome(objectives, state, phase) : null;
+  if (!objectiveOutcome) return null;
+  return {
+    stoppedBy: objectiveOutcome.result === "completed" ? "objectiveCompleted" : "objectiveFailed",
+    objectiveOutcome,
+  };
+}
+
+function emitCombatEnd(
+  state: ReturnType<typeof createCombatState>,
+  stoppedBy: CombatRunResult["stoppedBy"],
+  objectiveOutcome: CombatObjectiveOutcome | null = null,
+) {
+  const label = objectiveOutcome
+    ? `${objectiveOutcome.label} ${objectiveOutcome.result}, ${objectiveOutcome.winner} win`
+    : stoppedBy === "playersDefeated"
       ? "players defeated"
       : stoppedBy === "monstersDefeated"
         ? "monsters defeated"
@@ -989,21 +1070,36 @@ function emitCombatEnd(state: ReturnType<typeof createCombatState>, stoppedBy: C
     message: `Combat ends: ${label}.`,
     details: {
       stoppedBy,
+      objectiveId: objectiveOutcome?.objectiveId,
       playersRemaining: getLivingActors(state, "players").length,
       monstersRemaining: getLivingActors(state, "monsters").length,
     },
   });
 }
 
-export function runCombatScenario(scenario: CombatScenario, runIndex = 0): CombatRunResult {
+/**
+ * Runs one seeded fight. Run 0 records a transcript by default; replays ask for any run's
+ * transcript, optionally with per-event state snapshots. Recording never touches the RNG.
+ */
+export function runCombatScenario(
+  scenario: CombatScenario,
+  runIndex = 0,
+  options: { captureTranscript?: boolean; captureSnapshots?: boolean } = {},
+): CombatRunResult {
   const rng = createSeededRng(scenario.seed + runIndex * 9973);
   const maxRounds = scenario.maxRounds ?? 20;
   const turnOrder = scenario.turnOrder ?? "alternatingByRound";
-  const captureTranscript = runIndex === 0;
-  const state = createCombatState(scenario.players, scenario.monsters, {
-    captureTranscript,
-    semanticPassiveStates: scenario.semanticPassiveStates,
-  });
+  const captureTranscript = options.captureTranscript ?? runIndex === 0;
+  const state = createCombatState(
+    withScenarioAiPolicies(scenario.players, scenario),
+    withScenarioAiPolicies(scenario.monsters, scenario),
+    {
+      captureTranscript,
+      captureSnapshots: options.captureSnapshots,
+      semanticPassiveStates: scenario.semanticPassiveStates,
+      grid: scenario.grid,
+    },
+  );
   state.statusEffects.push(...(scenario.initialStatusEffects ?? []).map((effect) => ({ ...effect })));
   const metrics = createEmptyMetrics();
   const offensiveContributionEvents: CombatOffensiveContributionEvent[] = [];
@@ -1019,6 +1115,8 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
       buffDebuff: resolution.buffDebuffApplied,
     });
   }
+  const objectives = scenario.objectives?.length ? createObjectiveTracker(scenario.objectives, state) : null;
+  let objectiveOutcome: CombatObjectiveOutcome | null = null;
   let stoppedBy: CombatRunResult["stoppedBy"] = "maxRounds";
   let roundsWithoutDamage = 0;
 
@@ -1031,6 +1129,16 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
     if (round === 1) {
       emitCombatStartResponses(state);
     }
+    if (objectives) {
+      applyEnvironmentalHazards(objectives, state, rng);
+      const hazardStop = runStopReason(state, objectives);
+      if (hazardStop) {
+        ({ stoppedBy, objectiveOutcome } = hazardStop);
+        emitCombatEnd(state, stoppedBy, objectiveOutcome);
+        break;
+      }
+    }
+    advanceActorPhases(state);
     resetRoundTargetingPressure(state);
     const damageAtRoundStart = metrics.damageDealt.players + metrics.damageDealt.monsters;
     metrics.activeEnemiesByRound.push(getLivingActors(state, "monsters").length);
@@ -1050,6 +1158,7 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
         },
       });
       sampleActorCooldownAvailability(state, currentActor);
+      resetGridTurnMovement(state, currentActor.id);
       const timedStatusContributions = collectStartOfTurnStatusContributions(state, currentActor);
       const deniedMainActionBy = mainActionDenialSource(state, currentActor);
       const startTurnResolution = resolveStartOfTurnEffects(state, currentActor, rng);
@@ -1073,13 +1182,14 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
           metrics: startTurnResolution,
         });
       }
-      const startTurnStoppedBy = sideDefeatStopReason(state);
-      if (startTurnStoppedBy) {
-        stoppedBy = startTurnStoppedBy;
-        emitCombatEnd(state, stoppedBy);
+      const startTurnStop = runStopReason(state, objectives);
+      if (startTurnStop) {
+        ({ stoppedBy, objectiveOutcome } = startTurnStop);
+        emitCombatEnd(state, stoppedBy, objectiveOutcome);
         state.currentTurnActorId = null;
         break;
       }
+      advanceActorPhases(state);
       if (currentActor.defeated) {
         emitTranscriptEvent(state, {
           type: "turnEnd",
@@ -1134,6 +1244,26 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
           });
           continue;
         }
+        if (action && target && state.grid) {
+          const approach = approachTargetOnGrid(state, currentActor, action, target, lane);
+          metrics.gridMovementFeet[currentActor.side] += approach.movedFeet;
+          if (!approach.inReach) {
+            metrics.gridOutOfRangeActions[currentActor.side] += 1;
+            emitTranscriptEvent(state, {
+              type: "actionSkipped",
+              actorId: currentActor.id,
+              actorName: currentActor.name,
+              targetId: target.id,
+              targetName: target.name,
+              actionId: action.id,
+              actionName: action.name,
+              lane,
+              message: `${lane === "main" ? "Main Action" : "Power Action"}: ${target.name} is out of range for ${action.name}.`,
+              details: { reason: "outOfRange", reachFeet: actionReachFeet(action) },
+            });
+            continue;
+          }
+        }
         if (action && target && isOffensiveAction(action)) {
           recordIncomingActionPressure(state, target.id);
         }
@@ -1170,13 +1300,15 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
           mitigation: resolution.mitigationApplied,
           buffDebuff: resolution.buffDebuffApplied,
         });
+        if (objectives && action) recordObjectiveAction(objectives, state, currentActor, action);
 
-        const actionStoppedBy = sideDefeatStopReason(state);
-        if (actionStoppedBy) {
-          stoppedBy = actionStoppedBy;
-          emitCombatEnd(state, stoppedBy);
+        const actionStop = runStopReason(state, objectives);
+        if (actionStop) {
+          ({ stoppedBy, objectiveOutcome } = actionStop);
+          emitCombatEnd(state, stoppedBy, objectiveOutcome);
           break;
         }
+        advanceActorPhases(state);
       }
       if (stoppedBy !== "maxRounds") {
         state.currentTurnActorId = null;
@@ -1223,10 +1355,10 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
         const expired = tickTargetTurnEffects(state, currentActor.id);
         if (expired > 0) metrics.stacksExpired[currentActor.side] += expired;
       }
-      const endTurnStoppedBy = sideDefeatStopReason(state);
-      if (endTurnStoppedBy && stoppedBy === "maxRounds") {
-        stoppedBy = endTurnStoppedBy;
-        emitCombatEnd(state, stoppedBy);
+      const endTurnStop = runStopReason(state, objectives);
+      if (endTurnStop && stoppedBy === "maxRounds") {
+        ({ stoppedBy, objectiveOutcome } = endTurnStop);
+        emitCombatEnd(state, stoppedBy, objectiveOutcome);
         state.currentTurnActorId = null;
         break;
       }
@@ -1241,6 +1373,12 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
     }
 
     if (stoppedBy !== "maxRounds") break;
+    const roundEndStop = objectives ? runStopReason(state, objectives, "roundEnd") : null;
+    if (roundEndStop) {
+      ({ stoppedBy, objectiveOutcome } = roundEndStop);
+      emitCombatEnd(state, stoppedBy, objectiveOutcome);
+      break;
+    }
     const damageAfterRound = metrics.damageDealt.players + metrics.damageDealt.monsters;
     roundsWithoutDamage = damageAfterRound === damageAtRoundStart ? roundsWithoutDamage + 1 : 0;
     if (roundsWithoutDamage >= 4) {
@@ -1264,8 +1402,9 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
   addEndOfRunDiagnostics(metrics, state);
   metrics.cooldownTrace = state.cooldownTrace;
   metrics.counterCandidateDiagnostics = state.counterCandidateDiagnostics;
-  const winner: CombatRunResult["winner"] =
-    stoppedBy === "monstersDefeated"
+  const winner: CombatRunResult["winner"] = objectiveOutcome
+    ? objectiveOutcome.winner
+    : stoppedBy === "monstersDefeated"
       ? "players"
       : stoppedBy === "playersDefeated"
         ? "monsters"
@@ -1294,6 +1433,8 @@ export function runCombatScenario(scenario: CombatScenario, runIndex = 0): Comba
     winnerHealthRemainingPercent: winner === "stalemate" ? 0 : survivorHealthPercent(winner, getLivingActors(state)),
     metrics,
     firstRunTranscript,
+    ...(objectiveOutcome ? { objectiveOutcome } : {}),
+    ...(objectives ? { objectiveStates: objectives.states.map((entry) => ({ ...entry, hazardWounds: { ...entry.hazardWounds } })) } : {}),
     unsupported: collectUnsupportedSummary(state.actors),
     log: state.log,
     offensiveContributionEvents,
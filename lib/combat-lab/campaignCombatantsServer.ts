@@ -0,0 +1,238 @@
+import "server-only";
+
+import {
+  adaptCampaignCharacterToCombatActor,
+  adaptMonsterToCombatLabActor,
+  itemTemplateToSummoningEquipmentItem,
+} from "@/lib/combat-lab/liveAdapters";
+import type {
+  CombatLabRunCharacterInput,
+  CombatLabRunMonsterInput,
+  CombatLabRunTuningSetIds,
+} from "@/lib/combat-lab/runHistory";
+import { ensureCharacterBuilderTuning } from "@/lib/config/characterBuilderTuning";
+import { ensureSeedCombatTuningSet } from "@/lib/config/combatTuning";
+import { normalizeCombatTuning } from "@/lib/config/combatTuningShared";
+import { getActiveOutcomeNormalizationSet } from "@/lib/config/outcomeNormalization";
+import { ensureSeedPowerTuningSet } from "@/lib/config/powerTuning";
+import { prisma } from "@/prisma/client";
+
+const POWER_INCLUDE = {
+  rangeCategories: { orderBy: { rangeCategory: "asc" as const } },
+  primaryDefenceGate: true,
+  effectPackets: {
+    orderBy: { packetIndex: "asc" as const },
+    include: { localTargetingOverride: true },
+  },
+};
+
+const ITEM_TEMPLATE_INCLUDE = {
+  rangeCategories: { select: { rangeCategory: true } },
+  meleeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+  rangedDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+  aoeDamageTypes: { select: { damageType: { select: { name: true, attackMode: true } } } },
+  attackEffectsMelee: { select: { attackEffect: { select: { name: true } } } },
+  attackEffectsRanged: { select: { attackEffect: { select: { name: true } } } },
+  attackEffectsAoE: { select: { attackEffect: { select: { name: true } } } },
+  vrpEntries: { select: { effectKind: true, magnitude: true, damageType: { select: { name: true } } } },
+};
+
+/** Everything a stored monster needs for adaptation or an outcome radar. */
+export const MONSTER_COMBATANT_INCLUDE = {
+  naturalAttack: true,
+  attacks: { orderBy: { sortOrder: "asc" as const } },
+  traits: {
+    orderBy: { sortOrder: "asc" as const },
+    include: { trait: { select: { name: true, effectText: true } } },
+  },
+  powers: {
+    orderBy: { sortOrder: "asc" as const },
+    include: POWER_INCLUDE,
+  },
+};
+
+type MonsterEquipmentSlots = {
+  mainHandItemId: string | null;
+  offHandItemId: string | null;
+  smallItemId: string | null;
+  headArmorItemId: string | null;
+  shoulderArmorItemId: string | null;
+  torsoArmorItemId: string | null;
+  legsArmorItemId: string | null;
+  feetArmorItemId: string | null;
+  headItemId: string | null;
+  neckItemId: string | null;
+  armsItemId: string | null;
+  beltItemId: string | null;
+};
+
+/** Loads the campaign item templates equipped by the given monsters, keyed by item id. */
+export async function loadMonsterEquipmentById(campaignId: string, monsters: MonsterEquipmentSlots[]) {
+  const monsterItemIds = Array.from(
+    new Set(
+      monsters.flatMap((monster) => [
+        monster.mainHandItemId,
+        monster.offHandItemId,
+        monster.smallItemId,
+        monster.headArmorItemId,
+        monster.shoulderArmorItemId,
+        monster.torsoArmorItemId,
+        monster.legsArmorItemId,
+        monster.feetArmorItemId,
+        monster.headItemId,
+        monster.neckItemId,
+        monster.armsItemId,
+        monster.beltItemId,
+      ]).filter(Boolean) as string[],
+    ),
+  );
+  const monsterEquipmentRows =
+    monsterItemIds.length > 0
+      ? await prisma.itemTemplate.findMany({
+          where: { campaignId, id: { in: monsterItemIds } },
+          include: ITEM_TEMPLATE_INCLUDE,
+        })
+      : [];
+  return new Map(monsterEquipmentRows.map((item) => [item.id, itemTemplateToSummoningEquipmentItem(item)]));
+}
+
+export type CampaignCombatantAdaptOptions = {
+  /** Replaces every selected monster's level before adaptation. */
+  monsterLevel?: number | null;
+  /** Overrides individual combat tuning values on top of the active set. */
+  combatTuningOverrides?: Record<string, number> | null;
+};
+
+/**
+ * Loads the selected campaign characters and monsters with the active tuning sets.
+ * Throws CAMPAIGN_NOT_FOUND, SELECTED_CHARACTER_NOT_FOUND or SELECTED_MONSTER_NOT_FOUND.
+ */
+export async function fetchCampaignCombatantRows(params: {
+  campaignId: string;
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+}) {
+  const { campaignId } = params;
+  const characterIds = params.characters.map((selection) => selection.characterId);
+  const monsterIds = params.monsters.map((selection) => selection.monsterId);
+  const [
+    campaign,
+    characters,
+    monsters,
+    combatTuning,
+    powerTuning,
+    outcomeNormalization,
+    characterBuilderTuning,
+  ] = await Promise.all([
+    prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { id: true, name: true, descriptorVersionTag: true },
+    }),
+    characterIds.length > 0
+      ? prisma.campaignCharacter.findMany({
+          where: { campaignId, id: { in: characterIds }, archivedAt: null },
+          include: {
+            backpackItems: {
+              include: {
+                partyInventoryItem: {
+                  include: {
+                    itemTemplate: {
+                      include: ITEM_TEMPLATE_INCLUDE,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        })
+      : [],
+    monsterIds.length > 0
+      ? prisma.monster.findMany({
+          where: { campaignId, id: { in: monsterIds }, source: "CAMPAIGN", isReadOnly: false },
+          include: MONSTER_COMBATANT_INCLUDE,
+        })
+      : [],
+    ensureSeedCombatTuningSet(),
+    ensureSeedPowerTuningSet(),
+    getActiveOutcomeNormalizationSet(),
+    ensureCharacterBuilderTuning(),
+  ]);
+  if (!campaign) throw new Error("CAMPAIGN_NOT_FOUND");
+  if (characters.length !== characterIds.length) throw new Error("SELECTED_CHARACTER_NOT_FOUND");
+  if (monsters.length !== monsterIds.length) throw new Error("SELECTED_MONSTER_NOT_FOUND");
+
+  const monsterEquipmentById = await loadMonsterEquipmentById(campaignId, monsters);
+
+  const tuningSetIds: CombatLabRunTuningSetIds = {
+    combatTuningSetId: combatTuning.setId,
+    powerTuningSetId: powerTuning.setId,
+    outcomeNormalizationSetId: outcomeNormalization?.setId ?? null,
+  };
+  return {
+    campaign,
+    selections: { characters: params.characters, monsters: params.monsters },
+    characterRows: characters,
+    monsterRows: monsters,
+    monsterEquipmentById,
+    combatTuningValues: combatTuning.values,
+    outcomeNormalizationValues: outcomeNormalization?.values ?? null,
+    powerTuning,
+    playerPowerSpendScalar: characterBuilderTuning.playerPowerSpendScalar,
+    tuningSetIds,
+  };
+}
+
+export type CampaignCombatantRows = Awaited<ReturnType<typeof fetchCampaignCombatantRows>>;
+
+/** Adapts fetched rows into Combat Lab actors; cheap enough to repeat per sweep cell. */
+export function adaptCampaignCombatants(rows: CampaignCombatantRows, options: CampaignCombatantAdaptOptions = {}) {
+  const protectionTuning = normalizeCombatTuning({
+    ...(rows.combatTuningValues as Record<string, unknown>),
+    ...(options.combatTuningOverrides ?? {}),
+  });
+  const { characterRows: characters, monsterRows: monsters, powerTuning, monsterEquipmentById } = rows;
+
+  const adaptedCharacterById = new Map(
+    characters.map((character) => [
+      character.id,
+      adaptCampaignCharacterToCombatActor(
+        character,
+        protectionTuning,
+        powerTuning,
+        rows.playerPowerSpendScalar,
+      ),
+    ]),
+  );
+  const adaptedCharacters = rows.selections.characters.map((selection) => {
+    const character = adaptedCharacterById.get(selection.characterId);
+    if (!character) throw new Error("SELECTED_CHARACTER_NOT_FOUND");
+    return { ...character, quantity: selection.quantity };
+  });
+  const monsterById = new Map(monsters.map((monster) => [monster.id, monster]));
+  const adaptedMonsters = rows.selections.monsters.map((selection) => {
+    const monster = monsterById.get(selection.monsterId);
+    if (!monster) throw new Error("SELECTED_MONSTER_NOT_FOUND");
+    // A sweep's level axis beats the selection's own override.
+    const level = options.monsterLevel ?? selection.level;
+    const row = typeof level === "number" ? { ...monster, level } : monster;
+    const adapted = adaptMonsterToCombatLabActor(row, monsterEquipmentById, protectionTuning, powerTuning);
+    return {
+      ...adapted,
+      actor: selection.aiPolicy ? { ...adapted.actor, aiPolicy: selection.aiPolicy } : adapted.actor,
+      monster,
+      quantity: selection.quantity,
+    };
+  });
+
+  return { characters: adaptedCharacters, monsters: adaptedMonsters };
+}
+
+/** Loads and adapts the selected campaign combatants in one step. */
+export async function loadCampaignCombatants(params: {
+  campaignId: string;
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+}) {
+  const rows = await fetchCampaignCombatantRows(params);
+  return { campaign: rows.campaign, ...adaptCampaignCombatants(rows), tuningSetIds: rows.tuningSetIds };
+}
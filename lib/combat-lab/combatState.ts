@@ -9,6 +9,7 @@ import type {
   CombatDefensivePoolMetrics,
   CombatDefensivePoolSideTotals,
   CombatDefeatModel,
+  CombatGridConfig,
   CombatInjuryChannel,
   CombatMajorInjuryDiagnostics,
   CombatMajorInjuryOutcome,
@@ -17,11 +18,13 @@ import type {
   CombatSide,
   CombatState,
   CombatTranscriptEvent,
+  CombatTranscriptSnapshot,
   SemanticPassiveLifecycleTransition,
   SemanticPassiveRuntimeState,
   UnsupportedPowerSummary,
 } from "./types";
 import { createSeededRng, rollDice, successCountForRoll, type Rng } from "./dice";
+import { createGridState } from "./grid";
 
 const MAX_TRANSCRIPT_LINES = 1200;
 const MAJOR_INJURIES_TO_DEFEAT = 3;
@@ -255,6 +258,7 @@ function cloneAction(action: CombatAction): CombatAction {
     ...action,
     unsupportedReasons: [...action.unsupportedReasons],
     damageTypes: action.damageTypes ? [...action.damageTypes] : undefined,
+    geometry: action.geometry ? { ...action.geometry } : undefined,
     secondaryActions: action.secondaryActions?.map(cloneAction),
     abstractionNotes: action.abstractionNotes ? [...action.abstractionNotes] : undefined,
     durationRounds: action.durationRounds,
@@ -306,6 +310,7 @@ export function cloneActor(actor: CombatActor): CombatActor {
     attributeDice: { ...actor.attributeDice },
     resist: { ...actor.resist },
     actions: actor.actions.map(cloneAction),
+    phases: actor.phases?.map((phase) => ({ ...phase, actions: phase.actions.map(cloneAction) })),
     vrp: actor.vrp?.map((entry) => ({ ...entry })),
     unsupportedPowers: actor.unsupportedPowers.map((reason) => ({ ...reason })),
     hydration: {
@@ -347,7 +352,9 @@ export function createCombatState(
   monsters: CombatActor[],
   options: {
     captureTranscript?: boolean;
+    captureSnapshots?: boolean;
     semanticPassiveStates?: SemanticPassiveRuntimeState[];
+    grid?: CombatGridConfig | null;
   } = {},
 ): CombatState {
   const actors = [...players, ...monsters].map((actor) => ({
@@ -368,7 +375,9 @@ export function createCombatState(
   );
   const semanticPassiveStates: Record<string, SemanticPassiveRuntimeState> = {};
   for (const actor of actors) {
-    for (const action of actor.actions) {
+    // Passives a later boss phase brings in need runtime state before the phase starts.
+    const actions = [...actor.actions, ...(actor.phases ?? []).flatMap((phase) => phase.actions)];
+    for (const action of actions) {
       if (!isSemanticPassiveAction(action)) continue;
       const powerId = action.sourcePowerId?.trim();
       if (!powerId) continue;
@@ -391,6 +400,7 @@ export function createCombatState(
   return {
     round: 1,
     actors,
+    grid: options.grid ? createGridState(actors, options.grid) : null,
     cooldowns: {},
     semanticPassiveStates,
     semanticPassiveTransitions: [],
@@ -407,6 +417,7 @@ export function createCombatState(
     statusEffects: [],
     defensivePools: [],
     captureTranscript: Boolean(options.captureTranscript),
+    captureSnapshots: Boolean(options.captureTranscript && options.captureSnapshots),
     transcriptEvents: [],
     transcriptLines: [],
     transcriptTruncated: false,
@@ -430,6 +441,50 @@ export function emitCombatStartResponses(state: CombatState) {
   }
 }
 
+/** Copies the parts of the state a replay viewer shows: pools, statuses, cooldowns and defensive pools. */
+export function snapshotCombatState(state: CombatState): CombatTranscriptSnapshot {
+  return {
+    round: state.round,
+    actors: state.actors.map((actor) => ({
+      id: actor.id,
+      name: actor.name,
+      side: actor.side,
+      defeated: Boolean(actor.defeated),
+      physicalHp: { current: actor.physicalHpCurrent, max: actor.physicalHpMax },
+      mentalHp: { current: actor.mentalHpCurrent, max: actor.mentalHpMax },
+      responsesRemaining: state.responsesRemaining[actor.id] ?? 0,
+      cooldowns: actor.actions
+        .map((action) => ({
+          actionId: action.id,
+          actionName: action.name,
+          remaining: state.cooldowns[cooldownKey(actor.id, action.id)]?.remaining ?? 0,
+        }))
+        .filter((entry) => entry.remaining > 0),
+      statusEffects: state.statusEffects
+        .filter((effect) => effect.targetActorId === actor.id)
+        .map((effect) => ({
+          id: effect.id,
+          kind: effect.kind,
+          attribute: effect.attribute,
+          pool: effect.pool,
+          amount: effect.amount,
+          remainingRounds: effect.remainingRounds,
+          sourceActionName: effect.sourceActionName,
+        })),
+      defensivePools: state.defensivePools
+        .filter((pool) => pool.protectedActorId === actor.id)
+        .map((pool) => ({
+          id: pool.id,
+          poolType: pool.poolType,
+          remainingPoints: pool.remainingPoints,
+          initialPoints: pool.initialPoints,
+          remainingRounds: pool.remainingRounds,
+          sourceActionName: pool.sourceActionName,
+        })),
+    })),
+  };
+}
+
 export function emitTranscriptEvent(
   state: CombatState,
   event: Omit<CombatTranscriptEvent, "id" | "round"> & { round?: number },
@@ -456,6 +511,7 @@ export function emitTranscriptEvent(
     ...event,
     id: `transcript-${state.transcriptEventSeq}`,
     round: event.round ?? state.round,
+    ...(state.captureSnapshots ? { snapshot: snapshotCombatState(state) } : {}),
   };
   state.transcriptEvents.push(entry);
   state.transcriptLines.push(entry.message);
@@ -1416,6 +1472,9 @@ export function createEmptyMetrics(): CombatAggregateMetrics {
     aoePotentialTargets: { players: 0, monsters: 0 },
     aoeActualTargets: { players: 0, monsters: 0 },
     positionalAbstractionsUsed: { players: 0, monsters: 0 },
+    gridMovementFeet: { players: 0, monsters: 0 },
+    gridForcedMovementFeet: { players: 0, monsters: 0 },
+    gridOutOfRangeActions: { players: 0, monsters: 0 },
     actorContributions: {},
     defensiveContributions: {},
     cooldownTrace: {},
@@ -0,0 +1,46 @@
+import type { Rng } from "./dice";
+import type { CombatConfidenceInterval } from "./types";
+
+/** Every interval in a suite report is a two-sided 95% interval. */
+export const COMBAT_CONFIDENCE_LEVEL = 0.95;
+export const DEFAULT_BOOTSTRAP_RESAMPLES = 400;
+
+const Z_95 = 1.959963984540054;
+
+/** Wilson score interval for a binomial proportion; stays inside [0, 1] even at 0% or 100%. */
+export function wilsonInterval(successes: number, trials: number): CombatConfidenceInterval {
+  if (trials <= 0) return { low: 0, high: 1 };
+  const proportion = successes / trials;
+  const zSquared = Z_95 * Z_95;
+  const denominator = 1 + zSquared / trials;
+  const centre = (proportion + zSquared / (2 * trials)) / denominator;
+  const margin =
+    (Z_95 * Math.sqrt((proportion * (1 - proportion)) / trials + zSquared / (4 * trials * trials))) / denominator;
+  return { low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
+
+export function intervalHalfWidth(interval: CombatConfidenceInterval): number {
+  return (interval.high - interval.low) / 2;
+}
+
+/** Percentile bootstrap: resamples with replacement and reads the 2.5th and 97.5th percentile statistic. */
+export function bootstrapInterval<T>(
+  samples: T[],
+  statistic: (sample: T[]) => number,
+  options: { rng: Rng; resamples?: number },
+): CombatConfidenceInterval {
+  if (samples.length === 0) return { low: 0, high: 0 };
+  const resamples = Math.max(1, Math.trunc(options.resamples ?? DEFAULT_BOOTSTRAP_RESAMPLES));
+  const estimates: number[] = [];
+  const resample: T[] = new Array(samples.length);
+  for (let iteration = 0; iteration < resamples; iteration += 1) {
+    for (let index = 0; index < samples.length; index += 1) {
+      resample[index] = samples[Math.floor(options.rng() * samples.length)];
+    }
+    estimates.push(statistic(resample));
+  }
+  estimates.sort((a, b) => a - b);
+  const tail = (1 - COMBAT_CONFIDENCE_LEVEL) / 2;
+  const at = (p: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor((estimates.length - 1) * p)))];
+  return { low: at(tail), high: at(1 - tail) };
+}
@@ -66,3 +66,23 @@ export function expectedSuccessesPerDie(die: CombatDieSize, modifier = 0): numbe
 export function expectedSuccesses(count: number, die: CombatDieSize, modifier = 0): number {
   return Math.max(0, Math.trunc(count)) * expectedSuccessesPerDie(die, modifier);
 }
+
+/** Exact probability of each success total for a pool of dice; index = successes. */
+export function successDistribution(count: number, die: CombatDieSize, modifier = 0): number[] {
+  const sides = diceSides(die);
+  const perDie = [0, 0, 0];
+  for (let roll = 1; roll <= sides; roll += 1) {
+    perDie[successCountForRoll(roll, modifier)] += 1 / sides;
+  }
+  let distribution = [1];
+  for (let dieIndex = 0; dieIndex < Math.max(0, Math.trunc(count)); dieIndex += 1) {
+    const next = Array.from({ length: distribution.length + 2 }, () => 0);
+    for (let existing = 0; existing < distribution.length; existing += 1) {
+      for (let successes = 0; successes < perDie.length; successes += 1) {
+        next[existing + successes] += distribution[existing] * perDie[successes];
+      }
+    }
+    distribution = next;
+  }
+  return distribution;
+}
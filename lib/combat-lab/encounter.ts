@@ -0,0 +1,802 @@
+import {
+  getAttributeLimitBreakCeiling,
+  getLimitBreakRequiredSuccesses,
+  getLimitBreakThresholdPercent,
+  type LimitBreakTierValue,
+} from "../limitBreakThreshold";
+import type { CoreAttribute } from "../summoning/types";
+import {
+  applyActionCooldown,
+  createCombatState,
+  getActionCooldownRemaining,
+  getLivingActors,
+  markDefeatedActors,
+  refreshActorResponses,
+  removeStatusEffectById,
+  resetRoundDefenceDegradation,
+  resetRoundTargetingPressure,
+  spendActorResponse,
+  tickActorCooldowns,
+  tickTargetDefensivePools,
+  tickTargetTurnEffects,
+} from "./combatState";
+import type { CombatLabRunCharacterInput, CombatLabRunMonsterInput } from "./runHistory";
+import type {
+  CombatActor,
+  CombatAttributeName,
+  CombatInjuryChannel,
+  CombatMajorInjuryOutcome,
+  CombatPool,
+  CombatSide,
+  CombatState,
+  CombatStatusEffect,
+} from "./types";
+
+export const ENCOUNTER_SNAPSHOT_VERSION = 1;
+
+const MAX_ENCOUNTER_LOG_ENTRIES = 300;
+const LIMIT_BREAK_TIERS: LimitBreakTierValue[] = ["PUSH", "BREAK", "TRANSCEND"];
+const COMBAT_ATTRIBUTES: CombatAttributeName[] = ["Attack", "Guard", "Fortitude", "Intellect", "Synergy", "Bravery"];
+const CORE_ATTRIBUTE_BY_COMBAT_ATTRIBUTE: Record<CombatAttributeName, CoreAttribute> = {
+  Attack: "ATTACK",
+  Guard: "GUARD",
+  Fortitude: "FORTITUDE",
+  Intellect: "INTELLECT",
+  Synergy: "SYNERGY",
+  Bravery: "BRAVERY",
+};
+const MAX_ROSTER_QUANTITY = 20;
+const MAX_ROSTER_INSTANCES = 40;
+const MANUAL_STATUS_KINDS = ["buff", "debuff", "protection", "mainActionDenied", "movementDenied"] as const;
+
+export type EncounterCombatantSource = "character" | "monster";
+
+export type EncounterLimitBreak = {
+  slot: 1 | 2;
+  name: string;
+  tier: LimitBreakTierValue;
+  attribute: CoreAttribute | null;
+  thresholdSuccesses: number | null;
+  triggerText: string | null;
+  costText: string | null;
+  effectText: string | null;
+};
+
+export type EncounterCombatant = {
+  actorId: string;
+  sourceType: EncounterCombatantSource;
+  sourceId: string;
+  limitBreaks: EncounterLimitBreak[];
+};
+
+export type EncounterCombatantInput = {
+  actor: CombatActor;
+  sourceType: EncounterCombatantSource;
+  sourceId: string;
+  quantity: number;
+  limitBreaks?: EncounterLimitBreak[];
+};
+
+export type EncounterLogEntry = {
+  id: number;
+  round: number;
+  actorId: string | null;
+  message: string;
+};
+
+export type EncounterLimitBreakEligibility = {
+  id: string;
+  actorId: string;
+  actorName: string;
+  round: number;
+  attribute: CombatAttributeName;
+  successes: number;
+  requiredSuccesses: number;
+  tier: LimitBreakTierValue;
+  limitBreakName: string | null;
+  slot: 1 | 2 | null;
+};
+
+export type EncounterSnapshot = {
+  version: typeof ENCOUNTER_SNAPSHOT_VERSION;
+  combat: CombatState;
+  combatants: EncounterCombatant[];
+  turnOrder: string[];
+  turnIndex: number;
+  log: EncounterLogEntry[];
+  logSeq: number;
+  limitBreakEligibility: EncounterLimitBreakEligibility[];
+};
+
+export type EncounterManualStatusKind = (typeof MANUAL_STATUS_KINDS)[number];
+
+export type EncounterCommand =
+  | {
+      type: "applyWounds";
+      actorId: string;
+      pool: CombatPool;
+      amount: number;
+      injuryRollSuccesses?: number | null;
+      sourceLabel?: string | null;
+    }
+  | { type: "applyHealing"; actorId: string; pool: CombatPool; amount: number }
+  | { type: "useAction"; actorId: string; actionId: string }
+  | { type: "spendResponse"; actorId: string }
+  | { type: "recordRoll"; actorId: string; attribute: CombatAttributeName; successes: number }
+  | { type: "clearLimitBreakEligibility"; eligibilityId: string }
+  | {
+      type: "addStatusEffect";
+      targetActorId: string;
+      sourceActorId: string;
+      kind: EncounterManualStatusKind;
+      amount: number;
+      remainingRounds: number;
+      attribute?: CombatAttributeName | null;
+      pool?: CombatPool | null;
+      label?: string | null;
+    }
+  | { type: "removeStatusEffect"; effectId: string }
+  | { type: "endTurn" }
+  | { type: "setTurnOrder"; actorIds: string[] }
+  | { type: "removeCombatant"; actorId: string };
+
+export type EncounterOutcome = CombatSide | "draw" | null;
+
+export type CampaignEncounterStatus = "ACTIVE" | "COMPLETED";
+
+export type CampaignEncounterSummary = {
+  id: string;
+  name: string;
+  status: CampaignEncounterStatus;
+  round: number;
+  revision: number;
+  createdByUserId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CampaignEncounterRecord = CampaignEncounterSummary & {
+  snapshot: EncounterSnapshot;
+  outcome: EncounterOutcome;
+};
+
+export class EncounterCommandError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "EncounterCommandError";
+    this.code = code;
+  }
+}
+
+function findActor(snapshot: EncounterSnapshot, actorId: string): CombatActor {
+  const actor = snapshot.combat.actors.find((entry) => entry.id === actorId);
+  if (!actor) throw new EncounterCommandError("COMBATANT_NOT_FOUND", "That combatant is not part of this encounter.");
+  return actor;
+}
+
+function findLivingActor(snapshot: EncounterSnapshot, actorId: string): CombatActor {
+  const actor = findActor(snapshot, actorId);
+  if (actor.defeated) throw new EncounterCommandError("COMBATANT_DEFEATED", `${actor.name} is already defeated.`);
+  return actor;
+}
+
+function nonNegativeInteger(value: unknown, label: string): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new EncounterCommandError("INVALID_COMMAND", `${label} must be a nonnegative integer.`);
+  }
+  return parsed;
+}
+
+function appendLog(snapshot: EncounterSnapshot, actorId: string | null, message: string) {
+  snapshot.logSeq += 1;
+  snapshot.log.push({ id: snapshot.logSeq, round: snapshot.combat.round, actorId, message });
+  if (snapshot.log.length > MAX_ENCOUNTER_LOG_ENTRIES) {
+    snapshot.log.splice(0, snapshot.log.length - MAX_ENCOUNTER_LOG_ENTRIES);
+  }
+}
+
+// Engine transcript events become encounter log lines, then the transcript is cleared so a
+// long fight never reaches the simulator's transcript truncation limit.
+function drainTranscript(snapshot: EncounterSnapshot) {
+  for (const event of snapshot.combat.transcriptEvents) {
+    appendLog(snapshot, event.actorId ?? null, event.message);
+  }
+  snapshot.combat.transcriptEvents = [];
+  snapshot.combat.transcriptLines = [];
+  snapshot.combat.transcriptTruncated = false;
+}
+
+function uniqueActorId(existing: Set<string>, baseId: string): string {
+  if (!existing.has(baseId)) return baseId;
+  let index = 2;
+  while (existing.has(`${baseId}:${index}`)) index += 1;
+  return `${baseId}:${index}`;
+}
+
+function expandCombatantInputs(
+  inputs: EncounterCombatantInput[],
+  existingIds: Set<string>,
+  existingNames: Map<string, number>,
+): Array<{ actor: CombatActor; combatant: EncounterCombatant }> {
+  return inputs.flatMap((input) => {
+    const quantity = Math.max(1, Math.trunc(input.quantity));
+    return Array.from({ length: quantity }, () => {
+      const id = uniqueActorId(existingIds, input.actor.id);
+      existingIds.add(id);
+      const seen = (existingNames.get(input.actor.name) ?? 0) + 1;
+      existingNames.set(input.actor.name, seen);
+      const actor: CombatActor = {
+        ...input.actor,
+        id,
+        baseActorId: input.actor.baseActorId ?? input.actor.id,
+        instanceIndex: seen,
+        displayGroupName: input.actor.displayGroupName ?? input.actor.name,
+        name: seen === 1 ? input.actor.name : `${input.actor.name} #${seen}`,
+      };
+      return {
+        actor,
+        combatant: {
+          actorId: id,
+          sourceType: input.sourceType,
+          sourceId: input.sourceId,
+          limitBreaks: (input.limitBreaks ?? []).map((limitBreak) => ({ ...limitBreak })),
+        },
+      };
+    });
+  });
+}
+
+function currentTurnActorId(snapshot: EncounterSnapshot): string | null {
+  return snapshot.turnOrder[snapshot.turnIndex] ?? null;
+}
+
+function syncCurrentTurn(snapshot: EncounterSnapshot) {
+  snapshot.combat.currentTurnActorId = currentTurnActorId(snapshot);
+}
+
+export function createEncounterSnapshot(
+  players: EncounterCombatantInput[],
+  monsters: EncounterCombatantInput[],
+): EncounterSnapshot {
+  const ids = new Set<string>();
+  const names = new Map<string, number>();
+  const expandedPlayers = expandCombatantInputs(players, ids, names);
+  const expandedMonsters = expandCombatantInputs(monsters, ids, names);
+  const combat = createCombatState(
+    expandedPlayers.map((entry) => ({ ...entry.actor, side: "players" as const })),
+    expandedMonsters.map((entry) => ({ ...entry.actor, side: "monsters" as const })),
+    { captureTranscript: true },
+  );
+  const snapshot: EncounterSnapshot = {
+    version: ENCOUNTER_SNAPSHOT_VERSION,
+    combat,
+    combatants: [...expandedPlayers, ...expandedMonsters].map((entry) => entry.combatant),
+    turnOrder: combat.actors.map((actor) => actor.id),
+    turnIndex: 0,
+    log: [],
+    logSeq: 0,
+    limitBreakEligibility: [],
+  };
+  syncCurrentTurn(snapshot);
+  appendLog(
+    snapshot,
+    null,
+    `Encounter started with ${expandedPlayers.length} character${expandedPlayers.length === 1 ? "" : "s"} and ${expandedMonsters.length} monster${expandedMonsters.length === 1 ? "" : "s"}.`,
+  );
+  drainTranscript(snapshot);
+  return snapshot;
+}
+
+export function addEncounterCombatants(
+  snapshot: EncounterSnapshot,
+  side: CombatSide,
+  inputs: EncounterCombatantInput[],
+): EncounterSnapshot {
+  const ids = new Set(snapshot.combat.actors.map((actor) => actor.id));
+  const names = new Map<string, number>();
+  for (const actor of snapshot.combat.actors) {
+    const groupName = actor.displayGroupName ?? actor.name;
+    names.set(groupName, Math.max(names.get(groupName) ?? 0, actor.instanceIndex ?? 1));
+  }
+  const expanded = expandCombatantInputs(inputs, ids, names);
+  const actors = expanded.map((entry) => ({ ...entry.actor, side }));
+  const joining = side === "players" ? createCombatState(actors, []) : createCombatState([], actors);
+  snapshot.combat.actors.push(...joining.actors);
+  Object.assign(snapshot.combat.semanticPassiveStates, joining.semanticPassiveStates);
+  Object.assign(snapshot.combat.responsesRemaining, joining.responsesRemaining);
+  snapshot.combatants.push(...expanded.map((entry) => entry.combatant));
+  snapshot.turnOrder.push(...joining.actors.map((actor) => actor.id));
+  for (const actor of joining.actors) {
+    appendLog(snapshot, actor.id, `${actor.name} joins the encounter.`);
+  }
+  syncCurrentTurn(snapshot);
+  return snapshot;
+}
+
+function applyEncounterWounds(
+  snapshot: EncounterSnapshot,
+  command: Extract<EncounterCommand, { type: "applyWounds" }>,
+) {
+  const target = findLivingActor(snapshot, command.actorId);
+  const wounds = nonNegativeInteger(command.amount, "Wounds");
+  if (wounds === 0) return;
+  const key = command.pool === "physical" ? "physicalHpCurrent" : "mentalHpCurrent";
+  const usesInjuryFlow = target.defeatModel === "PLAYER_CHARACTER" || target.defeatModel === "LEGENDARY_MONSTER";
+  const before = target[key];
+  const overflow = Math.max(0, wounds - Math.max(0, before));
+  const after = before - wounds;
+  // A Major Injury check is rolled at the table, so the GD's result is queued as the forced outcome
+  // the engine consumes instead of rolling its own dice.
+  if (usesInjuryFlow && after <= 0) {
+    if (command.injuryRollSuccesses === undefined || command.injuryRollSuccesses === null) {
+      throw new EncounterCommandError(
+        "INJURY_ROLL_REQUIRED",
+        `${target.name} drops to 0; enter the successes from the Major Injury roll.`,
+      );
+    }
+    const channel: CombatInjuryChannel = command.pool === "physical" ? "PHYSICAL" : "MENTAL";
+    const outcome = injuryOutcomeFromSuccesses(nonNegativeInteger(command.injuryRollSuccesses, "Injury roll successes"));
+    target.forcedMajorInjuryOutcomes = {
+      ...target.forcedMajorInjuryOutcomes,
+      [channel]: [...(target.forcedMajorInjuryOutcomes?.[channel] ?? []), outcome],
+    };
+  }
+  target[key] = usesInjuryFlow ? Math.max(0, after) : after;
+  if (usesInjuryFlow && target[key] <= 0) {
+    if (command.pool === "physical") {
+      target.physicalInjuryResolvedAtZero = false;
+      target.physicalPendingInjuryOverflow = overflow;
+    } else {
+      target.mentalInjuryResolvedAtZero = false;
+      target.mentalPendingInjuryOverflow = overflow;
+    }
+  }
+  const sourceLabel = command.sourceLabel?.trim();
+  appendLog(
+    snapshot,
+    target.id,
+    `${target.name} takes ${wounds} ${command.pool} wound${wounds === 1 ? "" : "s"}${sourceLabel ? ` from ${sourceLabel}` : ""} (${before} -> ${target[key]}).`,
+  );
+  markDefeatedActors(snapshot.combat, { sourceActionName: sourceLabel || null });
+}
+
+function injuryOutcomeFromSuccesses(successes: number): CombatMajorInjuryOutcome {
+  if (successes <= 1) return "MAJOR_INJURY";
+  if (successes === 2) return "MINOR_INJURY";
+  return "NO_INJURY";
+}
+
+function applyEncounterHealing(
+  snapshot: EncounterSnapshot,
+  command: Extract<EncounterCommand, { type: "applyHealing" }>,
+) {
+  const target = findLivingActor(snapshot, command.actorId);
+  const healing = nonNegativeInteger(command.amount, "Healing");
+  const currentKey = command.pool === "physical" ? "physicalHpCurrent" : "mentalHpCurrent";
+  const maxKey = command.pool === "physical" ? "physicalHpMax" : "mentalHpMax";
+  const before = target[currentKey];
+  target[currentKey] = Math.min(target[maxKey], before + healing);
+  if (
+    (target.defeatModel === "PLAYER_CHARACTER" || target.defeatModel === "LEGENDARY_MONSTER") &&
+    target[currentKey] > 0
+  ) {
+    if (command.pool === "physical") {
+      target.physicalInjuryResolvedAtZero = false;
+      target.physicalPendingInjuryOverflow = null;
+    } else {
+      target.mentalInjuryResolvedAtZero = false;
+      target.mentalPendingInjuryOverflow = null;
+    }
+  }
+  appendLog(
+    snapshot,
+    target.id,
+    `${target.name} heals ${target[currentKey] - before} ${command.pool} (${before} -> ${target[currentKey]}).`,
+  );
+}
+
+function recordEncounterActionUse(snapshot: EncounterSnapshot, command: Extract<EncounterCommand, { type: "useAction" }>) {
+  const actor = findLivingActor(snapshot, command.actorId);
+  const action = actor.actions.find((entry) => entry.id === command.actionId);
+  if (!action) throw new EncounterCommandError("ACTION_NOT_FOUND", `${actor.name} has no such action.`);
+  const remaining = getActionCooldownRemaining(snapshot.combat, actor.id, action.id);
+  if (remaining > 0) {
+    throw new EncounterCommandError(
+      "ACTION_ON_COOLDOWN",
+      `${action.name} is on cooldown for ${remaining} more turn${remaining === 1 ? "" : "s"}.`,
+    );
+  }
+  appendLog(snapshot, actor.id, `${actor.name} uses ${action.name}.`);
+  applyActionCooldown(snapshot.combat, actor, action);
+}
+
+function limitBreakThreshold(actor: CombatActor, limitBreak: EncounterLimitBreak, attribute: CombatAttributeName): number | null {
+  if (limitBreak.thresholdSuccesses !== null && limitBreak.thresholdSuccesses > 0) return limitBreak.thresholdSuccesses;
+  const percent = getLimitBreakThresholdPercent(limitBreak.tier);
+  if (percent === null) return null;
+  return getLimitBreakRequiredSuccesses(getAttributeLimitBreakCeiling(actor.attributes[attribute] ?? 0), percent);
+}
+
+/**
+ * Returns the Limit Breaks a recorded roll unlocks. Combatants with authored Limit Breaks qualify
+ * for each one whose attribute matches the roll; everyone else qualifies for the highest generic
+ * tier their successes reach against the rolled attribute's ceiling.
+ */
+export function evaluateLimitBreakEligibility(
+  actor: CombatActor,
+  combatant: EncounterCombatant | undefined,
+  attribute: CombatAttributeName,
+  successes: number,
+): Array<Omit<EncounterLimitBreakEligibility, "id" | "round">> {
+  const authored = combatant?.limitBreaks ?? [];
+  if (authored.length > 0) {
+    return authored.flatMap((limitBreak) => {
+      if (limitBreak.attribute && limitBreak.attribute !== CORE_ATTRIBUTE_BY_COMBAT_ATTRIBUTE[attribute]) return [];
+      const requiredSuccesses = limitBreakThreshold(actor, limitBreak, attribute);
+      if (requiredSuccesses === null || successes < requiredSuccesses) return [];
+      return [{
+        actorId: actor.id,
+        actorName: actor.name,
+        attribute,
+        successes,
+        requiredSuccesses,
+        tier: limitBreak.tier,
+        limitBreakName: limitBreak.name,
+        slot: limitBreak.slot,
+      }];
+    });
+  }
+  const ceiling = getAttributeLimitBreakCeiling(actor.attributes[attribute] ?? 0);
+  const reached = LIMIT_BREAK_TIERS.flatMap((tier) => {
+    const percent = getLimitBreakThresholdPercent(tier);
+    if (percent === null) return [];
+    const requiredSuccesses = getLimitBreakRequiredSuccesses(ceiling, percent);
+    return successes >= requiredSuccesses ? [{ tier, requiredSuccesses }] : [];
+  });
+  const highest = reached[reached.length - 1];
+  if (!highest) return [];
+  return [{
+    actorId: actor.id,
+    actorName: actor.name,
+    attribute,
+    successes,
+    requiredSuccesses: highest.requiredSuccesses,
+    tier: highest.tier,
+    limitBreakName: null,
+    slot: null,
+  }];
+}
+
+function recordEncounterRoll(snapshot: EncounterSnapshot, command: Extract<EncounterCommand, { type: "recordRoll" }>) {
+  const actor = findLivingActor(snapshot, command.actorId);
+  const successes = nonNegativeInteger(command.successes, "Successes");
+  appendLog(snapshot, actor.id, `${actor.name} rolls ${successes} success${successes === 1 ? "" : "es"} on ${command.attribute}.`);
+  const combatant = snapshot.combatants.find((entry) => entry.actorId === actor.id);
+  for (const eligibility of evaluateLimitBreakEligibility(actor, combatant, command.attribute, successes)) {
+    const id = `lb:${snapshot.logSeq}:${eligibility.slot ?? eligibility.tier}`;
+    snapshot.limitBreakEligibility.push({ ...eligibility, id, round: snapshot.combat.round });
+    appendLog(
+      snapshot,
+      actor.id,
+      `${actor.name} can trigger ${eligibility.limitBreakName ?? `a ${eligibility.tier} Limit Break`} (${successes}/${eligibility.requiredSuccesses} successes).`,
+    );
+  }
+}
+
+function addEncounterStatusEffect(
+  snapshot: EncounterSnapshot,
+  command: Extract<EncounterCommand, { type: "addStatusEffect" }>,
+) {
+  const target = findLivingActor(snapshot, command.targetActorId);
+  const source = findActor(snapshot, command.sourceActorId);
+  const amount = nonNegativeInteger(command.amount, "Amount");
+  const remainingRounds = nonNegativeInteger(command.remainingRounds, "Duration");
+  if (remainingRounds === 0) {
+    throw new EncounterCommandError("INVALID_COMMAND", "Duration must be at least one turn.");
+  }
+  if ((command.kind === "buff" || command.kind === "debuff") && !command.attribute) {
+    throw new EncounterCommandError("INVALID_COMMAND", "Buffs and debuffs need an attribute.");
+  }
+  const label = command.label?.trim() || command.kind;
+  const effect: CombatStatusEffect = {
+    id: `manual:${snapshot.logSeq + 1}:${target.id}`,
+    sourceActorId: source.id,
+    targetActorId: target.id,
+    kind: command.kind,
+    attribute: command.attribute ?? undefined,
+    pool: command.kind === "protection" ? command.pool ?? "physical" : undefined,
+    amount,
+    sourceActionName: label,
+    durationKind: "turns",
+    remainingRounds,
+  };
+  snapshot.combat.statusEffects.push(effect);
+  appendLog(
+    snapshot,
+    target.id,
+    `${target.name} gains ${label} from ${source.name} for ${remainingRounds} turn${remainingRounds === 1 ? "" : "s"}.`,
+  );
+}
+
+function removeEncounterCombatant(snapshot: EncounterSnapshot, actorId: string) {
+  const actor = findActor(snapshot, actorId);
+  const wasCurrent = currentTurnActorId(snapshot) === actor.id;
+  const orderIndex = snapshot.turnOrder.indexOf(actor.id);
+  snapshot.combat.actors = snapshot.combat.actors.filter((entry) => entry.id !== actor.id);
+  snapshot.combatants = snapshot.combatants.filter((entry) => entry.actorId !== actor.id);
+  snapshot.turnOrder = snapshot.turnOrder.filter((id) => id !== actor.id);
+  snapshot.combat.statusEffects = snapshot.combat.statusEffects.filter(
+    (effect) => effect.targetActorId !== actor.id && effect.sourceActorId !== actor.id,
+  );
+  snapshot.combat.defensivePools = snapshot.combat.defensivePools.filter(
+    (pool) => pool.protectedActorId !== actor.id && pool.sourceActorId !== actor.id,
+  );
+  for (const key of Object.keys(snapshot.combat.cooldowns)) {
+    if (key.startsWith(`${actor.id}:`)) delete snapshot.combat.cooldowns[key];
+  }
+  delete snapshot.combat.responsesRemaining[actor.id];
+  snapshot.limitBreakEligibility = snapshot.limitBreakEligibility.filter((entry) => entry.actorId !== actor.id);
+  if (orderIndex >= 0 && orderIndex < snapshot.turnIndex) snapshot.turnIndex -= 1;
+  if (snapshot.turnIndex >= snapshot.turnOrder.length) snapshot.turnIndex = 0;
+  syncCurrentTurn(snapshot);
+  if (wasCurrent && snapshot.combat.currentTurnActorId) {
+    refreshActorResponses(snapshot.combat, snapshot.combat.currentTurnActorId);
+  }
+  appendLog(snapshot, null, `${actor.name} leaves the encounter.`);
+}
+
+function setEncounterTurnOrder(snapshot: EncounterSnapshot, actorIds: string[]) {
+  const known = new Set(snapshot.combat.actors.map((actor) => actor.id));
+  const unique = [...new Set(actorIds)];
+  if (unique.length !== known.size || unique.some((id) => !known.has(id))) {
+    throw new EncounterCommandError("INVALID_TURN_ORDER", "The turn order must list every combatant exactly once.");
+  }
+  const current = currentTurnActorId(snapshot);
+  snapshot.turnOrder = unique;
+  snapshot.turnIndex = current ? Math.max(0, unique.indexOf(current)) : 0;
+  syncCurrentTurn(snapshot);
+  appendLog(snapshot, null, "Turn order updated.");
+}
+
+/**
+ * Ends the current combatant's turn with the same end-of-turn ticks the auto-simulator applies,
+ * then hands the turn to the next undefeated combatant, starting a new round when the order wraps.
+ */
+export function advanceEncounterTurn(snapshot: EncounterSnapshot) {
+  const endingId = currentTurnActorId(snapshot);
+  const ending = endingId ? snapshot.combat.actors.find((actor) => actor.id === endingId) : undefined;
+  if (ending && !ending.defeated) {
+    tickActorCooldowns(snapshot.combat, ending.id);
+    tickTargetDefensivePools(snapshot.combat, ending.id);
+    const expired = tickTargetTurnEffects(snapshot.combat, ending.id);
+    appendLog(
+      snapshot,
+      ending.id,
+      `${ending.name} ends their turn${expired > 0 ? `; ${expired} effect${expired === 1 ? "" : "s"} expired` : ""}.`,
+    );
+  }
+  if (getLivingActors(snapshot.combat).length === 0 || snapshot.turnOrder.length === 0) return;
+  let index = snapshot.turnIndex;
+  for (let step = 0; step < snapshot.turnOrder.length; step += 1) {
+    index += 1;
+    if (index >= snapshot.turnOrder.length) {
+      index = 0;
+      snapshot.combat.round += 1;
+      resetRoundDefenceDegradation(snapshot.combat);
+      resetRoundTargetingPressure(snapshot.combat);
+      appendLog(snapshot, null, `Round ${snapshot.combat.round} begins.`);
+    }
+    const candidate = snapshot.combat.actors.find((actor) => actor.id === snapshot.turnOrder[index]);
+    if (candidate && !candidate.defeated) break;
+  }
+  snapshot.turnIndex = index;
+  syncCurrentTurn(snapshot);
+  const next = snapshot.combat.currentTurnActorId;
+  if (next) {
+    refreshActorResponses(snapshot.combat, next);
+    const actor = snapshot.combat.actors.find((entry) => entry.id === next);
+    appendLog(snapshot, next, `${actor?.name ?? next} starts their turn.`);
+  }
+}
+
+export function applyEncounterCommand(snapshot: EncounterSnapshot, command: EncounterCommand): EncounterSnapshot {
+  switch (command.type) {
+    case "applyWounds":
+      applyEncounterWounds(snapshot, command);
+      break;
+    case "applyHealing":
+      applyEncounterHealing(snapshot, command);
+      break;
+    case "useAction":
+      recordEncounterActionUse(snapshot, command);
+      break;
+    case "spendResponse": {
+      const actor = findLivingActor(snapshot, command.actorId);
+      if (!spendActorResponse(snapshot.combat, actor.id)) {
+        throw new EncounterCommandError("NO_RESPONSES", `${actor.name} has no responses left this turn.`);
+      }
+      break;
+    }
+    case "recordRoll":
+      recordEncounterRoll(snapshot, command);
+      break;
+    case "clearLimitBreakEligibility":
+      snapshot.limitBreakEligibility = snapshot.limitBreakEligibility.filter(
+        (entry) => entry.id !== command.eligibilityId,
+      );
+      break;
+    case "addStatusEffect":
+      addEncounterStatusEffect(snapshot, command);
+      break;
+    case "removeStatusEffect":
+      if (!removeStatusEffectById(snapshot.combat, command.effectId)) {
+        throw new EncounterCommandError("EFFECT_NOT_FOUND", "That effect is no longer active.");
+      }
+      appendLog(snapshot, null, "An effect was removed.");
+      break;
+    case "endTurn":
+      advanceEncounterTurn(snapshot);
+      break;
+    case "setTurnOrder":
+      setEncounterTurnOrder(snapshot, command.actorIds);
+      break;
+    case "removeCombatant":
+      removeEncounterCombatant(snapshot, command.actorId);
+      break;
+  }
+  drainTranscript(snapshot);
+  return snapshot;
+}
+
+export function getEncounterOutcome(snapshot: EncounterSnapshot): EncounterOutcome {
+  const playersStanding = getLivingActors(snapshot.combat, "players").length > 0;
+  const monstersStanding = getLivingActors(snapshot.combat, "monsters").length > 0;
+  if (playersStanding && monstersStanding) return null;
+  if (playersStanding) return "players";
+  if (monstersStanding) return "monsters";
+  return "draw";
+}
+
+function stringField(raw: Record<string, unknown>, key: string): string {
+  const value = raw[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new EncounterCommandError("INVALID_COMMAND", `${key} is required.`);
+  }
+  return value.trim();
+}
+
+function poolField(raw: Record<string, unknown>, key = "pool"): CombatPool {
+  const value = raw[key];
+  if (value !== "physical" && value !== "mental") {
+    throw new EncounterCommandError("INVALID_COMMAND", `${key} must be physical or mental.`);
+  }
+  return value;
+}
+
+function attributeField(value: unknown): CombatAttributeName {
+  if (typeof value !== "string" || !(COMBAT_ATTRIBUTES as string[]).includes(value)) {
+    throw new EncounterCommandError("INVALID_COMMAND", "attribute must be a core attribute.");
+  }
+  return value as CombatAttributeName;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, 120) : null;
+}
+
+/** Validates a command received over the wire; combatant ids are checked when it is applied. */
+export function parseEncounterCommand(value: unknown): EncounterCommand {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new EncounterCommandError("INVALID_COMMAND", "A command object is required.");
+  }
+  const raw = value as Record<string, unknown>;
+  switch (raw.type) {
+    case "applyWounds":
+      return {
+        type: "applyWounds",
+        actorId: stringField(raw, "actorId"),
+        pool: poolField(raw),
+        amount: nonNegativeInteger(raw.amount, "amount"),
+        injuryRollSuccesses:
+          raw.injuryRollSuccesses === undefined || raw.injuryRollSuccesses === null || raw.injuryRollSuccesses === ""
+            ? null
+            : nonNegativeInteger(raw.injuryRollSuccesses, "injuryRollSuccesses"),
+        sourceLabel: optionalText(raw.sourceLabel),
+      };
+    case "applyHealing":
+      return {
+        type: "applyHealing",
+        actorId: stringField(raw, "actorId"),
+        pool: poolField(raw),
+        amount: nonNegativeInteger(raw.amount, "amount"),
+      };
+    case "useAction":
+      return { type: "useAction", actorId: stringField(raw, "actorId"), actionId: stringField(raw, "actionId") };
+    case "spendResponse":
+      return { type: "spendResponse", actorId: stringField(raw, "actorId") };
+    case "recordRoll":
+      return {
+        type: "recordRoll",
+        actorId: stringField(raw, "actorId"),
+        attribute: attributeField(raw.attribute),
+        successes: nonNegativeInteger(raw.successes, "successes"),
+      };
+    case "clearLimitBreakEligibility":
+      return { type: "clearLimitBreakEligibility", eligibilityId: stringField(raw, "eligibilityId") };
+    case "addStatusEffect": {
+      const kind = raw.kind;
+      if (typeof kind !== "string" || !(MANUAL_STATUS_KINDS as readonly string[]).includes(kind)) {
+        throw new EncounterCommandError("INVALID_COMMAND", "kind is not a supported effect.");
+      }
+      return {
+        type: "addStatusEffect",
+        targetActorId: stringField(raw, "targetActorId"),
+        sourceActorId: stringField(raw, "sourceActorId"),
+        kind: kind as EncounterManualStatusKind,
+        amount: nonNegativeInteger(raw.amount, "amount"),
+        remainingRounds: nonNegativeInteger(raw.remainingRounds, "remainingRounds"),
+        attribute: raw.attribute === undefined || raw.attribute === null || raw.attribute === ""
+          ? null
+          : attributeField(raw.attribute),
+        pool: raw.pool === undefined || raw.pool === null || raw.pool === "" ? null : poolField(raw),
+        label: optionalText(raw.label),
+      };
+    }
+    case "removeStatusEffect":
+      return { type: "removeStatusEffect", effectId: stringField(raw, "effectId") };
+    case "endTurn":
+      return { type: "endTurn" };
+    case "setTurnOrder": {
+      if (!Array.isArray(raw.actorIds) || raw.actorIds.some((id) => typeof id !== "string")) {
+        throw new EncounterCommandError("INVALID_COMMAND", "actorIds must be a list of combatant ids.");
+      }
+      return { type: "setTurnOrder", actorIds: raw.actorIds as string[] };
+    }
+    case "removeCombatant":
+      return { type: "removeCombatant", actorId: stringField(raw, "actorId") };
+    default:
+      throw new EncounterCommandError("UNKNOWN_COMMAND", "Unknown encounter command.");
+  }
+}
+
+function rosterEntries(value: unknown, idKey: "characterId" | "monsterId"): Array<{ id: string; quantity: number }> {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new EncounterCommandError("INVALID_ROSTER", `Each ${idKey} selection must be in a list.`);
+  }
+  const merged = new Map<string, number>();
+  for (const entry of value) {
+    const raw = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const id = typeof raw[idKey] === "string" ? (raw[idKey] as string).trim() : "";
+    if (!id) throw new EncounterCommandError("INVALID_ROSTER", `${idKey} is required for each selection.`);
+    const quantity = raw.quantity === undefined ? 1 : Number(raw.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ROSTER_QUANTITY) {
+      throw new EncounterCommandError("INVALID_ROSTER", `Quantity must be an integer between 1 and ${MAX_ROSTER_QUANTITY}.`);
+    }
+    merged.set(id, (merged.get(id) ?? 0) + quantity);
+  }
+  return [...merged.entries()].map(([id, quantity]) => ({ id, quantity }));
+}
+
+/** Parses the characters and monsters a GD brings into an encounter. */
+export function parseEncounterRoster(raw: { characters?: unknown; monsters?: unknown }): {
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+} {
+  const characters = rosterEntries(raw.characters, "characterId").map((entry) => ({
+    characterId: entry.id,
+    quantity: entry.quantity,
+  }));
+  const monsters = rosterEntries(raw.monsters, "monsterId").map((entry) => ({
+    monsterId: entry.id,
+    quantity: entry.quantity,
+  }));
+  const total = [...characters, ...monsters].reduce((sum, entry) => sum + entry.quantity, 0);
+  if (total > MAX_ROSTER_INSTANCES) {
+    throw new EncounterCommandError("INVALID_ROSTER", `Add at most ${MAX_ROSTER_INSTANCES} combatants at a time.`);
+  }
+  return { characters, monsters };
+}
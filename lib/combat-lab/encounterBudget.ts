@@ -0,0 +1,366 @@
+import type { RadarAxes } from "@/lib/calculators/monsterOutcomeCalculator";
+import type { CalculatorConfig } from "@/lib/calculators/calculatorConfig";
+import { normalizeBuilderData } from "@/lib/characterBuilder/core";
+import {
+  buildCharacterDerivedCombatStats,
+  type CharacterDerivedCombatStats,
+} from "@/lib/characterBuilder/derivedStats";
+import type { ProtectionTuningValues } from "@/lib/config/combatTuningShared";
+
+import type { CombatLabRunCharacterInput, CombatLabRunMonsterInput } from "./runHistory";
+import { parseCharacterSelections, parseMonsterSelections, type CombatLabRunRequestBody } from "./runRequest";
+import type { CombatSuiteReport } from "./types";
+
+export const ENCOUNTER_DIFFICULTY_BANDS = ["TRIVIAL", "EASY", "MODERATE", "HARD", "DEADLY"] as const;
+export type EncounterDifficultyBand = (typeof ENCOUNTER_DIFFICULTY_BANDS)[number];
+
+export const ENCOUNTER_DIFFICULTY_LABELS: Record<EncounterDifficultyBand, string> = {
+  TRIVIAL: "Trivial",
+  EASY: "Easy",
+  MODERATE: "Moderate",
+  HARD: "Hard",
+  DEADLY: "Deadly",
+};
+
+/** Upper score bound of each band; anything at or above the HARD bound is DEADLY. */
+const BAND_UPPER_SCORES: Record<Exclude<EncounterDifficultyBand, "DEADLY">, number> = {
+  TRIVIAL: 0.5,
+  EASY: 0.8,
+  MODERATE: 1.2,
+  HARD: 1.7,
+};
+
+/** The score the gap is measured against when aiming for a band. */
+export const ENCOUNTER_BAND_TARGET_SCORES: Record<EncounterDifficultyBand, number> = {
+  TRIVIAL: 0.35,
+  EASY: 0.65,
+  MODERATE: 1,
+  HARD: 1.45,
+  DEADLY: 2,
+};
+
+/**
+ * Load one baseline party member absorbs at MODERATE difficulty. One load unit is an on-budget
+ * Elite at the party's level (radar 5 on both lanes of an axis pair), so four baseline members
+ * meet two such Elites as a moderate fight.
+ */
+const BASELINE_MEMBER_LOAD = 0.5;
+/** Share of the score taken from monster threat against party durability. */
+const THREAT_SCORE_WEIGHT = 0.6;
+/** Load change per level a monster sits above or below the party. */
+const LEVEL_LOAD_STEP = 0.15;
+const MIN_LEVEL_LOAD_SCALE = 0.25;
+/** Share of member durability taken from health pools; the rest comes from defence dice. */
+const HEALTH_DURABILITY_SHARE = 0.7;
+/** Even Destiny spread (48 points) used as the level reference for party members. */
+const REFERENCE_ATTRIBUTE_VALUE = 8;
+
+export type EncounterBudgetAxes = Pick<
+  RadarAxes,
+  "physicalThreat" | "mentalThreat" | "physicalSurvivability" | "mentalSurvivability"
+>;
+
+export type EncounterBudgetMemberStats = Pick<
+  CharacterDerivedCombatStats,
+  | "physicalHealth"
+  | "mentalHealth"
+  | "weaponSkill"
+  | "armorSkill"
+  | "willpower"
+  | "dodgeDice"
+  | "physicalProtection"
+  | "mentalProtection"
+>;
+
+export type EncounterBudgetMemberInput = {
+  id: string;
+  name: string;
+  level: number;
+  quantity: number;
+  stats: EncounterBudgetMemberStats;
+};
+
+export type EncounterBudgetMonsterInput = {
+  id: string;
+  name: string;
+  level: number;
+  tier: string;
+  legendary: boolean;
+  quantity: number;
+  axes: EncounterBudgetAxes;
+};
+
+export type EncounterBudgetMember = EncounterBudgetMemberInput & {
+  /** Offence against a reference character of the same level; 1 is on par. */
+  offenceIndex: number;
+  /** Durability against a reference character of the same level; 1 is on par. */
+  durabilityIndex: number;
+};
+
+export type EncounterBudgetMonster = EncounterBudgetMonsterInput & {
+  /** Combined threat per copy in load units. */
+  threatLoad: number;
+  /** Combined survivability per copy in load units. */
+  survivabilityLoad: number;
+};
+
+export type EncounterBudgetReport = {
+  partyLevel: number;
+  partySize: number;
+  partyOffence: number;
+  partyDurability: number;
+  threatLoad: number;
+  survivabilityLoad: number;
+  /** Monster threat against what the party's durability absorbs; 1 is moderate. */
+  threatScore: number;
+  /** Monster survivability against what the party's offence clears; 1 is moderate. */
+  survivabilityScore: number;
+  score: number;
+  band: EncounterDifficultyBand;
+  targetBand: EncounterDifficultyBand;
+  targetScore: number;
+  /** Signed score distance to the target band's range; 0 when the encounter is inside it. */
+  gap: number;
+  /** Factor to scale the monster side by to land on the target score. */
+  monsterScaleToTarget: number | null;
+  members: EncounterBudgetMember[];
+  monsters: EncounterBudgetMonster[];
+};
+
+export type EncounterBudgetComparison = {
+  predictedBand: EncounterDifficultyBand;
+  simulatedBand: EncounterDifficultyBand;
+  /** Simulated band index minus predicted; positive means the fight plays harder than budgeted. */
+  bandDelta: number;
+  playerWinRate: number;
+  averageWinnerHealthRemainingPercent: number;
+  averageRounds: number;
+};
+
+export type EncounterBudgetRequest = {
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+  targetBand: EncounterDifficultyBand;
+  verify: boolean;
+};
+
+export class EncounterBudgetError extends Error {
+  readonly code: "INVALID_ENCOUNTER_BUDGET";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "EncounterBudgetError";
+    this.code = "INVALID_ENCOUNTER_BUDGET";
+  }
+}
+
+export function isEncounterDifficultyBand(value: unknown): value is EncounterDifficultyBand {
+  return typeof value === "string" && (ENCOUNTER_DIFFICULTY_BANDS as readonly string[]).includes(value);
+}
+
+/** Reads selections the same way a Combat Lab run does, plus the target band and verify flag. */
+export function parseEncounterBudgetRequest(
+  body: CombatLabRunRequestBody & { targetBand?: unknown; verify?: unknown },
+): EncounterBudgetRequest {
+  const { selections: characters, error: characterError } = parseCharacterSelections(body);
+  const { selections: monsters, error: monsterError } = parseMonsterSelections(body);
+  const error = characterError ?? monsterError;
+  if (error) throw new EncounterBudgetError(error);
+  if (characters.length === 0 || monsters.length === 0) {
+    throw new EncounterBudgetError("An encounter needs at least one character and one monster");
+  }
+  if (body.targetBand !== undefined && !isEncounterDifficultyBand(body.targetBand)) {
+    throw new EncounterBudgetError(`targetBand must be one of ${ENCOUNTER_DIFFICULTY_BANDS.join(", ")}`);
+  }
+  return {
+    characters,
+    monsters,
+    targetBand: isEncounterDifficultyBand(body.targetBand) ? body.targetBand : "MODERATE",
+    verify: body.verify === true,
+  };
+}
+
+export function encounterDifficultyBandForScore(score: number): EncounterDifficultyBand {
+  if (score < BAND_UPPER_SCORES.TRIVIAL) return "TRIVIAL";
+  if (score < BAND_UPPER_SCORES.EASY) return "EASY";
+  if (score < BAND_UPPER_SCORES.MODERATE) return "MODERATE";
+  if (score < BAND_UPPER_SCORES.HARD) return "HARD";
+  return "DEADLY";
+}
+
+function bandRange(band: EncounterDifficultyBand): { low: number; high: number } {
+  const index = ENCOUNTER_DIFFICULTY_BANDS.indexOf(band);
+  const previous = index > 0 ? ENCOUNTER_DIFFICULTY_BANDS[index - 1] : null;
+  return {
+    low: previous && previous !== "DEADLY" ? BAND_UPPER_SCORES[previous] : 0,
+    high: band === "DEADLY" ? Number.POSITIVE_INFINITY : BAND_UPPER_SCORES[band],
+  };
+}
+
+function ratio(value: number, reference: number): number {
+  return reference > 0 ? value / reference : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Derived stats of an even-spread, unequipped character; the yardstick for party members. */
+export function referenceMemberStats(level: number, protectionTuning?: ProtectionTuningValues): EncounterBudgetMemberStats {
+  const attributes = {
+    Attack: REFERENCE_ATTRIBUTE_VALUE,
+    Guard: REFERENCE_ATTRIBUTE_VALUE,
+    Fortitude: REFERENCE_ATTRIBUTE_VALUE,
+    Intellect: REFERENCE_ATTRIBUTE_VALUE,
+    Synergy: REFERENCE_ATTRIBUTE_VALUE,
+    Bravery: REFERENCE_ATTRIBUTE_VALUE,
+  };
+  return buildCharacterDerivedCombatStats({
+    level,
+    builderData: normalizeBuilderData({ attributeMethod: "DESTINY", attributes }),
+    backpackItems: [],
+    protectionTuning,
+  });
+}
+
+/**
+ * Scores a party member against the reference character of the same level. Protection counts as
+ * health it saves over the calculator's combat horizon.
+ */
+export function scoreEncounterMember(
+  stats: EncounterBudgetMemberStats,
+  reference: EncounterBudgetMemberStats,
+  combatHorizonRounds: number,
+): { offenceIndex: number; durabilityIndex: number } {
+  const health =
+    stats.physicalHealth +
+    stats.mentalHealth +
+    (stats.physicalProtection + stats.mentalProtection) * combatHorizonRounds;
+  const referenceHealth =
+    reference.physicalHealth +
+    reference.mentalHealth +
+    (reference.physicalProtection + reference.mentalProtection) * combatHorizonRounds;
+  const defenceDice = stats.armorSkill + stats.willpower + stats.dodgeDice;
+  const referenceDefenceDice = reference.armorSkill + reference.willpower + reference.dodgeDice;
+  return {
+    offenceIndex: ratio(stats.weaponSkill, reference.weaponSkill),
+    durabilityIndex:
+      HEALTH_DURABILITY_SHARE * ratio(health, referenceHealth) +
+      (1 - HEALTH_DURABILITY_SHARE) * ratio(defenceDice, referenceDefenceDice),
+  };
+}
+
+function monsterLoadScale(
+  monster: Pick<EncounterBudgetMonsterInput, "level" | "tier" | "legendary">,
+  partyLevel: number,
+  tierMultipliers: CalculatorConfig["tierMultipliers"],
+): number {
+  const tierKey = (monster.legendary ? "LEGENDARY" : monster.tier) as keyof CalculatorConfig["tierMultipliers"];
+  const tierMultiplier = tierMultipliers[tierKey] ?? tierMultipliers.ELITE;
+  const levelScale = Math.max(MIN_LEVEL_LOAD_SCALE, 1 + LEVEL_LOAD_STEP * (monster.level - partyLevel));
+  return tierMultiplier * levelScale;
+}
+
+/**
+ * Budgets an encounter from the party's derived stats and the monsters' radar axes. Radar axes
+ * are normalized per tier, so each monster is scaled back by its tier multiplier and by how far
+ * its level sits from the party's average level.
+ */
+export function computeEncounterBudget(params: {
+  members: EncounterBudgetMemberInput[];
+  monsters: EncounterBudgetMonsterInput[];
+  targetBand: EncounterDifficultyBand;
+  config: Pick<CalculatorConfig, "tierMultipliers" | "baselineParty">;
+  referenceStats: (level: number) => EncounterBudgetMemberStats;
+}): EncounterBudgetReport {
+  const partySize = params.members.reduce((sum, member) => sum + member.quantity, 0);
+  const partyLevel =
+    partySize > 0
+      ? params.members.reduce((sum, member) => sum + member.level * member.quantity, 0) / partySize
+      : 1;
+
+  const members = params.members.map((member) => ({
+    ...member,
+    ...scoreEncounterMember(
+      member.stats,
+      params.referenceStats(member.level),
+      params.config.baselineParty.combatHorizonRounds,
+    ),
+  }));
+  const partyOffence = members.reduce((sum, member) => sum + member.offenceIndex * member.quantity, 0);
+  const partyDurability = members.reduce((sum, member) => sum + member.durabilityIndex * member.quantity, 0);
+
+  const monsters = params.monsters.map((monster) => {
+    const scale = monsterLoadScale(monster, partyLevel, params.config.tierMultipliers);
+    return {
+      ...monster,
+      threatLoad: round((scale * (monster.axes.physicalThreat + monster.axes.mentalThreat)) / 10),
+      survivabilityLoad: round(
+        (scale * (monster.axes.physicalSurvivability + monster.axes.mentalSurvivability)) / 10,
+      ),
+    };
+  });
+  const threatLoad = monsters.reduce((sum, monster) => sum + monster.threatLoad * monster.quantity, 0);
+  const survivabilityLoad = monsters.reduce((sum, monster) => sum + monster.survivabilityLoad * monster.quantity, 0);
+
+  const threatScore = ratio(threatLoad, partyDurability * BASELINE_MEMBER_LOAD);
+  const survivabilityScore = ratio(survivabilityLoad, partyOffence * BASELINE_MEMBER_LOAD);
+  const score = THREAT_SCORE_WEIGHT * threatScore + (1 - THREAT_SCORE_WEIGHT) * survivabilityScore;
+  const targetScore = ENCOUNTER_BAND_TARGET_SCORES[params.targetBand];
+  const target = bandRange(params.targetBand);
+  const gap = score < target.low ? score - target.low : score >= target.high ? score - target.high : 0;
+
+  return {
+    partyLevel: round(partyLevel),
+    partySize,
+    partyOffence: round(partyOffence),
+    partyDurability: round(partyDurability),
+    threatLoad: round(threatLoad),
+    survivabilityLoad: round(survivabilityLoad),
+    threatScore: round(threatScore),
+    survivabilityScore: round(survivabilityScore),
+    score: round(score),
+    band: encounterDifficultyBandForScore(score),
+    targetBand: params.targetBand,
+    targetScore,
+    gap: round(gap),
+    monsterScaleToTarget: score > 0 ? round(targetScore / score) : null,
+    members: members.map((member) => ({
+      ...member,
+      offenceIndex: round(member.offenceIndex),
+      durabilityIndex: round(member.durabilityIndex),
+    })),
+    monsters,
+  };
+}
+
+/**
+ * Reads a difficulty band off a simulated suite: losing fights are HARD or DEADLY, and won fights
+ * are graded by how much health the party kept.
+ */
+export function simulatedDifficultyBand(
+  report: Pick<CombatSuiteReport, "playerWinRate" | "averageWinnerHealthRemainingPercent">,
+): EncounterDifficultyBand {
+  if (report.playerWinRate < 0.5) return "DEADLY";
+  if (report.playerWinRate < 0.8) return "HARD";
+  const healthKept = report.averageWinnerHealthRemainingPercent;
+  if (healthKept >= 0.75) return "TRIVIAL";
+  if (healthKept >= 0.55) return "EASY";
+  if (healthKept >= 0.35) return "MODERATE";
+  return "HARD";
+}
+
+export function compareEncounterBudget(
+  budget: Pick<EncounterBudgetReport, "band">,
+  report: Pick<CombatSuiteReport, "playerWinRate" | "averageWinnerHealthRemainingPercent" | "averageRounds">,
+): EncounterBudgetComparison {
+  const simulatedBand = simulatedDifficultyBand(report);
+  return {
+    predictedBand: budget.band,
+    simulatedBand,
+    bandDelta: ENCOUNTER_DIFFICULTY_BANDS.indexOf(simulatedBand) - ENCOUNTER_DIFFICULTY_BANDS.indexOf(budget.band),
+    playerWinRate: report.playerWinRate,
+    averageWinnerHealthRemainingPercent: report.averageWinnerHealthRemainingPercent,
+    averageRounds: report.averageRounds,
+  };
+}
@@ -0,0 +1,140 @@
+import "server-only";
+
+import { adaptCampaignCombatants, fetchCampaignCombatantRows } from "@/lib/combat-lab/campaignCombatantsServer";
+import {
+  compareEncounterBudget,
+  computeEncounterBudget,
+  referenceMemberStats,
+  type EncounterBudgetComparison,
+  type EncounterBudgetReport,
+  type EncounterBudgetRequest,
+} from "@/lib/combat-lab/encounterBudget";
+import { createActorInstances } from "@/lib/combat-lab/combatState";
+import { campaignCharacterDerivedCombatStats } from "@/lib/combat-lab/liveAdapters";
+import {
+  loadMonsterTraitWeights,
+  storedMonsterRadarAxes,
+  type MonsterRadarContext,
+} from "@/lib/combat-lab/monsterRadarServer";
+import { runScenarioSuite } from "@/lib/combat-lab/reporting";
+import type { CombatLabRunTuningSetIds } from "@/lib/combat-lab/runHistory";
+import { applyCombatTuningToCalculatorConfig, normalizeCombatTuning } from "@/lib/config/combatTuningShared";
+import { outcomeNormalizationValuesToCalculatorConfig } from "@/lib/config/outcomeNormalizationShared";
+
+/** Runs used by "verify in Combat Lab"; enough for a stable band without a long request. */
+const VERIFY_RUNS = 100;
+const VERIFY_MAX_ROUNDS = 20;
+
+export type CampaignEncounterBudget = {
+  budget: EncounterBudgetReport;
+  verification: EncounterBudgetComparison | null;
+  tuningSetIds: CombatLabRunTuningSetIds;
+  warnings: string[];
+};
+
+/**
+ * Budgets a campaign encounter with the active tuning sets and, when asked, runs the same roster
+ * through a Combat Lab suite to compare the predicted band with the simulated one.
+ * Throws the same selection errors as `fetchCampaignCombatantRows`.
+ */
+export async function buildCampaignEncounterBudget(params: {
+  campaignId: string;
+  request: EncounterBudgetRequest;
+}): Promise<CampaignEncounterBudget> {
+  const { request } = params;
+  const rows = await fetchCampaignCombatantRows({
+    campaignId: params.campaignId,
+    characters: request.characters,
+    monsters: request.monsters,
+  });
+  const protectionTuning = normalizeCombatTuning(rows.combatTuningValues as Record<string, unknown>);
+  const config = applyCombatTuningToCalculatorConfig(
+    outcomeNormalizationValuesToCalculatorConfig(rows.outcomeNormalizationValues),
+    rows.combatTuningValues as Record<string, unknown>,
+  );
+  const traitsById = new Map((await loadMonsterTraitWeights(rows.monsterRows)).map((trait) => [trait.id, trait]));
+  const warnings: string[] = [];
+  const radarContext: MonsterRadarContext = {
+    config,
+    protectionTuning,
+    powerTuning: rows.powerTuning,
+    equipmentById: rows.monsterEquipmentById,
+    traitsById,
+    warnings,
+  };
+
+  const characterById = new Map(rows.characterRows.map((row) => [row.id, row]));
+  const members = request.characters.map((selection) => {
+    const row = characterById.get(selection.characterId);
+    if (!row) throw new Error("SELECTED_CHARACTER_NOT_FOUND");
+    return {
+      id: row.id,
+      name: row.name,
+      level: Math.max(1, Math.trunc(row.level || 1)),
+      quantity: selection.quantity,
+      stats: campaignCharacterDerivedCombatStats(row, protectionTuning),
+    };
+  });
+  const monsterById = new Map(rows.monsterRows.map((row) => [row.id, row]));
+  const monsters = request.monsters.map((selection) => {
+    const stored = monsterById.get(selection.monsterId);
+    if (!stored) throw new Error("SELECTED_MONSTER_NOT_FOUND");
+    const row = typeof selection.level === "number" ? { ...stored, level: selection.level } : stored;
+    const axes = storedMonsterRadarAxes(row, radarContext);
+    return {
+      id: row.id,
+      name: row.name,
+      level: row.level,
+      tier: row.tier,
+      legendary: row.legendary,
+      quantity: selection.quantity,
+      axes: {
+        physicalThreat: axes.physicalThreat,
+        mentalThreat: axes.mentalThreat,
+        physicalSurvivability: axes.physicalSurvivability,
+        mentalSurvivability: axes.mentalSurvivability,
+      },
+    };
+  });
+
+  const referenceByLevel = new Map<number, ReturnType<typeof referenceMemberStats>>();
+  const budget = computeEncounterBudget({
+    members: members.map((member) => ({
+      ...member,
+      stats: {
+        physicalHealth: member.stats.physicalHealth,
+        mentalHealth: member.stats.mentalHealth,
+        weaponSkill: member.stats.weaponSkill,
+        armorSkill: member.stats.armorSkill,
+        willpower: member.stats.willpower,
+        dodgeDice: member.stats.dodgeDice,
+        physicalProtection: member.stats.physicalProtection,
+        mentalProtection: member.stats.mentalProtection,
+      },
+    })),
+    monsters,
+    targetBand: request.targetBand,
+    config,
+    referenceStats: (level) => {
+      const cached = referenceByLevel.get(level) ?? referenceMemberStats(level, protectionTuning);
+      referenceByLevel.set(level, cached);
+      return cached;
+    },
+  });
+
+  let verification: EncounterBudgetComparison | null = null;
+  if (request.verify) {
+    const adapted = adaptCampaignCombatants(rows);
+    const report = runScenarioSuite({
+      name: `${rows.campaign.name}: encounter budget check`,
+      players: adapted.characters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+      monsters: adapted.monsters.flatMap((entry) => createActorInstances(entry.actor, entry.quantity)),
+      runs: VERIFY_RUNS,
+      seed: Date.now() % 100000,
+      maxRounds: VERIFY_MAX_ROUNDS,
+    });
+    verification = compareEncounterBudget(budget, report);
+  }
+
+  return { budget, verification, tuningSetIds: rows.tuningSetIds, warnings };
+}
@@ -0,0 +1,279 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import { loadCampaignCombatants } from "@/lib/combat-lab/campaignCombatantsServer";
+import {
+  addEncounterCombatants,
+  applyEncounterCommand,
+  createEncounterSnapshot,
+  EncounterCommandError,
+  getEncounterOutcome,
+  type CampaignEncounterRecord,
+  type CampaignEncounterStatus,
+  type CampaignEncounterSummary,
+  type EncounterCombatantInput,
+  type EncounterCommand,
+  type EncounterLimitBreak,
+  type EncounterSnapshot,
+} from "@/lib/combat-lab/encounter";
+import type { CombatLabRunCharacterInput, CombatLabRunMonsterInput } from "@/lib/combat-lab/runHistory";
+import type { CombatSide } from "@/lib/combat-lab/types";
+import { prisma } from "@/prisma/client";
+
+const ENCOUNTER_LIST_LIMIT = 50;
+
+export class EncounterServiceError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "EncounterServiceError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const ENCOUNTER_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  round: true,
+  revision: true,
+  createdByUserId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CampaignEncounterSelect;
+
+type StoredEncounterSummary = Prisma.CampaignEncounterGetPayload<{ select: typeof ENCOUNTER_SUMMARY_SELECT }>;
+
+type MonsterLimitBreakFields = {
+  limitBreakName: string | null;
+  limitBreakTier: EncounterLimitBreak["tier"] | null;
+  limitBreakTriggerText: string | null;
+  limitBreakAttribute: EncounterLimitBreak["attribute"];
+  limitBreakThresholdSuccesses: number | null;
+  limitBreakCostText: string | null;
+  limitBreakEffectText: string | null;
+  limitBreak2Name: string | null;
+  limitBreak2Tier: EncounterLimitBreak["tier"] | null;
+  limitBreak2TriggerText: string | null;
+  limitBreak2Attribute: EncounterLimitBreak["attribute"];
+  limitBreak2ThresholdSuccesses: number | null;
+  limitBreak2CostText: string | null;
+  limitBreak2EffectText: string | null;
+};
+
+function toEncounterSummary(row: StoredEncounterSummary): CampaignEncounterSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    round: row.round,
+    revision: row.revision,
+    createdByUserId: row.createdByUserId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toEncounterRecord(row: StoredEncounterSummary & { stateJson: Prisma.JsonValue }): CampaignEncounterRecord {
+  const snapshot = row.stateJson as unknown as EncounterSnapshot;
+  return {
+    ...toEncounterSummary(row),
+    snapshot,
+    outcome: getEncounterOutcome(snapshot),
+  };
+}
+
+function snapshotJson(snapshot: EncounterSnapshot): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue;
+}
+
+export function monsterLimitBreaks(monster: MonsterLimitBreakFields): EncounterLimitBreak[] {
+  const limitBreaks: EncounterLimitBreak[] = [];
+  if (monster.limitBreakName?.trim() && monster.limitBreakTier) {
+    limitBreaks.push({
+      slot: 1,
+      name: monster.limitBreakName.trim(),
+      tier: monster.limitBreakTier,
+      attribute: monster.limitBreakAttribute,
+      thresholdSuccesses: monster.limitBreakThresholdSuccesses,
+      triggerText: monster.limitBreakTriggerText,
+      costText: monster.limitBreakCostText,
+      effectText: monster.limitBreakEffectText,
+    });
+  }
+  if (monster.limitBreak2Name?.trim() && monster.limitBreak2Tier) {
+    limitBreaks.push({
+      slot: 2,
+      name: monster.limitBreak2Name.trim(),
+      tier: monster.limitBreak2Tier,
+      attribute: monster.limitBreak2Attribute,
+      thresholdSuccesses: monster.limitBreak2ThresholdSuccesses,
+      triggerText: monster.limitBreak2TriggerText,
+      costText: monster.limitBreak2CostText,
+      effectText: monster.limitBreak2EffectText,
+    });
+  }
+  return limitBreaks;
+}
+
+async function loadEncounterCombatantInputs(
+  campaignId: string,
+  characters: CombatLabRunCharacterInput[],
+  monsters: CombatLabRunMonsterInput[],
+) {
+  const loaded = await loadCampaignCombatants({ campaignId, characters, monsters });
+  const players: EncounterCombatantInput[] = loaded.characters.map((entry) => ({
+    actor: entry.actor,
+    sourceType: "character",
+    sourceId: entry.actor.id,
+    quantity: entry.quantity,
+  }));
+  const opponents: EncounterCombatantInput[] = loaded.monsters.map((entry) => ({
+    actor: entry.actor,
+    sourceType: "monster",
+    sourceId: entry.monster.id,
+    quantity: entry.quantity,
+    limitBreaks: monsterLimitBreaks(entry.monster),
+  }));
+  return { players, monsters: opponents };
+}
+
+function commandFailure(error: unknown): never {
+  if (error instanceof EncounterCommandError) {
+    throw new EncounterServiceError(error.code, error.message, 400);
+  }
+  throw error;
+}
+
+async function loadStoredEncounter(campaignId: string, encounterId: string) {
+  const row = await prisma.campaignEncounter.findFirst({
+    where: { id: encounterId, campaignId },
+    select: { ...ENCOUNTER_SUMMARY_SELECT, stateJson: true },
+  });
+  if (!row) throw new EncounterServiceError("ENCOUNTER_NOT_FOUND", "Encounter not found.", 404);
+  return row;
+}
+
+// Every write is conditional on the revision the client last saw, so two devices driving the same
+// fight cannot silently overwrite each other's turn.
+async function saveEncounterSnapshot(params: {
+  campaignId: string;
+  encounterId: string;
+  expectedRevision: number;
+  snapshot: EncounterSnapshot;
+  status?: CampaignEncounterStatus;
+}): Promise<CampaignEncounterRecord> {
+  const result = await prisma.campaignEncounter.updateMany({
+    where: { id: params.encounterId, campaignId: params.campaignId, revision: params.expectedRevision },
+    data: {
+      stateJson: snapshotJson(params.snapshot),
+      round: params.snapshot.combat.round,
+      revision: { increment: 1 },
+      ...(params.status ? { status: params.status } : {}),
+    },
+  });
+  if (result.count === 0) {
+    throw new EncounterServiceError(
+      "REVISION_CONFLICT",
+      "This encounter was updated elsewhere. Reload it and try again.",
+      409,
+    );
+  }
+  return toEncounterRecord(await loadStoredEncounter(params.campaignId, params.encounterId));
+}
+
+export async function listCampaignEncounters(campaignId: string): Promise<CampaignEncounterSummary[]> {
+  const rows = await prisma.campaignEncounter.findMany({
+    where: { campaignId },
+    orderBy: [{ status: "asc" }, { updatedAt: "desc" }],
+    take: ENCOUNTER_LIST_LIMIT,
+    select: ENCOUNTER_SUMMARY_SELECT,
+  });
+  return rows.map(toEncounterSummary);
+}
+
+export async function createCampaignEncounter(params: {
+  campaignId: string;
+  userId: string;
+  name: string;
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+}): Promise<CampaignEncounterRecord> {
+  const inputs = await loadEncounterCombatantInputs(params.campaignId, params.characters, params.monsters);
+  const snapshot = createEncounterSnapshot(inputs.players, inputs.monsters);
+  const row = await prisma.campaignEncounter.create({
+    data: {
+      campaignId: params.campaignId,
+      createdByUserId: params.userId,
+      name: params.name.trim().slice(0, 120) || "Encounter",
+      round: snapshot.combat.round,
+      stateJson: snapshotJson(snapshot),
+    },
+    select: { ...ENCOUNTER_SUMMARY_SELECT, stateJson: true },
+  });
+  return toEncounterRecord(row);
+}
+
+export async function getCampaignEncounter(campaignId: string, encounterId: string): Promise<CampaignEncounterRecord> {
+  return toEncounterRecord(await loadStoredEncounter(campaignId, encounterId));
+}
+
+export async function applyCampaignEncounterCommand(params: {
+  campaignId: string;
+  encounterId: string;
+  expectedRevision: number;
+  command: EncounterCommand;
+}): Promise<CampaignEncounterRecord> {
+  const row = await loadStoredEncounter(params.campaignId, params.encounterId);
+  if (row.status === "COMPLETED") {
+    throw new EncounterServiceError("ENCOUNTER_COMPLETED", "Reopen the encounter before changing it.", 409);
+  }
+  const snapshot = row.stateJson as unknown as EncounterSnapshot;
+  try {
+    applyEncounterCommand(snapshot, params.command);
+  } catch (error) {
+    commandFailure(error);
+  }
+  return saveEncounterSnapshot({ ...params, snapshot });
+}
+
+export async function addCampaignEncounterCombatants(params: {
+  campaignId: string;
+  encounterId: string;
+  expectedRevision: number;
+  side: CombatSide;
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+}): Promise<CampaignEncounterRecord> {
+  const row = await loadStoredEncounter(params.campaignId, params.encounterId);
+  const inputs = await loadEncounterCombatantInputs(params.campaignId, params.characters, params.monsters);
+  const snapshot = row.stateJson as unknown as EncounterSnapshot;
+  if (inputs.players.length > 0) addEncounterCombatants(snapshot, "players", inputs.players);
+  // Monsters normally oppose the party, but a summoned ally can join the players' side.
+  if (inputs.monsters.length > 0) addEncounterCombatants(snapshot, params.side, inputs.monsters);
+  return saveEncounterSnapshot({ ...params, snapshot });
+}
+
+export async function setCampaignEncounterStatus(params: {
+  campaignId: string;
+  encounterId: string;
+  expectedRevision: number;
+  status: CampaignEncounterStatus;
+}): Promise<CampaignEncounterRecord> {
+  const row = await loadStoredEncounter(params.campaignId, params.encounterId);
+  return saveEncounterSnapshot({
+    ...params,
+    snapshot: row.stateJson as unknown as EncounterSnapshot,
+  });
+}
+
+export async function deleteCampaignEncounter(campaignId: string, encounterId: string): Promise<boolean> {
+  const result = await prisma.campaignEncounter.deleteMany({
+    where: { id: encounterId, campaignId },
+  });
+  return result.count > 0;
+}
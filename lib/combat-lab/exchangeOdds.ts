@@ -0,0 +1,209 @@
+import { cancelSuccessDistributions } from "@/lib/summoning/augmentDebuffEconomics";
+
+import {
+  CORE_TO_COMBAT_ATTRIBUTE,
+  effectiveAccuracyAttribute,
+  passiveDefenceAmount,
+  vrpRollAdjustment,
+} from "./actionResolver";
+import { successDistribution } from "./dice";
+import type { CombatAction, CombatActor, CombatAttributeName, CombatDieSize } from "./types";
+
+export type ExchangeDefenceMode = "auto" | "dodge" | "block";
+
+export const EXCHANGE_DEFENCE_MODES: ExchangeDefenceMode[] = ["auto", "dodge", "block"];
+
+export type ExchangeDistributionSummary = {
+  /** Index = successes or wounds. */
+  probabilities: number[];
+  expected: number;
+  probabilityZero: number;
+};
+
+export type ExchangeOdds = {
+  actionId: string;
+  actionName: string;
+  pool: "physical" | "mental";
+  defenceMode: ExchangeDefenceMode;
+  attack: { diceCount: number; die: CombatDieSize; attribute: CombatAttributeName };
+  resist: { attribute: string; diceCount: number; die: CombatDieSize } | null;
+  effectPerSuccess: number;
+  staticProtection: number;
+  attackSuccesses: ExchangeDistributionSummary;
+  appliedSuccesses: ExchangeDistributionSummary;
+  /** Probability the target rolls each defence, over exchanges that reach the defence step. */
+  defenceChosen: { dodge: number; block: number };
+  probabilityDodged: number;
+  expectedBlocked: number;
+  expectedStaticPrevented: number;
+  wounds: ExchangeDistributionSummary;
+  targetHpCurrent: number;
+  /** Probability the wounds take the target's pool to zero; injury rules still apply after that. */
+  probabilityReducedToZero: number;
+};
+
+export class ExchangeOddsError extends Error {
+  readonly code: "UNSUPPORTED_ACTION";
+
+  constructor(code: "UNSUPPORTED_ACTION", message: string) {
+    super(message);
+    this.name = "ExchangeOddsError";
+    this.code = code;
+  }
+}
+
+function summarize(probabilities: number[]): ExchangeDistributionSummary {
+  let last = probabilities.length - 1;
+  while (last > 0 && probabilities[last] <= 0) last -= 1;
+  const trimmed = probabilities.slice(0, last + 1);
+  return {
+    probabilities: trimmed,
+    expected: trimmed.reduce((sum, probability, index) => sum + probability * index, 0),
+    probabilityZero: trimmed[0] ?? 0,
+  };
+}
+
+function probabilityAtLeast(distribution: number[], threshold: number) {
+  return distribution.slice(Math.max(0, threshold)).reduce((sum, probability) => sum + probability, 0);
+}
+
+function blockPerSuccess(target: CombatActor, pool: "physical" | "mental") {
+  return Math.max(
+    0,
+    Math.trunc(
+      pool === "physical"
+        ? target.physicalBlockPerSuccess ?? target.physicalDefenceBlock ?? 0
+        : target.mentalBlockPerSuccess ?? target.mentalDefenceBlock ?? 0,
+    ),
+  );
+}
+
+/** Non-passive attacks an actor could open an exchange with. */
+export function listExchangeActions(attacker: CombatActor): CombatAction[] {
+  return attacker.actions.filter((action) => action.kind === "attack" && !action.passive);
+}
+
+/**
+ * Exact wound distribution for one attack against one fresh target, following the resolver:
+ * attack roll, resist cancellation, the expected-value dodge-or-block choice, then static
+ * protection. Status modifiers, degradation, defensive pools, counters, assists and
+ * secondary packets are outside the model.
+ */
+export function computeExchangeOdds(params: {
+  attacker: CombatActor;
+  action: CombatAction;
+  target: CombatActor;
+  defenceMode?: ExchangeDefenceMode;
+}): ExchangeOdds {
+  const { attacker, action, target } = params;
+  const defenceMode = params.defenceMode ?? "auto";
+  if (action.kind !== "attack") {
+    throw new ExchangeOddsError("UNSUPPORTED_ACTION", `${action.name} is not an attack`);
+  }
+  const pool = action.pool ?? "physical";
+
+  const accuracyAttribute = effectiveAccuracyAttribute(attacker, target, action);
+  const attackDie = attacker.attributeDice[accuracyAttribute] ?? "D8";
+  const attackDice = Math.max(0, Math.trunc(action.diceCount));
+  const attackSuccesses = successDistribution(attackDice, attackDie);
+
+  let resist: ExchangeOdds["resist"] = null;
+  let appliedSuccesses = attackSuccesses;
+  if (action.resistAttribute) {
+    const attribute = CORE_TO_COMBAT_ATTRIBUTE[action.resistAttribute] ?? "Guard";
+    const diceCount = Math.max(1, 3 + (target.resist[action.resistAttribute] ?? 0));
+    const die = target.attributeDice[attribute] ?? "D8";
+    resist = { attribute: action.resistAttribute, diceCount, die };
+    appliedSuccesses = cancelSuccessDistributions(attackSuccesses, successDistribution(diceCount, die));
+  }
+
+  const effectPerSuccess = Math.max(1, action.effectPerPrimarySuccess ?? action.potency);
+  const staticProtection = Math.max(
+    0,
+    (pool === "physical" ? target.physicalProtection : target.mentalProtection) + passiveDefenceAmount(target, pool),
+  );
+  const dodgeDistribution = successDistribution(
+    Math.max(1, Math.trunc(target.dodgeDice ?? target.dodgeValue ?? 1)),
+    target.attributeDice.Guard ?? "D8",
+  );
+  const vrp = vrpRollAdjustment(target, action);
+  const blockAttribute = pool === "physical" ? "Guard" : "Bravery";
+  const blockDistribution = successDistribution(
+    Math.max(1, Math.trunc(pool === "physical" ? target.physicalDefenceDice ?? 1 : target.mentalDefenceDice ?? 1) + vrp.extraDice),
+    target.attributeDice[blockAttribute] ?? "D8",
+    vrp.modifier,
+  );
+  const perSuccessBlock = blockPerSuccess(target, pool);
+  const expectedBlockSuccesses = blockDistribution.reduce((sum, probability, successes) => sum + probability * successes, 0);
+
+  const wounds: number[] = [];
+  const addWounds = (amount: number, probability: number) => {
+    while (wounds.length <= amount) wounds.push(0);
+    wounds[amount] += probability;
+  };
+  let dodgeChosen = 0;
+  let blockChosen = 0;
+  let probabilityDodged = 0;
+  let expectedBlocked = 0;
+  let expectedStaticPrevented = 0;
+
+  appliedSuccesses.forEach((probability, successes) => {
+    if (probability <= 0) return;
+    const rawWounds = successes * effectPerSuccess;
+    if (rawWounds <= 0) {
+      addWounds(0, probability);
+      return;
+    }
+    const dodgeChance = probabilityAtLeast(dodgeDistribution, successes);
+    const blockValue = perSuccessBlock > 0 ? Math.min(rawWounds, expectedBlockSuccesses * perSuccessBlock) : 0;
+    const useDodge =
+      pool === "physical" &&
+      (defenceMode === "dodge" || (defenceMode === "auto" && !(blockValue > dodgeChance * rawWounds)));
+
+    if (useDodge) {
+      dodgeChosen += probability;
+      probabilityDodged += probability * dodgeChance;
+      addWounds(0, probability * dodgeChance);
+      const prevented = Math.min(rawWounds, staticProtection);
+      expectedStaticPrevented += probability * (1 - dodgeChance) * prevented;
+      addWounds(rawWounds - prevented, probability * (1 - dodgeChance));
+      return;
+    }
+
+    blockChosen += probability;
+    blockDistribution.forEach((blockProbability, blockSuccesses) => {
+      if (blockProbability <= 0) return;
+      const blocked = Math.min(rawWounds, blockSuccesses * perSuccessBlock);
+      const prevented = Math.min(rawWounds - blocked, staticProtection);
+      const weight = probability * blockProbability;
+      expectedBlocked += weight * blocked;
+      expectedStaticPrevented += weight * prevented;
+      addWounds(rawWounds - blocked - prevented, weight);
+    });
+  });
+
+  const defended = dodgeChosen + blockChosen;
+  const targetHpCurrent = pool === "physical" ? target.physicalHpCurrent : target.mentalHpCurrent;
+  return {
+    actionId: action.id,
+    actionName: action.name,
+    pool,
+    defenceMode,
+    attack: { diceCount: attackDice, die: attackDie, attribute: accuracyAttribute },
+    resist,
+    effectPerSuccess,
+    staticProtection,
+    attackSuccesses: summarize(attackSuccesses),
+    appliedSuccesses: summarize(appliedSuccesses),
+    defenceChosen: {
+      dodge: defended > 0 ? dodgeChosen / defended : 0,
+      block: defended > 0 ? blockChosen / defended : 0,
+    },
+    probabilityDodged,
+    expectedBlocked,
+    expectedStaticPrevented,
+    wounds: summarize(wounds),
+    targetHpCurrent,
+    probabilityReducedToZero: targetHpCurrent > 0 ? probabilityAtLeast(wounds, targetHpCurrent) : 1,
+  };
+}
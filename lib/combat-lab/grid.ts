@@ -0,0 +1,303 @@
+import type {
+  CombatAction,
+  CombatActor,
+  CombatGridConfig,
+  CombatGridPosition,
+  CombatGridState,
+  CombatState,
+} from "./types";
+
+export const DEFAULT_GRID_CELL_FEET = 5;
+export const DEFAULT_GRID_STARTING_DISTANCE_FEET = 30;
+export const DEFAULT_GRID_SPEED_FEET = 30;
+
+const DEFAULT_MELEE_REACH_FEET = 5;
+const DEFAULT_RANGED_DISTANCE_FEET = 60;
+const DEFAULT_SPHERE_RADIUS_FEET = 10;
+const DEFAULT_CONE_LENGTH_FEET = 15;
+const DEFAULT_LINE_LENGTH_FEET = 30;
+const DEFAULT_LINE_WIDTH_FEET = 5;
+// A cone is as wide at its far edge as it is long, so its half-angle is atan(1/2).
+const CONE_HALF_ANGLE_RADIANS = Math.atan(0.5);
+const GEOMETRY_EPSILON = 1e-6;
+
+function positiveFeet(value: number | null | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function positionKey(position: CombatGridPosition): string {
+  return `${position.x},${position.y}`;
+}
+
+function sideColumn(count: number): number[] {
+  const offset = Math.floor((count - 1) / 2);
+  return Array.from({ length: count }, (_, index) => index - offset);
+}
+
+export function createGridState(actors: CombatActor[], config: CombatGridConfig): CombatGridState {
+  const cellFeet = Math.round(positiveFeet(config.cellFeet, DEFAULT_GRID_CELL_FEET));
+  const gapCells = Math.max(
+    1,
+    Math.round(positiveFeet(config.startingDistanceFeet, DEFAULT_GRID_STARTING_DISTANCE_FEET) / cellFeet),
+  );
+  const positions: Record<string, CombatGridPosition> = {};
+  const occupied = new Set<string>();
+  for (const actor of actors) {
+    const authored = config.positions?.[actor.id];
+    if (!authored) continue;
+    const position = { x: Math.trunc(authored.x), y: Math.trunc(authored.y) };
+    if (occupied.has(positionKey(position))) continue;
+    positions[actor.id] = position;
+    occupied.add(positionKey(position));
+  }
+  for (const side of ["players", "monsters"] as const) {
+    const unplaced = actors.filter((actor) => actor.side === side && !positions[actor.id]);
+    const rows = sideColumn(unplaced.length);
+    const x = side === "players" ? 0 : gapCells;
+    for (const [index, actor] of unplaced.entries()) {
+      let position = { x, y: rows[index] };
+      while (occupied.has(positionKey(position))) {
+        position = { x: position.x + (side === "players" ? -1 : 1), y: position.y };
+      }
+      positions[actor.id] = position;
+      occupied.add(positionKey(position));
+    }
+  }
+  return {
+    cellFeet,
+    speedFeet: positiveFeet(config.speedFeet, DEFAULT_GRID_SPEED_FEET),
+    positions,
+    movementUsedFeet: {},
+  };
+}
+
+export function gridDistanceFeet(grid: CombatGridState, from: CombatGridPosition, to: CombatGridPosition): number {
+  return Math.max(Math.abs(from.x - to.x), Math.abs(from.y - to.y)) * grid.cellFeet;
+}
+
+export function actorGridDistanceFeet(state: CombatState, from: CombatActor, to: CombatActor): number | null {
+  const grid = state.grid;
+  const fromPosition = grid?.positions[from.id];
+  const toPosition = grid?.positions[to.id];
+  if (!grid || !fromPosition || !toPosition) return null;
+  return gridDistanceFeet(grid, fromPosition, toPosition);
+}
+
+export function actorSpeedFeet(state: CombatState, actor: CombatActor): number {
+  return positiveFeet(actor.speedFeet, state.grid?.speedFeet ?? DEFAULT_GRID_SPEED_FEET);
+}
+
+export function remainingMovementFeet(state: CombatState, actor: CombatActor): number {
+  if (!state.grid) return 0;
+  return Math.max(0, actorSpeedFeet(state, actor) - (state.grid.movementUsedFeet[actor.id] ?? 0));
+}
+
+export function resetGridTurnMovement(state: CombatState, actorId: string) {
+  if (state.grid) state.grid.movementUsedFeet[actorId] = 0;
+}
+
+// Null means the action has no positional constraint (self effects and unranged support).
+export function actionReachFeet(action: CombatAction): number | null {
+  if (action.targetPolicy === "self" || action.targetPolicy === "allAllies") return null;
+  const geometry = action.geometry ?? {};
+  if (action.rangeCategory === "MELEE") return DEFAULT_MELEE_REACH_FEET;
+  if (action.rangeCategory === "RANGED") {
+    return positiveFeet(geometry.rangedDistanceFeet, DEFAULT_RANGED_DISTANCE_FEET);
+  }
+  if (action.rangeCategory === "AOE") {
+    if (geometry.aoeShape === "CONE") return positiveFeet(geometry.aoeConeLengthFeet, DEFAULT_CONE_LENGTH_FEET);
+    if (geometry.aoeShape === "LINE") return positiveFeet(geometry.aoeLineLengthFeet, DEFAULT_LINE_LENGTH_FEET);
+    return positiveFeet(
+      geometry.aoeCenterRangeFeet,
+      positiveFeet(geometry.aoeSphereRadiusFeet, DEFAULT_SPHERE_RADIUS_FEET),
+    );
+  }
+  return null;
+}
+
+export function isTargetInReach(
+  state: CombatState,
+  actor: CombatActor,
+  action: CombatAction,
+  target: CombatActor,
+): boolean {
+  const reach = actionReachFeet(action);
+  if (reach === null || actor.id === target.id) return true;
+  const distance = actorGridDistanceFeet(state, actor, target);
+  return distance === null || distance <= reach;
+}
+
+// Reachable now or after spending the rest of this turn's movement.
+export function isTargetReachableThisTurn(
+  state: CombatState,
+  actor: CombatActor,
+  action: CombatAction,
+  target: CombatActor,
+  movementAllowed: boolean,
+): boolean {
+  const reach = actionReachFeet(action);
+  if (reach === null || actor.id === target.id) return true;
+  const distance = actorGridDistanceFeet(state, actor, target);
+  if (distance === null) return true;
+  return distance <= reach + (movementAllowed ? remainingMovementFeet(state, actor) : 0);
+}
+
+function occupiedBy(state: CombatState, position: CombatGridPosition, ignoreActorId: string): boolean {
+  const grid = state.grid;
+  if (!grid) return false;
+  return state.actors.some(
+    (actor) =>
+      actor.id !== ignoreActorId &&
+      !actor.defeated &&
+      grid.positions[actor.id]?.x === position.x &&
+      grid.positions[actor.id]?.y === position.y,
+  );
+}
+
+function stepCandidates(from: CombatGridPosition, dx: number, dy: number): CombatGridPosition[] {
+  const candidates = [
+    { x: from.x + dx, y: from.y + dy },
+    { x: from.x + dx, y: from.y },
+    { x: from.x, y: from.y + dy },
+  ];
+  return candidates.filter((candidate) => candidate.x !== from.x || candidate.y !== from.y);
+}
+
+function neighbours(from: CombatGridPosition): CombatGridPosition[] {
+  return [-1, 0, 1].flatMap((dx) =>
+    [-1, 0, 1].flatMap((dy) => (dx === 0 && dy === 0 ? [] : [{ x: from.x + dx, y: from.y + dy }])),
+  );
+}
+
+function squaredCellDistance(from: CombatGridPosition, to: CombatGridPosition): number {
+  return (from.x - to.x) ** 2 + (from.y - to.y) ** 2;
+}
+
+// Steps one square at a time toward the destination, sidestepping occupied squares, and stops once
+// within stopWithinFeet. Returns the feet actually moved.
+export function moveActorToward(
+  state: CombatState,
+  actor: CombatActor,
+  destination: CombatGridPosition,
+  maxFeet: number,
+  stopWithinFeet: number,
+): number {
+  const grid = state.grid;
+  const start = grid?.positions[actor.id];
+  if (!grid || !start) return 0;
+  let current = start;
+  let moved = 0;
+  while (moved + grid.cellFeet <= maxFeet && gridDistanceFeet(grid, current, destination) > stopWithinFeet) {
+    const distanceNow = gridDistanceFeet(grid, current, destination);
+    const next = neighbours(current)
+      .filter((candidate) => gridDistanceFeet(grid, candidate, destination) < distanceNow)
+      .sort((a, b) => squaredCellDistance(a, destination) - squaredCellDistance(b, destination))
+      .find((candidate) => !occupiedBy(state, candidate, actor.id));
+    if (!next) break;
+    current = next;
+    moved += grid.cellFeet;
+  }
+  grid.positions[actor.id] = current;
+  return moved;
+}
+
+export function pushActorAway(
+  state: CombatState,
+  target: CombatActor,
+  from: CombatGridPosition,
+  maxFeet: number,
+): number {
+  const grid = state.grid;
+  const start = grid?.positions[target.id];
+  if (!grid || !start) return 0;
+  const dx = Math.sign(start.x - from.x) || (target.side === "players" ? -1 : 1);
+  const dy = Math.sign(start.y - from.y);
+  let current = start;
+  let moved = 0;
+  while (moved + grid.cellFeet <= maxFeet) {
+    const next = stepCandidates(current, dx, dy).find((candidate) => !occupiedBy(state, candidate, target.id));
+    if (!next) break;
+    current = next;
+    moved += grid.cellFeet;
+  }
+  grid.positions[target.id] = current;
+  return moved;
+}
+
+function feetVector(grid: CombatGridState, from: CombatGridPosition, to: CombatGridPosition) {
+  return { x: (to.x - from.x) * grid.cellFeet, y: (to.y - from.y) * grid.cellFeet };
+}
+
+function isInsideArea(params: {
+  grid: CombatGridState;
+  action: CombatAction;
+  origin: CombatGridPosition;
+  aim: CombatGridPosition;
+  candidate: CombatGridPosition;
+}): boolean {
+  const { grid, action, origin, aim, candidate } = params;
+  const geometry = action.geometry ?? {};
+  if (geometry.aoeShape !== "CONE" && geometry.aoeShape !== "LINE") {
+    const centerRange = positiveFeet(geometry.aoeCenterRangeFeet, 0);
+    const center = centerRange > 0 ? aim : origin;
+    const radius = positiveFeet(geometry.aoeSphereRadiusFeet, DEFAULT_SPHERE_RADIUS_FEET);
+    return gridDistanceFeet(grid, center, candidate) <= radius;
+  }
+  const direction = feetVector(grid, origin, aim);
+  const offset = feetVector(grid, origin, candidate);
+  const directionLength = Math.hypot(direction.x, direction.y);
+  const offsetLength = Math.hypot(offset.x, offset.y);
+  if (directionLength === 0 || offsetLength === 0) return false;
+  const along = (offset.x * direction.x + offset.y * direction.y) / directionLength;
+  if (geometry.aoeShape === "CONE") {
+    const length = positiveFeet(geometry.aoeConeLengthFeet, DEFAULT_CONE_LENGTH_FEET);
+    const angle = Math.acos(Math.min(1, Math.max(-1, along / offsetLength)));
+    return offsetLength <= length + GEOMETRY_EPSILON && angle <= CONE_HALF_ANGLE_RADIANS + GEOMETRY_EPSILON;
+  }
+  const length = positiveFeet(geometry.aoeLineLengthFeet, DEFAULT_LINE_LENGTH_FEET);
+  const width = Math.max(grid.cellFeet, positiveFeet(geometry.aoeLineWidthFeet, DEFAULT_LINE_WIDTH_FEET));
+  const across = Math.abs(offset.x * direction.y - offset.y * direction.x) / directionLength;
+  return along > 0 && along <= length + GEOMETRY_EPSILON && across <= width / 2 + GEOMETRY_EPSILON;
+}
+
+// Places each authored area in turn: the first aimed at the primary target, later ones at the
+// nearest candidate not yet covered. Returns every candidate inside at least one area, primary first.
+export function resolveGridAreaTargets(
+  state: CombatState,
+  actor: CombatActor,
+  action: CombatAction,
+  primaryTarget: CombatActor,
+  candidates: CombatActor[],
+): CombatActor[] {
+  const grid = state.grid;
+  const origin = grid?.positions[actor.id];
+  if (!grid || !origin) return [primaryTarget];
+  const areaCount = Math.max(1, Math.trunc(action.geometry?.aoeCount ?? 1));
+  const reach = actionReachFeet(action);
+  const covered = new Set<string>();
+  let aimTarget: CombatActor | undefined = primaryTarget;
+  for (let area = 0; area < areaCount && aimTarget; area += 1) {
+    const aim = grid.positions[aimTarget.id];
+    if (!aim) break;
+    for (const candidate of candidates) {
+      const position = grid.positions[candidate.id];
+      if (position && isInsideArea({ grid, action, origin, aim, candidate: position })) covered.add(candidate.id);
+    }
+    aimTarget = candidates
+      .filter((candidate) => !covered.has(candidate.id) && (reach === null || isTargetInReach(state, actor, action, candidate)))
+      .sort((a, b) => (actorGridDistanceFeet(state, actor, a) ?? 0) - (actorGridDistanceFeet(state, actor, b) ?? 0))[0];
+  }
+  const hit = candidates
+    .filter((candidate) => covered.has(candidate.id) && candidate.id !== primaryTarget.id)
+    .sort((a, b) => (actorGridDistanceFeet(state, actor, a) ?? 0) - (actorGridDistanceFeet(state, actor, b) ?? 0));
+  // Reach is checked before resolution, so the first area always covers the primary target.
+  return [primaryTarget, ...hit];
+}
+
+export function usesGridAreaTargeting(state: CombatState, action: CombatAction): boolean {
+  return Boolean(state.grid) && action.rangeCategory === "AOE";
+}
+
+export function formatGridPosition(position: CombatGridPosition | undefined): string {
+  return position ? `(${position.x}, ${position.y})` : "(off grid)";
+}
@@ -32,8 +32,9 @@ import {
   attachPowerCooldownAuthority,
   resolvePowerCooldownAuthority,
 } from "@/lib/summoning/resolvePowerCooldownAuthority";
+import { readMonsterPhases, resolveMonsterPhaseForms } from "@/lib/summoning/monsterPhases";
 
-import type { CombatAction, CombatActor, CombatAttributeName, CombatDieSize } from "./types";
+import type { CombatAction, CombatActor, CombatActorPhase, CombatAttributeName, CombatDieSize } from "./types";
 import {
   adaptPowerToCombatActions,
   makeAttackActionsFromConfig,
@@ -193,6 +194,8 @@ type MonsterRow = {
   naturalAttack?: { attackName: string; attackConfig: unknown } | null;
   attacks?: MonsterAttackRow[];
   traits?: MonsterTraitRow[];
+  /** Stored boss phases JSON; read leniently. */
+  phases?: unknown;
   mainHandItemId?: string | null;
   offHandItemId?: string | null;
   smallItemId?: string | null;
@@ -733,7 +736,8 @@ function markSignatureMoveAction(action: CombatAction): CombatAction {
   };
 }
 
-function monsterPowersWithDerivedCooldowns(params: {
+/** Maps stored monster powers to gameplay powers with cooldown authority from the active power tuning. */
+export function monsterPowersWithDerivedCooldowns(params: {
   row: Pick<MonsterRow, "id" | "name" | "level" | "tier">;
   powers: MonsterPowerRow[];
   powerTuning?: PowerTuningSnapshot | null;
@@ -765,6 +769,16 @@ function textLooksCombatMechanical(value: string | null | undefined): boolean {
   return /\b(attack|damage|wound|dice|die|protection|dodge|resist|heal|turn|action|cooldown|physical|mental|buff|debuff|control)\b/.test(text);
 }
 
+/** Builder-derived combat stats for a campaign character, counting its equipped backpack items. */
+export function campaignCharacterDerivedCombatStats(row: CharacterRow, protectionTuning?: ProtectionTuningValues) {
+  return buildCharacterDerivedCombatStats({
+    level: Math.max(1, Math.trunc(row.level || 1)),
+    builderData: normalizeBuilderData(row.builderData),
+    backpackItems: (row.backpackItems ?? []).map(toDerivedBackpackItem),
+    protectionTuning,
+  });
+}
+
 export function adaptCampaignCharacterToCombatActor(
   row: CharacterRow,
   protectionTuning?: ProtectionTuningValues,
@@ -993,15 +1007,25 @@ export function adaptMonsterToCombatLabActor(
   });
   warnings.push(...monsterPowerHydration.warnings);
   const adaptedPowers = monsterPowerHydration.powers.map((power) => adaptPowerToCombatActions(power));
-  const powerActions = adaptedPowers.flatMap((entry) => entry.actions);
+  const allPowerActions = adaptedPowers.flatMap((entry) => entry.actions);
   warnings.push(
     ...adaptedPowers.flatMap((entry) =>
       entry.warnings.map((message) => makeWarning(row.id, row.name, "powerDomain", message)),
     ),
-    ...Array.from(new Set(powerActions.flatMap((action) => action.abstractionNotes ?? []))).map((message) =>
+    ...Array.from(new Set(allPowerActions.flatMap((action) => action.abstractionNotes ?? []))).map((message) =>
       makeWarning(row.id, row.name, "powerAbstraction", message),
     ),
   );
+  const phaseForms = resolveMonsterPhaseForms({
+    powerCount: adaptedPowers.length,
+    traits: [],
+    phases: readMonsterPhases(row.phases),
+  });
+  const powerActionsFor = (sortOrders: number[]) =>
+    adaptedPowers.flatMap((entry, index) =>
+      sortOrders.includes(monsterPowerHydration.powers[index].sortOrder) ? entry.actions : [],
+    );
+  const powerActions = powerActionsFor(phaseForms[0].powerSortOrders);
   const equippedItems = monsterEquippedItems(row, equipmentById);
   const itemModifiers = getHighestItemModifiers(equippedItems);
   const itemProtection = getProtectionTotalsFromItems(equippedItems);
@@ -1083,7 +1107,8 @@ export function adaptMonsterToCombatLabActor(
     return actions;
   });
 
-  const fallbackActions = needsFallback([...naturalAttackActions, ...equippedWeaponActions, ...powerActions])
+  // Phase-only powers still count, so a boss whose attacks arrive in a later phase keeps them real.
+  const fallbackActions = needsFallback([...naturalAttackActions, ...equippedWeaponActions, ...allPowerActions])
     ? [
         makeBasicAttackAction({
           id: "monster-fallback-basic-attack",
@@ -1119,6 +1144,11 @@ export function adaptMonsterToCombatLabActor(
   if (unsupportedCombatTraits.length > 0) {
     warnings.push(makeWarning(row.id, row.name, "traits", "Monster trait mechanics are reported but not applied by Combat Lab V1."));
   }
+  if (phaseForms.some((form) => form.phase && (form.phase.addTraits.length > 0 || form.phase.removeTraits.length > 0))) {
+    warnings.push(
+      makeWarning(row.id, row.name, "phaseTraits", "Boss phase trait changes are reported but not applied by Combat Lab V1."),
+    );
+  }
   warnings.push(...unsupportedActionWarnings(row, [...naturalAttackActions, ...equippedWeaponActions]));
   warnings.push(...actionAbstractionWarnings(row, [...naturalAttackActions, ...equippedWeaponActions]));
 
@@ -1135,19 +1165,6 @@ export function adaptMonsterToCombatLabActor(
   const naturalMentalProtection =
     finiteProtection(row.naturalMentalProtection) ??
     (itemProtection.mentalProtection > 0 ? 0 : Math.max(0, row.mentalProtection));
-  const totalPhysicalProtection = naturalPhysicalProtection + itemProtection.physicalProtection;
-  const totalMentalProtection = naturalMentalProtection + itemProtection.mentalProtection;
-  const dodgeValue = Math.max(
-    0,
-    getDodgeValue(
-      row.guardDie,
-      row.intellectDie,
-      row.level,
-      totalPhysicalProtection,
-      protectionTuning,
-    ),
-  );
-  const dodgeDice = Math.max(0, Math.ceil(dodgeValue / 6) + Math.max(0, Math.trunc(itemModifiers.dodgeModifier ?? 0)));
   const baseArmorSkill = getArmorSkillDiceCountFromAttributes(row.guardDie, row.fortitudeDie, protectionTuning);
   const armorSkill = Math.max(
     1,
@@ -1161,15 +1178,55 @@ export function adaptMonsterToCombatLabActor(
     getWillpowerDiceCountFromAttributes(row.synergyDie, row.braveryDie, protectionTuning) +
       Math.max(0, Math.trunc(itemModifiers.willpowerModifier ?? 0)),
   );
-  const physicalBlockPerSuccess = blockPerSuccess({
-    protection: totalPhysicalProtection,
-    dice: armorSkill,
-    tuning: protectionTuning,
-  });
-  const mentalBlockPerSuccess = blockPerSuccess({
-    protection: totalMentalProtection,
-    dice: mentalDefenceDice,
-    tuning: protectionTuning,
+  const defenceProfile = (physicalProtectionDelta: number, mentalProtectionDelta: number) => {
+    const totalPhysicalProtection =
+      Math.max(0, naturalPhysicalProtection + physicalProtectionDelta) + itemProtection.physicalProtection;
+    const totalMentalProtection =
+      Math.max(0, naturalMentalProtection + mentalProtectionDelta) + itemProtection.mentalProtection;
+    const dodgeValue = Math.max(
+      0,
+      getDodgeValue(
+        row.guardDie,
+        row.intellectDie,
+        row.level,
+        totalPhysicalProtection,
+        protectionTuning,
+      ),
+    );
+    return {
+      dodgeValue,
+      dodgeDice: Math.max(0, Math.ceil(dodgeValue / 6) + Math.max(0, Math.trunc(itemModifiers.dodgeModifier ?? 0))),
+      physicalBlockPerSuccess: blockPerSuccess({
+        protection: totalPhysicalProtection,
+        dice: armorSkill,
+        tuning: protectionTuning,
+      }),
+      mentalBlockPerSuccess: blockPerSuccess({
+        protection: totalMentalProtection,
+        dice: mentalDefenceDice,
+        tuning: protectionTuning,
+      }),
+    };
+  };
+  const { dodgeValue, dodgeDice, physicalBlockPerSuccess, mentalBlockPerSuccess } = defenceProfile(0, 0);
+  const phases: CombatActorPhase[] = phaseForms.flatMap((form, index) => {
+    if (!form.phase) return [];
+    return [
+      {
+        index,
+        name: form.phase.name,
+        triggerType: form.phase.triggerType,
+        triggerValue: form.phase.triggerValue,
+        transitionText: form.phase.transitionText,
+        actions: [
+          ...naturalAttackActions,
+          ...equippedWeaponActions,
+          ...fallbackActions,
+          ...powerActionsFor(form.powerSortOrders),
+        ],
+        ...defenceProfile(form.physicalProtectionDelta, form.mentalProtectionDelta),
+      },
+    ];
   });
   warnings.push(
     makeWarning(
@@ -1219,6 +1276,7 @@ export function adaptMonsterToCombatLabActor(
       },
       actionsPerTurn: row.tier === "BOSS" ? 2 : 1,
       actions,
+      ...(phases.length > 0 ? { phases, activePhaseIndex: 0 } : {}),
       vrp: vrpEntriesFromItems(equippedItems),
       defeatModel: row.legendary ? "LEGENDARY_MONSTER" : "NORMAL_MONSTER",
       physicalMajorInjuries: 0,
@@ -0,0 +1,192 @@
+import "server-only";
+
+import type { Prisma } from "@prisma/client";
+import {
+  computeMonsterOutcomes,
+  computeTraitAxisBonuses,
+  type DefensiveProfileSource,
+  type RadarAxes,
+  type WeaponAttackSource,
+} from "@/lib/calculators/monsterOutcomeCalculator";
+import type { CalculatorConfig } from "@/lib/calculators/calculatorConfig";
+import { loadMonsterEquipmentById, type MONSTER_COMBATANT_INCLUDE } from "@/lib/combat-lab/campaignCombatantsServer";
+import { monsterPowersWithDerivedCooldowns } from "@/lib/combat-lab/liveAdapters";
+import { ensureSeedCombatTuningSet } from "@/lib/config/combatTuning";
+import {
+  applyCombatTuningToCalculatorConfig,
+  normalizeCombatTuning,
+  type ProtectionTuningValues,
+} from "@/lib/config/combatTuningShared";
+import { getActiveOutcomeNormalizationSet } from "@/lib/config/outcomeNormalization";
+import {
+  outcomeNormalizationValuesToCalculatorConfig,
+  type OutcomeNormalizationFlatValues,
+} from "@/lib/config/outcomeNormalizationShared";
+import { ensureSeedPowerTuningSet } from "@/lib/config/powerTuning";
+import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import type { SummoningEquipmentItem } from "@/lib/summoning/equipment";
+import { resolvePowerCosts } from "@/lib/summoning/powerCostResolver";
+import type { MonsterTier, Power } from "@/lib/summoning/types";
+import { prisma } from "@/prisma/client";
+
+export type StoredMonsterRow = Prisma.MonsterGetPayload<{ include: typeof MONSTER_COMBATANT_INCLUDE }>;
+type TraitWeights = Awaited<ReturnType<typeof loadMonsterTraitWeights>>[number];
+
+export type MonsterRadarContext = {
+  config: CalculatorConfig;
+  protectionTuning: ProtectionTuningValues;
+  powerTuning: PowerTuningSnapshot;
+  equipmentById: Map<string, SummoningEquipmentItem>;
+  traitsById: Map<string, TraitWeights>;
+  /** Collects one line per monster whose powers could not be costed. */
+  warnings: string[];
+};
+
+export async function loadMonsterTraitWeights(monsters: Array<{ traits: Array<{ traitDefinitionId: string }> }>) {
+  const ids = Array.from(new Set(monsters.flatMap((monster) => monster.traits.map((trait) => trait.traitDefinitionId))));
+  if (ids.length === 0) return [];
+  return prisma.monsterTraitDefinition.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      name: true,
+      band: true,
+      physicalThreatWeight: true,
+      mentalThreatWeight: true,
+      physicalSurvivabilityWeight: true,
+      mentalSurvivabilityWeight: true,
+      survivabilityWeight: true,
+      manipulationWeight: true,
+      synergyWeight: true,
+      mobilityWeight: true,
+      presenceWeight: true,
+    },
+  });
+}
+
+/** Builds a radar context from explicit tuning values, so callers can radar under a set that is not active. */
+export function buildMonsterRadarContext(params: {
+  combatTuningValues: Record<string, unknown>;
+  outcomeNormalizationValues: OutcomeNormalizationFlatValues | null;
+  powerTuning: PowerTuningSnapshot;
+  equipmentById: Map<string, SummoningEquipmentItem>;
+  traits: TraitWeights[];
+}): MonsterRadarContext {
+  return {
+    config: applyCombatTuningToCalculatorConfig(
+      outcomeNormalizationValuesToCalculatorConfig(params.outcomeNormalizationValues),
+      params.combatTuningValues,
+    ),
+    protectionTuning: normalizeCombatTuning(params.combatTuningValues),
+    powerTuning: params.powerTuning,
+    equipmentById: params.equipmentById,
+    traitsById: new Map(params.traits.map((trait) => [trait.id, trait])),
+    warnings: [],
+  };
+}
+
+/** Loads the active tuning sets, equipped gear and trait weights needed to radar the given monsters. */
+export async function loadMonsterRadarContext(
+  campaignId: string,
+  monsters: StoredMonsterRow[],
+): Promise<MonsterRadarContext> {
+  const [combatTuning, powerTuning, outcomeNormalization, equipmentById, traits] = await Promise.all([
+    ensureSeedCombatTuningSet(),
+    ensureSeedPowerTuningSet(),
+    getActiveOutcomeNormalizationSet(),
+    loadMonsterEquipmentById(campaignId, monsters),
+    loadMonsterTraitWeights(monsters),
+  ]);
+  return buildMonsterRadarContext({
+    combatTuningValues: combatTuning.values as Record<string, unknown>,
+    outcomeNormalizationValues: outcomeNormalization?.values ?? null,
+    powerTuning,
+    equipmentById,
+    traits,
+  });
+}
+
+function equippedItems(row: StoredMonsterRow, equipmentById: Map<string, SummoningEquipmentItem>) {
+  return [
+    row.mainHandItemId,
+    row.offHandItemId,
+    row.smallItemId,
+    row.headArmorItemId,
+    row.shoulderArmorItemId,
+    row.torsoArmorItemId,
+    row.legsArmorItemId,
+    row.feetArmorItemId,
+  ]
+    .map((id) => (id ? equipmentById.get(id) : undefined))
+    .filter((item): item is SummoningEquipmentItem => Boolean(item));
+}
+
+/**
+ * Radar axes for a stored monster from its powers, traits, attacks and equipped gear. Editor-only
+ * refinements (equipment modifier lines and natural attack effect bonuses) are not applied, so the
+ * axes can sit slightly below the Summoning Circle radar for heavily equipped monsters.
+ */
+export function storedMonsterRadarAxes(row: StoredMonsterRow, context: MonsterRadarContext): RadarAxes {
+  let powers: Power[] = [];
+  let powerContribution = null;
+  try {
+    powers = monsterPowersWithDerivedCooldowns({ row, powers: row.powers, powerTuning: context.powerTuning }).powers;
+    const resolved = resolvePowerCosts(powers, context.powerTuning, {
+      level: row.level,
+      tier: row.tier as MonsterTier,
+    });
+    powerContribution = {
+      axisVector: resolved.totals.axisVector,
+      basePowerValue: resolved.totals.basePowerValue,
+      powerCount: resolved.powers.length,
+    };
+  } catch (error) {
+    context.warnings.push(
+      `${row.name}: powers left out of the radar (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  const items = equippedItems(row, context.equipmentById);
+  const weaponSources: WeaponAttackSource[] = items
+    .filter((item) => item.type === "WEAPON" || item.type === "SHIELD")
+    .slice(0, 3)
+    .map((item) => ({ id: item.id, label: item.name, attackConfig: { melee: item.melee, ranged: item.ranged, aoe: item.aoe } }));
+  const defensiveSources: DefensiveProfileSource[] = [];
+  if ((row.naturalPhysicalProtection ?? 0) > 0 || (row.naturalMentalProtection ?? 0) > 0) {
+    defensiveSources.push({
+      sourceKind: "natural",
+      sourceLabel: "Natural Protection",
+      physicalProtection: row.naturalPhysicalProtection,
+      mentalProtection: row.naturalMentalProtection,
+    });
+  }
+  for (const item of items) {
+    if (item.type !== "ARMOR" && item.type !== "SHIELD") continue;
+    if (!((item.ppv ?? 0) > 0) && !((item.mpv ?? 0) > 0)) continue;
+    defensiveSources.push({
+      sourceKind: "equipped",
+      sourceId: item.id,
+      sourceLabel: item.name,
+      physicalProtection: item.ppv,
+      mentalProtection: item.mpv,
+      equippedItemType: item.type,
+      armorLocation: item.armorLocation,
+    });
+  }
+  const traits = row.traits
+    .map((trait) => context.traitsById.get(trait.traitDefinitionId))
+    .filter((trait): trait is TraitWeights => Boolean(trait));
+
+  const outcome = computeMonsterOutcomes(
+    { ...row, powers } as unknown as Parameters<typeof computeMonsterOutcomes>[0],
+    context.config,
+    {
+      equippedWeaponSources: weaponSources,
+      defensiveProfileSources: defensiveSources,
+      protectionTuning: context.protectionTuning,
+      powerContribution,
+      traitAxisBonuses: computeTraitAxisBonuses(traits, row.level),
+    },
+  );
+  return outcome.radarAxes;
+}
@@ -0,0 +1,196 @@
+import { applyWounds } from "./actionResolver";
+import { emitTranscriptEvent, getOppositeSide, markDefeatedActors } from "./combatState";
+import type { Rng } from "./dice";
+import type {
+  CombatAction,
+  CombatActor,
+  CombatObjectiveOutcome,
+  CombatObjectiveRunState,
+  CombatScenarioObjective,
+  CombatSide,
+  CombatState,
+} from "./types";
+
+export class CombatObjectiveError extends Error {
+  readonly code: "INVALID_OBJECTIVE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CombatObjectiveError";
+    this.code = "INVALID_OBJECTIVE";
+  }
+}
+
+export type CombatObjectiveTracker = {
+  objectives: CombatScenarioObjective[];
+  states: CombatObjectiveRunState[];
+  /** Civilians and other protected actors; they never count towards their side's elimination. */
+  protectedActorIds: Set<string>;
+};
+
+const OBJECTIVE_KIND_LABELS: Record<CombatScenarioObjective["kind"], string> = {
+  holdRounds: "Hold",
+  protectActor: "Protect",
+  progressTrack: "Track",
+  environmentalHazard: "Hazard",
+};
+
+function matchesActorRef(actor: Pick<CombatActor, "id" | "baseActorId">, ref: string): boolean {
+  return actor.id === ref || actor.baseActorId === ref;
+}
+
+function positiveInteger(value: number, field: string, objectiveId: string): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CombatObjectiveError(`Objective ${objectiveId}: ${field} must be a positive integer`);
+  }
+  return value;
+}
+
+export function objectiveLabel(objective: CombatScenarioObjective): string {
+  return objective.label?.trim() || `${OBJECTIVE_KIND_LABELS[objective.kind]}: ${objective.id}`;
+}
+
+function objectiveTarget(objective: CombatScenarioObjective): number | null {
+  if (objective.kind === "holdRounds") return objective.rounds;
+  if (objective.kind === "progressTrack") return objective.target;
+  return null;
+}
+
+/** Validates the scenario's objectives against the actors in play and starts every one as active. */
+export function createObjectiveTracker(
+  objectives: CombatScenarioObjective[],
+  state: CombatState,
+): CombatObjectiveTracker {
+  const seenIds = new Set<string>();
+  const protectedActorIds = new Set<string>();
+  for (const objective of objectives) {
+    if (!objective.id || seenIds.has(objective.id)) {
+      throw new CombatObjectiveError(`Objective ids must be present and unique (${objective.id || "blank"})`);
+    }
+    seenIds.add(objective.id);
+    if (objective.kind === "holdRounds") positiveInteger(objective.rounds, "rounds", objective.id);
+    if (objective.kind === "progressTrack") {
+      positiveInteger(objective.target, "target", objective.id);
+      positiveInteger(objective.progressPerAction ?? 1, "progressPerAction", objective.id);
+    }
+    if (objective.kind === "environmentalHazard") {
+      positiveInteger(objective.woundsPerRound, "woundsPerRound", objective.id);
+      positiveInteger(objective.startRound ?? 1, "startRound", objective.id);
+    }
+    if (objective.kind === "protectActor") {
+      const protectedActors = state.actors.filter((actor) => matchesActorRef(actor, objective.actorId));
+      if (protectedActors.length === 0) {
+        throw new CombatObjectiveError(`Objective ${objective.id}: no actor matches ${objective.actorId}`);
+      }
+      for (const actor of protectedActors) protectedActorIds.add(actor.id);
+    }
+  }
+  return {
+    objectives,
+    protectedActorIds,
+    states: objectives.map((objective) => ({
+      objectiveId: objective.id,
+      kind: objective.kind,
+      label: objectiveLabel(objective),
+      status: "active",
+      progress: 0,
+      target: objectiveTarget(objective),
+      hazardWounds: { players: 0, monsters: 0 },
+    })),
+  };
+}
+
+export function livingCombatants(tracker: CombatObjectiveTracker | null, state: CombatState, side: CombatSide) {
+  return state.actors.filter(
+    (actor) => actor.side === side && !actor.defeated && !tracker?.protectedActorIds.has(actor.id),
+  );
+}
+
+/** Deals each active hazard's wounds to every living actor it affects. Protection does not apply. */
+export function applyEnvironmentalHazards(tracker: CombatObjectiveTracker, state: CombatState, rng: Rng) {
+  tracker.objectives.forEach((objective, index) => {
+    if (objective.kind !== "environmentalHazard" || state.round < (objective.startRound ?? 1)) return;
+    const runState = tracker.states[index];
+    const affects = objective.affects ?? "both";
+    for (const actor of state.actors) {
+      if (actor.defeated || (affects !== "both" && actor.side !== affects)) continue;
+      const before = objective.pool === "physical" ? actor.physicalHpCurrent : actor.mentalHpCurrent;
+      applyWounds(actor, objective.pool, objective.woundsPerRound);
+      runState.hazardWounds[actor.side] += objective.woundsPerRound;
+      emitTranscriptEvent(state, {
+        type: "environmentalHazard",
+        targetId: actor.id,
+        targetName: actor.name,
+        message: `${runState.label}: ${actor.name} takes ${objective.woundsPerRound} ${objective.pool} wounds (${before} -> ${
+          objective.pool === "physical" ? actor.physicalHpCurrent : actor.mentalHpCurrent
+        }).`,
+        details: { objectiveId: objective.id, pool: objective.pool, wounds: objective.woundsPerRound },
+      });
+    }
+    markDefeatedActors(state, { sourceActionName: runState.label, rng });
+  });
+}
+
+/** Advances every active track the acting actor and action qualify for. */
+export function recordObjectiveAction(
+  tracker: CombatObjectiveTracker,
+  state: CombatState,
+  actor: CombatActor,
+  action: CombatAction,
+) {
+  tracker.objectives.forEach((objective, index) => {
+    const runState = tracker.states[index];
+    if (objective.kind !== "progressTrack" || runState.status !== "active" || actor.side !== objective.side) return;
+    if (objective.actorIds && !objective.actorIds.some((ref) => matchesActorRef(actor, ref))) return;
+    if (objective.actionIds && !objective.actionIds.includes(action.id)) return;
+    runState.progress = Math.min(objective.target, runState.progress + (objective.progressPerAction ?? 1));
+    emitTranscriptEvent(state, {
+      type: "objectiveProgress",
+      actorId: actor.id,
+      actorName: actor.name,
+      actionId: action.id,
+      actionName: action.name,
+      message: `${runState.label}: ${actor.name}'s ${action.name} advances the track to ${runState.progress}/${objective.target}.`,
+      details: { objectiveId: objective.id, progress: runState.progress, target: objective.target },
+    });
+  });
+}
+
+function settle(
+  tracker: CombatObjectiveTracker,
+  index: number,
+  result: CombatObjectiveOutcome["result"],
+  winner: CombatSide,
+): CombatObjectiveOutcome {
+  const runState = tracker.states[index];
+  runState.status = result;
+  return { objectiveId: runState.objectiveId, kind: runState.kind, label: runState.label, result, winner };
+}
+
+/**
+ * Checks the objectives that can end a fight. A fallen protected actor or a filled track ends it at
+ * once; hold objectives are only credited at `roundEnd`. The first objective in scenario order wins ties.
+ */
+export function objectiveStopOutcome(
+  tracker: CombatObjectiveTracker,
+  state: CombatState,
+  phase: "immediate" | "roundEnd",
+): CombatObjectiveOutcome | null {
+  for (const [index, objective] of tracker.objectives.entries()) {
+    if (tracker.states[index].status !== "active") continue;
+    if (objective.kind === "protectActor") {
+      const fallen = state.actors.find((actor) => actor.defeated && matchesActorRef(actor, objective.actorId));
+      if (fallen) return settle(tracker, index, "failed", getOppositeSide(fallen.side));
+    }
+    if (objective.kind === "progressTrack" && tracker.states[index].progress >= objective.target) {
+      return settle(tracker, index, "completed", objective.side);
+    }
+    if (objective.kind === "holdRounds" && phase === "roundEnd") {
+      tracker.states[index].progress = Math.min(objective.rounds, state.round);
+      if (state.round >= objective.rounds && livingCombatants(tracker, state, objective.side).length > 0) {
+        return settle(tracker, index, "completed", objective.side);
+      }
+    }
+  }
+  return null;
+}
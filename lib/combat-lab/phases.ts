@@ -0,0 +1,52 @@
+import { isMonsterPhaseTriggered } from "@/lib/summoning/monsterPhases";
+
+import { emitTranscriptEvent } from "./combatState";
+import type { CombatActor, CombatActorPhase, CombatState } from "./types";
+
+function physicalResiliencePercent(actor: CombatActor): number {
+  if (actor.physicalHpMax <= 0) return 100;
+  return (Math.max(0, actor.physicalHpCurrent) / actor.physicalHpMax) * 100;
+}
+
+function enterPhase(state: CombatState, actor: CombatActor, phase: CombatActorPhase) {
+  actor.activePhaseIndex = phase.index;
+  actor.actions = phase.actions;
+  actor.dodgeValue = phase.dodgeValue;
+  actor.dodgeDice = phase.dodgeDice;
+  actor.physicalBlockPerSuccess = phase.physicalBlockPerSuccess;
+  actor.mentalBlockPerSuccess = phase.mentalBlockPerSuccess;
+  const trigger =
+    phase.triggerType === "ROUND"
+      ? `round ${phase.triggerValue}`
+      : `${phase.triggerValue}% Physical Resilience`;
+  emitTranscriptEvent(state, {
+    type: "phaseTransition",
+    actorId: actor.id,
+    actorName: actor.name,
+    message: `${actor.name} enters ${phase.name} (${trigger})${phase.transitionText ? `: ${phase.transitionText}` : "."}`,
+    details: { phaseIndex: phase.index, phaseName: phase.name, actionCount: phase.actions.length },
+  });
+}
+
+/**
+ * Moves every living boss into the latest phase its triggers allow. Phases run in order, so a single
+ * heavy hit can carry a boss through several at once. Cooldowns carry over by action id; status effects
+ * from powers the new phase drops stay until they expire.
+ */
+export function advanceActorPhases(state: CombatState) {
+  for (const actor of state.actors) {
+    if (actor.defeated || !actor.phases?.length) continue;
+    let next = actor.phases.find((phase) => phase.index === (actor.activePhaseIndex ?? 0) + 1);
+    while (
+      next &&
+      isMonsterPhaseTriggered(next, {
+        round: state.round,
+        physicalResiliencePercent: physicalResiliencePercent(actor),
+      })
+    ) {
+      enterPhase(state, actor, next);
+      const entered = next.index;
+      next = actor.phases.find((phase) => phase.index === entered + 1);
+    }
+  }
+}
@@ -13,6 +13,7 @@ import { validateThreeFieldAugmentDebuffPacket } from "@/lib/powers/authoringRul
 
 import type {
   CombatAction,
+  CombatActionGeometry,
   CombatActor,
   CombatAttributeName,
   CombatDieSize,
@@ -243,6 +244,20 @@ function targetCountForPower(
       : Math.max(1, asInt(local?.meleeTargets ?? power.meleeTargets, 1));
 }
 
+function geometryForPower(power: Power, packet: EffectPacket): CombatActionGeometry {
+  const local = packet.localTargetingOverride;
+  return {
+    rangedDistanceFeet: local?.rangedDistanceFeet ?? power.rangedDistanceFeet ?? null,
+    aoeCount: local?.aoeCount ?? power.aoeCount ?? null,
+    aoeShape: local?.aoeShape ?? power.aoeShape ?? null,
+    aoeCenterRangeFeet: local?.aoeCenterRangeFeet ?? power.aoeCenterRangeFeet ?? null,
+    aoeSphereRadiusFeet: local?.aoeSphereRadiusFeet ?? power.aoeSphereRadiusFeet ?? null,
+    aoeConeLengthFeet: local?.aoeConeLengthFeet ?? power.aoeConeLengthFeet ?? null,
+    aoeLineWidthFeet: local?.aoeLineWidthFeet ?? power.aoeLineWidthFeet ?? null,
+    aoeLineLengthFeet: local?.aoeLineLengthFeet ?? power.aoeLineLengthFeet ?? null,
+  };
+}
+
 function damageApplicationTimingForPacket(
   kind: CombatAction["kind"],
   packet: EffectPacket,
@@ -693,6 +708,7 @@ export function adaptPowerToCombatActions(
       pool,
       rangeCategory,
       targetCount,
+      geometry: geometryForPower(power, packet),
       accuracyAttribute: rollAttributeResolution.attribute,
       contextualAccuracyAttributes: rollAttributeResolution.contextualAttributes,
       diceCount,
@@ -731,9 +747,9 @@ export function adaptPowerToCombatActions(
       counterMode: power.counterMode === "YES",
       cooldownActionId: actionId,
       abstractionNotes: [
-        ...(isAoe ? ["AOE target count abstracted to 60% of potential capacity."] : []),
+        ...(isAoe ? ["AOE target count abstracted to 60% of potential capacity unless grid positioning is enabled."] : []),
         ...(power.descriptorChassis === "FIELD" ? ["Field positioning abstracted using 60% potential target capacity."] : []),
-        ...(kind === "movement" ? ["Movement position not simulated; forced movement tracked as control metric."] : []),
+        ...(kind === "movement" ? ["Movement position only simulated with grid positioning; otherwise forced movement is tracked as a control metric."] : []),
         ...(power.counterMode === "YES" ? ["Counter economy uses Responses and is limited to one reaction per incoming action."] : []),
         ...(secondaryActions.some((secondaryAction) => secondaryAction.secondaryDependencyMode === "INDEPENDENT")
           ? [`${secondaryActions.filter((secondaryAction) => secondaryAction.secondaryDependencyMode === "INDEPENDENT").length} independent secondary packet(s) may enter simultaneous bundle resolution when supported.`]
@@ -834,6 +850,28 @@ function rangeTargetCount(
   );
 }
 
+function attackProfileGeometry(
+  rangeCategory: RangeCategory,
+  config: NonNullable<MonsterNaturalAttackConfig[Lowercase<RangeCategory>]>,
+): CombatActionGeometry {
+  if (rangeCategory === "RANGED") {
+    return { rangedDistanceFeet: (config as NonNullable<MonsterNaturalAttackConfig["ranged"]>).distance };
+  }
+  if (rangeCategory === "AOE") {
+    const aoe = config as NonNullable<MonsterNaturalAttackConfig["aoe"]>;
+    return {
+      aoeCount: aoe.count,
+      aoeShape: aoe.shape,
+      aoeCenterRangeFeet: aoe.centerRange,
+      aoeSphereRadiusFeet: aoe.sphereRadiusFeet,
+      aoeConeLengthFeet: aoe.coneLengthFeet,
+      aoeLineWidthFeet: aoe.lineWidthFeet,
+      aoeLineLengthFeet: aoe.lineLengthFeet,
+    };
+  }
+  return {};
+}
+
 function makeAttackProfileActions(params: {
   idBase: string;
   sourceLabel: string;
@@ -852,6 +890,7 @@ function makeAttackProfileActions(params: {
     sourceType: params.sourceType,
     rangeCategory: params.rangeCategory,
     targetCount,
+    geometry: attackProfileGeometry(params.rangeCategory, params.config),
     accuracyAttribute: "Attack" as const,
     diceCount: Math.max(1, Math.trunc(params.diceCount)),
     cooldownRounds: 0,
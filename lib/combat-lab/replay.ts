@@ -0,0 +1,84 @@
+import { runCombatScenario } from "./autoSimulator";
+import type { CombatRunResult, CombatScenario, CombatTranscript } from "./types";
+
+/** Which run to replay: a specific index, or the best or worst run for the players. */
+export type CombatReplaySelector = { runIndex: number } | "best" | "worst";
+
+export type CombatReplay = {
+  runIndex: number;
+  selector: "index" | "best" | "worst";
+  seed: number;
+  winner: CombatRunResult["winner"];
+  rounds: number;
+  winnerHealthRemainingPercent: number;
+  transcript: CombatTranscript;
+};
+
+export class CombatReplayError extends Error {
+  readonly code: "INVALID_SELECTOR" | "RUN_INDEX_OUT_OF_RANGE";
+
+  constructor(code: CombatReplayError["code"], message: string) {
+    super(message);
+    this.name = "CombatReplayError";
+    this.code = code;
+  }
+}
+
+/**
+ * Player-perspective score: a player win scores its remaining health, a monster win scores the
+ * negative of the monsters' remaining health, and a stalemate scores zero.
+ */
+export function playerOutcomeScore(run: Pick<CombatRunResult, "winner" | "winnerHealthRemainingPercent">): number {
+  if (run.winner === "players") return run.winnerHealthRemainingPercent;
+  if (run.winner === "monsters") return -run.winnerHealthRemainingPercent;
+  return 0;
+}
+
+export function parseReplaySelector(value: unknown): CombatReplaySelector {
+  if (value === "best" || value === "worst") return value;
+  const raw = value && typeof value === "object" ? (value as { runIndex?: unknown }).runIndex : value;
+  const runIndex = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+  if (!Number.isInteger(runIndex) || runIndex < 0) {
+    throw new CombatReplayError("INVALID_SELECTOR", 'replay must be "best", "worst", or { runIndex } with a non-negative integer');
+  }
+  return { runIndex };
+}
+
+/** Finds the run to replay. Best and worst re-run the suite without transcripts; ties keep the lowest index. */
+export function resolveReplayRunIndex(scenario: CombatScenario, selector: CombatReplaySelector): number {
+  if (typeof selector === "object") {
+    if (selector.runIndex >= scenario.runs) {
+      throw new CombatReplayError(
+        "RUN_INDEX_OUT_OF_RANGE",
+        `Run ${selector.runIndex} does not exist; this suite has runs 0 to ${scenario.runs - 1}`,
+      );
+    }
+    return selector.runIndex;
+  }
+  let chosenIndex = 0;
+  let chosenScore = 0;
+  for (let runIndex = 0; runIndex < scenario.runs; runIndex += 1) {
+    const score = playerOutcomeScore(runCombatScenario(scenario, runIndex, { captureTranscript: false }));
+    const better = selector === "best" ? score > chosenScore : score < chosenScore;
+    if (runIndex === 0 || better) {
+      chosenIndex = runIndex;
+      chosenScore = score;
+    }
+  }
+  return chosenIndex;
+}
+
+/** Replays one run from seed plus run index with a transcript and per-event state snapshots. */
+export function replayCombatRun(scenario: CombatScenario, selector: CombatReplaySelector): CombatReplay {
+  const runIndex = resolveReplayRunIndex(scenario, selector);
+  const run = runCombatScenario(scenario, runIndex, { captureTranscript: true, captureSnapshots: true });
+  return {
+    runIndex,
+    selector: typeof selector === "object" ? "index" : selector,
+    seed: scenario.seed,
+    winner: run.winner,
+    rounds: run.rounds,
+    winnerHealthRemainingPercent: run.winnerHealthRemainingPercent,
+    transcript: run.firstRunTranscript!,
+  };
+}
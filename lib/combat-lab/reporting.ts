@@ -1,4 +1,13 @@
+import { resolveActorAiPolicy } from "./aiPolicies";
 import { runCombatScenario } from "./autoSimulator";
+import {
+  bootstrapInterval,
+  COMBAT_CONFIDENCE_LEVEL,
+  DEFAULT_BOOTSTRAP_RESAMPLES,
+  intervalHalfWidth,
+  wilsonInterval,
+} from "./confidence";
+import { createSeededRng } from "./dice";
 import type {
   CombatActorContribution,
   CombatAssistDiagnostics,
@@ -13,6 +22,7 @@ import type {
   CombatDefensivePoolSideReport,
   CombatDefensivePoolSideTotals,
   CombatAggregateMetrics,
+  CombatConfidenceInterval,
   CombatCooldownTrace,
   CombatMonsterGroupContribution,
   CombatRunResult,
@@ -24,7 +34,9 @@ import type {
   CombatOngoingPressureReport,
   CombatOngoingPressureSideReport,
   CombatOngoingPressureSideTotals,
+  CombatObjectiveSuiteSummary,
   CombatSide,
+  CombatSuiteConfidence,
   CombatSuiteReport,
   CombatStoppedByBreakdown,
   UnsupportedPowerSummary,
@@ -121,6 +133,8 @@ export function calculateOutcomeSummary(
     stoppedByBreakdown: {
       playersDefeated: runs.filter((run) => run.stoppedBy === "playersDefeated").length / divisor,
       monstersDefeated: runs.filter((run) => run.stoppedBy === "monstersDefeated").length / divisor,
+      objectiveCompleted: runs.filter((run) => run.stoppedBy === "objectiveCompleted").length / divisor,
+      objectiveFailed: runs.filter((run) => run.stoppedBy === "objectiveFailed").length / divisor,
       maxRounds: runs.filter((run) => run.stoppedBy === "maxRounds").length / divisor,
       stalemate: runs.filter((run) => run.stoppedBy === "stalemate").length / divisor,
     },
@@ -302,6 +316,7 @@ function mergeMonsterGroupContributions(scenario: CombatScenario, runs: CombatRu
     const group = groups.get(baseActorId) ?? {
       baseActorId,
       displayGroupName: monster.displayGroupName ?? monster.name,
+      aiPolicy: resolveActorAiPolicy(monster, scenario),
       quantity: 0,
       survivors: 0,
       defeated: 0,
@@ -1028,8 +1043,119 @@ function mergeDefeatMetrics(runs: CombatRunResult[]) {
   };
 }
 
+function outcomeCounts(runs: CombatRunResult[]) {
+  return {
+    players: runs.filter((run) => run.winner === "players").length,
+    monsters: runs.filter((run) => run.winner === "monsters").length,
+    stalemate: runs.filter((run) => run.winner === "stalemate").length,
+  };
+}
+
+/** Widest Wilson half-width across the player, monster and stalemate rates. */
+export function widestOutcomeHalfWidth(runs: CombatRunResult[]): number {
+  const counts = outcomeCounts(runs);
+  return Math.max(
+    intervalHalfWidth(wilsonInterval(counts.players, runs.length)),
+    intervalHalfWidth(wilsonInterval(counts.monsters, runs.length)),
+    intervalHalfWidth(wilsonInterval(counts.stalemate, runs.length)),
+  );
+}
+
+function damagePerRound(runs: CombatRunResult[], side: CombatSide) {
+  const rounds = runs.reduce((sum, run) => sum + run.rounds, 0);
+  return runs.reduce((sum, run) => sum + run.metrics.damageDealt[side], 0) / Math.max(1, rounds);
+}
+
+function mergeObjectiveSummaries(runs: CombatRunResult[]): CombatObjectiveSuiteSummary[] | undefined {
+  const template = runs[0]?.objectiveStates;
+  if (!template) return undefined;
+  const divisor = Math.max(1, runs.length);
+  return template.map((objective, index) => {
+    const states = runs.map((run) => run.objectiveStates?.[index]).filter((entry) => entry !== undefined);
+    return {
+      objectiveId: objective.objectiveId,
+      kind: objective.kind,
+      label: objective.label,
+      completedRate: states.filter((entry) => entry.status === "completed").length / divisor,
+      failedRate: states.filter((entry) => entry.status === "failed").length / divisor,
+      averageProgress: avg(states.map((entry) => entry.progress)),
+      target: objective.target,
+      averageHazardWounds: {
+        players: avg(states.map((entry) => entry.hazardWounds.players)),
+        monsters: avg(states.map((entry) => entry.hazardWounds.monsters)),
+      },
+    };
+  });
+}
+
+function suiteConfidence(scenario: CombatScenario, runs: CombatRunResult[]): CombatSuiteConfidence {
+  const counts = outcomeCounts(runs);
+  // Seeded from the scenario so the same suite always reports the same intervals.
+  const rng = createSeededRng(scenario.seed + 7919);
+  const bootstrap = (statistic: (sample: CombatRunResult[]) => number) =>
+    bootstrapInterval(runs, statistic, { rng, resamples: DEFAULT_BOOTSTRAP_RESAMPLES });
+  return {
+    level: COMBAT_CONFIDENCE_LEVEL,
+    playerWinRate: wilsonInterval(counts.players, runs.length),
+    monsterWinRate: wilsonInterval(counts.monsters, runs.length),
+    stalemateRate: wilsonInterval(counts.stalemate, runs.length),
+    bootstrapResamples: DEFAULT_BOOTSTRAP_RESAMPLES,
+    averageRounds: bootstrap((sample) => avg(sample.map((run) => run.rounds))),
+    medianRounds: bootstrap((sample) => percentile(sample.map((run) => run.rounds), 0.5)),
+    averageDamagePerRound: {
+      players: bootstrap((sample) => damagePerRound(sample, "players")),
+      monsters: bootstrap((sample) => damagePerRound(sample, "monsters")),
+    },
+  };
+}
+
+export type CombatConvergenceOptions = {
+  /** Stop once every outcome rate's 95% interval is at most this wide on each side, e.g. 0.03. */
+  targetHalfWidth: number;
+  maxRuns: number;
+  minRuns?: number;
+  batchSize?: number;
+};
+
+export const DEFAULT_CONVERGENCE_MIN_RUNS = 30;
+export const DEFAULT_CONVERGENCE_BATCH_SIZE = 25;
+
 export function runScenarioSuite(scenario: CombatScenario): CombatSuiteReport {
   const runs = Array.from({ length: scenario.runs }, (_, index) => runCombatScenario(scenario, index));
+  return buildSuiteReport(scenario, runs);
+}
+
+/**
+ * Runs batches until the widest outcome-rate interval is within the target or maxRuns is hit.
+ * Run indexes match runScenarioSuite, so a converged suite equals a fixed suite of the same size.
+ */
+export function runScenarioSuiteUntilConverged(
+  scenario: CombatScenario,
+  options: CombatConvergenceOptions,
+): CombatSuiteReport {
+  const maxRuns = Math.max(1, Math.trunc(options.maxRuns));
+  const minRuns = Math.min(maxRuns, Math.max(1, Math.trunc(options.minRuns ?? DEFAULT_CONVERGENCE_MIN_RUNS)));
+  const batchSize = Math.max(1, Math.trunc(options.batchSize ?? DEFAULT_CONVERGENCE_BATCH_SIZE));
+  const runs: CombatRunResult[] = [];
+  let halfWidth = 1;
+  while (runs.length < maxRuns) {
+    const batchEnd = Math.min(maxRuns, Math.max(minRuns, runs.length + batchSize));
+    while (runs.length < batchEnd) runs.push(runCombatScenario(scenario, runs.length));
+    halfWidth = widestOutcomeHalfWidth(runs);
+    if (halfWidth <= options.targetHalfWidth) break;
+  }
+  return {
+    ...buildSuiteReport({ ...scenario, runs: runs.length }, runs),
+    convergence: {
+      targetHalfWidth: options.targetHalfWidth,
+      maxRuns,
+      converged: halfWidth <= options.targetHalfWidth,
+      finalHalfWidth: halfWidth,
+    },
+  };
+}
+
+function buildSuiteReport(scenario: CombatScenario, runs: CombatRunResult[]): CombatSuiteReport {
   const rounds = runs.map((run) => run.rounds);
   const totalRounds = Math.max(1, rounds.reduce((sum, value) => sum + value, 0));
   const damage = sumBySide(runs, (metrics) => metrics.damageDealt);
@@ -1037,7 +1163,9 @@ export function runScenarioSuite(scenario: CombatScenario): CombatSuiteReport {
   const reportWithoutVerdict = {
     scenarioName: scenario.name,
     runs: scenario.runs,
+    positioning: scenario.grid ? ("grid" as const) : ("abstract" as const),
     ...outcomeSummary,
+    ...(scenario.objectives?.length ? { objectives: mergeObjectiveSummaries(runs) } : {}),
     averageRounds: avg(rounds),
     medianRounds: percentile(rounds, 0.5),
     p10Rounds: percentile(rounds, 0.1),
@@ -1114,6 +1242,9 @@ export function runScenarioSuite(scenario: CombatScenario): CombatSuiteReport {
         (metrics) => metrics.aoeActionUses,
       ),
       positionalAbstractionsUsed: averageSideTotals(runs, (metrics) => metrics.positionalAbstractionsUsed),
+      gridMovementFeet: averageSideTotals(runs, (metrics) => metrics.gridMovementFeet),
+      gridForcedMovementFeet: averageSideTotals(runs, (metrics) => metrics.gridForcedMovementFeet),
+      gridOutOfRangeActions: averageSideTotals(runs, (metrics) => metrics.gridOutOfRangeActions),
       mainActionsUsed: averageSideTotals(runs, (metrics) => metrics.mainActionsUsed),
       powerActionsUsed: averageSideTotals(runs, (metrics) => metrics.powerActionsUsed),
       secondWeaponAttacksUsed: averageSideTotals(runs, (metrics) => metrics.secondWeaponAttacksUsed),
@@ -1133,6 +1264,7 @@ export function runScenarioSuite(scenario: CombatScenario): CombatSuiteReport {
     unsupported: mergeUnsupported(runs),
     hydrationIntegrity: collectHydrationIntegrity(scenario),
     defeatMetrics: mergeDefeatMetrics(runs),
+    confidence: suiteConfidence(scenario, runs),
   };
   return {
     ...reportWithoutVerdict,
@@ -1148,19 +1280,68 @@ function num(value: number): string {
   return Number.isInteger(value) ? String(value) : value.toFixed(2);
 }
 
+function pctInterval(interval: CombatConfidenceInterval): string {
+  return `${pct(interval.low)}-${pct(interval.high)}`;
+}
+
+function numInterval(interval: CombatConfidenceInterval): string {
+  return `${num(interval.low)}-${num(interval.high)}`;
+}
+
 export function formatSuiteReport(report: CombatSuiteReport): string {
   const unsupported = report.unsupported.unsupportedPowerCount > 0
     ? `Unsupported: ${report.unsupported.unsupportedPowerNames.join(", ")}`
     : "Unsupported: none";
+  const customPolicies = [
+    ...report.actorContributions
+      .filter((actor) => actor.side === "players" && actor.aiPolicy !== "default")
+      .map((actor) => `${actor.actorName} ${actor.aiPolicy}`),
+    ...report.monsterGroupContributions
+      .filter((group) => group.aiPolicy !== "default")
+      .map((group) => `${group.displayGroupName} ${group.aiPolicy}`),
+  ];
   return [
     `Scenario: ${report.scenarioName}`,
     `Runs: ${report.runs}`,
+    ...(report.convergence
+      ? [
+          `Convergence: ${report.convergence.converged ? "reached" : "not reached"} +/-${pct(report.convergence.targetHalfWidth)} (widest +/-${pct(report.convergence.finalHalfWidth)}, cap ${report.convergence.maxRuns} runs)`,
+        ]
+      : []),
     `Win rates: players ${pct(report.playerWinRate)}, monsters ${pct(report.monsterWinRate)}, stalemate ${pct(report.stalemateRate)}`,
+    ...(report.confidence
+      ? [
+          `Win rate 95% CI: players ${pctInterval(report.confidence.playerWinRate)}, monsters ${pctInterval(report.confidence.monsterWinRate)}, stalemate ${pctInterval(report.confidence.stalemateRate)}`,
+        ]
+      : []),
+    ...(report.objectives
+      ? [
+          `Ended by: players defeated ${pct(report.stoppedByBreakdown.playersDefeated)}, monsters defeated ${pct(report.stoppedByBreakdown.monstersDefeated)}, objective completed ${pct(report.stoppedByBreakdown.objectiveCompleted)}, objective failed ${pct(report.stoppedByBreakdown.objectiveFailed)}, max rounds ${pct(report.stoppedByBreakdown.maxRounds)}, stalemate ${pct(report.stoppedByBreakdown.stalemate)}`,
+          ...report.objectives.map((objective) =>
+            objective.kind === "environmentalHazard"
+              ? `Objective ${objective.label}: hazard wounds P/M ${num(objective.averageHazardWounds.players)}/${num(objective.averageHazardWounds.monsters)}`
+              : `Objective ${objective.label}: completed ${pct(objective.completedRate)}, failed ${pct(objective.failedRate)}${
+                  objective.target === null ? "" : `, progress ${num(objective.averageProgress)}/${objective.target}`
+                }`,
+          ),
+        ]
+      : []),
     `Rounds: avg ${num(report.averageRounds)}, median ${num(report.medianRounds)}, p10/p90 ${num(report.p10Rounds)}/${num(report.p90Rounds)}`,
+    ...(report.confidence
+      ? [
+          `Rounds 95% CI: avg ${numInterval(report.confidence.averageRounds)}, median ${numInterval(report.confidence.medianRounds)}; damage/round players ${numInterval(report.confidence.averageDamagePerRound.players)}, monsters ${numInterval(report.confidence.averageDamagePerRound.monsters)}`,
+        ]
+      : []),
     `Health remaining: ${pct(report.averageWinnerHealthRemainingPercent)}`,
     `Damage/round: players ${num(report.averageDamagePerRound.players)}, monsters ${num(report.averageDamagePerRound.monsters)}`,
     `Defence: protection prevented P/M ${num(report.averageProtectionPrevented.players)}/${num(report.averageProtectionPrevented.monsters)}, dodge avoided P/M ${num(report.averageDodgeAvoided.players)}/${num(report.averageDodgeAvoided.monsters)}`,
     `Mechanics: main ${num(report.averageMechanics.mainActionsUsed.players)}/${num(report.averageMechanics.mainActionsUsed.monsters)}, power ${num(report.averageMechanics.powerActionsUsed.players)}/${num(report.averageMechanics.powerActionsUsed.monsters)}, second weapon ${num(report.averageMechanics.secondWeaponAttacksUsed.players)}/${num(report.averageMechanics.secondWeaponAttacksUsed.monsters)}, skipped power ${num(report.averageMechanics.skippedPowerActions.players)}/${num(report.averageMechanics.skippedPowerActions.monsters)}, control ${num(report.averageMechanics.controlTurnsApplied.players)}/${num(report.averageMechanics.controlTurnsApplied.monsters)}, denied ${num(report.averageMechanics.actionsDenied.players)}/${num(report.averageMechanics.actionsDenied.monsters)}, dodge choices ${num(report.averageMechanics.dodgeChosen.players)}/${num(report.averageMechanics.dodgeChosen.monsters)}, physical defence choices ${num(report.averageMechanics.physicalDefenceChosen.players)}/${num(report.averageMechanics.physicalDefenceChosen.monsters)}, mental defence choices ${num(report.averageMechanics.mentalDefenceChosen.players)}/${num(report.averageMechanics.mentalDefenceChosen.monsters)}, defence blocked ${num(report.averageMechanics.defenceStringBlocked.players)}/${num(report.averageMechanics.defenceStringBlocked.monsters)}, debuffed defence rolls ${num(report.averageMechanics.debuffedDefenceRolls.players)}/${num(report.averageMechanics.debuffedDefenceRolls.monsters)}, debuffed resist rolls ${num(report.averageMechanics.debuffedResistRolls.players)}/${num(report.averageMechanics.debuffedResistRolls.monsters)}, resist successes ${num(report.averageMechanics.resistSuccesses.players)}/${num(report.averageMechanics.resistSuccesses.monsters)}, responses ${num(report.averageMechanics.responsesUsed.players)}/${num(report.averageMechanics.responsesUsed.monsters)}, HoT ticks ${num(report.averageMechanics.healingTicks.players)}/${num(report.averageMechanics.healingTicks.monsters)}, ongoing ticks ${num(report.averageMechanics.ongoingDamageTicks.players)}/${num(report.averageMechanics.ongoingDamageTicks.monsters)}, counters ${num(report.averageMechanics.counterUses.players)}/${num(report.averageMechanics.counterUses.monsters)}, AOE targets/action ${num(report.averageMechanics.aoeActualTargets.players)}/${num(report.averageMechanics.aoePotentialTargets.players)} vs ${num(report.averageMechanics.aoeActualTargets.monsters)}/${num(report.averageMechanics.aoePotentialTargets.monsters)}`,
+    ...(report.positioning === "grid"
+      ? [
+          `Grid: movement ft P/M ${num(report.averageMechanics.gridMovementFeet.players)}/${num(report.averageMechanics.gridMovementFeet.monsters)}, forced movement ft P/M ${num(report.averageMechanics.gridForcedMovementFeet.players)}/${num(report.averageMechanics.gridForcedMovementFeet.monsters)}, out-of-range actions P/M ${num(report.averageMechanics.gridOutOfRangeActions.players)}/${num(report.averageMechanics.gridOutOfRangeActions.monsters)}`,
+        ]
+      : []),
+    `AI policies: ${customPolicies.length > 0 ? customPolicies.join(", ") : "role default"}`,
     unsupported,
     `Balance verdict: ${report.verdict}`,
   ].join("\n");
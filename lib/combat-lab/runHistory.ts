@@ -0,0 +1,232 @@
+import type {
+  CombatActorContribution,
+  CombatAiPolicy,
+  CombatDefensivePoolSideReport,
+  CombatGridConfig,
+  CombatSide,
+  CombatSuiteReport,
+  CombatTurnOrder,
+} from "./types";
+
+export type CombatLabRunCharacterInput = {
+  characterId: string;
+  quantity: number;
+};
+
+export type CombatLabRunMonsterInput = {
+  monsterId: string;
+  quantity: number;
+  aiPolicy?: CombatAiPolicy;
+  /** Replaces the monster's authored level for this run. */
+  level?: number;
+};
+
+export type CombatLabRunScenarioInput = {
+  characters: CombatLabRunCharacterInput[];
+  monsters: CombatLabRunMonsterInput[];
+  grid?: CombatGridConfig | null;
+};
+
+export type CombatLabRunTuningSetIds = {
+  combatTuningSetId: string | null;
+  powerTuningSetId: string | null;
+  outcomeNormalizationSetId: string | null;
+};
+
+export type CombatLabRunHistoryEntry = CombatLabRunTuningSetIds & {
+  id: string;
+  label: string | null;
+  scenarioName: string;
+  runs: number;
+  seed: number;
+  maxRounds: number;
+  turnOrder: CombatTurnOrder;
+  scenarioInput: CombatLabRunScenarioInput;
+  playerWinRate: number;
+  monsterWinRate: number;
+  stalemateRate: number;
+  medianRounds: number;
+  createdByUserId: string;
+  createdAt: string;
+};
+
+export type CombatLabRunRecord = CombatLabRunHistoryEntry & {
+  report: CombatSuiteReport;
+};
+
+export type CombatReportMetricFormat = "percent" | "number";
+
+export type CombatReportMetricDelta = {
+  key: string;
+  label: string;
+  format: CombatReportMetricFormat;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+};
+
+export type CombatReportActorDelta = {
+  actorKey: string;
+  actorName: string;
+  side: CombatSide;
+  presentIn: "both" | "before" | "after";
+  metrics: CombatReportMetricDelta[];
+};
+
+export type CombatReportDefensivePoolDelta = {
+  side: CombatSide;
+  metrics: CombatReportMetricDelta[];
+};
+
+export type CombatReportComparison = {
+  beforeScenarioName: string;
+  afterScenarioName: string;
+  outcomes: CombatReportMetricDelta[];
+  rounds: CombatReportMetricDelta[];
+  actors: CombatReportActorDelta[];
+  defensivePools: CombatReportDefensivePoolDelta[];
+};
+
+const ACTOR_CONTRIBUTION_METRICS: Array<{
+  key: keyof CombatActorContribution;
+  label: string;
+}> = [
+  { key: "actionsUsed", label: "Actions used" },
+  { key: "damage", label: "Damage" },
+  { key: "healing", label: "Healing" },
+  { key: "mitigation", label: "Mitigation" },
+  { key: "controlTurnsApplied", label: "Control turns" },
+  { key: "ongoingDamageApplied", label: "Ongoing damage" },
+  { key: "counterDamage", label: "Counter damage" },
+];
+
+const DEFENSIVE_POOL_METRICS: Array<{
+  key: keyof CombatDefensivePoolSideReport;
+  label: string;
+}> = [
+  { key: "poolsCreated", label: "Pools created" },
+  { key: "averageGeneratedPoints", label: "Avg generated points" },
+  { key: "committedPoints", label: "Committed points" },
+  { key: "spentPoints", label: "Spent points" },
+  { key: "wastedPoints", label: "Wasted points" },
+  { key: "remainingAtExpiry", label: "Remaining at expiry" },
+  { key: "dodgeAvoids", label: "Dodge avoids" },
+  { key: "blockWoundsPrevented", label: "Block wounds prevented" },
+  { key: "resistUnitsCancelled", label: "Resist units cancelled" },
+];
+
+const SIDES: CombatSide[] = ["players", "monsters"];
+
+function finiteOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function metricDelta(
+  key: string,
+  label: string,
+  format: CombatReportMetricFormat,
+  before: unknown,
+  after: unknown,
+): CombatReportMetricDelta {
+  const beforeValue = finiteOrNull(before);
+  const afterValue = finiteOrNull(after);
+  return {
+    key,
+    label,
+    format,
+    before: beforeValue,
+    after: afterValue,
+    delta: beforeValue !== null && afterValue !== null ? afterValue - beforeValue : null,
+  };
+}
+
+// Instance ids are stable for the same selections, so they pair actors across runs. Display names
+// are only a fallback for older reports that predate instance ids.
+function actorKey(actor: Pick<CombatActorContribution, "actorId" | "actorName">): string {
+  return actor.actorId || actor.actorName;
+}
+
+function compareActorContributions(
+  before: CombatActorContribution[],
+  after: CombatActorContribution[],
+): CombatReportActorDelta[] {
+  const beforeByKey = new Map(before.map((actor) => [actorKey(actor), actor]));
+  const afterByKey = new Map(after.map((actor) => [actorKey(actor), actor]));
+  const keys = Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()]));
+  return keys.map((key) => {
+    const beforeActor = beforeByKey.get(key);
+    const afterActor = afterByKey.get(key);
+    const reference = (afterActor ?? beforeActor) as CombatActorContribution;
+    return {
+      actorKey: key,
+      actorName: reference.actorName,
+      side: reference.side,
+      presentIn: beforeActor && afterActor ? "both" : beforeActor ? "before" : "after",
+      metrics: ACTOR_CONTRIBUTION_METRICS.map(({ key: metricKey, label }) =>
+        metricDelta(metricKey, label, "number", beforeActor?.[metricKey], afterActor?.[metricKey]),
+      ),
+    };
+  });
+}
+
+function compareDefensivePools(
+  before: CombatSuiteReport["defensivePools"] | undefined,
+  after: CombatSuiteReport["defensivePools"] | undefined,
+): CombatReportDefensivePoolDelta[] {
+  return SIDES.map((side) => ({
+    side,
+    metrics: DEFENSIVE_POOL_METRICS.map(({ key, label }) =>
+      metricDelta(key, label, "number", before?.bySourceSide[side]?.[key], after?.bySourceSide[side]?.[key]),
+    ),
+  }));
+}
+
+export function compareSuiteReports(
+  before: CombatSuiteReport,
+  after: CombatSuiteReport,
+): CombatReportComparison {
+  return {
+    beforeScenarioName: before.scenarioName,
+    afterScenarioName: after.scenarioName,
+    outcomes: [
+      metricDelta("playerWinRate", "Player win rate", "percent", before.playerWinRate, after.playerWinRate),
+      metricDelta("monsterWinRate", "Monster win rate", "percent", before.monsterWinRate, after.monsterWinRate),
+      metricDelta("stalemateRate", "Stalemate rate", "percent", before.stalemateRate, after.stalemateRate),
+      metricDelta(
+        "averageWinnerHealthRemainingPercent",
+        "Winner health remaining",
+        "percent",
+        before.averageWinnerHealthRemainingPercent,
+        after.averageWinnerHealthRemainingPercent,
+      ),
+      metricDelta(
+        "averageDamagePerRound.players",
+        "Player damage / round",
+        "number",
+        before.averageDamagePerRound.players,
+        after.averageDamagePerRound.players,
+      ),
+      metricDelta(
+        "averageDamagePerRound.monsters",
+        "Monster damage / round",
+        "number",
+        before.averageDamagePerRound.monsters,
+        after.averageDamagePerRound.monsters,
+      ),
+    ],
+    rounds: [
+      metricDelta("averageRounds", "Average rounds", "number", before.averageRounds, after.averageRounds),
+      metricDelta("medianRounds", "Median rounds", "number", before.medianRounds, after.medianRounds),
+      metricDelta("p10Rounds", "P10 rounds", "number", before.p10Rounds, after.p10Rounds),
+      metricDelta("p90Rounds", "P90 rounds", "number", before.p90Rounds, after.p90Rounds),
+    ],
+    actors: compareActorContributions(before.actorContributions ?? [], after.actorContributions ?? []),
+    defensivePools: compareDefensivePools(before.defensivePools, after.defensivePools),
+  };
+}
+
+// The first-run transcript is reproducible from the stored seed and can run to 1200 lines, so it is
+// not kept in history rows.
+export function toHistoryReport(report: CombatSuiteReport): CombatSuiteReport {
+  return { ...report, firstRunTranscript: undefined };
+}
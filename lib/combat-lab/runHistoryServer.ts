@@ -0,0 +1,160 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import {
+  toHistoryReport,
+  type CombatLabRunHistoryEntry,
+  type CombatLabRunRecord,
+  type CombatLabRunScenarioInput,
+  type CombatLabRunTuningSetIds,
+} from "@/lib/combat-lab/runHistory";
+import type { CombatGridConfig, CombatSuiteReport, CombatTurnOrder } from "@/lib/combat-lab/types";
+import { prisma } from "@/prisma/client";
+
+const HISTORY_LIST_LIMIT = 100;
+
+const HISTORY_ENTRY_SELECT = {
+  id: true,
+  label: true,
+  scenarioName: true,
+  runs: true,
+  seed: true,
+  maxRounds: true,
+  turnOrder: true,
+  scenarioInputJson: true,
+  combatTuningSetId: true,
+  powerTuningSetId: true,
+  outcomeNormalizationSetId: true,
+  playerWinRate: true,
+  monsterWinRate: true,
+  stalemateRate: true,
+  medianRounds: true,
+  createdByUserId: true,
+  createdAt: true,
+} satisfies Prisma.CombatLabRunRecordSelect;
+
+type StoredHistoryEntry = Prisma.CombatLabRunRecordGetPayload<{ select: typeof HISTORY_ENTRY_SELECT }>;
+
+function normalizeScenarioInput(value: Prisma.JsonValue): CombatLabRunScenarioInput {
+  const raw = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as {
+    characters?: unknown;
+    monsters?: unknown;
+    grid?: unknown;
+  };
+  const characters = Array.isArray(raw.characters) ? raw.characters : [];
+  const monsters = Array.isArray(raw.monsters) ? raw.monsters : [];
+  const grid = raw.grid && typeof raw.grid === "object" && !Array.isArray(raw.grid)
+    ? (raw.grid as CombatGridConfig)
+    : null;
+  return {
+    characters: characters.flatMap((entry) => {
+      const row = entry as { characterId?: unknown; quantity?: unknown };
+      return typeof row.characterId === "string"
+        ? [{ characterId: row.characterId, quantity: Number(row.quantity) || 1 }]
+        : [];
+    }),
+    monsters: monsters.flatMap((entry) => {
+      const row = entry as { monsterId?: unknown; quantity?: unknown; level?: unknown };
+      if (typeof row.monsterId !== "string") return [];
+      const quantity = Number(row.quantity) || 1;
+      return [
+        typeof row.level === "number"
+          ? { monsterId: row.monsterId, quantity, level: row.level }
+          : { monsterId: row.monsterId, quantity },
+      ];
+    }),
+    grid,
+  };
+}
+
+function toHistoryEntry(row: StoredHistoryEntry): CombatLabRunHistoryEntry {
+  return {
+    id: row.id,
+    label: row.label,
+    scenarioName: row.scenarioName,
+    runs: row.runs,
+    seed: row.seed,
+    maxRounds: row.maxRounds,
+    turnOrder: row.turnOrder as CombatTurnOrder,
+    scenarioInput: normalizeScenarioInput(row.scenarioInputJson),
+    combatTuningSetId: row.combatTuningSetId,
+    powerTuningSetId: row.powerTuningSetId,
+    outcomeNormalizationSetId: row.outcomeNormalizationSetId,
+    playerWinRate: row.playerWinRate,
+    monsterWinRate: row.monsterWinRate,
+    stalemateRate: row.stalemateRate,
+    medianRounds: row.medianRounds,
+    createdByUserId: row.createdByUserId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function saveCombatLabRunRecord(params: {
+  campaignId: string;
+  userId: string;
+  label?: string | null;
+  seed: number;
+  maxRounds: number;
+  turnOrder: CombatTurnOrder;
+  scenarioInput: CombatLabRunScenarioInput;
+  tuningSetIds: CombatLabRunTuningSetIds;
+  report: CombatSuiteReport;
+}): Promise<CombatLabRunHistoryEntry> {
+  const label = typeof params.label === "string" ? params.label.trim().slice(0, 120) : "";
+  const row = await prisma.combatLabRunRecord.create({
+    data: {
+      campaignId: params.campaignId,
+      createdByUserId: params.userId,
+      label: label || null,
+      scenarioName: params.report.scenarioName,
+      runs: params.report.runs,
+      seed: params.seed,
+      maxRounds: params.maxRounds,
+      turnOrder: params.turnOrder,
+      scenarioInputJson: params.scenarioInput as unknown as Prisma.InputJsonValue,
+      combatTuningSetId: params.tuningSetIds.combatTuningSetId,
+      powerTuningSetId: params.tuningSetIds.powerTuningSetId,
+      outcomeNormalizationSetId: params.tuningSetIds.outcomeNormalizationSetId,
+      playerWinRate: params.report.playerWinRate,
+      monsterWinRate: params.report.monsterWinRate,
+      stalemateRate: params.report.stalemateRate,
+      medianRounds: params.report.medianRounds,
+      reportJson: JSON.parse(JSON.stringify(toHistoryReport(params.report))) as Prisma.InputJsonValue,
+    },
+    select: HISTORY_ENTRY_SELECT,
+  });
+  return toHistoryEntry(row);
+}
+
+export async function listCombatLabRunHistory(campaignId: string): Promise<CombatLabRunHistoryEntry[]> {
+  const rows = await prisma.combatLabRunRecord.findMany({
+    where: { campaignId },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_LIST_LIMIT,
+    select: HISTORY_ENTRY_SELECT,
+  });
+  return rows.map(toHistoryEntry);
+}
+
+export async function getCombatLabRunRecord(
+  campaignId: string,
+  runId: string,
+): Promise<CombatLabRunRecord | null> {
+  const row = await prisma.combatLabRunRecord.findFirst({
+    where: { id: runId, campaignId },
+    select: { ...HISTORY_ENTRY_SELECT, reportJson: true },
+  });
+  if (!row) return null;
+  return {
+    ...toHistoryEntry(row),
+    report: row.reportJson as unknown as CombatSuiteReport,
+  };
+}
+
+export async function deleteCombatLabRunRecord(campaignId: string, runId: string): Promise<boolean> {
+  const result = await prisma.combatLabRunRecord.deleteMany({
+    where: { id: runId, campaignId },
+  });
+  return result.count > 0;
+}
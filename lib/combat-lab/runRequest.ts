@@ -0,0 +1,196 @@
+import { isCombatAiPolicy } from "./aiPolicies";
+import { DEFAULT_GRID_STARTING_DISTANCE_FEET } from "./grid";
+import type { CombatConvergenceOptions } from "./reporting";
+import type { CombatLabRunCharacterInput, CombatLabRunMonsterInput } from "./runHistory";
+import type { CombatAiPolicy, CombatGridConfig, CombatTurnOrder } from "./types";
+
+export type CombatLabRunRequestBody = {
+  campaignId?: unknown;
+  characters?: unknown;
+  characterIds?: unknown;
+  monsters?: unknown;
+  monsterIds?: unknown;
+  runs?: unknown;
+  turnOrder?: unknown;
+  positioning?: unknown;
+  gridStartingDistanceFeet?: unknown;
+  label?: unknown;
+  saveToHistory?: unknown;
+  convergence?: unknown;
+  seed?: unknown;
+  maxRounds?: unknown;
+  presetId?: unknown;
+};
+
+export const MAX_CONVERGENCE_RUNS = 2000;
+/** Default round cap for campaign runs. */
+export const COMBAT_LAB_MAX_ROUNDS = 20;
+export const MAX_COMBAT_LAB_ROUNDS_LIMIT = 100;
+export const MAX_COMBAT_LAB_SEED = 2_000_000_000;
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === "string" ? entry.trim() : ""))
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
+export function parseCharacterSelections(
+  body: CombatLabRunRequestBody,
+): { selections: CombatLabRunCharacterInput[]; error?: string } {
+  const merged = new Map<string, number>();
+  if (Array.isArray(body.characters)) {
+    for (const entry of body.characters) {
+      if (!entry || typeof entry !== "object") {
+        return { selections: [], error: "Each character selection must include characterId and quantity" };
+      }
+      const raw = entry as { characterId?: unknown; quantity?: unknown };
+      const characterId = typeof raw.characterId === "string" ? raw.characterId.trim() : "";
+      const quantityValue = typeof raw.quantity === "number" ? raw.quantity : Number(raw.quantity);
+      if (!characterId) return { selections: [], error: "Character selection characterId is required" };
+      if (!Number.isInteger(quantityValue) || quantityValue < 1 || quantityValue > 30) {
+        return { selections: [], error: "Character quantity must be an integer between 1 and 30" };
+      }
+      merged.set(characterId, (merged.get(characterId) ?? 0) + quantityValue);
+    }
+  } else {
+    for (const characterId of stringList(body.characterIds)) {
+      merged.set(characterId, (merged.get(characterId) ?? 0) + 1);
+    }
+  }
+
+  const selections = [...merged.entries()].map(([characterId, quantity]) => ({ characterId, quantity }));
+  if (selections.some((selection) => selection.quantity > 30)) {
+    return { selections: [], error: "Character quantity must be between 1 and 30 per character" };
+  }
+  const totalInstances = selections.reduce((sum, selection) => sum + selection.quantity, 0);
+  if (totalInstances > 50) {
+    return { selections: [], error: "Total character instances cannot exceed 50" };
+  }
+  return { selections };
+}
+
+export function parseMonsterSelections(
+  body: CombatLabRunRequestBody,
+): { selections: CombatLabRunMonsterInput[]; error?: string } {
+  const merged = new Map<string, number>();
+  const policies = new Map<string, CombatAiPolicy>();
+  const levels = new Map<string, number>();
+  if (Array.isArray(body.monsters)) {
+    for (const entry of body.monsters) {
+      if (!entry || typeof entry !== "object") {
+        return { selections: [], error: "Each monster selection must include monsterId and quantity" };
+      }
+      const raw = entry as { monsterId?: unknown; quantity?: unknown; aiPolicy?: unknown; level?: unknown };
+      const monsterId = typeof raw.monsterId === "string" ? raw.monsterId.trim() : "";
+      const quantityValue = typeof raw.quantity === "number" ? raw.quantity : Number(raw.quantity);
+      if (!monsterId) return { selections: [], error: "Monster selection monsterId is required" };
+      if (!Number.isInteger(quantityValue) || quantityValue < 1 || quantityValue > 30) {
+        return { selections: [], error: "Monster quantity must be an integer between 1 and 30" };
+      }
+      if (raw.aiPolicy !== undefined && raw.aiPolicy !== null && !isCombatAiPolicy(raw.aiPolicy)) {
+        return { selections: [], error: "Monster aiPolicy is not a known policy" };
+      }
+      if (raw.level !== undefined && raw.level !== null && raw.level !== "") {
+        const levelValue = typeof raw.level === "number" ? raw.level : Number(raw.level);
+        if (!Number.isInteger(levelValue) || levelValue < 1 || levelValue > 30) {
+          return { selections: [], error: "Monster level override must be an integer between 1 and 30" };
+        }
+        levels.set(monsterId, levelValue);
+      }
+      merged.set(monsterId, (merged.get(monsterId) ?? 0) + quantityValue);
+      if (isCombatAiPolicy(raw.aiPolicy) && raw.aiPolicy !== "default") policies.set(monsterId, raw.aiPolicy);
+    }
+  } else {
+    for (const monsterId of stringList(body.monsterIds)) {
+      merged.set(monsterId, (merged.get(monsterId) ?? 0) + 1);
+    }
+  }
+
+  const selections = [...merged.entries()].map(([monsterId, quantity]): CombatLabRunMonsterInput => {
+    const aiPolicy = policies.get(monsterId);
+    const level = levels.get(monsterId);
+    return {
+      monsterId,
+      quantity,
+      ...(aiPolicy ? { aiPolicy } : {}),
+      ...(level !== undefined ? { level } : {}),
+    };
+  });
+  if (selections.some((selection) => selection.quantity > 30)) {
+    return { selections: [], error: "Monster quantity must be between 1 and 30 per monster" };
+  }
+  const totalInstances = selections.reduce((sum, selection) => sum + selection.quantity, 0);
+  if (totalInstances > 50) {
+    return { selections: [], error: "Total monster instances cannot exceed 50" };
+  }
+  return { selections };
+}
+
+export function parseRunCount(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed)) return 50;
+  return Math.max(1, Math.min(500, Math.trunc(parsed)));
+}
+
+/** A missing seed means "pick one"; anything else must be a non-negative integer. */
+export function parseSeed(value: unknown): { seed: number | null; error?: string } {
+  if (value === undefined || value === null || value === "") return { seed: null };
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_COMBAT_LAB_SEED) {
+    return { seed: null, error: `seed must be an integer between 0 and ${MAX_COMBAT_LAB_SEED}` };
+  }
+  return { seed: parsed };
+}
+
+export function parseMaxRounds(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || value === "" || !Number.isFinite(parsed)) return COMBAT_LAB_MAX_ROUNDS;
+  return Math.max(1, Math.min(MAX_COMBAT_LAB_ROUNDS_LIMIT, Math.trunc(parsed)));
+}
+
+/** Reads the optional `{ targetHalfWidth, maxRuns }` adaptive stopping rule; null means a fixed run count. */
+export function parseConvergenceOptions(
+  body: CombatLabRunRequestBody,
+): { options: CombatConvergenceOptions | null; error?: string } {
+  if (body.convergence === undefined || body.convergence === null || body.convergence === false) {
+    return { options: null };
+  }
+  if (typeof body.convergence !== "object") {
+    return { options: null, error: "convergence must include targetHalfWidth and maxRuns" };
+  }
+  const raw = body.convergence as { targetHalfWidth?: unknown; maxRuns?: unknown };
+  const targetHalfWidth = typeof raw.targetHalfWidth === "number" ? raw.targetHalfWidth : Number(raw.targetHalfWidth);
+  if (!Number.isFinite(targetHalfWidth) || targetHalfWidth <= 0 || targetHalfWidth > 0.5) {
+    return { options: null, error: "convergence targetHalfWidth must be greater than 0 and at most 0.5" };
+  }
+  const maxRuns = typeof raw.maxRuns === "number" ? raw.maxRuns : Number(raw.maxRuns ?? 500);
+  return {
+    options: {
+      targetHalfWidth,
+      maxRuns: Number.isFinite(maxRuns) ? Math.max(1, Math.min(MAX_CONVERGENCE_RUNS, Math.trunc(maxRuns))) : 500,
+    },
+  };
+}
+
+export function parseTurnOrder(value: unknown): CombatTurnOrder {
+  return value === "playersFirst" ||
+    value === "monstersFirst" ||
+    value === "randomSeeded" ||
+    value === "alternatingByRound"
+    ? value
+    : "alternatingByRound";
+}
+
+export function parseGridConfig(body: CombatLabRunRequestBody): CombatGridConfig | null {
+  if (body.positioning !== "grid") return null;
+  const parsed = typeof body.gridStartingDistanceFeet === "number"
+    ? body.gridStartingDistanceFeet
+    : Number(body.gridStartingDistanceFeet);
+  return {
+    startingDistanceFeet: Number.isFinite(parsed)
+      ? Math.max(5, Math.min(300, Math.trunc(parsed)))
+      : DEFAULT_GRID_STARTING_DISTANCE_FEET,
+  };
+}
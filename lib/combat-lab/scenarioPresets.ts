@@ -0,0 +1,99 @@
+import type { CombatLabRunScenarioInput } from "./runHistory";
+import {
+  parseCharacterSelections,
+  parseGridConfig,
+  parseMaxRounds,
+  parseMonsterSelections,
+  parseRunCount,
+  parseSeed,
+  parseTurnOrder,
+  type CombatLabRunRequestBody,
+} from "./runRequest";
+import type { CombatTurnOrder } from "./types";
+
+export const MAX_SCENARIO_PRESET_NAME_LENGTH = 80;
+
+/** Everything needed to rerun a Combat Lab scenario; a null seed picks a fresh one per run. */
+export type CombatLabScenarioPresetDefinition = {
+  name: string;
+  runs: number;
+  seed: number | null;
+  maxRounds: number;
+  turnOrder: CombatTurnOrder;
+  scenarioInput: CombatLabRunScenarioInput;
+};
+
+export type CombatLabScenarioPreset = CombatLabScenarioPresetDefinition & {
+  id: string;
+  createdByUserId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CombatLabScenarioPresetBody = CombatLabRunRequestBody & {
+  name?: unknown;
+};
+
+export class ScenarioPresetError extends Error {
+  readonly code: "INVALID_PRESET";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioPresetError";
+    this.code = "INVALID_PRESET";
+  }
+}
+
+export function parseScenarioPresetName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name || name.length > MAX_SCENARIO_PRESET_NAME_LENGTH) {
+    throw new ScenarioPresetError(`Preset name must be 1 to ${MAX_SCENARIO_PRESET_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/** Validates a preset with the same rules as a run request, so a saved preset always runs. */
+export function parseScenarioPresetDefinition(body: CombatLabScenarioPresetBody): CombatLabScenarioPresetDefinition {
+  const name = parseScenarioPresetName(body.name);
+  const { selections: characters, error: characterError } = parseCharacterSelections(body);
+  const { selections: monsters, error: monsterError } = parseMonsterSelections(body);
+  const { seed, error: seedError } = parseSeed(body.seed);
+  const error = characterError ?? monsterError ?? seedError;
+  if (error) throw new ScenarioPresetError(error);
+  if (characters.length === 0 || monsters.length === 0) {
+    throw new ScenarioPresetError("A preset needs at least one character and one monster");
+  }
+  return {
+    name,
+    runs: parseRunCount(body.runs),
+    seed,
+    maxRounds: parseMaxRounds(body.maxRounds),
+    turnOrder: parseTurnOrder(body.turnOrder),
+    scenarioInput: { characters, monsters, grid: parseGridConfig(body) },
+  };
+}
+
+/** Turns a preset back into the run request fields it was saved from. */
+export function presetRunRequestBody(preset: CombatLabScenarioPresetDefinition): CombatLabRunRequestBody {
+  const grid = preset.scenarioInput.grid ?? null;
+  return {
+    characters: preset.scenarioInput.characters,
+    monsters: preset.scenarioInput.monsters,
+    runs: preset.runs,
+    turnOrder: preset.turnOrder,
+    positioning: grid ? "grid" : "abstract",
+    gridStartingDistanceFeet: grid?.startingDistanceFeet,
+    seed: preset.seed,
+    maxRounds: preset.maxRounds,
+  };
+}
+
+/** Picks "Name (copy)", then "Name (copy 2)" and so on, skipping names the campaign already uses. */
+export function duplicatePresetName(name: string, existingNames: Iterable<string>): string {
+  const taken = new Set(existingNames);
+  const base = name.slice(0, MAX_SCENARIO_PRESET_NAME_LENGTH - " (copy 999)".length);
+  for (let copy = 1; ; copy += 1) {
+    const candidate = `${base} (copy${copy === 1 ? "" : ` ${copy}`})`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
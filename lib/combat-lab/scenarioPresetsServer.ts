@@ -0,0 +1,153 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import {
+  duplicatePresetName,
+  parseScenarioPresetDefinition,
+  type CombatLabScenarioPreset,
+  type CombatLabScenarioPresetDefinition,
+} from "@/lib/combat-lab/scenarioPresets";
+import { prisma } from "@/prisma/client";
+
+const PRESET_LIST_LIMIT = 100;
+
+export class ScenarioPresetServiceError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "ScenarioPresetServiceError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const PRESET_SELECT = {
+  id: true,
+  name: true,
+  runs: true,
+  seed: true,
+  maxRounds: true,
+  turnOrder: true,
+  scenarioInputJson: true,
+  createdByUserId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CombatLabScenarioPresetSelect;
+
+type StoredPreset = Prisma.CombatLabScenarioPresetGetPayload<{ select: typeof PRESET_SELECT }>;
+
+function isUniqueConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function nameTaken(name: string) {
+  return new ScenarioPresetServiceError("PRESET_NAME_TAKEN", `A preset named "${name}" already exists`, 409);
+}
+
+/** Stored JSON goes back through the run request parsers, so presets pick up any tightened validation. */
+function toPreset(row: StoredPreset): CombatLabScenarioPreset {
+  const input = (row.scenarioInputJson && typeof row.scenarioInputJson === "object" ? row.scenarioInputJson : {}) as {
+    characters?: unknown;
+    monsters?: unknown;
+    grid?: { startingDistanceFeet?: unknown } | null;
+  };
+  const definition = parseScenarioPresetDefinition({
+    name: row.name,
+    characters: input.characters,
+    monsters: input.monsters,
+    runs: row.runs,
+    seed: row.seed,
+    maxRounds: row.maxRounds,
+    turnOrder: row.turnOrder,
+    positioning: input.grid ? "grid" : "abstract",
+    gridStartingDistanceFeet: input.grid?.startingDistanceFeet,
+  });
+  return {
+    ...definition,
+    id: row.id,
+    createdByUserId: row.createdByUserId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function listCombatLabScenarioPresets(campaignId: string): Promise<CombatLabScenarioPreset[]> {
+  const rows = await prisma.combatLabScenarioPreset.findMany({
+    where: { campaignId },
+    orderBy: { name: "asc" },
+    take: PRESET_LIST_LIMIT,
+    select: PRESET_SELECT,
+  });
+  return rows.map(toPreset);
+}
+
+export async function getCombatLabScenarioPreset(
+  campaignId: string,
+  presetId: string,
+): Promise<CombatLabScenarioPreset | null> {
+  const row = await prisma.combatLabScenarioPreset.findFirst({
+    where: { id: presetId, campaignId },
+    select: PRESET_SELECT,
+  });
+  return row ? toPreset(row) : null;
+}
+
+export async function createCombatLabScenarioPreset(params: {
+  campaignId: string;
+  userId: string;
+  definition: CombatLabScenarioPresetDefinition;
+}): Promise<CombatLabScenarioPreset> {
+  const { definition } = params;
+  try {
+    const row = await prisma.combatLabScenarioPreset.create({
+      data: {
+        campaignId: params.campaignId,
+        createdByUserId: params.userId,
+        name: definition.name,
+        runs: definition.runs,
+        seed: definition.seed,
+        maxRounds: definition.maxRounds,
+        turnOrder: definition.turnOrder,
+        scenarioInputJson: definition.scenarioInput as unknown as Prisma.InputJsonValue,
+      },
+      select: PRESET_SELECT,
+    });
+    return toPreset(row);
+  } catch (error) {
+    if (isUniqueConflict(error)) throw nameTaken(definition.name);
+    throw error;
+  }
+}
+
+export async function duplicateCombatLabScenarioPreset(params: {
+  campaignId: string;
+  presetId: string;
+  userId: string;
+  name?: string | null;
+}): Promise<CombatLabScenarioPreset> {
+  const source = await getCombatLabScenarioPreset(params.campaignId, params.presetId);
+  if (!source) throw new ScenarioPresetServiceError("PRESET_NOT_FOUND", "Preset not found", 404);
+  let name = params.name;
+  if (!name) {
+    const existing = await prisma.combatLabScenarioPreset.findMany({
+      where: { campaignId: params.campaignId, name: { startsWith: source.name } },
+      select: { name: true },
+    });
+    name = duplicatePresetName(source.name, existing.map((row) => row.name));
+  }
+  return createCombatLabScenarioPreset({
+    campaignId: params.campaignId,
+    userId: params.userId,
+    definition: { ...source, name },
+  });
+}
+
+export async function deleteCombatLabScenarioPreset(campaignId: string, presetId: string): Promise<boolean> {
+  const result = await prisma.combatLabScenarioPreset.deleteMany({
+    where: { id: presetId, campaignId },
+  });
+  return result.count > 0;
+}
@@ -0,0 +1,286 @@
+import { validateCombatTuningConfigValue } from "../config/combatTuningShared";
+import { createActorInstances } from "./combatState";
+import { runScenarioSuite } from "./reporting";
+import type { CombatActor, CombatScenario, CombatTurnOrder } from "./types";
+
+export const MAX_SWEEP_AXES = 3;
+export const MAX_SWEEP_AXIS_VALUES = 12;
+export const MAX_SWEEP_CELLS = 120;
+export const MAX_SWEEP_TOTAL_RUNS = 12000;
+
+const SWEEP_TURN_ORDERS: CombatTurnOrder[] = ["playersFirst", "monstersFirst", "alternatingByRound", "randomSeeded"];
+
+export type CombatSweepAxis =
+  | { kind: "monsterLevel"; values: number[] }
+  | { kind: "monsterQuantity"; values: number[] }
+  | { kind: "partySize"; values: number[] }
+  | { kind: "turnOrder"; values: CombatTurnOrder[] }
+  | { kind: "combatTuning"; key: string; values: number[] };
+
+export type CombatSweepAxisKind = CombatSweepAxis["kind"];
+
+export type CombatSweepValue = number | CombatTurnOrder;
+
+/** Inputs that change how actors are adapted, so the caller has to rebuild them from source rows. */
+export type CombatSweepActorOverrides = {
+  monsterLevel?: number;
+  combatTuning?: Record<string, number>;
+};
+
+export type CombatSweepActorBuilder = (overrides: CombatSweepActorOverrides) => {
+  players: CombatActor[];
+  monsters: CombatActor[];
+};
+
+export type CombatSweepCell = {
+  /** One value per axis, in axis order. */
+  coordinates: CombatSweepValue[];
+  playerCount: number;
+  monsterCount: number;
+  playerWinRate: number;
+  monsterWinRate: number;
+  stalemateRate: number;
+  medianRounds: number;
+  averageRounds: number;
+};
+
+export type CombatSweepResult = {
+  scenarioName: string;
+  axes: CombatSweepAxis[];
+  runsPerCell: number;
+  seed: number;
+  cells: CombatSweepCell[];
+};
+
+export class CombatSweepError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "CombatSweepError";
+    this.code = code;
+  }
+}
+
+export function describeSweepAxis(axis: CombatSweepAxis): string {
+  switch (axis.kind) {
+    case "monsterLevel":
+      return "Monster level";
+    case "monsterQuantity":
+      return "Monsters per group";
+    case "partySize":
+      return "Party size";
+    case "turnOrder":
+      return "Turn order";
+    case "combatTuning":
+      return `Tuning: ${axis.key}`;
+  }
+}
+
+export function countSweepCells(axes: CombatSweepAxis[]): number {
+  return axes.reduce((total, axis) => total * axis.values.length, 1);
+}
+
+function cartesian(axes: CombatSweepAxis[]): CombatSweepValue[][] {
+  return axes.reduce<CombatSweepValue[][]>(
+    (rows, axis) => rows.flatMap((row) => (axis.values as CombatSweepValue[]).map((value) => [...row, value])),
+    [[]],
+  );
+}
+
+// Instances created by createActorInstances share a baseActorId; collapse them back to one template
+// per group so quantity axes can re-expand them.
+function actorTemplates(actors: CombatActor[]): CombatActor[] {
+  const templates = new Map<string, CombatActor>();
+  for (const actor of actors) {
+    const groupId = actor.baseActorId ?? actor.id;
+    if (templates.has(groupId)) continue;
+    templates.set(groupId, {
+      ...actor,
+      id: groupId,
+      name: actor.displayGroupName ?? actor.name,
+      baseActorId: undefined,
+      instanceIndex: undefined,
+    });
+  }
+  return [...templates.values()];
+}
+
+function withMonsterQuantity(monsters: CombatActor[], quantity: number): CombatActor[] {
+  return actorTemplates(monsters).flatMap((template) => createActorInstances(template, quantity));
+}
+
+// Party size walks the distinct player templates in order, so a size above the roster repeats members.
+function withPartySize(players: CombatActor[], size: number): CombatActor[] {
+  const templates = actorTemplates(players);
+  if (templates.length === 0) return [];
+  const counts = templates.map((_, index) =>
+    Math.floor(size / templates.length) + (index < size % templates.length ? 1 : 0),
+  );
+  return templates.flatMap((template, index) =>
+    counts[index] > 0 ? createActorInstances(template, counts[index]) : [],
+  );
+}
+
+export function validateSweepAxes(axes: CombatSweepAxis[], runsPerCell: number) {
+  if (axes.length === 0) throw new CombatSweepError("NO_AXES", "Choose at least one axis to sweep.");
+  if (axes.length > MAX_SWEEP_AXES) {
+    throw new CombatSweepError("TOO_MANY_AXES", `A sweep can vary at most ${MAX_SWEEP_AXES} axes.`);
+  }
+  const kinds = new Set<string>();
+  for (const axis of axes) {
+    const identity = axis.kind === "combatTuning" ? `combatTuning:${axis.key}` : axis.kind;
+    if (kinds.has(identity)) {
+      throw new CombatSweepError("DUPLICATE_AXIS", `${describeSweepAxis(axis)} is swept more than once.`);
+    }
+    kinds.add(identity);
+    if (axis.values.length === 0) {
+      throw new CombatSweepError("EMPTY_AXIS", `${describeSweepAxis(axis)} needs at least one value.`);
+    }
+  }
+  const cellCount = countSweepCells(axes);
+  if (cellCount > MAX_SWEEP_CELLS) {
+    throw new CombatSweepError("TOO_MANY_CELLS", `A sweep is limited to ${MAX_SWEEP_CELLS} cells (got ${cellCount}).`);
+  }
+  if (cellCount * runsPerCell > MAX_SWEEP_TOTAL_RUNS) {
+    throw new CombatSweepError(
+      "TOO_MANY_RUNS",
+      `A sweep is limited to ${MAX_SWEEP_TOTAL_RUNS} total runs; lower the runs per cell or the number of values.`,
+    );
+  }
+}
+
+/**
+ * Runs the base scenario once per grid cell. Every cell reuses the base seed, so differences between
+ * neighbouring cells come from the swept parameter rather than from different dice.
+ */
+export function runScenarioSweep(params: {
+  base: CombatScenario;
+  axes: CombatSweepAxis[];
+  buildActors?: CombatSweepActorBuilder;
+}): CombatSweepResult {
+  const { base, axes, buildActors } = params;
+  validateSweepAxes(axes, base.runs);
+  if (!buildActors && axes.some((axis) => axis.kind === "monsterLevel" || axis.kind === "combatTuning")) {
+    throw new CombatSweepError(
+      "ACTOR_BUILDER_REQUIRED",
+      "Monster level and combat tuning sweeps need the source rows to rebuild actors.",
+    );
+  }
+
+  const builtActors = new Map<string, ReturnType<CombatSweepActorBuilder>>();
+  const cells = cartesian(axes).map((coordinates): CombatSweepCell => {
+    const overrides: CombatSweepActorOverrides = {};
+    let players = base.players;
+    let monsters = base.monsters;
+    let turnOrder = base.turnOrder;
+    axes.forEach((axis, index) => {
+      const value = coordinates[index];
+      if (axis.kind === "monsterLevel") overrides.monsterLevel = value as number;
+      if (axis.kind === "combatTuning") {
+        overrides.combatTuning = { ...overrides.combatTuning, [axis.key]: value as number };
+      }
+      if (axis.kind === "turnOrder") turnOrder = value as CombatTurnOrder;
+    });
+    if (buildActors && (overrides.monsterLevel !== undefined || overrides.combatTuning)) {
+      const cacheKey = JSON.stringify(overrides);
+      let built = builtActors.get(cacheKey);
+      if (!built) {
+        built = buildActors(overrides);
+        builtActors.set(cacheKey, built);
+      }
+      players = built.players;
+      monsters = built.monsters;
+    }
+    axes.forEach((axis, index) => {
+      if (axis.kind === "monsterQuantity") monsters = withMonsterQuantity(monsters, coordinates[index] as number);
+      if (axis.kind === "partySize") players = withPartySize(players, coordinates[index] as number);
+    });
+
+    const report = runScenarioSuite({ ...base, players, monsters, turnOrder });
+    return {
+      coordinates,
+      playerCount: players.length,
+      monsterCount: monsters.length,
+      playerWinRate: report.playerWinRate,
+      monsterWinRate: report.monsterWinRate,
+      stalemateRate: report.stalemateRate,
+      medianRounds: report.medianRounds,
+      averageRounds: report.averageRounds,
+    };
+  });
+
+  return { scenarioName: base.name, axes, runsPerCell: base.runs, seed: base.seed, cells };
+}
+
+function numberValues(value: unknown, min: number, max: number, label: string): number[] {
+  if (!Array.isArray(value)) throw new CombatSweepError("INVALID_AXIS", `${label} values must be a list.`);
+  const values = value.map((entry) => (typeof entry === "number" ? entry : Number(entry)));
+  if (values.some((entry) => !Number.isFinite(entry) || entry < min || entry > max)) {
+    throw new CombatSweepError("INVALID_AXIS", `${label} values must be between ${min} and ${max}.`);
+  }
+  return [...new Set(values)];
+}
+
+function integerValues(value: unknown, min: number, max: number, label: string): number[] {
+  const values = numberValues(value, min, max, label);
+  if (values.some((entry) => !Number.isInteger(entry))) {
+    throw new CombatSweepError("INVALID_AXIS", `${label} values must be whole numbers.`);
+  }
+  return values;
+}
+
+/** Parses the wire shape of the sweep axes; throws CombatSweepError on anything malformed. */
+export function parseSweepAxes(value: unknown): CombatSweepAxis[] {
+  if (!Array.isArray(value)) throw new CombatSweepError("INVALID_AXIS", "axes must be a list.");
+  const axes = value.map((entry): CombatSweepAxis => {
+    if (!entry || typeof entry !== "object") {
+      throw new CombatSweepError("INVALID_AXIS", "Each axis must include a kind and values.");
+    }
+    const raw = entry as { kind?: unknown; key?: unknown; values?: unknown };
+    let axis: CombatSweepAxis;
+    switch (raw.kind) {
+      case "monsterLevel":
+        axis = { kind: "monsterLevel", values: integerValues(raw.values, 1, 30, "Monster level") };
+        break;
+      case "monsterQuantity":
+        axis = { kind: "monsterQuantity", values: integerValues(raw.values, 1, 30, "Monster quantity") };
+        break;
+      case "partySize":
+        axis = { kind: "partySize", values: integerValues(raw.values, 1, 12, "Party size") };
+        break;
+      case "turnOrder": {
+        if (!Array.isArray(raw.values) || raw.values.some((order) => !SWEEP_TURN_ORDERS.includes(order))) {
+          throw new CombatSweepError("INVALID_AXIS", `Turn order values must be one of ${SWEEP_TURN_ORDERS.join(", ")}.`);
+        }
+        axis = { kind: "turnOrder", values: [...new Set(raw.values as CombatTurnOrder[])] };
+        break;
+      }
+      case "combatTuning": {
+        const key = typeof raw.key === "string" ? raw.key.trim() : "";
+        const values = numberValues(raw.values, 0, Number.MAX_SAFE_INTEGER, `Tuning ${key || "value"}`);
+        for (const candidate of values) {
+          const result = validateCombatTuningConfigValue(key, candidate);
+          if (!result.ok) {
+            throw new CombatSweepError(
+              "INVALID_AXIS",
+              `Tuning ${key || "key"} value ${candidate} is invalid: ${result.issue.requirement}.`,
+            );
+          }
+        }
+        axis = { kind: "combatTuning", key, values };
+        break;
+      }
+      default:
+        throw new CombatSweepError("INVALID_AXIS", `Unknown sweep axis: ${String(raw.kind)}.`);
+    }
+    if (axis.values.length > MAX_SWEEP_AXIS_VALUES) {
+      throw new CombatSweepError(
+        "INVALID_AXIS",
+        `${describeSweepAxis(axis)} is limited to ${MAX_SWEEP_AXIS_VALUES} values.`,
+      );
+    }
+    return axis;
+  });
+  return axes;
+}
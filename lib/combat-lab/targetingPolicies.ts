@@ -9,6 +9,7 @@ import {
   isVoluntaryMovementAction,
 } from "./combatState";
 import { expectedSuccesses } from "./dice";
+import { actorGridDistanceFeet, isTargetReachableThisTurn } from "./grid";
 import type { CombatAction, CombatActor, CombatPool, CombatState } from "./types";
 
 const UNIVERSAL_CLEANUP_ACTION: CombatAction = {
@@ -449,6 +450,139 @@ function weaponAttackActions(actions: CombatAction[]): CombatAction[] {
   );
 }
 
+const PROTECT_ALLY_HP_THRESHOLD = 0.6;
+const SMART_DEFEAT_BONUS = 1000;
+
+function isOffensiveAgainstEnemy(action: CombatAction): boolean {
+  return (
+    (action.targetPolicy === "enemy" || action.targetPolicy === "allEnemies") &&
+    (action.kind === "attack" || action.kind === "control" || action.kind === "debuff")
+  );
+}
+
+// A deliberately cheap estimate: the attacker's expected successes beyond the target's expected dodge,
+// scaled by potency and reduced by static protection. It ignores defence pools and responses.
+function expectedWoundsAgainst(actor: CombatActor, action: CombatAction, target: CombatActor): number {
+  const hits = expectedSuccesses(action.diceCount, actor.attributeDice[action.accuracyAttribute] ?? "D8");
+  const dodged = expectedSuccesses(target.dodgeDice ?? target.dodgeValue, target.attributeDice.Guard ?? "D8");
+  const protection = action.pool === "mental" ? target.mentalProtection : target.physicalProtection;
+  return Math.max(0, (hits - dodged) * Math.max(1, action.potency) - protection);
+}
+
+function lookaheadScore(actor: CombatActor, action: CombatAction, target: CombatActor): number {
+  const hp = action.pool === "mental" ? target.mentalHpCurrent : target.physicalHpCurrent;
+  const wounds = expectedWoundsAgainst(actor, action, target);
+  if (hp > 0 && wounds >= hp) return SMART_DEFEAT_BONUS + threat(target) - hp;
+  return wounds / Math.max(1, hp);
+}
+
+function bestLookahead(
+  actor: CombatActor,
+  actions: CombatAction[],
+  state: CombatState,
+): { action: CombatAction; score: number } | null {
+  const enemies = getLivingActors(state, getOppositeSide(actor.side));
+  let best: { action: CombatAction; score: number } | null = null;
+  for (const action of actions) {
+    if (action.kind !== "attack" || !isOffensiveAgainstEnemy(action)) continue;
+    if (action.targetPolicy === "allEnemies") {
+      if (enemies.length === 0) continue;
+      const score = enemies.reduce((sum, enemy) => sum + lookaheadScore(actor, action, enemy), 0);
+      if (!best || score > best.score) best = { action, score };
+      continue;
+    }
+    for (const target of reachableOnGrid(actor, action, enemies, state)) {
+      const score = lookaheadScore(actor, action, target);
+      if (!best || score > best.score) best = { action, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Action overrides for actors with a named AI policy. Returning null falls through to the role-driven
+ * default, so a policy only has to describe where it differs.
+ */
+function choosePolicyAction(
+  actor: CombatActor,
+  state: CombatState,
+  lane: "main" | "power",
+  available: CombatAction[],
+): CombatAction | null {
+  const policy = actor.aiPolicy ?? "default";
+  if (policy === "protectAlly") {
+    const endangered = getLivingActors(state, actor.side).some((ally) => hpPercent(ally) < PROTECT_ALLY_HP_THRESHOLD);
+    if (!endangered) return null;
+    const heal = available.find((action) => action.kind === "healing");
+    if (heal) return heal;
+    return available.find(
+      (action) =>
+        (action.kind === "defence" || action.kind === "buff") &&
+        action.targetPolicy !== "self" &&
+        !actionAlreadyApplied(actor, action, state),
+    ) ?? null;
+  }
+  if (policy === "controlFirst") {
+    const enemies = getLivingActors(state, getOppositeSide(actor.side));
+    const opener = available
+      .filter(
+        (action) =>
+          (action.kind === "control" || action.kind === "debuff") &&
+          enemies.some((enemy) => !targetHasEquivalentEffect(enemy, action, state)),
+      )
+      .sort((a, b) => (b.kind === "control" ? 1 : 0) - (a.kind === "control" ? 1 : 0) || actionScore(b) - actionScore(a))[0];
+    return opener ?? null;
+  }
+  if (policy === "smart") {
+    const best = bestLookahead(actor, available, state);
+    if (!best) return null;
+    // In the power lane the role default still handles setup and support unless a kill is on the table.
+    if (lane === "power" && best.score < SMART_DEFEAT_BONUS) return null;
+    return best.action;
+  }
+  return null;
+}
+
+/** Target overrides for actors with a named AI policy; null falls through to the role-driven default. */
+function choosePolicyTarget(
+  actor: CombatActor,
+  action: CombatAction,
+  candidates: CombatActor[],
+  state: CombatState,
+): CombatActor | null {
+  const policy = actor.aiPolicy ?? "default";
+  if (policy === "default") return null;
+  const offensive = isOffensiveAgainstEnemy(action);
+  if (policy === "protectAlly" && !offensive && action.targetPolicy === "ally") {
+    return [...candidates].sort((a, b) => hpPercent(a) - hpPercent(b))[0] ?? null;
+  }
+  if (!offensive) return null;
+  switch (policy) {
+    case "focusLowestHealth":
+      return [...candidates].sort((a, b) =>
+        hpPercent(a) - hpPercent(b) ||
+        (a.physicalHpCurrent + a.mentalHpCurrent) - (b.physicalHpCurrent + b.mentalHpCurrent),
+      )[0] ?? null;
+    case "spreadDamage":
+      return [...candidates].sort((a, b) =>
+        (state.incomingActionsByTargetThisRound[a.id] ?? 0) - (state.incomingActionsByTargetThisRound[b.id] ?? 0) ||
+        hpPercent(b) - hpPercent(a),
+      )[0] ?? null;
+    case "protectAlly":
+      return [...candidates].sort((a, b) => threat(b) - threat(a) || hpPercent(a) - hpPercent(b))[0] ?? null;
+    case "controlFirst": {
+      if (action.kind === "attack") return null;
+      const fresh = candidates.filter((candidate) => !targetHasEquivalentEffect(candidate, action, state));
+      return [...(fresh.length > 0 ? fresh : candidates)].sort((a, b) => threat(b) - threat(a))[0] ?? null;
+    }
+    case "smart":
+      if (action.kind !== "attack") return null;
+      return [...candidates].sort(
+        (a, b) => lookaheadScore(actor, action, b) - lookaheadScore(actor, action, a),
+      )[0] ?? null;
+  }
+}
+
 export function chooseTurnAction(
   actor: CombatActor,
   state: CombatState,
@@ -457,6 +591,8 @@ export function chooseTurnAction(
   const available = readyActions(actor, state, lane).filter((action) => hasLegalTarget(actor, action, state));
   if (lane === "main" && shouldUseUniversalCleanup(actor, state, available)) return UNIVERSAL_CLEANUP_ACTION;
   if (available.length === 0) return null;
+  const policyAction = choosePolicyAction(actor, state, lane, available);
+  if (policyAction) return policyAction;
 
   if (lane === "main") {
     const weapon = weaponAttackActions(available).sort((a, b) => actionScore(b) - actionScore(a))[0];
@@ -544,18 +680,45 @@ export function chooseTurnAction(
   return available.find((action) => action.kind === "attack") ?? available[0] ?? null;
 }
 
+function nearestOnGrid(actor: CombatActor, candidates: CombatActor[], state: CombatState): CombatActor | null {
+  return [...candidates].sort(
+    (a, b) => (actorGridDistanceFeet(state, actor, a) ?? 0) - (actorGridDistanceFeet(state, actor, b) ?? 0),
+  )[0] ?? null;
+}
+
+// On the grid, prefer targets the actor can reach this turn; if none are reachable the actor still
+// picks by policy and closes distance toward that target.
+function reachableOnGrid(
+  actor: CombatActor,
+  action: CombatAction,
+  candidates: CombatActor[],
+  state: CombatState,
+): CombatActor[] {
+  if (!state.grid) return candidates;
+  const movementAllowed = !hasActiveMovementDenial(state, actor.id);
+  const reachable = candidates.filter((candidate) =>
+    isTargetReachableThisTurn(state, actor, action, candidate, movementAllowed),
+  );
+  return reachable.length > 0 ? reachable : candidates;
+}
+
 export function chooseTarget(actor: CombatActor, action: CombatAction, state: CombatState): CombatActor | null {
   if (action.runtimeCleanup) return actor;
   if (action.targetPolicy === "self") return actor;
   if (action.targetPolicy === "allAllies") return actor;
   if (action.targetPolicy === "allEnemies") {
-    return getLivingActors(state, getOppositeSide(actor.side))[0] ?? null;
+    const enemies = getLivingActors(state, getOppositeSide(actor.side));
+    return state.grid ? nearestOnGrid(actor, enemies, state) : enemies[0] ?? null;
   }
-  const candidates = getLivingActors(
+  const candidates = reachableOnGrid(
+    actor,
+    action,
+    getLivingActors(state, action.targetPolicy === "enemy" ? getOppositeSide(actor.side) : actor.side),
     state,
-    action.targetPolicy === "enemy" ? getOppositeSide(actor.side) : actor.side,
   );
   if (candidates.length === 0) return null;
+  const policyTarget = choosePolicyTarget(actor, action, candidates, state);
+  if (policyTarget) return policyTarget;
 
   if (action.kind === "healing") {
     return [...candidates].sort((a, b) => hpPercent(a) - hpPercent(b))[0] ?? null;
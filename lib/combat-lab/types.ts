@@ -10,6 +10,7 @@ import type {
 export type CombatSide = "players" | "monsters";
 export type CombatPool = "physical" | "mental";
 export type CombatTurnOrder = "playersFirst" | "monstersFirst" | "alternatingByRound" | "randomSeeded";
+export type CombatAiPolicy = "default" | "focusLowestHealth" | "spreadDamage" | "protectAlly" | "controlFirst" | "smart";
 export type CombatAttributeName =
   | "Attack"
   | "Guard"
@@ -72,6 +73,20 @@ export type UnsupportedPowerReason = {
   packetIntention?: string | null;
 };
 
+export type CombatAoeShape = "SPHERE" | "CONE" | "LINE";
+
+// Authored distances in feet, carried through so grid positioning can resolve reach and AoE areas.
+export type CombatActionGeometry = {
+  rangedDistanceFeet?: number | null;
+  aoeCount?: number | null;
+  aoeShape?: CombatAoeShape | null;
+  aoeCenterRangeFeet?: number | null;
+  aoeSphereRadiusFeet?: number | null;
+  aoeConeLengthFeet?: number | null;
+  aoeLineWidthFeet?: number | null;
+  aoeLineLengthFeet?: number | null;
+};
+
 export type CombatAction = {
   id: string;
   sourcePowerId?: string | null;
@@ -87,6 +102,7 @@ export type CombatAction = {
   pool?: CombatPool;
   rangeCategory?: "MELEE" | "RANGED" | "AOE" | null;
   targetCount?: number;
+  geometry?: CombatActionGeometry;
   damageTypeCount?: number;
   damageTypes?: string[];
   accuracyAttribute: CombatAttributeName;
@@ -154,6 +170,21 @@ export type CombatActorHydration = {
   fallbackActions: string[];
 };
 
+/** A precomputed boss form: the power actions and defence profile the actor switches to. */
+export type CombatActorPhase = {
+  /** 1-based; phase 0 is the opening form kept on the actor itself. */
+  index: number;
+  name: string;
+  triggerType: "RESILIENCE_PERCENT" | "ROUND";
+  triggerValue: number;
+  transitionText: string | null;
+  actions: CombatAction[];
+  dodgeValue: number;
+  dodgeDice: number;
+  physicalBlockPerSuccess: number;
+  mentalBlockPerSuccess: number;
+};
+
 export type CombatActor = {
   id: string;
   baseActorId?: string;
@@ -162,6 +193,7 @@ export type CombatActor = {
   side: CombatSide;
   name: string;
   role: CombatActorRole;
+  aiPolicy?: CombatAiPolicy;
   level: number;
   tier?: string | null;
   physicalHpCurrent: number;
@@ -182,7 +214,10 @@ export type CombatActor = {
   attributeDice: Record<CombatAttributeName, CombatDieSize>;
   resist: Partial<Record<CoreAttribute, number>>;
   actionsPerTurn: number;
+  speedFeet?: number;
   actions: CombatAction[];
+  phases?: CombatActorPhase[];
+  activePhaseIndex?: number;
   vrp?: CombatVrpEntry[];
   defensivePoolCommitmentMode?: CombatDefensivePoolCommitmentMode;
   defeatModel: CombatDefeatModel;
@@ -363,9 +398,31 @@ export type SemanticPassiveLifecycleTransition = {
   details?: Record<string, unknown>;
 };
 
+export type CombatPositioningMode = "abstract" | "grid";
+
+export type CombatGridPosition = {
+  x: number;
+  y: number;
+};
+
+export type CombatGridConfig = {
+  cellFeet?: number;
+  startingDistanceFeet?: number;
+  speedFeet?: number;
+  positions?: Record<string, CombatGridPosition>;
+};
+
+export type CombatGridState = {
+  cellFeet: number;
+  speedFeet: number;
+  positions: Record<string, CombatGridPosition>;
+  movementUsedFeet: Record<string, number>;
+};
+
 export type CombatState = {
   round: number;
   actors: CombatActor[];
+  grid?: CombatGridState | null;
   cooldowns: Record<string, CombatCooldownEntry>;
   semanticPassiveStates: Record<string, SemanticPassiveRuntimeState>;
   semanticPassiveTransitions: SemanticPassiveLifecycleTransition[];
@@ -380,6 +437,8 @@ export type CombatState = {
   statusEffects: CombatStatusEffect[];
   defensivePools: CombatDefensivePool[];
   captureTranscript: boolean;
+  /** Attach a state snapshot to every transcript event. */
+  captureSnapshots?: boolean;
   transcriptEvents: CombatTranscriptEvent[];
   transcriptLines: string[];
   transcriptTruncated: boolean;
@@ -477,6 +536,7 @@ export type CombatTranscriptEventType =
   | "debuffRoll"
   | "controlRoll"
   | "movementRoll"
+  | "gridMovement"
   | "cleanseRoll"
   | "defenceChoice"
   | "assistDeclared"
@@ -502,6 +562,9 @@ export type CombatTranscriptEventType =
   | "majorInjury"
   | "actorDefeated"
   | "defeatCleanup"
+  | "environmentalHazard"
+  | "objectiveProgress"
+  | "phaseTransition"
   | "combatEnd"
   | "turnEnd"
   | "roundEnd";
@@ -520,6 +583,41 @@ export type CombatTranscriptEvent = {
   message: string;
   roll?: CombatRollSummary;
   details?: Record<string, unknown>;
+  /** State after the event; only recorded for replays. */
+  snapshot?: CombatTranscriptSnapshot;
+};
+
+export type CombatTranscriptActorSnapshot = {
+  id: string;
+  name: string;
+  side: CombatSide;
+  defeated: boolean;
+  physicalHp: { current: number; max: number };
+  mentalHp: { current: number; max: number };
+  responsesRemaining: number;
+  cooldowns: Array<{ actionId: string; actionName: string; remaining: number }>;
+  statusEffects: Array<{
+    id: string;
+    kind: CombatStatusEffect["kind"];
+    attribute?: CombatAttributeName;
+    pool?: CombatPool;
+    amount: number;
+    remainingRounds: number;
+    sourceActionName?: string;
+  }>;
+  defensivePools: Array<{
+    id: string;
+    poolType: CombatDefensivePoolType;
+    remainingPoints: number;
+    initialPoints: number;
+    remainingRounds: number;
+    sourceActionName: string;
+  }>;
+};
+
+export type CombatTranscriptSnapshot = {
+  round: number;
+  actors: CombatTranscriptActorSnapshot[];
 };
 
 export type CombatTranscript = {
@@ -599,6 +697,7 @@ export type CombatResolutionMetrics = {
   aoePotentialTargets: number;
   aoeActualTargets: number;
   positionalAbstractionsUsed: number;
+  gridForcedMovementFeet: number;
   ongoingPressure: CombatOngoingPressureMetrics;
   defensivePools: CombatDefensivePoolMetrics;
 };
@@ -721,12 +820,22 @@ export type CombatRunResult = {
   scenarioName: string;
   winner: CombatSide | "stalemate";
   rounds: number;
-  stoppedBy: "playersDefeated" | "monstersDefeated" | "maxRounds" | "stalemate";
+  stoppedBy:
+    | "playersDefeated"
+    | "monstersDefeated"
+    | "objectiveCompleted"
+    | "objectiveFailed"
+    | "maxRounds"
+    | "stalemate";
   survivors: Record<CombatSide, number>;
   survivorActorIds: Record<CombatSide, string[]>;
   winnerHealthRemainingPercent: number;
   metrics: CombatAggregateMetrics;
   firstRunTranscript?: CombatTranscript;
+  /** The objective that ended the run, when an objective did. */
+  objectiveOutcome?: CombatObjectiveOutcome;
+  /** End-of-run state of every scenario objective; absent when the scenario has none. */
+  objectiveStates?: CombatObjectiveRunState[];
   unsupported: UnsupportedPowerSummary;
   log: CombatLogEntry[];
   offensiveContributionEvents: CombatOffensiveContributionEvent[];
@@ -760,10 +869,80 @@ export type CombatOffensiveContributionEvent = {
 export type CombatStoppedByBreakdown = {
   playersDefeated: number;
   monstersDefeated: number;
+  objectiveCompleted: number;
+  objectiveFailed: number;
   maxRounds: number;
   stalemate: number;
 };
 
+type CombatScenarioObjectiveBase = {
+  id: string;
+  label?: string;
+};
+
+/**
+ * Non-elimination win and loss paths. Hold and track objectives win for `side`; a protect
+ * objective loses for the protected actor's side when any matching actor is defeated; a hazard
+ * only applies pressure.
+ */
+export type CombatScenarioObjective =
+  | (CombatScenarioObjectiveBase & { kind: "holdRounds"; side: CombatSide; rounds: number })
+  | (CombatScenarioObjectiveBase & {
+      kind: "protectActor";
+      /** Actor id or base actor id; protected actors do not count towards their side's elimination. */
+      actorId: string;
+    })
+  | (CombatScenarioObjectiveBase & {
+      kind: "progressTrack";
+      side: CombatSide;
+      target: number;
+      progressPerAction?: number;
+      /** Actor ids or base actor ids whose actions advance the track; defaults to the whole side. */
+      actorIds?: string[];
+      /** Only these action ids advance the track; defaults to any action. */
+      actionIds?: string[];
+    })
+  | (CombatScenarioObjectiveBase & {
+      kind: "environmentalHazard";
+      pool: CombatPool;
+      woundsPerRound: number;
+      affects?: CombatSide | "both";
+      startRound?: number;
+    });
+
+export type CombatScenarioObjectiveKind = CombatScenarioObjective["kind"];
+
+export type CombatObjectiveOutcome = {
+  objectiveId: string;
+  kind: CombatScenarioObjectiveKind;
+  label: string;
+  result: "completed" | "failed";
+  winner: CombatSide;
+};
+
+export type CombatObjectiveRunState = {
+  objectiveId: string;
+  kind: CombatScenarioObjectiveKind;
+  label: string;
+  status: "active" | "completed" | "failed";
+  /** Rounds held or track points gained; zero for protect and hazard objectives. */
+  progress: number;
+  target: number | null;
+  hazardWounds: Record<CombatSide, number>;
+};
+
+export type CombatObjectiveSuiteSummary = {
+  objectiveId: string;
+  kind: CombatScenarioObjectiveKind;
+  label: string;
+  /** Share of runs this objective ended by completing or failing. */
+  completedRate: number;
+  failedRate: number;
+  averageProgress: number;
+  target: number | null;
+  averageHazardWounds: Record<CombatSide, number>;
+};
+
 export type CombatAggregateMetrics = {
   damageDealt: Record<CombatSide, number>;
   healingDone: Record<CombatSide, number>;
@@ -844,6 +1023,9 @@ export type CombatAggregateMetrics = {
   aoePotentialTargets: Record<CombatSide, number>;
   aoeActualTargets: Record<CombatSide, number>;
   positionalAbstractionsUsed: Record<CombatSide, number>;
+  gridMovementFeet: Record<CombatSide, number>;
+  gridForcedMovementFeet: Record<CombatSide, number>;
+  gridOutOfRangeActions: Record<CombatSide, number>;
   actorContributions: Record<string, CombatActorContribution>;
   defensiveContributions: Record<string, CombatDefensiveContribution>;
   cooldownTrace: Record<string, CombatCooldownTrace>;
@@ -888,6 +1070,7 @@ export type CombatActorContribution = {
   displayGroupName?: string;
   side: CombatSide;
   role: CombatActorRole;
+  aiPolicy: CombatAiPolicy;
   actionsUsed: number;
   damage: number;
   healing: number;
@@ -1040,15 +1223,24 @@ export type CombatScenario = {
   seed: number;
   maxRounds?: number;
   turnOrder?: CombatTurnOrder;
+  grid?: CombatGridConfig | null;
+  /** Per-actor policy overrides keyed by actor id or base actor id; these win over the actor's own policy. */
+  aiPolicies?: Record<string, CombatAiPolicy>;
+  /** Policy for actors that name none themselves. */
+  defaultAiPolicy?: CombatAiPolicy;
+  objectives?: CombatScenarioObjective[];
 };
 
 export type CombatSuiteReport = {
   scenarioName: string;
   runs: number;
+  positioning?: CombatPositioningMode;
   playerWinRate: number;
   monsterWinRate: number;
   stalemateRate: number;
   stoppedByBreakdown: CombatStoppedByBreakdown;
+  /** Per-objective outcome rates; present only for scenarios with objectives. */
+  objectives?: CombatObjectiveSuiteSummary[];
   averageRounds: number;
   medianRounds: number;
   p10Rounds: number;
@@ -1111,6 +1303,9 @@ export type CombatSuiteReport = {
     aoePotentialTargets: Record<CombatSide, number>;
     aoeActualTargets: Record<CombatSide, number>;
     positionalAbstractionsUsed: Record<CombatSide, number>;
+    gridMovementFeet: Record<CombatSide, number>;
+    gridForcedMovementFeet: Record<CombatSide, number>;
+    gridOutOfRangeActions: Record<CombatSide, number>;
     mainActionsUsed: Record<CombatSide, number>;
     powerActionsUsed: Record<CombatSide, number>;
     secondWeaponAttacksUsed: Record<CombatSide, number>;
@@ -1130,9 +1325,36 @@ export type CombatSuiteReport = {
   unsupported: UnsupportedPowerSummary;
   hydrationIntegrity: CombatHydrationIntegrity;
   defeatMetrics: CombatDefeatMetricsReport;
+  /** Missing on reports saved before intervals were recorded. */
+  confidence?: CombatSuiteConfidence;
+  /** Present when the suite ran until its win-rate intervals were narrow enough. */
+  convergence?: CombatSuiteConvergence;
   verdict: string;
 };
 
+export type CombatConfidenceInterval = { low: number; high: number };
+
+export type CombatSuiteConfidence = {
+  level: number;
+  /** Wilson score intervals. */
+  playerWinRate: CombatConfidenceInterval;
+  monsterWinRate: CombatConfidenceInterval;
+  stalemateRate: CombatConfidenceInterval;
+  /** Percentile bootstrap intervals over runs. */
+  bootstrapResamples: number;
+  averageRounds: CombatConfidenceInterval;
+  medianRounds: CombatConfidenceInterval;
+  averageDamagePerRound: Record<CombatSide, CombatConfidenceInterval>;
+};
+
+export type CombatSuiteConvergence = {
+  targetHalfWidth: number;
+  maxRuns: number;
+  converged: boolean;
+  /** Widest Wilson half-width across the three outcome rates when the suite stopped. */
+  finalHalfWidth: number;
+};
+
 export type CombatDefeatMetricSideReport = {
   sampleCount: number;
   avgMeaningfulActionsToDefeat: number | null;
@@ -1159,6 +1381,7 @@ export type CombatDefeatMetricsReport = {
 export type CombatMonsterGroupContribution = {
   baseActorId: string;
   displayGroupName: string;
+  aiPolicy: CombatAiPolicy;
   quantity: number;
   survivors: number;
   defeated: number;
@@ -0,0 +1,463 @@
+import "server-only";
+
+import { prisma } from "@/prisma/client";
+import {
+  compareForgeItemPricing,
+  sortForgeCostImpactEntries,
+  type ForgeCostConfigStatus,
+  type ForgeCostImpactEntry,
+  type ForgeCostImpactReport,
+  type ForgeCostSetListItem,
+  type ForgeCostSetSummary,
+} from "@/lib/config/forgeCostSetsShared";
+import {
+  calculateForgeTotals,
+  forgeFormValuesFromStoredItem,
+  forgeVrpEntriesFromStoredItem,
+  type ForgeCalculatorContext,
+  type ForgeCalculatorTotals,
+  type ForgeConfigRow,
+  type ForgeCostRow,
+} from "@/lib/forge/forgeCalculator";
+
+const DEFAULT_SET_NAME = "Forge Costs Default v1";
+const DEFAULT_SET_SLUG = "forge-costs-default-v1";
+
+const FORGE_COST_SET_COUNTS = {
+  _count: {
+    select: { costEntries: true, configEntries: true, pricedItems: true },
+  },
+} as const;
+
+// Mirrors the item editor's load so stored items price exactly as they do in the Forge.
+const FORGE_ITEM_PRICING_INCLUDE = {
+  Campaign: { select: { name: true } },
+  rangeCategories: true,
+  meleeDamageTypes: { include: { damageType: true } },
+  rangedDamageTypes: { include: { damageType: true } },
+  aoeDamageTypes: { include: { damageType: true } },
+  attackEffectsMelee: { include: { attackEffect: true } },
+  attackEffectsRanged: { include: { attackEffect: true } },
+  attackEffectsAoE: { include: { attackEffect: true } },
+  weaponAttributes: { include: { weaponAttribute: true } },
+  armorAttributes: { include: { armorAttribute: true } },
+  shieldAttributes: { include: { shieldAttribute: true } },
+  defEffects: { include: { defEffect: true } },
+  wardingOptions: { include: { wardingOption: true } },
+  sanctifiedOptions: { include: { sanctifiedOption: true } },
+  vrpEntries: { include: { damageType: true } },
+} as const;
+
+type ForgeCostSetRow = {
+  id: string;
+  name: string;
+  slug: string;
+  status: ForgeCostConfigStatus;
+  notes: string | null;
+  updatedAt: Date;
+  activatedAt: Date | null;
+  _count: { costEntries: number; configEntries: number; pricedItems: number };
+};
+
+function trimOptionalText(value?: string | null): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .replace(/-{2,}/g, "-");
+  return slug || "forge-costs";
+}
+
+function makeDraftSlug(baseSlug: string): string {
+  const now = new Date();
+  const timestamp = [
+    now.getUTCFullYear(),
+    String(now.getUTCMonth() + 1).padStart(2, "0"),
+    String(now.getUTCDate()).padStart(2, "0"),
+    String(now.getUTCHours()).padStart(2, "0"),
+    String(now.getUTCMinutes()).padStart(2, "0"),
+    String(now.getUTCSeconds()).padStart(2, "0"),
+  ].join("");
+  return `${slugify(baseSlug)}-draft-${timestamp}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function toListItem(set: ForgeCostSetRow): ForgeCostSetListItem {
+  return {
+    id: set.id,
+    name: set.name,
+    slug: set.slug,
+    status: set.status,
+    notes: set.notes,
+    updatedAt: set.updatedAt.toISOString(),
+    activatedAt: set.activatedAt?.toISOString() ?? null,
+    costEntryCount: set._count.costEntries,
+    configEntryCount: set._count.configEntries,
+    pricedItemCount: set._count.pricedItems,
+  };
+}
+
+function toSummary(set: ForgeCostSetListItem): ForgeCostSetSummary {
+  return {
+    setId: set.id,
+    name: set.name,
+    slug: set.slug,
+    status: set.status,
+    updatedAt: set.updatedAt,
+  };
+}
+
+function getStatusRank(status: ForgeCostConfigStatus): number {
+  if (status === "ACTIVE") return 0;
+  if (status === "DRAFT") return 1;
+  return 2;
+}
+
+async function fetchActiveForgeCostSet() {
+  return prisma.forgeCostConfigSet.findFirst({
+    where: { status: "ACTIVE" },
+    orderBy: [{ activatedAt: "desc" }, { updatedAt: "desc" }],
+    include: FORGE_COST_SET_COUNTS,
+  });
+}
+
+async function requireForgeCostSet(id: string): Promise<ForgeCostSetListItem> {
+  const set = await prisma.forgeCostConfigSet.findUnique({
+    where: { id },
+    include: FORGE_COST_SET_COUNTS,
+  });
+  if (!set) throw new Error("FORGE_COST_SET_NOT_FOUND");
+  return toListItem(set);
+}
+
+async function loadForgeCostRows(setId: string): Promise<{ config: ForgeConfigRow[]; costs: ForgeCostRow[] }> {
+  const [config, costs] = await Promise.all([
+    prisma.forgeConfigEntry.findMany({ where: { configSetId: setId } }),
+    prisma.forgeCostEntry.findMany({ where: { configSetId: setId } }),
+  ]);
+  return { config, costs };
+}
+
+/**
+ * Returns the ACTIVE set, reactivating or creating the seed set if none is active.
+ * The seed migration attaches all pre-existing rows to the seed set.
+ */
+export async function ensureActiveForgeCostSet(): Promise<ForgeCostSetListItem> {
+  const existingActive = await fetchActiveForgeCostSet();
+  if (existingActive) return toListItem(existingActive);
+
+  const existingSeed = await prisma.forgeCostConfigSet.findUnique({
+    where: { slug: DEFAULT_SET_SLUG },
+    select: { id: true },
+  });
+  if (existingSeed) {
+    await prisma.forgeCostConfigSet.update({
+      where: { id: existingSeed.id },
+      data: { status: "ACTIVE", activatedAt: new Date() },
+    });
+    return requireForgeCostSet(existingSeed.id);
+  }
+
+  const created = await prisma.forgeCostConfigSet.create({
+    data: {
+      name: DEFAULT_SET_NAME,
+      slug: DEFAULT_SET_SLUG,
+      status: "ACTIVE",
+      activatedAt: new Date(),
+    },
+    select: { id: true },
+  });
+  return requireForgeCostSet(created.id);
+}
+
+export async function getActiveForgeCostSetId(): Promise<string> {
+  return (await ensureActiveForgeCostSet()).id;
+}
+
+export async function getForgeCostSetById(id: string): Promise<ForgeCostSetListItem | null> {
+  const set = await prisma.forgeCostConfigSet.findUnique({
+    where: { id },
+    include: FORGE_COST_SET_COUNTS,
+  });
+  return set ? toListItem(set) : null;
+}
+
+/** Throws FORGE_COST_SET_NOT_FOUND, or FORGE_COST_SET_NOT_EDITABLE unless the set is a DRAFT. */
+export async function requireDraftForgeCostSet(id: string): Promise<ForgeCostSetListItem> {
+  const set = await requireForgeCostSet(id);
+  if (set.status !== "DRAFT") throw new Error("FORGE_COST_SET_NOT_EDITABLE");
+  return set;
+}
+
+export async function listForgeCostSets(): Promise<ForgeCostSetListItem[]> {
+  await ensureActiveForgeCostSet();
+  const sets = await prisma.forgeCostConfigSet.findMany({
+    include: FORGE_COST_SET_COUNTS,
+    orderBy: [{ updatedAt: "desc" }],
+  });
+
+  return sets
+    .slice()
+    .sort((a, b) => {
+      const statusDelta = getStatusRank(a.status) - getStatusRank(b.status);
+      if (statusDelta !== 0) return statusDelta;
+      return b.updatedAt.getTime() - a.updatedAt.getTime();
+    })
+    .map(toListItem);
+}
+
+/** Copies every cost and config row of the ACTIVE set into a new DRAFT set. */
+export async function createDraftForgeCostSetFromActive(params?: {
+  name?: string;
+  notes?: string;
+}): Promise<ForgeCostSetListItem> {
+  const activeSet = await ensureActiveForgeCostSet();
+
+  const createdId = await prisma.$transaction(async (tx) => {
+    const created = await tx.forgeCostConfigSet.create({
+      data: {
+        name: trimOptionalText(params?.name) ?? `${activeSet.name} Draft`,
+        slug: makeDraftSlug(activeSet.slug),
+        status: "DRAFT",
+        notes: trimOptionalText(params?.notes) ?? trimOptionalText(activeSet.notes),
+      },
+      select: { id: true },
+    });
+
+    const [costEntries, configEntries] = await Promise.all([
+      tx.forgeCostEntry.findMany({ where: { configSetId: activeSet.id }, orderBy: { id: "asc" } }),
+      tx.forgeConfigEntry.findMany({ where: { configSetId: activeSet.id }, orderBy: { id: "asc" } }),
+    ]);
+
+    await tx.forgeCostEntry.createMany({
+      data: costEntries.map((entry) => ({
+        configSetId: created.id,
+        category: entry.category,
+        selector1: entry.selector1,
+        selector2: entry.selector2,
+        selector3: entry.selector3,
+        value: entry.value,
+        notes: entry.notes,
+      })),
+    });
+    await tx.forgeConfigEntry.createMany({
+      data: configEntries.map((entry) => ({
+        configSetId: created.id,
+        category: entry.category,
+        selector1: entry.selector1,
+        selector2: entry.selector2,
+        value: entry.value,
+      })),
+    });
+
+    return created.id;
+  });
+
+  return requireForgeCostSet(createdId);
+}
+
+/** Bumps the set's updatedAt after its rows are edited. */
+export async function touchForgeCostSet(setId: string): Promise<void> {
+  await prisma.forgeCostConfigSet.update({
+    where: { id: setId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+export async function activateForgeCostSet(setId: string): Promise<ForgeCostSetListItem> {
+  const set = await requireForgeCostSet(setId);
+  if (set.status !== "DRAFT") throw new Error("FORGE_COST_SET_NOT_DRAFT");
+
+  await prisma.$transaction(async (tx) => {
+    await tx.forgeCostConfigSet.updateMany({
+      where: { status: "ACTIVE" },
+      data: {
+        status: "DRAFT",
+        activatedAt: null,
+      },
+    });
+    await tx.forgeCostConfigSet.update({
+      where: { id: setId },
+      data: {
+        status: "ACTIVE",
+        activatedAt: new Date(),
+      },
+    });
+  });
+
+  return requireForgeCostSet(setId);
+}
+
+export async function archiveForgeCostSet(setId: string): Promise<ForgeCostSetListItem> {
+  const set = await requireForgeCostSet(setId);
+
+  if (set.status === "ACTIVE") {
+    const otherActive = await prisma.forgeCostConfigSet.findFirst({
+      where: {
+        status: "ACTIVE",
+        id: { not: setId },
+      },
+      select: { id: true },
+    });
+
+    if (!otherActive) {
+      throw new Error("FORGE_COST_ACTIVE_ARCHIVE_REQUIRES_REPLACEMENT");
+    }
+  }
+
+  if (set.status !== "ARCHIVED") {
+    await prisma.forgeCostConfigSet.update({
+      where: { id: setId },
+      data: { status: "ARCHIVED" },
+    });
+  }
+
+  return requireForgeCostSet(setId);
+}
+
+export async function unarchiveForgeCostSet(setId: string): Promise<ForgeCostSetListItem> {
+  const set = await requireForgeCostSet(setId);
+  if (set.status !== "ARCHIVED") throw new Error("FORGE_COST_SET_NOT_ARCHIVED");
+
+  await prisma.forgeCostConfigSet.update({
+    where: { id: setId },
+    data: {
+      status: "DRAFT",
+      activatedAt: null,
+    },
+  });
+
+  return requireForgeCostSet(setId);
+}
+
+/** Entries cascade with the set; items priced under it keep their price and lose the set link. */
+export async function deleteArchivedForgeCostSet(setId: string): Promise<void> {
+  const set = await requireForgeCostSet(setId);
+  if (set.status !== "ARCHIVED") throw new Error("FORGE_COST_SET_NOT_ARCHIVED");
+
+  await prisma.forgeCostConfigSet.delete({
+    where: { id: setId },
+  });
+}
+
+async function loadForgeCalculatorPicklists(): Promise<Omit<ForgeCalculatorContext, "vrpEntries">> {
+  const [
+    damageTypes,
+    attackEffects,
+    defEffects,
+    weaponAttributes,
+    armorAttributes,
+    shieldAttributes,
+    wardingOptions,
+    sanctifiedOptions,
+  ] = await Promise.all([
+    prisma.damageType.findMany({ orderBy: { name: "asc" } }),
+    prisma.attackEffect.findMany({
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        tooltip: true,
+        damageTypeLinks: { select: { damageTypeId: true } },
+      },
+    }),
+    prisma.defEffect.findMany({ orderBy: { name: "asc" }, select: { id: true, name: true, tooltip: true } }),
+    prisma.weaponAttribute.findMany({ orderBy: { name: "asc" } }),
+    prisma.armorAttribute.findMany({ orderBy: { name: "asc" } }),
+    prisma.shieldAttribute.findMany({ orderBy: { name: "asc" } }),
+    prisma.wardingOption.findMany({ orderBy: { name: "asc" } }),
+    prisma.sanctifiedOption.findMany({ orderBy: { name: "asc" } }),
+  ]);
+
+  return {
+    damageTypes: damageTypes as ForgeCalculatorContext["damageTypes"],
+    attackEffects: attackEffects.map((row) => ({
+      id: row.id,
+      name: row.name,
+      tooltip: row.tooltip,
+      damageTypeIds: row.damageTypeLinks.map((link) => link.damageTypeId),
+    })),
+    defEffects,
+    weaponAttributes: weaponAttributes as ForgeCalculatorContext["weaponAttributes"],
+    armorAttributes: armorAttributes as ForgeCalculatorContext["armorAttributes"],
+    shieldAttributes: shieldAttributes as ForgeCalculatorContext["shieldAttributes"],
+    wardingOptions,
+    sanctifiedOptions,
+  };
+}
+
+/**
+ * Re-prices every stored item under the ACTIVE set and under the given set and lists the
+ * items whose budget or spend would change. Throws FORGE_COST_SET_NOT_FOUND.
+ */
+export async function buildForgeCostImpactReport(draftSetId: string): Promise<ForgeCostImpactReport> {
+  const draftSet = await requireForgeCostSet(draftSetId);
+  const activeSet = await ensureActiveForgeCostSet();
+
+  const [picklists, activeRows, draftRows, items] = await Promise.all([
+    loadForgeCalculatorPicklists(),
+    loadForgeCostRows(activeSet.id),
+    loadForgeCostRows(draftSet.id),
+    prisma.itemTemplate.findMany({
+      include: FORGE_ITEM_PRICING_INCLUDE,
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  const entries: ForgeCostImpactEntry[] = [];
+  for (const item of items) {
+    const values = forgeFormValuesFromStoredItem(item);
+    const context: ForgeCalculatorContext = { ...picklists, vrpEntries: forgeVrpEntriesFromStoredItem(item) };
+    const entry = compareForgeItemPricing(
+      {
+        itemId: item.id,
+        name: item.name,
+        campaignId: item.campaignId,
+        campaignName: item.Campaign?.name ?? null,
+        type: String(item.type),
+        rarity: String(item.rarity),
+        level: item.level,
+        pricedUnderSetId: item.forgeCostSetId ?? null,
+      },
+      calculateForgeTotals(values, activeRows.config, activeRows.costs, context),
+      calculateForgeTotals(values, draftRows.config, draftRows.costs, context),
+    );
+    if (entry) entries.push(entry);
+  }
+
+  return {
+    activeSet: toSummary(activeSet),
+    draftSet: toSummary(draftSet),
+    scannedItems: items.length,
+    entries: sortForgeCostImpactEntries(entries),
+  };
+}
+
+/** Prices the given stored items under the ACTIVE set, keyed by item id. */
+export async function calculateActiveForgeTotals(itemIds: string[]): Promise<Map<string, ForgeCalculatorTotals>> {
+  if (itemIds.length === 0) return new Map();
+  const activeSet = await ensureActiveForgeCostSet();
+  const [picklists, activeRows, items] = await Promise.all([
+    loadForgeCalculatorPicklists(),
+    loadForgeCostRows(activeSet.id),
+    prisma.itemTemplate.findMany({
+      where: { id: { in: itemIds } },
+      include: FORGE_ITEM_PRICING_INCLUDE,
+    }),
+  ]);
+
+  const totals = new Map<string, ForgeCalculatorTotals>();
+  for (const item of items) {
+    const context: ForgeCalculatorContext = { ...picklists, vrpEntries: forgeVrpEntriesFromStoredItem(item) };
+    totals.set(
+      item.id,
+      calculateForgeTotals(forgeFormValuesFromStoredItem(item), activeRows.config, activeRows.costs, context),
+    );
+  }
+  return totals;
+}
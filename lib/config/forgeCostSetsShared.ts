@@ -0,0 +1,93 @@
+export type ForgeCostConfigStatus = "DRAFT" | "ACTIVE" | "ARCHIVED";
+
+export type ForgeCostSetListItem = {
+  id: string;
+  name: string;
+  slug: string;
+  status: ForgeCostConfigStatus;
+  notes: string | null;
+  updatedAt: string;
+  activatedAt: string | null;
+  costEntryCount: number;
+  configEntryCount: number;
+  /** Items whose last save was priced under this set. */
+  pricedItemCount: number;
+};
+
+export type ForgeCostSetSummary = {
+  setId: string;
+  name: string;
+  slug: string;
+  status: ForgeCostConfigStatus;
+  updatedAt: string;
+};
+
+export type ForgeItemPriceSnapshot = {
+  totalFp: number;
+  spentFp: number;
+  remainingFp: number;
+};
+
+export type ForgeCostImpactEntry = {
+  itemId: string;
+  name: string;
+  campaignId: string;
+  campaignName: string | null;
+  type: string;
+  rarity: string;
+  level: number;
+  /** The set the item was last saved under; null for items saved before sets existed. */
+  pricedUnderSetId: string | null;
+  before: ForgeItemPriceSnapshot;
+  after: ForgeItemPriceSnapshot;
+  spentDelta: number;
+  /** True when the item fits its budget now but would be over budget under the draft. */
+  becomesOverBudget: boolean;
+};
+
+export type ForgeCostImpactReport = {
+  activeSet: ForgeCostSetSummary;
+  draftSet: ForgeCostSetSummary;
+  scannedItems: number;
+  entries: ForgeCostImpactEntry[];
+};
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function priceSnapshot(totals: ForgeItemPriceSnapshot): ForgeItemPriceSnapshot {
+  return {
+    totalFp: round(totals.totalFp),
+    spentFp: round(totals.spentFp),
+    remainingFp: round(totals.remainingFp),
+  };
+}
+
+/** Returns the report row for an item whose budget or spend moves between two sets, else null. */
+export function compareForgeItemPricing(
+  item: Omit<ForgeCostImpactEntry, "before" | "after" | "spentDelta" | "becomesOverBudget">,
+  beforeTotals: ForgeItemPriceSnapshot,
+  afterTotals: ForgeItemPriceSnapshot,
+): ForgeCostImpactEntry | null {
+  const before = priceSnapshot(beforeTotals);
+  const after = priceSnapshot(afterTotals);
+  if (before.totalFp === after.totalFp && before.spentFp === after.spentFp) return null;
+  return {
+    ...item,
+    before,
+    after,
+    spentDelta: round(after.spentFp - before.spentFp),
+    becomesOverBudget: before.remainingFp >= 0 && after.remainingFp < 0,
+  };
+}
+
+/** Items pushed over budget first, then the biggest price moves, then by name. */
+export function sortForgeCostImpactEntries(entries: ForgeCostImpactEntry[]): ForgeCostImpactEntry[] {
+  return [...entries].sort(
+    (a, b) =>
+      Number(b.becomesOverBudget) - Number(a.becomesOverBudget) ||
+      Math.abs(b.spentDelta) - Math.abs(a.spentDelta) ||
+      a.name.localeCompare(b.name),
+  );
+}
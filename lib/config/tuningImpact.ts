@@ -0,0 +1,208 @@
+import "server-only";
+
+import { normalizeBuilderData } from "@/lib/characterBuilder/core";
+import {
+  signatureMovePointPool,
+  summarizeCharacterPowers,
+  type CharacterPower,
+  type CharacterPowerBudget,
+} from "@/lib/characterBuilder/powers";
+import { loadMonsterEquipmentById, MONSTER_COMBATANT_INCLUDE } from "@/lib/combat-lab/campaignCombatantsServer";
+import { monsterPowersWithDerivedCooldowns } from "@/lib/combat-lab/liveAdapters";
+import {
+  buildMonsterRadarContext,
+  loadMonsterTraitWeights,
+  storedMonsterRadarAxes,
+  type MonsterRadarContext,
+  type StoredMonsterRow,
+} from "@/lib/combat-lab/monsterRadarServer";
+import { ensureCharacterBuilderTuning } from "@/lib/config/characterBuilderTuning";
+import { ensureSeedCombatTuningSet, getCombatTuningSetById } from "@/lib/config/combatTuning";
+import {
+  getActiveOutcomeNormalizationSet,
+  getOutcomeNormalizationSetById,
+} from "@/lib/config/outcomeNormalization";
+import type { OutcomeNormalizationFlatValues } from "@/lib/config/outcomeNormalizationShared";
+import { ensureSeedPowerTuningSet, getPowerTuningSetById } from "@/lib/config/powerTuning";
+import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import {
+  compareCharacterImpact,
+  compareMonsterImpact,
+  sortTuningImpactEntries,
+  type CharacterImpactSnapshot,
+  type MonsterImpactSnapshot,
+  type TuningImpactEntry,
+  type TuningImpactKind,
+  type TuningImpactReport,
+} from "@/lib/config/tuningImpactShared";
+import type { SummoningEquipmentItem } from "@/lib/summoning/equipment";
+import { resolvePowerCosts } from "@/lib/summoning/powerCostResolver";
+import type { MonsterTier } from "@/lib/summoning/types";
+import { prisma } from "@/prisma/client";
+
+type TuningValues = {
+  combatTuningValues: Record<string, unknown>;
+  outcomeNormalizationValues: OutcomeNormalizationFlatValues | null;
+  powerTuning: PowerTuningSnapshot;
+};
+
+function monsterSnapshot(row: StoredMonsterRow, context: MonsterRadarContext): MonsterImpactSnapshot {
+  const radarAxes = storedMonsterRadarAxes(row, context);
+  try {
+    const { powers } = monsterPowersWithDerivedCooldowns({ row, powers: row.powers, powerTuning: context.powerTuning });
+    const resolved = resolvePowerCosts(powers, context.powerTuning, { level: row.level, tier: row.tier as MonsterTier });
+    return {
+      radarAxes,
+      powers: resolved.powers.map((power) => ({
+        name: power.name,
+        basePowerValue: power.breakdown.basePowerValue,
+        derivedCooldownTurns: power.derivedCooldownTurns,
+        cooldownBracket: power.derivedCooldown.cooldownBracket,
+      })),
+      error: null,
+    };
+  } catch (error) {
+    return { radarAxes, powers: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function poolSnapshot(budget: CharacterPowerBudget) {
+  return { powerPool: budget.powerPool, totalSpent: budget.totalSpent, overspent: budget.overspent };
+}
+
+function characterSnapshot(
+  level: number,
+  builderData: { powers: CharacterPower[]; signatureMove: CharacterPower | null },
+  powerTuning: PowerTuningSnapshot,
+  playerPowerSpendScalar: number,
+): CharacterImpactSnapshot {
+  const normal = summarizeCharacterPowers({
+    level,
+    powers: builderData.powers,
+    tuningSnapshot: powerTuning,
+    playerPowerSpendScalar,
+  });
+  const signature = builderData.signatureMove
+    ? summarizeCharacterPowers({
+        level,
+        powers: [builderData.signatureMove],
+        tuningSnapshot: powerTuning,
+        playerPowerSpendScalar,
+        powerPool: signatureMovePointPool(level),
+        powerPoolKind: "signature",
+        offencePressureMode: "reviewOnly",
+      })
+    : null;
+  const summaries = [...normal.powers, ...(signature?.powers ?? [])];
+  return {
+    normal: poolSnapshot(normal),
+    signature: signature ? poolSnapshot(signature) : null,
+    powers: summaries.map((summary) => ({
+      name: summary.power.name,
+      basePowerValue: summary.basePowerValue ?? 0,
+      derivedCooldownTurns: summary.derivedCooldownTurns ?? 0,
+      cooldownBracket: null,
+    })),
+    invalidPowers: summaries.filter((summary) => !summary.costValid).length,
+  };
+}
+
+async function loadDraftTuningValues(kind: TuningImpactKind, draftSetId: string, active: TuningValues) {
+  if (kind === "combat") {
+    const draft = await getCombatTuningSetById(draftSetId);
+    return draft ? { ...active, combatTuningValues: draft.values as Record<string, unknown> } : null;
+  }
+  if (kind === "power") {
+    const draft = await getPowerTuningSetById(draftSetId);
+    return draft ? { ...active, powerTuning: draft } : null;
+  }
+  const draft = await getOutcomeNormalizationSetById(draftSetId);
+  return draft ? { ...active, outcomeNormalizationValues: draft.values } : null;
+}
+
+/**
+ * Dry-runs a tuning set against every CORE and campaign monster and every active character.
+ * Only the set of the given kind is swapped; the other kinds stay on their active sets.
+ * Throws TUNING_SET_NOT_FOUND.
+ */
+export async function buildTuningImpactReport(
+  kind: TuningImpactKind,
+  draftSetId: string,
+): Promise<TuningImpactReport> {
+  const [combatTuning, powerTuning, outcomeNormalization, characterBuilderTuning, monsters, characters] =
+    await Promise.all([
+      ensureSeedCombatTuningSet(),
+      ensureSeedPowerTuningSet(),
+      getActiveOutcomeNormalizationSet(),
+      ensureCharacterBuilderTuning(),
+      prisma.monster.findMany({ include: MONSTER_COMBATANT_INCLUDE, orderBy: { name: "asc" } }),
+      prisma.campaignCharacter.findMany({
+        where: { archivedAt: null },
+        select: { id: true, name: true, campaignId: true, level: true, builderData: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+  const active: TuningValues = {
+    combatTuningValues: combatTuning.values as Record<string, unknown>,
+    outcomeNormalizationValues: outcomeNormalization?.values ?? null,
+    powerTuning,
+  };
+  const draft = await loadDraftTuningValues(kind, draftSetId, active);
+  if (!draft) throw new Error("TUNING_SET_NOT_FOUND");
+
+  // Item templates are campaign scoped; CORE monsters carry no campaign gear.
+  const campaignIds = Array.from(
+    new Set(monsters.map((monster) => monster.campaignId).filter((id): id is string => Boolean(id))),
+  );
+  const equipmentById = new Map<string, SummoningEquipmentItem>();
+  for (const campaignId of campaignIds) {
+    const campaignMonsters = monsters.filter((monster) => monster.campaignId === campaignId);
+    for (const [id, item] of await loadMonsterEquipmentById(campaignId, campaignMonsters)) {
+      equipmentById.set(id, item);
+    }
+  }
+  const traits = await loadMonsterTraitWeights(monsters);
+  const beforeContext = buildMonsterRadarContext({ ...active, equipmentById, traits });
+  const afterContext = buildMonsterRadarContext({ ...draft, equipmentById, traits });
+
+  const entries: TuningImpactEntry[] = [];
+  for (const monster of monsters) {
+    const entry = compareMonsterImpact(
+      {
+        entityType: "monster",
+        id: monster.id,
+        name: monster.name,
+        campaignId: monster.campaignId,
+        source: monster.source,
+      },
+      monsterSnapshot(monster, beforeContext),
+      monsterSnapshot(monster, afterContext),
+    );
+    if (entry) entries.push(entry);
+  }
+
+  // Character power budgets only read the power tuning set.
+  const spendScalar = characterBuilderTuning.playerPowerSpendScalar;
+  if (kind === "power") {
+    for (const character of characters) {
+      const level = Math.max(1, Math.trunc(character.level || 1));
+      const builderData = normalizeBuilderData(character.builderData);
+      const entry = compareCharacterImpact(
+        { entityType: "character", id: character.id, name: character.name, campaignId: character.campaignId, source: null },
+        characterSnapshot(level, builderData, active.powerTuning, spendScalar),
+        characterSnapshot(level, builderData, draft.powerTuning, spendScalar),
+      );
+      if (entry) entries.push(entry);
+    }
+  }
+
+  return {
+    kind,
+    activeSetId:
+      kind === "combat" ? combatTuning.setId : kind === "power" ? powerTuning.setId : (outcomeNormalization?.setId ?? null),
+    draftSetId,
+    scanned: { monsters: monsters.length, characters: kind === "power" ? characters.length : 0 },
+    entries: sortTuningImpactEntries(entries),
+    warnings: Array.from(new Set([...beforeContext.warnings, ...afterContext.warnings])),
+  };
+}
@@ -0,0 +1,217 @@
+import type { RadarAxes } from "@/lib/calculators/monsterOutcomeCalculator";
+import type { DerivedPowerCooldownBracket } from "@/lib/summoning/powerCostResolver";
+
+export const TUNING_IMPACT_KINDS = ["combat", "power", "outcomeNormalization"] as const;
+export type TuningImpactKind = (typeof TUNING_IMPACT_KINDS)[number];
+
+/** Radar points (0-10 scale) an axis must move before the monster is flagged. */
+export const TUNING_IMPACT_RADAR_SHIFT_WARNING = 1;
+/** Cooldown brackets past this one mean a monster power no longer fits its tier. */
+const MAX_FITTING_BRACKET: DerivedPowerCooldownBracket = "heavy";
+const BRACKET_ORDER: DerivedPowerCooldownBracket[] = ["light", "moderate", "heavy", "extreme", "overExtreme"];
+const RADAR_AXIS_KEYS: Array<keyof RadarAxes> = [
+  "physicalThreat",
+  "mentalThreat",
+  "physicalSurvivability",
+  "mentalSurvivability",
+  "manipulation",
+  "synergy",
+  "mobility",
+  "presence",
+];
+
+export type TuningImpactPowerSnapshot = {
+  name: string;
+  basePowerValue: number;
+  derivedCooldownTurns: number;
+  cooldownBracket: DerivedPowerCooldownBracket | null;
+};
+
+export type MonsterImpactSnapshot = {
+  radarAxes: RadarAxes | null;
+  powers: TuningImpactPowerSnapshot[];
+  /** Set when the powers could not be costed under this set. */
+  error: string | null;
+};
+
+export type CharacterPoolSnapshot = {
+  powerPool: number;
+  totalSpent: number;
+  overspent: boolean;
+};
+
+export type CharacterImpactSnapshot = {
+  normal: CharacterPoolSnapshot;
+  signature: CharacterPoolSnapshot | null;
+  powers: TuningImpactPowerSnapshot[];
+  /** Number of powers whose cost could not be resolved. */
+  invalidPowers: number;
+};
+
+export type TuningImpactChange = {
+  metric: string;
+  before: number | string | null;
+  after: number | string | null;
+  delta: number | null;
+};
+
+export type TuningImpactCrossingCode =
+  | "RADAR_SHIFT"
+  | "POWER_OVER_TIER"
+  | "POWER_POOL_OVERSPENT"
+  | "SIGNATURE_POOL_OVERSPENT"
+  | "COSTING_FAILED";
+
+export type TuningImpactCrossing = { code: TuningImpactCrossingCode; message: string };
+
+export type TuningImpactEntity = {
+  entityType: "monster" | "character";
+  id: string;
+  name: string;
+  campaignId: string | null;
+  source: "CORE" | "CAMPAIGN" | null;
+};
+
+export type TuningImpactEntry = TuningImpactEntity & {
+  changes: TuningImpactChange[];
+  crossings: TuningImpactCrossing[];
+};
+
+export type TuningImpactReport = {
+  kind: TuningImpactKind;
+  activeSetId: string | null;
+  draftSetId: string;
+  scanned: { monsters: number; characters: number };
+  /** Only entities where something moved, flagged entities first. */
+  entries: TuningImpactEntry[];
+  warnings: string[];
+};
+
+export function parseTuningImpactKind(value: unknown): TuningImpactKind | null {
+  return TUNING_IMPACT_KINDS.find((kind) => kind === value) ?? null;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function numberChange(metric: string, before: number, after: number): TuningImpactChange | null {
+  const delta = round(after - before);
+  return delta === 0 ? null : { metric, before: round(before), after: round(after), delta };
+}
+
+function bracketFits(bracket: DerivedPowerCooldownBracket | null) {
+  return bracket === null || BRACKET_ORDER.indexOf(bracket) <= BRACKET_ORDER.indexOf(MAX_FITTING_BRACKET);
+}
+
+function comparePowers(before: TuningImpactPowerSnapshot[], after: TuningImpactPowerSnapshot[]) {
+  const changes: TuningImpactChange[] = [];
+  before.forEach((power, index) => {
+    const next = after[index];
+    if (!next) return;
+    const label = power.name || `Power ${index + 1}`;
+    const value = numberChange(`${label} power value`, power.basePowerValue, next.basePowerValue);
+    if (value) changes.push(value);
+    const cooldown = numberChange(`${label} cooldown`, power.derivedCooldownTurns, next.derivedCooldownTurns);
+    if (cooldown) changes.push(cooldown);
+    if (power.cooldownBracket !== next.cooldownBracket) {
+      changes.push({
+        metric: `${label} cooldown bracket`,
+        before: power.cooldownBracket,
+        after: next.cooldownBracket,
+        delta: null,
+      });
+    }
+  });
+  return changes;
+}
+
+export function compareMonsterImpact(
+  entity: TuningImpactEntity,
+  before: MonsterImpactSnapshot,
+  after: MonsterImpactSnapshot,
+): TuningImpactEntry | null {
+  const changes: TuningImpactChange[] = [];
+  const crossings: TuningImpactCrossing[] = [];
+
+  if (before.radarAxes && after.radarAxes) {
+    for (const axis of RADAR_AXIS_KEYS) {
+      const change = numberChange(axis, before.radarAxes[axis], after.radarAxes[axis]);
+      if (!change) continue;
+      changes.push(change);
+      if (Math.abs(change.delta ?? 0) >= TUNING_IMPACT_RADAR_SHIFT_WARNING) {
+        crossings.push({ code: "RADAR_SHIFT", message: `${axis} moves ${change.before} -> ${change.after}` });
+      }
+    }
+  }
+  changes.push(...comparePowers(before.powers, after.powers));
+  before.powers.forEach((power, index) => {
+    const next = after.powers[index];
+    if (next && bracketFits(power.cooldownBracket) && !bracketFits(next.cooldownBracket)) {
+      crossings.push({
+        code: "POWER_OVER_TIER",
+        message: `${power.name} rises to a ${next.cooldownBracket} cooldown bracket`,
+      });
+    }
+  });
+  if (!before.error && after.error) {
+    crossings.push({ code: "COSTING_FAILED", message: after.error });
+  }
+
+  return changes.length > 0 || crossings.length > 0 ? { ...entity, changes, crossings } : null;
+}
+
+export function compareCharacterImpact(
+  entity: TuningImpactEntity,
+  before: CharacterImpactSnapshot,
+  after: CharacterImpactSnapshot,
+): TuningImpactEntry | null {
+  const changes: TuningImpactChange[] = [];
+  const crossings: TuningImpactCrossing[] = [];
+
+  const spent = numberChange("power points spent", before.normal.totalSpent, after.normal.totalSpent);
+  if (spent) changes.push(spent);
+  if (!before.normal.overspent && after.normal.overspent) {
+    crossings.push({
+      code: "POWER_POOL_OVERSPENT",
+      message: `Spends ${round(after.normal.totalSpent)} of a ${after.normal.powerPool} point pool`,
+    });
+  }
+  if (before.signature && after.signature) {
+    const signature = numberChange(
+      "signature move points spent",
+      before.signature.totalSpent,
+      after.signature.totalSpent,
+    );
+    if (signature) changes.push(signature);
+    if (!before.signature.overspent && after.signature.overspent) {
+      crossings.push({
+        code: "SIGNATURE_POOL_OVERSPENT",
+        message: `Signature move spends ${round(after.signature.totalSpent)} of ${after.signature.powerPool}`,
+      });
+    }
+  }
+  changes.push(...comparePowers(before.powers, after.powers));
+  if (after.invalidPowers > before.invalidPowers) {
+    crossings.push({
+      code: "COSTING_FAILED",
+      message: `${after.invalidPowers - before.invalidPowers} more power(s) fail to cost`,
+    });
+  }
+
+  return changes.length > 0 || crossings.length > 0 ? { ...entity, changes, crossings } : null;
+}
+
+function largestDelta(entry: TuningImpactEntry) {
+  return entry.changes.reduce((max, change) => Math.max(max, Math.abs(change.delta ?? 0)), 0);
+}
+
+/** Flagged entries first, then the biggest movers, then by name. */
+export function sortTuningImpactEntries(entries: TuningImpactEntry[]): TuningImpactEntry[] {
+  return [...entries].sort(
+    (a, b) =>
+      Number(b.crossings.length > 0) - Number(a.crossings.length > 0) ||
+      largestDelta(b) - largestDelta(a) ||
+      a.name.localeCompare(b.name),
+  );
+}
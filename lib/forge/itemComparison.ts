@@ -0,0 +1,451 @@
+import type { ProtectionTuningValues } from "@/lib/config/combatTuningShared";
+import {
+  EQUIPMENT_SLOT_LABELS,
+  EQUIPMENT_SLOTS,
+  isBackpackItemLegalForEquipmentSlot,
+  sanitizeEquippedSlots,
+  type CharacterBuilderData,
+  type EquipmentBackpackItemForRules,
+  type EquipmentSlotKey,
+  type EquippedSlotsState,
+} from "@/lib/characterBuilder/core";
+import {
+  buildCharacterDerivedCombatStats,
+  type CharacterBuilderDerivedBackpackItem,
+  type CharacterDerivedCombatStats,
+} from "@/lib/characterBuilder/derivedStats";
+import {
+  summarizeEquipmentItem,
+  type CharacterBuilderEquipmentItemSource,
+} from "@/lib/characterBuilder/equipment";
+import {
+  forgeFormValuesFromStoredItem,
+  getAttributeDynamicPricingMagnitude,
+  getAttributeValueMagnitude,
+  type AttributePricingMode,
+  type ForgeFormValues,
+} from "./forgeCalculator";
+import {
+  compareForgeOutputToBands,
+  type ForgeFeatureWeightContext,
+  type ForgeOutputBandComparison,
+} from "./outputBands";
+import {
+  buildForgeOutputProfile,
+  type ForgeOutputProfile,
+  type ForgeOutputProfileInput,
+  type ForgeOutputProfileKind,
+} from "./outputProfile";
+
+export const MIN_COMPARE_ITEMS = 2;
+export const MAX_COMPARE_ITEMS = 4;
+
+/** Backpack id given to the compared item when it is slotted into a character's loadout. */
+export const COMPARE_CANDIDATE_BACKPACK_ITEM_ID = "__FORGE_COMPARE__";
+
+/** An item as returned by `GET /api/forge/items` (join rows included). */
+export type ForgeCompareItem = CharacterBuilderEquipmentItemSource & {
+  rangeCategories?: Array<{ rangeCategory?: string | null }> | null;
+  tags?: string[] | null;
+};
+
+type StoredAttributeRow = {
+  id?: number | null;
+  name?: string | null;
+  pricingMode?: string | null;
+  pricingScalar?: number | string | null;
+};
+
+export type ForgeItemComparisonColumn = {
+  item: ForgeCompareItem;
+  profile: ForgeOutputProfile;
+  bands: ForgeOutputBandComparison;
+};
+
+export type ForgeCompareAttackFact = {
+  profileKind: ForgeOutputProfileKind;
+  physicalWoundsPerSuccess: number;
+  mentalWoundsPerSuccess: number;
+  totalWoundsPerSuccess: number;
+  targetCount: number;
+  damageTypeNames: string[];
+};
+
+export type ForgeCompareFacts = {
+  attacks: ForgeCompareAttackFact[];
+  ppv: number;
+  mpv: number;
+  rangedDistanceFeet: number | null;
+  aoeSummary: string | null;
+};
+
+export const FORGE_COMPARE_STATS = [
+  { key: "physicalHealth", label: "Physical Health" },
+  { key: "mentalHealth", label: "Mental Health" },
+  { key: "weaponSkill", label: "Weapon Skill" },
+  { key: "armorSkill", label: "Armor Skill" },
+  { key: "willpower", label: "Willpower" },
+  { key: "dodgeDice", label: "Dodge Dice" },
+  { key: "physicalProtection", label: "Physical Protection" },
+  { key: "mentalProtection", label: "Mental Protection" },
+  { key: "physicalBlockPerSuccess", label: "Physical Block / Success" },
+  { key: "mentalBlockPerSuccess", label: "Mental Block / Success" },
+] as const satisfies ReadonlyArray<{ key: keyof CharacterDerivedCombatStats; label: string }>;
+
+export type ForgeCompareStatKey = (typeof FORGE_COMPARE_STATS)[number]["key"];
+
+export type ForgeCompareStatDelta = {
+  key: ForgeCompareStatKey;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+};
+
+export type ForgeItemSwapComparison = {
+  slot: EquipmentSlotKey;
+  slotLabel: string;
+  /** Items the compared item pushes out of the loadout, including an off-hand a two-hander displaces. */
+  replacedItemNames: string[];
+  before: CharacterDerivedCombatStats;
+  after: CharacterDerivedCombatStats;
+  statDeltas: ForgeCompareStatDelta[];
+};
+
+type SlotRulesTemplate = {
+  type: string | null;
+  size: string | null;
+  armorLocation: string | null;
+  itemLocation?: string | null;
+};
+
+/** Drops duplicate and blank ids and keeps at most MAX_COMPARE_ITEMS, in pick order. */
+export function normalizeCompareSelection(itemIds: string[]): string[] {
+  const seen = new Set<string>();
+  for (const itemId of itemIds) {
+    const trimmed = itemId.trim();
+    if (!trimmed || seen.has(trimmed)) continue;
+    seen.add(trimmed);
+    if (seen.size >= MAX_COMPARE_ITEMS) break;
+  }
+  return [...seen];
+}
+
+function attributePricingInput(
+  row: StoredAttributeRow,
+  values: ForgeFormValues,
+) {
+  const pricingMode = String(row.pricingMode ?? "").trim().toUpperCase();
+  const pricingScalar =
+    typeof row.pricingScalar === "number"
+      ? row.pricingScalar
+      : typeof row.pricingScalar === "string"
+        ? Number(row.pricingScalar)
+        : null;
+  const hasScalar = pricingScalar !== null && Number.isFinite(pricingScalar);
+  const pricingMagnitude =
+    pricingMode && hasScalar
+      ? pricingMode === "ATTRIBUTE_VALUE"
+        ? getAttributeValueMagnitude(row.name)
+        : getAttributeDynamicPricingMagnitude(
+            values,
+            Number(row.id ?? 0),
+            pricingMode as AttributePricingMode,
+          )
+      : null;
+
+  return {
+    name: String(row.name ?? ""),
+    pricingMode: pricingMode || null,
+    pricingScalar: hasScalar ? pricingScalar : null,
+    pricingMagnitude,
+  };
+}
+
+function readGlobalAttributeModifiers(value: unknown): Array<{ attribute: string; amount: number }> {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return [];
+    const record = entry as { attribute?: unknown; amount?: unknown };
+    const attribute = typeof record.attribute === "string" ? record.attribute.trim() : "";
+    const amount = Number(record.amount);
+    return attribute && Number.isFinite(amount) ? [{ attribute, amount }] : [];
+  });
+}
+
+/**
+ * Output profile input for a stored item. Attribute pricing magnitudes are resolved the same way
+ * the Forge editor resolves them for the item being edited.
+ */
+export function forgeOutputProfileInputFromStoredItem(item: ForgeCompareItem): ForgeOutputProfileInput {
+  const values = forgeFormValuesFromStoredItem(item);
+
+  return {
+    level: item.level,
+    rarity: item.rarity,
+    type: item.type,
+    size: item.size,
+    armorLocation: item.armorLocation,
+    shieldHasAttack: item.shieldHasAttack ?? false,
+    rangeCategories: item.rangeCategories ?? [],
+    physicalStrength: item.physicalStrength,
+    mentalStrength: item.mentalStrength,
+    meleePhysicalStrength: item.meleePhysicalStrength,
+    meleeMentalStrength: item.meleeMentalStrength,
+    rangedPhysicalStrength: item.rangedPhysicalStrength,
+    rangedMentalStrength: item.rangedMentalStrength,
+    aoePhysicalStrength: item.aoePhysicalStrength,
+    aoeMentalStrength: item.aoeMentalStrength,
+    meleeTargets: item.meleeTargets,
+    rangedTargets: item.rangedTargets,
+    rangedDistanceFeet: item.rangedDistanceFeet,
+    aoeCenterRangeFeet: item.aoeCenterRangeFeet,
+    aoeCount: item.aoeCount,
+    aoeShape: item.aoeShape,
+    aoeSphereRadiusFeet: item.aoeSphereRadiusFeet,
+    aoeConeLengthFeet: item.aoeConeLengthFeet,
+    aoeLineWidthFeet: item.aoeLineWidthFeet,
+    aoeLineLengthFeet: item.aoeLineLengthFeet,
+    meleeDamageTypes: item.meleeDamageTypes,
+    rangedDamageTypes: item.rangedDamageTypes,
+    aoeDamageTypes: item.aoeDamageTypes,
+    attackEffectsMelee: item.attackEffectsMelee,
+    attackEffectsRanged: item.attackEffectsRanged,
+    attackEffectsAoE: item.attackEffectsAoE,
+    ppv: item.ppv,
+    mpv: item.mpv,
+    auraPhysical: item.auraPhysical,
+    auraMental: item.auraMental,
+    defEffects: item.defEffects,
+    armorAttributes: item.armorAttributes.map((row) =>
+      attributePricingInput(row.armorAttribute as StoredAttributeRow, values),
+    ),
+    shieldAttributes: item.shieldAttributes.map((row) =>
+      attributePricingInput(row.shieldAttribute as StoredAttributeRow, values),
+    ),
+    weaponAttributes: item.weaponAttributes.map((row) =>
+      attributePricingInput(row.weaponAttribute as StoredAttributeRow, values),
+    ),
+    vrpEntries: item.vrpEntries,
+    customWeaponAttributes: item.customWeaponAttributes,
+    customArmorAttributes: item.customArmorAttributes,
+    customShieldAttributes: item.customShieldAttributes,
+    customItemAttributes: item.customItemAttributes,
+    globalAttributeModifiers: readGlobalAttributeModifiers(item.globalAttributeModifiers),
+    tags: item.tags ?? [],
+  };
+}
+
+export function buildForgeItemComparisonColumns(
+  items: ForgeCompareItem[],
+  context?: ForgeFeatureWeightContext,
+): ForgeItemComparisonColumn[] {
+  return items.map((item) => {
+    const profile = buildForgeOutputProfile(forgeOutputProfileInputFromStoredItem(item));
+    return { item, profile, bands: compareForgeOutputToBands(profile, context) };
+  });
+}
+
+/** Same wording as the Forge descriptor, e.g. "2 × 10ft Spheres within 30ft". */
+function formatAoeSummary(aoe: NonNullable<ForgeOutputProfile["attackAccess"]["aoe"]>): string {
+  const count = aoe.count ?? 1;
+  const shape = aoe.shape ?? "SPHERE";
+  const noun = shape === "LINE" ? "Line" : shape === "CONE" ? "Cone" : "Sphere";
+  const geometry =
+    shape === "LINE"
+      ? aoe.lineLengthFeet && aoe.lineWidthFeet
+        ? `${aoe.lineLengthFeet}ft × ${aoe.lineWidthFeet}ft`
+        : ""
+      : shape === "CONE"
+        ? aoe.coneLengthFeet
+          ? `${aoe.coneLengthFeet}ft`
+          : ""
+        : aoe.sphereRadiusFeet
+          ? `${aoe.sphereRadiusFeet}ft`
+          : "";
+  const shapeText = `${geometry ? `${geometry} ` : ""}${noun}${count === 1 ? "" : "s"}`;
+  if (!aoe.centerRangeFeet) {
+    return `${count} × ${shapeText} ${shape === "SPHERE" ? "centered on yourself" : "emanating from yourself"}`;
+  }
+  return `${count} × ${shapeText} within ${aoe.centerRangeFeet}ft`;
+}
+
+/** The headline numbers a compare column shows before the band detail. */
+export function summarizeForgeCompareFacts(profile: ForgeOutputProfile): ForgeCompareFacts {
+  const attacks = profile.attackProfiles
+    .filter((attack) => attack.present && attack.totalWoundsPerSuccess > 0)
+    .map((attack) => ({
+      profileKind: attack.profileKind,
+      physicalWoundsPerSuccess: attack.totalPhysicalWoundsPerSuccess,
+      mentalWoundsPerSuccess: attack.totalMentalWoundsPerSuccess,
+      totalWoundsPerSuccess: attack.totalWoundsPerSuccess,
+      targetCount: attack.targetCount,
+      damageTypeNames: attack.damageTypeNames,
+    }));
+  const aoe = profile.attackAccess.aoe;
+
+  return {
+    attacks,
+    ppv: profile.defensiveProfile.ppv,
+    mpv: profile.defensiveProfile.mpv,
+    rangedDistanceFeet: profile.attackAccess.hasRangedAccess ? profile.attackAccess.rangedDistanceFeet : null,
+    aoeSummary: aoe?.enabled ? formatAoeSummary(aoe) : null,
+  };
+}
+
+function toDerivedBackpackItemTemplate(
+  item: ForgeCompareItem,
+): CharacterBuilderDerivedBackpackItem["itemTemplate"] {
+  const damageTypes = (rows: ForgeCompareItem["meleeDamageTypes"]) =>
+    rows.map((row) => ({
+      name: row.damageType.name,
+      mode: row.damageType.attackMode === "MENTAL" ? ("MENTAL" as const) : ("PHYSICAL" as const),
+    }));
+
+  return {
+    id: item.id,
+    name: item.name,
+    rarity: item.rarity,
+    level: item.level,
+    type: item.type,
+    size: item.size,
+    armorLocation: item.armorLocation,
+    itemLocation: item.itemLocation,
+    ppv: item.ppv,
+    mpv: item.mpv,
+    globalAttributeModifiers: readGlobalAttributeModifiers(item.globalAttributeModifiers),
+    meleeTargets: item.meleeTargets,
+    rangedTargets: item.rangedTargets,
+    rangedDistanceFeet: item.rangedDistanceFeet,
+    aoeCenterRangeFeet: item.aoeCenterRangeFeet,
+    aoeCount: item.aoeCount,
+    aoeShape: item.aoeShape,
+    aoeSphereRadiusFeet: item.aoeSphereRadiusFeet,
+    aoeConeLengthFeet: item.aoeConeLengthFeet,
+    aoeLineWidthFeet: item.aoeLineWidthFeet,
+    aoeLineLengthFeet: item.aoeLineLengthFeet,
+    physicalStrength: item.physicalStrength,
+    mentalStrength: item.mentalStrength,
+    meleePhysicalStrength: item.meleePhysicalStrength,
+    meleeMentalStrength: item.meleeMentalStrength,
+    rangedPhysicalStrength: item.rangedPhysicalStrength,
+    rangedMentalStrength: item.rangedMentalStrength,
+    aoePhysicalStrength: item.aoePhysicalStrength,
+    aoeMentalStrength: item.aoeMentalStrength,
+    meleeDamageTypes: damageTypes(item.meleeDamageTypes),
+    rangedDamageTypes: damageTypes(item.rangedDamageTypes),
+    aoeDamageTypes: damageTypes(item.aoeDamageTypes),
+    attackEffectsMelee: item.attackEffectsMelee.map((row) => row.attackEffect.name),
+    attackEffectsRanged: item.attackEffectsRanged.map((row) => row.attackEffect.name),
+    attackEffectsAoE: item.attackEffectsAoE.map((row) => row.attackEffect.name),
+    descriptorSections: summarizeEquipmentItem(item).descriptorSections,
+  };
+}
+
+function toRulesItem(id: string, quantity: number, template: SlotRulesTemplate): EquipmentBackpackItemForRules {
+  return {
+    id,
+    quantity,
+    itemTemplate: {
+      type: template.type,
+      size: template.size,
+      armorLocation: template.armorLocation,
+      itemLocation: template.itemLocation ?? null,
+    },
+  };
+}
+
+/** Equipment slots the item could be equipped in; empty for consumables and unslotted items. */
+export function getCompareSlotOptions(template: SlotRulesTemplate): EquipmentSlotKey[] {
+  const probe = toRulesItem(COMPARE_CANDIDATE_BACKPACK_ITEM_ID, 1, template);
+  return EQUIPMENT_SLOTS.filter((slot) => isBackpackItemLegalForEquipmentSlot(slot, probe));
+}
+
+/** Shields default to the off hand; everything else takes its first legal slot. */
+export function defaultCompareSlot(template: SlotRulesTemplate): EquipmentSlotKey | null {
+  const options = getCompareSlotOptions(template);
+  if (template.type === "SHIELD" && options.includes("offHand")) return "offHand";
+  return options[0] ?? null;
+}
+
+function isTwoHandedWeapon(template: SlotRulesTemplate | undefined) {
+  return template?.type === "WEAPON" && template.size === "TWO_HANDED";
+}
+
+/**
+ * Derived combat stats for the character as equipped, and again with the compared item in `slot`.
+ * Returns null when the item cannot go in that slot.
+ */
+export function buildItemSwapComparison(params: {
+  level: number;
+  builderData: CharacterBuilderData;
+  backpackItems: CharacterBuilderDerivedBackpackItem[];
+  item: ForgeCompareItem;
+  slot: EquipmentSlotKey;
+  protectionTuning?: ProtectionTuningValues;
+}): ForgeItemSwapComparison | null {
+  if (!getCompareSlotOptions(params.item).includes(params.slot)) return null;
+
+  const candidate: CharacterBuilderDerivedBackpackItem = {
+    id: COMPARE_CANDIDATE_BACKPACK_ITEM_ID,
+    quantity: 1,
+    itemTemplate: toDerivedBackpackItemTemplate(params.item),
+  };
+  const backpackItems = params.backpackItems.filter((entry) => entry.id !== COMPARE_CANDIDATE_BACKPACK_ITEM_ID);
+  const withCandidate = [...backpackItems, candidate];
+  const templatesById = new Map(withCandidate.map((entry) => [entry.id, entry.itemTemplate]));
+
+  const beforeSlots = sanitizeEquippedSlots(
+    params.builderData.equippedSlots,
+    backpackItems.map((entry) => toRulesItem(entry.id, entry.quantity, entry.itemTemplate)),
+  );
+  const nextSlots: EquippedSlotsState = { ...beforeSlots, [params.slot]: COMPARE_CANDIDATE_BACKPACK_ITEM_ID };
+  if (params.slot === "mainHand" && isTwoHandedWeapon(candidate.itemTemplate)) {
+    delete nextSlots.offHand;
+  }
+  if (params.slot === "offHand" && isTwoHandedWeapon(templatesById.get(beforeSlots.mainHand ?? ""))) {
+    delete nextSlots.mainHand;
+  }
+  const afterSlots = sanitizeEquippedSlots(
+    nextSlots,
+    withCandidate.map((entry) => toRulesItem(entry.id, entry.quantity, entry.itemTemplate)),
+  );
+
+  const replacedItemNames = [
+    ...new Set(
+      EQUIPMENT_SLOTS.flatMap((slot) => {
+        const beforeId = beforeSlots[slot];
+        if (!beforeId || beforeId === afterSlots[slot]) return [];
+        return [templatesById.get(beforeId)?.name?.trim() || "(Unnamed item)"];
+      }),
+    ),
+  ];
+
+  const before = buildCharacterDerivedCombatStats({
+    level: params.level,
+    builderData: { ...params.builderData, equippedSlots: beforeSlots },
+    backpackItems,
+    protectionTuning: params.protectionTuning,
+  });
+  const after = buildCharacterDerivedCombatStats({
+    level: params.level,
+    builderData: { ...params.builderData, equippedSlots: afterSlots },
+    backpackItems: withCandidate,
+    protectionTuning: params.protectionTuning,
+  });
+
+  return {
+    slot: params.slot,
+    slotLabel: EQUIPMENT_SLOT_LABELS[params.slot],
+    replacedItemNames,
+    before,
+    after,
+    statDeltas: FORGE_COMPARE_STATS.map(({ key, label }) => ({
+      key,
+      label,
+      before: before[key],
+      after: after[key],
+      delta: after[key] - before[key],
+    })),
+  };
+}
@@ -0,0 +1,421 @@
+import type { EquipmentSlotKey } from "@/lib/summoning/equipment";
+import {
+  MONSTER_CALCULATOR_ARCHETYPES,
+  type MonsterAttack,
+  type MonsterCalculatorArchetype,
+  type MonsterPhase,
+  type MonsterPhaseTrait,
+  type MonsterUpsertInput,
+  type Power,
+} from "@/lib/summoning/types";
+
+export const MONSTER_BUNDLE_FORMAT = "summoning-circle.monster-bundle";
+/** Version 2 added boss phases; version 1 bundles import with no phases. */
+export const MONSTER_BUNDLE_VERSION = 2;
+export const MAX_MONSTER_BUNDLE_SIZE = 100;
+
+export const MONSTER_BUNDLE_EQUIPMENT_SLOTS: EquipmentSlotKey[] = [
+  "mainHandItemId",
+  "offHandItemId",
+  "smallItemId",
+  "headArmorItemId",
+  "shoulderArmorItemId",
+  "torsoArmorItemId",
+  "legsArmorItemId",
+  "feetArmorItemId",
+  "headItemId",
+  "neckItemId",
+  "armsItemId",
+  "beltItemId",
+];
+
+/** Monster fields that travel verbatim; everything campaign-specific is carried by name instead. */
+const MONSTER_BUNDLE_SCALAR_FIELDS = [
+  "name",
+  "imageUrl",
+  "imagePosX",
+  "imagePosY",
+  "level",
+  "tier",
+  "legendary",
+  "calculatorArchetype",
+  "customNotes",
+  "limitBreakName",
+  "limitBreakTier",
+  "limitBreakTriggerText",
+  "limitBreakAttribute",
+  "limitBreakThresholdSuccesses",
+  "limitBreakCostText",
+  "limitBreakEffectText",
+  "limitBreak2Name",
+  "limitBreak2Tier",
+  "limitBreak2TriggerText",
+  "limitBreak2Attribute",
+  "limitBreak2ThresholdSuccesses",
+  "limitBreak2CostText",
+  "limitBreak2EffectText",
+  "physicalResilienceCurrent",
+  "physicalResilienceMax",
+  "mentalPerseveranceCurrent",
+  "mentalPerseveranceMax",
+  "physicalProtection",
+  "mentalProtection",
+  "naturalPhysicalProtection",
+  "naturalMentalProtection",
+  "attackDie",
+  "attackResistDie",
+  "attackModifier",
+  "guardDie",
+  "guardResistDie",
+  "guardModifier",
+  "fortitudeDie",
+  "fortitudeResistDie",
+  "fortitudeModifier",
+  "intellectDie",
+  "intellectResistDie",
+  "intellectModifier",
+  "synergyDie",
+  "synergyResistDie",
+  "synergyModifier",
+  "braveryDie",
+  "braveryResistDie",
+  "braveryModifier",
+  "weaponSkillValue",
+  "weaponSkillModifier",
+  "armorSkillValue",
+  "armorSkillModifier",
+] as const satisfies ReadonlyArray<keyof MonsterUpsertInput>;
+
+type MonsterBundleScalarField = (typeof MONSTER_BUNDLE_SCALAR_FIELDS)[number];
+
+export type MonsterBundleTrait = {
+  name: string;
+  effectText: string | null;
+};
+
+/** A boss phase with its trait changes carried by trait name, like the monster's own traits. */
+export type MonsterBundlePhase = Omit<MonsterPhase, "addTraits" | "removeTraits"> & {
+  addTraits: string[];
+  removeTraits: string[];
+};
+
+export type MonsterBundleMonster = Pick<MonsterUpsertInput, MonsterBundleScalarField | "naturalAttack"> & {
+  tags: string[];
+  traits: MonsterBundleTrait[];
+  attacks: MonsterAttack[];
+  /** Equipped item names keyed by slot; items are remapped by name in the importing campaign. */
+  equipment: Partial<Record<EquipmentSlotKey, string>>;
+  /** Powers keep their effect packets, defence gate, restriction, and schema/rules versions. */
+  powers: Power[];
+  phases: MonsterBundlePhase[];
+};
+
+export type MonsterBundle = {
+  format: typeof MONSTER_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  monsters: MonsterBundleMonster[];
+};
+
+/**
+ * A stored monster as the export reads it, with trait and tag rows still attached. The archetype
+ * column is plain text in the database, so it is narrowed when the bundle entry is built.
+ */
+export type MonsterBundleSource = Omit<
+  Pick<MonsterUpsertInput, MonsterBundleScalarField | EquipmentSlotKey>,
+  "calculatorArchetype"
+> & {
+  calculatorArchetype: string;
+  tags: Array<{ tag: string }>;
+  traits: Array<{ sortOrder: number; trait: { name: string; effectText: string | null } }>;
+  /** Every stored attack row; only NATURAL attacks are exported. */
+  attacks: Array<Pick<MonsterAttack, "sortOrder" | "attackName"> & { attackMode: string; attackConfig: unknown }>;
+  naturalAttack: { attackName: string; attackConfig: unknown } | null;
+  powers: Power[];
+  phases?: MonsterPhase[];
+};
+
+export type MonsterBundleConflictCode =
+  | "TRAIT_NOT_FOUND"
+  | "EQUIPMENT_NOT_FOUND"
+  | "EQUIPMENT_AMBIGUOUS"
+  | "POWER_VERSION_CHANGED";
+
+export type MonsterBundleConflict = {
+  code: MonsterBundleConflictCode;
+  path: string;
+  message: string;
+};
+
+export type MonsterBundleImportResult = {
+  index: number;
+  name: string;
+  /** `ready` is a dry-run pass; `conflict` means unresolved references held the monster back. */
+  status: "imported" | "ready" | "conflict" | "invalid";
+  monsterId: string | null;
+  error: string | null;
+  conflicts: MonsterBundleConflict[];
+};
+
+export type MonsterBundleLookups = {
+  traitIdsByName: Map<string, string>;
+  itemIdsByName: Map<string, string[]>;
+};
+
+export class MonsterBundleError extends Error {
+  readonly code: "INVALID_BUNDLE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MonsterBundleError";
+    this.code = "INVALID_BUNDLE";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function withoutId<T extends { id?: string }>(value: T): T {
+  const copy = { ...value };
+  delete copy.id;
+  return copy;
+}
+
+/** Drops database ids so an imported power gets fresh power and packet rows. */
+export function portablePower(power: Power): Power {
+  return {
+    ...withoutId(power),
+    effectPackets: power.effectPackets.map(withoutId),
+    ...(Array.isArray(power.intentions) ? { intentions: power.intentions.map(withoutId) } : {}),
+  };
+}
+
+function traitNames(traits: MonsterPhaseTrait[]): string[] {
+  return traits.flatMap((trait) => (trait.name ? [trait.name] : []));
+}
+
+export function buildMonsterBundleMonster(
+  monster: MonsterBundleSource,
+  itemNamesById: Map<string, string>,
+): MonsterBundleMonster {
+  const calculatorArchetype = MONSTER_CALCULATOR_ARCHETYPES.includes(
+    monster.calculatorArchetype as MonsterCalculatorArchetype,
+  )
+    ? (monster.calculatorArchetype as MonsterCalculatorArchetype)
+    : "BALANCED";
+  const scalars = {
+    ...(Object.fromEntries(MONSTER_BUNDLE_SCALAR_FIELDS.map((field) => [field, monster[field]])) as Pick<
+      MonsterUpsertInput,
+      MonsterBundleScalarField
+    >),
+    calculatorArchetype,
+  };
+  const naturalAttacks = monster.attacks.filter((attack) => attack.attackMode === "NATURAL");
+  // Older monsters only stored the single naturalAttack row.
+  const attacks: MonsterAttack[] = (
+    naturalAttacks.length > 0
+      ? naturalAttacks
+      : monster.naturalAttack
+        ? [{ sortOrder: 0, attackMode: "NATURAL" as const, ...monster.naturalAttack }]
+        : []
+  ).map((attack) => ({
+    sortOrder: attack.sortOrder,
+    attackMode: "NATURAL",
+    attackName: attack.attackName,
+    attackConfig: (attack.attackConfig ?? {}) as MonsterAttack["attackConfig"],
+  }));
+  const equipment: MonsterBundleMonster["equipment"] = {};
+  for (const slot of MONSTER_BUNDLE_EQUIPMENT_SLOTS) {
+    const itemId = monster[slot];
+    const itemName = itemId ? itemNamesById.get(itemId) : undefined;
+    if (itemName) equipment[slot] = itemName;
+  }
+  return {
+    ...scalars,
+    tags: monster.tags.map((row) => row.tag),
+    traits: [...monster.traits]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((row) => ({ name: row.trait.name, effectText: row.trait.effectText })),
+    attacks,
+    naturalAttack: attacks[0]
+      ? { attackName: attacks[0].attackName ?? "Natural Weapon", attackConfig: attacks[0].attackConfig ?? {} }
+      : null,
+    equipment,
+    powers: monster.powers.map(portablePower),
+    phases: (monster.phases ?? []).map((phase) => ({
+      ...phase,
+      addTraits: traitNames(phase.addTraits),
+      removeTraits: traitNames(phase.removeTraits),
+    })),
+  };
+}
+
+export function createMonsterBundle(monsters: MonsterBundleMonster[], exportedAt: Date): MonsterBundle {
+  return {
+    format: MONSTER_BUNDLE_FORMAT,
+    version: MONSTER_BUNDLE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    monsters,
+  };
+}
+
+/**
+ * Checks the bundle envelope. Individual monsters are not validated here; each one goes through
+ * normalizeMonsterUpsertInput on import so a single bad monster does not reject the bundle.
+ */
+export function parseMonsterBundle(raw: unknown): MonsterBundle {
+  if (!isRecord(raw) || raw.format !== MONSTER_BUNDLE_FORMAT) {
+    throw new MonsterBundleError(`Bundle format must be "${MONSTER_BUNDLE_FORMAT}"`);
+  }
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new MonsterBundleError("Bundle version must be a positive integer");
+  }
+  if (version > MONSTER_BUNDLE_VERSION) {
+    throw new MonsterBundleError(
+      `Bundle version ${version} is newer than this server supports (${MONSTER_BUNDLE_VERSION})`,
+    );
+  }
+  if (!Array.isArray(raw.monsters) || raw.monsters.length === 0) {
+    throw new MonsterBundleError("Bundle must contain at least one monster");
+  }
+  if (raw.monsters.length > MAX_MONSTER_BUNDLE_SIZE) {
+    throw new MonsterBundleError(`Bundle can contain at most ${MAX_MONSTER_BUNDLE_SIZE} monsters`);
+  }
+  const monsters = raw.monsters.map((entry, index) => {
+    if (!isRecord(entry)) throw new MonsterBundleError(`monsters[${index}] must be an object`);
+    return {
+      ...entry,
+      tags: Array.isArray(entry.tags) ? entry.tags : [],
+      traits: Array.isArray(entry.traits) ? entry.traits : [],
+      attacks: Array.isArray(entry.attacks) ? entry.attacks : [],
+      equipment: isRecord(entry.equipment) ? entry.equipment : {},
+      powers: Array.isArray(entry.powers) ? entry.powers : [],
+      phases: Array.isArray(entry.phases) ? entry.phases : [],
+    } as MonsterBundleMonster;
+  });
+  return {
+    format: MONSTER_BUNDLE_FORMAT,
+    version,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    monsters,
+  };
+}
+
+export function collectMonsterBundleNames(bundle: MonsterBundle): { traitNames: string[]; itemNames: string[] } {
+  const traitNames = new Set<string>();
+  const itemNames = new Set<string>();
+  for (const monster of bundle.monsters) {
+    for (const trait of monster.traits) {
+      if (typeof trait?.name === "string" && trait.name.trim()) traitNames.add(trait.name.trim());
+    }
+    for (const phase of monster.phases) {
+      for (const name of [...(phase?.addTraits ?? []), ...(phase?.removeTraits ?? [])]) {
+        if (typeof name === "string" && name.trim()) traitNames.add(name.trim());
+      }
+    }
+    for (const itemName of Object.values(monster.equipment)) {
+      if (typeof itemName === "string" && itemName.trim()) itemNames.add(itemName.trim());
+    }
+  }
+  return { traitNames: [...traitNames], itemNames: [...itemNames] };
+}
+
+/**
+ * Turns a bundle monster into a monster upsert body for the importing campaign. References that
+ * cannot be remapped are left off the body and reported as conflicts.
+ */
+export function resolveMonsterBundleMonster(
+  monster: MonsterBundleMonster,
+  lookups: MonsterBundleLookups,
+): { body: Record<string, unknown>; conflicts: MonsterBundleConflict[] } {
+  const conflicts: MonsterBundleConflict[] = [];
+  const traits: Array<{ sortOrder: number; traitDefinitionId: string }> = [];
+  monster.traits.forEach((trait, index) => {
+    const name = typeof trait?.name === "string" ? trait.name.trim() : "";
+    const traitDefinitionId = lookups.traitIdsByName.get(name);
+    if (traitDefinitionId) {
+      traits.push({ sortOrder: traits.length, traitDefinitionId });
+      return;
+    }
+    conflicts.push({
+      code: "TRAIT_NOT_FOUND",
+      path: `traits[${index}]`,
+      message: `No enabled core trait named "${name}"`,
+    });
+  });
+
+  const resolvePhaseTraits = (names: unknown, path: string) => {
+    const resolved: MonsterPhaseTrait[] = [];
+    (Array.isArray(names) ? names : []).forEach((raw, index) => {
+      const name = typeof raw === "string" ? raw.trim() : "";
+      const traitDefinitionId = lookups.traitIdsByName.get(name);
+      if (traitDefinitionId) {
+        resolved.push({ traitDefinitionId, name });
+        return;
+      }
+      conflicts.push({
+        code: "TRAIT_NOT_FOUND",
+        path: `${path}[${index}]`,
+        message: `No enabled core trait named "${name}"`,
+      });
+    });
+    return resolved;
+  };
+  const phases = monster.phases.map((phase, index) => ({
+    ...phase,
+    addTraits: resolvePhaseTraits(phase?.addTraits, `phases[${index}].addTraits`),
+    removeTraits: resolvePhaseTraits(phase?.removeTraits, `phases[${index}].removeTraits`),
+  }));
+
+  const equipment: Partial<Record<EquipmentSlotKey, string | null>> = {};
+  for (const slot of MONSTER_BUNDLE_EQUIPMENT_SLOTS) {
+    equipment[slot] = null;
+    const raw = monster.equipment[slot];
+    const name = typeof raw === "string" ? raw.trim() : "";
+    if (!name) continue;
+    const itemIds = lookups.itemIdsByName.get(name) ?? [];
+    if (itemIds.length === 1) {
+      equipment[slot] = itemIds[0];
+    } else {
+      conflicts.push({
+        code: itemIds.length === 0 ? "EQUIPMENT_NOT_FOUND" : "EQUIPMENT_AMBIGUOUS",
+        path: `equipment.${slot}`,
+        message:
+          itemIds.length === 0
+            ? `No campaign item named "${name}"`
+            : `${itemIds.length} campaign items are named "${name}"`,
+      });
+    }
+  }
+
+  return {
+    body: { ...monster, equipment: undefined, ...equipment, traits, phases },
+    conflicts,
+  };
+}
+
+/** Flags powers whose schema or rules version did not survive validation unchanged. */
+export function findPowerVersionConflicts(bundlePowers: Power[], importedPowers: Power[]): MonsterBundleConflict[] {
+  return bundlePowers.flatMap((power, index) => {
+    const imported = importedPowers[index];
+    if (!imported) return [];
+    const conflicts: MonsterBundleConflict[] = [];
+    if (power.schemaVersion !== undefined && power.schemaVersion !== imported.schemaVersion) {
+      conflicts.push({
+        code: "POWER_VERSION_CHANGED",
+        path: `powers[${index}].schemaVersion`,
+        message: `${power.name}: schemaVersion ${power.schemaVersion} imports as ${imported.schemaVersion}`,
+      });
+    }
+    if (power.rulesVersion !== undefined && power.rulesVersion !== imported.rulesVersion) {
+      conflicts.push({
+        code: "POWER_VERSION_CHANGED",
+        path: `powers[${index}].rulesVersion`,
+        message: `${power.name}: rulesVersion ${power.rulesVersion} imports as ${imported.rulesVersion}`,
+      });
+    }
+    return conflicts;
+  });
+}
@@ -0,0 +1,593 @@
+import { createSeededRng, type Rng } from "@/lib/combat-lab/dice";
+import type { ProtectionTuningValues } from "@/lib/config/combatTuningShared";
+import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import {
+  evaluateAttributeBalancingGuide,
+  getExpectedAttributeTotal,
+  type AttributeBalancingGuide,
+} from "@/lib/summoning/attributeBalancingGuide";
+import {
+  calculateMonsterResilienceValues,
+  getArmorSkillDiceCountFromAttributes,
+  getAttributeNumericValue,
+  getWeaponSkillDiceCountFromAttributes,
+} from "@/lib/summoning/attributes";
+import { getApprovedCanaryPower, type ApprovedCanaryId } from "@/lib/summoning/canaryCatalog";
+import { resolvePowerCost, type DerivedPowerCooldownBracket } from "@/lib/summoning/powerCostResolver";
+import {
+  MAX_POWER_PACKET_DAMAGE_TYPES,
+  MONSTER_CALCULATOR_ARCHETYPES,
+  type DiceSize,
+  type EffectPacket,
+  type MonsterCalculatorArchetype,
+  type MonsterNaturalAttackConfig,
+  type MonsterTier,
+  type MonsterUpsertInput,
+  type Power,
+} from "@/lib/summoning/types";
+
+const MONSTER_TIERS: MonsterTier[] = ["MINION", "SOLDIER", "ELITE", "BOSS"];
+const DICE_STEPS: DiceSize[] = ["D4", "D6", "D8", "D10", "D12"];
+const MAX_MONSTER_LEVEL = 20;
+const MAX_POWER_DICE = 20;
+export const MAX_GENERATED_POWERS = 6;
+export const MAX_GENERATOR_ALTERNATIVES = 5;
+const DEFAULT_GENERATOR_ALTERNATIVES = 3;
+/** Dice pools stop at level + this, so cheap templates do not balloon into huge pools. */
+const POWER_DICE_LEVEL_HEADROOM = 2;
+
+const ATTRIBUTE_KEYS = [
+  "attackDie",
+  "guardDie",
+  "fortitudeDie",
+  "intellectDie",
+  "synergyDie",
+  "braveryDie",
+] as const;
+
+type AttributeKey = (typeof ATTRIBUTE_KEYS)[number];
+type GeneratedAttributes = Record<AttributeKey, DiceSize>;
+
+const BRACKET_ORDER: DerivedPowerCooldownBracket[] = ["light", "moderate", "heavy", "extreme", "overExtreme"];
+/** Heaviest derived cooldown bracket a generated power may land in. */
+const MAX_FITTING_BRACKET: DerivedPowerCooldownBracket = "heavy";
+
+type ArchetypeProfile = {
+  /** Attributes that may carry the spread's peak; `peakCount` of them are picked per draft. */
+  peaks: AttributeKey[];
+  peakCount: number;
+  peakDie: DiceSize;
+  /** Attributes that may be sacrificed to D4; `weakCount` of them are picked per draft. */
+  weak: AttributeKey[];
+  weakCount: number;
+  raise: AttributeKey[];
+  lower: AttributeKey[];
+  nouns: string[];
+  powers: Array<{ id: ApprovedCanaryId; weight: number }>;
+};
+
+const ARCHETYPE_PROFILES: Record<MonsterCalculatorArchetype, ArchetypeProfile> = {
+  BALANCED: {
+    peaks: [],
+    peakCount: 0,
+    peakDie: "D8",
+    weak: [],
+    weakCount: 0,
+    raise: [...ATTRIBUTE_KEYS],
+    lower: [...ATTRIBUTE_KEYS],
+    nouns: ["Stalker", "Prowler", "Sentinel", "Wanderer"],
+    powers: [
+      { id: "simple_melee_attack", weight: 3 },
+      { id: "simple_ranged_attack", weight: 2 },
+      { id: "crippling_surge", weight: 2 },
+      { id: "attached_self_buff", weight: 1 },
+      { id: "grasping_field", weight: 1 },
+    ],
+  },
+  TANK: {
+    peaks: ["guardDie", "fortitudeDie", "braveryDie"],
+    peakCount: 2,
+    peakDie: "D10",
+    weak: [],
+    weakCount: 0,
+    raise: ["guardDie", "fortitudeDie", "braveryDie"],
+    lower: ["attackDie", "intellectDie", "synergyDie"],
+    nouns: ["Bulwark", "Colossus", "Warden", "Shellback"],
+    powers: [
+      { id: "channelled_bulwark", weight: 3 },
+      { id: "attached_self_buff", weight: 3 },
+      { id: "simple_melee_attack", weight: 2 },
+      { id: "trigger_ward", weight: 1 },
+    ],
+  },
+  GLASS_CANNON: {
+    peaks: ["attackDie", "intellectDie"],
+    peakCount: 1,
+    peakDie: "D12",
+    weak: ["guardDie", "fortitudeDie"],
+    weakCount: 1,
+    raise: ["attackDie", "intellectDie", "braveryDie"],
+    lower: ["guardDie", "fortitudeDie", "synergyDie"],
+    nouns: ["Striker", "Invoker", "Reaver", "Scourge"],
+    powers: [
+      { id: "simple_ranged_attack", weight: 3 },
+      { id: "held_bolt", weight: 2 },
+      { id: "deferred_mark", weight: 2 },
+      { id: "barbed_brand", weight: 1 },
+      { id: "simple_melee_attack", weight: 1 },
+    ],
+  },
+  CONTROLLER: {
+    peaks: ["intellectDie", "synergyDie", "braveryDie"],
+    peakCount: 2,
+    peakDie: "D10",
+    weak: ["attackDie", "guardDie"],
+    weakCount: 1,
+    raise: ["intellectDie", "synergyDie", "braveryDie"],
+    lower: ["attackDie", "guardDie", "fortitudeDie"],
+    nouns: ["Binder", "Weaver", "Shackler", "Oracle"],
+    powers: [
+      { id: "grasping_field", weight: 3 },
+      { id: "searing_lockdown", weight: 2 },
+      { id: "trigger_ward", weight: 2 },
+      { id: "simple_ranged_attack", weight: 1 },
+    ],
+  },
+  SCRAPPER: {
+    peaks: ["attackDie", "guardDie", "braveryDie"],
+    peakCount: 2,
+    peakDie: "D10",
+    weak: ["intellectDie", "synergyDie"],
+    weakCount: 1,
+    raise: ["attackDie", "guardDie", "braveryDie"],
+    lower: ["intellectDie", "synergyDie", "fortitudeDie"],
+    nouns: ["Brawler", "Mauler", "Ravager", "Bruiser"],
+    powers: [
+      { id: "simple_melee_attack", weight: 3 },
+      { id: "crippling_surge", weight: 2 },
+      { id: "barbed_brand", weight: 2 },
+      { id: "attached_self_buff", weight: 1 },
+    ],
+  },
+};
+
+/** Short power names; powers that deal damage are prefixed with the damage theme. */
+const POWER_NOUNS: Record<ApprovedCanaryId, { noun: string; themed: boolean }> = {
+  simple_melee_attack: { noun: "Strike", themed: true },
+  simple_ranged_attack: { noun: "Bolt", themed: true },
+  attached_self_buff: { noun: "Hardening", themed: false },
+  grasping_field: { noun: "Grasping Field", themed: false },
+  barbed_brand: { noun: "Brand", themed: true },
+  deferred_mark: { noun: "Mark", themed: true },
+  trigger_ward: { noun: "Ward", themed: true },
+  held_bolt: { noun: "Held Bolt", themed: true },
+  crippling_surge: { noun: "Surge", themed: true },
+  searing_lockdown: { noun: "Lockdown", themed: true },
+  channelled_bulwark: { noun: "Bulwark", themed: false },
+};
+
+export type MonsterGeneratorDamageType = { name: string; mode: "PHYSICAL" | "MENTAL" };
+
+export type MonsterGeneratorRequest = {
+  level: number;
+  tier: MonsterTier;
+  legendary: boolean;
+  archetype: MonsterCalculatorArchetype;
+  /** Damage type names; the server resolves their attack modes from the damage type catalogue. */
+  damageTypes: string[];
+  powerCount: number;
+  /** Null asks the server to pick a seed; the chosen seed is echoed so the draft can be regenerated. */
+  seed: number | null;
+  alternatives: number;
+};
+
+export type MonsterGeneratorInput = Omit<MonsterGeneratorRequest, "damageTypes" | "seed"> & {
+  damageTheme: MonsterGeneratorDamageType[];
+  seed: number;
+};
+
+export type GeneratedPowerReport = {
+  name: string;
+  template: ApprovedCanaryId;
+  diceCount: number;
+  basePowerValue: number;
+  cooldownLoad: number;
+  cooldownBracket: DerivedPowerCooldownBracket;
+  cooldownTurns: number;
+  fitsTier: boolean;
+};
+
+export type GeneratedMonsterAlternative = {
+  seed: number;
+  draft: MonsterUpsertInput;
+  attributeGuide: AttributeBalancingGuide;
+  powers: GeneratedPowerReport[];
+  warnings: string[];
+};
+
+export class MonsterGeneratorError extends Error {
+  readonly code: "INVALID_GENERATOR_REQUEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MonsterGeneratorError";
+    this.code = "INVALID_GENERATOR_REQUEST";
+  }
+}
+
+function readInteger(value: unknown, field: string, min: number, max: number, fallback?: number): number {
+  if ((value === undefined || value === null) && fallback !== undefined) return fallback;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new MonsterGeneratorError(`${field} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+export function parseMonsterGeneratorRequest(body: unknown): MonsterGeneratorRequest {
+  const raw = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const level = readInteger(raw.level, "level", 1, MAX_MONSTER_LEVEL);
+  if (!MONSTER_TIERS.includes(raw.tier as MonsterTier)) {
+    throw new MonsterGeneratorError(`tier must be one of ${MONSTER_TIERS.join(", ")}`);
+  }
+  if (raw.legendary !== undefined && typeof raw.legendary !== "boolean") {
+    throw new MonsterGeneratorError("legendary must be true or false");
+  }
+  const archetype = raw.archetype ?? raw.calculatorArchetype ?? "BALANCED";
+  if (!MONSTER_CALCULATOR_ARCHETYPES.includes(archetype as MonsterCalculatorArchetype)) {
+    throw new MonsterGeneratorError(`archetype must be one of ${MONSTER_CALCULATOR_ARCHETYPES.join(", ")}`);
+  }
+  const damageTypes = Array.isArray(raw.damageTypes)
+    ? Array.from(
+        new Set(
+          raw.damageTypes
+            .map((entry) => (typeof entry === "string" ? entry.trim() : ""))
+            .filter((entry) => entry.length > 0),
+        ),
+      )
+    : [];
+  if (damageTypes.length < 1 || damageTypes.length > MAX_POWER_PACKET_DAMAGE_TYPES) {
+    throw new MonsterGeneratorError(`damageTypes must list 1 to ${MAX_POWER_PACKET_DAMAGE_TYPES} damage type names`);
+  }
+  return {
+    level,
+    tier: raw.tier as MonsterTier,
+    legendary: raw.legendary === true,
+    archetype: archetype as MonsterCalculatorArchetype,
+    damageTypes,
+    powerCount: readInteger(raw.powerCount, "powerCount", 0, MAX_GENERATED_POWERS, 2),
+    seed: raw.seed === undefined || raw.seed === null ? null : readInteger(raw.seed, "seed", 1, 2 ** 31 - 1),
+    alternatives: readInteger(raw.alternatives, "alternatives", 1, MAX_GENERATOR_ALTERNATIVES, DEFAULT_GENERATOR_ALTERNATIVES),
+  };
+}
+
+function pick<T>(rng: Rng, items: T[]): T {
+  return items[Math.min(items.length - 1, Math.floor(rng() * items.length))];
+}
+
+function pickDistinct<T>(rng: Rng, items: T[], count: number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(rng() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+function stepDie(die: DiceSize, direction: number): DiceSize | null {
+  const index = DICE_STEPS.indexOf(die) + direction;
+  return index >= 0 && index < DICE_STEPS.length ? DICE_STEPS[index] : null;
+}
+
+function attributeTotal(attributes: GeneratedAttributes) {
+  return ATTRIBUTE_KEYS.reduce((total, key) => total + getAttributeNumericValue(attributes[key]), 0);
+}
+
+/**
+ * Lays the archetype's peaks and weaknesses over a D6 spread, then moves one die step at a time
+ * until the total matches the guide's expected total, so the result always reads "On Budget".
+ * Preferred attributes move first; the protected peaks and weaknesses only move as a last resort.
+ */
+export function generateMonsterAttributes(
+  rng: Rng,
+  params: { level: number; tier: MonsterTier; archetype: MonsterCalculatorArchetype },
+): GeneratedAttributes {
+  const profile = ARCHETYPE_PROFILES[params.archetype];
+  const attributes = Object.fromEntries(ATTRIBUTE_KEYS.map((key) => [key, "D6"])) as GeneratedAttributes;
+  const peaks = pickDistinct(rng, profile.peaks, profile.peakCount);
+  const weak = pickDistinct(
+    rng,
+    profile.weak.filter((key) => !peaks.includes(key)),
+    profile.weakCount,
+  );
+  for (const key of peaks) attributes[key] = profile.peakDie;
+  for (const key of weak) attributes[key] = "D4";
+
+  const expected = getExpectedAttributeTotal(params.level, params.tier);
+  const protectedKeys = new Set<AttributeKey>([...peaks, ...weak]);
+  while (attributeTotal(attributes) !== expected) {
+    const direction = attributeTotal(attributes) < expected ? 1 : -1;
+    const movable = ATTRIBUTE_KEYS.filter((key) => stepDie(attributes[key], direction) !== null);
+    if (movable.length === 0) break;
+    const preferred = direction > 0 ? profile.raise : profile.lower;
+    let candidates: AttributeKey[];
+    if (params.archetype === "BALANCED") {
+      // Balanced spreads raise their lowest dice and trim their highest, keeping the spread flat.
+      const values = movable.map((key) => getAttributeNumericValue(attributes[key]));
+      const target = direction > 0 ? Math.min(...values) : Math.max(...values);
+      candidates = movable.filter((key) => getAttributeNumericValue(attributes[key]) === target);
+    } else {
+      const open = movable.filter((key) => !protectedKeys.has(key));
+      const openPreferred = open.filter((key) => preferred.includes(key));
+      // Raising a peak past its die is fine; lowering one is not.
+      const peakRaises = direction > 0 ? movable.filter((key) => peaks.includes(key)) : [];
+      candidates = openPreferred.length > 0 ? openPreferred : open.length > 0 ? open : peakRaises.length > 0 ? peakRaises : movable;
+    }
+    const chosen = pick(rng, candidates);
+    attributes[chosen] = stepDie(attributes[chosen], direction)!;
+  }
+  return attributes;
+}
+
+function packetsOf(power: Power): EffectPacket[] {
+  return Array.isArray(power.effectPackets) ? power.effectPackets : [];
+}
+
+function themedPacket(packet: EffectPacket, theme: MonsterGeneratorDamageType[]): EffectPacket {
+  if (packet.intention !== "ATTACK") return packet;
+  const mode = theme.some((entry) => entry.mode === "PHYSICAL") ? "PHYSICAL" : "MENTAL";
+  return {
+    ...packet,
+    detailsJson: {
+      ...packet.detailsJson,
+      attackMode: mode,
+      damageTypes: theme.slice(0, MAX_POWER_PACKET_DAMAGE_TYPES).map((entry) => entry.name),
+    },
+  };
+}
+
+function withLeadDice(power: Power, leadDice: number, sourceLead: number): Power {
+  const scale = (value: number) => Math.max(1, Math.min(MAX_POWER_DICE, Math.round((value * leadDice) / sourceLead)));
+  const effectPackets = packetsOf(power).map((packet) =>
+    typeof packet.diceCount === "number" ? { ...packet, diceCount: scale(packet.diceCount) } : packet,
+  );
+  return {
+    ...power,
+    diceCount: scale(power.diceCount),
+    effectPackets,
+    intentions: effectPackets.map((packet) => ({ ...packet })),
+  };
+}
+
+function bracketRank(bracket: DerivedPowerCooldownBracket) {
+  return BRACKET_ORDER.indexOf(bracket);
+}
+
+/**
+ * Raises a template's dice until the next step would leave its cap bracket or pass the level's
+ * dice ceiling, then stores the derived cooldown. A template that is already past the cap at one
+ * die stays at one die.
+ */
+function sizeGeneratedPower(
+  template: Power,
+  cap: DerivedPowerCooldownBracket,
+  context: { level: number; tier: MonsterTier; tuning: PowerTuningSnapshot | null },
+) {
+  const sourceLead = Math.max(
+    1,
+    template.diceCount,
+    ...packetsOf(template).map((packet) => (typeof packet.diceCount === "number" ? packet.diceCount : 0)),
+  );
+  const maxLeadDice = Math.min(MAX_POWER_DICE, context.level + POWER_DICE_LEVEL_HEADROOM);
+  const cost = (power: Power) =>
+    resolvePowerCost(power, context.tuning ?? undefined, { level: context.level, tier: context.tier }).derivedCooldown;
+  let chosen = withLeadDice(template, 1, sourceLead);
+  let chosenCost = cost(chosen);
+  let leadDice = 1;
+  for (let next = 2; next <= maxLeadDice; next += 1) {
+    const candidate = withLeadDice(template, next, sourceLead);
+    const candidateCost = cost(candidate);
+    if (bracketRank(candidateCost.cooldownBracket) > bracketRank(cap)) break;
+    chosen = candidate;
+    chosenCost = candidateCost;
+    leadDice = next;
+  }
+  return {
+    power: { ...chosen, cooldownTurns: chosenCost.derivedCooldownTurns, cooldownReduction: 0 },
+    leadDice,
+    cost: chosenCost,
+  };
+}
+
+function pickWeighted(rng: Rng, entries: Array<{ id: ApprovedCanaryId; weight: number }>) {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = rng() * total;
+  for (const entry of entries) {
+    roll -= entry.weight;
+    if (roll < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
+
+function naturalAttackConfig(theme: MonsterGeneratorDamageType[]): MonsterNaturalAttackConfig {
+  const hasPhysical = theme.some((entry) => entry.mode === "PHYSICAL");
+  const hasMental = theme.some((entry) => entry.mode === "MENTAL");
+  return {
+    melee: {
+      enabled: true,
+      targets: 1,
+      physicalStrength: hasPhysical ? 1 : 0,
+      mentalStrength: hasMental ? 1 : 0,
+      damageTypes: theme.map((entry) => ({ name: entry.name, mode: entry.mode })),
+      attackEffects: [],
+    },
+  };
+}
+
+function generateAlternative(
+  input: MonsterGeneratorInput,
+  seed: number,
+  tuning: { protection: ProtectionTuningValues; power: PowerTuningSnapshot | null },
+): GeneratedMonsterAlternative {
+  const rng = createSeededRng(seed);
+  const profile = ARCHETYPE_PROFILES[input.archetype];
+  const themeName = input.damageTheme[0].name;
+  const attributes = generateMonsterAttributes(rng, input);
+  const pools = calculateMonsterResilienceValues({ ...input, ...attributes }, tuning.protection);
+  const warnings: string[] = [];
+
+  const powers: Power[] = [];
+  const reports: GeneratedPowerReport[] = [];
+  const usedNames = new Set<string>();
+  let templates = [...profile.powers];
+  for (let index = 0; index < input.powerCount; index += 1) {
+    if (templates.length === 0) templates = [...profile.powers];
+    const entry = pickWeighted(rng, templates);
+    templates = templates.filter((candidate) => candidate.id !== entry.id);
+    const canary = getApprovedCanaryPower(entry.id);
+    if (!canary) continue;
+    const effectPackets = packetsOf(canary).map((packet) => themedPacket(packet, input.damageTheme));
+    const noun = POWER_NOUNS[entry.id];
+    let name = noun.themed ? `${themeName} ${noun.noun}` : noun.noun;
+    for (let suffix = 2; usedNames.has(name); suffix += 1) name = `${noun.themed ? `${themeName} ` : ""}${noun.noun} ${suffix}`;
+    usedNames.add(name);
+
+    const cap = pick(rng, BRACKET_ORDER.slice(1, bracketRank(MAX_FITTING_BRACKET) + 1));
+    const sized = sizeGeneratedPower(
+      { ...canary, name, description: null, sortOrder: index, effectPackets, intentions: effectPackets },
+      cap,
+      { level: input.level, tier: input.tier, tuning: tuning.power },
+    );
+    const fitsTier = bracketRank(sized.cost.cooldownBracket) <= bracketRank(MAX_FITTING_BRACKET);
+    if (!fitsTier) {
+      warnings.push(`${name}: even one die lands in the ${sized.cost.cooldownBracket} band for this level and tier`);
+    }
+    powers.push(sized.power);
+    reports.push({
+      name,
+      template: entry.id,
+      diceCount: sized.leadDice,
+      basePowerValue: sized.cost.basePowerValue,
+      cooldownLoad: sized.cost.cooldownLoad,
+      cooldownBracket: sized.cost.cooldownBracket,
+      cooldownTurns: sized.cost.derivedCooldownTurns,
+      fitsTier,
+    });
+  }
+
+  const attackConfig = naturalAttackConfig(input.damageTheme);
+  const attackName = `${themeName} ${input.archetype === "CONTROLLER" ? "Touch" : "Claws"}`;
+  const draft: MonsterUpsertInput = {
+    name: `${input.legendary ? "Legendary " : ""}${themeName} ${pick(rng, profile.nouns)}`,
+    imageUrl: null,
+    imagePosX: 50,
+    imagePosY: 35,
+    level: input.level,
+    tier: input.tier,
+    legendary: input.legendary,
+    calculatorArchetype: input.archetype,
+    mainHandItemId: null,
+    offHandItemId: null,
+    smallItemId: null,
+    headArmorItemId: null,
+    shoulderArmorItemId: null,
+    torsoArmorItemId: null,
+    legsArmorItemId: null,
+    feetArmorItemId: null,
+    headItemId: null,
+    neckItemId: null,
+    armsItemId: null,
+    beltItemId: null,
+    customNotes: `Generated from seed ${seed}.`,
+    limitBreakName: null,
+    limitBreakTier: null,
+    limitBreakTriggerText: null,
+    limitBreakAttribute: null,
+    limitBreakThresholdSuccesses: null,
+    limitBreakCostText: null,
+    limitBreakEffectText: null,
+    limitBreak2Name: null,
+    limitBreak2Tier: null,
+    limitBreak2TriggerText: null,
+    limitBreak2Attribute: null,
+    limitBreak2ThresholdSuccesses: null,
+    limitBreak2CostText: null,
+    limitBreak2EffectText: null,
+    physicalResilienceCurrent: pools.physicalResilienceMax,
+    physicalResilienceMax: pools.physicalResilienceMax,
+    mentalPerseveranceCurrent: pools.mentalPerseveranceMax,
+    mentalPerseveranceMax: pools.mentalPerseveranceMax,
+    physicalProtection: 0,
+    mentalProtection: 0,
+    naturalPhysicalProtection: 0,
+    naturalMentalProtection: 0,
+    ...attributes,
+    attackResistDie: 0,
+    attackModifier: 0,
+    guardResistDie: 0,
+    guardModifier: 0,
+    fortitudeResistDie: 0,
+    fortitudeModifier: 0,
+    intellectResistDie: 0,
+    intellectModifier: 0,
+    synergyResistDie: 0,
+    synergyModifier: 0,
+    braveryResistDie: 0,
+    braveryModifier: 0,
+    weaponSkillValue: Math.max(
+      1,
+      getWeaponSkillDiceCountFromAttributes(attributes.attackDie, attributes.braveryDie, tuning.protection),
+    ),
+    weaponSkillModifier: 0,
+    armorSkillValue: Math.max(
+      1,
+      getArmorSkillDiceCountFromAttributes(attributes.guardDie, attributes.fortitudeDie, tuning.protection),
+    ),
+    armorSkillModifier: 0,
+    tags: [],
+    traits: [],
+    attacks: [{ sortOrder: 0, attackMode: "NATURAL", attackName, attackConfig }],
+    naturalAttack: { attackName, attackConfig },
+    powers,
+  };
+
+  return {
+    seed,
+    draft,
+    attributeGuide: evaluateAttributeBalancingGuide({
+      level: input.level,
+      tier: input.tier,
+      archetype: input.archetype,
+      attributes,
+    }),
+    powers: reports,
+    warnings,
+  };
+}
+
+/**
+ * Seed for one alternative. The first alternative uses the request seed; later ones hash it, since
+ * nearby seeds start the linear congruential stream on nearly the same first draw.
+ */
+function alternativeSeed(seed: number, index: number): number {
+  if (index === 0) return seed;
+  let hash = Math.imul(seed ^ Math.imul(index, 0x9e3779b9), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return ((hash ^ (hash >>> 16)) >>> 1) || 1;
+}
+
+/**
+ * Builds `alternatives` draft monsters from one seed. The same input and seed always produce the
+ * same drafts, and each alternative reports its own seed so it can be regenerated on its own.
+ */
+export function generateMonsterDrafts(
+  input: MonsterGeneratorInput,
+  tuning: { protection: ProtectionTuningValues; power: PowerTuningSnapshot | null },
+): GeneratedMonsterAlternative[] {
+  if (input.damageTheme.length === 0) {
+    throw new MonsterGeneratorError("A damage theme needs at least one damage type");
+  }
+  return Array.from({ length: input.alternatives }, (_, index) =>
+    generateAlternative(input, alternativeSeed(input.seed, index), tuning),
+  );
+}
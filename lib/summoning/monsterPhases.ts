@@ -0,0 +1,258 @@
+import {
+  MONSTER_PHASE_TRIGGER_TYPES,
+  type MonsterPhase,
+  type MonsterPhaseTrait,
+  type MonsterPhaseTriggerType,
+} from "./types";
+
+export const MAX_MONSTER_PHASES = 4;
+export const MAX_PHASE_PROTECTION_DELTA = 30;
+
+const TRIGGER_TYPE_SET = new Set<string>(MONSTER_PHASE_TRIGGER_TYPES);
+
+export type MonsterPhaseForm = {
+  /** Null for the opening form the monster starts combat in. */
+  phase: MonsterPhase | null;
+  powerSortOrders: number[];
+  traits: MonsterPhaseTrait[];
+  physicalProtectionDelta: number;
+  mentalProtectionDelta: number;
+};
+
+type PhaseParseResult = { ok: true; phase: MonsterPhase } | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function asInt(value: unknown, fallback = 0): number {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.trunc(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return Math.trunc(parsed);
+  }
+  return fallback;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function clampDelta(value: unknown): number {
+  return Math.max(
+    -MAX_PHASE_PROTECTION_DELTA,
+    Math.min(MAX_PHASE_PROTECTION_DELTA, asInt(value, 0)),
+  );
+}
+
+function uniqueInts(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<number>();
+  for (const entry of value) {
+    const parsed = asInt(entry, -1);
+    if (parsed >= 0) seen.add(parsed);
+  }
+  return Array.from(seen).sort((a, b) => a - b);
+}
+
+function phaseTraits(value: unknown): MonsterPhaseTrait[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const traits: MonsterPhaseTrait[] = [];
+  for (const entry of value) {
+    const row = typeof entry === "string" ? { traitDefinitionId: entry } : isRecord(entry) ? entry : {};
+    const traitDefinitionId = asString(row.traitDefinitionId);
+    if (!traitDefinitionId || seen.has(traitDefinitionId)) continue;
+    seen.add(traitDefinitionId);
+    traits.push({ traitDefinitionId, name: asString(row.name) || null });
+  }
+  return traits;
+}
+
+function parsePhase(raw: unknown, index: number, powerCount: number): PhaseParseResult {
+  const row = isRecord(raw) ? raw : {};
+  const label = `Phase ${index + 1}`;
+  const name = asString(row.name);
+  if (!name) return { ok: false, error: `${label} requires a name` };
+
+  const triggerType = asString(row.triggerType) as MonsterPhaseTriggerType;
+  if (!TRIGGER_TYPE_SET.has(triggerType)) {
+    return { ok: false, error: `${label} has an unknown trigger type` };
+  }
+  const triggerValue = asInt(row.triggerValue, 0);
+  if (triggerType === "RESILIENCE_PERCENT" && (triggerValue < 1 || triggerValue > 99)) {
+    return { ok: false, error: `${label} resilience trigger must be between 1% and 99%` };
+  }
+  if (triggerType === "ROUND" && (triggerValue < 2 || triggerValue > 100)) {
+    return { ok: false, error: `${label} round trigger must be between round 2 and 100` };
+  }
+
+  const addPowerSortOrders = uniqueInts(row.addPowerSortOrders);
+  const removePowerSortOrders = uniqueInts(row.removePowerSortOrders);
+  for (const sortOrder of [...addPowerSortOrders, ...removePowerSortOrders]) {
+    if (sortOrder >= powerCount) {
+      return { ok: false, error: `${label} references a power that does not exist` };
+    }
+  }
+  if (addPowerSortOrders.some((sortOrder) => removePowerSortOrders.includes(sortOrder))) {
+    return { ok: false, error: `${label} cannot both add and remove the same power` };
+  }
+
+  const addTraits = phaseTraits(row.addTraits);
+  const removeTraits = phaseTraits(row.removeTraits);
+  const removedTraitIds = new Set(removeTraits.map((trait) => trait.traitDefinitionId));
+  if (addTraits.some((trait) => removedTraitIds.has(trait.traitDefinitionId))) {
+    return { ok: false, error: `${label} cannot both add and remove the same trait` };
+  }
+
+  return {
+    ok: true,
+    phase: {
+      sortOrder: index,
+      name,
+      triggerType,
+      triggerValue,
+      addPowerSortOrders,
+      removePowerSortOrders,
+      addTraits,
+      removeTraits,
+      physicalProtectionDelta: clampDelta(row.physicalProtectionDelta),
+      mentalProtectionDelta: clampDelta(row.mentalProtectionDelta),
+      transitionText: asString(row.transitionText) || null,
+    },
+  };
+}
+
+function sortedRows(value: unknown): unknown[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry, index) => ({ entry, order: isRecord(entry) ? asInt(entry.sortOrder, index) : index }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Strict normalization for the upsert payload. Phases trigger in order, so consecutive phases on the
+ * same trigger type must move forward (lower resilience, later round) or the later one is unreachable.
+ */
+export function normalizeMonsterPhases(
+  raw: unknown,
+  powerCount: number,
+): { ok: true; phases: MonsterPhase[] } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, phases: [] };
+  if (!Array.isArray(raw)) return { ok: false, error: "phases must be an array" };
+  if (raw.length > MAX_MONSTER_PHASES) {
+    return { ok: false, error: `A monster can have at most ${MAX_MONSTER_PHASES} phases` };
+  }
+
+  const phases: MonsterPhase[] = [];
+  for (const [index, entry] of sortedRows(raw).entries()) {
+    const parsed = parsePhase(entry, index, powerCount);
+    if (!parsed.ok) return parsed;
+    const previous = phases[phases.length - 1];
+    if (previous && previous.triggerType === parsed.phase.triggerType) {
+      const movesForward =
+        parsed.phase.triggerType === "ROUND"
+          ? parsed.phase.triggerValue > previous.triggerValue
+          : parsed.phase.triggerValue < previous.triggerValue;
+      if (!movesForward) {
+        return {
+          ok: false,
+          error: `Phase ${index + 1} must trigger after phase ${index} (${describeMonsterPhaseTrigger(previous)})`,
+        };
+      }
+    }
+    phases.push(parsed.phase);
+  }
+  return { ok: true, phases };
+}
+
+/** Lenient read of a stored phases column; malformed entries are dropped rather than rejected. */
+export function readMonsterPhases(value: unknown): MonsterPhase[] {
+  const phases: MonsterPhase[] = [];
+  for (const entry of sortedRows(value)) {
+    const parsed = parsePhase(entry, phases.length, Number.POSITIVE_INFINITY);
+    if (parsed.ok) phases.push(parsed.phase);
+  }
+  return phases.slice(0, MAX_MONSTER_PHASES);
+}
+
+export function describeMonsterPhaseTrigger(
+  phase: Pick<MonsterPhase, "triggerType" | "triggerValue">,
+): string {
+  return phase.triggerType === "ROUND"
+    ? `From round ${phase.triggerValue}`
+    : `At ${phase.triggerValue}% Physical Resilience or lower`;
+}
+
+export function isMonsterPhaseTriggered(
+  phase: Pick<MonsterPhase, "triggerType" | "triggerValue">,
+  state: { round: number; physicalResiliencePercent: number },
+): boolean {
+  return phase.triggerType === "ROUND"
+    ? state.round >= phase.triggerValue
+    : state.physicalResiliencePercent <= phase.triggerValue;
+}
+
+/**
+ * Works out the power list, traits and protection adjustments for the opening form and each phase.
+ * Powers that any phase adds are held back from the opening form; everything else stacks phase by phase.
+ */
+export function resolveMonsterPhaseForms(input: {
+  powerCount: number;
+  traits: MonsterPhaseTrait[];
+  phases: MonsterPhase[];
+}): MonsterPhaseForm[] {
+  const phaseOnly = new Set(input.phases.flatMap((phase) => phase.addPowerSortOrders));
+  let powers = new Set<number>();
+  for (let sortOrder = 0; sortOrder < input.powerCount; sortOrder += 1) {
+    if (!phaseOnly.has(sortOrder)) powers.add(sortOrder);
+  }
+  let traits = new Map(input.traits.map((trait) => [trait.traitDefinitionId, trait]));
+  let physicalProtectionDelta = 0;
+  let mentalProtectionDelta = 0;
+
+  const snapshot = (phase: MonsterPhase | null): MonsterPhaseForm => ({
+    phase,
+    powerSortOrders: Array.from(powers).sort((a, b) => a - b),
+    traits: Array.from(traits.values()),
+    physicalProtectionDelta,
+    mentalProtectionDelta,
+  });
+
+  const forms = [snapshot(null)];
+  for (const phase of input.phases) {
+    powers = new Set(powers);
+    for (const sortOrder of phase.removePowerSortOrders) powers.delete(sortOrder);
+    for (const sortOrder of phase.addPowerSortOrders) {
+      if (sortOrder < input.powerCount) powers.add(sortOrder);
+    }
+    traits = new Map(traits);
+    for (const trait of phase.removeTraits) traits.delete(trait.traitDefinitionId);
+    for (const trait of phase.addTraits) traits.set(trait.traitDefinitionId, trait);
+    physicalProtectionDelta += phase.physicalProtectionDelta;
+    mentalProtectionDelta += phase.mentalProtectionDelta;
+    forms.push(snapshot(phase));
+  }
+  return forms;
+}
+
+/**
+ * Rewrites phase power references after the power list is reordered or trimmed. `mapSortOrder`
+ * returns the new sortOrder, or null when the power was removed.
+ */
+export function remapMonsterPhasePowers(
+  phases: MonsterPhase[],
+  mapSortOrder: (sortOrder: number) => number | null,
+): MonsterPhase[] {
+  const remap = (sortOrders: number[]) =>
+    sortOrders
+      .map(mapSortOrder)
+      .filter((sortOrder): sortOrder is number => sortOrder !== null)
+      .sort((a, b) => a - b);
+  return phases.map((phase) => ({
+    ...phase,
+    addPowerSortOrders: remap(phase.addPowerSortOrders),
+    removePowerSortOrders: remap(phase.removePowerSortOrders),
+  }));
+}
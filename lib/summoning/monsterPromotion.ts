@@ -0,0 +1,137 @@
+import { MONSTER_BUNDLE_EQUIPMENT_SLOTS, portablePower } from "@/lib/summoning/monsterBundle";
+import { monsterRevisionRestoreBody, type MonsterRevisionSnapshot } from "@/lib/summoning/monsterRevisions";
+import type { Power } from "@/lib/summoning/types";
+
+export const MONSTER_CORE_SUBMISSION_STATUSES = ["PENDING_REVIEW", "CHANGES_REQUESTED", "APPROVED"] as const;
+export type MonsterCoreSubmissionStatus = (typeof MONSTER_CORE_SUBMISSION_STATUSES)[number];
+export type MonsterCoreReviewAction = "SUBMITTED" | "APPROVED" | "CHANGES_REQUESTED";
+export type MonsterCoreReviewDecision = "APPROVE" | "REQUEST_CHANGES";
+
+const MAX_REVIEW_NOTES_LENGTH = 4000;
+
+export type MonsterCoreReviewEventView = {
+  id: string;
+  action: MonsterCoreReviewAction;
+  fromStatus: MonsterCoreSubmissionStatus | null;
+  toStatus: MonsterCoreSubmissionStatus;
+  submissionRevision: number;
+  actorUserId: string;
+  notes: string | null;
+  createdAt: string;
+};
+
+export type MonsterCoreSubmissionSummary = {
+  id: string;
+  campaignId: string;
+  campaignName: string | null;
+  /** Null once the source campaign monster has been deleted. */
+  monsterId: string | null;
+  monsterName: string;
+  status: MonsterCoreSubmissionStatus;
+  submissionRevision: number;
+  submittedByUserId: string;
+  submittedAt: string;
+  reviewedByUserId: string | null;
+  reviewedAt: string | null;
+  coreMonsterId: string | null;
+};
+
+export type MonsterCoreSubmissionDetail = MonsterCoreSubmissionSummary & {
+  /** The serialized monster frozen at submit time; approval promotes exactly this. */
+  snapshot: MonsterRevisionSnapshot;
+  events: MonsterCoreReviewEventView[];
+};
+
+export type MonsterCoreTransition = {
+  action: MonsterCoreReviewAction;
+  fromStatus: MonsterCoreSubmissionStatus | null;
+  toStatus: MonsterCoreSubmissionStatus;
+  submissionRevision: number;
+  notes: string | null;
+};
+
+export class MonsterPromotionError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "MonsterPromotionError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export function normalizeMonsterReviewNotes(value: unknown): string | null {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, MAX_REVIEW_NOTES_LENGTH)
+    : null;
+}
+
+export function parseMonsterCoreReviewDecision(value: unknown): MonsterCoreReviewDecision | null {
+  return value === "APPROVE" || value === "REQUEST_CHANGES" ? value : null;
+}
+
+/**
+ * Works out the next submission state. A monster can be resubmitted only after changes were
+ * requested; a pending or approved submission blocks another one. Reviews act on pending
+ * submissions only, and a change request must say what to change.
+ */
+export function planMonsterCoreTransition(
+  current: { status: MonsterCoreSubmissionStatus; submissionRevision: number } | null,
+  step: "SUBMIT" | MonsterCoreReviewDecision,
+  notesInput?: unknown,
+): MonsterCoreTransition {
+  const notes = normalizeMonsterReviewNotes(notesInput);
+  if (step === "SUBMIT") {
+    if (current?.status === "PENDING_REVIEW") {
+      throw new MonsterPromotionError("ALREADY_PENDING", "This monster is already waiting for review.", 409);
+    }
+    if (current?.status === "APPROVED") {
+      throw new MonsterPromotionError("ALREADY_PROMOTED", "This monster has already been promoted to CORE.", 409);
+    }
+    return {
+      action: "SUBMITTED",
+      fromStatus: current?.status ?? null,
+      toStatus: "PENDING_REVIEW",
+      submissionRevision: (current?.submissionRevision ?? 0) + 1,
+      notes,
+    };
+  }
+
+  if (current?.status !== "PENDING_REVIEW") {
+    throw new MonsterPromotionError("NOT_PENDING", "Only pending submissions can be reviewed.", 409);
+  }
+  if (step === "REQUEST_CHANGES" && !notes) {
+    throw new MonsterPromotionError("NOTES_REQUIRED", "Say what needs to change before sending it back.", 400);
+  }
+  return {
+    action: step === "APPROVE" ? "APPROVED" : "CHANGES_REQUESTED",
+    fromStatus: current.status,
+    toStatus: step === "APPROVE" ? "APPROVED" : "CHANGES_REQUESTED",
+    submissionRevision: current.submissionRevision,
+    notes,
+  };
+}
+
+/** Equipment slots the snapshot fills; campaign items cannot follow a monster into CORE. */
+export function monsterCoreDroppedEquipmentSlots(snapshot: MonsterRevisionSnapshot): string[] {
+  return MONSTER_BUNDLE_EQUIPMENT_SLOTS.filter((slot) => {
+    const value = snapshot[slot];
+    return typeof value === "string" && value.length > 0;
+  });
+}
+
+/**
+ * Turns a submitted snapshot into a monster upsert body for the CORE library: equipment is cleared
+ * and power and packet ids are dropped so the CORE copy gets its own rows.
+ */
+export function monsterCorePromotionBody(snapshot: MonsterRevisionSnapshot): Record<string, unknown> {
+  const body = monsterRevisionRestoreBody(snapshot);
+  for (const slot of MONSTER_BUNDLE_EQUIPMENT_SLOTS) body[slot] = null;
+  const powers = Array.isArray(snapshot.powers) ? (snapshot.powers as Power[]) : [];
+  return {
+    ...body,
+    powers: powers.map((power) => portablePower({ ...power, effectPackets: power.effectPackets ?? [] })),
+  };
+}
@@ -0,0 +1,359 @@
+import type { ProtectionTuningValues } from "@/lib/config/combatTuningShared";
+import type { PowerTuningSnapshot } from "@/lib/config/powerTuningShared";
+import {
+  evaluateAttributeBalancingGuide,
+  getExpectedAttributeTotal,
+  type AttributeBalancingGuide,
+} from "@/lib/summoning/attributeBalancingGuide";
+import {
+  calculateMonsterResilienceValues,
+  getArmorSkillDiceCountFromAttributes,
+  getAttributeNumericValue,
+  getWeaponSkillDiceCountFromAttributes,
+} from "@/lib/summoning/attributes";
+import {
+  resolvePowerCost,
+  type DerivedPowerCooldownBracket,
+} from "@/lib/summoning/powerCostResolver";
+import type {
+  DiceSize,
+  EffectPacket,
+  MonsterCalculatorArchetype,
+  MonsterTier,
+  Power,
+} from "@/lib/summoning/types";
+
+const MONSTER_TIERS: MonsterTier[] = ["MINION", "SOLDIER", "ELITE", "BOSS"];
+const DICE_STEPS: DiceSize[] = ["D4", "D6", "D8", "D10", "D12"];
+const MAX_MONSTER_LEVEL = 20;
+const MAX_POWER_DICE = 20;
+
+const ATTRIBUTE_KEYS = [
+  "attackDie",
+  "guardDie",
+  "fortitudeDie",
+  "intellectDie",
+  "synergyDie",
+  "braveryDie",
+] as const;
+
+type AttributeKey = (typeof ATTRIBUTE_KEYS)[number];
+export type MonsterRescaleAttributes = Record<AttributeKey, DiceSize>;
+
+export type MonsterRescaleTarget = {
+  level: number;
+  tier: MonsterTier;
+  legendary: boolean;
+};
+
+export type MonsterRescaleSource = MonsterRescaleTarget &
+  MonsterRescaleAttributes & {
+    calculatorArchetype: MonsterCalculatorArchetype;
+    physicalResilienceMax: number;
+    mentalPerseveranceMax: number;
+    weaponSkillValue: number;
+    armorSkillValue: number;
+  };
+
+export type MonsterRescaleFields = MonsterRescaleTarget &
+  MonsterRescaleAttributes & {
+    physicalResilienceCurrent: number;
+    physicalResilienceMax: number;
+    mentalPerseveranceCurrent: number;
+    mentalPerseveranceMax: number;
+    weaponSkillValue: number;
+    armorSkillValue: number;
+  };
+
+export type MonsterRescaleChange = {
+  field: string;
+  from: string | number | boolean;
+  to: string | number | boolean;
+};
+
+export type MonsterRescalePowerBand = {
+  powerIndex: number;
+  name: string;
+  sourceLoad: number;
+  sourceBracket: DerivedPowerCooldownBracket;
+  targetLoad: number;
+  targetBracket: DerivedPowerCooldownBracket;
+};
+
+export type MonsterRescaleReport = {
+  changes: MonsterRescaleChange[];
+  attributeGuide: { before: AttributeBalancingGuide; after: AttributeBalancingGuide };
+  powerBands: MonsterRescalePowerBand[];
+  warnings: string[];
+};
+
+export type MonsterRescaleResult = {
+  fields: MonsterRescaleFields;
+  powers: Power[];
+  report: MonsterRescaleReport;
+};
+
+export class MonsterRescaleError extends Error {
+  readonly code: "INVALID_RESCALE_TARGET";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MonsterRescaleError";
+    this.code = "INVALID_RESCALE_TARGET";
+  }
+}
+
+export function parseMonsterRescaleTarget(body: unknown): MonsterRescaleTarget {
+  const raw = (body && typeof body === "object" ? body : {}) as {
+    level?: unknown;
+    tier?: unknown;
+    legendary?: unknown;
+  };
+  const level = typeof raw.level === "number" ? raw.level : Number(raw.level);
+  if (!Number.isInteger(level) || level < 1 || level > MAX_MONSTER_LEVEL) {
+    throw new MonsterRescaleError(`level must be an integer between 1 and ${MAX_MONSTER_LEVEL}`);
+  }
+  if (!MONSTER_TIERS.includes(raw.tier as MonsterTier)) {
+    throw new MonsterRescaleError(`tier must be one of ${MONSTER_TIERS.join(", ")}`);
+  }
+  if (typeof raw.legendary !== "boolean") {
+    throw new MonsterRescaleError("legendary must be true or false");
+  }
+  return { level, tier: raw.tier as MonsterTier, legendary: raw.legendary };
+}
+
+function pickAttributes(source: MonsterRescaleAttributes): MonsterRescaleAttributes {
+  return Object.fromEntries(ATTRIBUTE_KEYS.map((key) => [key, source[key]])) as MonsterRescaleAttributes;
+}
+
+function attributeGuide(
+  attributes: MonsterRescaleAttributes,
+  level: number,
+  tier: MonsterTier,
+  archetype: MonsterCalculatorArchetype,
+) {
+  return evaluateAttributeBalancingGuide({ level, tier, archetype, attributes });
+}
+
+/**
+ * Moves attribute dice one step at a time until the spread sits as far from the target budget as
+ * the source sat from its own. Each step goes to the attribute that has moved least so far, and
+ * steps that would change the guide's shape or weakness readout are taken only as a last resort.
+ */
+export function rescaleAttributes(
+  source: MonsterRescaleAttributes,
+  from: { level: number; tier: MonsterTier },
+  to: { level: number; tier: MonsterTier },
+  archetype: MonsterCalculatorArchetype,
+): MonsterRescaleAttributes {
+  const before = attributeGuide(source, from.level, from.tier, archetype);
+  const targetTotal = getExpectedAttributeTotal(to.level, to.tier) + before.budgetDelta;
+  const attributes = pickAttributes(source);
+  const moved = Object.fromEntries(ATTRIBUTE_KEYS.map((key) => [key, 0])) as Record<AttributeKey, number>;
+  let remaining = Math.round((targetTotal - before.currentTotal) / 2);
+  const direction = Math.sign(remaining);
+
+  while (remaining !== 0) {
+    const candidates = ATTRIBUTE_KEYS.flatMap((key) => {
+      const stepIndex = DICE_STEPS.indexOf(attributes[key]) + direction;
+      if (stepIndex < 0 || stepIndex >= DICE_STEPS.length) return [];
+      const next = { ...attributes, [key]: DICE_STEPS[stepIndex] };
+      const guide = attributeGuide(next, to.level, to.tier, archetype);
+      return [
+        {
+          key,
+          die: DICE_STEPS[stepIndex],
+          keepsShape: guide.shapeReadout === before.shapeReadout && guide.weaknessReadout === before.weaknessReadout,
+          value: getAttributeNumericValue(attributes[key]),
+        },
+      ];
+    });
+    if (candidates.length === 0) break;
+    candidates.sort(
+      (a, b) =>
+        Number(b.keepsShape) - Number(a.keepsShape) ||
+        moved[a.key] - moved[b.key] ||
+        // Raise peaks first and trim from the bottom up, so the spread keeps its highlights.
+        (direction > 0 ? b.value - a.value : a.value - b.value),
+    );
+    const chosen = candidates[0];
+    attributes[chosen.key] = chosen.die;
+    moved[chosen.key] += 1;
+    remaining -= direction;
+  }
+  return attributes;
+}
+
+function packetsOf(power: Power): EffectPacket[] {
+  if (Array.isArray(power.effectPackets) && power.effectPackets.length > 0) return power.effectPackets;
+  return Array.isArray(power.intentions) ? power.intentions : [];
+}
+
+function scaleDice(value: number, factor: number): number {
+  return Math.max(1, Math.min(MAX_POWER_DICE, Math.round(value * factor)));
+}
+
+function withScaledDice(power: Power, factor: number): Power {
+  const scalePacket = (packet: EffectPacket): EffectPacket =>
+    typeof packet.diceCount === "number" ? { ...packet, diceCount: scaleDice(packet.diceCount, factor) } : packet;
+  return {
+    ...power,
+    diceCount: scaleDice(power.diceCount, factor),
+    ...(Array.isArray(power.effectPackets) ? { effectPackets: power.effectPackets.map(scalePacket) } : {}),
+    ...(Array.isArray(power.intentions) ? { intentions: power.intentions.map(scalePacket) } : {}),
+  };
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let index = 0; index < a.length; index += 1) {
+    if (a[index] !== b[index]) return a[index] - b[index];
+  }
+  return 0;
+}
+
+function powerLoad(power: Power, tuning: PowerTuningSnapshot | null, level: number, tier: MonsterTier) {
+  const { cooldownLoad, cooldownBracket } = resolvePowerCost(power, tuning ?? undefined, { level, tier })
+    .derivedCooldown;
+  return { load: cooldownLoad, bracket: cooldownBracket };
+}
+
+/**
+ * Scales every dice count in a power by one factor, picking the factor whose cooldown load at the
+ * target level and tier is closest to the source's load. Matching the bracket beats a closer load.
+ */
+export function rescalePowerDice(
+  power: Power,
+  powerIndex: number,
+  from: { level: number; tier: MonsterTier },
+  to: { level: number; tier: MonsterTier },
+  tuning: PowerTuningSnapshot | null,
+): { power: Power; band: MonsterRescalePowerBand } {
+  const source = powerLoad(power, tuning, from.level, from.tier);
+  const leadDice = Math.max(
+    1,
+    power.diceCount,
+    ...packetsOf(power).map((packet) => (typeof packet.diceCount === "number" ? packet.diceCount : 0)),
+  );
+  let best: { power: Power; load: number; bracket: DerivedPowerCooldownBracket; score: number[] } | null = null;
+  for (let leadTarget = 1; leadTarget <= MAX_POWER_DICE; leadTarget += 1) {
+    const candidate = withScaledDice(power, leadTarget / leadDice);
+    const { load, bracket } = powerLoad(candidate, tuning, to.level, to.tier);
+    const score = [
+      bracket === source.bracket ? 0 : 1,
+      Math.abs(load - source.load),
+      Math.abs(leadTarget - leadDice),
+    ];
+    if (!best || compareScores(score, best.score) < 0) best = { power: candidate, load, bracket, score };
+  }
+  const chosen = best!;
+  return {
+    power: chosen.power,
+    band: {
+      powerIndex,
+      name: power.name,
+      sourceLoad: source.load,
+      sourceBracket: source.bracket,
+      targetLoad: chosen.load,
+      targetBracket: chosen.bracket,
+    },
+  };
+}
+
+function pushChange(changes: MonsterRescaleChange[], field: string, from: MonsterRescaleChange["from"], to: MonsterRescaleChange["to"]) {
+  if (from !== to) changes.push({ field, from, to });
+}
+
+/**
+ * Rebuilds a monster for a new level, tier, and legendary flag. Derived pools and skills keep any
+ * hand-authored offset from their formula value; every field that moves is listed in the report.
+ */
+export function rescaleMonster(
+  source: MonsterRescaleSource,
+  powers: Power[],
+  target: MonsterRescaleTarget,
+  tuning: { protection: ProtectionTuningValues; power: PowerTuningSnapshot | null },
+): MonsterRescaleResult {
+  const attributes = rescaleAttributes(source, source, target, source.calculatorArchetype);
+  const sourcePools = calculateMonsterResilienceValues(source, tuning.protection);
+  const targetPools = calculateMonsterResilienceValues({ ...target, ...attributes }, tuning.protection);
+  const physicalResilienceMax = Math.max(
+    1,
+    targetPools.physicalResilienceMax + source.physicalResilienceMax - sourcePools.physicalResilienceMax,
+  );
+  const mentalPerseveranceMax = Math.max(
+    1,
+    targetPools.mentalPerseveranceMax + source.mentalPerseveranceMax - sourcePools.mentalPerseveranceMax,
+  );
+  const weaponSkillValue = Math.max(
+    1,
+    getWeaponSkillDiceCountFromAttributes(attributes.attackDie, attributes.braveryDie, tuning.protection) +
+      source.weaponSkillValue -
+      getWeaponSkillDiceCountFromAttributes(source.attackDie, source.braveryDie, tuning.protection),
+  );
+  const armorSkillValue = Math.max(
+    1,
+    getArmorSkillDiceCountFromAttributes(attributes.guardDie, attributes.fortitudeDie, tuning.protection) +
+      source.armorSkillValue -
+      getArmorSkillDiceCountFromAttributes(source.guardDie, source.fortitudeDie, tuning.protection),
+  );
+  const fields: MonsterRescaleFields = {
+    ...target,
+    ...attributes,
+    physicalResilienceCurrent: physicalResilienceMax,
+    physicalResilienceMax,
+    mentalPerseveranceCurrent: mentalPerseveranceMax,
+    mentalPerseveranceMax,
+    weaponSkillValue,
+    armorSkillValue,
+  };
+
+  const changes: MonsterRescaleChange[] = [];
+  pushChange(changes, "level", source.level, target.level);
+  pushChange(changes, "tier", source.tier, target.tier);
+  pushChange(changes, "legendary", source.legendary, target.legendary);
+  for (const key of ATTRIBUTE_KEYS) pushChange(changes, key, source[key], attributes[key]);
+  pushChange(changes, "physicalResilienceMax", source.physicalResilienceMax, physicalResilienceMax);
+  pushChange(changes, "mentalPerseveranceMax", source.mentalPerseveranceMax, mentalPerseveranceMax);
+  pushChange(changes, "weaponSkillValue", source.weaponSkillValue, weaponSkillValue);
+  pushChange(changes, "armorSkillValue", source.armorSkillValue, armorSkillValue);
+
+  const warnings: string[] = [];
+  const powerBands: MonsterRescalePowerBand[] = [];
+  const scaledPowers = powers.map((power, powerIndex) => {
+    let rescaled: ReturnType<typeof rescalePowerDice>;
+    try {
+      rescaled = rescalePowerDice(power, powerIndex, source, target, tuning.power);
+    } catch (error) {
+      warnings.push(`${power.name}: dice left unchanged (${error instanceof Error ? error.message : String(error)})`);
+      return power;
+    }
+    powerBands.push(rescaled.band);
+    if (rescaled.band.targetBracket !== rescaled.band.sourceBracket) {
+      warnings.push(
+        `${power.name}: no dice count keeps the ${rescaled.band.sourceBracket} band; closest is ${rescaled.band.targetBracket}`,
+      );
+    }
+    pushChange(changes, `powers[${powerIndex}].diceCount`, power.diceCount, rescaled.power.diceCount);
+    packetsOf(power).forEach((packet, packetIndex) => {
+      const next = packetsOf(rescaled.power)[packetIndex];
+      if (typeof packet.diceCount === "number" && typeof next?.diceCount === "number") {
+        pushChange(changes, `powers[${powerIndex}].effectPackets[${packetIndex}].diceCount`, packet.diceCount, next.diceCount);
+      }
+    });
+    return rescaled.power;
+  });
+
+  return {
+    fields,
+    powers: scaledPowers,
+    report: {
+      changes,
+      attributeGuide: {
+        before: attributeGuide(pickAttributes(source), source.level, source.tier, source.calculatorArchetype),
+        after: attributeGuide(attributes, target.level, target.tier, source.calculatorArchetype),
+      },
+      powerBands,
+      warnings,
+    },
+  };
+}
@@ -0,0 +1,261 @@
+/** A serialized monster as the editor loads it, frozen at save time. */
+export type MonsterRevisionSnapshot = Record<string, unknown>;
+
+export type MonsterRevisionSummary = {
+  id: string;
+  revision: number;
+  savedByUserId: string;
+  powerTuningSetId: string | null;
+  combatTuningSetId: string | null;
+  restoredFromRevision: number | null;
+  createdAt: string;
+};
+
+export type MonsterRevision = MonsterRevisionSummary & {
+  snapshot: MonsterRevisionSnapshot;
+};
+
+export type MonsterRevisionDiffSection = "monster" | "attributes" | "traits" | "tags" | "attacks" | "powers" | "packets";
+
+export type MonsterRevisionDiffEntry = {
+  section: MonsterRevisionDiffSection;
+  path: string;
+  change: "added" | "removed" | "changed";
+  before: unknown;
+  after: unknown;
+};
+
+/** Row bookkeeping and derived read-only fields that never count as an edit. */
+const IGNORED_MONSTER_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "campaignId",
+  "source",
+  "isReadOnly",
+  "diagnostics",
+  "attackMode",
+  "equippedWeaponId",
+  "tags",
+  "traits",
+  "attacks",
+  "naturalAttack",
+  "powers",
+]);
+const IGNORED_POWER_FIELDS = new Set(["id", "monsterId", "effectPackets", "intentions"]);
+const IGNORED_PACKET_FIELDS = new Set(["id", "powerId"]);
+const ATTRIBUTE_FIELD_PATTERN =
+  /^((attack|guard|fortitude|intellect|synergy|bravery)(Die|ResistDie|Modifier)|(weapon|armor)Skill(Value|Modifier))$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function diffFields(
+  entries: MonsterRevisionDiffEntry[],
+  section: MonsterRevisionDiffSection | ((field: string) => MonsterRevisionDiffSection),
+  prefix: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  ignored: Set<string>,
+) {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !ignored.has(field))
+    .sort();
+  for (const field of fields) {
+    if (sameValue(before[field], after[field])) continue;
+    entries.push({
+      section: typeof section === "function" ? section(field) : section,
+      path: `${prefix}${field}`,
+      change: !(field in before) ? "added" : !(field in after) ? "removed" : "changed",
+      before: before[field],
+      after: after[field],
+    });
+  }
+}
+
+function traitKey(trait: Record<string, unknown>): string {
+  return String(trait.traitDefinitionId ?? "");
+}
+
+function traitLabel(trait: Record<string, unknown>): string {
+  const nested = isRecord(trait.trait) ? trait.trait : {};
+  return String(nested.name ?? trait.name ?? trait.traitDefinitionId ?? "");
+}
+
+function tagValues(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [])
+    .map((tag) => (isRecord(tag) ? tag.tag : tag))
+    .filter((tag): tag is string => typeof tag === "string");
+}
+
+function bySortOrder(rows: Record<string, unknown>[]) {
+  return [...rows].sort((a, b) => Number(a.sortOrder ?? 0) - Number(b.sortOrder ?? 0));
+}
+
+/**
+ * Pairs rows by id, then by a fallback key for rows whose id changed (for example after a
+ * restore created fresh rows). Unpaired rows come back as additions or removals.
+ */
+function pairRows(
+  before: Record<string, unknown>[],
+  after: Record<string, unknown>[],
+  fallbackKey: (row: Record<string, unknown>, index: number) => string,
+) {
+  const pairs: Array<{ before?: Record<string, unknown>; after?: Record<string, unknown>; index: number }> = [];
+  const unmatchedAfter = new Set(after.map((_, index) => index));
+  before.forEach((row, index) => {
+    let matchIndex = typeof row.id === "string" ? after.findIndex((candidate) => candidate.id === row.id) : -1;
+    if (matchIndex < 0 || !unmatchedAfter.has(matchIndex)) {
+      matchIndex = after.findIndex(
+        (candidate, candidateIndex) =>
+          unmatchedAfter.has(candidateIndex) && fallbackKey(candidate, candidateIndex) === fallbackKey(row, index),
+      );
+    }
+    if (matchIndex >= 0) unmatchedAfter.delete(matchIndex);
+    pairs.push({ before: row, after: matchIndex >= 0 ? after[matchIndex] : undefined, index });
+  });
+  for (const index of unmatchedAfter) pairs.push({ after: after[index], index });
+  return pairs;
+}
+
+function powerLabel(power: Record<string, unknown>, index: number): string {
+  return typeof power.name === "string" && power.name.trim() ? power.name : `#${index + 1}`;
+}
+
+/** Field-level differences between two monster snapshots, grouped by editor section. */
+export function diffMonsterRevisionSnapshots(
+  before: MonsterRevisionSnapshot,
+  after: MonsterRevisionSnapshot,
+): MonsterRevisionDiffEntry[] {
+  const entries: MonsterRevisionDiffEntry[] = [];
+  diffFields(
+    entries,
+    (field) => (ATTRIBUTE_FIELD_PATTERN.test(field) ? "attributes" : "monster"),
+    "",
+    before,
+    after,
+    IGNORED_MONSTER_FIELDS,
+  );
+
+  const traitsBefore = bySortOrder(records(before.traits));
+  const traitsAfter = bySortOrder(records(after.traits));
+  const afterTraitKeys = new Set(traitsAfter.map(traitKey));
+  const beforeTraitKeys = new Set(traitsBefore.map(traitKey));
+  for (const trait of traitsBefore) {
+    if (afterTraitKeys.has(traitKey(trait))) continue;
+    entries.push({ section: "traits", path: `traits[${traitLabel(trait)}]`, change: "removed", before: traitLabel(trait), after: undefined });
+  }
+  for (const trait of traitsAfter) {
+    if (beforeTraitKeys.has(traitKey(trait))) continue;
+    entries.push({ section: "traits", path: `traits[${traitLabel(trait)}]`, change: "added", before: undefined, after: traitLabel(trait) });
+  }
+  const keptBefore = traitsBefore.filter((trait) => afterTraitKeys.has(traitKey(trait))).map(traitLabel);
+  const keptAfter = traitsAfter.filter((trait) => beforeTraitKeys.has(traitKey(trait))).map(traitLabel);
+  if (!sameValue(keptBefore, keptAfter)) {
+    entries.push({ section: "traits", path: "traits.order", change: "changed", before: keptBefore, after: keptAfter });
+  }
+
+  const tagsBefore = new Set(tagValues(before.tags));
+  const tagsAfter = new Set(tagValues(after.tags));
+  for (const tag of tagsBefore) {
+    if (!tagsAfter.has(tag)) entries.push({ section: "tags", path: `tags[${tag}]`, change: "removed", before: tag, after: undefined });
+  }
+  for (const tag of tagsAfter) {
+    if (!tagsBefore.has(tag)) entries.push({ section: "tags", path: `tags[${tag}]`, change: "added", before: undefined, after: tag });
+  }
+
+  const attacksBefore = bySortOrder(records(before.attacks));
+  const attacksAfter = bySortOrder(records(after.attacks));
+  for (let index = 0; index < Math.max(attacksBefore.length, attacksAfter.length); index += 1) {
+    const a = attacksBefore[index];
+    const b = attacksAfter[index];
+    if (!a || !b) {
+      entries.push({
+        section: "attacks",
+        path: `attacks[${index}]`,
+        change: a ? "removed" : "added",
+        before: a?.attackName,
+        after: b?.attackName,
+      });
+      continue;
+    }
+    for (const field of ["attackName", "attackConfig"]) {
+      if (sameValue(a[field], b[field])) continue;
+      entries.push({ section: "attacks", path: `attacks[${index}].${field}`, change: "changed", before: a[field], after: b[field] });
+    }
+  }
+
+  const powerPairs = pairRows(records(before.powers), records(after.powers), (power) => String(power.name ?? ""));
+  for (const pair of powerPairs) {
+    const label = powerLabel((pair.after ?? pair.before)!, pair.index);
+    if (!pair.before || !pair.after) {
+      entries.push({
+        section: "powers",
+        path: `powers[${label}]`,
+        change: pair.before ? "removed" : "added",
+        before: pair.before?.name,
+        after: pair.after?.name,
+      });
+      continue;
+    }
+    diffFields(entries, "powers", `powers[${label}].`, pair.before, pair.after, IGNORED_POWER_FIELDS);
+    const packetPairs = pairRows(
+      records(pair.before.effectPackets),
+      records(pair.after.effectPackets),
+      (packet, index) => String(packet.packetIndex ?? index),
+    );
+    for (const packetPair of packetPairs) {
+      const packetIndex = Number((packetPair.after ?? packetPair.before)?.packetIndex ?? packetPair.index);
+      const path = `powers[${label}].packets[${packetIndex}]`;
+      if (!packetPair.before || !packetPair.after) {
+        entries.push({
+          section: "packets",
+          path,
+          change: packetPair.before ? "removed" : "added",
+          before: packetPair.before?.intention,
+          after: packetPair.after?.intention,
+        });
+        continue;
+      }
+      diffFields(entries, "packets", `${path}.`, packetPair.before, packetPair.after, IGNORED_PACKET_FIELDS);
+    }
+  }
+
+  return entries;
+}
+
+/** Turns a snapshot back into a monster upsert body, keeping power and packet ids. */
+export function monsterRevisionRestoreBody(snapshot: MonsterRevisionSnapshot): Record<string, unknown> {
+  return {
+    ...snapshot,
+    tags: tagValues(snapshot.tags),
+  };
+}
+
+/** Short display form of a diff value; long values are clipped for the history panel. */
+export function formatMonsterRevisionValue(value: unknown, maxLength = 80): string {
+  if (value === undefined || value === null || value === "") return "(none)";
+  const text = typeof value === "string" ? value : stableStringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
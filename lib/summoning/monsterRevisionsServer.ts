@@ -0,0 +1,91 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+
+import { getActiveCombatTuningSet } from "@/lib/config/combatTuning";
+import type {
+  MonsterRevision,
+  MonsterRevisionSnapshot,
+  MonsterRevisionSummary,
+} from "@/lib/summoning/monsterRevisions";
+import { prisma } from "@/prisma/client";
+
+const REVISION_LIST_LIMIT = 200;
+
+const REVISION_SUMMARY_SELECT = {
+  id: true,
+  revision: true,
+  savedByUserId: true,
+  powerTuningSetId: true,
+  combatTuningSetId: true,
+  restoredFromRevision: true,
+  createdAt: true,
+} satisfies Prisma.MonsterRevisionSelect;
+
+type StoredRevisionSummary = Prisma.MonsterRevisionGetPayload<{ select: typeof REVISION_SUMMARY_SELECT }>;
+
+function toSummary(row: StoredRevisionSummary): MonsterRevisionSummary {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+/**
+ * Appends the next immutable revision for a monster. Call it inside the transaction that saved
+ * the monster so a failed save never leaves a revision behind.
+ */
+export async function recordMonsterRevision(
+  tx: Prisma.TransactionClient,
+  params: {
+    monsterId: string;
+    savedByUserId: string;
+    snapshot: MonsterRevisionSnapshot;
+    powerTuningSetId: string | null;
+    restoredFromRevision?: number | null;
+  },
+): Promise<MonsterRevisionSummary> {
+  const [latest, combatTuning] = await Promise.all([
+    tx.monsterRevision.aggregate({
+      where: { monsterId: params.monsterId },
+      _max: { revision: true },
+    }),
+    getActiveCombatTuningSet(),
+  ]);
+  const row = await tx.monsterRevision.create({
+    data: {
+      monsterId: params.monsterId,
+      revision: (latest._max.revision ?? 0) + 1,
+      savedByUserId: params.savedByUserId,
+      powerTuningSetId: params.powerTuningSetId,
+      combatTuningSetId: combatTuning?.setId ?? null,
+      restoredFromRevision: params.restoredFromRevision ?? null,
+      snapshotJson: JSON.parse(JSON.stringify(params.snapshot)) as Prisma.InputJsonValue,
+    },
+    select: REVISION_SUMMARY_SELECT,
+  });
+  return toSummary(row);
+}
+
+export async function listMonsterRevisions(monsterId: string): Promise<MonsterRevisionSummary[]> {
+  const rows = await prisma.monsterRevision.findMany({
+    where: { monsterId },
+    orderBy: { revision: "desc" },
+    take: REVISION_LIST_LIMIT,
+    select: REVISION_SUMMARY_SELECT,
+  });
+  return rows.map(toSummary);
+}
+
+export async function getMonsterRevision(monsterId: string, revision: number): Promise<MonsterRevision | null> {
+  const row = await prisma.monsterRevision.findUnique({
+    where: { monsterId_revision: { monsterId, revision } },
+    select: { ...REVISION_SUMMARY_SELECT, snapshotJson: true },
+  });
+  if (!row) return null;
+  const { snapshotJson, ...summary } = row;
+  return {
+    ...toSummary(summary),
+    snapshot:
+      snapshotJson && typeof snapshotJson === "object" && !Array.isArray(snapshotJson)
+        ? (snapshotJson as MonsterRevisionSnapshot)
+        : {},
+  };
+}
@@ -0,0 +1,310 @@
+import type { Prisma } from "@prisma/client";
+import type { RadarAxes } from "@/lib/calculators/monsterOutcomeCalculator";
+import type { MonsterSource, MonsterTier, PowerIntention } from "@/lib/summoning/types";
+
+const MONSTER_TIERS: MonsterTier[] = ["MINION", "SOLDIER", "ELITE", "BOSS"];
+const MONSTER_SOURCES: MonsterSource[] = ["CORE", "CAMPAIGN"];
+const POWER_INTENTIONS: PowerIntention[] = [
+  "ATTACK",
+  "DEFENCE",
+  "HEALING",
+  "CLEANSE",
+  "CONTROL",
+  "MOVEMENT",
+  "SUPPORT",
+  "AUGMENT",
+  "DEBUFF",
+  "SUMMONING",
+  "TRANSFORMATION",
+];
+
+export const MONSTER_SEARCH_RADAR_AXES: Array<keyof RadarAxes> = [
+  "physicalThreat",
+  "mentalThreat",
+  "physicalSurvivability",
+  "mentalSurvivability",
+  "manipulation",
+  "synergy",
+  "mobility",
+  "presence",
+];
+const MONSTER_SEARCH_FIELD_SORTS = ["updatedAt", "name", "level"] as const;
+
+/** Page size used when a cursor arrives without an explicit limit. */
+export const MONSTER_SEARCH_DEFAULT_LIMIT = 50;
+export const MONSTER_SEARCH_MAX_LIMIT = 100;
+
+export type MonsterSearchRadarAxis = keyof RadarAxes;
+export type MonsterSearchFieldSort = (typeof MONSTER_SEARCH_FIELD_SORTS)[number];
+export type MonsterSearchSort = MonsterSearchFieldSort | MonsterSearchRadarAxis;
+export type MonsterSearchOrder = "asc" | "desc";
+
+export type MonsterSearchCursor = {
+  sort: MonsterSearchSort;
+  order: MonsterSearchOrder;
+  value: string | number;
+  id: string;
+};
+
+export type MonsterSearchQuery = {
+  q: string | null;
+  tiers: MonsterTier[];
+  legendary: boolean | null;
+  minLevel: number | null;
+  maxLevel: number | null;
+  source: MonsterSource | null;
+  tags: string[];
+  tagMode: "any" | "all";
+  /** Every listed trait definition must be on the monster. */
+  traitIds: string[];
+  /** At least one power must carry an effect packet with one of these intentions. */
+  intentions: PowerIntention[];
+  sort: MonsterSearchSort;
+  order: MonsterSearchOrder;
+  /** Null keeps the unpaginated response the editor has always used. */
+  limit: number | null;
+  cursor: MonsterSearchCursor | null;
+};
+
+export class MonsterSearchError extends Error {
+  readonly code: "INVALID_MONSTER_SEARCH";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MonsterSearchError";
+    this.code = "INVALID_MONSTER_SEARCH";
+  }
+}
+
+export function isMonsterSearchRadarSort(sort: MonsterSearchSort): sort is MonsterSearchRadarAxis {
+  return (MONSTER_SEARCH_RADAR_AXES as string[]).includes(sort);
+}
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return Array.from(
+    new Set(
+      params
+        .getAll(name)
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0),
+    ),
+  );
+}
+
+function enumListParam<T extends string>(params: URLSearchParams, name: string, allowed: readonly T[]): T[] {
+  const values = listParam(params, name).map((value) => value.toUpperCase());
+  const invalid = values.filter((value) => !(allowed as readonly string[]).includes(value));
+  if (invalid.length > 0) {
+    throw new MonsterSearchError(`${name} must be one of ${allowed.join(", ")} (got ${invalid.join(", ")})`);
+  }
+  return values as T[];
+}
+
+function intParam(params: URLSearchParams, name: string, min: number, max: number): number | null {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return null;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new MonsterSearchError(`${name} must be an integer from ${min} to ${max}`);
+  }
+  return value;
+}
+
+export function encodeMonsterSearchCursor(cursor: MonsterSearchCursor): string {
+  return Buffer.from(
+    JSON.stringify({ s: cursor.sort, o: cursor.order, v: cursor.value, id: cursor.id }),
+    "utf8",
+  ).toString("base64url");
+}
+
+function decodeMonsterSearchCursor(raw: string): MonsterSearchCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    throw new MonsterSearchError("cursor is not valid");
+  }
+  const record = decoded as Record<string, unknown> | null;
+  if (
+    !record ||
+    typeof record !== "object" ||
+    typeof record.s !== "string" ||
+    (record.o !== "asc" && record.o !== "desc") ||
+    (typeof record.v !== "string" && typeof record.v !== "number") ||
+    typeof record.id !== "string"
+  ) {
+    throw new MonsterSearchError("cursor is not valid");
+  }
+  return { sort: record.s as MonsterSearchSort, order: record.o, value: record.v, id: record.id };
+}
+
+/**
+ * Reads the monster list query string. Every filter is optional, so a bare `campaignId` request
+ * still returns the full list ordered by most recently updated.
+ */
+export function parseMonsterSearchParams(params: URLSearchParams): MonsterSearchQuery {
+  const q = params.get("q")?.trim() || null;
+
+  const legendaryRaw = params.get("legendary");
+  let legendary: boolean | null = null;
+  if (legendaryRaw !== null && legendaryRaw !== "") {
+    if (legendaryRaw !== "true" && legendaryRaw !== "false") {
+      throw new MonsterSearchError("legendary must be true or false");
+    }
+    legendary = legendaryRaw === "true";
+  }
+
+  const minLevel = intParam(params, "minLevel", 1, 100);
+  const maxLevel = intParam(params, "maxLevel", 1, 100);
+  if (minLevel !== null && maxLevel !== null && minLevel > maxLevel) {
+    throw new MonsterSearchError("minLevel cannot be above maxLevel");
+  }
+
+  const sources = enumListParam(params, "source", MONSTER_SOURCES);
+  if (sources.length > 1) throw new MonsterSearchError("source takes a single value");
+
+  const tagMode = params.get("tagMode") ?? "any";
+  if (tagMode !== "any" && tagMode !== "all") {
+    throw new MonsterSearchError("tagMode must be any or all");
+  }
+
+  const sortRaw = params.get("sort") || "updatedAt";
+  const sortOptions: string[] = [...MONSTER_SEARCH_FIELD_SORTS, ...MONSTER_SEARCH_RADAR_AXES];
+  if (!sortOptions.includes(sortRaw)) {
+    throw new MonsterSearchError(`sort must be one of ${sortOptions.join(", ")}`);
+  }
+  const sort = sortRaw as MonsterSearchSort;
+  const orderRaw = params.get("order") || (sort === "name" ? "asc" : "desc");
+  if (orderRaw !== "asc" && orderRaw !== "desc") {
+    throw new MonsterSearchError("order must be asc or desc");
+  }
+
+  const cursorRaw = params.get("cursor");
+  const cursor = cursorRaw ? decodeMonsterSearchCursor(cursorRaw) : null;
+  if (cursor && (cursor.sort !== sort || cursor.order !== orderRaw)) {
+    throw new MonsterSearchError("cursor belongs to a different sort; start again without a cursor");
+  }
+  const limit =
+    intParam(params, "limit", 1, MONSTER_SEARCH_MAX_LIMIT) ?? (cursor ? MONSTER_SEARCH_DEFAULT_LIMIT : null);
+
+  return {
+    q,
+    tiers: enumListParam(params, "tier", MONSTER_TIERS),
+    legendary,
+    minLevel,
+    maxLevel,
+    source: sources[0] ?? null,
+    tags: listParam(params, "tags"),
+    tagMode,
+    traitIds: listParam(params, "traits"),
+    intentions: enumListParam(params, "intentions", POWER_INTENTIONS),
+    sort,
+    order: orderRaw,
+    limit,
+    cursor,
+  };
+}
+
+/** Filters for a search, always limited to CORE monsters and this campaign's own. */
+export function buildMonsterSearchWhere(query: MonsterSearchQuery, campaignId: string): Prisma.MonsterWhereInput {
+  const and: Prisma.MonsterWhereInput[] = [
+    query.source === "CORE"
+      ? { source: "CORE" }
+      : query.source === "CAMPAIGN"
+        ? { source: "CAMPAIGN", campaignId }
+        : { OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }] },
+  ];
+  if (query.q) and.push({ name: { contains: query.q, mode: "insensitive" } });
+  if (query.tiers.length > 0) and.push({ tier: { in: query.tiers } });
+  if (query.legendary !== null) and.push({ legendary: query.legendary });
+  if (query.minLevel !== null || query.maxLevel !== null) {
+    and.push({
+      level: {
+        ...(query.minLevel !== null ? { gte: query.minLevel } : {}),
+        ...(query.maxLevel !== null ? { lte: query.maxLevel } : {}),
+      },
+    });
+  }
+  // Tags keep the author's casing, so matching ignores case.
+  const tagMatches = query.tags.map((tag) => ({ tag: { equals: tag, mode: "insensitive" as const } }));
+  if (query.tagMode === "all") {
+    for (const match of tagMatches) and.push({ tags: { some: match } });
+  } else if (tagMatches.length > 0) {
+    and.push({ tags: { some: { OR: tagMatches } } });
+  }
+  for (const traitDefinitionId of query.traitIds) {
+    and.push({ traits: { some: { traitDefinitionId } } });
+  }
+  if (query.intentions.length > 0) {
+    and.push({ powers: { some: { effectPackets: { some: { intention: { in: query.intentions } } } } } });
+  }
+  return { AND: and };
+}
+
+/** Keyset ordering for the stored sort fields; radar axes are ordered in memory instead. */
+export function monsterSearchOrderBy(
+  query: MonsterSearchQuery,
+): Prisma.MonsterOrderByWithRelationInput[] {
+  const field: MonsterSearchFieldSort = isMonsterSearchRadarSort(query.sort) ? "updatedAt" : query.sort;
+  return [{ [field]: query.order }, { id: "asc" }];
+}
+
+/** Rows strictly after the cursor for a stored sort field, or null when there is no cursor. */
+export function monsterSearchCursorWhere(query: MonsterSearchQuery): Prisma.MonsterWhereInput | null {
+  const { cursor } = query;
+  if (!cursor || isMonsterSearchRadarSort(query.sort)) return null;
+  const value = query.sort === "updatedAt" ? new Date(cursor.value) : cursor.value;
+  const beyond = query.order === "asc" ? { gt: value } : { lt: value };
+  return {
+    OR: [{ [query.sort]: beyond }, { [query.sort]: value, id: { gt: cursor.id } }],
+  };
+}
+
+function compareMonsterSearchKeys(
+  a: { value: number; id: string },
+  b: { value: number; id: string },
+  order: MonsterSearchOrder,
+) {
+  if (a.value !== b.value) return order === "asc" ? a.value - b.value : b.value - a.value;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Sorts entries by a computed value with the same id tie-break as the stored sorts and drops
+ * everything up to and including the cursor.
+ */
+export function sortMonsterSearchEntries<T extends { id: string }>(
+  entries: T[],
+  query: MonsterSearchQuery,
+  valueOf: (entry: T) => number,
+): T[] {
+  const keyed = entries.map((entry) => ({ entry, key: { value: valueOf(entry), id: entry.id } }));
+  keyed.sort((a, b) => compareMonsterSearchKeys(a.key, b.key, query.order));
+  const { cursor } = query;
+  const remaining =
+    cursor && typeof cursor.value === "number"
+      ? keyed.filter(
+          (item) => compareMonsterSearchKeys(item.key, { value: cursor.value as number, id: cursor.id }, query.order) > 0,
+        )
+      : keyed;
+  return remaining.map((item) => item.entry);
+}
+
+/**
+ * Cuts sorted rows to the requested page. Callers fetch one row beyond the limit so the next
+ * cursor is only issued when another page exists.
+ */
+export function pageMonsterSearchResults<T extends { id: string }>(
+  rows: T[],
+  query: MonsterSearchQuery,
+  valueOf: (row: T) => string | number,
+): { page: T[]; nextCursor: string | null } {
+  if (query.limit === null || rows.length <= query.limit) return { page: rows, nextCursor: null };
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    page,
+    nextCursor: encodeMonsterSearchCursor({ sort: query.sort, order: query.order, value: valueOf(last), id: last.id }),
+  };
+}
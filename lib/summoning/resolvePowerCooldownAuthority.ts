@@ -7,6 +7,7 @@ import {
   type PowerCostContext,
 } from "@/lib/summoning/powerCostResolver";
 import type {
+  MonsterUpsertInput,
   Power,
   PowerCooldownAuthorityMode,
   PowerCooldownAuthorityResolution,
@@ -112,6 +113,27 @@ export function attachPowerCooldownAuthority(
   };
 }
 
+/** Resolves every power on a monster against the active balance, as print and stat block export show them. */
+export function resolveMonsterCooldownAuthorities(
+  monster: MonsterUpsertInput,
+  tuningSnapshot: PowerTuningSnapshot | null,
+): MonsterUpsertInput {
+  return {
+    ...monster,
+    powers: monster.powers.map((power) =>
+      attachPowerCooldownAuthority(
+        power,
+        resolvePowerCooldownAuthority({
+          power,
+          mode: "ACTIVE_CURRENT_BALANCE",
+          tuningSnapshot,
+          context: { level: monster.level, tier: monster.tier },
+        }),
+      ),
+    ),
+  };
+}
+
 export function makeResolvedPowerCooldownAuthority(params: {
   effectiveCooldownTurns: number;
   source: PowerCooldownAuthorityResult["source"];
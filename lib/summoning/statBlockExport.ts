@@ -0,0 +1,625 @@
+import type {
+  AttributePlacement,
+  CoreAttribute,
+  LimitBreakTier,
+  MonsterAttack,
+  MonsterNaturalAttackConfig,
+  MonsterUpsertInput,
+} from "@/lib/summoning/types";
+import {
+  calculateMonsterResilienceValues,
+  getArmorSkillDiceCountFromAttributes,
+  getDodgeValue,
+  getWeaponSkillDiceCountFromAttributes,
+  getWillpowerDiceCountFromAttributes,
+} from "@/lib/summoning/attributes";
+import {
+  getHighestItemModifiers,
+  getProtectionTotalsFromItems,
+  type EquipmentSlotKey,
+  type MonsterModifierField,
+  type SummoningEquipmentItem,
+} from "@/lib/summoning/equipment";
+import {
+  formatModifierWithEffective,
+  renderAttackActionLines,
+  renderPowerDescriptorLines,
+} from "@/lib/summoning/render";
+import { describeMonsterPhaseTrigger } from "@/lib/summoning/monsterPhases";
+import { buildMonsterTraitRenderContext, dieNumeric, renderTraitTemplate } from "@/lib/summoning/traitTemplate";
+import { safeParseJson, interpolateText } from "@/lib/textInterpolation";
+import {
+  getAttributeLimitBreakCeiling,
+  getLimitBreakRequiredSuccesses,
+  getLimitBreakThresholdPercent,
+  getWeaponLimitBreakCeiling,
+} from "@/lib/limitBreakThreshold";
+import {
+  normalizeCombatTuning,
+  normalizeProtectionTuning,
+  type ProtectionTuningValues,
+} from "@/lib/config/combatTuningShared";
+import { getRestrictionReadOnlyModel } from "@/lib/restrictions/editorModel";
+
+export const MONSTER_STAT_BLOCK_FORMATS = ["markdown", "text"] as const;
+export type MonsterStatBlockFormat = (typeof MONSTER_STAT_BLOCK_FORMATS)[number];
+export const MAX_STAT_BLOCK_EXPORT_SIZE = 50;
+
+/** Equipment as the print card sees it; the mythic template only matters for legendary limit breaks. */
+export type MonsterStatBlockItem = SummoningEquipmentItem & {
+  mythicLimitBreakTemplate?: {
+    name: string;
+    tier: string;
+    thresholdPercent: number;
+    description: string | null;
+    successEffectParams: unknown;
+    baseCostText: string | null;
+    baseCostParams: unknown;
+    endCostText: string | null;
+    endCostParams: unknown;
+  } | null;
+};
+
+export type MonsterStatBlockLine = { label: string | null; text: string };
+
+export type MonsterStatBlockEntry = {
+  title: string | null;
+  subtitle: string | null;
+  lines: MonsterStatBlockLine[];
+};
+
+export type MonsterStatBlockSection = { title: string; entries: MonsterStatBlockEntry[] };
+
+/** Everything the print card shows, flattened to text so it can be written out in any format. */
+export type MonsterStatBlock = {
+  name: string;
+  subtitle: string;
+  physicalResilience: number;
+  mentalPerseverance: number;
+  attributes: Array<{ label: string; die: string; modifier: string; resistDice: number }>;
+  sections: MonsterStatBlockSection[];
+};
+
+const ATTRIBUTE_ROWS = [
+  ["Attack", "attackDie", "attackResistDie", "attackModifier"],
+  ["Guard", "guardDie", "guardResistDie", "guardModifier"],
+  ["Fortitude", "fortitudeDie", "fortitudeResistDie", "fortitudeModifier"],
+  ["Intellect", "intellectDie", "intellectResistDie", "intellectModifier"],
+  ["Synergy", "synergyDie", "synergyResistDie", "synergyModifier"],
+  ["Bravery", "braveryDie", "braveryResistDie", "braveryModifier"],
+] as const;
+
+const EQUIPMENT_SLOTS: EquipmentSlotKey[] = [
+  "mainHandItemId",
+  "offHandItemId",
+  "smallItemId",
+  "headArmorItemId",
+  "shoulderArmorItemId",
+  "torsoArmorItemId",
+  "legsArmorItemId",
+  "feetArmorItemId",
+  "headItemId",
+  "neckItemId",
+  "armsItemId",
+  "beltItemId",
+];
+
+const WEAPON_SLOTS: Array<{ slotLabel: string; key: EquipmentSlotKey }> = [
+  { slotLabel: "Main Hand", key: "mainHandItemId" },
+  { slotLabel: "Off Hand", key: "offHandItemId" },
+  { slotLabel: "Small Slot", key: "smallItemId" },
+];
+
+const GUARD_VRP_RE = /^([+-]?\d+)\s+(to Defence rolls|dice to Defence rolls)\s+against\s+(.+?)\s+attacks$/i;
+
+function formatTierLabel(value: unknown): string {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!s) return "";
+  return `${s[0].toUpperCase()}${s.slice(1).toLowerCase()}`;
+}
+
+function formatDie(value: string | null | undefined): string {
+  return value ? `D${value.replace("D", "")}` : "D?";
+}
+
+function clampProtection(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(30, Math.trunc(value))) : 0;
+}
+
+function parseHeaderLine(line: string): MonsterStatBlockLine {
+  const parts = String(line).split("||");
+  if (parts.length < 2) return { label: null, text: line };
+  return { label: parts[0].trim() || null, text: parts.slice(1).join("||").trim() };
+}
+
+function normalizePlacement(value: unknown): AttributePlacement {
+  const raw = String(value ?? "").toUpperCase();
+  if (raw === "ATTACK" || raw === "GUARD" || raw === "TRAITS" || raw === "GENERAL") return raw;
+  return raw === "DEFENCE" ? "GUARD" : "TRAITS";
+}
+
+function itemAttributeLines(item: MonsterStatBlockItem): Array<{ text: string; placement: AttributePlacement }> {
+  const raw = Array.isArray(item.allAttributeLines)
+    ? item.allAttributeLines
+    : [
+        ...(item.attributeLines ?? []),
+        ...(item.itemAttributeLines ?? []),
+        ...(item.customItemAttributeLines ?? []),
+      ];
+  return raw
+    .map((line) => ({ text: typeof line?.text === "string" ? line.text.trim() : "", placement: normalizePlacement(line?.placement) }))
+    .filter((line) => line.text.length > 0);
+}
+
+function equippedItemLines(
+  items: MonsterStatBlockItem[],
+  placement: AttributePlacement,
+): Array<{ text: string; sourceItemName: string }> {
+  const out: Array<{ text: string; sourceItemName: string }> = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    const sourceItemName = item.name.trim() || "Item";
+    for (const line of itemAttributeLines(item)) {
+      const key = `${sourceItemName}::${line.text}`;
+      if (line.placement !== placement || seen.has(key)) continue;
+      seen.add(key);
+      out.push({ text: line.text, sourceItemName });
+    }
+  }
+  return out;
+}
+
+/** Folds stacking Defence bonuses against one damage type into a single line, as the card does. */
+function compressGuardLines(
+  lines: Array<{ text: string; sourceItemName: string }>,
+): Array<{ text: string; sourceItemName: string }> {
+  const out: Array<{ text: string; sourceItemName: string }> = [];
+  const groups = new Map<string, { dice: boolean; damageType: string; total: number; sources: string[] }>();
+  for (const row of lines) {
+    const match = row.text.trim().match(GUARD_VRP_RE);
+    const amount = match ? Number(match[1]) : 0;
+    if (!match || !Number.isFinite(amount) || amount === 0) {
+      out.push(row);
+      continue;
+    }
+    const dice = match[2].toLowerCase().includes("dice");
+    const damageType = match[3].trim();
+    const key = `${dice ? "DICE" : "MOD"}::${damageType.toLowerCase()}`;
+    const existing = groups.get(key);
+    if (!existing) {
+      groups.set(key, { dice, damageType, total: amount, sources: [row.sourceItemName] });
+    } else {
+      existing.total += amount;
+      if (!existing.sources.includes(row.sourceItemName)) existing.sources.push(row.sourceItemName);
+    }
+  }
+  for (const group of groups.values()) {
+    const total = Math.max(-5, Math.min(5, group.total));
+    if (total === 0) continue;
+    const sign = total > 0 ? "+" : "";
+    out.push({
+      sourceItemName: group.sources.sort((a, b) => a.localeCompare(b)).join("/"),
+      text: `${sign}${total} ${group.dice ? "dice to" : "to"} Defence rolls against ${group.damageType} attacks`,
+    });
+  }
+  return out.sort((a, b) => {
+    const aIsVrp = /^[+-]\d+/.test(a.text.trim());
+    const bIsVrp = /^[+-]\d+/.test(b.text.trim());
+    if (aIsVrp !== bIsVrp) return aIsVrp ? -1 : 1;
+    return a.sourceItemName.localeCompare(b.sourceItemName) || a.text.localeCompare(b.text);
+  });
+}
+
+function renderableNaturalAttacks(monster: MonsterUpsertInput): MonsterAttack[] {
+  if (Array.isArray(monster.attacks) && monster.attacks.length > 0) {
+    return [...monster.attacks].sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+  if (!monster.naturalAttack) return [];
+  return [
+    {
+      sortOrder: 0,
+      attackMode: "NATURAL",
+      attackName: monster.naturalAttack.attackName ?? "Natural Weapon",
+      attackConfig: monster.naturalAttack.attackConfig,
+    },
+  ];
+}
+
+function attributeLimitBreakContext(
+  monster: MonsterUpsertInput,
+  attribute: CoreAttribute | null,
+): { value: number | null; label: string | null } {
+  const row = ATTRIBUTE_ROWS.find(([label]) => label.toUpperCase() === attribute);
+  return row ? { value: dieNumeric(monster[row[1]]), label: row[0] } : { value: null, label: null };
+}
+
+function innateLimitBreakEntry(
+  monster: MonsterUpsertInput,
+  slot: {
+    name: string | null;
+    tier: LimitBreakTier | null;
+    triggerText: string | null;
+    attribute: CoreAttribute | null;
+    thresholdSuccesses: number | null;
+    costText: string | null;
+    effectText: string | null;
+  },
+): MonsterStatBlockEntry | null {
+  const name = slot.name?.trim() ?? "";
+  const triggerText = slot.triggerText?.trim() ?? "";
+  const costText = slot.costText?.trim() ?? "";
+  const effectText = slot.effectText?.trim() ?? "";
+  if (!name && !slot.tier && !triggerText && !slot.attribute && slot.thresholdSuccesses === null && !costText && !effectText) {
+    return null;
+  }
+  const context = attributeLimitBreakContext(monster, slot.attribute);
+  const thresholdPercent = getLimitBreakThresholdPercent(slot.tier);
+  const threshold =
+    typeof slot.thresholdSuccesses === "number" && Number.isFinite(slot.thresholdSuccesses)
+      ? Math.max(1, Math.trunc(slot.thresholdSuccesses))
+      : context.value !== null && thresholdPercent !== null
+        ? getLimitBreakRequiredSuccesses(getAttributeLimitBreakCeiling(context.value), thresholdPercent)
+        : null;
+  const resolvedName = name || "Custom Limit Break";
+  return {
+    title: `Innate - ${resolvedName}${slot.tier ? ` (${slot.tier})` : ""}`,
+    subtitle: null,
+    lines: [
+      {
+        label: null,
+        text: `Roll ${context.value ?? "—"}${context.label ? ` ${context.label}` : ""} dice. ${resolvedName} executes on ${threshold ?? "—"} successes.`,
+      },
+      ...(triggerText ? [{ label: "Trigger", text: triggerText }] : []),
+      ...(costText ? [{ label: "Cost", text: costText }] : []),
+      ...(effectText ? [{ label: "Effect", text: effectText }] : []),
+    ],
+  };
+}
+
+function mythicLimitBreakEntry(monster: MonsterUpsertInput, items: MonsterStatBlockItem[]): MonsterStatBlockEntry | null {
+  const item = items.find((candidate) => candidate.mythicLimitBreakTemplate);
+  const template = item?.mythicLimitBreakTemplate;
+  if (!item || !template) return null;
+  const baseCostText = interpolateText(template.baseCostText ?? "", safeParseJson(template.baseCostParams)).trim();
+  const endCostText = interpolateText(template.endCostText ?? "", safeParseJson(template.endCostParams)).trim();
+  const effectText = interpolateText(template.description ?? "", safeParseJson(template.successEffectParams)).trim();
+  const costText = baseCostText || endCostText;
+  const weaponSkill = Number.isFinite(monster.weaponSkillValue) ? monster.weaponSkillValue : null;
+  const thresholdPercent = Number.isFinite(Number(template.thresholdPercent)) ? Number(template.thresholdPercent) : 0;
+  const threshold =
+    weaponSkill === null
+      ? null
+      : getLimitBreakRequiredSuccesses(getWeaponLimitBreakCeiling(weaponSkill), thresholdPercent);
+  return {
+    title: `${item.name.trim() || "Item"} - ${template.name} (${template.tier})`,
+    subtitle: null,
+    lines: [
+      { label: null, text: `Roll ${weaponSkill ?? "—"} dice. ${template.name} executes on ${threshold ?? "—"} successes.` },
+      ...(costText ? [{ label: "Cost", text: costText }] : []),
+      ...(effectText ? [{ label: "Effect", text: effectText }] : []),
+    ],
+  };
+}
+
+/**
+ * Builds the stat block the print card renders: the same derived skills, defence rolls, trait text,
+ * attack and power lines, limit breaks and boss phases. `itemsById` should hold the monster's
+ * equipped items; missing items are skipped like the card skips them.
+ */
+export function buildMonsterStatBlock(params: {
+  monster: MonsterUpsertInput;
+  itemsById?: Record<string, MonsterStatBlockItem>;
+  protectionTuning?: ProtectionTuningValues;
+}): MonsterStatBlock {
+  const { monster, itemsById = {} } = params;
+  const combatTuning = normalizeCombatTuning(params.protectionTuning);
+  const protectionTuning = normalizeProtectionTuning(
+    params.protectionTuning?.protectionK,
+    params.protectionTuning?.protectionS,
+  );
+  const items = EQUIPMENT_SLOTS.map((slot) => monster[slot])
+    .map((id) => (id ? itemsById[id] : undefined))
+    .filter((item): item is MonsterStatBlockItem => Boolean(item));
+  const itemModifiers = getHighestItemModifiers(items);
+  const itemProtection = getProtectionTotalsFromItems(items);
+  const hasItemSlots = EQUIPMENT_SLOTS.some((slot) => Boolean(monster[slot]));
+
+  const weaponSkillValue = Math.max(
+    1,
+    getWeaponSkillDiceCountFromAttributes(monster.attackDie, monster.braveryDie, combatTuning) +
+      Math.max(0, Math.trunc(itemModifiers.weaponSkillModifier ?? 0)),
+  );
+  const armorSkillValue = Math.max(
+    1,
+    getArmorSkillDiceCountFromAttributes(monster.guardDie, monster.fortitudeDie, combatTuning) +
+      Math.max(0, Math.trunc(itemModifiers.armorSkillModifier ?? 0)),
+  );
+  const physicalProtection = clampProtection(monster.naturalPhysicalProtection) + itemProtection.physicalProtection;
+  const mentalProtection = clampProtection(monster.naturalMentalProtection) + itemProtection.mentalProtection;
+  const dodgeValue = Math.max(
+    0,
+    getDodgeValue(monster.guardDie, monster.intellectDie, monster.level, physicalProtection, combatTuning),
+  );
+  const willpowerValue = Math.max(
+    1,
+    getWillpowerDiceCountFromAttributes(monster.synergyDie, monster.braveryDie, combatTuning) +
+      Math.max(0, Math.trunc(itemModifiers.willpowerModifier ?? 0)),
+  );
+  const resilience = calculateMonsterResilienceValues(monster, combatTuning);
+
+  const attributes = ATTRIBUTE_ROWS.map(([label, dieKey, resistKey, modKey]) => ({
+    label,
+    die: formatDie(monster[dieKey]),
+    modifier: formatModifierWithEffective(
+      hasItemSlots ? itemModifiers[modKey as MonsterModifierField] : Number(monster[modKey]),
+    ),
+    resistDice: Number(monster[resistKey]),
+  }));
+
+  const traitContext = buildMonsterTraitRenderContext({
+    monster,
+    weaponSkillValue,
+    armorSkillValue,
+    willpowerValue,
+    dodgeValue,
+  });
+  const traitEntries: MonsterStatBlockEntry[] = [
+    ...monster.traits.map((trait) => ({
+      title: trait.name?.trim() || "Trait",
+      subtitle: null,
+      lines: [{ label: null, text: renderTraitTemplate(trait.effectText?.trim() || "No description", traitContext) }],
+    })),
+    ...equippedItemLines(items, "TRAITS").map((row) => ({
+      title: row.sourceItemName,
+      subtitle: null,
+      lines: [{ label: null, text: row.text }],
+    })),
+  ];
+  const generalLines = equippedItemLines(items, "GENERAL");
+  if (generalLines.length > 0) {
+    traitEntries.push({
+      title: null,
+      subtitle: null,
+      lines: generalLines.map((row) => ({ label: null, text: row.text })),
+    });
+  }
+
+  const dodgeDice = Math.max(0, Math.ceil(dodgeValue / 6) + Math.max(0, Math.trunc(itemModifiers.dodgeModifier ?? 0)));
+  const physicalBlockPerSuccess =
+    physicalProtection <= 0
+      ? 0
+      : Math.ceil((physicalProtection / protectionTuning.protectionK) * (1 + armorSkillValue / protectionTuning.protectionS));
+  const mentalBlockPerSuccess =
+    mentalProtection <= 0
+      ? 0
+      : Math.ceil((mentalProtection / protectionTuning.protectionK) * (1 + willpowerValue / protectionTuning.protectionS));
+  const guardEntries: MonsterStatBlockEntry[] = [
+    {
+      title: null,
+      subtitle: null,
+      lines: [
+        {
+          label: "Dodge",
+          text: `Roll ${dodgeDice} dice. If successes match or exceed the attacker’s successes, take 0 damage. Otherwise take full damage.`,
+        },
+        { label: "Physical Protection", text: `Roll ${armorSkillValue} dice, block ${physicalBlockPerSuccess} wounds per success.` },
+        { label: "Mental Protection", text: `Roll ${willpowerValue} dice, block ${mentalBlockPerSuccess} wounds per success.` },
+      ],
+    },
+  ];
+  const guardItemLines = compressGuardLines(equippedItemLines(items, "GUARD"));
+  if (guardItemLines.length > 0) {
+    guardEntries.push({
+      title: null,
+      subtitle: null,
+      lines: guardItemLines.map((row) => ({ label: row.sourceItemName, text: row.text })),
+    });
+  }
+
+  const attackEntries: MonsterStatBlockEntry[] = [];
+  for (const slot of WEAPON_SLOTS) {
+    const id = monster[slot.key];
+    const item = id ? itemsById[id] : undefined;
+    if (!item || (item.type !== "WEAPON" && item.type !== "SHIELD")) continue;
+    const lines = renderAttackActionLines(
+      { melee: item.melee, ranged: item.ranged, aoe: item.aoe } as MonsterNaturalAttackConfig,
+      weaponSkillValue,
+      { applyWeaponSkillOverride: true },
+    );
+    if (lines.length === 0) continue;
+    const placementLines = Array.from(
+      new Set(itemAttributeLines(item).filter((line) => line.placement === "ATTACK").map((line) => line.text)),
+    );
+    attackEntries.push({
+      title: `${slot.slotLabel}: ${item.name}`,
+      subtitle: null,
+      lines: [...placementLines.map((text) => ({ label: null, text })), ...lines.map(parseHeaderLine)],
+    });
+  }
+  for (const attack of renderableNaturalAttacks(monster)) {
+    const attackName = String(attack.attackName ?? "").trim() || "Natural Weapon";
+    const lines = renderAttackActionLines(
+      (attack.attackConfig ?? {}) as MonsterNaturalAttackConfig,
+      weaponSkillValue,
+      { applyWeaponSkillOverride: true },
+    ).map((line) => line.replace(/This weapon inflicts/g, `${attackName} inflicts`));
+    attackEntries.push({
+      title: `Natural Weapon: ${attack.attackName ?? "Natural Weapon"}`,
+      subtitle: null,
+      lines: lines.map(parseHeaderLine),
+    });
+  }
+
+  const powerEntries: MonsterStatBlockEntry[] = monster.powers.map((power) => {
+    const cooldownTurns = power.cooldownAuthority?.effectiveCooldownTurns;
+    const restriction = power.restriction
+      ? getRestrictionReadOnlyModel(power.restriction, { consumerNoun: "Power" }).descriptor
+      : null;
+    const commitment =
+      power.commitmentModifier && power.commitmentModifier !== "STANDARD"
+        ? ` | Commitment: ${power.commitmentModifier === "CHANNEL" ? "Channel" : "Charge"}`
+        : "";
+    return {
+      title: power.name,
+      subtitle: power.description?.trim() || null,
+      lines: [
+        ...renderPowerDescriptorLines(power).map((text) => ({ label: null, text })),
+        ...(restriction ? [{ label: null, text: restriction }] : []),
+        {
+          label: null,
+          text: `Cooldown: ${
+            typeof cooldownTurns === "number" && Number.isFinite(cooldownTurns)
+              ? Math.max(1, Math.trunc(cooldownTurns))
+              : "Unresolved"
+          } | Counter: ${power.counterMode === "YES" ? "Yes" : "No"}${commitment}`,
+        },
+      ],
+    };
+  });
+
+  const limitBreakEntries = [
+    mythicLimitBreakEntry(monster, items),
+    ...(monster.legendary
+      ? [
+          innateLimitBreakEntry(monster, {
+            name: monster.limitBreakName,
+            tier: monster.limitBreakTier,
+            triggerText: monster.limitBreakTriggerText,
+            attribute: monster.limitBreakAttribute,
+            thresholdSuccesses: monster.limitBreakThresholdSuccesses,
+            costText: monster.limitBreakCostText,
+            effectText: monster.limitBreakEffectText,
+          }),
+          innateLimitBreakEntry(monster, {
+            name: monster.limitBreak2Name ?? null,
+            tier: monster.limitBreak2Tier ?? null,
+            triggerText: monster.limitBreak2TriggerText ?? null,
+            attribute: monster.limitBreak2Attribute ?? null,
+            thresholdSuccesses: monster.limitBreak2ThresholdSuccesses ?? null,
+            costText: monster.limitBreak2CostText ?? null,
+            effectText: monster.limitBreak2EffectText ?? null,
+          }),
+        ]
+      : []),
+  ].filter((entry): entry is MonsterStatBlockEntry => entry !== null);
+
+  const phaseEntries: MonsterStatBlockEntry[] = (monster.phases ?? []).map((phase) => {
+    const powerName = (sortOrder: number) => monster.powers[sortOrder]?.name?.trim() || `Power ${sortOrder + 1}`;
+    const traitNames = (traits: typeof phase.addTraits) => traits.map((trait) => trait.name ?? "Unknown trait").join(", ");
+    const changes: string[] = [];
+    if (phase.addPowerSortOrders.length > 0) changes.push(`Gains ${phase.addPowerSortOrders.map(powerName).join(", ")}`);
+    if (phase.removePowerSortOrders.length > 0) changes.push(`Loses ${phase.removePowerSortOrders.map(powerName).join(", ")}`);
+    if (phase.addTraits.length > 0) changes.push(`Gains ${traitNames(phase.addTraits)}`);
+    if (phase.removeTraits.length > 0) changes.push(`Loses ${traitNames(phase.removeTraits)}`);
+    if (phase.physicalProtectionDelta !== 0) {
+      changes.push(`Physical Protection ${phase.physicalProtectionDelta > 0 ? "+" : ""}${phase.physicalProtectionDelta}`);
+    }
+    if (phase.mentalProtectionDelta !== 0) {
+      changes.push(`Mental Protection ${phase.mentalProtectionDelta > 0 ? "+" : ""}${phase.mentalProtectionDelta}`);
+    }
+    const transitionText = phase.transitionText?.trim() ?? "";
+    return {
+      title: phase.name,
+      subtitle: describeMonsterPhaseTrigger(phase),
+      lines: [
+        ...(changes.length > 0 ? [{ label: null, text: `${changes.join(". ")}.` }] : []),
+        ...(transitionText ? [{ label: null, text: transitionText }] : []),
+      ],
+    };
+  });
+
+  const notes = (monster.customNotes ?? "")
+    .split(/\r?\n/g)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const sections: MonsterStatBlockSection[] = [
+    { title: "Traits", entries: traitEntries },
+    { title: "Guard", entries: guardEntries },
+    {
+      title: "Attacks",
+      entries: attackEntries.length > 0 ? attackEntries : [{ title: null, subtitle: null, lines: [{ label: null, text: "No attack lines." }] }],
+    },
+    {
+      title: "Powers",
+      entries: powerEntries.length > 0 ? powerEntries : [{ title: null, subtitle: null, lines: [{ label: null, text: "None" }] }],
+    },
+    { title: "Limit Break", entries: limitBreakEntries },
+    { title: "Boss Phases", entries: phaseEntries },
+    { title: "Notes", entries: notes.length > 0 ? [{ title: null, subtitle: null, lines: notes.map((text) => ({ label: null, text })) }] : [] },
+  ];
+
+  return {
+    name: monster.name?.trim() ? monster.name : "Unnamed Monster",
+    subtitle: `Level ${monster.level} | ${monster.legendary ? "Legendary " : ""}${formatTierLabel(monster.tier)}`,
+    physicalResilience: resilience.physicalResilienceMax,
+    mentalPerseverance: resilience.mentalPerseveranceMax,
+    attributes,
+    sections: sections.filter((section) => section.entries.length > 0),
+  };
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|<>])/g, "\\$1");
+}
+
+export function renderMonsterStatBlockMarkdown(block: MonsterStatBlock): string {
+  const out: string[] = [
+    `## ${escapeMarkdown(block.name)}`,
+    `*${escapeMarkdown(block.subtitle)}*`,
+    "",
+    `**Physical Resilience:** ${block.physicalResilience} | **Mental Perseverance:** ${block.mentalPerseverance}`,
+    "",
+    "| Attribute | Die | Mod | Resist |",
+    "| --- | --- | --- | --- |",
+    ...block.attributes.map(
+      (row) => `| ${row.label} | ${row.die} | ${escapeMarkdown(row.modifier)} | ${row.resistDice} Dice |`,
+    ),
+  ];
+  for (const section of block.sections) {
+    out.push("", `### ${section.title}`);
+    for (const entry of section.entries) {
+      out.push("");
+      if (entry.title) {
+        out.push(`**${escapeMarkdown(entry.title)}**${entry.subtitle ? ` - *${escapeMarkdown(entry.subtitle)}*` : ""}`);
+      } else if (entry.subtitle) {
+        out.push(`*${escapeMarkdown(entry.subtitle)}*`);
+      }
+      for (const line of entry.lines) {
+        out.push(`- ${line.label ? `**${escapeMarkdown(line.label)}:** ` : ""}${escapeMarkdown(line.text)}`);
+      }
+    }
+  }
+  return `${out.join("\n")}\n`;
+}
+
+export function renderMonsterStatBlockText(block: MonsterStatBlock): string {
+  const labelWidth = Math.max(...block.attributes.map((row) => row.label.length));
+  const out: string[] = [
+    block.name.toUpperCase(),
+    block.subtitle,
+    `Physical Resilience ${block.physicalResilience} | Mental Perseverance ${block.mentalPerseverance}`,
+    "",
+    ...block.attributes.map(
+      (row) => `${row.label.padEnd(labelWidth)}  ${row.die.padEnd(4)} Mod ${row.modifier}, Resist ${row.resistDice} Dice`,
+    ),
+  ];
+  for (const section of block.sections) {
+    out.push("", section.title.toUpperCase());
+    for (const entry of section.entries) {
+      const indent = entry.title ? "  " : "";
+      if (entry.title) out.push(`${entry.title}${entry.subtitle ? ` (${entry.subtitle})` : ""}`);
+      else if (entry.subtitle) out.push(entry.subtitle);
+      for (const line of entry.lines) {
+        out.push(`${indent}${line.label ? `${line.label}: ` : ""}${line.text}`);
+      }
+    }
+  }
+  return `${out.join("\n")}\n`;
+}
+
+/** Renders several stat blocks into one document, separated so they stay readable when pasted. */
+export function renderMonsterStatBlocks(blocks: MonsterStatBlock[], format: MonsterStatBlockFormat): string {
+  if (format === "markdown") return blocks.map(renderMonsterStatBlockMarkdown).join("\n---\n\n");
+  return blocks.map(renderMonsterStatBlockText).join(`\n${"=".repeat(40)}\n\n`);
+}
@@ -337,6 +337,33 @@ export type MonsterAttack = {
   attackConfig: MonsterNaturalAttackConfig | null;
 };
 
+export const MONSTER_PHASE_TRIGGER_TYPES = ["RESILIENCE_PERCENT", "ROUND"] as const;
+export type MonsterPhaseTriggerType = (typeof MONSTER_PHASE_TRIGGER_TYPES)[number];
+
+export type MonsterPhaseTrait = {
+  traitDefinitionId: string;
+  name: string | null;
+};
+
+/**
+ * A boss form change. Power references are power sortOrders; protection deltas and power/trait
+ * changes stack on top of the previous phase.
+ */
+export type MonsterPhase = {
+  sortOrder: number;
+  name: string;
+  triggerType: MonsterPhaseTriggerType;
+  /** Physical Resilience percentage at or below which the phase starts, or the round it starts on. */
+  triggerValue: number;
+  addPowerSortOrders: number[];
+  removePowerSortOrders: number[];
+  addTraits: MonsterPhaseTrait[];
+  removeTraits: MonsterPhaseTrait[];
+  physicalProtectionDelta: number;
+  mentalProtectionDelta: number;
+  transitionText: string | null;
+};
+
 export type MonsterRecord = {
   id: string;
   createdAt: string;
@@ -418,6 +445,8 @@ export type MonsterRecord = {
     attackConfig: MonsterNaturalAttackConfig;
   } | null;
   powers: Power[];
+  /** Absent on monsters saved before boss phases existed. */
+  phases?: MonsterPhase[];
 };
 
 export type MonsterUpsertInput = Omit<
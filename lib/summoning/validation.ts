@@ -32,6 +32,7 @@ import {
   validateThreeFieldAugmentDebuffPowers,
 } from "@/lib/powers/authoringRules";
 import { readSummoningOpaqueId } from "@/lib/summoning/monsterPowerReconciliation";
+import { normalizeMonsterPhases } from "@/lib/summoning/monsterPhases";
 import { applyAutomaticExpectedTargetsToPower } from "@/lib/powers/expectedTargetEstimation";
 import { normalizeMonsterRestrictionForWrite } from "@/lib/restrictions/monsterPersistence";
 
@@ -1839,6 +1840,9 @@ export function normalizeMonsterUpsertInput(
       effectText: trait.effectText ?? null,
     }));
 
+  const phasesResult = normalizeMonsterPhases(raw.phases, normalizedPowers.length);
+  if (!phasesResult.ok) return { ok: false, error: phasesResult.error };
+
   const data: MonsterUpsertInput = {
     name,
     imageUrl: asNullableString(raw.imageUrl),
@@ -1922,6 +1926,7 @@ export function normalizeMonsterUpsertInput(
         : null,
     attacks,
     powers: normalizedPowers,
+    phases: phasesResult.phases,
   };
 
   return { ok: true, data };
@@ -123,14 +123,53 @@ async function seedPicklists() {
   }
 }
 
+// ----------------------------------------
+// Forge cost set the config and cost rows belong to
+// ----------------------------------------
+const DEFAULT_FORGE_COST_SET_NAME = 'Forge Costs Default v1';
+const DEFAULT_FORGE_COST_SET_SLUG = 'forge-costs-default-v1';
+
+// Same resolution as ensureActiveForgeCostSet in lib/config/forgeCostSets.ts
+async function ensureActiveForgeCostSetId() {
+  const active = await prisma.forgeCostConfigSet.findFirst({
+    where: { status: 'ACTIVE' },
+    orderBy: [{ activatedAt: 'desc' }, { updatedAt: 'desc' }],
+    select: { id: true },
+  });
+  if (active) return active.id;
+
+  const seed = await prisma.forgeCostConfigSet.findUnique({
+    where: { slug: DEFAULT_FORGE_COST_SET_SLUG },
+    select: { id: true },
+  });
+  if (seed) {
+    await prisma.forgeCostConfigSet.update({
+      where: { id: seed.id },
+      data: { status: 'ACTIVE', activatedAt: new Date() },
+    });
+    return seed.id;
+  }
+
+  const created = await prisma.forgeCostConfigSet.create({
+    data: {
+      name: DEFAULT_FORGE_COST_SET_NAME,
+      slug: DEFAULT_FORGE_COST_SET_SLUG,
+      status: 'ACTIVE',
+      activatedAt: new Date(),
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
 // ----------------------------------------
 // ForgeConfig (multipliers)
 // ----------------------------------------
-async function seedConfig() {
+async function seedConfig(configSetId) {
   const rows = readCsv('ForgeConfig.csv');
 
-  // Nuke and repopulate – this table is pure config
-  await prisma.forgeConfigEntry.deleteMany();
+  // Nuke and repopulate the active set only – drafts and archived sets keep their rows
+  await prisma.forgeConfigEntry.deleteMany({ where: { configSetId } });
 
   for (const row of rows) {
     const categoryRaw = (row['Category'] || '').trim();
@@ -163,6 +202,7 @@ async function seedConfig() {
 
     await prisma.forgeConfigEntry.create({
       data: {
+        configSetId,
         category,
         selector1,
         selector2,
@@ -175,11 +215,11 @@ async function seedConfig() {
 // ----------------------------------------
 // ForgeCosts (cost rules)
 // ----------------------------------------
-async function seedCosts() {
+async function seedCosts(configSetId) {
   const rows = readCsv('ForgeCosts.csv');
 
-  // Same deal: pure config, safe to wipe and reinsert
-  await prisma.forgeCostEntry.deleteMany();
+  // Same deal: pure config, safe to wipe and reinsert within the active set
+  await prisma.forgeCostEntry.deleteMany({ where: { configSetId } });
 
   for (const row of rows) {
     const category = (row['Category'] || '').trim();
@@ -197,6 +237,7 @@ async function seedCosts() {
     // category string must match ForgeCostCategory enum exactly
     await prisma.forgeCostEntry.create({
       data: {
+        configSetId,
         category,
         selector1,
         selector2,
@@ -243,8 +284,9 @@ async function seedLimitBreakReferenceData() {
 
 async function main() {
   await seedPicklists();
-  await seedConfig();
-  await seedCosts();
+  const forgeCostSetId = await ensureActiveForgeCostSetId();
+  await seedConfig(forgeCostSetId);
+  await seedCosts(forgeCostSetId);
   await seedLimitBreakReferenceData();
 }
 
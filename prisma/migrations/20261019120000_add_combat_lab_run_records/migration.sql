@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CombatLabRunRecord" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "label" TEXT,
+    "scenarioName" TEXT NOT NULL,
+    "runs" INTEGER NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "maxRounds" INTEGER NOT NULL,
+    "turnOrder" TEXT NOT NULL,
+    "scenarioInputJson" JSONB NOT NULL,
+    "combatTuningSetId" TEXT,
+    "powerTuningSetId" TEXT,
+    "outcomeNormalizationSetId" TEXT,
+    "playerWinRate" DOUBLE PRECISION NOT NULL,
+    "monsterWinRate" DOUBLE PRECISION NOT NULL,
+    "stalemateRate" DOUBLE PRECISION NOT NULL,
+    "medianRounds" DOUBLE PRECISION NOT NULL,
+    "reportJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CombatLabRunRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CombatLabRunRecord_campaignId_createdAt_idx" ON "CombatLabRunRecord"("campaignId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CombatLabRunRecord" ADD CONSTRAINT "CombatLabRunRecord_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
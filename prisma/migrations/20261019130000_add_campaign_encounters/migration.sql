@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "CampaignEncounterStatus" AS ENUM ('ACTIVE', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "CampaignEncounter" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "CampaignEncounterStatus" NOT NULL DEFAULT 'ACTIVE',
+    "round" INTEGER NOT NULL DEFAULT 1,
+    "revision" INTEGER NOT NULL DEFAULT 0,
+    "stateJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CampaignEncounter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignEncounter_campaignId_status_updatedAt_idx" ON "CampaignEncounter"("campaignId", "status", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "CampaignEncounter" ADD CONSTRAINT "CampaignEncounter_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "CombatLabScenarioPreset" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "runs" INTEGER NOT NULL,
+    "seed" INTEGER,
+    "maxRounds" INTEGER NOT NULL,
+    "turnOrder" TEXT NOT NULL,
+    "scenarioInputJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CombatLabScenarioPreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CombatLabScenarioPreset_campaignId_name_key" ON "CombatLabScenarioPreset"("campaignId", "name");
+
+-- AddForeignKey
+ALTER TABLE "CombatLabScenarioPreset" ADD CONSTRAINT "CombatLabScenarioPreset_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "MonsterRevision" (
+    "id" TEXT NOT NULL,
+    "monsterId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "savedByUserId" TEXT NOT NULL,
+    "powerTuningSetId" TEXT,
+    "combatTuningSetId" TEXT,
+    "restoredFromRevision" INTEGER,
+    "snapshotJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MonsterRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MonsterRevision_monsterId_revision_key" ON "MonsterRevision"("monsterId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "MonsterRevision" ADD CONSTRAINT "MonsterRevision_monsterId_fkey" FOREIGN KEY ("monsterId") REFERENCES "Monster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
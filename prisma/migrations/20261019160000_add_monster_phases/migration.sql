@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Monster" ADD COLUMN     "phases" JSONB NOT NULL DEFAULT '[]';
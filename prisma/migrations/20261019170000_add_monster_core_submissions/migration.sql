@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "MonsterCoreSubmissionStatus" AS ENUM ('PENDING_REVIEW', 'CHANGES_REQUESTED', 'APPROVED');
+
+-- CreateEnum
+CREATE TYPE "MonsterCoreReviewAction" AS ENUM ('SUBMITTED', 'APPROVED', 'CHANGES_REQUESTED');
+
+-- AlterTable
+ALTER TABLE "Monster" ADD COLUMN     "promotedAuthorUserId" TEXT,
+ADD COLUMN     "promotedFromCampaignId" TEXT,
+ADD COLUMN     "promotedFromMonsterId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MonsterCoreSubmission" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "monsterId" TEXT,
+    "monsterName" TEXT NOT NULL,
+    "status" "MonsterCoreSubmissionStatus" NOT NULL DEFAULT 'PENDING_REVIEW',
+    "submissionRevision" INTEGER NOT NULL DEFAULT 1,
+    "snapshotJson" JSONB NOT NULL,
+    "submittedByUserId" TEXT NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "coreMonsterId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MonsterCoreSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MonsterCoreReviewEvent" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "action" "MonsterCoreReviewAction" NOT NULL,
+    "fromStatus" "MonsterCoreSubmissionStatus",
+    "toStatus" "MonsterCoreSubmissionStatus" NOT NULL,
+    "submissionRevision" INTEGER NOT NULL,
+    "actorUserId" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MonsterCoreReviewEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MonsterCoreSubmission_monsterId_key" ON "MonsterCoreSubmission"("monsterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MonsterCoreSubmission_coreMonsterId_key" ON "MonsterCoreSubmission"("coreMonsterId");
+
+-- CreateIndex
+CREATE INDEX "MonsterCoreSubmission_status_submittedAt_idx" ON "MonsterCoreSubmission"("status", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "MonsterCoreSubmission_campaignId_idx" ON "MonsterCoreSubmission"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "MonsterCoreReviewEvent_submissionId_createdAt_idx" ON "MonsterCoreReviewEvent"("submissionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MonsterCoreSubmission" ADD CONSTRAINT "MonsterCoreSubmission_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MonsterCoreSubmission" ADD CONSTRAINT "MonsterCoreSubmission_monsterId_fkey" FOREIGN KEY ("monsterId") REFERENCES "Monster"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MonsterCoreSubmission" ADD CONSTRAINT "MonsterCoreSubmission_coreMonsterId_fkey" FOREIGN KEY ("coreMonsterId") REFERENCES "Monster"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MonsterCoreReviewEvent" ADD CONSTRAINT "MonsterCoreReviewEvent_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "MonsterCoreSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
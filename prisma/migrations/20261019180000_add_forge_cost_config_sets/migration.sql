@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "ForgeCostConfigStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+-- CreateTable
+CREATE TABLE "ForgeCostConfigSet" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "status" "ForgeCostConfigStatus" NOT NULL DEFAULT 'DRAFT',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ForgeCostConfigSet_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the active set from the rows that were being edited in place.
+INSERT INTO "ForgeCostConfigSet" ("id", "name", "slug", "status", "notes", "activatedAt")
+VALUES (
+    'forge-costs-default-v1',
+    'Forge Costs Default v1',
+    'forge-costs-default-v1',
+    'ACTIVE',
+    'Seeded from the live ForgeCostEntry and ForgeConfigEntry rows.',
+    CURRENT_TIMESTAMP
+);
+
+-- AlterTable
+ALTER TABLE "ForgeCostEntry" ADD COLUMN "configSetId" TEXT;
+UPDATE "ForgeCostEntry" SET "configSetId" = 'forge-costs-default-v1';
+ALTER TABLE "ForgeCostEntry" ALTER COLUMN "configSetId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ForgeConfigEntry" ADD COLUMN "configSetId" TEXT;
+UPDATE "ForgeConfigEntry" SET "configSetId" = 'forge-costs-default-v1';
+ALTER TABLE "ForgeConfigEntry" ALTER COLUMN "configSetId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ItemTemplate" ADD COLUMN "ForgeCostSetID" TEXT;
+UPDATE "ItemTemplate" SET "ForgeCostSetID" = 'forge-costs-default-v1';
+
+-- DropIndex
+DROP INDEX "ForgeCostEntry_category_selector1_selector2_selector3_idx";
+
+-- DropIndex
+DROP INDEX "ForgeConfigEntry_category_selector1_selector2_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForgeCostConfigSet_slug_key" ON "ForgeCostConfigSet"("slug");
+
+-- CreateIndex
+CREATE INDEX "ForgeCostConfigSet_status_updatedAt_idx" ON "ForgeCostConfigSet"("status", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "ForgeCostEntry_configSetId_category_selector1_selector2_sel_idx" ON "ForgeCostEntry"("configSetId", "category", "selector1", "selector2", "selector3");
+
+-- CreateIndex
+CREATE INDEX "ForgeConfigEntry_configSetId_category_selector1_selector2_idx" ON "ForgeConfigEntry"("configSetId", "category", "selector1", "selector2");
+
+-- CreateIndex
+CREATE INDEX "ItemTemplate_ForgeCostSetID_idx" ON "ItemTemplate"("ForgeCostSetID");
+
+-- AddForeignKey
+ALTER TABLE "ForgeCostEntry" ADD CONSTRAINT "ForgeCostEntry_configSetId_fkey" FOREIGN KEY ("configSetId") REFERENCES "ForgeCostConfigSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForgeConfigEntry" ADD CONSTRAINT "ForgeConfigEntry_configSetId_fkey" FOREIGN KEY ("configSetId") REFERENCES "ForgeCostConfigSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemTemplate" ADD CONSTRAINT "ItemTemplate_ForgeCostSetID_fkey" FOREIGN KEY ("ForgeCostSetID") REFERENCES "ForgeCostConfigSet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
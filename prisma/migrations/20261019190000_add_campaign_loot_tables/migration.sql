@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "CampaignLootEntryKind" AS ENUM ('ITEM', 'RARITY', 'TAG', 'SUB_TABLE', 'NOTHING');
+
+-- AlterTable
+ALTER TABLE "CampaignEncounter" ADD COLUMN     "lootJson" JSONB;
+
+-- AlterTable
+ALTER TABLE "Monster" ADD COLUMN     "lootTableId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CampaignLootTable" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rollCount" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignLootTable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampaignLootTableEntry" (
+    "id" TEXT NOT NULL,
+    "lootTableId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "kind" "CampaignLootEntryKind" NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "minQuantity" INTEGER NOT NULL DEFAULT 1,
+    "maxQuantity" INTEGER NOT NULL DEFAULT 1,
+    "itemTemplateId" TEXT,
+    "rarity" "ItemRarity",
+    "tag" TEXT,
+    "subTableId" TEXT,
+
+    CONSTRAINT "CampaignLootTableEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignLootTable_campaignId_name_key" ON "CampaignLootTable"("campaignId", "name");
+
+-- CreateIndex
+CREATE INDEX "CampaignLootTable_campaignId_idx" ON "CampaignLootTable"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "CampaignLootTableEntry_lootTableId_sortOrder_idx" ON "CampaignLootTableEntry"("lootTableId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "CampaignLootTableEntry_itemTemplateId_idx" ON "CampaignLootTableEntry"("itemTemplateId");
+
+-- CreateIndex
+CREATE INDEX "CampaignLootTableEntry_subTableId_idx" ON "CampaignLootTableEntry"("subTableId");
+
+-- CreateIndex
+CREATE INDEX "Monster_lootTableId_idx" ON "Monster"("lootTableId");
+
+-- AddForeignKey
+ALTER TABLE "CampaignLootTable" ADD CONSTRAINT "CampaignLootTable_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignLootTableEntry" ADD CONSTRAINT "CampaignLootTableEntry_lootTableId_fkey" FOREIGN KEY ("lootTableId") REFERENCES "CampaignLootTable"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignLootTableEntry" ADD CONSTRAINT "CampaignLootTableEntry_itemTemplateId_fkey" FOREIGN KEY ("itemTemplateId") REFERENCES "ItemTemplate"("ItemID") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignLootTableEntry" ADD CONSTRAINT "CampaignLootTableEntry_subTableId_fkey" FOREIGN KEY ("subTableId") REFERENCES "CampaignLootTable"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Monster" ADD CONSTRAINT "Monster_lootTableId_fkey" FOREIGN KEY ("lootTableId") REFERENCES "CampaignLootTable"("id") ON DELETE SET NULL ON UPDATE CASCADE;
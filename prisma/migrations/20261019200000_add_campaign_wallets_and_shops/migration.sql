@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "CampaignWalletTransactionKind" AS ENUM ('ADJUSTMENT', 'TRANSFER', 'PURCHASE', 'SALE');
+
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "currencyName" TEXT NOT NULL DEFAULT 'Gold',
+ADD COLUMN     "partyFunds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pricingRule" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "CampaignCharacter" ADD COLUMN     "purse" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CampaignShop" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isOpen" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignShop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampaignShopItem" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "itemTemplateId" TEXT NOT NULL,
+    "priceOverride" INTEGER,
+    "stock" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignShopItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CampaignWalletTransaction" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "characterId" TEXT,
+    "kind" "CampaignWalletTransactionKind" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "note" TEXT,
+    "shopId" TEXT,
+    "itemTemplateId" TEXT,
+    "quantity" INTEGER,
+    "actorUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignWalletTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignShop_campaignId_name_key" ON "CampaignShop"("campaignId", "name");
+
+-- CreateIndex
+CREATE INDEX "CampaignShop_campaignId_idx" ON "CampaignShop"("campaignId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignShopItem_shopId_itemTemplateId_key" ON "CampaignShopItem"("shopId", "itemTemplateId");
+
+-- CreateIndex
+CREATE INDEX "CampaignShopItem_itemTemplateId_idx" ON "CampaignShopItem"("itemTemplateId");
+
+-- CreateIndex
+CREATE INDEX "CampaignWalletTransaction_campaignId_createdAt_idx" ON "CampaignWalletTransaction"("campaignId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CampaignWalletTransaction_characterId_idx" ON "CampaignWalletTransaction"("characterId");
+
+-- CreateIndex
+CREATE INDEX "CampaignWalletTransaction_shopId_idx" ON "CampaignWalletTransaction"("shopId");
+
+-- CreateIndex
+CREATE INDEX "CampaignWalletTransaction_itemTemplateId_idx" ON "CampaignWalletTransaction"("itemTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "CampaignShop" ADD CONSTRAINT "CampaignShop_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignShopItem" ADD CONSTRAINT "CampaignShopItem_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "CampaignShop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignShopItem" ADD CONSTRAINT "CampaignShopItem_itemTemplateId_fkey" FOREIGN KEY ("itemTemplateId") REFERENCES "ItemTemplate"("ItemID") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignWalletTransaction" ADD CONSTRAINT "CampaignWalletTransaction_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignWalletTransaction" ADD CONSTRAINT "CampaignWalletTransaction_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "CampaignCharacter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignWalletTransaction" ADD CONSTRAINT "CampaignWalletTransaction_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "CampaignShop"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignWalletTransaction" ADD CONSTRAINT "CampaignWalletTransaction_itemTemplateId_fkey" FOREIGN KEY ("itemTemplateId") REFERENCES "ItemTemplate"("ItemID") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "ItemTemplate" ADD COLUMN     "ConsumableCharges" INTEGER;
+
+-- AlterTable
+ALTER TABLE "CampaignCharacterBackpackItem" ADD COLUMN     "chargesRemaining" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CampaignItemUsageLog" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "characterId" TEXT,
+    "characterName" TEXT NOT NULL,
+    "itemTemplateId" TEXT,
+    "itemName" TEXT NOT NULL,
+    "chargesUsed" INTEGER NOT NULL,
+    "chargesRemaining" INTEGER NOT NULL,
+    "unitsRemaining" INTEGER NOT NULL,
+    "stackConsumed" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "actorUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignItemUsageLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignItemUsageLog_campaignId_createdAt_idx" ON "CampaignItemUsageLog"("campaignId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CampaignItemUsageLog_characterId_idx" ON "CampaignItemUsageLog"("characterId");
+
+-- CreateIndex
+CREATE INDEX "CampaignItemUsageLog_itemTemplateId_idx" ON "CampaignItemUsageLog"("itemTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "CampaignItemUsageLog" ADD CONSTRAINT "CampaignItemUsageLog_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignItemUsageLog" ADD CONSTRAINT "CampaignItemUsageLog_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "CampaignCharacter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignItemUsageLog" ADD CONSTRAINT "CampaignItemUsageLog_itemTemplateId_fkey" FOREIGN KEY ("itemTemplateId") REFERENCES "ItemTemplate"("ItemID") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -196,9 +196,9 @@ for (const path of [
 }
 for (const path of [
   "app/api/campaigns/[id]/characters/[characterId]/builder/route.ts",
-  "app/api/summoning-circle/monsters/route.ts",
-  "app/api/summoning-circle/monsters/[id]/route.ts",
-  "app/api/summoning-circle/monsters/[id]/copy/route.ts",
+  "app/api/summoning-circle/monsters/monsterCreate.ts",
+  "app/api/summoning-circle/monsters/[id]/monsterUpdate.ts",
+  "app/api/summoning-circle/monsters/[id]/monsterCopy.ts",
 ]) {
   ok(readFileSync(path, "utf8").includes("applyAutomaticExpectedTargets"), `${path} independently recomputes Expected Targets.`);
 }
@@ -2,6 +2,12 @@ import { execFileSync } from "node:child_process";
 
 import { loadEnvConfig } from "@next/env";
 
+type ConfigSetRow = {
+  id: string;
+  name: string;
+  status: string;
+};
+
 type ForgeConfigRow = {
   id: number;
   selector1: string;
@@ -60,6 +66,23 @@ const STRENGTH_TYPES = ["PhysicalStrength", "MentalStrength"] as const;
 const STRENGTHS = [1, 2, 3, 4] as const;
 const LEVELS = Array.from({ length: 20 }, (_, index) => index + 1);
 
+function parseSetIdArg(argv: string[]): string | null {
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--set") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+    if (arg.startsWith("--set=")) {
+      const value = arg.slice("--set=".length);
+      if (!value) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+  }
+  return null;
+}
+
 function repoHead(): string {
   try {
     return execFileSync("git", ["rev-parse", "HEAD"], { encoding: "utf8" }).trim();
@@ -191,6 +214,7 @@ function buildFitRows(params: {
 
 function printHuman(payload: {
   repoHead: string;
+  configSet: { id: string; name: string; status: string };
   budgetSource: string;
   strengthCostSource: string;
   configRowCount: number;
@@ -202,6 +226,7 @@ function printHuman(payload: {
 }) {
   console.log("Forge FP Budget Curve");
   console.log(`Repo HEAD: ${payload.repoHead}`);
+  console.log(`Forge cost set: ${payload.configSet.name} (${payload.configSet.status}, ${payload.configSet.id})`);
   console.log(`Budget source: ${payload.budgetSource}`);
   console.log(`Strength cost source: ${payload.strengthCostSource}`);
   console.log(
@@ -250,17 +275,38 @@ async function main() {
   loadEnvConfig(process.cwd());
   const { prisma } = await import("../prisma/client");
   const json = process.argv.includes("--json");
+  const requestedSetId = parseSetIdArg(process.argv.slice(2));
   try {
+    const [configSet] = requestedSetId
+      ? await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "id" = ${requestedSetId}
+        `
+      : await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "status"::text = 'ACTIVE'
+          ORDER BY "activatedAt" DESC NULLS LAST, "updatedAt" DESC
+          LIMIT 1
+        `;
+    if (!configSet) {
+      throw new Error(
+        requestedSetId ? `Forge cost set ${requestedSetId} was not found.` : "No ACTIVE Forge cost set exists; pass --set <id>.",
+      );
+    }
     const configRows = await prisma.$queryRaw<ForgeConfigRow[]>`
       SELECT "id", "selector1", "selector2", "value"
       FROM "ForgeConfigEntry"
-      WHERE "category"::text = 'RARITY'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'RARITY'
       ORDER BY "selector1", "selector2"
     `;
     const strengthRows = await prisma.$queryRaw<ForgeStrengthCostRow[]>`
       SELECT "id", "selector1", "selector2", "selector3", "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND "selector3" IN ('1', '2', '3', '4')
@@ -269,7 +315,8 @@ async function main() {
     const damageTypeRows = await prisma.$queryRaw<ForgeDamageTypeCostRow[]>`
       SELECT "id", "selector1", "selector2", "selector3", "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'DmgType_Count'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'DmgType_Count'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" = 'Melee'
         AND "selector3" IN ('1', '2')
@@ -281,6 +328,7 @@ async function main() {
     const fitRows = buildFitRows({ budgetRows: budgets, representativeCosts: representative });
     const payload = {
       repoHead: repoHead(),
+      configSet: { id: configSet.id, name: configSet.name, status: configSet.status },
       budgetSource: "ForgeConfigEntry category=RARITY; ForgeCreate calculates total FP as item level x rarity scalar.",
       strengthCostSource: "ForgeCostEntry category=Stat plus DmgType_Count; output W/S is strength x 2.",
       configRowCount: configRows.length,
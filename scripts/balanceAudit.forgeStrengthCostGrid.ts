@@ -2,6 +2,12 @@ import { execFileSync } from "node:child_process";
 
 import { loadEnvConfig } from "@next/env";
 
+type ConfigSetRow = {
+  id: string;
+  name: string;
+  status: string;
+};
+
 type ForgeStrengthCostRow = {
   id: number;
   selector1: string;
@@ -42,6 +48,23 @@ const STRENGTH_TYPES = ["PhysicalStrength", "MentalStrength"] as const;
 const STRENGTHS = [1, 2, 3, 4] as const;
 const RARITIES = ["common", "uncommon", "rare", "legendary", "mythic"] as const;
 
+function parseSetIdArg(argv: string[]): string | null {
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--set") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+    if (arg.startsWith("--set=")) {
+      const value = arg.slice("--set=".length);
+      if (!value) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+  }
+  return null;
+}
+
 function repoHead(): string {
   try {
     return execFileSync("git", ["rev-parse", "HEAD"], { encoding: "utf8" }).trim();
@@ -120,6 +143,7 @@ function buildBudgets(configRows: ForgeConfigRow[]) {
 
 function printHuman(payload: {
   repoHead: string;
+  configSet: { id: string; name: string; status: string };
   forgeRowCountChecked: number;
   damageTypeRowCountChecked: number;
   level: number;
@@ -128,6 +152,7 @@ function printHuman(payload: {
 }) {
   console.log("Forge Strength Cost Grid");
   console.log(`Repo HEAD: ${payload.repoHead}`);
+  console.log(`Forge cost set: ${payload.configSet.name} (${payload.configSet.status}, ${payload.configSet.id})`);
   console.log(`Rows checked: ${payload.forgeRowCountChecked} strength, ${payload.damageTypeRowCountChecked} damage-type`);
   console.log(`Level ${payload.level} FP budgets:`);
   for (const budget of payload.budgets) {
@@ -154,8 +179,27 @@ async function main() {
   loadEnvConfig(process.cwd());
   const { prisma } = await import("../prisma/client");
   const json = process.argv.includes("--json");
+  const requestedSetId = parseSetIdArg(process.argv.slice(2));
 
   try {
+    const [configSet] = requestedSetId
+      ? await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "id" = ${requestedSetId}
+        `
+      : await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "status"::text = 'ACTIVE'
+          ORDER BY "activatedAt" DESC NULLS LAST, "updatedAt" DESC
+          LIMIT 1
+        `;
+    if (!configSet) {
+      throw new Error(
+        requestedSetId ? `Forge cost set ${requestedSetId} was not found.` : "No ACTIVE Forge cost set exists; pass --set <id>.",
+      );
+    }
     const strengthRows = await prisma.$queryRaw<ForgeStrengthCostRow[]>`
       SELECT
         "id",
@@ -164,7 +208,8 @@ async function main() {
         "selector3",
         "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND "selector3" IN ('1', '2', '3', '4')
@@ -178,7 +223,8 @@ async function main() {
         "selector3",
         "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'DmgType_Count'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'DmgType_Count'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" = 'Melee'
         AND "selector3" = '1'
@@ -191,13 +237,15 @@ async function main() {
         "selector2",
         "value"
       FROM "ForgeConfigEntry"
-      WHERE "category"::text = 'RARITY'
+      WHERE "configSetId" = ${configSet.id}
+        AND "category"::text = 'RARITY'
         AND "selector1" IN ('common', 'uncommon', 'rare', 'legendary', 'mythic')
       ORDER BY "selector1", "selector2"
     `;
 
     const payload = {
       repoHead: repoHead(),
+      configSet: { id: configSet.id, name: configSet.name, status: configSet.status },
       forgeRowCountChecked: strengthRows.length,
       damageTypeRowCountChecked: damageTypeRows.length,
       level: LEVEL,
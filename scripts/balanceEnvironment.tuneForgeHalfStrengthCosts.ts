@@ -9,6 +9,12 @@ type CostRow = {
   notes: string | null;
 };
 
+type ConfigSetRow = {
+  id: string;
+  name: string;
+  status: string;
+};
+
 type TargetRow = {
   selector1: string;
   selector2: string;
@@ -27,6 +33,23 @@ const MAX_STRENGTH = 10;
 const HALF_STEP_VALUES = Array.from({ length: MAX_STRENGTH * 2 }, (_, index) => (index + 1) / 2)
   .filter((value) => !Number.isInteger(value));
 
+function parseSetIdArg(argv: string[]): string | null {
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--set") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+    if (arg.startsWith("--set=")) {
+      const value = arg.slice("--set=".length);
+      if (!value) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+  }
+  return null;
+}
+
 function selector(value: number): string {
   return Number.isInteger(value) ? String(value) : value.toFixed(1);
 }
@@ -122,8 +145,35 @@ function printTargets(label: string, targets: TargetRow[]) {
 async function main() {
   loadEnvConfig(process.cwd());
   const { prisma } = await import("../prisma/client");
+  const requestedSetId = parseSetIdArg(process.argv.slice(2));
 
   try {
+    // Only DRAFT sets are editable; ACTIVE and ARCHIVED sets stay frozen for pricing history.
+    const [targetSet] = requestedSetId
+      ? await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "id" = ${requestedSetId}
+        `
+      : await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "status"::text = 'DRAFT'
+          ORDER BY "updatedAt" DESC
+          LIMIT 1
+        `;
+    if (!targetSet) {
+      throw new Error(
+        requestedSetId
+          ? `Forge cost set ${requestedSetId} was not found.`
+          : "No DRAFT Forge cost set exists. Create a draft from the active set or pass --set <id>.",
+      );
+    }
+    if (targetSet.status !== "DRAFT") {
+      throw new Error(`Refusing to edit ${targetSet.status} Forge cost set ${targetSet.id}; only DRAFT sets can be tuned.`);
+    }
+    console.log(`Tuning DRAFT Forge cost set ${targetSet.name} (${targetSet.id}).`);
+
     const beforeRows = await prisma.$queryRaw<CostRow[]>`
       SELECT
         "id",
@@ -133,7 +183,8 @@ async function main() {
         "value",
         "notes"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${targetSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND ("selector3")::numeric >= ${MIN_STRENGTH}
@@ -181,6 +232,7 @@ async function main() {
           SET "value" = ${target.value},
               "notes" = ${"Half-step strength cost interpolated from adjacent whole-strength Forge Stat rows."}
           WHERE "id" = ${existing.id}
+            AND "configSetId" = ${targetSet.id}
             AND "category"::text = 'Stat'
             AND "selector1" = ${target.selector1}
             AND "selector2" = ${target.selector2}
@@ -196,6 +248,7 @@ async function main() {
 
       const inserted = await prisma.$queryRaw<CostRow[]>`
         INSERT INTO "ForgeCostEntry" (
+          "configSetId",
           "category",
           "selector1",
           "selector2",
@@ -204,6 +257,7 @@ async function main() {
           "notes"
         )
         VALUES (
+          ${targetSet.id},
           CAST('Stat' AS "ForgeCostCategory"),
           ${target.selector1},
           ${target.selector2},
@@ -228,7 +282,8 @@ async function main() {
         "value",
         "notes"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${targetSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND ("selector3")::numeric >= ${MIN_STRENGTH}
@@ -255,6 +310,14 @@ async function main() {
       );
     }
 
+    if (rowsInserted + rowsUpdated > 0) {
+      await prisma.$executeRaw`
+        UPDATE "ForgeCostConfigSet"
+        SET "updatedAt" = NOW()
+        WHERE "id" = ${targetSet.id}
+      `;
+    }
+
     console.log(`rowsInserted: ${rowsInserted}`);
     console.log(`rowsUpdated: ${rowsUpdated}`);
     console.log(`rowsAlreadyCorrect: ${rowsAlreadyCorrect}`);
@@ -8,6 +8,12 @@ type TargetRow = {
   value: number;
 };
 
+type ConfigSetRow = {
+  id: string;
+  name: string;
+  status: string;
+};
+
 type UpdatedRow = TargetRow & {
   oldValue: number;
   newValue: number;
@@ -25,6 +31,23 @@ const TARGET_NEW_BY_STRENGTH: Record<string, number> = {
   "4": 18,
 };
 
+function parseSetIdArg(argv: string[]): string | null {
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--set") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("--")) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+    if (arg.startsWith("--set=")) {
+      const value = arg.slice("--set=".length);
+      if (!value) throw new Error("--set requires a Forge cost set id.");
+      return value;
+    }
+  }
+  return null;
+}
+
 function targetKey(row: Pick<TargetRow, "selector1" | "selector2" | "selector3">): string {
   return `${row.selector1}::${row.selector2}::${row.selector3}`;
 }
@@ -102,8 +125,34 @@ function printRows(label: string, rows: TargetRow[]) {
 async function main() {
   loadEnvConfig(process.cwd());
   const { prisma } = await import("../prisma/client");
+  const requestedSetId = parseSetIdArg(process.argv.slice(2));
 
   try {
+    const [targetSet] = requestedSetId
+      ? await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "id" = ${requestedSetId}
+        `
+      : await prisma.$queryRaw<ConfigSetRow[]>`
+          SELECT "id", "name", "status"::text AS "status"
+          FROM "ForgeCostConfigSet"
+          WHERE "status"::text = 'DRAFT'
+          ORDER BY "updatedAt" DESC
+          LIMIT 1
+        `;
+    if (!targetSet) {
+      throw new Error(
+        requestedSetId
+          ? `Forge cost set ${requestedSetId} was not found.`
+          : "No DRAFT Forge cost set exists. Create a draft from the active set or pass --set <id>.",
+      );
+    }
+    if (targetSet.status !== "DRAFT") {
+      throw new Error(`Refusing to edit ${targetSet.status} Forge cost set ${targetSet.id}; only DRAFT sets can be tuned.`);
+    }
+    console.log(`Tuning DRAFT Forge cost set ${targetSet.name} (${targetSet.id}).`);
+
     const beforeRows = await prisma.$queryRaw<TargetRow[]>`
       SELECT
         "id",
@@ -112,7 +161,8 @@ async function main() {
         "selector3",
         "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${targetSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND "selector3" IN ('3', '4')
@@ -133,6 +183,7 @@ async function main() {
         UPDATE "ForgeCostEntry"
         SET "value" = ${targetNew}
         WHERE "id" = ${row.id}
+          AND "configSetId" = ${targetSet.id}
           AND "category"::text = 'Stat'
           AND "selector1" = ${row.selector1}
           AND "selector2" = ${row.selector2}
@@ -146,6 +197,14 @@ async function main() {
       changedRows.push({ ...updated[0], oldValue: expectedOld, newValue: targetNew });
     }
 
+    if (changedRows.length) {
+      await prisma.$executeRaw`
+        UPDATE "ForgeCostConfigSet"
+        SET "updatedAt" = NOW()
+        WHERE "id" = ${targetSet.id}
+      `;
+    }
+
     const afterRows = await prisma.$queryRaw<TargetRow[]>`
       SELECT
         "id",
@@ -154,7 +213,8 @@ async function main() {
         "selector3",
         "value"
       FROM "ForgeCostEntry"
-      WHERE "category"::text = 'Stat'
+      WHERE "configSetId" = ${targetSet.id}
+        AND "category"::text = 'Stat'
         AND "selector1" IN ('Weapon', 'Shield')
         AND "selector2" IN ('PhysicalStrength', 'MentalStrength')
         AND "selector3" IN ('3', '4')
@@ -9,7 +9,7 @@ import {
 } from "../lib/combat-lab/liveAdapters";
 import { createFixtureActor } from "../lib/combat-lab/powerAdapter";
 import { createActorInstances } from "../lib/combat-lab/combatState";
-import { runScenarioSuite } from "../lib/combat-lab/reporting";
+import { runScenarioSuite, runScenarioSuiteUntilConverged } from "../lib/combat-lab/reporting";
 import { normalizeCombatTuning, normalizeCombatTuningFlatValues } from "../lib/config/combatTuningShared";
 import {
   DEFAULT_CHARACTER_POWER_SPEND_SCALAR,
@@ -39,6 +39,7 @@ type CliOptions = {
   includeTranscript: boolean;
   campaignId: string | null;
   campaignName: string | null;
+  targetHalfWidth: number | null;
 };
 
 type TuningSnapshot = {
@@ -322,6 +323,7 @@ type MatrixPayload = {
     json: boolean;
     out: string | null;
     includeTranscript: boolean;
+    targetHalfWidth: number | null;
   };
   scenarios: ScenarioMatrixRow[];
   warnings: string[];
@@ -346,6 +348,17 @@ type ScenarioMatrixRow = {
   };
   runCount: number;
   seed: number;
+  /** 95% intervals in percent for rates and raw values for rounds and damage. */
+  confidence: {
+    playerWinPercent: [number, number];
+    monsterWinPercent: [number, number];
+    stalematePercent: [number, number];
+    averageRounds: [number, number];
+    medianRounds: [number, number];
+    playerDamagePerRound: [number, number];
+    monsterDamagePerRound: [number, number];
+  } | null;
+  convergence: CombatSuiteReport["convergence"] | null;
   activeTuningNames: MatrixPayload["provenance"]["activeTuningNames"];
   campaignId: string | null;
   campaignName: string | null;
@@ -969,12 +982,14 @@ function usage() {
     "  npx --yes tsx scripts/combatLab.scenarioMatrix.ts --scenario \"Bruiser vs Dire Wolf\" --runs 500 --seed 4242",
     "  npx --yes tsx scripts/combatLab.scenarioMatrix.ts --preset dire-wolf-core --runs 1000 --seed 4242 --json",
     "  npx --yes tsx scripts/combatLab.scenarioMatrix.ts --preset dire-wolf-core --runs 1000 --seed 4242 --out tmp/combat-lab-matrix.json",
+    "  npx --yes tsx scripts/combatLab.scenarioMatrix.ts --preset dire-wolf-core --runs 2000 --target-half-width 0.02",
     "",
     "Flags:",
     "  --list",
     "  --scenario <name>       Repeatable. Friendly aliases are accepted.",
     "  --preset <name>         Supported: dire-wolf-core, balance-environment-core, defensive-pool-core",
-    "  --runs <number>         Default: 500",
+    "  --runs <number>         Default: 500. With --target-half-width this is the run cap.",
+    "  --target-half-width <n> Run until every win-rate 95% CI half-width is at most n (e.g. 0.02)",
     "  --seed <number>         Default: 4242",
     "  --json                  Print valid JSON only",
     "  --out <path>            Write full JSON payload to path",
@@ -999,6 +1014,7 @@ function parseArgs(argv: string[]): CliOptions {
     includeTranscript: false,
     campaignId: null,
     campaignName: null,
+    targetHalfWidth: null,
   };
 
   for (let index = 0; index < argv.length; index += 1) {
@@ -1019,6 +1035,12 @@ function parseArgs(argv: string[]): CliOptions {
       const value = Number(argv[++index]);
       if (!Number.isInteger(value) || value < 1) throw new Error("--runs must be a positive integer");
       options.runs = value;
+    } else if (arg === "--target-half-width") {
+      const value = Number(argv[++index]);
+      if (!Number.isFinite(value) || value <= 0 || value > 0.5) {
+        throw new Error("--target-half-width must be greater than 0 and at most 0.5");
+      }
+      options.targetHalfWidth = value;
     } else if (arg === "--seed") {
       const value = Number(argv[++index]);
       if (!Number.isInteger(value) || value < 0) throw new Error("--seed must be a non-negative integer");
@@ -1291,6 +1313,24 @@ function scenarioToRow(
     },
     runCount: report.runs,
     seed: built.scenario.seed,
+    confidence: report.confidence
+      ? {
+          playerWinPercent: [pct(report.confidence.playerWinRate.low), pct(report.confidence.playerWinRate.high)],
+          monsterWinPercent: [pct(report.confidence.monsterWinRate.low), pct(report.confidence.monsterWinRate.high)],
+          stalematePercent: [pct(report.confidence.stalemateRate.low), pct(report.confidence.stalemateRate.high)],
+          averageRounds: [round(report.confidence.averageRounds.low), round(report.confidence.averageRounds.high)],
+          medianRounds: [round(report.confidence.medianRounds.low), round(report.confidence.medianRounds.high)],
+          playerDamagePerRound: [
+            round(report.confidence.averageDamagePerRound.players.low),
+            round(report.confidence.averageDamagePerRound.players.high),
+          ],
+          monsterDamagePerRound: [
+            round(report.confidence.averageDamagePerRound.monsters.low),
+            round(report.confidence.averageDamagePerRound.monsters.high),
+          ],
+        }
+      : null,
+    convergence: report.convergence ?? null,
     activeTuningNames,
     campaignId: built.campaignId,
     campaignName: built.campaignName,
@@ -1660,8 +1700,10 @@ function printHumanSummary(payload: MatrixPayload) {
     "Campaign",
     "Scope",
     "P Win",
+    "P Win 95% CI",
     "M Win",
     "Stale",
+    "Runs",
     "Rounds",
     "P DPR",
     "M DPR",
@@ -1683,6 +1725,8 @@ function printHumanSummary(payload: MatrixPayload) {
     "---:",
     "---:",
     "---:",
+    "---:",
+    "---:",
   ].join(" | "));
   for (const scenario of payload.scenarios) {
     console.log([
@@ -1693,8 +1737,14 @@ function printHumanSummary(payload: MatrixPayload) {
       scenario.campaignName ?? "n/a",
       scenario.campaignScopeStatus,
       `${scenario.playerWinPercent}%`,
+      scenario.confidence
+        ? `${scenario.confidence.playerWinPercent[0]}-${scenario.confidence.playerWinPercent[1]}%`
+        : "n/a",
       `${scenario.monsterWinPercent}%`,
       `${scenario.stalematePercent}%`,
+      scenario.convergence
+        ? `${scenario.runCount}${scenario.convergence.converged ? "" : " (cap)"}`
+        : scenario.runCount,
       scenario.averageRounds,
       scenario.playerDamagePerRound,
       scenario.monsterDamagePerRound,
@@ -1889,7 +1939,17 @@ async function main() {
       outcomeNormalization: tuning.outcomeSnapshot.name,
     };
     const scenarioRows = builtScenarios.map((built) =>
-      scenarioToRow(built, runScenarioSuite(built.scenario), options, activeTuningNames),
+      scenarioToRow(
+        built,
+        options.targetHalfWidth === null
+          ? runScenarioSuite(built.scenario)
+          : runScenarioSuiteUntilConverged(built.scenario, {
+              targetHalfWidth: options.targetHalfWidth,
+              maxRuns: options.runs,
+            }),
+        options,
+        activeTuningNames,
+      ),
     );
     const unsupportedNotes = Array.from(
       new Set([
@@ -1950,6 +2010,7 @@ async function main() {
         json: options.json,
         out: options.out,
         includeTranscript: options.includeTranscript,
+        targetHalfWidth: options.targetHalfWidth,
       },
       scenarios: scenarioRows,
       warnings: campaignScopeWarnings,
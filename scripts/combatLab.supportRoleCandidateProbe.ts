@@ -660,6 +660,8 @@ function summarizeScenario(spec: ScenarioSpec, scenario: CombatScenario): Scenar
   const stoppedBy = {
     playersDefeated: runs.filter((run) => run.stoppedBy === "playersDefeated").length,
     monstersDefeated: runs.filter((run) => run.stoppedBy === "monstersDefeated").length,
+    objectiveCompleted: runs.filter((run) => run.stoppedBy === "objectiveCompleted").length,
+    objectiveFailed: runs.filter((run) => run.stoppedBy === "objectiveFailed").length,
     maxRounds: runs.filter((run) => run.stoppedBy === "maxRounds").length,
     stalemate: runs.filter((run) => run.stoppedBy === "stalemate").length,
   };
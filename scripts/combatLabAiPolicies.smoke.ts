@@ -0,0 +1,145 @@
+import {
+  COMBAT_AI_POLICIES,
+  isCombatAiPolicy,
+  resolveActorAiPolicy,
+} from "../lib/combat-lab/aiPolicies";
+import { buildCombatLabSmokeScenarios } from "../lib/combat-lab/autoSimulator";
+import { createCombatState } from "../lib/combat-lab/combatState";
+import { createFixtureActor, makeBasicAttackAction } from "../lib/combat-lab/powerAdapter";
+import { formatSuiteReport, runScenarioSuite } from "../lib/combat-lab/reporting";
+import { parseMonsterSelections } from "../lib/combat-lab/runRequest";
+import { chooseTarget, chooseTurnAction } from "../lib/combat-lab/targetingPolicies";
+import type { CombatAction, CombatActor, CombatAiPolicy, CombatSide, CombatState } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function actor(id: string, side: CombatSide, options: { attack?: number; hp?: number; extra?: CombatAction[] } = {}) {
+  const fixture = createFixtureActor({
+    id,
+    side,
+    name: id,
+    role: "Soldier",
+    physicalHp: options.hp ?? 12,
+    mentalHp: 12,
+    physicalProtection: 0,
+    mentalProtection: 0,
+    dodgeValue: 1,
+    attack: options.attack ?? 3,
+    guard: 2,
+    fortitude: 2,
+    intellect: 2,
+    synergy: 2,
+    bravery: 2,
+    basicAttack: { diceCount: 3, potency: 2 },
+    powers: [],
+  });
+  fixture.actions = [...fixture.actions, ...(options.extra ?? [])];
+  return fixture;
+}
+
+function withPolicy(source: CombatActor, aiPolicy: CombatAiPolicy): CombatActor {
+  return { ...source, aiPolicy };
+}
+
+function living(state: CombatState, id: string): CombatActor {
+  return state.actors.find((entry) => entry.id === id)!;
+}
+
+check(COMBAT_AI_POLICIES.every(isCombatAiPolicy), "every listed policy is recognised");
+check(!isCombatAiPolicy("berserk"), "unknown policies are rejected");
+
+const heal: CombatAction = {
+  ...makeBasicAttackAction({ id: "mend", name: "Mend", diceCount: 3, potency: 2 }),
+  kind: "healing",
+  targetPolicy: "ally",
+};
+const snare: CombatAction = {
+  ...makeBasicAttackAction({ id: "snare", name: "Snare", diceCount: 3, potency: 1 }),
+  kind: "control",
+};
+
+const brute = actor("brute", "monsters", { extra: [heal, snare] });
+const ally = actor("ally", "monsters");
+const healthy = actor("healthy", "players", { attack: 6 });
+const fragile = actor("fragile", "players", { hp: 12 });
+
+function stateFor(policy: CombatAiPolicy) {
+  const state = createCombatState([healthy, fragile], [withPolicy(brute, policy), ally]);
+  living(state, "fragile").physicalHpCurrent = 3;
+  return state;
+}
+
+const attack = brute.actions.find((action) => action.kind === "attack")!;
+
+const focus = stateFor("focusLowestHealth");
+check(chooseTarget(living(focus, "brute"), attack, focus)?.id === "fragile", "focus-lowest-health picks the weakest enemy");
+
+const spread = stateFor("spreadDamage");
+spread.incomingActionsByTargetThisRound.fragile = 2;
+check(chooseTarget(living(spread, "brute"), attack, spread)?.id === "healthy", "spread-damage picks the least-targeted enemy");
+
+const protect = stateFor("protectAlly");
+check(chooseTurnAction(living(protect, "brute"), protect, "main")?.id !== "mend", "protect-ally attacks while allies are healthy");
+living(protect, "ally").physicalHpCurrent = 2;
+check(chooseTurnAction(living(protect, "brute"), protect, "main")?.id === "mend", "protect-ally heals an endangered ally first");
+check(chooseTarget(living(protect, "brute"), heal, protect)?.id === "ally", "protect-ally heals the most wounded ally");
+check(chooseTarget(living(protect, "brute"), attack, protect)?.id === "healthy", "protect-ally attacks the biggest threat");
+
+const control = stateFor("controlFirst");
+check(chooseTurnAction(living(control, "brute"), control, "main")?.id === "snare", "control-first opens with control");
+check(chooseTarget(living(control, "brute"), snare, control)?.id === "healthy", "control-first controls the biggest threat");
+
+const smart = stateFor("smart");
+const smartChoice = chooseTurnAction(living(smart, "brute"), smart, "main");
+check(smartChoice?.kind === "attack", "smart picks an attack in the main lane");
+check(chooseTarget(living(smart, "brute"), smartChoice, smart)?.id === "fragile", "smart takes the expected kill");
+
+const baseline = stateFor("default");
+check(
+  chooseTurnAction(living(baseline, "brute"), baseline, "main")?.kind === "attack",
+  "the default policy keeps the role-driven weapon-first behaviour",
+);
+
+check(resolveActorAiPolicy(brute, {}) === "default", "actors without a policy use the default");
+check(resolveActorAiPolicy(withPolicy(brute, "smart"), {}) === "smart", "an actor's own policy is used");
+check(
+  resolveActorAiPolicy(withPolicy(brute, "smart"), { aiPolicies: { brute: "spreadDamage" } }) === "spreadDamage",
+  "scenario overrides win over the actor's policy",
+);
+check(
+  resolveActorAiPolicy({ ...brute, id: "brute:instance:2", baseActorId: "brute" }, { aiPolicies: { brute: "controlFirst" } }) ===
+    "controlFirst",
+  "scenario overrides match instances through their base actor id",
+);
+check(resolveActorAiPolicy(brute, { defaultAiPolicy: "smart" }) === "smart", "the scenario default fills the gaps");
+
+const boss = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(boss, "the smoke boss scenario exists");
+const report = runScenarioSuite({ ...boss, runs: 6, defaultAiPolicy: "focusLowestHealth" });
+check(
+  report.actorContributions.every((entry) => entry.aiPolicy === "focusLowestHealth"),
+  "actor contributions report the policy each actor used",
+);
+check(
+  report.monsterGroupContributions.every((group) => group.aiPolicy === "focusLowestHealth"),
+  "monster groups report their policy",
+);
+check(formatSuiteReport(report).includes("focusLowestHealth"), "the text report lists custom policies");
+check(
+  formatSuiteReport(runScenarioSuite({ ...boss, runs: 2 })).includes("AI policies: role default"),
+  "the text report notes when every actor uses the default",
+);
+
+const parsed = parseMonsterSelections({ monsters: [{ monsterId: "m1", quantity: 2, aiPolicy: "smart" }] });
+check(parsed.selections[0]?.aiPolicy === "smart", "monster selections carry their policy");
+check(
+  parseMonsterSelections({ monsters: [{ monsterId: "m1", quantity: 1, aiPolicy: "berserk" }] }).error,
+  "unknown monster policies are rejected",
+);
+
+console.log(`combatLabAiPolicies.smoke.ts passed (${checks} checks).`);
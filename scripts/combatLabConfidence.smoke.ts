@@ -0,0 +1,83 @@
+import { buildCombatLabSmokeScenarios } from "../lib/combat-lab/autoSimulator";
+import { bootstrapInterval, intervalHalfWidth, wilsonInterval } from "../lib/combat-lab/confidence";
+import { createSeededRng } from "../lib/combat-lab/dice";
+import { formatSuiteReport, runScenarioSuite, runScenarioSuiteUntilConverged } from "../lib/combat-lab/reporting";
+import { parseConvergenceOptions } from "../lib/combat-lab/runRequest";
+import type { CombatScenario } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function close(actual: number, expected: number, tolerance = 1e-3) {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+const half = wilsonInterval(50, 100);
+check(close(half.low, 0.4038) && close(half.high, 0.5962), "Wilson matches the textbook interval for 50/100");
+const none = wilsonInterval(0, 10);
+check(none.low === 0 && close(none.high, 0.2775), "Wilson stays informative at a 0% rate");
+const all = wilsonInterval(10, 10);
+check(all.high <= 1 && close(all.high, 1, 1e-9) && close(all.low, 0.7225), "Wilson mirrors the 0% case at 100%");
+check(
+  intervalHalfWidth(wilsonInterval(500, 1000)) < intervalHalfWidth(wilsonInterval(50, 100)),
+  "more runs narrow the interval",
+);
+
+const constant = bootstrapInterval([4, 4, 4, 4], (sample) => sample[0], { rng: createSeededRng(1) });
+check(constant.low === 4 && constant.high === 4, "bootstrapping identical samples gives a point interval");
+const spread = bootstrapInterval(
+  Array.from({ length: 200 }, (_, index) => index % 10),
+  (sample) => sample.reduce((sum, value) => sum + value, 0) / sample.length,
+  { rng: createSeededRng(2) },
+);
+check(spread.low < 4.5 && spread.high > 4.5 && spread.high - spread.low < 1.5, "the bootstrap mean interval covers the true mean");
+
+const boss = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(boss, "the smoke boss scenario exists");
+const base: CombatScenario = { ...boss, runs: 40, maxRounds: 12 };
+
+const report = runScenarioSuite(base);
+const confidence = report.confidence;
+check(confidence, "suite reports carry confidence intervals");
+check(
+  confidence.playerWinRate.low <= report.playerWinRate && report.playerWinRate <= confidence.playerWinRate.high,
+  "the player win interval contains the observed rate",
+);
+check(
+  confidence.averageRounds.low <= report.averageRounds && report.averageRounds <= confidence.averageRounds.high,
+  "the average-rounds interval contains the observed average",
+);
+check(
+  confidence.averageDamagePerRound.players.low <= confidence.averageDamagePerRound.players.high,
+  "damage-per-round intervals are ordered",
+);
+check(
+  JSON.stringify(runScenarioSuite(base).confidence) === JSON.stringify(confidence),
+  "the same seeded suite reports the same intervals",
+);
+check(formatSuiteReport(report).includes("Win rate 95% CI"), "the text report prints the win-rate intervals");
+
+const loose = runScenarioSuiteUntilConverged(base, { targetHalfWidth: 0.2, maxRuns: 200 });
+check(loose.convergence?.converged === true, "a loose target converges");
+check(loose.runs === 30, "convergence is checked only after the minimum run count");
+check(loose.convergence.finalHalfWidth <= 0.2, "the reported half-width meets the target");
+check(
+  runScenarioSuite({ ...base, runs: loose.runs }).playerWinRate === loose.playerWinRate,
+  "a converged suite matches a fixed suite of the same size",
+);
+
+const tight = runScenarioSuiteUntilConverged(base, { targetHalfWidth: 0.001, maxRuns: 55 });
+check(tight.convergence?.converged === false && tight.runs === 55, "an unreachable target stops at the run cap");
+check(formatSuiteReport(tight).includes("Convergence: not reached"), "the text report says when the cap was hit");
+
+check(parseConvergenceOptions({}).options === null, "requests without convergence keep a fixed run count");
+const parsed = parseConvergenceOptions({ convergence: { targetHalfWidth: "0.03", maxRuns: 99999 } });
+check(parsed.options?.targetHalfWidth === 0.03 && parsed.options.maxRuns === 2000, "wire values are coerced and capped");
+check(parseConvergenceOptions({ convergence: { targetHalfWidth: 0 } }).error, "a zero target is rejected");
+check(parseConvergenceOptions({ convergence: "fast" }).error, "malformed convergence settings are rejected");
+
+console.log(`combatLabConfidence.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,195 @@
+import {
+  addEncounterCombatants,
+  applyEncounterCommand,
+  createEncounterSnapshot,
+  EncounterCommandError,
+  evaluateLimitBreakEligibility,
+  getEncounterOutcome,
+  parseEncounterCommand,
+  parseEncounterRoster,
+  type EncounterSnapshot,
+} from "../lib/combat-lab/encounter";
+import { createFixtureActor, makeBasicAttackAction } from "../lib/combat-lab/powerAdapter";
+import type { CombatActor, CombatSide } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectCommandError(run: () => unknown, code: string, message: string) {
+  try {
+    run();
+  } catch (error) {
+    check(error instanceof EncounterCommandError && error.code === code, `${message} (got ${String(error)})`);
+    return;
+  }
+  check(false, `${message} (no error thrown)`);
+}
+
+function actor(id: string, side: CombatSide, defeatModel?: CombatActor["defeatModel"]): CombatActor {
+  const fixture = createFixtureActor({
+    id,
+    side,
+    name: id,
+    role: side === "players" ? "Bruiser" : "Soldier",
+    physicalHp: 10,
+    mentalHp: 10,
+    physicalProtection: 1,
+    mentalProtection: 1,
+    dodgeValue: 8,
+    attack: 4,
+    guard: 3,
+    fortitude: 3,
+    intellect: 3,
+    synergy: 2,
+    bravery: 3,
+    basicAttack: { diceCount: 3, potency: 2 },
+    powers: [],
+  });
+  fixture.actions = [
+    ...fixture.actions,
+    { ...makeBasicAttackAction({ id: "slam", name: "Slam", diceCount: 3, potency: 3 }), cooldownRounds: 2 },
+  ];
+  return defeatModel ? { ...fixture, defeatModel } : fixture;
+}
+
+const hero = actor("hero", "players", "PLAYER_CHARACTER");
+const goblin = actor("goblin", "monsters", "NORMAL_MONSTER");
+
+const snapshot: EncounterSnapshot = createEncounterSnapshot(
+  [{ actor: hero, sourceType: "character", sourceId: "hero", quantity: 1 }],
+  [
+    {
+      actor: goblin,
+      sourceType: "monster",
+      sourceId: "goblin",
+      quantity: 2,
+      limitBreaks: [
+        {
+          slot: 1,
+          name: "Frenzy",
+          tier: "PUSH",
+          attribute: "ATTACK",
+          thresholdSuccesses: 3,
+          triggerText: null,
+          costText: null,
+          effectText: null,
+        },
+      ],
+    },
+  ],
+);
+const byId = (id: string) => snapshot.combat.actors.find((entry) => entry.id === id)!;
+const currentTurn = () => snapshot.combat.currentTurnActorId;
+const cooldown = (key: string) => snapshot.combat.cooldowns[key]?.remaining ?? 0;
+const effectCount = () => snapshot.combat.statusEffects.length;
+const eligibleCount = () => snapshot.limitBreakEligibility.length;
+
+check(snapshot.combat.actors.length === 3, "quantities expand into separate combatants");
+check(new Set(snapshot.turnOrder).size === 3, "every combatant gets a unique id in the turn order");
+check(byId("goblin:2").name === "goblin #2", "repeated monsters are numbered");
+check(currentTurn() === "hero", "the first combatant in the order starts");
+
+applyEncounterCommand(snapshot, { type: "useAction", actorId: "hero", actionId: "slam" });
+check(cooldown("hero:slam") === 2, "using an action applies its cooldown");
+expectCommandError(
+  () => applyEncounterCommand(snapshot, { type: "useAction", actorId: "hero", actionId: "slam" }),
+  "ACTION_ON_COOLDOWN",
+  "an action on cooldown cannot be used again",
+);
+
+applyEncounterCommand(snapshot, { type: "endTurn" });
+check(cooldown("hero:slam") === 2, "a cooldown does not tick on the turn it was applied");
+check(currentTurn() === "goblin", "ending a turn hands it to the next combatant");
+
+applyEncounterCommand(snapshot, {
+  type: "addStatusEffect",
+  targetActorId: "goblin",
+  sourceActorId: "hero",
+  kind: "debuff",
+  attribute: "Attack",
+  amount: 1,
+  remainingRounds: 1,
+});
+check(effectCount() === 1, "manual effects are added");
+applyEncounterCommand(snapshot, { type: "endTurn" });
+check(effectCount() === 0, "a one-turn effect expires at the end of its target's turn");
+
+applyEncounterCommand(snapshot, { type: "applyWounds", actorId: "goblin:2", pool: "physical", amount: 12 });
+check(byId("goblin:2").defeated, "a standard monster is defeated at 0");
+check(currentTurn() === "goblin:2", "the defeated combatant still holds the current turn");
+applyEncounterCommand(snapshot, { type: "endTurn" });
+check(snapshot.combat.round === 2, "wrapping the order starts a new round");
+check(currentTurn() === "hero", "the round starts with the first living combatant");
+applyEncounterCommand(snapshot, { type: "endTurn" });
+check(cooldown("hero:slam") === 1, "cooldowns tick at the end of the owner's turn");
+check(currentTurn() === "goblin", "defeated combatants are skipped");
+
+expectCommandError(
+  () => applyEncounterCommand(snapshot, { type: "applyWounds", actorId: "hero", pool: "mental", amount: 10 }),
+  "INJURY_ROLL_REQUIRED",
+  "dropping a character to 0 asks for the table's injury roll",
+);
+check(byId("hero").mentalHpCurrent === 10, "a rejected command leaves the combatant untouched");
+applyEncounterCommand(snapshot, {
+  type: "applyWounds",
+  actorId: "hero",
+  pool: "mental",
+  amount: 10,
+  injuryRollSuccesses: 1,
+});
+check(byId("hero").mentalMajorInjuries === 1, "the entered injury roll decides the outcome");
+check(!byId("hero").defeated, "one Major Injury does not defeat a character");
+applyEncounterCommand(snapshot, { type: "applyHealing", actorId: "hero", pool: "mental", amount: 4 });
+check(byId("hero").mentalHpCurrent === 4, "healing restores the pool");
+
+applyEncounterCommand(snapshot, { type: "recordRoll", actorId: "goblin", attribute: "Attack", successes: 3 });
+check(
+  snapshot.limitBreakEligibility.some((entry) => entry.actorId === "goblin" && entry.limitBreakName === "Frenzy"),
+  "meeting an authored threshold flags the Limit Break",
+);
+applyEncounterCommand(snapshot, { type: "recordRoll", actorId: "goblin", attribute: "Guard", successes: 9 });
+check(eligibleCount() === 1, "rolls on other attributes do not trigger an authored Limit Break");
+const [eligibility] = snapshot.limitBreakEligibility;
+applyEncounterCommand(snapshot, { type: "clearLimitBreakEligibility", eligibilityId: eligibility.id });
+check(eligibleCount() === 0, "eligibility can be dismissed");
+
+const generic = evaluateLimitBreakEligibility(byId("hero"), undefined, "Attack", 5);
+check(generic.length === 1 && generic[0].tier === "BREAK", "characters reach the highest generic tier their successes meet");
+check(evaluateLimitBreakEligibility(byId("hero"), undefined, "Attack", 2).length === 0, "low rolls unlock nothing");
+
+addEncounterCombatants(snapshot, "monsters", [{ actor: goblin, sourceType: "monster", sourceId: "goblin", quantity: 1 }]);
+check(byId("goblin:3").name === "goblin #3", "late arrivals continue the numbering");
+check(snapshot.turnOrder[snapshot.turnOrder.length - 1] === "goblin:3", "late arrivals act last");
+check(snapshot.combat.responsesRemaining["goblin:3"] === 2, "late arrivals start with their responses");
+
+applyEncounterCommand(snapshot, { type: "setTurnOrder", actorIds: ["goblin:3", "goblin", "goblin:2", "hero"] });
+check(currentTurn() === "goblin", "reordering keeps the current turn");
+expectCommandError(
+  () => applyEncounterCommand(snapshot, { type: "setTurnOrder", actorIds: ["hero"] }),
+  "INVALID_TURN_ORDER",
+  "the turn order must include everyone",
+);
+
+const stored = JSON.parse(JSON.stringify(snapshot)) as EncounterSnapshot;
+applyEncounterCommand(stored, { type: "endTurn" });
+check(stored.combat.currentTurnActorId === "hero", "a snapshot keeps working after a JSON round trip");
+
+applyEncounterCommand(snapshot, { type: "applyWounds", actorId: "goblin", pool: "physical", amount: 20 });
+applyEncounterCommand(snapshot, { type: "applyWounds", actorId: "goblin:3", pool: "physical", amount: 20 });
+check(getEncounterOutcome(snapshot) === "players", "the outcome reports the last side standing");
+
+check(parseEncounterCommand({ type: "endTurn" }).type === "endTurn", "wire commands parse");
+expectCommandError(() => parseEncounterCommand({ type: "explode" }), "UNKNOWN_COMMAND", "unknown commands are rejected");
+expectCommandError(
+  () => parseEncounterCommand({ type: "applyWounds", actorId: "hero", pool: "spirit", amount: 1 }),
+  "INVALID_COMMAND",
+  "commands validate their fields",
+);
+const roster = parseEncounterRoster({ monsters: [{ monsterId: "goblin", quantity: 2 }, { monsterId: "goblin" }] });
+check(roster.monsters.length === 1 && roster.monsters[0].quantity === 3, "roster selections merge by id");
+
+console.log(`combatLabEncounter.smoke.ts passed (${checks} checks).`);
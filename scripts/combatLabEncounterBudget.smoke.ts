@@ -0,0 +1,133 @@
+import { calculatorConfig } from "../lib/calculators/calculatorConfig";
+import {
+  compareEncounterBudget,
+  computeEncounterBudget,
+  encounterDifficultyBandForScore,
+  EncounterBudgetError,
+  parseEncounterBudgetRequest,
+  referenceMemberStats,
+  scoreEncounterMember,
+  simulatedDifficultyBand,
+  type EncounterBudgetMemberInput,
+  type EncounterBudgetMonsterInput,
+} from "../lib/combat-lab/encounterBudget";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectInvalid(body: Record<string, unknown>, message: string) {
+  try {
+    parseEncounterBudgetRequest(body);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof EncounterBudgetError && error.code === "INVALID_ENCOUNTER_BUDGET", message);
+  }
+}
+
+const horizon = calculatorConfig.baselineParty.combatHorizonRounds;
+
+function member(id: string, level = 3): EncounterBudgetMemberInput {
+  return { id, name: id, level, quantity: 1, stats: referenceMemberStats(level) };
+}
+
+function elite(id: string, quantity = 1, overrides: Partial<EncounterBudgetMonsterInput> = {}): EncounterBudgetMonsterInput {
+  return {
+    id,
+    name: id,
+    level: 3,
+    tier: "ELITE",
+    legendary: false,
+    quantity,
+    axes: { physicalThreat: 5, mentalThreat: 5, physicalSurvivability: 5, mentalSurvivability: 5 },
+    ...overrides,
+  };
+}
+
+function budget(monsters: EncounterBudgetMonsterInput[], members = [member("a"), member("b"), member("c"), member("d")]) {
+  return computeEncounterBudget({
+    members,
+    monsters,
+    targetBand: "MODERATE",
+    config: calculatorConfig,
+    referenceStats: (level) => referenceMemberStats(level),
+  });
+}
+
+// Request parsing reuses the Combat Lab selection rules.
+const parsed = parseEncounterBudgetRequest({
+  characters: [{ characterId: "c1", quantity: 1 }],
+  monsters: [{ monsterId: "m1", quantity: 2 }],
+});
+check(parsed.targetBand === "MODERATE" && parsed.verify === false, "target band defaults to MODERATE without verify");
+check(parsed.monsters[0].quantity === 2, "monster quantity is kept");
+check(
+  parseEncounterBudgetRequest({ characterIds: ["c1"], monsterIds: ["m1"], targetBand: "DEADLY", verify: true }).verify,
+  "verify flag is read",
+);
+expectInvalid({ characters: [], monsters: [{ monsterId: "m1", quantity: 1 }] }, "a party is required");
+expectInvalid({ characterIds: ["c1"], monsterIds: ["m1"], targetBand: "BRUTAL" }, "unknown target band is rejected");
+expectInvalid({ characterIds: ["c1"], monsters: [{ monsterId: "m1", quantity: 0 }] }, "zero quantity is rejected");
+
+// Reference members score exactly on par.
+const reference = referenceMemberStats(3);
+const onPar = scoreEncounterMember(reference, reference, horizon);
+check(onPar.offenceIndex === 1 && onPar.durabilityIndex === 1, "reference member is on par");
+const armoured = scoreEncounterMember(
+  { ...reference, physicalProtection: reference.physicalProtection + 2 },
+  reference,
+  horizon,
+);
+check(armoured.durabilityIndex > 1 && armoured.offenceIndex === 1, "protection raises durability only");
+
+// Four baseline members against two on-budget elites is the moderate anchor.
+const anchor = budget([elite("e", 2)]);
+check(anchor.score === 1, `two elites are a score of 1 (got ${anchor.score})`);
+check(anchor.band === "MODERATE" && anchor.gap === 0, "anchor is on the moderate target");
+check(anchor.monsterScaleToTarget === 1, "anchor needs no scaling");
+check(anchor.partyLevel === 3 && anchor.partySize === 4, "party level and size are reported");
+
+const single = budget([elite("e", 1)]);
+check(single.band === "EASY" && single.gap < 0, "one elite is below the moderate range");
+check(single.monsterScaleToTarget === 2, "one elite needs doubling to reach the target");
+
+const boss = budget([elite("boss", 2, { tier: "BOSS" })]);
+check(boss.score > anchor.score, "boss tier multiplier raises the load");
+const legendary = budget([elite("legend", 2, { legendary: true })]);
+check(legendary.score > boss.score, "legendary uses the legendary multiplier");
+
+const higher = budget([elite("e", 2, { level: 5 })]);
+const lower = budget([elite("e", 2, { level: 1 })]);
+check(higher.score > anchor.score && lower.score < anchor.score, "monster level against the party scales load");
+
+const glass = budget([
+  elite("glass", 2, { axes: { physicalThreat: 10, mentalThreat: 10, physicalSurvivability: 0, mentalSurvivability: 0 } }),
+]);
+check(glass.threatScore === 2 && glass.survivabilityScore === 0, "threat and survivability lanes are separate");
+check(glass.score === 1.2, "threat carries more weight than survivability");
+
+const smallParty = budget([elite("e", 2)], [member("a"), member("b")]);
+check(smallParty.score === 2 && smallParty.band === "DEADLY", "a smaller party doubles the score");
+check(smallParty.gap > 0, "over-budget gap is positive");
+
+// Band thresholds and simulation mapping.
+check(encounterDifficultyBandForScore(0.49) === "TRIVIAL", "trivial threshold");
+check(encounterDifficultyBandForScore(1.2) === "HARD", "band lower bounds are inclusive");
+check(encounterDifficultyBandForScore(5) === "DEADLY", "deadly is open ended");
+check(simulatedDifficultyBand({ playerWinRate: 0.3, averageWinnerHealthRemainingPercent: 0.9 }) === "DEADLY", "losing is deadly");
+check(simulatedDifficultyBand({ playerWinRate: 0.7, averageWinnerHealthRemainingPercent: 0.9 }) === "HARD", "coin flips are hard");
+check(simulatedDifficultyBand({ playerWinRate: 1, averageWinnerHealthRemainingPercent: 0.8 }) === "TRIVIAL", "clean wins are trivial");
+check(simulatedDifficultyBand({ playerWinRate: 0.95, averageWinnerHealthRemainingPercent: 0.4 }) === "MODERATE", "costly wins are moderate");
+
+const comparison = compareEncounterBudget(anchor, {
+  playerWinRate: 0.7,
+  averageWinnerHealthRemainingPercent: 0.3,
+  averageRounds: 6,
+});
+check(comparison.predictedBand === "MODERATE" && comparison.simulatedBand === "HARD", "comparison names both bands");
+check(comparison.bandDelta === 1, "harder simulation gives a positive delta");
+
+console.log(`combatLabEncounterBudget.smoke.ts passed (${checks} checks).`);
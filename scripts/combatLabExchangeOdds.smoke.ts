@@ -0,0 +1,139 @@
+import { resolveCombatAction } from "../lib/combat-lab/actionResolver";
+import { createCombatState } from "../lib/combat-lab/combatState";
+import { createSeededRng, successDistribution } from "../lib/combat-lab/dice";
+import { computeExchangeOdds, ExchangeOddsError, listExchangeActions } from "../lib/combat-lab/exchangeOdds";
+import { createFixtureActor, makeBasicAttackAction } from "../lib/combat-lab/powerAdapter";
+import type { CombatAction, CombatActor, CombatSide } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function close(actual: number, expected: number, tolerance: number) {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+function actor(
+  id: string,
+  side: CombatSide,
+  options: { dodgeDice?: number; blockPerSuccess?: number; protection?: number; hp?: number } = {},
+) {
+  return createFixtureActor({
+    id,
+    side,
+    name: id,
+    role: "Soldier",
+    physicalHp: options.hp ?? 500,
+    mentalHp: options.hp ?? 500,
+    physicalProtection: options.protection ?? 0,
+    mentalProtection: options.protection ?? 0,
+    dodgeValue: 1,
+    dodgeDice: options.dodgeDice ?? 1,
+    physicalDefenceDice: 2,
+    physicalBlockPerSuccess: options.blockPerSuccess ?? 0,
+    mentalDefenceDice: 2,
+    mentalBlockPerSuccess: options.blockPerSuccess ?? 0,
+    attack: 4,
+    guard: 2,
+    fortitude: 2,
+    intellect: 2,
+    synergy: 2,
+    bravery: 2,
+    basicAttack: { diceCount: 4, potency: 3 },
+    powers: [],
+  });
+}
+
+/** Monte Carlo wound distribution from the real resolver, for comparison with the exact engine. */
+function simulateWounds(attacker: CombatActor, action: CombatAction, target: CombatActor, trials: number) {
+  const rng = createSeededRng(20261019);
+  const counts: number[] = [];
+  for (let trial = 0; trial < trials; trial += 1) {
+    const state = createCombatState([attacker], [target]);
+    const liveAttacker = state.actors.find((entry) => entry.id === attacker.id)!;
+    const liveTarget = state.actors.find((entry) => entry.id === target.id)!;
+    const pool = action.pool ?? "physical";
+    const before = pool === "physical" ? liveTarget.physicalHpCurrent : liveTarget.mentalHpCurrent;
+    resolveCombatAction({ state, actor: liveAttacker, action, target: liveTarget, rng, lane: "main" });
+    const after = pool === "physical" ? liveTarget.physicalHpCurrent : liveTarget.mentalHpCurrent;
+    const wounds = before - after;
+    while (counts.length <= wounds) counts.push(0);
+    counts[wounds] += 1;
+  }
+  return counts.map((count) => count / trials);
+}
+
+function matchesSimulation(attacker: CombatActor, action: CombatAction, target: CombatActor, message: string) {
+  const exact = computeExchangeOdds({ attacker, action, target });
+  const simulated = simulateWounds(attacker, action, target, 6000);
+  const simulatedMean = simulated.reduce((sum, probability, wounds) => sum + probability * wounds, 0);
+  check(close(exact.wounds.probabilities.reduce((sum, value) => sum + value, 0), 1, 1e-9), `${message}: wounds sum to one`);
+  check(close(exact.wounds.expected, simulatedMean, 0.15), `${message}: expected wounds match the resolver (${exact.wounds.expected} vs ${simulatedMean})`);
+  const largestGap = Math.max(
+    ...Array.from({ length: Math.max(simulated.length, exact.wounds.probabilities.length) }, (_, wounds) =>
+      Math.abs((exact.wounds.probabilities[wounds] ?? 0) - (simulated[wounds] ?? 0)),
+    ),
+  );
+  check(largestGap < 0.03, `${message}: every wound total matches the resolver (gap ${largestGap})`);
+  return exact;
+}
+
+const oneDie = successDistribution(1, "D8");
+check(close(oneDie[0], 3 / 8, 1e-12) && close(oneDie[1], 5 / 8, 1e-12), "a bare d8 succeeds on 4 through 8");
+check(close(successDistribution(1, "D12")[2], 3 / 12, 1e-12), "a d12 scores two successes on 10 through 12");
+check(close(successDistribution(1, "D4", 2)[1], 3 / 4, 1e-12), "a modifier lifts 2s and 3s but never a natural 1");
+check(successDistribution(0, "D8").length === 1, "no dice means certainly no successes");
+
+const attacker = actor("attacker", "players");
+const basic = listExchangeActions(attacker)[0];
+check(basic?.kind === "attack", "the fixture's basic attack is listed as an exchange action");
+
+const dodger = actor("dodger", "monsters", { dodgeDice: 4 });
+const dodgeOdds = matchesSimulation(attacker, basic, dodger, "dodge-heavy target");
+check(dodgeOdds.defenceChosen.dodge === 1, "a target with no block always dodges");
+check(dodgeOdds.probabilityDodged > 0, "the dodge chance is reported");
+
+const blocker = actor("blocker", "monsters", { blockPerSuccess: 3, protection: 1 });
+const blockOdds = matchesSimulation(attacker, basic, blocker, "block-heavy target");
+check(blockOdds.defenceChosen.block > 0.5, "a strong blocker mostly blocks");
+check(blockOdds.expectedStaticPrevented > 0, "static protection is credited after the block");
+
+const scream: CombatAction = {
+  ...makeBasicAttackAction({ id: "scream", name: "Scream", diceCount: 5, potency: 2, pool: "mental" }),
+  resistAttribute: "BRAVERY",
+};
+const resister = { ...actor("resister", "monsters", { blockPerSuccess: 1 }), resist: { BRAVERY: 1 } };
+const resistOdds = matchesSimulation(attacker, scream, resister, "mental attack with resist");
+check(resistOdds.resist?.diceCount === 4, "resist dice are three plus the resist value");
+check(
+  resistOdds.appliedSuccesses.expected < resistOdds.attackSuccesses.expected,
+  "resist cancels successes before damage",
+);
+check(resistOdds.defenceChosen.dodge === 0, "mental attacks cannot be dodged");
+
+const forcedBlock = computeExchangeOdds({ attacker, action: basic, target: dodger, defenceMode: "block" });
+check(forcedBlock.defenceChosen.block === 1, "the block mode forces the defence string");
+check(forcedBlock.wounds.expected > dodgeOdds.wounds.expected, "forcing a worse defence costs the target wounds");
+
+const fragile = actor("fragile", "monsters", { hp: 3 });
+const fragileOdds = computeExchangeOdds({ attacker, action: basic, target: fragile });
+check(
+  close(
+    fragileOdds.probabilityReducedToZero,
+    fragileOdds.wounds.probabilities.slice(3).reduce((sum, value) => sum + value, 0),
+    1e-12,
+  ),
+  "the zero-HP chance is the tail at the target's current health",
+);
+
+try {
+  computeExchangeOdds({ attacker, action: { ...basic, kind: "healing" }, target: dodger });
+  check(false, "non-attacks are rejected");
+} catch (error) {
+  check(error instanceof ExchangeOddsError && error.code === "UNSUPPORTED_ACTION", "non-attacks are rejected");
+}
+
+console.log(`combatLabExchangeOdds.smoke.ts passed (${checks} checks).`);
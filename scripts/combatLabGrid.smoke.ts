@@ -0,0 +1,140 @@
+import { buildCombatLabSmokeScenarios, runCombatScenario } from "../lib/combat-lab/autoSimulator";
+import { createCombatState } from "../lib/combat-lab/combatState";
+import {
+  actionReachFeet,
+  isTargetInReach,
+  moveActorToward,
+  pushActorAway,
+  resolveGridAreaTargets,
+} from "../lib/combat-lab/grid";
+import { createFixtureActor, makeBasicAttackAction } from "../lib/combat-lab/powerAdapter";
+import { runScenarioSuite } from "../lib/combat-lab/reporting";
+import type { CombatAction, CombatActor, CombatSide } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function actor(id: string, side: CombatSide): CombatActor {
+  return createFixtureActor({
+    id,
+    side,
+    name: id,
+    role: side === "players" ? "Bruiser" : "Soldier",
+    physicalHp: 20,
+    mentalHp: 20,
+    physicalProtection: 1,
+    mentalProtection: 1,
+    dodgeValue: 8,
+    attack: 4,
+    guard: 3,
+    fortitude: 3,
+    intellect: 3,
+    synergy: 2,
+    bravery: 3,
+    basicAttack: { diceCount: 3, potency: 2 },
+    powers: [],
+  });
+}
+
+function aoeAction(geometry: CombatAction["geometry"]): CombatAction {
+  return {
+    ...makeBasicAttackAction({ id: "breath", name: "Breath", diceCount: 3, potency: 2 }),
+    rangeCategory: "AOE",
+    targetCount: 4,
+    geometry,
+  };
+}
+
+function ids(actors: CombatActor[]): string[] {
+  return actors.map((entry) => entry.id).sort();
+}
+
+const dragon = actor("dragon", "monsters");
+const heroes = ["a", "b", "c", "d"].map((id) => actor(id, "players"));
+
+// Layout: the dragon at the origin; heroes a/b clustered 20 ft east, c 20 ft north, d 50 ft east.
+const state = createCombatState(heroes, [dragon], {
+  grid: {
+    positions: {
+      dragon: { x: 0, y: 0 },
+      a: { x: 4, y: 0 },
+      b: { x: 5, y: 1 },
+      c: { x: 0, y: 4 },
+      d: { x: 10, y: 0 },
+    },
+  },
+});
+const living = (id: string) => state.actors.find((entry) => entry.id === id)!;
+const players = state.actors.filter((entry) => entry.side === "players");
+const stateDragon = living("dragon");
+
+check(state.grid?.cellFeet === 5, "grid defaults to 5 ft squares");
+check(actionReachFeet(makeBasicAttackAction({ diceCount: 1, potency: 1 })) === 5, "melee reach is one square");
+check(!isTargetInReach(state, stateDragon, makeBasicAttackAction({ diceCount: 1, potency: 1 }), living("a")), "a hero 20 ft away is out of melee reach");
+
+const sphere = aoeAction({ aoeShape: "SPHERE", aoeCenterRangeFeet: 60, aoeSphereRadiusFeet: 5 });
+check(actionReachFeet(sphere) === 60, "sphere reach is its centre range");
+check(
+  JSON.stringify(ids(resolveGridAreaTargets(state, stateDragon, sphere, living("a"), players))) === JSON.stringify(["a", "b"]),
+  "a 5 ft sphere on a clustered hero catches the adjacent hero only",
+);
+const twoSpheres = aoeAction({ aoeShape: "SPHERE", aoeCenterRangeFeet: 60, aoeSphereRadiusFeet: 5, aoeCount: 2 });
+check(
+  JSON.stringify(ids(resolveGridAreaTargets(state, stateDragon, twoSpheres, living("a"), players))) === JSON.stringify(["a", "b", "c"]),
+  "a second sphere is aimed at the nearest uncovered hero",
+);
+
+const cone = aoeAction({ aoeShape: "CONE", aoeConeLengthFeet: 30 });
+check(actionReachFeet(cone) === 30, "cone reach is its length");
+check(
+  JSON.stringify(ids(resolveGridAreaTargets(state, stateDragon, cone, living("a"), players))) === JSON.stringify(["a", "b"]),
+  "a cone toward the cluster misses heroes outside its angle and length",
+);
+
+const line = aoeAction({ aoeShape: "LINE", aoeLineLengthFeet: 60, aoeLineWidthFeet: 5 });
+check(
+  JSON.stringify(ids(resolveGridAreaTargets(state, stateDragon, line, living("a"), players))) === JSON.stringify(["a", "d"]),
+  "a line passes through every hero on its axis",
+);
+
+const movedFeet = moveActorToward(state, stateDragon, state.grid!.positions.a, 30, 5);
+check(movedFeet === 15, `closing to melee reach stops adjacent (moved ${movedFeet} ft)`);
+check(isTargetInReach(state, stateDragon, makeBasicAttackAction({ diceCount: 1, potency: 1 }), living("a")), "after moving the hero is in melee reach");
+const pushedFeet = pushActorAway(state, living("a"), state.grid!.positions.dragon, 10);
+check(pushedFeet === 10 && state.grid!.positions.a.x === 6, "forced movement pushes the target directly away");
+
+const [baseScenario] = buildCombatLabSmokeScenarios();
+const abstractRun = runCombatScenario({ ...baseScenario, runs: 1 });
+check(abstractRun.metrics.gridMovementFeet.players === 0, "abstract positioning never moves actors");
+const gridRun = runCombatScenario({ ...baseScenario, runs: 1, grid: { startingDistanceFeet: 60 } });
+check(
+  gridRun.metrics.gridMovementFeet.players + gridRun.metrics.gridMovementFeet.monsters > 0,
+  "melee actors close the starting gap on the grid",
+);
+check(
+  gridRun.firstRunTranscript?.events.some((event) => event.type === "gridMovement"),
+  "grid movement is recorded in the transcript",
+);
+
+const breathMonster = {
+  ...actor("wyrm", "monsters"),
+  actionsPerTurn: 1,
+};
+breathMonster.actions = [aoeAction({ aoeShape: "CONE", aoeConeLengthFeet: 30 })];
+const gridReport = runScenarioSuite({
+  name: "grid cone",
+  players: heroes,
+  monsters: [breathMonster],
+  runs: 4,
+  seed: 77,
+  grid: {},
+});
+check(gridReport.positioning === "grid", "grid reports record their positioning mode");
+check(gridReport.averageMechanics.aoeActionUses.monsters > 0, "the cone is used on the grid");
+check(gridReport.averageMechanics.positionalAbstractionsUsed.monsters === 0, "grid AoE resolution is not counted as an abstraction");
+
+console.log(`combatLabGrid.smoke.ts passed (${checks} checks).`);
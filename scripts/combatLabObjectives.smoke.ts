@@ -0,0 +1,180 @@
+import { buildCombatLabSmokeScenarios, runCombatScenario } from "../lib/combat-lab/autoSimulator";
+import { CombatObjectiveError } from "../lib/combat-lab/objectives";
+import { createFixtureActor } from "../lib/combat-lab/powerAdapter";
+import { formatSuiteReport, runScenarioSuite } from "../lib/combat-lab/reporting";
+import type { CombatScenario, CombatScenarioObjective } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+const boss = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(boss, "the smoke boss scenario exists");
+const base: CombatScenario = { ...boss, runs: 20, maxRounds: 12 };
+
+function withObjectives(objectives: CombatScenarioObjective[], patch: Partial<CombatScenario> = {}): CombatScenario {
+  return { ...base, ...patch, objectives };
+}
+
+const civilian = createFixtureActor({
+  id: "civilian",
+  side: "players",
+  name: "Villager",
+  role: "Support",
+  physicalHp: 1,
+  mentalHp: 1,
+  physicalProtection: 0,
+  mentalProtection: 0,
+  dodgeValue: 0,
+  dodgeDice: 0,
+  physicalDefenceDice: 0,
+  physicalBlockPerSuccess: 0,
+  mentalDefenceDice: 0,
+  mentalBlockPerSuccess: 0,
+  attack: 1,
+  guard: 1,
+  fortitude: 1,
+  intellect: 1,
+  synergy: 1,
+  bravery: 1,
+  basicAttack: { diceCount: 1, potency: 1 },
+  powers: [],
+  defeatModel: "NORMAL_MONSTER",
+});
+
+const plain = runCombatScenario(base, 0);
+check(plain.objectiveStates === undefined && plain.objectiveOutcome === undefined, "scenarios without objectives report none");
+check(runScenarioSuite(base).objectives === undefined, "suite reports omit objectives when the scenario has none");
+
+const hold = withObjectives([{ id: "gate", label: "Hold the gate", kind: "holdRounds", side: "players", rounds: 2 }]);
+const holdRuns = Array.from({ length: hold.runs }, (_, index) => runCombatScenario(hold, index));
+check(holdRuns.some((run) => run.stoppedBy === "objectiveCompleted"), "holding the gate ends some runs");
+check(
+  holdRuns
+    .filter((run) => run.stoppedBy === "objectiveCompleted")
+    .every((run) => run.rounds === 2 && run.winner === "players" && run.objectiveOutcome?.objectiveId === "gate"),
+  "a held objective wins for the holding side at the end of the hold",
+);
+check(holdRuns.every((run) => run.rounds <= 2), "no run outlasts the hold");
+check(
+  holdRuns[0].firstRunTranscript?.events.at(-1)?.message.includes("Hold the gate completed"),
+  "the transcript names the objective that ended combat",
+);
+
+const track = withObjectives([
+  { id: "ritual", label: "Seal the rift", kind: "progressTrack", side: "players", target: 3 },
+]);
+const trackRun = runCombatScenario(track, 0);
+check(trackRun.stoppedBy === "objectiveCompleted" && trackRun.winner === "players", "a full track wins for its side");
+check(trackRun.objectiveStates?.[0].progress === 3, "track progress stops at the target");
+check(
+  trackRun.firstRunTranscript?.events.filter((event) => event.type === "objectiveProgress").length === 3,
+  "each qualifying action advances the track once",
+);
+const filteredTrack = runCombatScenario(
+  withObjectives([
+    { id: "ritual", kind: "progressTrack", side: "players", target: 3, actionIds: ["no-such-action"] },
+  ]),
+  0,
+);
+check(filteredTrack.objectiveStates?.[0].progress === 0, "tracks ignore actions outside their action filter");
+
+const escort: CombatScenarioObjective = {
+  id: "escort",
+  label: "Protect the villager",
+  kind: "protectActor",
+  actorId: "civilian",
+};
+const smokeFromRoundTwo: CombatScenarioObjective = {
+  id: "smoke",
+  kind: "environmentalHazard",
+  pool: "mental",
+  woundsPerRound: 1,
+  affects: "players",
+  startRound: 2,
+};
+const protect = withObjectives([escort, smokeFromRoundTwo], { players: [...base.players, civilian] });
+const protectRuns = Array.from({ length: protect.runs }, (_, index) => runCombatScenario(protect, index));
+check(
+  protectRuns.every(
+    (run) =>
+      run.stoppedBy === "objectiveFailed" &&
+      run.rounds === 2 &&
+      run.winner === "monsters" &&
+      run.objectiveOutcome?.objectiveId === "escort",
+  ),
+  "losing a protected actor is a defeat for its side",
+);
+const unguarded = runCombatScenario(withObjectives([escort], { players: [civilian] }), 0);
+check(
+  unguarded.stoppedBy === "playersDefeated" && unguarded.survivorActorIds.players.includes("civilian"),
+  "a protected civilian does not count as a combatant for its side",
+);
+
+const fire = withObjectives([
+  {
+    id: "fire",
+    label: "Burning town",
+    kind: "environmentalHazard",
+    pool: "physical",
+    woundsPerRound: 1000,
+    affects: "monsters",
+    startRound: 2,
+  },
+]);
+const fireRuns = Array.from({ length: fire.runs }, (_, index) => runCombatScenario(fire, index));
+check(
+  fireRuns.every((run) => run.rounds <= 2 && run.winner !== "monsters"),
+  "a lethal hazard finishes the monsters once it starts",
+);
+check(
+  fireRuns.filter((run) => run.rounds === 2).every((run) => (run.objectiveStates?.[0].hazardWounds.monsters ?? 0) > 0),
+  "hazard wounds are recorded for the side they hit",
+);
+check(fireRuns.every((run) => run.objectiveStates?.[0].hazardWounds.players === 0), "hazards spare unaffected sides");
+const smoke = runCombatScenario(
+  withObjectives([{ id: "smoke", kind: "environmentalHazard", pool: "mental", woundsPerRound: 1 }]),
+  0,
+);
+check(
+  smoke.firstRunTranscript?.events.some((event) => event.type === "environmentalHazard" && event.message.includes("mental")),
+  "hazards log each wound they deal",
+);
+
+const mixed = withObjectives(
+  [
+    { id: "gate", label: "Hold the gate", kind: "holdRounds", side: "players", rounds: 3 },
+    { id: "escort", label: "Protect the villager", kind: "protectActor", actorId: "civilian" },
+    { id: "smoke", label: "Smoke", kind: "environmentalHazard", pool: "mental", woundsPerRound: 1 },
+  ],
+  { players: [...base.players, civilian] },
+);
+const report = runScenarioSuite(mixed);
+const breakdown = Object.values(report.stoppedByBreakdown).reduce((sum, value) => sum + value, 0);
+check(Math.abs(breakdown - 1) < 1e-9, "every run is attributed to exactly one ending");
+check(report.objectives?.length === 3, "the report summarises every objective");
+const gate = report.objectives.find((objective) => objective.objectiveId === "gate");
+check(gate && Math.abs(gate.completedRate - report.stoppedByBreakdown.objectiveCompleted) < 1e-9, "completion rates match the ending breakdown");
+check(formatSuiteReport(report).includes("Objective Hold the gate: completed"), "the text report lists objective paths");
+check(
+  JSON.stringify(runScenarioSuite(mixed).stoppedByBreakdown) === JSON.stringify(report.stoppedByBreakdown),
+  "objective runs stay deterministic",
+);
+
+for (const [objective, message] of [
+  [{ id: "bad", kind: "holdRounds", side: "players", rounds: 0 }, "zero-round holds"],
+  [{ id: "bad", kind: "protectActor", actorId: "nobody" }, "unknown protected actors"],
+  [{ id: "bad", kind: "environmentalHazard", pool: "physical", woundsPerRound: 1.5 }, "fractional hazards"],
+] as Array<[CombatScenarioObjective, string]>) {
+  try {
+    runCombatScenario(withObjectives([objective]), 0);
+    check(false, `${message} are rejected`);
+  } catch (error) {
+    check(error instanceof CombatObjectiveError && error.code === "INVALID_OBJECTIVE", `${message} are rejected`);
+  }
+}
+
+console.log(`combatLabObjectives.smoke.ts passed (${checks} checks).`);
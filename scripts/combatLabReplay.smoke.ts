@@ -0,0 +1,104 @@
+import { buildCombatLabSmokeScenarios, runCombatScenario } from "../lib/combat-lab/autoSimulator";
+import {
+  CombatReplayError,
+  parseReplaySelector,
+  playerOutcomeScore,
+  replayCombatRun,
+  resolveReplayRunIndex,
+} from "../lib/combat-lab/replay";
+import { runScenarioSuite } from "../lib/combat-lab/reporting";
+import type { CombatScenario } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+const boss = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(boss, "the smoke boss scenario exists");
+const scenario: CombatScenario = { ...boss, runs: 12, maxRounds: 12 };
+
+const suiteRuns = Array.from({ length: scenario.runs }, (_, index) => runCombatScenario(scenario, index));
+check(suiteRuns[0].firstRunTranscript, "run 0 still records its transcript by default");
+check(
+  suiteRuns[0].firstRunTranscript.events.every((event) => event.snapshot === undefined),
+  "ordinary suite transcripts carry no snapshots",
+);
+check(suiteRuns.slice(1).every((run) => !run.firstRunTranscript), "later suite runs skip the transcript");
+
+const replay = replayCombatRun(scenario, { runIndex: 5 });
+check(replay.runIndex === 5 && replay.selector === "index", "an index selector replays that run");
+check(
+  replay.winner === suiteRuns[5].winner &&
+    replay.rounds === suiteRuns[5].rounds &&
+    replay.winnerHealthRemainingPercent === suiteRuns[5].winnerHealthRemainingPercent,
+  "the replay reproduces the suite's outcome for the same run index",
+);
+check(replay.transcript.runIndex === 5, "the transcript is labelled with the replayed run");
+check(replay.transcript.events.length > 0, "the replay records events");
+check(
+  replay.transcript.events.every((event) => event.snapshot?.actors.length === scenario.players.length + scenario.monsters.length),
+  "every event carries a snapshot of every actor",
+);
+check(
+  JSON.stringify(replayCombatRun(scenario, { runIndex: 5 }).transcript) === JSON.stringify(replay.transcript),
+  "replays are deterministic from seed and run index",
+);
+
+const lastSnapshot = replay.transcript.events.at(-1)?.snapshot;
+check(lastSnapshot, "the final event has a snapshot");
+const firstSnapshot = replay.transcript.events[0].snapshot!;
+const hpTotal = (snapshot: typeof firstSnapshot) =>
+  snapshot.actors.reduce((sum, actor) => sum + actor.physicalHp.current + actor.mentalHp.current, 0);
+check(hpTotal(lastSnapshot) < hpTotal(firstSnapshot), "snapshots track wounds as the fight progresses");
+check(
+  lastSnapshot.actors.every((actor) => actor.physicalHp.max > 0 && actor.mentalHp.max > 0),
+  "snapshots include pool maxima",
+);
+check(
+  replay.transcript.events.every((event) =>
+    event.snapshot!.actors.every((actor) => actor.cooldowns.every((cooldown) => cooldown.remaining > 0)),
+  ),
+  "finished cooldowns are omitted",
+);
+
+const scores = suiteRuns.map(playerOutcomeScore);
+const bestIndex = scores.indexOf(Math.max(...scores));
+const worstIndex = scores.indexOf(Math.min(...scores));
+check(resolveReplayRunIndex(scenario, "best") === bestIndex, "best picks the first run with the highest player score");
+check(resolveReplayRunIndex(scenario, "worst") === worstIndex, "worst picks the first run with the lowest player score");
+const best = replayCombatRun(scenario, "best");
+check(best.selector === "best" && best.runIndex === bestIndex, "best replays report the chosen index");
+check(playerOutcomeScore({ winner: "players", winnerHealthRemainingPercent: 0.4 }) === 0.4, "player wins score their health");
+check(playerOutcomeScore({ winner: "monsters", winnerHealthRemainingPercent: 0.4 }) === -0.4, "monster wins score negatively");
+check(playerOutcomeScore({ winner: "stalemate", winnerHealthRemainingPercent: 0 }) === 0, "stalemates score zero");
+
+check(
+  JSON.stringify(runScenarioSuite(scenario).firstRunTranscript) === JSON.stringify(suiteRuns[0].firstRunTranscript),
+  "the suite report still carries the plain run 0 transcript",
+);
+
+check(parseReplaySelector("worst") === "worst", "named selectors parse");
+const parsed = parseReplaySelector({ runIndex: "3" });
+check(typeof parsed === "object" && parsed.runIndex === 3, "wire run indexes are coerced");
+for (const bad of [{ runIndex: -1 }, { runIndex: 1.5 }, "median", null]) {
+  try {
+    parseReplaySelector(bad);
+    check(false, `selector ${JSON.stringify(bad)} is rejected`);
+  } catch (error) {
+    check(error instanceof CombatReplayError && error.code === "INVALID_SELECTOR", `selector ${JSON.stringify(bad)} is rejected`);
+  }
+}
+try {
+  replayCombatRun(scenario, { runIndex: scenario.runs });
+  check(false, "run indexes past the suite are rejected");
+} catch (error) {
+  check(
+    error instanceof CombatReplayError && error.code === "RUN_INDEX_OUT_OF_RANGE",
+    "run indexes past the suite are rejected",
+  );
+}
+
+console.log(`combatLabReplay.smoke.ts passed (${checks} checks).`);
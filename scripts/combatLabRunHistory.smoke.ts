@@ -0,0 +1,69 @@
+import { buildCombatLabSmokeScenarios } from "../lib/combat-lab/autoSimulator";
+import { runScenarioSuite } from "../lib/combat-lab/reporting";
+import { compareSuiteReports, toHistoryReport } from "../lib/combat-lab/runHistory";
+import type { CombatSuiteReport } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function near(actual: number | null, expected: number, message: string) {
+  check(actual !== null && Math.abs(actual - expected) < 1e-9, `${message} (got ${actual}, expected ${expected})`);
+}
+
+const [baseScenario] = buildCombatLabSmokeScenarios();
+check(baseScenario, "smoke scenarios include at least one scenario");
+
+const before = runScenarioSuite({ ...baseScenario, runs: 12 });
+const after = runScenarioSuite({ ...baseScenario, runs: 12, seed: baseScenario.seed + 17 });
+
+const stored = toHistoryReport(before);
+check(stored.firstRunTranscript === undefined, "history report drops the first-run transcript");
+check(stored.playerWinRate === before.playerWinRate, "history report keeps headline outcomes");
+check(before.firstRunTranscript !== undefined, "toHistoryReport does not mutate the source report");
+const roundTripped = JSON.parse(JSON.stringify(stored)) as CombatSuiteReport;
+check(roundTripped.actorContributions.length === before.actorContributions.length, "history report survives JSON storage");
+
+const comparison = compareSuiteReports(before, after);
+const playerWin = comparison.outcomes.find((metric) => metric.key === "playerWinRate");
+check(playerWin, "comparison includes the player win rate");
+near(playerWin.delta, after.playerWinRate - before.playerWinRate, "player win rate delta is after minus before");
+check(playerWin.format === "percent", "win rates are formatted as percentages");
+const medianRounds = comparison.rounds.find((metric) => metric.key === "medianRounds");
+check(medianRounds, "comparison includes median rounds");
+near(medianRounds.delta, after.medianRounds - before.medianRounds, "median round delta is after minus before");
+check(comparison.rounds.length === 4, "round distribution compares average, median, p10 and p90");
+
+check(comparison.actors.length === before.actorContributions.length, "same scenario pairs every actor");
+check(comparison.actors.every((actor) => actor.presentIn === "both"), "same scenario actors are present in both runs");
+const firstActor = before.actorContributions[0];
+const firstActorDelta = comparison.actors.find((actor) => actor.actorKey === firstActor.actorId);
+check(firstActorDelta, "actors are keyed by instance id");
+const afterFirstActor = after.actorContributions.find((actor) => actor.actorId === firstActor.actorId);
+check(afterFirstActor, "after report includes the first actor");
+const damage = firstActorDelta.metrics.find((metric) => metric.key === "damage");
+check(damage, "actor metrics include damage");
+near(damage.delta, afterFirstActor.damage - firstActor.damage, "actor damage delta is after minus before");
+
+check(comparison.defensivePools.length === 2, "defensive pools compare both source sides");
+check(
+  comparison.defensivePools.every((entry) => entry.metrics.every((metric) => metric.before !== null)),
+  "defensive pool metrics are numeric for suite reports",
+);
+
+const withoutActors: CombatSuiteReport = {
+  ...after,
+  actorContributions: after.actorContributions.slice(1),
+};
+const partial = compareSuiteReports(before, withoutActors);
+const removed = partial.actors.find((actor) => actor.actorKey === firstActor.actorId);
+check(removed?.presentIn === "before", "actors missing from the after run are flagged");
+check(
+  removed.metrics.every((metric) => metric.after === null && metric.delta === null),
+  "missing actors have no after values or deltas",
+);
+
+console.log(`combatLabRunHistory.smoke.ts passed (${checks} checks).`);
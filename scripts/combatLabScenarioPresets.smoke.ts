@@ -0,0 +1,107 @@
+import {
+  COMBAT_LAB_MAX_ROUNDS,
+  MAX_COMBAT_LAB_SEED,
+  parseCharacterSelections,
+  parseGridConfig,
+  parseMaxRounds,
+  parseMonsterSelections,
+  parseSeed,
+} from "../lib/combat-lab/runRequest";
+import {
+  duplicatePresetName,
+  parseScenarioPresetDefinition,
+  presetRunRequestBody,
+  ScenarioPresetError,
+  type CombatLabScenarioPresetBody,
+} from "../lib/combat-lab/scenarioPresets";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectInvalid(body: CombatLabScenarioPresetBody, message: string) {
+  try {
+    parseScenarioPresetDefinition(body);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof ScenarioPresetError && error.code === "INVALID_PRESET", message);
+  }
+}
+
+const body: CombatLabScenarioPresetBody = {
+  name: "  Bridge ambush  ",
+  characters: [
+    { characterId: "char-a", quantity: 2 },
+    { characterId: "char-b", quantity: 1 },
+  ],
+  monsters: [
+    { monsterId: "goblin", quantity: 4, aiPolicy: "focusLowestHealth", level: "3" },
+    { monsterId: "ogre", quantity: 1 },
+  ],
+  runs: 120,
+  seed: "4242",
+  maxRounds: 30,
+  turnOrder: "monstersFirst",
+  positioning: "grid",
+  gridStartingDistanceFeet: 45,
+};
+
+const preset = parseScenarioPresetDefinition(body);
+check(preset.name === "Bridge ambush", "preset names are trimmed");
+check(preset.runs === 120 && preset.seed === 4242 && preset.maxRounds === 30, "run settings are kept");
+check(preset.turnOrder === "monstersFirst", "turn order is kept");
+check(preset.scenarioInput.grid?.startingDistanceFeet === 45, "grid positioning is kept");
+check(preset.scenarioInput.characters.length === 2, "character selections are kept");
+const goblin = preset.scenarioInput.monsters.find((entry) => entry.monsterId === "goblin");
+check(goblin?.level === 3 && goblin.aiPolicy === "focusLowestHealth", "monster level overrides and policies are kept");
+check(
+  !("level" in preset.scenarioInput.monsters.find((entry) => entry.monsterId === "ogre")!),
+  "monsters without an override carry no level",
+);
+
+const roundTrip = presetRunRequestBody(preset);
+check(
+  JSON.stringify(parseCharacterSelections(roundTrip).selections) === JSON.stringify(preset.scenarioInput.characters),
+  "characters survive the trip back through the run request parser",
+);
+check(
+  JSON.stringify(parseMonsterSelections(roundTrip).selections) === JSON.stringify(preset.scenarioInput.monsters),
+  "monsters survive the trip back through the run request parser",
+);
+check(parseGridConfig(roundTrip)?.startingDistanceFeet === 45, "grid settings survive the round trip");
+check(parseSeed(roundTrip.seed).seed === 4242 && parseMaxRounds(roundTrip.maxRounds) === 30, "seed and max rounds survive");
+check(
+  JSON.stringify(parseScenarioPresetDefinition({ ...roundTrip, name: preset.name })) === JSON.stringify(preset),
+  "a preset re-parses to itself",
+);
+
+const abstractPreset = parseScenarioPresetDefinition({ ...body, positioning: "abstract", seed: "" });
+check(abstractPreset.seed === null, "a blank seed saves as random");
+check(presetRunRequestBody(abstractPreset).positioning === "abstract", "abstract presets run abstract");
+check(parseGridConfig(presetRunRequestBody(abstractPreset)) === null, "abstract presets carry no grid");
+
+expectInvalid({ ...body, name: "   " }, "blank names are rejected");
+expectInvalid({ ...body, name: "x".repeat(81) }, "overlong names are rejected");
+expectInvalid({ ...body, monsters: [] }, "presets need monsters");
+expectInvalid({ ...body, characters: [] }, "presets need characters");
+expectInvalid({ ...body, seed: -1 }, "negative seeds are rejected");
+expectInvalid({ ...body, monsters: [{ monsterId: "goblin", quantity: 1, level: 31 }] }, "out-of-range levels are rejected");
+expectInvalid({ ...body, monsters: [{ monsterId: "goblin", quantity: 1, level: 2.5 }] }, "fractional levels are rejected");
+
+check(parseSeed(undefined).seed === null && !parseSeed(undefined).error, "a missing seed means pick one");
+check(parseSeed(MAX_COMBAT_LAB_SEED).seed === MAX_COMBAT_LAB_SEED, "the largest seed is accepted");
+check(Boolean(parseSeed(MAX_COMBAT_LAB_SEED + 1).error), "seeds past the limit are rejected");
+check(parseMaxRounds(undefined) === COMBAT_LAB_MAX_ROUNDS, "max rounds default to the campaign cap");
+check(parseMaxRounds(0) === 1 && parseMaxRounds(500) === 100, "max rounds are clamped");
+
+check(duplicatePresetName("Ambush", []) === "Ambush (copy)", "the first copy gets a plain suffix");
+check(
+  duplicatePresetName("Ambush", ["Ambush", "Ambush (copy)", "Ambush (copy 2)"]) === "Ambush (copy 3)",
+  "later copies are numbered past existing names",
+);
+check(duplicatePresetName("x".repeat(80), []).length <= 80, "copy names stay within the name limit");
+
+console.log(`combatLabScenarioPresets.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,134 @@
+import { buildCombatLabSmokeScenarios } from "../lib/combat-lab/autoSimulator";
+import { runScenarioSuite } from "../lib/combat-lab/reporting";
+import {
+  CombatSweepError,
+  parseSweepAxes,
+  runScenarioSweep,
+  type CombatSweepActorOverrides,
+  type CombatSweepAxis,
+} from "../lib/combat-lab/sweep";
+import type { CombatScenario } from "../lib/combat-lab/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectSweepError(run: () => unknown, code: string, message: string) {
+  try {
+    run();
+  } catch (error) {
+    check(error instanceof CombatSweepError && error.code === code, `${message} (got ${String(error)})`);
+    return;
+  }
+  check(false, `${message} (no error thrown)`);
+}
+
+const party = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(party, "the smoke party scenario exists");
+const base: CombatScenario = { ...party, runs: 12, maxRounds: 12 };
+
+const quantitySweep = runScenarioSweep({
+  base,
+  axes: [
+    { kind: "monsterQuantity", values: [1, 2] },
+    { kind: "turnOrder", values: ["playersFirst", "monstersFirst"] },
+  ],
+});
+check(quantitySweep.cells.length === 4, "the sweep covers every combination of axis values");
+check(
+  quantitySweep.cells.every((cell) => cell.coordinates.length === 2),
+  "each cell records one coordinate per axis",
+);
+const single = quantitySweep.cells.find((cell) => cell.coordinates[0] === 1 && cell.coordinates[1] === "playersFirst");
+const double = quantitySweep.cells.find((cell) => cell.coordinates[0] === 2 && cell.coordinates[1] === "playersFirst");
+check(single && double, "cells can be looked up by coordinates");
+check(single.monsterCount === 1 && double.monsterCount === 2, "monster quantity re-expands each monster group");
+check(single.playerCount === 4, "axes that are not swept keep the base party");
+check(
+  quantitySweep.cells.every(
+    (cell) => Math.abs(cell.playerWinRate + cell.monsterWinRate + cell.stalemateRate - 1) < 1e-9,
+  ),
+  "every cell's outcome rates sum to one",
+);
+
+const direct = runScenarioSuite({ ...base, turnOrder: "playersFirst" });
+const unchanged = runScenarioSweep({ base, axes: [{ kind: "turnOrder", values: ["playersFirst"] }] }).cells[0];
+check(
+  unchanged.playerWinRate === direct.playerWinRate && unchanged.medianRounds === direct.medianRounds,
+  "a cell matching the base scenario reproduces the plain suite with the same seed",
+);
+
+const partySweep = runScenarioSweep({ base, axes: [{ kind: "partySize", values: [2, 6] }] });
+check(partySweep.cells[0].playerCount === 2, "a smaller party takes the first templates");
+check(partySweep.cells[1].playerCount === 6, "a larger party cycles through the roster");
+
+const builtWith: CombatSweepActorOverrides[] = [];
+const levelSweep = runScenarioSweep({
+  base,
+  axes: [
+    { kind: "monsterLevel", values: [1, 5] },
+    { kind: "combatTuning", key: "protectionK", values: [2, 3] },
+    { kind: "turnOrder", values: ["playersFirst", "monstersFirst"] },
+  ],
+  buildActors: (overrides) => {
+    builtWith.push(overrides);
+    return {
+      players: base.players,
+      monsters: base.monsters.map((monster) => ({ ...monster, level: overrides.monsterLevel ?? monster.level })),
+    };
+  },
+});
+check(levelSweep.cells.length === 8, "three axes produce the full cube");
+check(builtWith.length === 4, "actors are rebuilt once per distinct level and tuning pair, not once per cell");
+check(
+  builtWith.some((entry) => entry.monsterLevel === 5 && entry.combatTuning?.protectionK === 3),
+  "the builder receives the swept level and tuning value",
+);
+
+expectSweepError(
+  () => runScenarioSweep({ base, axes: [{ kind: "monsterLevel", values: [1, 2] }] }),
+  "ACTOR_BUILDER_REQUIRED",
+  "monster level sweeps need a way to rebuild actors",
+);
+expectSweepError(() => runScenarioSweep({ base, axes: [] }), "NO_AXES", "a sweep needs an axis");
+const tooMany: CombatSweepAxis[] = [
+  { kind: "monsterQuantity", values: [1] },
+  { kind: "partySize", values: [1] },
+  { kind: "turnOrder", values: ["playersFirst"] },
+  { kind: "combatTuning", key: "protectionK", values: [1] },
+];
+expectSweepError(() => runScenarioSweep({ base, axes: tooMany }), "TOO_MANY_AXES", "sweeps are limited to three axes");
+expectSweepError(
+  () =>
+    runScenarioSweep({
+      base: { ...base, runs: 500 },
+      axes: [
+        { kind: "monsterQuantity", values: Array.from({ length: 12 }, (_, index) => index + 1) },
+        { kind: "partySize", values: [1, 2, 3] },
+      ],
+    }),
+  "TOO_MANY_RUNS",
+  "the total run budget is enforced",
+);
+
+const parsed = parseSweepAxes([
+  { kind: "monsterLevel", values: ["3", 5, 5] },
+  { kind: "combatTuning", key: "protectionS", values: [4, 8] },
+]);
+check(parsed[0].values.length === 2 && parsed[0].values[0] === 3, "wire values are coerced and deduplicated");
+expectSweepError(
+  () => parseSweepAxes([{ kind: "combatTuning", key: "notARealKey", values: [1] }]),
+  "INVALID_AXIS",
+  "unknown tuning keys are rejected",
+);
+expectSweepError(
+  () => parseSweepAxes([{ kind: "turnOrder", values: ["sideways"] }]),
+  "INVALID_AXIS",
+  "unknown turn orders are rejected",
+);
+expectSweepError(() => parseSweepAxes([{ kind: "weather", values: [1] }]), "INVALID_AXIS", "unknown axes are rejected");
+
+console.log(`combatLabSweep.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,79 @@
+import {
+  applyConsumableUse,
+  consumableChargesPerUnit,
+  ConsumableError,
+  MAX_CONSUMABLE_CHARGES,
+  normalizeConsumableCharges,
+  openUnitCharges,
+  readUsageNote,
+  totalStackCharges,
+} from "../lib/campaign/consumables";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectConsumableError(run: () => unknown, code: string, message: string) {
+  try {
+    run();
+  } catch (error) {
+    check(error instanceof ConsumableError && error.code === code && error.status === 400, message);
+    return;
+  }
+  check(false, message);
+}
+
+check(
+  normalizeConsumableCharges("3") === 3 &&
+    normalizeConsumableCharges(0) === null &&
+    normalizeConsumableCharges(1.5) === null &&
+    normalizeConsumableCharges(500) === MAX_CONSUMABLE_CHARGES,
+  "Forge charge input is normalized",
+);
+check(
+  consumableChargesPerUnit({ type: "CONSUMABLE", consumableCharges: null }) === 1 &&
+    consumableChargesPerUnit({ type: "CONSUMABLE", consumableCharges: 4 }) === 4 &&
+    consumableChargesPerUnit({ type: "ITEM", consumableCharges: 4 }) === null,
+  "only consumables carry charges, defaulting to single use",
+);
+
+const fresh = { quantity: 3, chargesRemaining: null };
+check(totalStackCharges(fresh, 4) === 12, "an unopened stack holds every unit's charges");
+check(
+  openUnitCharges({ quantity: 1, chargesRemaining: 9 }, 4) === 4 && openUnitCharges({ quantity: 1, chargesRemaining: 2 }, 4) === 2,
+  "out-of-range opened charges read as a fresh unit",
+);
+
+const opened = applyConsumableUse(fresh, 4, 1);
+check(
+  opened.quantity === 3 && opened.chargesRemaining === 3 && opened.unitsConsumed === 0 && !opened.stackConsumed,
+  "the first charge opens a unit",
+);
+
+const finished = applyConsumableUse(opened, 4, 3);
+check(
+  finished.quantity === 2 && finished.chargesRemaining === null && finished.unitsConsumed === 1,
+  "spending the opened unit's last charge uses it up and leaves the next unit unopened",
+);
+
+const spanning = applyConsumableUse({ quantity: 3, chargesRemaining: 1 }, 4, 6);
+check(
+  spanning.quantity === 1 && spanning.chargesRemaining === 3 && spanning.unitsConsumed === 2,
+  "a use can span several units",
+);
+
+const lastDose = applyConsumableUse({ quantity: 1, chargesRemaining: null }, 1, 1);
+check(
+  lastDose.quantity === 0 && lastDose.chargesRemaining === null && lastDose.stackConsumed && lastDose.unitsConsumed === 1,
+  "using the last single-use unit consumes the stack",
+);
+
+expectConsumableError(() => applyConsumableUse({ quantity: 1, chargesRemaining: 2 }, 4, 3), "NOT_ENOUGH_CHARGES", "cannot spend more charges than the stack holds");
+expectConsumableError(() => applyConsumableUse(fresh, 4, 0), "INVALID_CHARGES", "charge counts must be positive");
+
+check(readUsageNote("  healed Mira ") === "healed Mira" && readUsageNote(" ") === null, "usage notes are trimmed");
+
+console.log(`consumables.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,122 @@
+import {
+  backpackSaleTotal,
+  DEFAULT_ITEM_PRICING_RULE,
+  EconomyError,
+  parseCurrencyName,
+  parsePricingRuleInput,
+  parseShopInput,
+  parseWalletSource,
+  priceItem,
+  readStoredPricingRule,
+  readWholeAmount,
+  sameWallet,
+  shopItemPrice,
+  shopSellPrice,
+} from "../lib/campaign/economy";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectEconomyError(run: () => unknown, message: string) {
+  try {
+    run();
+  } catch (error) {
+    check(error instanceof EconomyError && error.status === 400, message);
+    return;
+  }
+  check(false, message);
+}
+
+const rule = DEFAULT_ITEM_PRICING_RULE;
+
+// (10 + 4 x 5) x 1 x 1 = 30, sells for half.
+const common = priceItem({ spentFp: 4, rarity: "COMMON", level: 1 }, rule);
+check(common.buyPrice === 30 && common.sellPrice === 15, "common level 1 item prices from Forge spend");
+
+// (10 + 4 x 5) x 4 x (1 + 0.1 x 2) = 144.
+const rare = priceItem({ spentFp: 4, rarity: "RARE", level: 3 }, rule);
+check(rare.buyPrice === 144 && rare.sellPrice === 72, "rarity and level multiply the price");
+
+const refunded = priceItem({ spentFp: -6, rarity: "COMMON", level: 0 }, rule);
+check(refunded.buyPrice === 10, "negative spend and level below 1 price as the base price");
+
+const odd = priceItem({ spentFp: 1, rarity: "COMMON", level: 1 }, { ...rule, sellRatio: 0.3 });
+check(odd.sellPrice === 4, "sell price rounds down");
+
+check(shopItemPrice(common, null) === 30 && shopItemPrice(common, 12) === 12, "shop override replaces the buy price");
+check(
+  shopSellPrice(common, null, rule) === 15 && shopSellPrice(common, 25, rule) === 12,
+  "shops buy back against their own override",
+);
+
+check(backpackSaleTotal(15, 2, { quantity: 3, chargesRemaining: 1 }, 4) === 30, "partial sales take unopened units first");
+check(
+  backpackSaleTotal(15, 3, { quantity: 3, chargesRemaining: 1 }, 4) === 33,
+  "selling the whole stack pro-rates the opened unit by its charges left",
+);
+check(backpackSaleTotal(15, 3, { quantity: 3, chargesRemaining: null }, 4) === 45, "unopened stacks sell at full price");
+check(backpackSaleTotal(15, 2, { quantity: 2, chargesRemaining: 3 }, null) === 30, "non-consumables ignore charges");
+
+const stored = readStoredPricingRule({ basePrice: 3, sellRatio: 4, levelStep: -1, rarityMultipliers: { RARE: 7 } });
+check(
+  stored.basePrice === 3 &&
+    stored.sellRatio === 1 &&
+    stored.levelStep === rule.levelStep &&
+    stored.rarityMultipliers.RARE === 7 &&
+    stored.rarityMultipliers.MYTHIC === rule.rarityMultipliers.MYTHIC,
+  "stored rules fall back per field and clamp the sell ratio",
+);
+check(readStoredPricingRule(null).pricePerFp === rule.pricePerFp, "a missing stored rule reads as the default");
+
+check(parsePricingRuleInput(rule).rarityMultipliers.LEGENDARY === 10, "the default rule round-trips");
+expectEconomyError(
+  () => parsePricingRuleInput({ ...rule, rarityMultipliers: { COMMON: 1 } }),
+  "submitted rules need every rarity multiplier",
+);
+expectEconomyError(() => parsePricingRuleInput({ ...rule, sellRatio: 1.5 }), "submitted sell ratio cannot exceed 1");
+
+check(parseCurrencyName("  Crowns ") === "Crowns", "currency names are trimmed");
+expectEconomyError(() => parseCurrencyName(" "), "blank currency names are rejected");
+
+check(readWholeAmount("25", "amount", 1) === 25, "string amounts are accepted");
+expectEconomyError(() => readWholeAmount(2.5, "amount", 1), "fractional amounts are rejected");
+expectEconomyError(() => readWholeAmount(0, "amount", 1), "amounts below the minimum are rejected");
+
+const party = parseWalletSource("party", "from");
+const hero = parseWalletSource(" hero-1 ", "to");
+check(party.kind === "party" && hero.kind === "character" && hero.characterId === "hero-1", "wallet sources parse");
+check(
+  sameWallet(party, { kind: "party" }) && !sameWallet(party, hero) && sameWallet(hero, { kind: "character", characterId: "hero-1" }),
+  "sameWallet compares wallets",
+);
+expectEconomyError(() => parseWalletSource("", "from"), "blank wallet sources are rejected");
+
+const shop = parseShopInput({
+  name: " Market ",
+  items: [
+    { itemTemplateId: "sword", priceOverride: "", stock: 3 },
+    { itemTemplateId: "shield", priceOverride: 40 },
+  ],
+});
+check(
+  shop.name === "Market" &&
+    shop.isOpen &&
+    shop.description === null &&
+    shop.items[0].priceOverride === null &&
+    shop.items[0].stock === 3 &&
+    shop.items[1].stock === null,
+  "shop input parses overrides and stock",
+);
+check(parseShopInput({ name: "Closed", isOpen: false }).isOpen === false, "shops can be closed");
+expectEconomyError(
+  () => parseShopInput({ name: "Market", items: [{ itemTemplateId: "sword" }, { itemTemplateId: "sword" }] }),
+  "duplicate shop items are rejected",
+);
+expectEconomyError(() => parseShopInput({ name: "Market", items: [{ itemTemplateId: "sword", stock: -1 }] }), "negative stock is rejected");
+expectEconomyError(() => parseShopInput({ items: [] }), "shops need a name");
+
+console.log(`economy.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,121 @@
+import {
+  compareForgeItemPricing,
+  sortForgeCostImpactEntries,
+  type ForgeCostImpactEntry,
+} from "../lib/config/forgeCostSetsShared";
+import {
+  calculateForgeTotals,
+  forgeFormValuesFromStoredItem,
+  forgeVrpEntriesFromStoredItem,
+  type ForgeCalculatorContext,
+  type ForgeConfigRow,
+  type ForgeCostRow,
+} from "../lib/forge/forgeCalculator";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+const storedItem = {
+  id: "item-1",
+  name: "Ember Blade",
+  rarity: "RARE",
+  level: 4,
+  type: "WEAPON",
+  size: "ONE_HANDED",
+  generalDescription: "",
+  meleeTargets: 1,
+  meleePhysicalStrength: 2,
+  rangeCategories: [{ rangeCategory: "MELEE" }],
+  meleeDamageTypes: [{ damageTypeId: 1 }],
+  vrpEntries: [{ effectKind: "RESIST", magnitude: 2, damageTypeId: 1, id: 9 }],
+};
+
+const values = forgeFormValuesFromStoredItem(storedItem);
+check(values.rarity === "RARE" && values.level === 4 && values.size === "ONE_HANDED", "item scalars hydrate");
+check(values.rangeCategories?.join() === "MELEE", "range categories hydrate from relation rows");
+check(values.meleeDamageTypeIds?.join() === "1", "damage types hydrate from relation rows");
+check(values.selectedMythicLimitBreakId === null, "mythic selection is left to the editor");
+check(forgeFormValuesFromStoredItem({}).tags?.length === 0, "an empty record hydrates to defaults");
+
+const vrpEntries = forgeVrpEntriesFromStoredItem(storedItem);
+check(vrpEntries.length === 1 && !("id" in vrpEntries[0]), "vrp entries keep only pricing fields");
+
+const context: ForgeCalculatorContext = {
+  damageTypes: [{ id: 1, name: "Fire", attackMode: "PHYSICAL" }],
+  attackEffects: [],
+  defEffects: [],
+  weaponAttributes: [],
+  armorAttributes: [],
+  shieldAttributes: [],
+  wardingOptions: [],
+  sanctifiedOptions: [],
+  vrpEntries: [],
+};
+
+const activeConfig: ForgeConfigRow[] = [
+  { category: "RARITY", selector1: "rare", value: 5 },
+  { category: "SIZE", selector1: "Weapon", selector2: "One Handed", value: 1 },
+];
+const activeCosts: ForgeCostRow[] = [
+  { category: "RangeCategory", selector1: "Weapon", selector2: "Melee", value: 2 },
+  { category: "Stat", selector1: "Weapon", selector2: "PhysicalStrength", selector3: "2", value: 3 },
+];
+
+const active = calculateForgeTotals(values, activeConfig, activeCosts, context);
+check(active.totalFp === 20, `budget is level x rarity scalar (${active.totalFp})`);
+check(active.spentFp > 0 && active.remainingFp === active.totalFp - active.spentFp, "spend comes from cost rows");
+
+const draftConfig = activeConfig.map((row) => (row.category === "SIZE" ? { ...row, value: 2 } : row));
+const resized = calculateForgeTotals(values, draftConfig, activeCosts, context);
+check(resized.multiplier === 2 && resized.spentFp === active.spentFp * 2, "the size multiplier scales spend");
+
+const dearer = calculateForgeTotals(
+  values,
+  activeConfig,
+  activeCosts.map((row) => ({ ...row, value: Number(row.value) * 10 })),
+  context,
+);
+check(dearer.spentFp > active.spentFp, "dearer cost rows raise spend");
+check(calculateForgeTotals(values, [], [], context).totalFp === 0, "missing rarity config gives no budget");
+
+const item = {
+  itemId: "item-1",
+  name: "Ember Blade",
+  campaignId: "campaign-a",
+  campaignName: "Ashlands",
+  type: "WEAPON",
+  rarity: "RARE",
+  level: 4,
+  pricedUnderSetId: "set-active",
+};
+check(compareForgeItemPricing(item, active, { ...active }) === null, "unchanged prices are not reported");
+
+const changed = compareForgeItemPricing(
+  item,
+  { totalFp: 20, spentFp: 10.004, remainingFp: 9.996 },
+  { totalFp: 20, spentFp: 24.5, remainingFp: -4.5 },
+);
+check(changed?.spentDelta === 14.5 && changed.before.spentFp === 10, "deltas are rounded to two places");
+check(changed.becomesOverBudget, "going negative flags the item");
+
+const stillOver = compareForgeItemPricing(
+  item,
+  { totalFp: 20, spentFp: 22, remainingFp: -2 },
+  { totalFp: 20, spentFp: 23, remainingFp: -3 },
+);
+check(stillOver && !stillOver.becomesOverBudget, "items already over budget are not newly flagged");
+
+const entry = (name: string, spentDelta: number, becomesOverBudget = false): ForgeCostImpactEntry => ({
+  ...changed,
+  name,
+  spentDelta,
+  becomesOverBudget,
+});
+const sorted = sortForgeCostImpactEntries([entry("Axe", 1), entry("Bow", -5), entry("Club", 0.5, true), entry("Dirk", 1)]);
+check(sorted.map((row) => row.name).join() === "Club,Bow,Axe,Dirk", "over-budget first, then largest move, then name");
+
+console.log(`forgeCostSets.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,248 @@
+import { defaultBuilderData, type CharacterBuilderData } from "../lib/characterBuilder/core";
+import type { CharacterBuilderDerivedBackpackItem } from "../lib/characterBuilder/derivedStats";
+import {
+  buildForgeItemComparisonColumns,
+  buildItemSwapComparison,
+  COMPARE_CANDIDATE_BACKPACK_ITEM_ID,
+  defaultCompareSlot,
+  forgeOutputProfileInputFromStoredItem,
+  getCompareSlotOptions,
+  MAX_COMPARE_ITEMS,
+  normalizeCompareSelection,
+  summarizeForgeCompareFacts,
+  type ForgeCompareItem,
+} from "../lib/forge/itemComparison";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function makeItem(overrides: Partial<ForgeCompareItem>): ForgeCompareItem {
+  return {
+    id: "item",
+    name: "Item",
+    rarity: "COMMON",
+    level: 1,
+    type: "WEAPON",
+    size: "ONE_HANDED",
+    armorLocation: null,
+    itemLocation: null,
+    generalDescription: null,
+    globalAttributeModifiers: [],
+    meleeTargets: 1,
+    rangedTargets: null,
+    rangedDistanceFeet: null,
+    aoeCenterRangeFeet: null,
+    aoeCount: null,
+    aoeShape: null,
+    aoeSphereRadiusFeet: null,
+    aoeConeLengthFeet: null,
+    aoeLineWidthFeet: null,
+    aoeLineLengthFeet: null,
+    physicalStrength: null,
+    mentalStrength: null,
+    meleePhysicalStrength: null,
+    meleeMentalStrength: null,
+    rangedPhysicalStrength: null,
+    rangedMentalStrength: null,
+    aoePhysicalStrength: null,
+    aoeMentalStrength: null,
+    ppv: null,
+    mpv: null,
+    auraPhysical: null,
+    auraMental: null,
+    customWeaponAttributes: null,
+    customArmorAttributes: null,
+    customShieldAttributes: null,
+    customItemAttributes: null,
+    shieldHasAttack: null,
+    meleeDamageTypes: [],
+    rangedDamageTypes: [],
+    aoeDamageTypes: [],
+    attackEffectsMelee: [],
+    attackEffectsRanged: [],
+    attackEffectsAoE: [],
+    weaponAttributes: [],
+    armorAttributes: [],
+    shieldAttributes: [],
+    defEffects: [],
+    wardingOptions: [],
+    sanctifiedOptions: [],
+    vrpEntries: [],
+    rangeCategories: [],
+    tags: [],
+    ...overrides,
+  };
+}
+
+function toBackpackItem(id: string, item: ForgeCompareItem): CharacterBuilderDerivedBackpackItem {
+  return {
+    id,
+    quantity: 1,
+    itemTemplate: {
+      id: item.id,
+      name: item.name,
+      type: item.type,
+      size: item.size,
+      armorLocation: item.armorLocation,
+      itemLocation: item.itemLocation,
+      ppv: item.ppv,
+      mpv: item.mpv,
+      meleePhysicalStrength: item.meleePhysicalStrength,
+    },
+  };
+}
+
+const selection = normalizeCompareSelection(["a", " a ", "", "b", "c", "d", "e"]);
+check(
+  selection.join() === "a,b,c,d" && selection.length === MAX_COMPARE_ITEMS,
+  "selection drops blanks and duplicates and caps at the maximum",
+);
+
+const broadsword = makeItem({
+  id: "broadsword",
+  name: "Broadsword",
+  meleePhysicalStrength: 2,
+  rangeCategories: [{ rangeCategory: "MELEE" }],
+  meleeDamageTypes: [{ damageType: { name: "Slashing", attackMode: "PHYSICAL" } }],
+  weaponAttributes: [
+    {
+      strengthSource: null,
+      rangeSource: null,
+      weaponAttribute: {
+        id: 7,
+        name: "Reach 2",
+        descriptorTemplate: null,
+        pricingMode: "ATTRIBUTE_VALUE",
+        pricingScalar: "1.5",
+      } as ForgeCompareItem["weaponAttributes"][number]["weaponAttribute"],
+    },
+  ],
+});
+const input = forgeOutputProfileInputFromStoredItem(broadsword);
+const reach = input.weaponAttributes?.[0] as { pricingMagnitude?: number | null; pricingScalar?: number | null };
+check(
+  reach.pricingMagnitude === 2 && reach.pricingScalar === 1.5,
+  "attribute pricing resolves the value magnitude and a string scalar",
+);
+
+const bomb = makeItem({
+  id: "bomb",
+  name: "Fire Bomb",
+  size: "SMALL",
+  aoePhysicalStrength: 1,
+  aoeCount: 2,
+  aoeShape: "SPHERE",
+  aoeSphereRadiusFeet: 10,
+  aoeCenterRangeFeet: 30,
+  rangeCategories: [{ rangeCategory: "AOE" }],
+  aoeDamageTypes: [{ damageType: { name: "Fire", attackMode: "PHYSICAL" } }],
+});
+const breastplate = makeItem({
+  id: "breastplate",
+  name: "Breastplate",
+  type: "ARMOR",
+  size: null,
+  armorLocation: "TORSO",
+  ppv: 4,
+});
+
+const columns = buildForgeItemComparisonColumns([broadsword, bomb, breastplate]);
+const [swordFacts, bombFacts, plateFacts] = columns.map((column) => summarizeForgeCompareFacts(column.profile));
+check(
+  swordFacts.attacks.length === 1 &&
+    swordFacts.attacks[0].profileKind === "melee" &&
+    swordFacts.attacks[0].totalWoundsPerSuccess === 4,
+  "melee strength 2 reads as 4 wounds per success",
+);
+check(bombFacts.aoeSummary === "2 × 10ft Spheres within 30ft", "AoE facts use the descriptor wording");
+check(plateFacts.attacks.length === 0 && plateFacts.ppv === 4, "armour reports PPV and no attacks");
+check(
+  columns.every((column) => Boolean(column.bands.lanes.coreFunctionality.status && column.bands.lanes.rarityPressure.expectedRarityRole)),
+  "every column carries lane and rarity pressure results",
+);
+
+check(getCompareSlotOptions({ ...breastplate }).join() === "torsoArmor", "armour only fits its own location");
+check(
+  getCompareSlotOptions(makeItem({ type: "CONSUMABLE", size: null })).length === 0,
+  "consumables have no equipment slot",
+);
+check(defaultCompareSlot(makeItem({ type: "SHIELD" })) === "offHand", "shields default to the off hand");
+check(
+  getCompareSlotOptions(makeItem({ size: "TWO_HANDED" })).join() === "mainHand",
+  "two-handed weapons only take the main hand",
+);
+
+const builderData: CharacterBuilderData = {
+  ...defaultBuilderData(),
+  attributes: { Attack: 8, Guard: 8, Fortitude: 8, Intellect: 8, Synergy: 8, Bravery: 8 },
+  equippedSlots: { mainHand: "bp-dagger", offHand: "bp-buckler", torsoArmor: "bp-jerkin" },
+};
+const backpackItems = [
+  toBackpackItem("bp-dagger", makeItem({ id: "dagger", name: "Dagger", meleePhysicalStrength: 1 })),
+  toBackpackItem("bp-buckler", makeItem({ id: "buckler", name: "Buckler", type: "SHIELD", ppv: 1 })),
+  toBackpackItem(
+    "bp-jerkin",
+    makeItem({ id: "jerkin", name: "Jerkin", type: "ARMOR", size: null, armorLocation: "TORSO", ppv: 2 }),
+  ),
+];
+
+const armourSwap = buildItemSwapComparison({
+  level: 3,
+  builderData,
+  backpackItems,
+  item: breastplate,
+  slot: "torsoArmor",
+});
+check(armourSwap !== null, "armour swaps into its slot");
+const protection = armourSwap.statDeltas.find((entry) => entry.key === "physicalProtection");
+check(
+  protection?.before === 3 && protection.after === 5 && protection.delta === 2,
+  "swapping a PPV 2 torso piece for PPV 4 raises physical protection by 2",
+);
+check(armourSwap.replacedItemNames.join() === "Jerkin", "the displaced torso piece is named");
+check(
+  !armourSwap.before.protectionSources.some((source) => source.itemName === "Breastplate") &&
+    armourSwap.after.protectionSources.some((source) => source.itemName === "Breastplate"),
+  "only the after stats include the compared item",
+);
+
+const greatsword = makeItem({
+  id: "greatsword",
+  name: "Greatsword",
+  size: "TWO_HANDED",
+  meleePhysicalStrength: 3,
+  rangeCategories: [{ rangeCategory: "MELEE" }],
+  meleeDamageTypes: [{ damageType: { name: "Slashing", attackMode: "PHYSICAL" } }],
+});
+const twoHandedSwap = buildItemSwapComparison({
+  level: 3,
+  builderData,
+  backpackItems,
+  item: greatsword,
+  slot: "mainHand",
+});
+check(
+  twoHandedSwap?.replacedItemNames.join() === "Dagger,Buckler",
+  "a two-hander in the main hand also clears the off hand",
+);
+check(
+  twoHandedSwap.after.physicalProtection === 2 &&
+    twoHandedSwap.after.attacks.some((attack) => attack.label.includes("Greatsword")),
+  "the cleared buckler stops counting and the greatsword attacks",
+);
+check(
+  buildItemSwapComparison({ level: 3, builderData, backpackItems, item: greatsword, slot: "offHand" }) === null,
+  "an illegal slot yields no comparison",
+);
+check(
+  builderData.equippedSlots.mainHand === "bp-dagger" &&
+    builderData.equippedSlots.offHand === "bp-buckler" &&
+    !backpackItems.some((entry) => entry.id === COMPARE_CANDIDATE_BACKPACK_ITEM_ID),
+  "the character's own loadout is left untouched",
+);
+
+console.log(`forgeItemComparison.smoke.ts passed (${checks} checks).`);
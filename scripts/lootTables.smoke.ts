@@ -0,0 +1,183 @@
+import { readFileSync } from "node:fs";
+
+import {
+  defeatedEncounterMonsters,
+  findLootTableNestingProblem,
+  LootTableError,
+  mergeLootDrops,
+  parseLootTableInput,
+  resolveLootSeed,
+  rollLootTableWithSeed,
+  type LootCatalogItem,
+  type LootTableDefinition,
+  type LootTableEntryInput,
+} from "../lib/campaign/lootTables";
+import type { EncounterSnapshot } from "../lib/combat-lab/encounter";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectLootError(run: () => unknown, message: string) {
+  try {
+    run();
+  } catch (error) {
+    check(error instanceof LootTableError && error.status === 400, message);
+    return;
+  }
+  check(false, message);
+}
+
+const parsed = parseLootTableInput({
+  name: "  Goblin Pockets ",
+  rollCount: 2,
+  entries: [
+    { kind: "ITEM", weight: 3, minQuantity: 1, maxQuantity: 4, itemTemplateId: "potion", tag: "ignored" },
+    { kind: "TAG", tag: " Coin " },
+    { kind: "NOTHING", weight: 2 },
+  ],
+  monsterIds: ["m1", "m1", "", "m2"],
+});
+check(parsed.name === "Goblin Pockets" && parsed.rollCount === 2, "name and roll count parse");
+check(parsed.entries[0].tag === null && parsed.entries[0].maxQuantity === 4, "fields outside the kind are dropped");
+check(parsed.entries[1].tag === "Coin" && parsed.entries[1].weight === 1, "tags trim and weight defaults to 1");
+check(parsed.monsterIds.join() === "m1,m2", "monster ids are deduplicated");
+
+expectLootError(() => parseLootTableInput({ name: "Empty", entries: [] }), "a table needs entries");
+expectLootError(
+  () => parseLootTableInput({ name: "Bad", entries: [{ kind: "ITEM", minQuantity: 3, maxQuantity: 2, itemTemplateId: "x" }] }),
+  "max quantity must not be below min",
+);
+expectLootError(() => parseLootTableInput({ name: "Bad", entries: [{ kind: "RARITY", rarity: "EPIC" }] }), "unknown rarity");
+expectLootError(() => resolveLootSeed(0), "seed must be positive");
+check(resolveLootSeed("42") === 42 && resolveLootSeed(undefined) >= 1, "seeds parse or are picked");
+
+const catalog: LootCatalogItem[] = [
+  { id: "potion", name: "Healing Potion", rarity: "COMMON", tags: ["consumable"] },
+  { id: "coin", name: "Gold Coin", rarity: "COMMON", tags: ["Coin"] },
+  { id: "gem", name: "Ruby", rarity: "RARE", tags: ["coin", "gem"] },
+  { id: "blade", name: "Ember Blade", rarity: "LEGENDARY", tags: [] },
+];
+
+function entry(kind: LootTableEntryInput["kind"], fields: Partial<LootTableEntryInput> = {}): LootTableEntryInput {
+  return {
+    kind,
+    weight: 1,
+    minQuantity: 1,
+    maxQuantity: 1,
+    itemTemplateId: null,
+    rarity: null,
+    tag: null,
+    subTableId: null,
+    ...fields,
+  };
+}
+
+const tables = new Map<string, LootTableDefinition>([
+  [
+    "hoard",
+    {
+      id: "hoard",
+      name: "Hoard",
+      rollCount: 3,
+      entries: [
+        entry("ITEM", { itemTemplateId: "potion", weight: 5, minQuantity: 1, maxQuantity: 3 }),
+        entry("TAG", { tag: "COIN", weight: 3 }),
+        entry("SUB_TABLE", { subTableId: "relics", weight: 2, minQuantity: 2, maxQuantity: 2 }),
+      ],
+    },
+  ],
+  ["relics", { id: "relics", name: "Relics", rollCount: 1, entries: [entry("RARITY", { rarity: "LEGENDARY" })] }],
+  ["empty", { id: "empty", name: "Empty", rollCount: 4, entries: [entry("NOTHING")] }],
+  ["mythic", { id: "mythic", name: "Mythic", rollCount: 1, entries: [entry("RARITY", { rarity: "MYTHIC" })] }],
+]);
+
+const first = rollLootTableWithSeed("hoard", tables, catalog, 1234);
+const again = rollLootTableWithSeed("hoard", tables, catalog, 1234);
+check(JSON.stringify(first) === JSON.stringify(again), "the same seed gives the same drops");
+check(first.drops.length > 0, "the hoard drops something");
+
+const seen = new Set<string>();
+let oddRelicDrops = 0;
+let potionOutOfRange = 0;
+for (let seed = 1; seed <= 200; seed += 1) {
+  const result = rollLootTableWithSeed("hoard", tables, catalog, seed);
+  for (const drop of result.drops) seen.add(drop.itemTemplateId);
+  const relic = result.drops.find((drop) => drop.itemTemplateId === "blade");
+  if (relic && relic.quantity % 2 !== 0) oddRelicDrops += 1;
+  const potion = result.drops.find((drop) => drop.itemTemplateId === "potion");
+  if (potion && (potion.quantity < 1 || potion.quantity > 9)) potionOutOfRange += 1;
+}
+check(oddRelicDrops === 0, "a sub-table rolls once per unit of quantity");
+check(potionOutOfRange === 0, "quantities stay in range across rolls");
+check(["potion", "coin", "gem", "blade"].every((id) => seen.has(id)), "items, tags and sub-tables all drop");
+
+check(rollLootTableWithSeed("empty", tables, catalog, 7).drops.length === 0, "nothing entries drop nothing");
+const mythic = rollLootTableWithSeed("mythic", tables, catalog, 7);
+check(mythic.drops.length === 0 && mythic.notes.length === 1, "an empty rarity bucket leaves a note");
+
+const merged = mergeLootDrops([
+  { itemTemplateId: "coin", name: "Gold Coin", rarity: "COMMON", quantity: 2 },
+  { itemTemplateId: "gem", name: "Ruby", rarity: "RARE", quantity: 1 },
+  { itemTemplateId: "coin", name: "Gold Coin", rarity: "COMMON", quantity: 3 },
+]);
+check(merged.length === 2 && merged[0].quantity === 5, "merging sums quantities in first-seen order");
+
+const links = new Map([
+  ["a", ["b"]],
+  ["b", ["c"]],
+  ["c", ["a"]],
+]);
+check(findLootTableNestingProblem("a", links)?.kind === "cycle", "loops are caught");
+check(findLootTableNestingProblem("a", new Map([["a", ["b"]], ["b", ["c"]]])) === null, "a chain without loops passes");
+const deep = new Map(Array.from({ length: 8 }, (_, index) => [`t${index}`, [`t${index + 1}`]]));
+check(findLootTableNestingProblem("t0", deep)?.kind === "depth", "deep nesting is caught");
+
+const snapshot = {
+  combatants: [
+    { actorId: "a1", sourceType: "monster", sourceId: "goblin" },
+    { actorId: "a2", sourceType: "monster", sourceId: "goblin" },
+    { actorId: "a3", sourceType: "character", sourceId: "hero" },
+    { actorId: "a4", sourceType: "monster", sourceId: "wolf" },
+  ],
+  combat: {
+    actors: [
+      { id: "a1", name: "Goblin 1", side: "monsters", defeated: true },
+      { id: "a2", name: "Goblin 2", side: "monsters", defeated: false },
+      { id: "a3", name: "Hero", side: "players", defeated: true },
+      { id: "a4", name: "Wolf", side: "players", defeated: true },
+    ],
+  },
+} as unknown as EncounterSnapshot;
+const defeated = defeatedEncounterMonsters(snapshot);
+check(defeated.length === 1 && defeated[0].actorName === "Goblin 1", "only defeated opposing monsters drop loot");
+
+// Deleting a campaign cascades to every loot table in one statement. A RESTRICT sub-table key is
+// checked row by row mid-cascade and fails when two tables reference each other; NO ACTION defers
+// the check to the end of the statement, when both tables are gone.
+const schema = readFileSync("prisma/schema.prisma", "utf8");
+const lootMigration = readFileSync("prisma/migrations/20261019190000_add_campaign_loot_tables/migration.sql", "utf8");
+const lootTableModel = schema.slice(schema.indexOf("model CampaignLootTable {"), schema.indexOf("model CampaignLootTableEntry {"));
+const lootEntryModel = schema.slice(schema.indexOf("model CampaignLootTableEntry {"), schema.indexOf("model CampaignShop {"));
+check(
+  /campaign\s+Campaign\s+@relation\(fields: \[campaignId\], references: \[id\], onDelete: Cascade\)/.test(lootTableModel),
+  "deleting a campaign deletes its loot tables",
+);
+check(
+  /lootTable\s+CampaignLootTable\s+@relation\("CampaignLootTableEntries",[^)]*onDelete: Cascade\)/.test(lootEntryModel),
+  "deleting a loot table deletes its entries",
+);
+check(
+  /subTable\s+CampaignLootTable\?\s+@relation\("CampaignLootSubTable",[^)]*onDelete: NoAction\)/.test(lootEntryModel),
+  "sub-table references do not block a campaign delete with cross-referencing tables",
+);
+check(
+  /"CampaignLootTableEntry_subTableId_fkey"[^;]*ON DELETE NO ACTION/.test(lootMigration) &&
+    !/"CampaignLootTableEntry_subTableId_fkey"[^;]*ON DELETE RESTRICT/.test(lootMigration),
+  "the migration creates the sub-table key with NO ACTION",
+);
+
+console.log(`lootTables.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,296 @@
+import {
+  buildMonsterBundleMonster,
+  collectMonsterBundleNames,
+  createMonsterBundle,
+  findPowerVersionConflicts,
+  MONSTER_BUNDLE_FORMAT,
+  MONSTER_BUNDLE_VERSION,
+  MonsterBundleError,
+  parseMonsterBundle,
+  resolveMonsterBundleMonster,
+  type MonsterBundleSource,
+} from "../lib/summoning/monsterBundle";
+import type { EffectPacket, Power } from "../lib/summoning/types";
+import { normalizeMonsterUpsertInput } from "../lib/summoning/validation";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectInvalid(raw: unknown, message: string) {
+  try {
+    parseMonsterBundle(raw);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof MonsterBundleError && error.code === "INVALID_BUNDLE", message);
+  }
+}
+
+function attackPacket(diceCount: number): EffectPacket {
+  return {
+    id: "packet-1",
+    sortOrder: 0,
+    packetIndex: 0,
+    hostility: "HOSTILE",
+    intention: "ATTACK",
+    type: "ATTACK",
+    specific: null,
+    diceCount,
+    potency: 2,
+    effectTimingType: "ON_CAST",
+    effectTimingTurns: null,
+    effectDurationType: "INSTANT",
+    effectDurationTurns: null,
+    dealsWounds: true,
+    woundChannel: "PHYSICAL",
+    targetedAttribute: null,
+    applicationModeKey: null,
+    resolutionOrigin: "CASTER",
+    applyTo: "PRIMARY_TARGET",
+    triggerConditionText: null,
+    detailsJson: {
+      attackMode: "PHYSICAL",
+      damageTypes: ["Slashing"],
+      rangeCategory: "MELEE",
+      rangeValue: 1,
+      rangeExtra: {},
+    },
+    localTargetingOverride: null,
+  };
+}
+
+function attackPower(name: string, diceCount: number): Power {
+  const packet = attackPacket(diceCount);
+  return {
+    id: "power-1",
+    sortOrder: 0,
+    name,
+    description: null,
+    schemaVersion: 3,
+    rulesVersion: "v2",
+    contentRevision: 1,
+    previewRendererVersion: 1,
+    status: "ACTIVE",
+    descriptorChassis: "IMMEDIATE",
+    descriptorChassisConfig: {},
+    chargeType: null,
+    chargeTurns: null,
+    chargeBonusDicePerTurn: null,
+    cooldownTurns: 1,
+    cooldownReduction: 0,
+    counterMode: "NO",
+    commitmentModifier: "STANDARD",
+    triggerMethod: null,
+    attachedHostAnchorType: null,
+    lifespanType: "NONE",
+    lifespanTurns: null,
+    previewSummaryOverride: null,
+    rangeCategories: ["MELEE"],
+    meleeTargets: 1,
+    rangedTargets: null,
+    rangedDistanceFeet: null,
+    aoeCenterRangeFeet: null,
+    aoeCount: null,
+    aoeShape: null,
+    aoeSphereRadiusFeet: null,
+    aoeConeLengthFeet: null,
+    aoeLineWidthFeet: null,
+    aoeLineLengthFeet: null,
+    primaryDefenceGate: {
+      sourcePacketIndex: 0,
+      gateResult: "DODGE_OR_PROTECTION",
+      protectionChannel: "PHYSICAL",
+      resistAttribute: null,
+      hostileEntryPattern: null,
+      resolutionSource: "INFERRED",
+    },
+    defenceRequirement: "DODGE_OR_PROTECTION",
+    diceCount,
+    potency: 2,
+    effectDurationType: "INSTANT",
+    effectDurationTurns: null,
+    durationType: "INSTANT",
+    durationTurns: null,
+    effectPackets: [packet],
+    intentions: [packet],
+  };
+}
+
+const clawConfig = {
+  melee: {
+    enabled: true,
+    targets: 1,
+    physicalStrength: 2,
+    mentalStrength: 0,
+    damageTypes: [{ name: "Slashing", mode: "PHYSICAL" as const }],
+    attackEffects: [],
+  },
+};
+
+const source: MonsterBundleSource = {
+  name: "Ash Wyrm",
+  imageUrl: null,
+  imagePosX: 50,
+  imagePosY: 35,
+  level: 6,
+  tier: "ELITE",
+  legendary: true,
+  calculatorArchetype: "TANK",
+  mainHandItemId: "item-sword",
+  offHandItemId: null,
+  smallItemId: null,
+  headArmorItemId: "item-helm",
+  shoulderArmorItemId: null,
+  torsoArmorItemId: null,
+  legsArmorItemId: null,
+  feetArmorItemId: null,
+  headItemId: null,
+  neckItemId: null,
+  armsItemId: null,
+  beltItemId: null,
+  customNotes: "Nests in ash fields.",
+  limitBreakName: null,
+  limitBreakTier: null,
+  limitBreakTriggerText: null,
+  limitBreakAttribute: null,
+  limitBreakThresholdSuccesses: null,
+  limitBreakCostText: null,
+  limitBreakEffectText: null,
+  limitBreak2Name: null,
+  limitBreak2Tier: null,
+  limitBreak2TriggerText: null,
+  limitBreak2Attribute: null,
+  limitBreak2ThresholdSuccesses: null,
+  limitBreak2CostText: null,
+  limitBreak2EffectText: null,
+  physicalResilienceCurrent: 30,
+  physicalResilienceMax: 30,
+  mentalPerseveranceCurrent: 22,
+  mentalPerseveranceMax: 22,
+  physicalProtection: 2,
+  mentalProtection: 1,
+  naturalPhysicalProtection: 1,
+  naturalMentalProtection: 0,
+  attackDie: "D10",
+  attackResistDie: 0,
+  attackModifier: 1,
+  guardDie: "D8",
+  guardResistDie: 0,
+  guardModifier: 0,
+  fortitudeDie: "D10",
+  fortitudeResistDie: 0,
+  fortitudeModifier: 0,
+  intellectDie: "D6",
+  intellectResistDie: 0,
+  intellectModifier: 0,
+  synergyDie: "D6",
+  synergyResistDie: 0,
+  synergyModifier: 0,
+  braveryDie: "D8",
+  braveryResistDie: 0,
+  braveryModifier: 0,
+  weaponSkillValue: 3,
+  weaponSkillModifier: 0,
+  armorSkillValue: 2,
+  armorSkillModifier: 0,
+  tags: [{ tag: "dragon" }, { tag: "fire" }],
+  traits: [
+    { sortOrder: 1, trait: { name: "Flying", effectText: null } },
+    { sortOrder: 0, trait: { name: "Fire Immune", effectText: "Ignores fire wounds." } },
+  ],
+  attacks: [{ sortOrder: 0, attackMode: "NATURAL", attackName: "Claws", attackConfig: clawConfig }],
+  naturalAttack: { attackName: "Claws", attackConfig: clawConfig },
+  powers: [attackPower("Ember Breath", 3)],
+};
+
+const itemNamesById = new Map([
+  ["item-sword", "Cinder Blade"],
+  ["item-helm", "Horned Helm"],
+]);
+const exported = buildMonsterBundleMonster(source, itemNamesById);
+check(exported.traits.map((trait) => trait.name).join() === "Fire Immune,Flying", "traits export by name in sort order");
+check(exported.tags.join() === "dragon,fire", "tags export as plain strings");
+check(
+  exported.equipment.mainHandItemId === "Cinder Blade" && exported.equipment.headArmorItemId === "Horned Helm",
+  "equipment exports by item name",
+);
+check(!("mainHandItemId" in exported), "campaign item ids stay out of the bundle");
+check(exported.naturalAttack?.attackName === "Claws", "the natural attack config is carried");
+check(exported.powers[0].id === undefined && exported.powers[0].effectPackets[0].id === undefined, "power ids are dropped");
+check(exported.powers[0].schemaVersion === 3 && exported.powers[0].rulesVersion === "v2", "power versions are carried");
+check(exported.powers[0].primaryDefenceGate?.gateResult === "DODGE_OR_PROTECTION", "defence gates are carried");
+check(source.powers[0].id === "power-1", "exporting does not mutate the source");
+
+const legacy = buildMonsterBundleMonster({ ...source, attacks: [] }, itemNamesById);
+check(legacy.attacks.length === 1 && legacy.attacks[0].attackName === "Claws", "legacy natural attacks are exported");
+check(
+  buildMonsterBundleMonster({ ...source, calculatorArchetype: "RETIRED" }, itemNamesById).calculatorArchetype === "BALANCED",
+  "unknown stored archetypes export as BALANCED",
+);
+
+const bundle = createMonsterBundle([exported], new Date("2026-10-19T12:00:00Z"));
+check(bundle.format === MONSTER_BUNDLE_FORMAT && bundle.version === MONSTER_BUNDLE_VERSION, "bundles carry their format");
+const parsed = parseMonsterBundle(JSON.parse(JSON.stringify(bundle)));
+check(parsed.monsters.length === 1 && parsed.exportedAt === "2026-10-19T12:00:00.000Z", "bundles survive JSON");
+
+const names = collectMonsterBundleNames(parsed);
+check(names.traitNames.length === 2 && names.itemNames.length === 2, "lookups cover every trait and item name");
+
+const lookups = {
+  traitIdsByName: new Map([
+    ["Fire Immune", "trait-fire"],
+    ["Flying", "trait-fly"],
+  ]),
+  itemIdsByName: new Map([
+    ["Cinder Blade", ["target-sword"]],
+    ["Horned Helm", ["target-helm"]],
+  ]),
+};
+const resolved = resolveMonsterBundleMonster(parsed.monsters[0], lookups);
+check(resolved.conflicts.length === 0, "a fully matched monster has no conflicts");
+const normalized = normalizeMonsterUpsertInput(resolved.body, { campaignId: "campaign-b" });
+check(normalized.ok, `a resolved monster passes upsert validation: ${normalized.ok ? "" : normalized.error}`);
+check(
+  normalized.data.traits.map((trait) => trait.traitDefinitionId).join() === "trait-fire,trait-fly",
+  "traits remap to the target definitions",
+);
+check(normalized.data.mainHandItemId === "target-sword" && normalized.data.offHandItemId === null, "items remap by name");
+check(normalized.data.attacks[0]?.attackName === "Claws", "natural attacks import");
+check(normalized.data.powers[0].effectPackets[0].diceCount === 3, "effect packets import");
+check(normalized.data.powers[0].id === undefined, "imported powers get fresh ids");
+check(normalized.data.legendary && normalized.data.calculatorArchetype === "TANK", "monster scalars import");
+check(findPowerVersionConflicts(parsed.monsters[0].powers, normalized.data.powers).length === 0, "power versions survive import");
+
+const partial = resolveMonsterBundleMonster(parsed.monsters[0], {
+  traitIdsByName: new Map([["Flying", "trait-fly"]]),
+  itemIdsByName: new Map([["Horned Helm", ["helm-a", "helm-b"]]]),
+});
+check(
+  partial.conflicts.map((conflict) => conflict.code).sort().join() ===
+    "EQUIPMENT_AMBIGUOUS,EQUIPMENT_NOT_FOUND,TRAIT_NOT_FOUND",
+  "missing and ambiguous references are reported",
+);
+check(partial.conflicts.some((conflict) => conflict.path === "traits[0]"), "conflicts point at the bundle field");
+check(
+  (partial.body.traits as Array<{ traitDefinitionId: string }>).map((trait) => trait.traitDefinitionId).join() === "trait-fly",
+  "only matched traits reach the upsert body",
+);
+check(partial.body.headArmorItemId === null, "ambiguous items are left unequipped");
+
+check(
+  findPowerVersionConflicts([{ ...exported.powers[0], schemaVersion: 0 }], normalized.data.powers)[0]?.code ===
+    "POWER_VERSION_CHANGED",
+  "rewritten power versions are reported",
+);
+
+expectInvalid(null, "non-object bundles are rejected");
+expectInvalid({ ...bundle, format: "other" }, "foreign formats are rejected");
+expectInvalid({ ...bundle, version: MONSTER_BUNDLE_VERSION + 1 }, "newer bundle versions are rejected");
+expectInvalid({ ...bundle, version: 1.5 }, "fractional versions are rejected");
+expectInvalid({ ...bundle, monsters: [] }, "empty bundles are rejected");
+expectInvalid({ ...bundle, monsters: [42] }, "non-object monsters are rejected");
+
+console.log(`monsterBundle.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,127 @@
+import { DEFAULT_COMBAT_TUNING_VALUES } from "../lib/config/combatTuningShared";
+import { createSeededRng } from "../lib/combat-lab/dice";
+import { getThreeFieldAugmentDebuffPublicWriteError } from "../lib/powers/authoringRules";
+import { evaluateAttributeBalancingGuide } from "../lib/summoning/attributeBalancingGuide";
+import {
+  generateMonsterAttributes,
+  generateMonsterDrafts,
+  MonsterGeneratorError,
+  parseMonsterGeneratorRequest,
+  type MonsterGeneratorInput,
+} from "../lib/summoning/monsterGenerator";
+import { MONSTER_CALCULATOR_ARCHETYPES, type MonsterTier } from "../lib/summoning/types";
+import { normalizeMonsterUpsertInput } from "../lib/summoning/validation";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectInvalid(body: unknown, message: string) {
+  try {
+    parseMonsterGeneratorRequest(body);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof MonsterGeneratorError && error.code === "INVALID_GENERATOR_REQUEST", message);
+  }
+}
+
+const tuning = { protection: DEFAULT_COMBAT_TUNING_VALUES, power: null };
+
+const parsed = parseMonsterGeneratorRequest({ level: 4, tier: "ELITE", damageTypes: [" Fire ", "Fire"] });
+check(parsed.archetype === "BALANCED" && parsed.legendary === false, "archetype and legendary default");
+check(parsed.powerCount === 2 && parsed.alternatives === 3 && parsed.seed === null, "counts default and seed is optional");
+check(parsed.damageTypes.length === 1 && parsed.damageTypes[0] === "Fire", "damage types are trimmed and deduped");
+expectInvalid({ level: 0, tier: "ELITE", damageTypes: ["Fire"] }, "level must be positive");
+expectInvalid({ level: 3, tier: "HERO", damageTypes: ["Fire"] }, "unknown tier is rejected");
+expectInvalid({ level: 3, tier: "ELITE", archetype: "SNIPER", damageTypes: ["Fire"] }, "unknown archetype is rejected");
+expectInvalid({ level: 3, tier: "ELITE", damageTypes: [] }, "a damage theme is required");
+expectInvalid({ level: 3, tier: "ELITE", damageTypes: ["Fire"], powerCount: 9 }, "power count is capped");
+expectInvalid({ level: 3, tier: "ELITE", damageTypes: ["Fire"], alternatives: 0 }, "at least one alternative");
+
+// Attribute spreads land exactly on the expected total for every archetype, level and tier.
+let onBudget = 0;
+let spreads = 0;
+for (const archetype of MONSTER_CALCULATOR_ARCHETYPES) {
+  for (const tier of ["MINION", "SOLDIER", "ELITE", "BOSS"] as MonsterTier[]) {
+    for (const level of [1, 7, 14, 20]) {
+      const attributes = generateMonsterAttributes(createSeededRng(level * 31 + tier.length), { level, tier, archetype });
+      const guide = evaluateAttributeBalancingGuide({ level, tier, archetype, attributes });
+      spreads += 1;
+      if (guide.budgetStatus === "On Budget" && guide.budgetDelta === 0) onBudget += 1;
+    }
+  }
+}
+check(onBudget === spreads, `every spread is on budget (${onBudget}/${spreads})`);
+
+const input: MonsterGeneratorInput = {
+  level: 5,
+  tier: "ELITE",
+  legendary: false,
+  archetype: "GLASS_CANNON",
+  damageTheme: [{ name: "Fire", mode: "PHYSICAL" }],
+  powerCount: 3,
+  seed: 1234,
+  alternatives: 3,
+};
+const drafts = generateMonsterDrafts(input, tuning);
+check(drafts.length === 3, "one draft per alternative");
+check(new Set(drafts.map((entry) => entry.seed)).size === 3, "alternatives use distinct seeds");
+check(
+  new Set(drafts.map((entry) => JSON.stringify(entry.draft))).size > 1,
+  "alternatives differ from each other",
+);
+check(
+  JSON.stringify(generateMonsterDrafts(input, tuning)) === JSON.stringify(drafts),
+  "the same seed reproduces the same drafts",
+);
+const regenerated = generateMonsterDrafts({ ...input, seed: drafts[1].seed, alternatives: 1 }, tuning)[0];
+check(JSON.stringify(regenerated.draft) === JSON.stringify(drafts[1].draft), "an alternative regenerates from its own seed");
+
+for (const alternative of drafts) {
+  const { draft } = alternative;
+  check(alternative.attributeGuide.budgetStatus === "On Budget", `${draft.name} is on budget`);
+  check(draft.powers.length === 3 && alternative.powers.length === 3, `${draft.name} has the requested powers`);
+  check(alternative.powers.every((power) => power.fitsTier), `${draft.name} powers fit the tier`);
+  check(
+    draft.powers.every((power, index) => power.cooldownTurns === alternative.powers[index].cooldownTurns),
+    `${draft.name} stores derived cooldowns`,
+  );
+  const attackPackets = draft.powers.flatMap((power) => power.effectPackets).filter((packet) => packet.intention === "ATTACK");
+  check(
+    attackPackets.every((packet) => JSON.stringify(packet.detailsJson.damageTypes) === JSON.stringify(["Fire"])),
+    `${draft.name} attacks use the damage theme`,
+  );
+  check(getThreeFieldAugmentDebuffPublicWriteError(draft.powers) === null, `${draft.name} passes authoring rules`);
+  const normalized = normalizeMonsterUpsertInput(draft, { campaignId: "c1" });
+  check(normalized.ok, `${draft.name} passes validation${normalized.ok ? "" : `: ${normalized.error}`}`);
+}
+
+// Every archetype produces valid drafts, including mental themes and the maximum power count.
+for (const archetype of MONSTER_CALCULATOR_ARCHETYPES) {
+  const [alternative] = generateMonsterDrafts(
+    {
+      ...input,
+      archetype,
+      tier: "BOSS",
+      legendary: true,
+      level: 12,
+      damageTheme: [{ name: "Psychic", mode: "MENTAL" }],
+      powerCount: 6,
+      alternatives: 1,
+    },
+    tuning,
+  );
+  const normalized = normalizeMonsterUpsertInput(alternative.draft, { campaignId: "c1" });
+  check(normalized.ok && alternative.draft.powers.length === 6, `${archetype} boss draft is valid with six powers`);
+  check(
+    alternative.draft.naturalAttack?.attackConfig.melee?.mentalStrength === 1 &&
+      alternative.draft.naturalAttack.attackConfig.melee.physicalStrength === 0,
+    `${archetype} natural attack follows a mental theme`,
+  );
+  check(new Set(alternative.draft.powers.map((power) => power.name)).size === 6, `${archetype} power names are unique`);
+}
+
+console.log(`monsterGenerator.smoke.ts passed (${checks} checks).`);
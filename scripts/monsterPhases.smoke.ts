@@ -0,0 +1,132 @@
+import { buildCombatLabSmokeScenarios, runCombatScenario } from "../lib/combat-lab/autoSimulator";
+import { createCombatState } from "../lib/combat-lab/combatState";
+import { advanceActorPhases } from "../lib/combat-lab/phases";
+import { makeBasicAttackAction } from "../lib/combat-lab/powerAdapter";
+import type { CombatActor, CombatActorPhase, CombatScenario } from "../lib/combat-lab/types";
+import {
+  normalizeMonsterPhases,
+  readMonsterPhases,
+  remapMonsterPhasePowers,
+  resolveMonsterPhaseForms,
+} from "../lib/summoning/monsterPhases";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectError(raw: unknown, powerCount: number, pattern: RegExp, message: string) {
+  const result = normalizeMonsterPhases(raw, powerCount);
+  check(!result.ok && pattern.test(result.error), message);
+}
+
+const enraged = {
+  name: "Enraged",
+  triggerType: "RESILIENCE_PERCENT",
+  triggerValue: 50,
+  addPowerSortOrders: [2, 2],
+  removePowerSortOrders: [0],
+  addTraits: [{ traitDefinitionId: "trait-fly", name: "Flying" }],
+  physicalProtectionDelta: 99,
+};
+const desperate = { name: "Desperate", triggerType: "RESILIENCE_PERCENT", triggerValue: 20, mentalProtectionDelta: -2 };
+
+const normalized = normalizeMonsterPhases([enraged, desperate], 3);
+check(normalized.ok && normalized.phases.length === 2, "valid phases normalize");
+check(normalized.phases[0].addPowerSortOrders.join() === "2", "duplicate power references collapse");
+check(normalized.phases[0].physicalProtectionDelta === 30, "protection deltas are clamped");
+check(normalized.phases[1].removeTraits.length === 0, "missing lists default to empty");
+check(normalizeMonsterPhases(undefined, 0).ok, "monsters without phases are valid");
+
+expectError([{ ...enraged, name: " " }], 3, /requires a name/, "phases need a name");
+expectError([{ ...enraged, addPowerSortOrders: [3] }], 3, /does not exist/, "power references must exist");
+expectError([{ ...enraged, removePowerSortOrders: [2] }], 3, /add and remove the same power/, "a power cannot move both ways");
+expectError([{ ...enraged, triggerValue: 100 }], 3, /between 1% and 99%/, "resilience triggers stay below full health");
+expectError([{ ...enraged, triggerType: "ROUND", triggerValue: 1 }], 3, /round 2/, "round triggers start after round 1");
+expectError([desperate, enraged], 3, /must trigger after phase 1/, "same-type triggers must move forward");
+
+const stored = readMonsterPhases([{ ...desperate, sortOrder: 1 }, "junk", { ...enraged, sortOrder: 0 }]);
+check(stored.map((phase) => phase.name).join() === "Enraged,Desperate", "stored phases read in sortOrder and skip junk");
+
+const forms = resolveMonsterPhaseForms({
+  powerCount: 3,
+  traits: [{ traitDefinitionId: "trait-fire", name: "Fire Immune" }],
+  phases: normalized.phases,
+});
+check(forms.length === 3 && forms[0].phase === null, "forms include the opening form");
+check(forms[0].powerSortOrders.join() === "0,1", "phase-only powers are held back from the opening form");
+check(forms[1].powerSortOrders.join() === "1,2", "a phase swaps its powers in and out");
+check(forms[1].traits.map((trait) => trait.name).join() === "Fire Immune,Flying", "a phase adds traits");
+check(
+  forms[2].powerSortOrders.join() === "1,2" && forms[2].physicalProtectionDelta === 30 && forms[2].mentalProtectionDelta === -2,
+  "later phases stack on earlier ones",
+);
+
+const remapped = remapMonsterPhasePowers(normalized.phases, (sortOrder) =>
+  sortOrder === 0 ? null : sortOrder - 1,
+);
+check(
+  remapped[0].addPowerSortOrders.join() === "1" && remapped[0].removePowerSortOrders.length === 0,
+  "removing a power drops and shifts phase references",
+);
+
+function phase(index: number, patch: Partial<CombatActorPhase>): CombatActorPhase {
+  return {
+    index,
+    name: `Phase ${index}`,
+    triggerType: "RESILIENCE_PERCENT",
+    triggerValue: 50,
+    transitionText: null,
+    actions: [makeBasicAttackAction({ id: `phase-${index}-attack`, name: `Phase ${index} Attack`, diceCount: 3, potency: 2 })],
+    dodgeValue: 1,
+    dodgeDice: 1,
+    physicalBlockPerSuccess: 4,
+    mentalBlockPerSuccess: 2,
+    ...patch,
+  };
+}
+
+const smokeBoss = buildCombatLabSmokeScenarios().find((scenario) => scenario.name === "4-player party vs 1 boss");
+check(smokeBoss, "the smoke boss scenario exists");
+const bossActor = smokeBoss.monsters[0];
+const phasedBoss: CombatActor = {
+  ...bossActor,
+  phases: [
+    phase(1, { name: "Enraged", triggerValue: 50, transitionText: "The boss roars." }),
+    phase(2, { name: "Desperate", triggerValue: 20 }),
+  ],
+  activePhaseIndex: 0,
+};
+
+const state = createCombatState(smokeBoss.players, [phasedBoss], { captureTranscript: true });
+const liveBoss = state.actors.find((actor) => actor.id === phasedBoss.id);
+check(liveBoss, "the boss is in the fight");
+const activePhaseIndex = () => liveBoss.activePhaseIndex;
+advanceActorPhases(state);
+check(activePhaseIndex() === 0, "a healthy boss stays in its opening form");
+liveBoss.physicalHpCurrent = Math.floor(liveBoss.physicalHpMax * 0.1);
+advanceActorPhases(state);
+check(activePhaseIndex() === 2, "one heavy hit can carry a boss through several phases");
+check(
+  liveBoss.actions[0]?.id === "phase-2-attack" && liveBoss.physicalBlockPerSuccess === 4,
+  "the new phase swaps actions and defences",
+);
+const transitions = state.transcriptEvents.filter((event) => event.type === "phaseTransition");
+check(
+  transitions.length === 2 && transitions[0].message.includes("The boss roars."),
+  "each transition is logged with its text",
+);
+
+const roundScenario: CombatScenario = {
+  ...smokeBoss,
+  runs: 1,
+  maxRounds: 4,
+  monsters: [{ ...bossActor, phases: [phase(1, { triggerType: "ROUND", triggerValue: 2 })], activePhaseIndex: 0 }],
+};
+const run = runCombatScenario(roundScenario, 0, { captureTranscript: true });
+const roundTransition = run.firstRunTranscript?.events.find((event) => event.type === "phaseTransition");
+check(run.rounds >= 2 && roundTransition?.round === 2, "a round trigger fires when its round begins");
+
+console.log(`monsterPhases.smoke.ts passed (${checks} checks).`);
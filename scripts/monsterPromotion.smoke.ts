@@ -0,0 +1,125 @@
+import {
+  MonsterPromotionError,
+  monsterCoreDroppedEquipmentSlots,
+  monsterCorePromotionBody,
+  normalizeMonsterReviewNotes,
+  parseMonsterCoreReviewDecision,
+  planMonsterCoreTransition,
+} from "../lib/summoning/monsterPromotion";
+import type { MonsterRevisionSnapshot } from "../lib/summoning/monsterRevisions";
+import { normalizeMonsterUpsertInput } from "../lib/summoning/validation";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectRefused(run: () => unknown, code: string, status: number, message: string) {
+  try {
+    run();
+    check(false, message);
+  } catch (error) {
+    check(error instanceof MonsterPromotionError && error.code === code && error.status === status, message);
+  }
+}
+
+const first = planMonsterCoreTransition(null, "SUBMIT", "  First pass  ");
+check(
+  first.action === "SUBMITTED" && first.fromStatus === null && first.toStatus === "PENDING_REVIEW",
+  "a first submission goes straight to review",
+);
+check(first.submissionRevision === 1 && first.notes === "First pass", "first submission is revision 1 with trimmed notes");
+
+const pending = { status: "PENDING_REVIEW" as const, submissionRevision: 1 };
+expectRefused(() => planMonsterCoreTransition(pending, "SUBMIT"), "ALREADY_PENDING", 409, "a pending monster cannot be resubmitted");
+expectRefused(
+  () => planMonsterCoreTransition(pending, "REQUEST_CHANGES", "   "),
+  "NOTES_REQUIRED",
+  400,
+  "change requests need notes",
+);
+
+const sentBack = planMonsterCoreTransition(pending, "REQUEST_CHANGES", "Tone down the breath weapon.");
+check(
+  sentBack.action === "CHANGES_REQUESTED" && sentBack.toStatus === "CHANGES_REQUESTED" && sentBack.submissionRevision === 1,
+  "a change request keeps the submission revision",
+);
+
+const resubmitted = planMonsterCoreTransition({ status: "CHANGES_REQUESTED", submissionRevision: 1 }, "SUBMIT");
+check(
+  resubmitted.fromStatus === "CHANGES_REQUESTED" && resubmitted.submissionRevision === 2 && resubmitted.notes === null,
+  "resubmitting after changes bumps the revision",
+);
+expectRefused(
+  () => planMonsterCoreTransition({ status: "CHANGES_REQUESTED", submissionRevision: 1 }, "APPROVE"),
+  "NOT_PENDING",
+  409,
+  "only pending submissions can be approved",
+);
+
+const approved = planMonsterCoreTransition({ status: "PENDING_REVIEW", submissionRevision: 2 }, "APPROVE");
+check(approved.action === "APPROVED" && approved.toStatus === "APPROVED", "approval moves to APPROVED");
+expectRefused(
+  () => planMonsterCoreTransition({ status: "APPROVED", submissionRevision: 2 }, "SUBMIT"),
+  "ALREADY_PROMOTED",
+  409,
+  "a promoted monster cannot be submitted again",
+);
+
+check(parseMonsterCoreReviewDecision("APPROVE") === "APPROVE", "APPROVE is a decision");
+check(parseMonsterCoreReviewDecision("SUBMIT") === null, "SUBMIT is not a review decision");
+check(normalizeMonsterReviewNotes("x".repeat(5000))?.length === 4000, "review notes are capped");
+
+const snapshot = {
+  id: "monster-1",
+  campaignId: "campaign-a",
+  source: "CAMPAIGN",
+  name: "Ash Wyrm",
+  level: 6,
+  tier: "ELITE",
+  legendary: true,
+  mainHandItemId: "item-sword",
+  headArmorItemId: "item-helm",
+  offHandItemId: null,
+  tags: [{ tag: "dragon" }, { tag: "fire" }],
+  powers: [
+    {
+      id: "power-1",
+      sortOrder: 0,
+      name: "Ember Breath",
+      effectPackets: [
+        {
+          id: "packet-1",
+          sortOrder: 0,
+          packetIndex: 0,
+          intention: "ATTACK",
+          type: "ATTACK",
+          diceCount: 3,
+          potency: 2,
+          detailsJson: { attackMode: "PHYSICAL", damageTypes: ["Fire"], rangeCategory: "MELEE", rangeValue: 1 },
+        },
+      ],
+    },
+  ],
+} as MonsterRevisionSnapshot;
+
+check(
+  monsterCoreDroppedEquipmentSlots(snapshot).join() === "mainHandItemId,headArmorItemId",
+  "filled equipment slots are reported as dropped",
+);
+
+const body = monsterCorePromotionBody(snapshot);
+check(body.mainHandItemId === null && body.headArmorItemId === null, "equipment is cleared for CORE");
+check(Array.isArray(body.tags) && body.tags.join() === "dragon,fire", "tags become plain strings");
+const [power] = body.powers as Array<{ id?: string; effectPackets: Array<{ id?: string }> }>;
+check(power.id === undefined && power.effectPackets[0].id === undefined, "power and packet ids are dropped");
+check((snapshot.powers as Array<{ id: string }>)[0].id === "power-1", "the stored snapshot is left untouched");
+
+const normalized = normalizeMonsterUpsertInput(body, { campaignId: null });
+check(normalized.ok, `a promotion body passes upsert validation: ${normalized.ok ? "" : normalized.error}`);
+check(normalized.data.name === "Ash Wyrm" && normalized.data.legendary, "monster scalars survive promotion");
+check(normalized.data.powers[0]?.name === "Ember Breath", "powers survive promotion");
+
+console.log(`monsterPromotion.smoke.ts passed (${checks} checks).`);
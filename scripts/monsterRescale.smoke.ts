@@ -0,0 +1,210 @@
+import { DEFAULT_COMBAT_TUNING_VALUES } from "../lib/config/combatTuningShared";
+import { evaluateAttributeBalancingGuide } from "../lib/summoning/attributeBalancingGuide";
+import { calculateMonsterResilienceValues } from "../lib/summoning/attributes";
+import {
+  MonsterRescaleError,
+  parseMonsterRescaleTarget,
+  rescaleAttributes,
+  rescaleMonster,
+  type MonsterRescaleSource,
+} from "../lib/summoning/monsterRescale";
+import type { EffectPacket, Power } from "../lib/summoning/types";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function expectInvalid(body: unknown, message: string) {
+  try {
+    parseMonsterRescaleTarget(body);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof MonsterRescaleError && error.code === "INVALID_RESCALE_TARGET", message);
+  }
+}
+
+function attackPacket(diceCount: number): EffectPacket {
+  return {
+    sortOrder: 0,
+    packetIndex: 0,
+    hostility: "HOSTILE",
+    intention: "ATTACK",
+    type: "ATTACK",
+    specific: null,
+    diceCount,
+    potency: 2,
+    effectTimingType: "ON_CAST",
+    effectTimingTurns: null,
+    effectDurationType: "INSTANT",
+    effectDurationTurns: null,
+    dealsWounds: true,
+    woundChannel: "PHYSICAL",
+    targetedAttribute: null,
+    applicationModeKey: null,
+    resolutionOrigin: "CASTER",
+    applyTo: "PRIMARY_TARGET",
+    triggerConditionText: null,
+    detailsJson: {
+      attackMode: "PHYSICAL",
+      damageTypes: ["Slashing"],
+      rangeCategory: "MELEE",
+      rangeValue: 1,
+      rangeExtra: {},
+    },
+    localTargetingOverride: null,
+  };
+}
+
+function attackPower(name: string, diceCount: number): Power {
+  const packet = attackPacket(diceCount);
+  return {
+    sortOrder: 0,
+    name,
+    description: null,
+    schemaVersion: 1,
+    rulesVersion: "v1",
+    contentRevision: 1,
+    previewRendererVersion: 1,
+    status: "ACTIVE",
+    descriptorChassis: "IMMEDIATE",
+    descriptorChassisConfig: {},
+    chargeType: null,
+    chargeTurns: null,
+    chargeBonusDicePerTurn: null,
+    cooldownTurns: 1,
+    cooldownReduction: 0,
+    counterMode: "NO",
+    commitmentModifier: "STANDARD",
+    triggerMethod: null,
+    attachedHostAnchorType: null,
+    lifespanType: "NONE",
+    lifespanTurns: null,
+    previewSummaryOverride: null,
+    rangeCategories: ["MELEE"],
+    meleeTargets: 1,
+    rangedTargets: null,
+    rangedDistanceFeet: null,
+    aoeCenterRangeFeet: null,
+    aoeCount: null,
+    aoeShape: null,
+    aoeSphereRadiusFeet: null,
+    aoeConeLengthFeet: null,
+    aoeLineWidthFeet: null,
+    aoeLineLengthFeet: null,
+    primaryDefenceGate: {
+      sourcePacketIndex: 0,
+      gateResult: "DODGE_OR_PROTECTION",
+      protectionChannel: "PHYSICAL",
+      resistAttribute: null,
+      hostileEntryPattern: null,
+      resolutionSource: "INFERRED",
+    },
+    defenceRequirement: "DODGE_OR_PROTECTION",
+    diceCount,
+    potency: 2,
+    effectDurationType: "INSTANT",
+    effectDurationTurns: null,
+    durationType: "INSTANT",
+    durationTurns: null,
+    effectPackets: [packet],
+    intentions: [packet],
+  };
+}
+
+const tuning = { protection: DEFAULT_COMBAT_TUNING_VALUES, power: null };
+
+const baseAttributes = {
+  attackDie: "D10",
+  guardDie: "D6",
+  fortitudeDie: "D8",
+  intellectDie: "D4",
+  synergyDie: "D6",
+  braveryDie: "D8",
+} as const;
+const sourcePools = calculateMonsterResilienceValues(
+  { level: 3, tier: "SOLDIER", legendary: false, ...baseAttributes },
+  DEFAULT_COMBAT_TUNING_VALUES,
+);
+const source: MonsterRescaleSource = {
+  level: 3,
+  tier: "SOLDIER",
+  legendary: false,
+  ...baseAttributes,
+  calculatorArchetype: "BALANCED",
+  physicalResilienceMax: sourcePools.physicalResilienceMax + 4,
+  mentalPerseveranceMax: sourcePools.mentalPerseveranceMax,
+  weaponSkillValue: 3,
+  armorSkillValue: 2,
+};
+const powers = [attackPower("Cleave", 2)];
+
+check(
+  JSON.stringify(parseMonsterRescaleTarget({ level: "8", tier: "ELITE", legendary: true })) ===
+    JSON.stringify({ level: 8, tier: "ELITE", legendary: true }),
+  "numeric string levels are accepted",
+);
+expectInvalid({ level: 0, tier: "ELITE", legendary: false }, "levels below 1 are rejected");
+expectInvalid({ level: 21, tier: "ELITE", legendary: false }, "levels above 20 are rejected");
+expectInvalid({ level: 2.5, tier: "ELITE", legendary: false }, "fractional levels are rejected");
+expectInvalid({ level: 5, tier: "CHAMPION", legendary: false }, "unknown tiers are rejected");
+expectInvalid({ level: 5, tier: "ELITE" }, "the legendary flag is required");
+
+const identity = rescaleMonster(source, powers, { level: 3, tier: "SOLDIER", legendary: false }, tuning);
+check(identity.report.changes.length === 0, "rescaling to the same level and tier changes nothing");
+check(identity.powers[0].diceCount === 2, "identity rescales keep power dice");
+check(identity.fields.physicalResilienceMax === source.physicalResilienceMax, "identity rescales keep pools");
+
+const guideBefore = evaluateAttributeBalancingGuide({
+  level: 3,
+  tier: "SOLDIER",
+  archetype: "BALANCED",
+  attributes: baseAttributes,
+});
+const up = rescaleMonster(source, powers, { level: 12, tier: "ELITE", legendary: true }, tuning);
+const guideAfter = up.report.attributeGuide.after;
+check(up.report.attributeGuide.before.currentTotal === guideBefore.currentTotal, "the report carries the source guide");
+check(guideAfter.currentTotal > guideBefore.currentTotal, "higher targets raise the attribute total");
+check(
+  Math.abs(guideAfter.budgetDelta - guideBefore.budgetDelta) <= 2,
+  "the spread sits as far from its new budget as the source did from its own",
+);
+check(guideAfter.shapeReadout === guideBefore.shapeReadout, "the attribute shape is kept");
+
+const upPools = calculateMonsterResilienceValues(up.fields, DEFAULT_COMBAT_TUNING_VALUES);
+check(
+  up.fields.physicalResilienceMax === upPools.physicalResilienceMax + 4,
+  "hand-authored resilience offsets survive the recompute",
+);
+check(up.fields.mentalPerseveranceMax === upPools.mentalPerseveranceMax, "formula pools follow the formula");
+check(
+  up.fields.physicalResilienceCurrent === up.fields.physicalResilienceMax &&
+    up.fields.mentalPerseveranceCurrent === up.fields.mentalPerseveranceMax,
+  "rescaled drafts start at full pools",
+);
+check(up.powers[0].diceCount >= powers[0].diceCount, "power dice do not shrink for a stronger target");
+check(up.powers[0].effectPackets?.[0]?.diceCount === up.powers[0].diceCount, "packet dice scale with the power");
+check(up.report.powerBands.length === 1, "each power reports its cooldown band");
+check(
+  up.report.powerBands[0].targetBracket === up.report.powerBands[0].sourceBracket ||
+    up.report.warnings.some((warning) => warning.startsWith("Cleave")),
+  "a power that leaves its band is called out",
+);
+check(powers[0].diceCount === 2, "the source powers are not mutated");
+
+const fields = new Set(up.report.changes.map((change) => change.field));
+check(fields.has("level") && fields.has("tier") && fields.has("legendary"), "identity changes are reported");
+check(
+  up.report.changes.every((change) => change.from !== change.to),
+  "the report only lists fields that moved",
+);
+check(fields.has("physicalResilienceMax"), "recomputed pools are reported");
+
+const down = rescaleAttributes(baseAttributes, source, { level: 1, tier: "MINION" }, "BALANCED");
+const downGuide = evaluateAttributeBalancingGuide({ level: 1, tier: "MINION", archetype: "BALANCED", attributes: down });
+check(downGuide.currentTotal <= guideBefore.currentTotal, "lower targets do not raise the attribute total");
+check(down.attackDie === "D10" || down.attackDie === "D8", "peaks are trimmed last when lowering");
+
+console.log(`monsterRescale.smoke.ts passed (${checks} checks).`);
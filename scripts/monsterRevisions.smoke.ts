@@ -0,0 +1,131 @@
+import {
+  diffMonsterRevisionSnapshots,
+  formatMonsterRevisionValue,
+  monsterRevisionRestoreBody,
+  type MonsterRevisionDiffEntry,
+  type MonsterRevisionSnapshot,
+} from "../lib/summoning/monsterRevisions";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function find(entries: MonsterRevisionDiffEntry[], path: string) {
+  return entries.find((entry) => entry.path === path);
+}
+
+function snapshot(): MonsterRevisionSnapshot {
+  return {
+    id: "m1",
+    name: "Ash Wolf",
+    level: 3,
+    tier: "SOLDIER",
+    legendary: false,
+    attackDie: "D6",
+    guardDie: "D8",
+    weaponSkillValue: 3,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+    tags: [{ tag: "beast" }, { tag: "pack" }],
+    traits: [
+      { sortOrder: 0, traitDefinitionId: "t1", trait: { name: "Keen Nose" } },
+      { sortOrder: 1, traitDefinitionId: "t2", trait: { name: "Pack Tactics" } },
+    ],
+    attacks: [{ sortOrder: 0, attackName: "Bite", attackConfig: { melee: { enabled: true } } }],
+    powers: [
+      {
+        id: "p1",
+        name: "Howl",
+        cooldownTurns: 2,
+        effectPackets: [
+          { id: "e1", packetIndex: 0, intention: "CONTROL", diceCount: 1, potency: 2 },
+          { id: "e2", packetIndex: 1, intention: "DEBUFF", diceCount: 1, potency: 1 },
+        ],
+      },
+      { id: "p2", name: "Lunge", cooldownTurns: 1, effectPackets: [] },
+    ],
+  };
+}
+
+const base = snapshot();
+check(diffMonsterRevisionSnapshots(base, snapshot()).length === 0, "identical snapshots have no differences");
+
+const touched = { ...snapshot(), updatedAt: "2026-10-02T00:00:00.000Z", id: "m2" };
+check(diffMonsterRevisionSnapshots(base, touched).length === 0, "bookkeeping fields are not edits");
+
+const edited = snapshot();
+edited.name = "Ember Wolf";
+edited.attackDie = "D8";
+edited.weaponSkillValue = 4;
+edited.tags = [{ tag: "beast" }, { tag: "fire" }];
+edited.traits = [
+  { sortOrder: 0, traitDefinitionId: "t2", trait: { name: "Pack Tactics" } },
+  { sortOrder: 1, traitDefinitionId: "t3", trait: { name: "Fire Ward" } },
+];
+edited.attacks = [{ sortOrder: 0, attackName: "Burning Bite", attackConfig: { melee: { enabled: true } } }];
+const editedPowers = (edited.powers as Array<Record<string, unknown>>).slice(0, 1);
+editedPowers[0] = {
+  ...editedPowers[0],
+  cooldownTurns: 3,
+  effectPackets: [
+    { id: "e1", packetIndex: 0, intention: "CONTROL", diceCount: 2, potency: 2 },
+    { id: "e3", packetIndex: 2, intention: "ATTACK", diceCount: 1, potency: 3 },
+  ],
+};
+editedPowers.push({ id: "p3", name: "Flame Breath", cooldownTurns: 3, effectPackets: [] });
+edited.powers = editedPowers;
+
+const diff = diffMonsterRevisionSnapshots(base, edited);
+check(find(diff, "name")?.section === "monster", "name change is a monster field");
+check(find(diff, "name")?.after === "Ember Wolf", "name change carries the new value");
+check(find(diff, "attackDie")?.section === "attributes", "dice are grouped under attributes");
+check(find(diff, "weaponSkillValue")?.before === 3, "skill change carries the old value");
+check(find(diff, "guardDie") === undefined, "unchanged attributes are not reported");
+check(find(diff, "tags[pack]")?.change === "removed", "removed tag is reported");
+check(find(diff, "tags[fire]")?.change === "added", "added tag is reported");
+check(find(diff, "traits[Keen Nose]")?.change === "removed", "removed trait is reported by name");
+check(find(diff, "traits[Fire Ward]")?.change === "added", "added trait is reported by name");
+check(find(diff, "traits.order") === undefined, "kept traits in the same order are not reordered");
+check(find(diff, "attacks[0].attackName")?.after === "Burning Bite", "attack rename is reported");
+check(find(diff, "attacks[0].attackConfig") === undefined, "unchanged attack config is not reported");
+check(find(diff, "powers[Howl].cooldownTurns")?.section === "powers", "power field change is reported");
+check(find(diff, "powers[Lunge]")?.change === "removed", "removed power is reported");
+check(find(diff, "powers[Flame Breath]")?.change === "added", "added power is reported");
+const diceChange = find(diff, "powers[Howl].packets[0].diceCount");
+check(diceChange?.section === "packets" && diceChange.before === 1 && diceChange.after === 2, "packet field change");
+check(find(diff, "powers[Howl].packets[1]")?.change === "removed", "removed packet is reported");
+check(find(diff, "powers[Howl].packets[2]")?.change === "added", "added packet is reported");
+
+const reordered = snapshot();
+reordered.traits = [
+  { sortOrder: 0, traitDefinitionId: "t2", trait: { name: "Pack Tactics" } },
+  { sortOrder: 1, traitDefinitionId: "t1", trait: { name: "Keen Nose" } },
+];
+const reorderDiff = diffMonsterRevisionSnapshots(base, reordered);
+check(reorderDiff.length === 1 && reorderDiff[0].path === "traits.order", "trait reorder is a single entry");
+
+// A restore recreates rows with fresh ids; pairing falls back to power name and packet index.
+const rekeyed = snapshot();
+rekeyed.powers = (rekeyed.powers as Array<Record<string, unknown>>).map((power, index) => ({
+  ...power,
+  id: `new-p${index}`,
+  effectPackets: (power.effectPackets as Array<Record<string, unknown>>).map((packet) => ({
+    ...packet,
+    id: `new-${String(packet.id)}`,
+  })),
+}));
+check(diffMonsterRevisionSnapshots(base, rekeyed).length === 0, "rows with new ids pair by name and index");
+
+const body = monsterRevisionRestoreBody(base);
+check(JSON.stringify(body.tags) === JSON.stringify(["beast", "pack"]), "restore body flattens tags");
+check(body.powers === base.powers, "restore body keeps powers and their ids");
+check(body.name === "Ash Wolf", "restore body keeps monster fields");
+
+check(formatMonsterRevisionValue(null) === "(none)", "empty values format as none");
+check(formatMonsterRevisionValue({ b: 1, a: 2 }) === '{"a":2,"b":1}', "objects format with stable keys");
+check(formatMonsterRevisionValue("x".repeat(100), 10) === "xxxxxxx...", "long values are clipped");
+
+console.log(`monsterRevisions.smoke.ts passed (${checks} checks).`);
@@ -0,0 +1,118 @@
+import {
+  buildMonsterSearchWhere,
+  encodeMonsterSearchCursor,
+  monsterSearchCursorWhere,
+  monsterSearchOrderBy,
+  MonsterSearchError,
+  pageMonsterSearchResults,
+  parseMonsterSearchParams,
+  sortMonsterSearchEntries,
+} from "../lib/summoning/monsterSearch";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function parse(query: string) {
+  return parseMonsterSearchParams(new URLSearchParams(query));
+}
+
+function expectInvalid(query: string, message: string) {
+  try {
+    parse(query);
+    check(false, message);
+  } catch (error) {
+    check(error instanceof MonsterSearchError && error.code === "INVALID_MONSTER_SEARCH", message);
+  }
+}
+
+// A bare request keeps the old full list.
+const bare = parse("campaignId=c1");
+check(bare.sort === "updatedAt" && bare.order === "desc", "default sort is most recently updated");
+check(bare.limit === null && bare.cursor === null, "no pagination without a limit");
+check(JSON.stringify(buildMonsterSearchWhere(bare, "c1")) === JSON.stringify({
+  AND: [{ OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId: "c1" }] }],
+}), "bare search is CORE plus this campaign");
+
+const full = parse(
+  "q=%20wolf%20&tier=elite,boss&legendary=false&minLevel=2&maxLevel=6&source=CAMPAIGN" +
+    "&tags=Beast&tags=pack,beast&tagMode=all&traits=t1,t2&intentions=control&sort=name&limit=20",
+);
+check(full.q === "wolf", "name search is trimmed");
+check(full.tiers.join() === "ELITE,BOSS", "tiers are upper-cased and split");
+check(full.legendary === false, "legendary false is kept");
+check(full.minLevel === 2 && full.maxLevel === 6, "level range is read");
+check(full.tags.join() === "Beast,pack,beast", "tags merge repeated and comma-separated values");
+check(full.traitIds.join() === "t1,t2" && full.intentions.join() === "CONTROL", "traits and intentions are read");
+check(full.order === "asc" && full.limit === 20, "name sorts ascending by default");
+
+const where = buildMonsterSearchWhere(full, "c1");
+const clauses = (where.AND as Array<Record<string, unknown>>).map((clause) => JSON.stringify(clause));
+check(clauses[0] === JSON.stringify({ source: "CAMPAIGN", campaignId: "c1" }), "campaign source stays in this campaign");
+check(clauses.includes(JSON.stringify({ level: { gte: 2, lte: 6 } })), "level range becomes one clause");
+check(clauses.filter((clause) => clause.startsWith('{"tags"')).length === 3, "tag mode all needs every tag");
+check(clauses.filter((clause) => clause.startsWith('{"traits"')).length === 2, "every trait must be present");
+check(clauses.some((clause) => clause.includes('"intention":{"in":["CONTROL"]}')), "intention filter reaches packets");
+
+const anyTags = buildMonsterSearchWhere(parse("tags=beast,fire"), "c1");
+check((anyTags.AND as unknown[]).length === 2, "tag mode any is a single clause");
+check(
+  JSON.stringify(buildMonsterSearchWhere(parse("source=core"), "c1").AND) === JSON.stringify([{ source: "CORE" }]),
+  "core source drops campaign monsters",
+);
+
+expectInvalid("tier=GOD", "unknown tier is rejected");
+expectInvalid("legendary=yes", "legendary must be a boolean");
+expectInvalid("minLevel=5&maxLevel=2", "inverted level range is rejected");
+expectInvalid("source=CORE,CAMPAIGN", "only one source is allowed");
+expectInvalid("tagMode=some", "unknown tag mode is rejected");
+expectInvalid("intentions=FLIGHT", "unknown intention is rejected");
+expectInvalid("sort=damage", "unknown sort is rejected");
+expectInvalid("limit=500", "limit is capped");
+expectInvalid("cursor=not-a-cursor", "garbage cursor is rejected");
+
+// Stored sorts page with a keyset cursor.
+const levelQuery = parse("sort=level&order=asc&limit=2");
+check(JSON.stringify(monsterSearchOrderBy(levelQuery)) === JSON.stringify([{ level: "asc" }, { id: "asc" }]), "id breaks ties");
+const rows = [
+  { id: "a", level: 1 },
+  { id: "b", level: 2 },
+  { id: "c", level: 2 },
+];
+const firstPage = pageMonsterSearchResults(rows, levelQuery, (row) => row.level);
+check(firstPage.page.length === 2 && firstPage.nextCursor !== null, "an extra row issues a next cursor");
+const secondQuery = parse(`sort=level&order=asc&limit=2&cursor=${firstPage.nextCursor}`);
+check(secondQuery.cursor?.value === 2 && secondQuery.cursor.id === "b", "cursor round-trips");
+check(
+  JSON.stringify(monsterSearchCursorWhere(secondQuery)) ===
+    JSON.stringify({ OR: [{ level: { gt: 2 } }, { level: 2, id: { gt: "b" } }] }),
+  "cursor continues after the last row",
+);
+check(pageMonsterSearchResults(rows.slice(2), secondQuery, (row) => row.level).nextCursor === null, "last page has no cursor");
+const dateCursor = encodeMonsterSearchCursor({ sort: "updatedAt", order: "desc", value: "2026-10-01T00:00:00.000Z", id: "a" });
+const dateWhere = monsterSearchCursorWhere(parse(`cursor=${dateCursor}`));
+check(JSON.stringify(dateWhere).includes('"lt":"2026-10-01T00:00:00.000Z"'), "updatedAt cursor pages backwards in time");
+check(parse(`cursor=${dateCursor}`).limit === 50, "a cursor without a limit uses the default page size");
+expectInvalid(`sort=name&cursor=${dateCursor}`, "cursor from another sort is rejected");
+
+// Radar sorts order in memory with the same tie-break.
+const radarQuery = parse("sort=physicalThreat&limit=2");
+const radarEntries = [
+  { id: "x", threat: 4 },
+  { id: "w", threat: 7 },
+  { id: "y", threat: 4 },
+];
+const sorted = sortMonsterSearchEntries(radarEntries, radarQuery, (entry) => entry.threat);
+check(sorted.map((entry) => entry.id).join() === "w,x,y", "highest threat first, id breaks ties");
+const radarPage = pageMonsterSearchResults(sorted, radarQuery, (entry) => entry.threat);
+const radarNext = parse(`sort=physicalThreat&limit=2&cursor=${radarPage.nextCursor}`);
+check(
+  sortMonsterSearchEntries(radarEntries, radarNext, (entry) => entry.threat).map((entry) => entry.id).join() === "y",
+  "radar cursor skips rows already returned",
+);
+check(monsterSearchCursorWhere(radarNext) === null, "radar cursors are not pushed to the database");
+
+console.log(`monsterSearch.smoke.ts passed (${checks} checks).`);
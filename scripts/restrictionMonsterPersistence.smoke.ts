@@ -323,11 +323,11 @@ deepEqual(submitted[reconciliation.createPowers[0]!.submittedPowerIndex]?.restri
 deepEqual(reconciliation.deletePowerIds, ["power-removed"], "Removed Power is deleted without Restriction transfer.");
 deepEqual(reconciliation.updatePowers[1]?.updatePackets, [{ submittedPacketIndex: 0, packetId: "packet-a" }], "Packet edits preserve packet identity.");
 
-// Current route and editor bridges all include the relational field without adding UI.
+// Current persistence helpers and editor bridges all include the relational field without adding UI.
 for (const path of [
-  "app/api/summoning-circle/monsters/route.ts",
-  "app/api/summoning-circle/monsters/[id]/route.ts",
-  "app/api/summoning-circle/monsters/[id]/copy/route.ts",
+  "app/api/summoning-circle/monsters/monsterCreate.ts",
+  "app/api/summoning-circle/monsters/[id]/monsterUpdate.ts",
+  "app/api/summoning-circle/monsters/[id]/monsterCopy.ts",
 ]) {
   const source = readFileSync(path, "utf8");
   ok(source.includes("restrictionJson: serializeMonsterRestrictionForDatabase"), `${path} writes restrictionJson.`);
@@ -336,11 +336,12 @@ for (const path of [
 const createRoute = readFileSync("app/api/summoning-circle/monsters/route.ts", "utf8");
 const updateRoute = readFileSync("app/api/summoning-circle/monsters/[id]/route.ts", "utf8");
 const copyRoute = readFileSync("app/api/summoning-circle/monsters/[id]/copy/route.ts", "utf8");
+const copyPersistence = readFileSync("app/api/summoning-circle/monsters/[id]/monsterCopy.ts", "utf8");
 ok(createRoute.includes("normalizeMonsterUpsertInput(body, { campaignId })"), "Create validation uses the Monster campaign identity.");
 ok(updateRoute.includes("normalizeMonsterUpsertInput(body, { campaignId })"), "Update validation uses the Monster campaign identity.");
-ok(copyRoute.includes("campaignId: source.campaignId"), "Copy validates every Restriction against its source and destination campaign identity.");
+ok(copyPersistence.includes("campaignId: source.campaignId"), "Copy validates every Restriction against its source and destination campaign identity.");
 ok(copyRoute.includes("{ status: 400 }"), "Copy retains a blocking client-error policy.");
-ok(copyRoute.includes('OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }]'), "Core/read-only source copying remains available under the existing permission filter.");
+ok(copyPersistence.includes('OR: [{ source: "CORE" }, { source: "CAMPAIGN", campaignId }]'), "Core/read-only source copying remains available under the existing permission filter.");
 const editorSource = readFileSync("app/summoning-circle/components/SummoningCircleEditor.tsx", "utf8");
 ok(editorSource.includes("readMonsterRestrictionFromDatabase(p.restriction).definition"), "Editor hydration preserves opaque Restriction data without exposing new UI.");
 ok(!editorSource.includes("Restriction editor"), "This phase does not add a Restriction editor.");
@@ -0,0 +1,127 @@
+import {
+  buildMonsterStatBlock,
+  renderMonsterStatBlockMarkdown,
+  renderMonsterStatBlocks,
+  renderMonsterStatBlockText,
+} from "../lib/summoning/statBlockExport";
+import { makeResolvedPowerCooldownAuthority } from "../lib/summoning/resolvePowerCooldownAuthority";
+import { renderTraitTemplate } from "../lib/summoning/traitTemplate";
+import { normalizeMonsterUpsertInput } from "../lib/summoning/validation";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+check(renderTraitTemplate("Roll [MonsterAttack]", { MonsterAttack: "D8" }) === "Roll d8", "die tokens render lowercase");
+check(
+  renderTraitTemplate("Heals (ceil([MonsterLevel] / 4)) wounds", { MonsterLevel: 6 }) === "Heals 2 wounds",
+  "wrapped arithmetic resolves",
+);
+check(renderTraitTemplate("[Unknown]", {}) === "?", "unknown tokens render as ?");
+
+const parsed = normalizeMonsterUpsertInput(
+  {
+    name: "Ash *Wyrm*",
+    level: 6,
+    tier: "ELITE",
+    attackDie: "D8",
+    customNotes: "Nests in ash fields.\n\nHates | pipes.",
+    traits: [
+      {
+        traitDefinitionId: "trait-scales",
+        name: "Ember Scales",
+        effectText: "Attackers take ([MonsterLevel] / 2) fire damage.",
+      },
+    ],
+    attacks: [
+      {
+        attackMode: "NATURAL",
+        attackName: "Claw",
+        attackConfig: {
+          melee: {
+            enabled: true,
+            targets: 1,
+            physicalStrength: 2,
+            mentalStrength: 0,
+            damageTypes: [{ name: "Slashing", mode: "PHYSICAL" }],
+            attackEffects: [],
+          },
+        },
+      },
+    ],
+    powers: [
+      {
+        sortOrder: 0,
+        name: "Ember Breath",
+        effectPackets: [
+          {
+            sortOrder: 0,
+            packetIndex: 0,
+            intention: "ATTACK",
+            type: "ATTACK",
+            diceCount: 3,
+            potency: 2,
+            detailsJson: { attackMode: "PHYSICAL", damageTypes: ["Fire"], rangeCategory: "MELEE", rangeValue: 1 },
+          },
+        ],
+      },
+    ],
+    phases: [{ name: "Enraged", triggerType: "RESILIENCE_PERCENT", triggerValue: 50, physicalProtectionDelta: 2 }],
+  },
+  { campaignId: "campaign-a" },
+);
+check(parsed.ok, `fixture normalizes: ${parsed.ok ? "" : parsed.error}`);
+
+const monster = {
+  ...parsed.data,
+  powers: parsed.data.powers.map((power) => ({
+    ...power,
+    cooldownAuthority: makeResolvedPowerCooldownAuthority({ effectiveCooldownTurns: 3, source: "ACTIVE_TUNING" }),
+  })),
+};
+const block = buildMonsterStatBlock({ monster });
+const sectionTitles = block.sections.map((section) => section.title);
+check(block.subtitle === "Level 6 | Elite", "subtitle shows level and tier");
+check(block.attributes.length === 6 && block.attributes[0].die === "D8", "all six attributes are listed");
+check(
+  sectionTitles.join() === "Traits,Guard,Attacks,Powers,Boss Phases,Notes",
+  `empty sections are dropped (${sectionTitles.join()})`,
+);
+
+const section = (title: string) => block.sections.find((entry) => entry.title === title)!;
+check(section("Traits").entries[0].lines[0].text === "Attackers take 3 fire damage.", "trait templates are rendered");
+check(section("Attacks").entries[0].title === "Natural Weapon: Claw", "natural attacks are listed");
+check(
+  section("Attacks").entries[0].lines.some((line) => line.text.includes("Claw inflicts")),
+  "natural attack lines name the attack",
+);
+const [power] = section("Powers").entries;
+check(power.title === "Ember Breath", "powers are listed by name");
+check(power.lines.at(-1)?.text === "Cooldown: 3 | Counter: No", "power cooldown comes from the resolved authority");
+check(section("Boss Phases").entries[0].subtitle?.includes("50%"), "phase triggers are described");
+check(section("Notes").entries[0].lines.length === 2, "blank note lines are dropped");
+
+const unresolved = buildMonsterStatBlock({ monster: parsed.data });
+check(
+  unresolved.sections.find((entry) => entry.title === "Powers")!.entries[0].lines.at(-1)?.text.startsWith("Cooldown: Unresolved"),
+  "unresolved cooldowns are called out instead of guessed",
+);
+
+const markdown = renderMonsterStatBlockMarkdown(block);
+check(markdown.startsWith("## Ash \\*Wyrm\\*\n"), "markdown escapes the monster name");
+check(markdown.includes("| Attack | D8 |"), "markdown has an attribute table");
+check(markdown.includes("### Boss Phases") && markdown.includes("**Enraged**"), "markdown writes section headings");
+check(markdown.includes("- Hates \\| pipes."), "markdown escapes table pipes in text");
+
+const text = renderMonsterStatBlockText(block);
+check(text.startsWith("ASH *WYRM*\nLevel 6 | Elite\n"), "plain text leads with the name");
+check(text.includes("\nTRAITS\nEmber Scales\n  Attackers take 3 fire damage.\n"), "plain text indents entry lines");
+check(!text.includes("**"), "plain text has no markdown");
+
+check(renderMonsterStatBlocks([block, block], "markdown").split("\n---\n").length === 2, "markdown blocks are separated");
+check(renderMonsterStatBlocks([block], "text") === text, "a single block renders unchanged");
+
+console.log(`statBlockExport.smoke.ts passed (${checks} checks).`);
@@ -301,8 +301,8 @@ assert.equal(
     : "THREE_FIELD_AUGMENT_DEBUFF_AUTHORING_DISABLED: Modifier authoring is not available in Phase 1.",
 );
 
-const postSource = readFileSync("app/api/summoning-circle/monsters/route.ts", "utf8");
-const putSource = readFileSync("app/api/summoning-circle/monsters/[id]/route.ts", "utf8");
+const postSource = readFileSync("app/api/summoning-circle/monsters/monsterCreate.ts", "utf8");
+const putSource = readFileSync("app/api/summoning-circle/monsters/[id]/monsterUpdate.ts", "utf8");
 const editorSource = readFileSync(
   "app/summoning-circle/components/SummoningCircleEditor.tsx",
   "utf8",
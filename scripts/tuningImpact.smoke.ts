@@ -0,0 +1,108 @@
+import {
+  compareCharacterImpact,
+  compareMonsterImpact,
+  parseTuningImpactKind,
+  sortTuningImpactEntries,
+  type CharacterImpactSnapshot,
+  type MonsterImpactSnapshot,
+  type TuningImpactEntity,
+} from "../lib/config/tuningImpactShared";
+
+let checks = 0;
+
+function check(condition: unknown, message: string): asserts condition {
+  checks += 1;
+  if (!condition) throw new Error(`Check ${checks} failed: ${message}`);
+}
+
+function entity(id: string, entityType: "monster" | "character" = "monster"): TuningImpactEntity {
+  return { entityType, id, name: id, campaignId: null, source: entityType === "monster" ? "CORE" : null };
+}
+
+const radar = {
+  physicalThreat: 5,
+  mentalThreat: 2,
+  physicalSurvivability: 6,
+  mentalSurvivability: 3,
+  manipulation: 1,
+  synergy: 0,
+  mobility: 4,
+  presence: 5,
+};
+
+function monster(overrides: Partial<MonsterImpactSnapshot> = {}): MonsterImpactSnapshot {
+  return {
+    radarAxes: radar,
+    powers: [{ name: "Bite", basePowerValue: 10, derivedCooldownTurns: 2, cooldownBracket: "moderate" }],
+    error: null,
+    ...overrides,
+  };
+}
+
+check(parseTuningImpactKind("power") === "power", "known kinds parse");
+check(parseTuningImpactKind("forge") === null, "unknown kinds are rejected");
+
+// Nothing moved, nothing reported.
+check(compareMonsterImpact(entity("same"), monster(), monster()) === null, "unchanged monster is skipped");
+
+// A small radar drift is listed but not flagged.
+const drift = compareMonsterImpact(
+  entity("drift"),
+  monster(),
+  monster({ radarAxes: { ...radar, mobility: 4.4 } }),
+);
+check(drift?.changes.length === 1 && drift.changes[0].delta === 0.4, "small drift is listed with its delta");
+check(drift?.crossings.length === 0, "small drift is not flagged");
+
+// A whole-point radar shift and a power leaving its tier are both flagged.
+const shifted = compareMonsterImpact(
+  entity("shifted"),
+  monster(),
+  monster({
+    radarAxes: { ...radar, physicalThreat: 6.2 },
+    powers: [{ name: "Bite", basePowerValue: 16, derivedCooldownTurns: 4, cooldownBracket: "extreme" }],
+  }),
+);
+const codes = shifted?.crossings.map((crossing) => crossing.code) ?? [];
+check(codes.includes("RADAR_SHIFT"), "radar shift of a point or more is flagged");
+check(codes.includes("POWER_OVER_TIER"), "power pushed past heavy is flagged");
+check(
+  shifted?.changes.some((change) => change.metric === "Bite cooldown bracket" && change.after === "extreme"),
+  "bracket change is listed",
+);
+
+// A power already over tier is not flagged again.
+const alreadyOver = compareMonsterImpact(
+  entity("alreadyOver"),
+  monster({ powers: [{ name: "Bite", basePowerValue: 14, derivedCooldownTurns: 4, cooldownBracket: "extreme" }] }),
+  monster({ powers: [{ name: "Bite", basePowerValue: 15, derivedCooldownTurns: 4, cooldownBracket: "overExtreme" }] }),
+);
+check(!alreadyOver?.crossings.some((crossing) => crossing.code === "POWER_OVER_TIER"), "already over tier stays quiet");
+
+const failed = compareMonsterImpact(entity("failed"), monster(), monster({ powers: [], error: "bad packet" }));
+check(failed?.crossings.some((crossing) => crossing.code === "COSTING_FAILED"), "new costing failure is flagged");
+
+function character(totalSpent: number, powerPool = 20): CharacterImpactSnapshot {
+  return {
+    normal: { powerPool, totalSpent, overspent: totalSpent > powerPool },
+    signature: null,
+    powers: [{ name: "Blast", basePowerValue: totalSpent, derivedCooldownTurns: 1, cooldownBracket: null }],
+    invalidPowers: 0,
+  };
+}
+
+const overBudget = compareCharacterImpact(entity("hero", "character"), character(18), character(22));
+check(overBudget?.crossings[0]?.code === "POWER_POOL_OVERSPENT", "character pushed over budget is flagged");
+check(
+  overBudget?.changes.some((change) => change.metric === "power points spent" && change.delta === 4),
+  "spent points delta is listed",
+);
+const cheaper = compareCharacterImpact(entity("cheaper", "character"), character(18), character(16));
+check(cheaper?.crossings.length === 0, "cheaper character is not flagged");
+
+const sorted = sortTuningImpactEntries([drift!, cheaper!, shifted!, overBudget!]);
+check(sorted[0].crossings.length > 0 && sorted[1].crossings.length > 0, "flagged entries sort first");
+check(sorted[0].id === "shifted", "biggest flagged mover leads");
+check(sorted[2].id === "cheaper", "larger unflagged delta comes before smaller");
+
+console.log(`tuningImpact.smoke.ts passed (${checks} checks).`);